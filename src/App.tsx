@@ -8,6 +8,8 @@ import { HelmetProvider } from "react-helmet-async";
 import { ThemeProvider } from "next-themes";
 import { AuthProvider } from "@/hooks/useAuth";
 import { UserRoleProvider } from "@/hooks/useUserRole";
+import { ActiveCondominiumProvider, ActiveCondominiumScope } from "@/components/condominium/ActiveCondominiumProvider";
+import { OfflineSyncProvider } from "@/components/layouts/OfflineSyncProvider";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
@@ -44,7 +46,12 @@ const PartyHall = lazy(() => import("./pages/PartyHall"));
 const PartyHallSettings = lazy(() => import("./pages/PartyHallSettings"));
 const PartyHallNotifications = lazy(() => import("./pages/PartyHallNotifications"));
 const ResidentAccess = lazy(() => import("./pages/ResidentAccess"));
+const VerifyDocument = lazy(() => import("./pages/VerifyDocument"));
+const GuestInvitation = lazy(() => import("./pages/GuestInvitation"));
 const ResidentPackages = lazy(() => import("./pages/resident/Packages"));
+const ResidentAppeals = lazy(() => import("./pages/resident/Appeals"));
+const ResidentVisitors = lazy(() => import("./pages/resident/Visitors"));
+const ResidentPartyHall = lazy(() => import("./pages/resident/PartyHall"));
 const AuthCallback = lazy(() => import("./pages/AuthCallback"));
 const SuperAdminDashboard = lazy(() => import("./pages/SuperAdminDashboard"));
 const Sindicos = lazy(() => import("./pages/superadmin/Sindicos"));
@@ -68,21 +75,32 @@ const PackageTypes = lazy(() => import("./pages/superadmin/PackageTypes"));
 const ExportDatabase = lazy(() => import("./pages/superadmin/ExportDatabase"));
 const PorteiroDashboard = lazy(() => import("./pages/porteiro/Dashboard"));
 const RegisterPackage = lazy(() => import("./pages/porteiro/RegisterPackage"));
+const RegisterPackageBatch = lazy(() => import("./pages/porteiro/RegisterPackageBatch"));
 const PorteiroPackages = lazy(() => import("./pages/porteiro/Packages"));
 const PorteiroCondominio = lazy(() => import("./pages/porteiro/Condominio"));
 const PorteiroPackagesHistory = lazy(() => import("./pages/porteiro/PackagesHistory"));
 const PortariaOccurrences = lazy(() => import("./pages/porteiro/PortariaOccurrences"));
 const ShiftHandover = lazy(() => import("./pages/porteiro/ShiftHandover"));
+const PortariaVisitors = lazy(() => import("./pages/porteiro/PortariaVisitors"));
+const PorteiroPartyHallEvents = lazy(() => import("./pages/porteiro/PartyHallEvents"));
 const ShiftChecklistSettings = lazy(() => import("./pages/sindico/ShiftChecklistSettings"));
 const SindicoPortariaOccurrences = lazy(() => import("./pages/sindico/PortariaOccurrences"));
 const SindicoPortariaShiftHandovers = lazy(() => import("./pages/sindico/PortariaShiftHandovers"));
+const SindicoPortariaVisitors = lazy(() => import("./pages/sindico/PortariaVisitors"));
+const SindicoWhatsAppInbox = lazy(() => import("./pages/sindico/WhatsAppInbox"));
+const PorteiroWhatsAppInbox = lazy(() => import("./pages/porteiro/WhatsAppInbox"));
 const SindicoZeladores = lazy(() => import("./pages/sindico/Zeladores"));
 const SindicoManutencoes = lazy(() => import("./pages/sindico/Manutencoes"));
 const ManutencoesCategorias = lazy(() => import("./pages/sindico/ManutencoesCategorias"));
 const ManutencoesHistorico = lazy(() => import("./pages/sindico/ManutencoesHistorico"));
+const SindicoCarteira = lazy(() => import("./pages/sindico/Carteira"));
+const SindicoAdministradora = lazy(() => import("./pages/sindico/Administradora"));
 const ZeladorDashboard = lazy(() => import("./pages/zelador/Dashboard"));
 const ZeladorManutencoes = lazy(() => import("./pages/zelador/Manutencoes"));
 const ZeladorSettings = lazy(() => import("./pages/zelador/Settings"));
+const ConselhoDashboard = lazy(() => import("./pages/conselho/Dashboard"));
+const ConselhoOcorrencias = lazy(() => import("./pages/conselho/Ocorrencias"));
+const ConselhoManutencoes = lazy(() => import("./pages/conselho/Manutencoes"));
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -106,7 +124,10 @@ const App = () => (
           <BrowserRouter>
             <AuthProvider>
             <UserRoleProvider>
+            <ActiveCondominiumProvider>
+            <OfflineSyncProvider>
             <Suspense fallback={<div className="flex items-center justify-center min-h-screen"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" /></div>}>
+            <ActiveCondominiumScope>
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/planos" element={<Plans />} />
@@ -162,7 +183,7 @@ const App = () => (
               <Route
                 path="/reports"
                 element={
-                  <ProtectedRoute requiredRole={["sindico", "super_admin"]}>
+                  <ProtectedRoute requiredRole={["sindico", "super_admin", "conselheiro"]}>
                     <Reports />
                   </ProtectedRoute>
                 }
@@ -271,6 +292,22 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/sindico/portaria/visitantes"
+                element={
+                  <ProtectedRoute requiredRole="sindico">
+                    <SindicoPortariaVisitors />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/sindico/conversas"
+                element={
+                  <ProtectedRoute requiredRole="sindico">
+                    <SindicoWhatsAppInbox />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/sindico/encomendas"
                 element={
@@ -320,7 +357,7 @@ const App = () => (
               <Route
                 path="/resident"
                 element={
-                  <ProtectedRoute requiredRole="morador">
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
                     <ResidentDashboard />
                   </ProtectedRoute>
                 }
@@ -328,7 +365,7 @@ const App = () => (
               <Route
                 path="/resident/occurrences"
                 element={
-                  <ProtectedRoute requiredRole="morador">
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
                     <ResidentOccurrences />
                   </ProtectedRoute>
                 }
@@ -336,7 +373,7 @@ const App = () => (
               <Route
                 path="/resident/occurrences/:id"
                 element={
-                  <ProtectedRoute requiredRole="morador">
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
                     <ResidentOccurrenceDetails />
                   </ProtectedRoute>
                 }
@@ -344,7 +381,7 @@ const App = () => (
               <Route
                 path="/resident/profile"
                 element={
-                  <ProtectedRoute requiredRole="morador">
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
                     <ResidentProfile />
                   </ProtectedRoute>
                 }
@@ -352,13 +389,39 @@ const App = () => (
               <Route
                 path="/resident/packages"
                 element={
-                  <ProtectedRoute requiredRole="morador">
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
                     <ResidentPackages />
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/resident/visitantes"
+                element={
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
+                    <ResidentVisitors />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/resident/salao-de-festas"
+                element={
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
+                    <ResidentPartyHall />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/resident/appeals"
+                element={
+                  <ProtectedRoute requiredRole={["morador", "conselheiro"]}>
+                    <ResidentAppeals />
+                  </ProtectedRoute>
+                }
+              />
               <Route path="/acesso/:token" element={<ResidentAccess />} />
               <Route path="/resident/access" element={<ResidentAccess />} />
+              <Route path="/verificar/:code" element={<VerifyDocument />} />
+              <Route path="/convite/:token" element={<GuestInvitation />} />
 
               {/* Porteiro Routes */}
               <Route
@@ -377,6 +440,14 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/porteiro/registrar/lote"
+                element={
+                  <ProtectedRoute requiredRole="porteiro">
+                    <RegisterPackageBatch />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/porteiro/encomendas"
                 element={
@@ -425,6 +496,30 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/porteiro/portaria/visitantes"
+                element={
+                  <ProtectedRoute requiredRole="porteiro">
+                    <PortariaVisitors />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/porteiro/portaria/eventos"
+                element={
+                  <ProtectedRoute requiredRole="porteiro">
+                    <PorteiroPartyHallEvents />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/porteiro/conversas"
+                element={
+                  <ProtectedRoute requiredRole="porteiro">
+                    <PorteiroWhatsAppInbox />
+                  </ProtectedRoute>
+                }
+              />
 
               {/* Sindico Manutenção */}
               <Route
@@ -459,6 +554,22 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/sindico/carteira"
+                element={
+                  <ProtectedRoute requiredRole="sindico">
+                    <SindicoCarteira />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/sindico/administradora"
+                element={
+                  <ProtectedRoute requiredRole="sindico">
+                    <SindicoAdministradora />
+                  </ProtectedRoute>
+                }
+              />
 
               {/* Zelador Routes */}
               <Route
@@ -486,6 +597,32 @@ const App = () => (
                 }
               />
 
+              {/* Conselho Routes */}
+              <Route
+                path="/conselho"
+                element={
+                  <ProtectedRoute requiredRole="conselheiro">
+                    <ConselhoDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/conselho/ocorrencias"
+                element={
+                  <ProtectedRoute requiredRole="conselheiro">
+                    <ConselhoOcorrencias />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/conselho/manutencoes"
+                element={
+                  <ProtectedRoute requiredRole="conselheiro">
+                    <ConselhoManutencoes />
+                  </ProtectedRoute>
+                }
+              />
+
               {/* Super Admin Routes */}
               <Route
                 path="/superadmin"
@@ -643,7 +780,10 @@ const App = () => (
 
               <Route path="*" element={<NotFound />} />
             </Routes>
+            </ActiveCondominiumScope>
             </Suspense>
+            </OfflineSyncProvider>
+            </ActiveCondominiumProvider>
             </UserRoleProvider>
             </AuthProvider>
           </BrowserRouter>
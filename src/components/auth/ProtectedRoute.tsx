@@ -10,7 +10,7 @@ interface ProtectedRouteProps {
 
 const ProtectedRoute = ({ children, requiredRole }: ProtectedRouteProps) => {
   const { user, loading: authLoading } = useAuth();
-  const { role, loading: roleLoading, isSuperAdmin, isSindico, isResident, isPorteiro, isZelador } = useUserRole();
+  const { role, loading: roleLoading, isSuperAdmin, isSindico, isResident, isPorteiro, isZelador, isConselheiro } = useUserRole();
   const location = useLocation();
 
   const loading = authLoading || roleLoading;
@@ -58,6 +58,8 @@ const ProtectedRoute = ({ children, requiredRole }: ProtectedRouteProps) => {
         return <Navigate to="/porteiro" replace />;
       } else if (isZelador) {
         return <Navigate to="/zelador" replace />;
+      } else if (isConselheiro) {
+        return <Navigate to="/conselho" replace />;
       } else if (isResident) {
         return <Navigate to="/resident" replace />;
       }
@@ -0,0 +1,34 @@
+import { useState, useCallback, ReactNode, Fragment } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getActiveCondominiumId, setActiveCondominiumId } from "@/lib/condominiumAccess";
+import { ActiveCondominiumContext, useActiveCondominium } from "@/hooks/useActiveCondominium";
+
+export const ActiveCondominiumProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [activeCondominiumId, setActiveId] = useState<string | null>(getActiveCondominiumId);
+
+  const switchCondominium = useCallback(
+    (condominiumId: string | null) => {
+      setActiveCondominiumId(condominiumId);
+      setActiveId(condominiumId);
+      // Cached lists were scoped to the previous condominium
+      queryClient.invalidateQueries();
+    },
+    [queryClient]
+  );
+
+  return (
+    <ActiveCondominiumContext.Provider value={{ activeCondominiumId, switchCondominium }}>
+      {children}
+    </ActiveCondominiumContext.Provider>
+  );
+};
+
+/**
+ * Remounts its children when the manager switches condominium, so pages that load their
+ * data on mount fetch it again for the new context.
+ */
+export const ActiveCondominiumScope = ({ children }: { children: ReactNode }) => {
+  const { activeCondominiumId } = useActiveCondominium();
+  return <Fragment key={activeCondominiumId ?? "all"}>{children}</Fragment>;
+};
@@ -0,0 +1,83 @@
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
+import { useActiveCondominium } from "@/hooks/useActiveCondominium";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building2, Layers } from "lucide-react";
+import { CONDOMINIUM_ACCESS_ROLE_LABELS } from "@/lib/condominiumAccess";
+
+const ALL_CONDOMINIUMS = "all";
+
+/**
+ * Lets managers of several condominiums (administradora staff) narrow the síndico portal
+ * to one of them without signing in again.
+ */
+const CondominiumContextSwitcher = () => {
+  const { managed } = useCondominiumAccess();
+  const { activeCondominiumId, switchCondominium } = useActiveCondominium();
+
+  if (managed.length <= 1) {
+    return null;
+  }
+
+  const active = managed.find((m) => m.condominium_id === activeCondominiumId);
+
+  return (
+    <div className="px-3 py-2">
+      <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+        <Building2 className="w-3 h-3" />
+        <span>Condomínio em uso</span>
+      </div>
+      <Select
+        value={active?.condominium_id || ALL_CONDOMINIUMS}
+        onValueChange={(value) => switchCondominium(value === ALL_CONDOMINIUMS ? null : value)}
+      >
+        <SelectTrigger className="w-full bg-secondary/50 border-border/50 h-auto py-2">
+          <SelectValue>
+            <div className="flex items-center gap-2 text-left">
+              {active ? (
+                <Building2 className="w-4 h-4 text-primary flex-shrink-0" />
+              ) : (
+                <Layers className="w-4 h-4 text-primary flex-shrink-0" />
+              )}
+              <span className="text-sm font-medium truncate">
+                {active ? active.condominium_name : `Todos (${managed.length})`}
+              </span>
+            </div>
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_CONDOMINIUMS} className="cursor-pointer">
+            <div className="flex items-center gap-2">
+              <Layers className="w-4 h-4 text-primary flex-shrink-0" />
+              <span className="text-sm font-medium">Todos os condomínios</span>
+            </div>
+          </SelectItem>
+          {managed.map((condominium) => (
+            <SelectItem
+              key={condominium.condominium_id}
+              value={condominium.condominium_id}
+              className="cursor-pointer"
+            >
+              <div className="flex items-center gap-2">
+                <Building2 className="w-4 h-4 text-primary flex-shrink-0" />
+                <div className="flex flex-col">
+                  <span className="text-sm font-medium">{condominium.condominium_name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {CONDOMINIUM_ACCESS_ROLE_LABELS[condominium.access_role]}
+                  </span>
+                </div>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default CondominiumContextSwitcher;
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Save, Scale, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface CondominiumCouncilSettingsProps {
+  condominiumId: string;
+}
+
+interface CouncilResident {
+  id: string;
+  full_name: string;
+  apartments: { number: string; blocks: { name: string } | null } | null;
+}
+
+const formatUnit = (resident: CouncilResident) =>
+  resident.apartments
+    ? `${resident.apartments.blocks?.name ? `${resident.apartments.blocks.name} - ` : ""}${resident.apartments.number}`
+    : "";
+
+/**
+ * Appeal window and council members who vote on residents' appeals.
+ */
+export function CondominiumCouncilSettings({ condominiumId }: CondominiumCouncilSettingsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({ appeal_window_days: "15", appeal_quorum: "3" });
+  const [selectedResidentId, setSelectedResidentId] = useState("");
+
+  const { isLoading } = useQuery({
+    queryKey: ["condominium-appeal-rules", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("condominiums")
+        .select("appeal_window_days, appeal_quorum")
+        .eq("id", condominiumId)
+        .single();
+
+      if (error) throw error;
+      setFormData({
+        appeal_window_days: String(data.appeal_window_days),
+        appeal_quorum: String(data.appeal_quorum),
+      });
+      return data;
+    },
+  });
+
+  const { data: residents = [] } = useQuery({
+    queryKey: ["condominium-council-residents", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("residents")
+        .select("id, full_name, apartments!inner(number, blocks!inner(name, condominium_id))")
+        .eq("apartments.blocks.condominium_id", condominiumId)
+        .order("full_name");
+
+      if (error) throw error;
+      return (data || []) as CouncilResident[];
+    },
+  });
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["condominium-council-members", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("council_members")
+        .select("id, resident_id")
+        .eq("condominium_id", condominiumId);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const memberResidentIds = members.map((m) => m.resident_id);
+  const availableResidents = residents.filter((r) => !memberResidentIds.includes(r.id));
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const windowDays = parseInt(data.appeal_window_days);
+      const quorum = parseInt(data.appeal_quorum);
+
+      if (isNaN(windowDays) || windowDays < 1) throw new Error("Informe um prazo de recurso válido.");
+      if (isNaN(quorum) || quorum < 1) throw new Error("Informe um quórum válido.");
+
+      const { error } = await supabase
+        .from("condominiums")
+        .update({ appeal_window_days: windowDays, appeal_quorum: quorum })
+        .eq("id", condominiumId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-appeal-rules", condominiumId] });
+      toast({ title: "Regras de recurso salvas" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (residentId: string) => {
+      const { error } = await supabase.from("council_members").insert({
+        condominium_id: condominiumId,
+        resident_id: residentId,
+        designated_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-council-members", condominiumId] });
+      setSelectedResidentId("");
+      toast({ title: "Conselheiro designado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao designar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const { error } = await supabase.from("council_members").delete().eq("id", memberId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-council-members", condominiumId] });
+      toast({ title: "Conselheiro removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          Recursos e Conselho
+        </CardTitle>
+        <CardDescription>
+          Prazo para o morador recorrer de advertências e multas, e os conselheiros que votam os recursos.
+          Enquanto o recurso estiver em votação, o vencimento da multa fica suspenso.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="appeal_window_days">Prazo para recurso (dias)</Label>
+                <Input
+                  id="appeal_window_days"
+                  type="number"
+                  min="1"
+                  value={formData.appeal_window_days}
+                  onChange={(e) => setFormData({ ...formData, appeal_window_days: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Contados a partir da decisão do síndico</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="appeal_quorum">Votos para julgar</Label>
+                <Input
+                  id="appeal_quorum"
+                  type="number"
+                  min="1"
+                  value={formData.appeal_quorum}
+                  onChange={(e) => setFormData({ ...formData, appeal_quorum: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Limitado ao número de conselheiros. Empate mantém a decisão.
+                </p>
+              </div>
+            </div>
+
+            <Button
+              onClick={() => saveRulesMutation.mutate(formData)}
+              disabled={saveRulesMutation.isPending}
+              className="gap-2"
+            >
+              {saveRulesMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Salvar
+            </Button>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">Conselheiros</h4>
+              {members.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum conselheiro designado.</p>
+              ) : (
+                <div className="space-y-2">
+                  {members.map((member) => {
+                    const resident = residents.find((r) => r.id === member.resident_id);
+                    return (
+                      <div
+                        key={member.id}
+                        className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-foreground truncate">
+                            {resident?.full_name || "Morador"}
+                          </p>
+                          {resident && (
+                            <p className="text-xs text-muted-foreground">{formatUnit(resident)}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => removeMemberMutation.mutate(member.id)}
+                          disabled={removeMemberMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Select value={selectedResidentId} onValueChange={setSelectedResidentId}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue placeholder="Selecione um morador" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableResidents.map((resident) => (
+                      <SelectItem key={resident.id} value={resident.id}>
+                        {resident.full_name} {formatUnit(resident) && `(${formatUnit(resident)})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  className="gap-2 shrink-0"
+                  onClick={() => selectedResidentId && addMemberMutation.mutate(selectedResidentId)}
+                  disabled={!selectedResidentId || addMemberMutation.isPending}
+                >
+                  {addMemberMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4" />
+                  )}
+                  Designar
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
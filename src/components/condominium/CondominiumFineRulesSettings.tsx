@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Save, Percent } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface CondominiumFineRulesSettingsProps {
+  condominiumId: string;
+}
+
+/**
+ * Late charges and recidivism window applied by the daily overdue fines job.
+ */
+export function CondominiumFineRulesSettings({ condominiumId }: CondominiumFineRulesSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    fine_late_fee_percent: "2",
+    fine_monthly_interest_percent: "1",
+    fine_recidivism_window_days: "365",
+  });
+
+  const { isLoading } = useQuery({
+    queryKey: ["condominium-fine-rules", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("condominiums")
+        .select("fine_late_fee_percent, fine_monthly_interest_percent, fine_recidivism_window_days")
+        .eq("id", condominiumId)
+        .single();
+
+      if (error) throw error;
+      setFormData({
+        fine_late_fee_percent: String(data.fine_late_fee_percent),
+        fine_monthly_interest_percent: String(data.fine_monthly_interest_percent),
+        fine_recidivism_window_days: String(data.fine_recidivism_window_days),
+      });
+      return data;
+    },
+  });
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const lateFee = parseFloat(data.fine_late_fee_percent.replace(",", "."));
+      const interest = parseFloat(data.fine_monthly_interest_percent.replace(",", "."));
+      const windowDays = parseInt(data.fine_recidivism_window_days);
+
+      if (isNaN(lateFee) || lateFee < 0 || lateFee > 100 || isNaN(interest) || interest < 0 || interest > 100) {
+        throw new Error("Informe percentuais entre 0 e 100.");
+      }
+      if (isNaN(windowDays) || windowDays < 1) {
+        throw new Error("Informe um período de reincidência válido.");
+      }
+
+      const { error } = await supabase
+        .from("condominiums")
+        .update({
+          fine_late_fee_percent: lateFee,
+          fine_monthly_interest_percent: interest,
+          fine_recidivism_window_days: windowDays,
+        })
+        .eq("id", condominiumId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-fine-rules", condominiumId] });
+      toast({
+        title: "Regras salvas",
+        description: "Os encargos serão aplicados às multas vencidas a partir do próximo processamento.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Percent className="w-5 h-5 text-primary" />
+          Multas Vencidas e Reincidência
+        </CardTitle>
+        <CardDescription>
+          Encargos aplicados automaticamente quando uma multa passa do vencimento, e período usado para
+          sugerir um multiplicador maior a quem reincide no mesmo artigo do regimento.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fine_late_fee_percent">Multa moratória (%)</Label>
+                <Input
+                  id="fine_late_fee_percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.fine_late_fee_percent}
+                  onChange={(e) => setFormData({ ...formData, fine_late_fee_percent: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Cobrada uma vez sobre o valor da multa. O Código Civil limita a 2%.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fine_monthly_interest_percent">Juros ao mês (%)</Label>
+                <Input
+                  id="fine_monthly_interest_percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.fine_monthly_interest_percent}
+                  onChange={(e) => setFormData({ ...formData, fine_monthly_interest_percent: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Calculados proporcionalmente aos dias de atraso
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fine_recidivism_window_days">Período de reincidência (dias)</Label>
+                <Input
+                  id="fine_recidivism_window_days"
+                  type="number"
+                  min="1"
+                  value={formData.fine_recidivism_window_days}
+                  onChange={(e) => setFormData({ ...formData, fine_recidivism_window_days: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Multas anteriores da mesma unidade e artigo dentro deste período contam como reincidência
+                </p>
+              </div>
+            </div>
+
+            <Button
+              onClick={() => saveRulesMutation.mutate(formData)}
+              disabled={saveRulesMutation.isPending}
+              className="gap-2"
+            >
+              {saveRulesMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Salvar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
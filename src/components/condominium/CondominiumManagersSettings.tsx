@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, UserCog, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CONDOMINIUM_PERMISSIONS,
+  CONDOMINIUM_PERMISSION_LABELS,
+  CONDOMINIUM_ACCESS_ROLE_LABELS,
+  DEFAULT_MANAGER_PERMISSIONS,
+  type CondominiumManagerRole,
+  type CondominiumPermission,
+} from "@/lib/condominiumAccess";
+
+interface CondominiumManagersSettingsProps {
+  condominiumId: string;
+}
+
+interface ManagerLink {
+  id: string;
+  user_id: string;
+  manager_role: CondominiumManagerRole;
+  permissions: string[];
+  profile: { full_name: string; email: string } | null;
+}
+
+const emptyForm = {
+  full_name: "",
+  email: "",
+  phone: "",
+  manager_role: "subsindico" as CondominiumManagerRole,
+  permissions: DEFAULT_MANAGER_PERMISSIONS.subsindico,
+};
+
+/**
+ * Subsíndicos and administradora staff with scoped permissions. Only the síndico manages this list.
+ */
+export function CondominiumManagersSettings({ condominiumId }: CondominiumManagersSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState(emptyForm);
+  const queryKey = ["condominium-managers", condominiumId];
+
+  const { data: managers = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_condominiums")
+        .select("id, user_id, manager_role, permissions")
+        .eq("condominium_id", condominiumId)
+        .not("manager_role", "is", null)
+        .order("created_at");
+
+      if (error) throw error;
+
+      const userIds = (data || []).map((m) => m.user_id);
+      const { data: profiles } = userIds.length
+        ? await supabase.from("profiles").select("user_id, full_name, email").in("user_id", userIds)
+        : { data: [] };
+      const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+      return (data || []).map((m) => ({
+        ...m,
+        profile: profileMap.get(m.user_id) || null,
+      })) as ManagerLink[];
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      if (!data.full_name.trim() || !data.email.trim()) {
+        throw new Error("Informe nome e e-mail do gestor.");
+      }
+
+      const { data: result, error } = await supabase.functions.invoke("create-condominium-manager", {
+        body: { ...data, condominium_id: condominiumId },
+      });
+
+      if (error) throw error;
+      if (result?.error) throw new Error(result.error);
+      return result as { is_new_user: boolean; password?: string; message: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      setFormData(emptyForm);
+      toast({
+        title: result.message,
+        description: result.is_new_user && result.password
+          ? `Senha provisória: ${result.password}. Envie ao gestor com segurança.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao adicionar gestor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updatePermissionsMutation = useMutation({
+    mutationFn: async ({ id, permissions }: { id: string; permissions: string[] }) => {
+      const { error } = await supabase.from("user_condominiums").update({ permissions }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar permissões", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("user_condominiums").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Gestor removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const togglePermission = (permissions: string[], permission: CondominiumPermission) =>
+    permissions.includes(permission)
+      ? permissions.filter((p) => p !== permission)
+      : [...permissions, permission];
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <UserCog className="w-5 h-5 text-primary" />
+          Subsíndicos e Administradora
+        </CardTitle>
+        <CardDescription>
+          Gestores com acesso ao painel do síndico, limitado às permissões marcadas.
+          Plano, equipe e configurações do condomínio continuam exclusivos do síndico.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : managers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum gestor adicionado.</p>
+        ) : (
+          <div className="space-y-3">
+            {managers.map((manager) => (
+              <div key={manager.id} className="p-3 rounded-lg bg-secondary/50 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {manager.profile?.full_name || "Gestor"}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{manager.profile?.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline">{CONDOMINIUM_ACCESS_ROLE_LABELS[manager.manager_role]}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeMutation.mutate(manager.id)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {CONDOMINIUM_PERMISSIONS.map((permission) => (
+                    <label key={permission} className="flex items-center gap-2 text-xs text-foreground">
+                      <Checkbox
+                        checked={manager.permissions.includes(permission)}
+                        disabled={updatePermissionsMutation.isPending}
+                        onCheckedChange={() =>
+                          updatePermissionsMutation.mutate({
+                            id: manager.id,
+                            permissions: togglePermission(manager.permissions, permission),
+                          })
+                        }
+                      />
+                      {CONDOMINIUM_PERMISSION_LABELS[permission]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 pt-4 border-t border-border/50">
+          <h4 className="text-sm font-semibold text-foreground">Adicionar gestor</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="manager_full_name">Nome</Label>
+              <Input
+                id="manager_full_name"
+                value={formData.full_name}
+                onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manager_email">E-mail</Label>
+              <Input
+                id="manager_email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manager_phone">Telefone (opcional)</Label>
+              <Input
+                id="manager_phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Função</Label>
+              <Select
+                value={formData.manager_role}
+                onValueChange={(value: CondominiumManagerRole) =>
+                  setFormData({ ...formData, manager_role: value, permissions: DEFAULT_MANAGER_PERMISSIONS[value] })
+                }
+              >
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="subsindico">{CONDOMINIUM_ACCESS_ROLE_LABELS.subsindico}</SelectItem>
+                  <SelectItem value="administrador">{CONDOMINIUM_ACCESS_ROLE_LABELS.administrador}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {CONDOMINIUM_PERMISSIONS.map((permission) => (
+              <label key={permission} className="flex items-center gap-2 text-sm text-foreground">
+                <Checkbox
+                  checked={formData.permissions.includes(permission)}
+                  onCheckedChange={() =>
+                    setFormData({
+                      ...formData,
+                      permissions: togglePermission(formData.permissions, permission) as CondominiumPermission[],
+                    })
+                  }
+                />
+                {CONDOMINIUM_PERMISSION_LABELS[permission]}
+              </label>
+            ))}
+          </div>
+
+          <Button
+            className="gap-2"
+            onClick={() => addMutation.mutate(formData)}
+            disabled={addMutation.isPending}
+          >
+            {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Adicionar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
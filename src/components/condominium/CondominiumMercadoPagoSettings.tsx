@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Loader2,
+  Save,
+  QrCode,
+  ExternalLink,
+  Eye,
+  EyeOff,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface CondominiumMercadoPagoSettingsProps {
+  condominiumId: string;
+}
+
+interface CondominiumMercadoPagoConfig {
+  id: string;
+  condominium_id: string;
+  access_token_encrypted: string;
+  public_key: string | null;
+  webhook_secret: string | null;
+  is_sandbox: boolean;
+  is_active: boolean;
+}
+
+/**
+ * Mercado Pago credentials of the condominium itself, used to charge fines via PIX.
+ * Payments go straight to the condominium's account, not to the platform's.
+ */
+export function CondominiumMercadoPagoSettings({ condominiumId }: CondominiumMercadoPagoSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    access_token: "",
+    webhook_secret: "",
+    is_sandbox: false,
+    is_active: true,
+  });
+  const [showAccessToken, setShowAccessToken] = useState(false);
+  const [showWebhookSecret, setShowWebhookSecret] = useState(false);
+
+  const { data: config, isLoading } = useQuery({
+    queryKey: ["condominium-mercadopago-config", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("condominium_mercadopago_config")
+        .select("*")
+        .eq("condominium_id", condominiumId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setFormData({
+          access_token: "",
+          webhook_secret: data.webhook_secret || "",
+          is_sandbox: data.is_sandbox,
+          is_active: data.is_active,
+        });
+      }
+      return data as CondominiumMercadoPagoConfig | null;
+    },
+  });
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const accessToken = data.access_token.trim() || config?.access_token_encrypted;
+      if (!accessToken) {
+        throw new Error("Informe o Access Token do Mercado Pago do condomínio.");
+      }
+
+      const payload = {
+        condominium_id: condominiumId,
+        access_token_encrypted: accessToken,
+        webhook_secret: data.webhook_secret.trim() || null,
+        is_sandbox: data.is_sandbox,
+        is_active: data.is_active,
+      };
+
+      if (config?.id) {
+        const { error } = await supabase
+          .from("condominium_mercadopago_config")
+          .update(payload)
+          .eq("id", config.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("condominium_mercadopago_config")
+          .insert(payload);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-mercadopago-config", condominiumId] });
+      toast({
+        title: "Configurações salvas",
+        description: "O pagamento via PIX foi atualizado.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasExistingToken = !!config?.access_token_encrypted;
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <QrCode className="w-5 h-5 text-primary" />
+          Pagamento de Multas via PIX
+        </CardTitle>
+        <CardDescription>
+          Conecte a conta Mercado Pago do condomínio para que os moradores paguem multas e reservas de espaços por PIX.
+          Os valores caem diretamente na conta do condomínio.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center gap-2">
+              <Badge
+                variant="outline"
+                className={
+                  config?.is_active
+                    ? "bg-emerald-500/10 text-emerald-600 border-emerald-500/20"
+                    : "bg-muted text-muted-foreground"
+                }
+              >
+                {config?.is_active ? (
+                  <>
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                    Ativo
+                  </>
+                ) : (
+                  <>
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    {config ? "Inativo" : "Não configurado"}
+                  </>
+                )}
+              </Badge>
+              {config?.is_sandbox && (
+                <Badge variant="outline" className="bg-amber-500/10 text-amber-600 border-amber-500/20">
+                  Modo Sandbox
+                </Badge>
+              )}
+            </div>
+
+            {/* Access Token */}
+            <div className="space-y-2">
+              <Label htmlFor="condo_mp_access_token">Access Token *</Label>
+              <div className="relative">
+                <Input
+                  id="condo_mp_access_token"
+                  type={showAccessToken ? "text" : "password"}
+                  value={formData.access_token}
+                  onChange={(e) => setFormData({ ...formData, access_token: e.target.value })}
+                  placeholder={hasExistingToken ? "Digite para substituir o token atual" : "APP_USR-xxxxxxxxxxxxxxxxxxxx"}
+                  className="pr-10"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                  onClick={() => setShowAccessToken(!showAccessToken)}
+                  tabIndex={-1}
+                >
+                  {showAccessToken ? (
+                    <EyeOff className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Eye className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {hasExistingToken && !formData.access_token
+                  ? "Token já configurado. Deixe em branco para manter o atual."
+                  : <>Obtenha as credenciais de produção em{" "}
+                    <a
+                      href="https://www.mercadopago.com.br/developers/panel"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline inline-flex items-center gap-1"
+                    >
+                      Painel de Desenvolvedores
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </>
+                }
+              </p>
+            </div>
+
+            {/* Webhook Secret */}
+            <div className="space-y-2">
+              <Label htmlFor="condo_mp_webhook_secret">Assinatura secreta do webhook</Label>
+              <div className="relative">
+                <Input
+                  id="condo_mp_webhook_secret"
+                  type={showWebhookSecret ? "text" : "password"}
+                  value={formData.webhook_secret}
+                  onChange={(e) => setFormData({ ...formData, webhook_secret: e.target.value })}
+                  placeholder="Opcional"
+                  className="pr-10"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                  onClick={() => setShowWebhookSecret(!showWebhookSecret)}
+                  tabIndex={-1}
+                >
+                  {showWebhookSecret ? (
+                    <EyeOff className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Eye className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Usada para validar as notificações de pagamento enviadas pelo Mercado Pago
+              </p>
+            </div>
+
+            {/* Switches */}
+            <div className="space-y-4 pt-4 border-t">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="condo_mp_is_sandbox">Modo Sandbox</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Usar credenciais de teste do Mercado Pago
+                  </p>
+                </div>
+                <Switch
+                  id="condo_mp_is_sandbox"
+                  checked={formData.is_sandbox}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_sandbox: checked })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="condo_mp_is_active">Permitir pagamento por PIX</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Permite que os moradores gerem o PIX das multas e reservas
+                  </p>
+                </div>
+                <Switch
+                  id="condo_mp_is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                />
+              </div>
+            </div>
+
+            <Button
+              onClick={() => saveConfigMutation.mutate(formData)}
+              disabled={saveConfigMutation.isPending}
+              className="gap-2"
+            >
+              {saveConfigMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Salvar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
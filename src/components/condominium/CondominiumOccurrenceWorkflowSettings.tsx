@@ -0,0 +1,471 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2, GitBranch, ArrowRight, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOccurrenceWorkflow, occurrenceWorkflowQueryKey } from "@/hooks/useOccurrenceWorkflow";
+import {
+  BASE_STATUS_LABELS,
+  WORKFLOW_COLOR_LABELS,
+  WORKFLOW_COLOR_STYLES,
+  WORKFLOW_REQUIRED_FIELD_LABELS,
+  WORKFLOW_ROLE_LABELS,
+  type OccurrenceBaseStatus,
+  type WorkflowRole,
+} from "@/lib/occurrenceWorkflow";
+
+interface CondominiumOccurrenceWorkflowSettingsProps {
+  condominiumId: string;
+}
+
+const emptyState = {
+  label: "",
+  color: "slate",
+  base_status: "notificado" as OccurrenceBaseStatus,
+  is_final: false,
+};
+
+const emptyTransition = {
+  from_state: "",
+  to_state: "",
+  label: "",
+  allowed_roles: ["sindico"] as string[],
+  required_fields: [] as string[],
+};
+
+const toStateKey = (label: string) =>
+  label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+const toggleItem = (list: string[], item: string) =>
+  list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
+/**
+ * States and transitions of the condominium's occurrence workflow.
+ * Each state maps to a base status, which reports and notifications keep using.
+ */
+export function CondominiumOccurrenceWorkflowSettings({ condominiumId }: CondominiumOccurrenceWorkflowSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { states, transitions, getState, isLoading } = useOccurrenceWorkflow(condominiumId);
+  const [newState, setNewState] = useState(emptyState);
+  const [newTransition, setNewTransition] = useState(emptyTransition);
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: occurrenceWorkflowQueryKey(condominiumId) });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Erro ao salvar fluxo",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addStateMutation = useMutation({
+    mutationFn: async (data: typeof newState) => {
+      const key = toStateKey(data.label);
+      if (!key) throw new Error("Informe o nome da etapa.");
+      if (states.some((s) => s.key === key)) throw new Error("Já existe uma etapa com este nome.");
+
+      const { error } = await supabase.from("occurrence_workflow_states").insert({
+        condominium_id: condominiumId,
+        key,
+        label: data.label.trim(),
+        color: data.color,
+        base_status: data.base_status,
+        is_final: data.is_final,
+        display_order: states.length + 1,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewState(emptyState);
+      toast({ title: "Etapa adicionada" });
+    },
+    onError,
+  });
+
+  const deleteStateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("occurrence_workflow_states").delete().eq("id", id);
+      if (error) {
+        // Composite FK from occurrences blocks removing states still in use
+        if (error.code === "23503") throw new Error("Há ocorrências nesta etapa. Mova-as antes de removê-la.");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Etapa removida" });
+    },
+    onError,
+  });
+
+  const addTransitionMutation = useMutation({
+    mutationFn: async (data: typeof newTransition) => {
+      if (!data.from_state || !data.to_state || !data.label.trim()) {
+        throw new Error("Informe origem, destino e o nome da ação.");
+      }
+      if (data.from_state === data.to_state) throw new Error("Origem e destino devem ser diferentes.");
+      if (data.allowed_roles.length === 0) throw new Error("Selecione ao menos um perfil.");
+
+      const { error } = await supabase.from("occurrence_workflow_transitions").insert({
+        condominium_id: condominiumId,
+        from_state: data.from_state,
+        to_state: data.to_state,
+        label: data.label.trim(),
+        allowed_roles: data.allowed_roles,
+        required_fields: data.required_fields,
+        display_order: transitions.length + 1,
+      });
+
+      if (error) {
+        if (error.code === "23505") throw new Error("Esta transição já existe.");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewTransition(emptyTransition);
+      toast({ title: "Transição adicionada" });
+    },
+    onError,
+  });
+
+  const deleteTransitionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("occurrence_workflow_transitions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Transição removida" });
+    },
+    onError,
+  });
+
+  const restoreDefaultsMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("seed_default_occurrence_workflow", {
+        _condominium_id: condominiumId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Fluxo padrão restaurado",
+        description: "Etapas e transições padrão que estavam faltando foram recriadas.",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <GitBranch className="w-5 h-5 text-primary" />
+              Fluxo de Ocorrências
+            </CardTitle>
+            <CardDescription>
+              Etapas por que uma ocorrência passa, quem pode movê-la entre elas e o que é exigido em cada
+              movimentação. As regras são validadas no servidor.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2 shrink-0"
+            onClick={() => restoreDefaultsMutation.mutate()}
+            disabled={restoreDefaultsMutation.isPending}
+          >
+            {restoreDefaultsMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RotateCcw className="w-4 h-4" />
+            )}
+            Restaurar padrão
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* States */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">Etapas</h4>
+              <div className="space-y-2">
+                {states.map((state) => (
+                  <div
+                    key={state.id}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${WORKFLOW_COLOR_STYLES[state.color] || ""}`}>
+                        {state.label}
+                      </span>
+                      <span className="text-xs text-muted-foreground truncate">
+                        Situação base: {BASE_STATUS_LABELS[state.base_status]}
+                        {state.is_initial && " · inicial"}
+                        {state.is_final && " · final"}
+                      </span>
+                    </div>
+                    {!state.is_initial && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteStateMutation.mutate(state.id)}
+                        disabled={deleteStateMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="workflow_state_label">Nova etapa</Label>
+                  <Input
+                    id="workflow_state_label"
+                    placeholder="Ex.: Análise do Conselho"
+                    value={newState.label}
+                    onChange={(e) => setNewState({ ...newState, label: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Situação base</Label>
+                  <Select
+                    value={newState.base_status}
+                    onValueChange={(v: OccurrenceBaseStatus) => setNewState({ ...newState, base_status: v })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BASE_STATUS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Cor</Label>
+                  <Select
+                    value={newState.color}
+                    onValueChange={(v) => setNewState({ ...newState, color: v })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WORKFLOW_COLOR_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between gap-3 sm:pb-2">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="workflow_state_final"
+                      checked={newState.is_final}
+                      onCheckedChange={(checked) => setNewState({ ...newState, is_final: checked })}
+                    />
+                    <Label htmlFor="workflow_state_final" className="text-sm">Final</Label>
+                  </div>
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => addStateMutation.mutate(newState)}
+                    disabled={addStateMutation.isPending}
+                  >
+                    {addStateMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Plus className="w-4 h-4" />
+                    )}
+                    Adicionar
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Transitions */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">Transições</h4>
+              <div className="space-y-2">
+                {transitions.map((transition) => (
+                  <div
+                    key={transition.id}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 text-sm flex-wrap">
+                        <span className="text-muted-foreground">{getState(transition.from_state)?.label || transition.from_state}</span>
+                        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                        <span className="text-muted-foreground">{getState(transition.to_state)?.label || transition.to_state}</span>
+                        <span className="font-medium text-foreground">· {transition.label}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {transition.allowed_roles.map((r) => WORKFLOW_ROLE_LABELS[r as WorkflowRole] || r).join(", ")}
+                        {transition.required_fields.length > 0 &&
+                          ` · exige ${transition.required_fields.map((f) => WORKFLOW_REQUIRED_FIELD_LABELS[f] || f).join(", ").toLowerCase()}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteTransitionMutation.mutate(transition.id)}
+                      disabled={deleteTransitionMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3 p-3 rounded-lg border border-border/50">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label>De</Label>
+                    <Select
+                      value={newTransition.from_state}
+                      onValueChange={(v) => setNewTransition({ ...newTransition, from_state: v })}
+                    >
+                      <SelectTrigger className="bg-background">
+                        <SelectValue placeholder="Etapa de origem" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {states.filter((s) => !s.is_final).map((s) => (
+                          <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Para</Label>
+                    <Select
+                      value={newTransition.to_state}
+                      onValueChange={(v) => setNewTransition({ ...newTransition, to_state: v })}
+                    >
+                      <SelectTrigger className="bg-background">
+                        <SelectValue placeholder="Etapa de destino" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {states.filter((s) => !s.is_initial).map((s) => (
+                          <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="workflow_transition_label">Nome da ação</Label>
+                    <Input
+                      id="workflow_transition_label"
+                      placeholder="Ex.: Enviar ao conselho"
+                      value={newTransition.label}
+                      onChange={(e) => setNewTransition({ ...newTransition, label: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Quem pode executar</Label>
+                    <div className="flex flex-wrap gap-4">
+                      {Object.entries(WORKFLOW_ROLE_LABELS).map(([role, label]) => (
+                        <label key={role} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={newTransition.allowed_roles.includes(role)}
+                            onCheckedChange={() =>
+                              setNewTransition({
+                                ...newTransition,
+                                allowed_roles: toggleItem(newTransition.allowed_roles, role),
+                              })
+                            }
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Exigências</Label>
+                    <div className="flex flex-wrap gap-4">
+                      {Object.entries(WORKFLOW_REQUIRED_FIELD_LABELS).map(([field, label]) => (
+                        <label key={field} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={newTransition.required_fields.includes(field)}
+                            onCheckedChange={() =>
+                              setNewTransition({
+                                ...newTransition,
+                                required_fields: toggleItem(newTransition.required_fields, field),
+                              })
+                            }
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => addTransitionMutation.mutate(newTransition)}
+                  disabled={addTransitionMutation.isPending}
+                >
+                  {addTransitionMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4" />
+                  )}
+                  Adicionar transição
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Save, BellRing } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface CondominiumPackageReminderSettingsProps {
+  condominiumId: string;
+}
+
+/**
+ * Reminder interval and escalation thresholds used by the daily package pickup reminders job.
+ */
+export function CondominiumPackageReminderSettings({ condominiumId }: CondominiumPackageReminderSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(true);
+  const [formData, setFormData] = useState({
+    package_reminder_interval_days: "2",
+    package_escalate_unit_after_days: "5",
+    package_escalate_sindico_after_days: "10",
+    package_return_after_days: "30",
+  });
+
+  const { isLoading } = useQuery({
+    queryKey: ["condominium-package-reminders", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("condominiums")
+        .select(
+          "package_reminders_enabled, package_reminder_interval_days, package_escalate_unit_after_days, package_escalate_sindico_after_days, package_return_after_days"
+        )
+        .eq("id", condominiumId)
+        .single();
+
+      if (error) throw error;
+      setEnabled(data.package_reminders_enabled);
+      setFormData({
+        package_reminder_interval_days: String(data.package_reminder_interval_days),
+        package_escalate_unit_after_days: String(data.package_escalate_unit_after_days),
+        package_escalate_sindico_after_days: String(data.package_escalate_sindico_after_days),
+        package_return_after_days: String(data.package_return_after_days),
+      });
+      return data;
+    },
+  });
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const interval = parseInt(data.package_reminder_interval_days);
+      const unitDays = parseInt(data.package_escalate_unit_after_days);
+      const sindicoDays = parseInt(data.package_escalate_sindico_after_days);
+      const returnDays = parseInt(data.package_return_after_days);
+
+      if ([interval, unitDays, sindicoDays, returnDays].some((value) => isNaN(value) || value < 1)) {
+        throw new Error("Informe prazos de pelo menos 1 dia.");
+      }
+      if (!(unitDays <= sindicoDays && sindicoDays <= returnDays)) {
+        throw new Error("Os prazos devem ser crescentes: unidade, síndico e devolução.");
+      }
+
+      const { error } = await supabase
+        .from("condominiums")
+        .update({
+          package_reminders_enabled: enabled,
+          package_reminder_interval_days: interval,
+          package_escalate_unit_after_days: unitDays,
+          package_escalate_sindico_after_days: sindicoDays,
+          package_return_after_days: returnDays,
+        })
+        .eq("id", condominiumId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-package-reminders", condominiumId] });
+      toast({
+        title: "Regras salvas",
+        description: "Os lembretes seguirão os novos prazos a partir do próximo processamento.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const fields: { key: keyof typeof formData; label: string; help: string }[] = [
+    {
+      key: "package_reminder_interval_days",
+      label: "Intervalo entre lembretes (dias)",
+      help: "Tempo desde o último aviso para reenviar o lembrete",
+    },
+    {
+      key: "package_escalate_unit_after_days",
+      label: "Avisar toda a unidade após (dias)",
+      help: "Os lembretes passam a ir para todos os moradores do apartamento",
+    },
+    {
+      key: "package_escalate_sindico_after_days",
+      label: "Avisar o síndico após (dias)",
+      help: "O síndico recebe um resumo das encomendas ainda não retiradas",
+    },
+    {
+      key: "package_return_after_days",
+      label: "Marcar sem retirada após (dias)",
+      help: "Os lembretes param e a encomenda vira candidata a devolução ao remetente",
+    },
+  ];
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BellRing className="w-5 h-5 text-primary" />
+          Lembretes de Retirada de Encomendas
+        </CardTitle>
+        <CardDescription>
+          Lembretes enviados por WhatsApp enquanto a encomenda aguarda na portaria, com escalonamento
+          para os demais moradores da unidade e para o síndico.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="package_reminders_enabled">Enviar lembretes automáticos</Label>
+                <p className="text-xs text-muted-foreground">
+                  Desativado, nenhum lembrete ou escalonamento é feito para este condomínio
+                </p>
+              </div>
+              <Switch id="package_reminders_enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    min="1"
+                    value={formData[field.key]}
+                    disabled={!enabled}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">{field.help}</p>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              onClick={() => saveRulesMutation.mutate(formData)}
+              disabled={saveRulesMutation.isPending}
+              className="gap-2"
+            >
+              {saveRulesMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Salvar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,674 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Car, ParkingSquare, Plus, Pencil, Trash2, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { normalizePlate } from "@/lib/visitorConstants";
+import {
+  VEHICLE_TYPE_LABELS,
+  PARKING_SPOT_TYPE_LABELS,
+  formatPlate,
+  type VehicleType,
+  type ParkingSpotType,
+} from "@/lib/vehicleConstants";
+
+interface CondominiumVehiclesSettingsProps {
+  condominiumId: string;
+}
+
+interface UnitOption {
+  id: string;
+  number: string;
+  blocks: { name: string } | null;
+}
+
+interface ResidentOption {
+  id: string;
+  apartment_id: string;
+  full_name: string;
+}
+
+interface Vehicle {
+  id: string;
+  apartment_id: string;
+  resident_id: string | null;
+  parking_spot_id: string | null;
+  plate: string;
+  vehicle_type: VehicleType;
+  model: string | null;
+  color: string | null;
+  notes: string | null;
+}
+
+interface ParkingSpot {
+  id: string;
+  apartment_id: string | null;
+  code: string;
+  location: string | null;
+  spot_type: ParkingSpotType;
+  is_covered: boolean;
+  notes: string | null;
+}
+
+const NONE = "none";
+
+const emptyVehicleForm = {
+  apartment_id: "",
+  resident_id: NONE,
+  parking_spot_id: NONE,
+  plate: "",
+  vehicle_type: "carro" as VehicleType,
+  model: "",
+  color: "",
+  notes: "",
+};
+
+const emptySpotForm = {
+  apartment_id: NONE,
+  code: "",
+  location: "",
+  spot_type: "carro" as ParkingSpotType,
+  is_covered: true,
+  notes: "",
+};
+
+const formatUnit = (unit: UnitOption | undefined) =>
+  unit ? `${unit.blocks?.name ? `${unit.blocks.name} - ` : ""}${unit.number}` : "";
+
+/**
+ * Vehicles and garage spots of each unit. Porters look plates up in the portaria and
+ * occurrences may reference a vehicle.
+ */
+export function CondominiumVehiclesSettings({ condominiumId }: CondominiumVehiclesSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [vehicleDialogOpen, setVehicleDialogOpen] = useState(false);
+  const [editingVehicleId, setEditingVehicleId] = useState<string | null>(null);
+  const [vehicleForm, setVehicleForm] = useState(emptyVehicleForm);
+  const [spotDialogOpen, setSpotDialogOpen] = useState(false);
+  const [editingSpotId, setEditingSpotId] = useState<string | null>(null);
+  const [spotForm, setSpotForm] = useState(emptySpotForm);
+
+  const { data: units = [] } = useQuery({
+    queryKey: ["condominium-vehicle-units", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("apartments")
+        .select("id, number, blocks!inner(name, condominium_id)")
+        .eq("blocks.condominium_id", condominiumId)
+        .order("number");
+
+      if (error) throw error;
+      return (data || []) as UnitOption[];
+    },
+  });
+
+  const { data: residents = [] } = useQuery({
+    queryKey: ["condominium-vehicle-residents", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("residents")
+        .select("id, apartment_id, full_name, apartments!inner(blocks!inner(condominium_id))")
+        .eq("apartments.blocks.condominium_id", condominiumId)
+        .order("full_name");
+
+      if (error) throw error;
+      return (data || []) as ResidentOption[];
+    },
+  });
+
+  const { data: vehicles = [], isLoading: loadingVehicles } = useQuery({
+    queryKey: ["condominium-vehicles", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("id, apartment_id, resident_id, parking_spot_id, plate, vehicle_type, model, color, notes")
+        .eq("condominium_id", condominiumId)
+        .order("plate");
+
+      if (error) throw error;
+      return (data || []) as Vehicle[];
+    },
+  });
+
+  const { data: spots = [], isLoading: loadingSpots } = useQuery({
+    queryKey: ["condominium-parking-spots", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("parking_spots")
+        .select("id, apartment_id, code, location, spot_type, is_covered, notes")
+        .eq("condominium_id", condominiumId)
+        .order("code");
+
+      if (error) throw error;
+      return (data || []) as ParkingSpot[];
+    },
+  });
+
+  const unitById = (unitId: string | null) => units.find((u) => u.id === unitId);
+  const term = search.trim().toLowerCase();
+  const plateTerm = normalizePlate(search);
+
+  const filteredVehicles = vehicles.filter(
+    (v) =>
+      !term ||
+      (plateTerm && v.plate.includes(plateTerm)) ||
+      v.model?.toLowerCase().includes(term) ||
+      formatUnit(unitById(v.apartment_id)).toLowerCase().includes(term)
+  );
+
+  const filteredSpots = spots.filter(
+    (s) =>
+      !term ||
+      s.code.toLowerCase().includes(term) ||
+      formatUnit(unitById(s.apartment_id)).toLowerCase().includes(term)
+  );
+
+  const saveVehicleMutation = useMutation({
+    mutationFn: async () => {
+      const plate = normalizePlate(vehicleForm.plate);
+      if (!vehicleForm.apartment_id) throw new Error("Selecione a unidade.");
+      if (!/^[A-Z0-9]{5,8}$/.test(plate)) throw new Error("Informe uma placa válida.");
+
+      const payload = {
+        apartment_id: vehicleForm.apartment_id,
+        resident_id: vehicleForm.resident_id === NONE ? null : vehicleForm.resident_id,
+        parking_spot_id: vehicleForm.parking_spot_id === NONE ? null : vehicleForm.parking_spot_id,
+        plate,
+        vehicle_type: vehicleForm.vehicle_type,
+        model: vehicleForm.model.trim() || null,
+        color: vehicleForm.color.trim() || null,
+        notes: vehicleForm.notes.trim() || null,
+      };
+
+      const { error } = editingVehicleId
+        ? await supabase.from("vehicles").update(payload).eq("id", editingVehicleId)
+        : await supabase.from("vehicles").insert({ ...payload, condominium_id: condominiumId });
+
+      if (error) {
+        if (error.code === "23505") throw new Error("Esta placa já está cadastrada no condomínio.");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-vehicles", condominiumId] });
+      toast({ title: editingVehicleId ? "Veículo atualizado" : "Veículo cadastrado" });
+      setVehicleDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar veículo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteVehicleMutation = useMutation({
+    mutationFn: async (vehicleId: string) => {
+      const { error } = await supabase.from("vehicles").delete().eq("id", vehicleId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-vehicles", condominiumId] });
+      toast({ title: "Veículo removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveSpotMutation = useMutation({
+    mutationFn: async () => {
+      if (!spotForm.code.trim()) throw new Error("Informe a identificação da vaga.");
+
+      const payload = {
+        apartment_id: spotForm.apartment_id === NONE ? null : spotForm.apartment_id,
+        code: spotForm.code.trim().toUpperCase(),
+        location: spotForm.location.trim() || null,
+        spot_type: spotForm.spot_type,
+        is_covered: spotForm.is_covered,
+        notes: spotForm.notes.trim() || null,
+      };
+
+      const { error } = editingSpotId
+        ? await supabase.from("parking_spots").update(payload).eq("id", editingSpotId)
+        : await supabase.from("parking_spots").insert({ ...payload, condominium_id: condominiumId });
+
+      if (error) {
+        if (error.code === "23505") throw new Error("Já existe uma vaga com esta identificação.");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-parking-spots", condominiumId] });
+      toast({ title: editingSpotId ? "Vaga atualizada" : "Vaga cadastrada" });
+      setSpotDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar vaga", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteSpotMutation = useMutation({
+    mutationFn: async (spotId: string) => {
+      const { error } = await supabase.from("parking_spots").delete().eq("id", spotId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["condominium-parking-spots", condominiumId] });
+      queryClient.invalidateQueries({ queryKey: ["condominium-vehicles", condominiumId] });
+      toast({ title: "Vaga removida" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openVehicleDialog = (vehicle?: Vehicle) => {
+    setEditingVehicleId(vehicle?.id || null);
+    setVehicleForm(
+      vehicle
+        ? {
+            apartment_id: vehicle.apartment_id,
+            resident_id: vehicle.resident_id || NONE,
+            parking_spot_id: vehicle.parking_spot_id || NONE,
+            plate: formatPlate(vehicle.plate),
+            vehicle_type: vehicle.vehicle_type,
+            model: vehicle.model || "",
+            color: vehicle.color || "",
+            notes: vehicle.notes || "",
+          }
+        : emptyVehicleForm
+    );
+    setVehicleDialogOpen(true);
+  };
+
+  const openSpotDialog = (spot?: ParkingSpot) => {
+    setEditingSpotId(spot?.id || null);
+    setSpotForm(
+      spot
+        ? {
+            apartment_id: spot.apartment_id || NONE,
+            code: spot.code,
+            location: spot.location || "",
+            spot_type: spot.spot_type,
+            is_covered: spot.is_covered,
+            notes: spot.notes || "",
+          }
+        : emptySpotForm
+    );
+    setSpotDialogOpen(true);
+  };
+
+  // Spots offered for a vehicle: free ones plus those assigned to the vehicle's unit
+  const spotOptions = spots.filter((s) => !s.apartment_id || s.apartment_id === vehicleForm.apartment_id);
+  const unitResidents = residents.filter((r) => r.apartment_id === vehicleForm.apartment_id);
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Car className="w-5 h-5 text-primary" />
+          Veículos e Vagas
+        </CardTitle>
+        <CardDescription>
+          Veículos e vagas de garagem de cada unidade. A portaria consulta as placas e as ocorrências
+          podem indicar o veículo envolvido.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por placa, modelo, vaga ou unidade..."
+            className="pl-10 bg-background"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        <Tabs defaultValue="vehicles">
+          <TabsList>
+            <TabsTrigger value="vehicles">Veículos ({vehicles.length})</TabsTrigger>
+            <TabsTrigger value="spots">Vagas ({spots.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="vehicles" className="space-y-3">
+            <Button size="sm" className="gap-2" onClick={() => openVehicleDialog()}>
+              <Plus className="w-4 h-4" /> Cadastrar veículo
+            </Button>
+            {loadingVehicles ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : filteredVehicles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum veículo encontrado.</p>
+            ) : (
+              <div className="space-y-2">
+                {filteredVehicles.map((vehicle) => {
+                  const spot = spots.find((s) => s.id === vehicle.parking_spot_id);
+                  const owner = residents.find((r) => r.id === vehicle.resident_id);
+                  return (
+                    <div
+                      key={vehicle.id}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono font-semibold text-sm">{formatPlate(vehicle.plate)}</span>
+                          <Badge variant="outline" className="text-[10px]">
+                            {VEHICLE_TYPE_LABELS[vehicle.vehicle_type]}
+                          </Badge>
+                          {spot && (
+                            <Badge variant="secondary" className="text-[10px]">Vaga {spot.code}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[vehicle.model, vehicle.color].filter(Boolean).join(" · ") || "Sem modelo informado"}
+                          {" — "}
+                          {formatUnit(unitById(vehicle.apartment_id))}
+                          {owner && ` (${owner.full_name})`}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openVehicleDialog(vehicle)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => deleteVehicleMutation.mutate(vehicle.id)}
+                          disabled={deleteVehicleMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="spots" className="space-y-3">
+            <Button size="sm" className="gap-2" onClick={() => openSpotDialog()}>
+              <Plus className="w-4 h-4" /> Cadastrar vaga
+            </Button>
+            {loadingSpots ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : filteredSpots.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma vaga encontrada.</p>
+            ) : (
+              <div className="space-y-2">
+                {filteredSpots.map((spot) => (
+                  <div
+                    key={spot.id}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <ParkingSquare className="w-4 h-4 text-primary" />
+                        <span className="font-semibold text-sm">{spot.code}</span>
+                        <Badge variant="outline" className="text-[10px]">
+                          {PARKING_SPOT_TYPE_LABELS[spot.spot_type]}
+                        </Badge>
+                        <Badge variant="outline" className="text-[10px]">
+                          {spot.is_covered ? "Coberta" : "Descoberta"}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {spot.apartment_id ? formatUnit(unitById(spot.apartment_id)) : "Sem unidade vinculada"}
+                        {spot.location && ` — ${spot.location}`}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openSpotDialog(spot)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteSpotMutation.mutate(spot.id)}
+                        disabled={deleteSpotMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      {/* Vehicle dialog */}
+      <Dialog open={vehicleDialogOpen} onOpenChange={setVehicleDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingVehicleId ? "Editar Veículo" : "Cadastrar Veículo"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Unidade *</Label>
+              <Select
+                value={vehicleForm.apartment_id}
+                onValueChange={(v) =>
+                  setVehicleForm({ ...vehicleForm, apartment_id: v, resident_id: NONE, parking_spot_id: NONE })
+                }
+              >
+                <SelectTrigger><SelectValue placeholder="Selecione a unidade" /></SelectTrigger>
+                <SelectContent>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>{formatUnit(unit)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Placa *</Label>
+                <Input
+                  value={vehicleForm.plate}
+                  placeholder="ABC1D23"
+                  className="uppercase"
+                  maxLength={8}
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, plate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select
+                  value={vehicleForm.vehicle_type}
+                  onValueChange={(v: VehicleType) => setVehicleForm({ ...vehicleForm, vehicle_type: v })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(VEHICLE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Modelo</Label>
+                <Input
+                  value={vehicleForm.model}
+                  placeholder="Ex: Onix"
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, model: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Cor</Label>
+                <Input
+                  value={vehicleForm.color}
+                  placeholder="Ex: Prata"
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, color: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Morador</Label>
+                <Select
+                  value={vehicleForm.resident_id}
+                  onValueChange={(v) => setVehicleForm({ ...vehicleForm, resident_id: v })}
+                  disabled={!vehicleForm.apartment_id}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Não informado</SelectItem>
+                    {unitResidents.map((resident) => (
+                      <SelectItem key={resident.id} value={resident.id}>{resident.full_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Vaga</Label>
+                <Select
+                  value={vehicleForm.parking_spot_id}
+                  onValueChange={(v) => setVehicleForm({ ...vehicleForm, parking_spot_id: v })}
+                  disabled={!vehicleForm.apartment_id}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Sem vaga</SelectItem>
+                    {spotOptions.map((spot) => (
+                      <SelectItem key={spot.id} value={spot.id}>{spot.code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Observações</Label>
+              <Input
+                value={vehicleForm.notes}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVehicleDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={() => saveVehicleMutation.mutate()} disabled={saveVehicleMutation.isPending}>
+              {saveVehicleMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Parking spot dialog */}
+      <Dialog open={spotDialogOpen} onOpenChange={setSpotDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingSpotId ? "Editar Vaga" : "Cadastrar Vaga"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Identificação *</Label>
+                <Input
+                  value={spotForm.code}
+                  placeholder="Ex: G1-23"
+                  onChange={(e) => setSpotForm({ ...spotForm, code: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select
+                  value={spotForm.spot_type}
+                  onValueChange={(v: ParkingSpotType) => setSpotForm({ ...spotForm, spot_type: v })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PARKING_SPOT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Unidade</Label>
+              <Select
+                value={spotForm.apartment_id}
+                onValueChange={(v) => setSpotForm({ ...spotForm, apartment_id: v })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Sem unidade (rotativa/visitantes)</SelectItem>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>{formatUnit(unit)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Localização</Label>
+              <Input
+                value={spotForm.location}
+                placeholder="Ex: Subsolo 1, próximo ao elevador"
+                onChange={(e) => setSpotForm({ ...spotForm, location: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="spot_is_covered"
+                checked={spotForm.is_covered}
+                onCheckedChange={(checked) => setSpotForm({ ...spotForm, is_covered: checked === true })}
+              />
+              <Label htmlFor="spot_is_covered" className="font-normal">Vaga coberta</Label>
+            </div>
+            <div className="space-y-2">
+              <Label>Observações</Label>
+              <Input
+                value={spotForm.notes}
+                onChange={(e) => setSpotForm({ ...spotForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSpotDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={() => saveSpotMutation.mutate()} disabled={saveSpotMutation.isPending}>
+              {saveSpotMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -4,6 +4,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds, type CondominiumPermission } from "@/lib/condominiumAccess";
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
 import { useToast } from "@/hooks/use-toast";
 import {
   Sidebar,
@@ -23,7 +25,9 @@ import { NavLink } from "@/components/NavLink";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { OfflineSyncIndicator } from "@/components/layouts/OfflineSyncIndicator";
 import ApartmentSwitcher from "@/components/resident/ApartmentSwitcher";
+import CondominiumContextSwitcher from "@/components/condominium/CondominiumContextSwitcher";
 import {
   Building2,
   LayoutDashboard,
@@ -56,6 +60,9 @@ import {
   Cog,
   AlertTriangle,
   Megaphone,
+  Briefcase,
+  UserCheck,
+  Layers,
 } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { cn } from "@/lib/utils";
@@ -85,6 +92,29 @@ const isNavGroup = (item: NavItem | NavGroup): item is NavGroup => {
   return 'items' in item;
 };
 
+// Síndico pages a delegated manager (subsíndico/administradora) needs a permission for.
+// "owner" pages stay with the síndico; unlisted pages are open to every manager.
+const SINDICO_NAV_PERMISSIONS: Record<string, CondominiumPermission | "owner"> = {
+  "/sindico/subscriptions": "owner",
+  "/sindico/invoices": "invoices.view",
+  "/sindico/encomendas": "packages.manage",
+  "/defenses": "occurrences.decide",
+  "/party-hall": "party_hall.manage",
+  "/sindico/conversas": "owner",
+  "/sindico/portaria/ocorrencias": "packages.manage",
+  "/sindico/portaria/plantoes": "packages.manage",
+  "/sindico/portaria/checklist": "packages.manage",
+  "/sindico/portaria/visitantes": "packages.manage",
+  "/sindico/banners": "owner",
+  "/sindico/manutencoes": "maintenance.manage",
+  "/sindico/manutencoes/categorias": "maintenance.manage",
+  "/sindico/manutencoes/historico": "maintenance.manage",
+  "/sindico/porteiros": "owner",
+  "/sindico/zeladores": "owner",
+  "/notifications": "occurrences.register",
+  "/reports": "reports.view",
+};
+
 const getBaseSuperAdminNavItems = (): NavStructure => [
   { title: "Início", url: "/superadmin", icon: Home },
   {
@@ -127,14 +157,44 @@ const getBaseSuperAdminNavItems = (): NavStructure => [
   },
 ];
 
-const residentNavItems: NavStructure = [
+const getResidentNavItems = (isCouncilMember: boolean, pendingAppeals: number): NavStructure => [
   { title: "Início", url: "/resident", icon: Home },
   { title: "Minhas Ocorrências", url: "/resident/occurrences", icon: FileText },
   { title: "Minhas Encomendas", url: "/resident/packages", icon: Package },
+  { title: "Meus Visitantes", url: "/resident/visitantes", icon: UserCheck },
+  { title: "Áreas Comuns", url: "/resident/salao-de-festas", icon: PartyPopper },
+  ...(isCouncilMember
+    ? [{ title: "Recursos do Conselho", url: "/resident/appeals", icon: Scale, badge: pendingAppeals }]
+    : []),
   { title: "Meu Perfil", url: "/resident/profile", icon: User },
 ];
 
-const getPorteiroNavItems = (pendingPackages: number, openPorterOccs: number): NavStructure => [
+const getConselheiroNavItems = (pendingAppeals: number): NavStructure => [
+  { title: "Início", url: "/conselho", icon: Home },
+  {
+    title: "Conselho",
+    icon: Scale,
+    items: [
+      { title: "Ocorrências", url: "/conselho/ocorrencias", icon: FileText },
+      { title: "Recursos", url: "/resident/appeals", icon: Scale, badge: pendingAppeals },
+      { title: "Relatórios", url: "/reports", icon: BarChart3 },
+      { title: "Manutenções", url: "/conselho/manutencoes", icon: Wrench },
+    ],
+  },
+  {
+    title: "Minha Unidade",
+    icon: User,
+    items: [
+      { title: "Minhas Ocorrências", url: "/resident/occurrences", icon: FileText },
+      { title: "Minhas Encomendas", url: "/resident/packages", icon: Package },
+      { title: "Meus Visitantes", url: "/resident/visitantes", icon: UserCheck },
+      { title: "Áreas Comuns", url: "/resident/salao-de-festas", icon: PartyPopper },
+      { title: "Meu Perfil", url: "/resident/profile", icon: User },
+    ],
+  },
+];
+
+const getPorteiroNavItems = (pendingPackages: number, openPorterOccs: number, unreadConversations: number): NavStructure => [
   { title: "Início", url: "/porteiro", icon: Home },
   { title: "Condomínio", url: "/porteiro/condominio", icon: Building2 },
   {
@@ -142,6 +202,7 @@ const getPorteiroNavItems = (pendingPackages: number, openPorterOccs: number): N
     icon: Package,
     items: [
       { title: "Registrar Encomenda", url: "/porteiro/registrar", icon: PackagePlus },
+      { title: "Registrar em Lote", url: "/porteiro/registrar/lote", icon: Layers },
       { title: "Retirar Encomenda", url: "/porteiro/encomendas", icon: PackageCheck, badge: pendingPackages },
       { title: "Histórico", url: "/porteiro/historico", icon: FileText },
     ],
@@ -150,8 +211,11 @@ const getPorteiroNavItems = (pendingPackages: number, openPorterOccs: number): N
     title: "Portaria",
     icon: ClipboardList,
     items: [
+      { title: "Visitantes", url: "/porteiro/portaria/visitantes", icon: UserCheck },
+      { title: "Eventos do Dia", url: "/porteiro/portaria/eventos", icon: PartyPopper },
       { title: "Ocorrências", url: "/porteiro/portaria/ocorrencias", icon: AlertTriangle, badge: openPorterOccs },
       { title: "Passagem de Plantão", url: "/porteiro/portaria/plantao", icon: ClipboardCheck },
+      { title: "Conversas", url: "/porteiro/conversas", icon: MessageCircle, badge: unreadConversations },
     ],
   },
   { title: "Configurações", url: "/porteiro/configuracoes", icon: Settings },
@@ -169,7 +233,12 @@ function SidebarNavigation() {
   const location = useLocation();
   const navigate = useNavigate();
   const { signOut, user } = useAuth();
-  const { role, residentInfo, profileInfo, loading, porteiroCondominiums } = useUserRole();
+  const { role, residentInfo, profileInfo, loading, porteiroCondominiums, councilCondominiums } = useUserRole();
+  const {
+    managed: managedCondominiums,
+    ownsAny: ownsAnyCondominium,
+    canAny: canAnyCondominium,
+  } = useCondominiumAccess();
   const { toast } = useToast();
   const [unreadMessages, setUnreadMessages] = useState(0);
   const prevPendingDefensesRef = useRef<number>(0);
@@ -179,13 +248,7 @@ function SidebarNavigation() {
   // Sindico condominium IDs (cached via React Query)
   const { data: condoIds = [] } = useQuery({
     queryKey: ["sindico-condo-ids", user?.id],
-    queryFn: async () => {
-      const { data: condos } = await supabase
-        .from("condominiums")
-        .select("id")
-        .eq("owner_id", user!.id);
-      return condos?.map((c) => c.id) || [];
-    },
+    queryFn: () => fetchManagedCondominiumIds(),
     enabled: !!user && role === "sindico",
     staleTime: 1000 * 60 * 5,
   });
@@ -193,6 +256,43 @@ function SidebarNavigation() {
   // Porteiro condominium IDs from context
   const porteiroCondoIds = porteiroCondominiums.map(c => c.id);
 
+  // Council members (designated residents) vote on appeals
+  const residentCondoId = residentInfo?.condominium_id;
+  const { data: isCouncilMember = false } = useQuery({
+    queryKey: ["is-council-member", user?.id, residentCondoId],
+    queryFn: async () => {
+      const { data } = await supabase.rpc("is_council_member", {
+        _user_id: user!.id,
+        _condominium_id: residentCondoId!,
+      });
+      return !!data;
+    },
+    enabled: !!user && (role === "morador" || role === "conselheiro") && !!residentCondoId,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  // Badge: appeals awaiting council vote, in the condominium of the selected unit when its council includes the user
+  const appealsCondoId = isCouncilMember
+    ? residentCondoId
+    : role === "conselheiro"
+    ? councilCondominiums[0]?.id
+    : undefined;
+  const { data: pendingAppeals = 0 } = useQuery({
+    queryKey: ["badge-pending-appeals", appealsCondoId],
+    queryFn: async () => {
+      const { count } = await supabase
+        .from("occurrence_appeals")
+        .select("*", { count: "exact", head: true })
+        .eq("condominium_id", appealsCondoId!)
+        .eq("status", "em_votacao");
+      return count || 0;
+    },
+    enabled: (isCouncilMember || role === "conselheiro") && !!appealsCondoId,
+    staleTime: 1000 * 60,
+    refetchInterval: 60000,
+    refetchIntervalInBackground: false,
+  });
+
   // Badge: pending defenses for sindico
   const { data: pendingDefenses = 0 } = useQuery({
     queryKey: ["badge-pending-defenses", condoIds],
@@ -283,6 +383,25 @@ function SidebarNavigation() {
     refetchIntervalInBackground: false,
   });
 
+  // Badge: WhatsApp conversations with unread resident messages (sindico and porteiro)
+  const inboxCondoIds = role === "porteiro" ? porteiroCondoIds : condoIds;
+  const { data: unreadConversations = 0 } = useQuery({
+    queryKey: ["badge-unread-conversations", inboxCondoIds],
+    queryFn: async () => {
+      if (inboxCondoIds.length === 0) return 0;
+      const { count } = await supabase
+        .from("whatsapp_conversations")
+        .select("*", { count: "exact", head: true })
+        .in("condominium_id", inboxCondoIds)
+        .gt("unread_count", 0);
+      return count || 0;
+    },
+    enabled: !!user && (role === "sindico" || role === "porteiro") && inboxCondoIds.length > 0,
+    staleTime: 1000 * 60,
+    refetchInterval: 60000,
+    refetchIntervalInBackground: false,
+  });
+
   // Badge: unread messages for super_admin
   const { data: unreadMessagesQuery = 0 } = useQuery({
     queryKey: ["badge-unread-messages"],
@@ -466,13 +585,32 @@ function SidebarNavigation() {
     return items;
   };
 
-  const getSindicoNavItems = (): NavStructure => [
+  // Managers who own no condominium only see what their permissions cover
+  const isDelegatedManager = managedCondominiums.length > 0 && !ownsAnyCondominium;
+  const isSindicoNavItemAllowed = (item: NavItem) => {
+    const permission = SINDICO_NAV_PERMISSIONS[item.url];
+    if (!isDelegatedManager || !permission) return true;
+    return permission !== "owner" && canAnyCondominium(permission);
+  };
+
+  const getSindicoNavItems = (): NavStructure =>
+    getBaseSindicoNavItems()
+      .map((item) =>
+        isNavGroup(item) ? { ...item, items: item.items.filter(isSindicoNavItemAllowed) } : item
+      )
+      .filter((item) => (isNavGroup(item) ? item.items.length > 0 : isSindicoNavItemAllowed(item)));
+
+  const getBaseSindicoNavItems = (): NavStructure => [
     { title: "Início", url: "/dashboard", icon: Home },
     {
       title: "Gestão",
       icon: Building2,
       items: [
         { title: "Condomínios", url: "/condominiums", icon: Building2 },
+        ...(managedCondominiums.length > 1
+          ? [{ title: "Carteira", url: "/sindico/carteira", icon: Briefcase }]
+          : []),
+        { title: "Administradora", url: "/sindico/administradora", icon: Users },
         { title: "Assinaturas", url: "/sindico/subscriptions", icon: CreditCard },
         { title: "Faturas", url: "/sindico/invoices", icon: Receipt },
       ],
@@ -484,7 +622,8 @@ function SidebarNavigation() {
         { title: "Encomendas", url: "/sindico/encomendas", icon: Package },
         { title: "Ocorrências", url: "/occurrences", icon: FileText, badge: openOccurrences },
         { title: "Análise de Defesas", url: "/defenses", icon: Scale, badge: pendingDefenses },
-        { title: "Salão de Festas", url: "/party-hall", icon: PartyPopper },
+        { title: "Áreas Comuns", url: "/party-hall", icon: PartyPopper },
+        { title: "Conversas WhatsApp", url: "/sindico/conversas", icon: MessageCircle, badge: unreadConversations },
       ],
     },
     {
@@ -492,6 +631,7 @@ function SidebarNavigation() {
       icon: DoorOpen,
       items: [
         { title: "Ocorrências Portaria", url: "/sindico/portaria/ocorrencias", icon: AlertTriangle, badge: openPorterOccurrences },
+        { title: "Registro de Visitantes", url: "/sindico/portaria/visitantes", icon: UserCheck },
         { title: "Passagens de Plantão", url: "/sindico/portaria/plantoes", icon: ClipboardCheck },
         { title: "Checklist Portaria", url: "/sindico/portaria/checklist", icon: Cog },
         { title: "Banners Portaria", url: "/sindico/banners", icon: Megaphone },
@@ -526,10 +666,12 @@ function SidebarNavigation() {
       : role === "sindico"
       ? getSindicoNavItems()
       : role === "porteiro"
-      ? getPorteiroNavItems(pendingPackages, openPorterOccurrencesPorteiro)
+      ? getPorteiroNavItems(pendingPackages, openPorterOccurrencesPorteiro, unreadConversations)
       : role === "zelador"
       ? getZeladorNavItems()
-      : residentNavItems;
+      : role === "conselheiro"
+      ? getConselheiroNavItems(pendingAppeals)
+      : getResidentNavItems(isCouncilMember, pendingAppeals);
 
   const getRoleConfig = () => {
     switch (role) {
@@ -557,6 +699,12 @@ function SidebarNavigation() {
           subtitle: "Manutenção",
           icon: Wrench,
         };
+      case "conselheiro":
+        return {
+          title: "NOTIFICACONDO",
+          subtitle: "Conselho",
+          icon: Scale,
+        };
       default:
         return {
           title: "NOTIFICACONDO",
@@ -609,6 +757,8 @@ function SidebarNavigation() {
         return "Porteiro";
       case "zelador":
         return "Zelador";
+      case "conselheiro":
+        return "Conselheiro";
       default:
         return "Morador";
     }
@@ -638,7 +788,10 @@ function SidebarNavigation() {
       </SidebarHeader>
 
       {/* Apartment Switcher for Residents */}
-      {role === "morador" && !collapsed && <ApartmentSwitcher />}
+      {(role === "morador" || role === "conselheiro") && !collapsed && <ApartmentSwitcher />}
+
+      {/* Condominium context for managers of several condominiums */}
+      {role === "sindico" && !collapsed && <CondominiumContextSwitcher />}
 
       {/* Navigation */}
       <SidebarContent className="px-3">
@@ -781,7 +934,7 @@ function SidebarNavigation() {
                     >
                       <NavLink
                         to={item.url}
-                        end={item.url === "/superadmin" || item.url === "/dashboard" || item.url === "/resident"}
+                        end={item.url === "/superadmin" || item.url === "/dashboard" || item.url === "/resident" || item.url === "/conselho"}
                         className={cn(
                           "flex w-full items-center py-2.5",
                           collapsed
@@ -934,7 +1087,10 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
         <main className="flex-1 flex flex-col min-h-screen overflow-hidden w-full">
           <header className="sticky top-0 z-40 h-14 border-b border-border bg-card/80 backdrop-blur-lg flex items-center justify-between px-3 md:px-4">
             <SidebarTrigger className="text-muted-foreground hover:text-foreground" />
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <OfflineSyncIndicator />
+              <ThemeToggle />
+            </div>
           </header>
           <div className="flex-1 overflow-auto p-3 md:p-6">{children}</div>
         </main>
@@ -0,0 +1,132 @@
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle, CloudOff, CloudUpload, Loader2, RefreshCw, Trash2, Upload, Wifi } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { OFFLINE_KIND_LABELS, type OfflineQueueItem } from "@/lib/offlineQueue";
+import { cn } from "@/lib/utils";
+
+const itemSummary = (item: OfflineQueueItem) => {
+  switch (item.kind) {
+    case "package":
+      return item.payload.tracking_code || `Código ${item.payload.pickup_code}`;
+    case "occurrence":
+      return item.payload.title;
+    case "handover":
+      return `Para ${item.payload.incoming_porter_name}`;
+  }
+};
+
+/**
+ * Connection and offline queue status shown in the dashboard header. Hidden
+ * while online with nothing waiting to be sent.
+ */
+export function OfflineSyncIndicator() {
+  const { isOnline, isSyncing, items, syncNow, resolveConflict } = useOfflineSync();
+
+  if (isOnline && items.length === 0) return null;
+
+  const conflicts = items.filter((item) => item.status === "conflict").length;
+
+  const { label, Icon, className } = !isOnline
+    ? { label: "Sem conexão", Icon: CloudOff, className: "text-amber-600 border-amber-500/40 bg-amber-500/10" }
+    : isSyncing
+    ? { label: "Sincronizando", Icon: Loader2, className: "text-primary border-primary/30 bg-primary/10" }
+    : conflicts > 0
+    ? { label: "Revisar", Icon: AlertTriangle, className: "text-destructive border-destructive/30 bg-destructive/10" }
+    : { label: "Pendente", Icon: CloudUpload, className: "text-muted-foreground" };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={cn("h-8 gap-1.5", className)}>
+          <Icon className={cn("h-4 w-4", isSyncing && "animate-spin")} />
+          <span className="hidden sm:inline">{label}</span>
+          {items.length > 0 && (
+            <Badge variant="secondary" className="h-5 px-1.5 text-[10px]">
+              {items.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="p-3 border-b flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium flex items-center gap-1.5">
+              {isOnline ? <Wifi className="h-4 w-4 text-emerald-600" /> : <CloudOff className="h-4 w-4 text-amber-600" />}
+              {isOnline ? "Conectado" : "Sem conexão"}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {items.length === 0
+                ? "Nenhum registro aguardando envio"
+                : `${items.length} registro(s) salvo(s) neste dispositivo`}
+            </p>
+          </div>
+          {isOnline && items.length > 0 && (
+            <Button variant="ghost" size="sm" className="gap-1" onClick={syncNow} disabled={isSyncing}>
+              <RefreshCw className={cn("h-3 w-3", isSyncing && "animate-spin")} />
+              Enviar
+            </Button>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <ul className="max-h-80 overflow-y-auto divide-y">
+            {items.map((item) => (
+              <li key={item.id} className="p-3 space-y-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium truncate">{OFFLINE_KIND_LABELS[item.kind]}</p>
+                  <span className="text-[10px] text-muted-foreground shrink-0">
+                    {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true, locale: ptBR })}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{itemSummary(item)}</p>
+                {item.status === "syncing" && (
+                  <p className="text-xs text-primary flex items-center gap-1">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Enviando...
+                  </p>
+                )}
+                {item.status === "error" && item.error && (
+                  <p className="text-xs text-destructive">Falha ao enviar: {item.error}</p>
+                )}
+                {item.status === "conflict" && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-destructive flex items-start gap-1">
+                      <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                      {item.error}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 flex-1 gap-1 text-xs"
+                        onClick={() => resolveConflict(item.id, "force")}
+                        disabled={!isOnline || isSyncing}
+                      >
+                        <Upload className="h-3 w-3" />
+                        Registrar mesmo assim
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 gap-1 text-xs text-destructive"
+                        onClick={() => resolveConflict(item.id, "discard")}
+                        disabled={isSyncing}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        Descartar
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState, ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { OfflineSyncContext } from "@/hooks/useOfflineSync";
+import {
+  enqueueOffline,
+  isConnectivityError,
+  listOfflineQueue,
+  removeOfflineItem,
+  subscribeOfflineQueue,
+  updateOfflineItem,
+  type OfflinePayloads,
+  type OfflineQueueItem,
+  type OfflineQueueKind,
+} from "@/lib/offlineQueue";
+import { replayOfflineItem } from "@/lib/offlineSync";
+
+// Failures other than connectivity stop being retried automatically after this
+const MAX_AUTO_ATTEMPTS = 5;
+const RETRY_INTERVAL_MS = 60_000;
+
+export const OfflineSyncProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [items, setItems] = useState<OfflineQueueItem[]>([]);
+  const syncingRef = useRef(false);
+
+  const refreshItems = useCallback(async () => {
+    if (!user) {
+      setItems([]);
+      return;
+    }
+    try {
+      setItems(await listOfflineQueue(user.id));
+    } catch (error) {
+      console.error("Error reading offline queue:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshItems();
+    return subscribeOfflineQueue(refreshItems);
+  }, [refreshItems]);
+
+  const sync = useCallback(
+    async (manual: boolean) => {
+      if (!user || syncingRef.current || !navigator.onLine) return;
+      syncingRef.current = true;
+      setIsSyncing(true);
+
+      let synced = 0;
+      try {
+        const queue = await listOfflineQueue(user.id);
+        for (const item of queue) {
+          if (item.status === "conflict") continue;
+          if (!manual && item.status === "error" && item.attempts >= MAX_AUTO_ATTEMPTS) continue;
+
+          await updateOfflineItem({ ...item, status: "syncing" });
+          try {
+            const outcome = await replayOfflineItem(item);
+            if (outcome.result === "synced") {
+              await removeOfflineItem(item.id);
+              synced++;
+            } else {
+              await updateOfflineItem({ ...item, status: "conflict", error: outcome.reason, force: false });
+            }
+          } catch (error) {
+            if (isConnectivityError(error)) {
+              // Connection dropped again; keep the rest for the next attempt
+              await updateOfflineItem({ ...item, status: "pending" });
+              break;
+            }
+            console.error("Error replaying offline item:", error);
+            await updateOfflineItem({
+              ...item,
+              status: "error",
+              attempts: item.attempts + 1,
+              error: error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error),
+            });
+          }
+        }
+      } finally {
+        syncingRef.current = false;
+        setIsSyncing(false);
+      }
+
+      if (synced > 0) {
+        ["porter-occurrences", "shift-handovers", "porter-packages-by-location"].forEach((key) =>
+          queryClient.invalidateQueries({ queryKey: [key] })
+        );
+      }
+    },
+    [user, queryClient]
+  );
+
+  // Replay when the connection comes back, on login and periodically while items wait
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync(false);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [sync]);
+
+  // "syncing" here means the app was closed in the middle of a replay
+  const hasRetryableItems = items.some(
+    (item) =>
+      item.status === "pending" ||
+      item.status === "syncing" ||
+      (item.status === "error" && item.attempts < MAX_AUTO_ATTEMPTS)
+  );
+
+  useEffect(() => {
+    if (!hasRetryableItems || !isOnline) return;
+    sync(false);
+    const interval = setInterval(() => sync(false), RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRetryableItems, isOnline, sync]);
+
+  const queueOffline = useCallback(
+    <K extends OfflineQueueKind>(kind: K, payload: OfflinePayloads[K]) => {
+      if (!user) throw new Error("Usuário não autenticado");
+      return enqueueOffline(kind, payload, user.id);
+    },
+    [user]
+  );
+
+  const syncNow = useCallback(() => sync(true), [sync]);
+
+  const resolveConflict = useCallback(
+    async (id: string, action: "force" | "discard") => {
+      const item = items.find((i) => i.id === id);
+      if (!item) return;
+      if (action === "discard") {
+        await removeOfflineItem(id);
+        return;
+      }
+      await updateOfflineItem({ ...item, status: "pending", force: true, error: undefined });
+      await sync(true);
+    },
+    [items, sync]
+  );
+
+  return (
+    <OfflineSyncContext.Provider value={{ isOnline, isSyncing, items, queueOffline, syncNow, resolveConflict }}>
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
@@ -15,6 +15,8 @@ import { Loader2, CreditCard, CheckCircle2, XCircle, QrCode, FileText, Copy } fr
 
 interface MercadoPagoTransparentCheckoutProps {
   invoiceId: string;
+  // Consolidated invoices of an administradora live in organization_invoices
+  invoiceKind?: "invoice" | "organization_invoice";
   payerEmail: string;
   amount: number;
   buttonText?: string;
@@ -39,6 +41,7 @@ interface PaymentResult {
 
 export function MercadoPagoTransparentCheckout({
   invoiceId,
+  invoiceKind = "invoice",
   payerEmail,
   amount,
   buttonText = "Pagar",
@@ -118,7 +121,9 @@ export function MercadoPagoTransparentCheckout({
         "mercadopago-process-payment",
         {
           body: {
-            invoice_id: invoiceId,
+            ...(invoiceKind === "organization_invoice"
+              ? { organization_invoice_id: invoiceId }
+              : { invoice_id: invoiceId }),
             amount: amount,
             form_data: formData,
           },
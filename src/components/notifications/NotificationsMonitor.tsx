@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { formatPhone } from "@/components/ui/masked-input";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { format, eachDayOfInterval, startOfDay } from "date-fns";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import { usePullToRefresh } from "@/hooks/usePullToRefresh";
@@ -93,6 +94,12 @@ const functionToModule: Record<string, { module: string; label: string; icon: Re
     icon: <Package className="h-4 w-4" />,
     color: "hsl(262, 83%, 58%)" 
   },
+  "notify-package-pickup-reminders": { 
+    module: "packages", 
+    label: "Encomendas", 
+    icon: <Package className="h-4 w-4" />,
+    color: "hsl(262, 83%, 58%)" 
+  },
   "notify-resident-decision": { 
     module: "occurrences", 
     label: "Ocorrências", 
@@ -111,6 +118,12 @@ const functionToModule: Record<string, { module: string; label: string; icon: Re
     icon: <AlertTriangle className="h-4 w-4" />,
     color: "hsl(var(--primary))" 
   },
+  "process-overdue-fines": { 
+    module: "occurrences", 
+    label: "Ocorrências", 
+    icon: <FileWarning className="h-4 w-4" />,
+    color: "hsl(var(--primary))" 
+  },
   "send-party-hall-notification": { 
     module: "party_hall", 
     label: "Salão de Festas", 
@@ -123,6 +136,12 @@ const functionToModule: Record<string, { module: string; label: string; icon: Re
     icon: <PartyPopper className="h-4 w-4" />,
     color: "hsl(142, 76%, 36%)" 
   },
+  "notify-party-hall-waitlist": { 
+    module: "party_hall", 
+    label: "Salão de Festas", 
+    icon: <PartyPopper className="h-4 w-4" />,
+    color: "hsl(142, 76%, 36%)" 
+  },
   "notify-trial-ending": { 
     module: "other", 
     label: "Sistema", 
@@ -185,18 +204,15 @@ export function NotificationsMonitor() {
       if (!user) return null;
 
       // Buscar condomínios do usuário
-      const { data: condos } = await supabase
-        .from("condominiums")
-        .select("id")
-        .eq("owner_id", user.id);
+      const condoIds = await fetchManagedCondominiumIds();
 
-      if (!condos || condos.length === 0) return null;
+      if (condoIds.length === 0) return null;
 
       // Buscar assinatura ativa
       const { data: subscription } = await supabase
         .from("subscriptions")
         .select("current_period_start, current_period_end, package_notifications_limit, package_notifications_used, package_notifications_extra")
-        .eq("condominium_id", condos[0].id)
+        .eq("condominium_id", condoIds[0])
         .eq("active", true)
         .single();
 
@@ -0,0 +1,209 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DollarSign, QrCode, Copy, Check, Loader2, CheckCircle2, PauseCircle, Ban } from "lucide-react";
+import FineStatusBadge from "./FineStatusBadge";
+
+export interface ResidentFine {
+  id: string;
+  amount: number;
+  status: string;
+  due_date: string;
+  paid_at: string | null;
+  payment_method: string | null;
+  late_fee_amount?: number;
+  interest_amount?: number;
+  total_due?: number | null;
+  appeal_suspended_at?: string | null;
+}
+
+interface PixData {
+  qr_code: string;
+  qr_code_base64?: string;
+  ticket_url?: string;
+  expiration_date?: string;
+}
+
+interface FinePixPaymentProps {
+  fine: ResidentFine;
+  onPaid?: () => void;
+}
+
+// While a QR Code is on screen, check whether the webhook already confirmed the payment
+const PAYMENT_POLL_INTERVAL_MS = 5000;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const FinePixPayment = ({ fine, onPaid }: FinePixPaymentProps) => {
+  const { toast } = useToast();
+  const { date: formatDate, dateTime: formatDateTime } = useDateFormatter();
+  const [pixData, setPixData] = useState<PixData | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const onPaidRef = useRef(onPaid);
+  onPaidRef.current = onPaid;
+
+  const isPaid = fine.status === "pago";
+  const isCancelled = fine.status === "cancelada";
+  // Due date is on hold while the council votes an appeal
+  const isSuspended = !!fine.appeal_suspended_at && !isPaid && !isCancelled;
+  // Set by the overdue fines job once late charges apply
+  const hasLateCharges = fine.total_due != null && Number(fine.total_due) > Number(fine.amount);
+  const amountDue = hasLateCharges ? Number(fine.total_due) : Number(fine.amount);
+
+  useEffect(() => {
+    if (!pixData || isPaid) return;
+
+    const interval = setInterval(async () => {
+      const { data } = await supabase
+        .from("fines")
+        .select("status")
+        .eq("id", fine.id)
+        .maybeSingle();
+
+      if (data?.status === "pago") {
+        clearInterval(interval);
+        setPixData(null);
+        toast({ title: "Pagamento confirmado!", description: "Sua multa foi quitada." });
+        onPaidRef.current?.();
+      }
+    }, PAYMENT_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pixData, isPaid, fine.id, toast]);
+
+  const handleGeneratePix = async () => {
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("create-fine-pix", {
+        body: { fine_id: fine.id },
+      });
+
+      if (error) {
+        // Non-2xx responses carry the Portuguese error message in the body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || "Não foi possível gerar o PIX.");
+      }
+      if (!data?.success) throw new Error(data?.error || "Não foi possível gerar o PIX.");
+
+      setPixData(data);
+    } catch (error) {
+      toast({
+        title: "Erro ao gerar PIX",
+        description: error instanceof Error ? error.message : "Não foi possível gerar o PIX.",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!pixData) return;
+    try {
+      await navigator.clipboard.writeText(pixData.qr_code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: "Não foi possível copiar o código", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <DollarSign className="w-5 h-5 text-primary" />
+          Multa
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <p className="text-2xl font-bold text-foreground">{formatCurrency(amountDue)}</p>
+            <p className="text-xs text-muted-foreground">
+              {isPaid && fine.paid_at
+                ? `Paga em ${formatDateTime(fine.paid_at)}`
+                : isSuspended
+                ? "Vencimento suspenso"
+                : `Vencimento: ${formatDate(fine.due_date)}`}
+            </p>
+          </div>
+          <FineStatusBadge status={fine.status} paymentMethod={fine.payment_method} />
+        </div>
+
+        {hasLateCharges && (
+          <div className="space-y-1 p-3 rounded-lg bg-muted/50 text-xs text-muted-foreground">
+            <div className="flex justify-between">
+              <span>Valor original</span>
+              <span>{formatCurrency(Number(fine.amount))}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Multa moratória</span>
+              <span>{formatCurrency(Number(fine.late_fee_amount || 0))}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Juros</span>
+              <span>{formatCurrency(Number(fine.interest_amount || 0))}</span>
+            </div>
+          </div>
+        )}
+
+        {isPaid ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 text-sm">
+            <CheckCircle2 className="w-4 h-4 shrink-0" />
+            Pagamento confirmado. Nenhuma ação é necessária.
+          </div>
+        ) : isCancelled ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/50 text-muted-foreground text-sm">
+            <Ban className="w-4 h-4 shrink-0" />
+            Multa cancelada após recurso. Nenhuma ação é necessária.
+          </div>
+        ) : isSuspended ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-500/10 text-amber-700 dark:text-amber-400 text-sm">
+            <PauseCircle className="w-4 h-4 shrink-0" />
+            Vencimento suspenso até o julgamento do recurso pelo conselho.
+          </div>
+        ) : pixData ? (
+          <div className="space-y-4">
+            {pixData.qr_code_base64 && (
+              <div className="flex justify-center">
+                <img
+                  src={`data:image/png;base64,${pixData.qr_code_base64}`}
+                  alt="QR Code PIX"
+                  className="w-48 h-48 rounded-lg border border-border bg-white p-2"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">PIX copia e cola</p>
+              <div className="flex gap-2">
+                <Input value={pixData.qr_code} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copiar código PIX">
+                  {copied ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Aguardando confirmação do pagamento...
+              {pixData.expiration_date && ` Válido até ${formatDateTime(pixData.expiration_date)}.`}
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleGeneratePix} disabled={generating} className="w-full gap-2">
+            {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <QrCode className="w-4 h-4" />}
+            Pagar com PIX
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FinePixPayment;
@@ -0,0 +1,57 @@
+import { CheckCircle2, Clock, AlertCircle, QrCode, Ban } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export type FineStatus = "em_aberto" | "pago" | "vencido" | "cancelada";
+
+interface FineStatusBadgeProps {
+  status: FineStatus | string;
+  paymentMethod?: string | null;
+  className?: string;
+}
+
+const FINE_STATUS_STYLES: Record<FineStatus, string> = {
+  em_aberto: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  pago: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+  vencido: "bg-red-500/10 text-red-600 dark:text-red-400",
+  cancelada: "bg-muted text-muted-foreground",
+};
+
+const FINE_STATUS_LABELS: Record<FineStatus, string> = {
+  em_aberto: "Multa em aberto",
+  pago: "Multa paga",
+  vencido: "Multa vencida",
+  cancelada: "Multa cancelada",
+};
+
+const FINE_STATUS_ICONS: Record<FineStatus, typeof Clock> = {
+  em_aberto: Clock,
+  pago: CheckCircle2,
+  vencido: AlertCircle,
+  cancelada: Ban,
+};
+
+/** Payments confirmed by the Mercado Pago webhook are recorded as "mercadopago_<type>" */
+const isOnlineFinePayment = (paymentMethod?: string | null) =>
+  !!paymentMethod && paymentMethod.startsWith("mercadopago_");
+
+const FineStatusBadge = ({ status, paymentMethod, className }: FineStatusBadgeProps) => {
+  const key = status as FineStatus;
+  const Icon = FINE_STATUS_ICONS[key] || Clock;
+  const paidOnline = key === "pago" && isOnlineFinePayment(paymentMethod);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium",
+        FINE_STATUS_STYLES[key] || "bg-muted text-muted-foreground",
+        className
+      )}
+    >
+      {paidOnline ? <QrCode className="w-3 h-3" /> : <Icon className="w-3 h-3" />}
+      {FINE_STATUS_LABELS[key] || status}
+      {paidOnline && " (PIX)"}
+    </span>
+  );
+};
+
+export default FineStatusBadge;
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Scale, Paperclip } from "lucide-react";
+import {
+  APPEAL_STATUS_LABELS,
+  APPEAL_STATUS_STYLES,
+  APPEAL_VOTE_LABELS,
+  type AppealVote,
+} from "@/lib/occurrenceAppeals";
+
+interface OccurrenceAppealCardProps {
+  occurrenceId: string;
+}
+
+/**
+ * Read-only view of the resident's appeal and the council votes, for the síndico
+ */
+const OccurrenceAppealCard = ({ occurrenceId }: OccurrenceAppealCardProps) => {
+  const { dateTime: formatDateTime } = useDateFormatter();
+
+  const { data: appeals = [] } = useQuery({
+    queryKey: ["occurrence-appeals", occurrenceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("occurrence_appeals")
+        .select(`
+          id, content, status, filed_at, resolved_at,
+          appeal_attachments(id, file_url),
+          appeal_votes(id, vote, comment, created_at)
+        `)
+        .eq("occurrence_id", occurrenceId)
+        .order("filed_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  if (appeals.length === 0) return null;
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          Recurso ao Conselho
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {appeals.map((appeal) => (
+          <div key={appeal.id} className="p-4 rounded-xl bg-muted/30 border border-border/50 space-y-3">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${APPEAL_STATUS_STYLES[appeal.status] || ""}`}>
+                {APPEAL_STATUS_LABELS[appeal.status] || appeal.status}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {appeal.resolved_at
+                  ? `Julgado em ${formatDateTime(appeal.resolved_at)}`
+                  : `Apresentado em ${formatDateTime(appeal.filed_at)}`}
+              </span>
+            </div>
+            <p className="text-foreground whitespace-pre-line text-justify">{appeal.content}</p>
+
+            {appeal.appeal_attachments.length > 0 && (
+              <div className="flex flex-wrap gap-3">
+                {appeal.appeal_attachments.map((attachment, index) => (
+                  <a
+                    key={attachment.id}
+                    href={attachment.file_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <Paperclip className="w-3 h-3" />
+                    Anexo {index + 1}
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <div className="pt-3 border-t border-border/30 space-y-2">
+              <p className="text-xs text-muted-foreground">Votos do conselho ({appeal.appeal_votes.length})</p>
+              {appeal.appeal_votes.map((vote) => (
+                <div key={vote.id} className="text-sm">
+                  <span className="font-medium text-foreground">
+                    {APPEAL_VOTE_LABELS[vote.vote as AppealVote] || vote.vote}
+                  </span>
+                  {vote.comment && <span className="text-muted-foreground"> - {vote.comment}</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OccurrenceAppealCard;
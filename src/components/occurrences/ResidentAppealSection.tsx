@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Scale, Loader2, Send, X, FileText, Hourglass } from "lucide-react";
+import { APPEAL_STATUS_LABELS, APPEAL_STATUS_STYLES, getAppealDeadline } from "@/lib/occurrenceAppeals";
+
+interface AppealDecision {
+  id: string;
+  decision: string;
+  decided_at: string;
+}
+
+interface ResidentAppeal {
+  id: string;
+  content: string;
+  status: string;
+  filed_at: string;
+  resolved_at: string | null;
+}
+
+interface ResidentAppealSectionProps {
+  occurrenceId: string;
+  /** Decisions of the occurrence, most recent first */
+  decisions: AppealDecision[];
+  appealWindowDays: number;
+  onFiled?: () => void;
+}
+
+/**
+ * Second-instance appeal against a warning or fine, judged by the condominium council
+ */
+const ResidentAppealSection = ({ occurrenceId, decisions, appealWindowDays, onFiled }: ResidentAppealSectionProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { date: formatDate, dateTime: formatDateTime } = useDateFormatter();
+  const [appeal, setAppeal] = useState<ResidentAppeal | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [content, setContent] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchAppeal = async () => {
+      const { data, error } = await supabase
+        .from("occurrence_appeals")
+        .select("id, content, status, filed_at, resolved_at")
+        .eq("occurrence_id", occurrenceId)
+        .order("filed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) console.error("Error fetching appeal:", error);
+      setAppeal(data);
+      setLoading(false);
+    };
+
+    fetchAppeal();
+  }, [occurrenceId]);
+
+  const latestDecision = decisions[0];
+  const appealable = !!latestDecision && ["advertido", "multado"].includes(latestDecision.decision);
+  const deadline = latestDecision ? getAppealDeadline(latestDecision.decided_at, appealWindowDays) : null;
+  const withinWindow = !!deadline && deadline.getTime() > Date.now();
+
+  if (loading || (!appeal && (!appealable || !withinWindow))) return null;
+
+  const handleSubmit = async () => {
+    if (!content.trim() || !user) {
+      toast({ title: "Escreva as razões do recurso", variant: "destructive" });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data: appealId, error } = await supabase.rpc("file_occurrence_appeal", {
+        p_occurrence_id: occurrenceId,
+        p_content: content.trim(),
+      });
+
+      if (error) throw error;
+
+      for (const file of files) {
+        const fileExt = file.name.split(".").pop();
+        const fileName = `${user.id}/appeals/${appealId}/${Date.now()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from("occurrence-evidences")
+          .upload(fileName, file);
+
+        if (uploadError) {
+          console.error("Error uploading appeal attachment:", uploadError);
+          continue;
+        }
+
+        const { data: urlData, error: signedUrlError } = await supabase.storage
+          .from("occurrence-evidences")
+          .createSignedUrl(fileName, 60 * 60 * 24 * 365); // 1 year for storage reference
+
+        if (!signedUrlError && urlData) {
+          await supabase.from("appeal_attachments").insert({
+            appeal_id: appealId,
+            file_url: urlData.signedUrl,
+            file_type: file.type,
+          });
+        }
+      }
+
+      setAppeal({
+        id: appealId,
+        content: content.trim(),
+        status: "em_votacao",
+        filed_at: new Date().toISOString(),
+        resolved_at: null,
+      });
+      setContent("");
+      setFiles([]);
+      toast({
+        title: "Recurso enviado",
+        description: "O conselho do condomínio irá analisar e votar.",
+      });
+      onFiled?.();
+    } catch (error) {
+      console.error("Error filing appeal:", error);
+      toast({
+        title: "Erro ao enviar recurso",
+        // RPC validation errors (deadline, council) are PostgrestError objects, not Error
+        description: (error as { message?: string }).message || "Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          Recurso ao Conselho
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {appeal ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <span className={`px-3 py-1 rounded-full text-xs font-medium ${APPEAL_STATUS_STYLES[appeal.status] || ""}`}>
+                {APPEAL_STATUS_LABELS[appeal.status] || appeal.status}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {appeal.resolved_at
+                  ? `Julgado em ${formatDateTime(appeal.resolved_at)}`
+                  : `Enviado em ${formatDateTime(appeal.filed_at)}`}
+              </span>
+            </div>
+            <p className="text-sm text-foreground leading-relaxed whitespace-pre-line">{appeal.content}</p>
+            {appeal.status === "em_votacao" && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-500/10 text-amber-700 dark:text-amber-400 text-xs">
+                <Hourglass className="w-4 h-4 shrink-0" />
+                Em votação pelo conselho. O vencimento da multa fica suspenso até o julgamento.
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Você pode recorrer da decisão até {deadline && formatDate(deadline.toISOString())}. O recurso é
+              julgado pelos membros do conselho e suspende o vencimento da multa.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="appeal_content">Razões do recurso</Label>
+              <Textarea
+                id="appeal_content"
+                rows={5}
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="Explique por que a decisão deve ser revista..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="appeal_files">Anexos (opcional)</Label>
+              <Input
+                id="appeal_files"
+                type="file"
+                multiple
+                accept="image/*,video/*,application/pdf"
+                onChange={(e) => {
+                  setFiles([...files, ...Array.from(e.target.files || [])]);
+                  e.target.value = "";
+                }}
+              />
+              {files.length > 0 && (
+                <div className="space-y-1">
+                  {files.map((file, index) => (
+                    <div key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-xs p-2 rounded bg-muted/50">
+                      <span className="flex items-center gap-2 truncate">
+                        <FileText className="w-3 h-3 shrink-0" />
+                        {file.name}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                        className="text-muted-foreground hover:text-destructive"
+                        aria-label="Remover anexo"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <Button onClick={handleSubmit} disabled={submitting || !content.trim()} className="w-full gap-2">
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Enviar Recurso
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResidentAppealSection;
@@ -3,6 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -97,10 +98,11 @@ export default function UnitHistoryTab() {
   useEffect(() => {
     if (!user) return;
     (async () => {
+      const managedIds = await fetchManagedCondominiumIds();
       const { data: condos } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id);
+        .in("id", managedIds);
       setCondominiums(condos || []);
 
       // Auto-select if only one
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Users, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CONDOMINIUM_PERMISSIONS,
+  CONDOMINIUM_PERMISSION_LABELS,
+  DEFAULT_MANAGER_PERMISSIONS,
+  ORGANIZATION_MEMBER_ROLE_LABELS,
+  type CondominiumPermission,
+  type OrganizationMemberRole,
+} from "@/lib/condominiumAccess";
+
+interface OrganizationMembersSettingsProps {
+  organizationId: string;
+  canManage: boolean;
+}
+
+interface MemberRow {
+  id: string;
+  user_id: string;
+  role: OrganizationMemberRole;
+  permissions: string[];
+  profile: { full_name: string; email: string } | null;
+}
+
+const emptyForm = {
+  full_name: "",
+  email: "",
+  phone: "",
+  role: "staff" as OrganizationMemberRole,
+  permissions: DEFAULT_MANAGER_PERMISSIONS.administrador,
+};
+
+/**
+ * Administradora staff. Admins hold every permission on the portfolio; staff only the marked ones.
+ */
+export function OrganizationMembersSettings({ organizationId, canManage }: OrganizationMembersSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState(emptyForm);
+  const queryKey = ["organization-members", organizationId];
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organization_members")
+        .select("id, user_id, role, permissions")
+        .eq("organization_id", organizationId)
+        .order("created_at");
+
+      if (error) throw error;
+
+      const userIds = (data || []).map((m) => m.user_id);
+      const { data: profiles } = userIds.length
+        ? await supabase.from("profiles").select("user_id, full_name, email").in("user_id", userIds)
+        : { data: [] };
+      const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+      return (data || []).map((m) => ({
+        ...m,
+        profile: profileMap.get(m.user_id) || null,
+      })) as MemberRow[];
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      if (!data.full_name.trim() || !data.email.trim()) {
+        throw new Error("Informe nome e e-mail do membro.");
+      }
+
+      const { data: result, error } = await supabase.functions.invoke("create-organization-member", {
+        body: { ...data, organization_id: organizationId },
+      });
+
+      if (error) throw error;
+      if (result?.error) throw new Error(result.error);
+      return result as { is_new_user: boolean; password?: string; message: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      setFormData(emptyForm);
+      toast({
+        title: result.message,
+        description: result.is_new_user && result.password
+          ? `Senha provisória: ${result.password}. Envie ao membro com segurança.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao adicionar membro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; role?: OrganizationMemberRole; permissions?: string[] }) => {
+      const { error } = await supabase.from("organization_members").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar permissões", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("organization_members").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Membro removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const togglePermission = (permissions: string[], permission: CondominiumPermission) =>
+    permissions.includes(permission)
+      ? permissions.filter((p) => p !== permission)
+      : [...permissions, permission];
+
+  return (
+    <Card className="bg-gradient-card border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="w-5 h-5 text-primary" />
+          Equipe da Administradora
+        </CardTitle>
+        <CardDescription>
+          Membros acessam todos os condomínios da carteira pelo painel do síndico e alternam entre eles
+          sem novo login. Administradores têm acesso completo; a equipe, apenas as permissões marcadas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum membro adicionado.</p>
+        ) : (
+          <div className="space-y-3">
+            {members.map((member) => (
+              <div key={member.id} className="p-3 rounded-lg bg-secondary/50 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {member.profile?.full_name || "Membro"}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{member.profile?.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {canManage ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value: OrganizationMemberRole) =>
+                          updateMutation.mutate({ id: member.id, role: value })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[150px] bg-background">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="admin">{ORGANIZATION_MEMBER_ROLE_LABELS.admin}</SelectItem>
+                          <SelectItem value="staff">{ORGANIZATION_MEMBER_ROLE_LABELS.staff}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{ORGANIZATION_MEMBER_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => removeMutation.mutate(member.id)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {member.role === "staff" && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {CONDOMINIUM_PERMISSIONS.map((permission) => (
+                      <label key={permission} className="flex items-center gap-2 text-xs text-foreground">
+                        <Checkbox
+                          checked={member.permissions.includes(permission)}
+                          disabled={!canManage || updateMutation.isPending}
+                          onCheckedChange={() =>
+                            updateMutation.mutate({
+                              id: member.id,
+                              permissions: togglePermission(member.permissions, permission),
+                            })
+                          }
+                        />
+                        {CONDOMINIUM_PERMISSION_LABELS[permission]}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="space-y-4 pt-4 border-t border-border/50">
+            <h4 className="text-sm font-semibold text-foreground">Adicionar membro</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="member_full_name">Nome</Label>
+                <Input
+                  id="member_full_name"
+                  value={formData.full_name}
+                  onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member_email">E-mail</Label>
+                <Input
+                  id="member_email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member_phone">Telefone (opcional)</Label>
+                <Input
+                  id="member_phone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Função</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value: OrganizationMemberRole) => setFormData({ ...formData, role: value })}
+                >
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="staff">{ORGANIZATION_MEMBER_ROLE_LABELS.staff}</SelectItem>
+                    <SelectItem value="admin">{ORGANIZATION_MEMBER_ROLE_LABELS.admin}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.role === "staff" && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {CONDOMINIUM_PERMISSIONS.map((permission) => (
+                  <label key={permission} className="flex items-center gap-2 text-sm text-foreground">
+                    <Checkbox
+                      checked={formData.permissions.includes(permission)}
+                      onCheckedChange={() =>
+                        setFormData({
+                          ...formData,
+                          permissions: togglePermission(formData.permissions, permission) as CondominiumPermission[],
+                        })
+                      }
+                    />
+                    {CONDOMINIUM_PERMISSION_LABELS[permission]}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <Button
+              className="gap-2"
+              onClick={() => addMutation.mutate(formData)}
+              disabled={addMutation.isPending}
+            >
+              {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Adicionar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Check, Loader2, RefreshCw, ScanText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  extractLabelHints,
+  recognizeLabelText,
+  suggestUnitFromLabel,
+  type LabelHints,
+  type UnitCandidate,
+  type UnitSuggestion,
+} from "@/lib/labelOcr";
+import { cn } from "@/lib/utils";
+
+interface LabelOcrSuggestionProps {
+  image: string | null;
+  condominiumId: string;
+  /** Unit currently selected; the suggestion hides once it matches */
+  selectedApartmentId: string;
+  onConfirm: (unit: UnitCandidate) => void;
+  disabled?: boolean;
+}
+
+type OcrStatus = "idle" | "reading" | "done" | "error";
+
+const confidenceLevel = (confidence: number) =>
+  confidence >= 0.7
+    ? { label: "Alta", className: "bg-emerald-500/10 text-emerald-600 border-emerald-500/30" }
+    : confidence >= 0.4
+    ? { label: "Média", className: "bg-amber-500/10 text-amber-600 border-amber-500/30" }
+    : { label: "Baixa", className: "bg-muted text-muted-foreground" };
+
+async function fetchUnitCandidates(condominiumId: string): Promise<UnitCandidate[]> {
+  const { data: blocks, error: blocksError } = await supabase
+    .from("blocks")
+    .select("id, name, short_code")
+    .eq("condominium_id", condominiumId);
+  if (blocksError) throw blocksError;
+  if (!blocks || blocks.length === 0) return [];
+
+  const { data: apartments, error: apartmentsError } = await supabase
+    .from("apartments")
+    .select("id, number, block_id, residents(full_name)")
+    .in("block_id", blocks.map((b) => b.id));
+  if (apartmentsError) throw apartmentsError;
+
+  const blocksById = new Map(blocks.map((b) => [b.id, b]));
+  return (apartments || []).map((apt) => {
+    const block = blocksById.get(apt.block_id)!;
+    return {
+      apartmentId: apt.id,
+      apartmentNumber: apt.number,
+      blockId: block.id,
+      blockName: block.name,
+      blockShortCode: block.short_code,
+      residentNames: (apt.residents || []).map((r) => r.full_name),
+    };
+  });
+}
+
+/**
+ * Reads the captured label on the device and suggests the destination unit.
+ * Nothing is selected until the porteiro confirms the suggestion.
+ */
+export function LabelOcrSuggestion({
+  image,
+  condominiumId,
+  selectedApartmentId,
+  onConfirm,
+  disabled = false,
+}: LabelOcrSuggestionProps) {
+  const [status, setStatus] = useState<OcrStatus>("idle");
+  const [progress, setProgress] = useState(0);
+  const [hints, setHints] = useState<LabelHints | null>(null);
+  const [suggestion, setSuggestion] = useState<UnitSuggestion | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const runRef = useRef(0);
+
+  const runOcr = useCallback(async () => {
+    if (!image || !condominiumId) return;
+    const run = ++runRef.current;
+    setStatus("reading");
+    setProgress(0);
+    setHints(null);
+    setSuggestion(null);
+    setDismissed(false);
+
+    try {
+      const [text, units] = await Promise.all([
+        recognizeLabelText(image, (p) => run === runRef.current && setProgress(Math.round(p * 100))),
+        fetchUnitCandidates(condominiumId),
+      ]);
+      if (run !== runRef.current) return;
+
+      const labelHints = extractLabelHints(text);
+      setHints(labelHints);
+      setSuggestion(suggestUnitFromLabel(labelHints, units));
+      setStatus("done");
+    } catch (error) {
+      console.error("Label OCR error:", error);
+      if (run === runRef.current) setStatus("error");
+    }
+  }, [image, condominiumId]);
+
+  // Read every new photo automatically
+  useEffect(() => {
+    if (image && condominiumId) {
+      runOcr();
+    } else {
+      runRef.current++;
+      setStatus("idle");
+      setSuggestion(null);
+      setHints(null);
+    }
+  }, [image, condominiumId, runOcr]);
+
+  if (!image || status === "idle" || dismissed) return null;
+
+  if (status === "reading") {
+    return (
+      <div className="p-3 rounded-lg border bg-muted/50 space-y-2">
+        <p className="text-sm flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Lendo etiqueta da encomenda...
+        </p>
+        <Progress value={progress} className="h-1.5" />
+      </div>
+    );
+  }
+
+  if (status === "error" || !suggestion) {
+    return (
+      <div className="p-3 rounded-lg border border-dashed flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground flex items-center gap-2">
+          <ScanText className="w-4 h-4 shrink-0" />
+          {status === "error"
+            ? "Não foi possível ler a etiqueta."
+            : hints?.recipientName
+            ? `Etiqueta lida (${hints.recipientName}), mas nenhuma unidade correspondente.`
+            : "Nenhuma unidade identificada na etiqueta. Selecione manualmente."}
+        </p>
+        <Button type="button" variant="ghost" size="sm" className="gap-1 shrink-0" onClick={runOcr} disabled={disabled}>
+          <RefreshCw className="w-3 h-3" />
+          Ler novamente
+        </Button>
+      </div>
+    );
+  }
+
+  if (suggestion.unit.apartmentId === selectedApartmentId) return null;
+
+  const level = confidenceLevel(suggestion.confidence);
+
+  return (
+    <div className="p-3 rounded-lg border border-primary/30 bg-primary/5 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <ScanText className="w-3 h-3" />
+            Sugestão pela etiqueta
+          </p>
+          <p className="font-semibold uppercase">
+            {suggestion.unit.blockName} - Apto {suggestion.unit.apartmentNumber}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">{suggestion.reasons.join(" · ")}</p>
+        </div>
+        <Badge variant="outline" className={cn("shrink-0", level.className)}>
+          Confiança {level.label} ({Math.round(suggestion.confidence * 100)}%)
+        </Badge>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          className="flex-1 gap-1"
+          onClick={() => onConfirm(suggestion.unit)}
+          disabled={disabled}
+        >
+          <Check className="w-4 h-4" />
+          Confirmar unidade
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="gap-1" onClick={() => setDismissed(true)}>
+          <X className="w-4 h-4" />
+          Ignorar
+        </Button>
+      </div>
+    </div>
+  );
+}
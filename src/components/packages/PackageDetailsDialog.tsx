@@ -14,6 +14,7 @@ import {
   User,
   CheckCircle2,
   XCircle,
+  PenLine,
 } from "lucide-react";
 import {
   Dialog,
@@ -31,9 +32,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { Package } from "@/hooks/usePackages";
 import { PackageStatusBadge } from "./PackageStatusBadge";
 import { PackageCardImage } from "./PackageCardImage";
-import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
+import { getSignedPackagePhotoUrl, getSignedPickupProofUrl } from "@/lib/packageStorage";
 import { cn } from "@/lib/utils";
 import { DeliveryStatusTracker } from "./DeliveryStatusTracker";
+import { StorageLocationBadge } from "./StorageLocationBadge";
 
 interface PackageDetailsDialogProps {
   open: boolean;
@@ -78,6 +80,10 @@ export function PackageDetailsDialog({
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [signedPhotoUrl, setSignedPhotoUrl] = useState<string | null>(null);
   const [isLoadingPhoto, setIsLoadingPhoto] = useState(false);
+  const [proofUrls, setProofUrls] = useState<{ signature: string | null; photo: string | null }>({
+    signature: null,
+    photo: null,
+  });
   const [notificationLogs, setNotificationLogs] = useState<NotificationLog[]>([]);
   const [isLoadingLogs, setIsLoadingLogs] = useState(false);
 
@@ -96,6 +102,16 @@ export function PackageDetailsDialog({
     }
   }, [open, package_?.photo_url]);
 
+  // Proof of delivery captured at pickup
+  useEffect(() => {
+    setProofUrls({ signature: null, photo: null });
+    if (!open || !package_?.pickup_signature_path) return;
+    Promise.all([
+      getSignedPickupProofUrl(package_.pickup_signature_path),
+      package_.pickup_photo_path ? getSignedPickupProofUrl(package_.pickup_photo_path) : Promise.resolve(null),
+    ]).then(([signature, photo]) => setProofUrls({ signature, photo }));
+  }, [open, package_?.pickup_signature_path, package_?.pickup_photo_path]);
+
   // Fetch notification history
   const fetchNotificationLogs = useCallback(async () => {
     if (!package_?.id) return;
@@ -289,6 +305,9 @@ export function PackageDetailsDialog({
                     {package_.condominium.name}
                   </p>
                 )}
+                {package_.status === "pendente" && (
+                  <StorageLocationBadge location={package_.storage_location} />
+                )}
               </div>
             </div>
 
@@ -321,6 +340,35 @@ export function PackageDetailsDialog({
                       </span>
                     </div>
                   )}
+                  {package_.pickup_signature_path && (
+                    <div className="pt-2 space-y-2">
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <PenLine className="w-3 h-3" />
+                        Comprovante de retirada
+                        {package_.pickup_receipt_sent_at && " · enviado ao morador"}
+                      </p>
+                      <div className="flex gap-2">
+                        <div className="flex-1 h-24 rounded-md border bg-white flex items-center justify-center overflow-hidden">
+                          {proofUrls.signature ? (
+                            <img src={proofUrls.signature} alt="Assinatura" className="max-h-full object-contain" />
+                          ) : (
+                            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                          )}
+                        </div>
+                        {package_.pickup_photo_path && (
+                          <div className="w-24 h-24 rounded-md border overflow-hidden bg-muted flex items-center justify-center shrink-0">
+                            {proofUrls.photo ? (
+                              <a href={proofUrls.photo} target="_blank" rel="noopener noreferrer">
+                                <img src={proofUrls.photo} alt="Foto de quem retirou" className="w-full h-full object-cover" />
+                              </a>
+                            ) : (
+                              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </>
             )}
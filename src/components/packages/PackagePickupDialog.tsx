@@ -6,10 +6,17 @@ import {
   Loader2, 
   AlertCircle,
   KeyRound,
+  UserCheck,
+  MessageCircle,
+  PenLine,
+  Camera,
   Package as PackageIcon
 } from "lucide-react";
-import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
+import { getSignedPackagePhotoUrl, uploadPickupProof, type PickupProofPaths } from "@/lib/packageStorage";
 import { PackageCardImage } from "./PackageCardImage";
+import { StorageLocationBadge } from "./StorageLocationBadge";
+import { SignaturePad } from "./SignaturePad";
+import { CameraCapture } from "./CameraCapture";
 import {
   Dialog,
   DialogContent,
@@ -20,19 +27,24 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { MaskedInput, formatCPF } from "@/components/ui/masked-input";
 import { cn } from "@/lib/utils";
 import { Package } from "@/hooks/usePackages";
+import { PICKUP_INTENT_LABELS, type PackagePickupIntent } from "@/lib/packageConstants";
 
 interface PackagePickupDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   package_: Package | null;
-  onConfirm: (pickedUpByName: string) => Promise<{ success: boolean; error?: string }>;
+  /** Receives the proof of delivery already uploaded to storage. */
+  onConfirm: (pickedUpByName: string, proof: PickupProofPaths) => Promise<{ success: boolean; error?: string }>;
   /** When false, the pickup code will not be rendered anywhere in the dialog. */
   revealPickupCode?: boolean;
 }
 
 type Step = "validate" | "processing" | "success" | "error";
+// "cpf" validates the third party authorized by the resident via WhatsApp
+type ValidationMode = "code" | "cpf";
 
 export function PackagePickupDialog({
   open,
@@ -45,9 +57,14 @@ export function PackagePickupDialog({
   const [inputCode, setInputCode] = useState("");
   const [pickedUpByName, setPickedUpByName] = useState("");
   const [codeValid, setCodeValid] = useState<boolean | null>(null);
+  const [validationMode, setValidationMode] = useState<ValidationMode>("code");
+  const [inputCpf, setInputCpf] = useState("");
   const [errorMessage, setErrorMessage] = useState("");
   const [signedPhotoUrl, setSignedPhotoUrl] = useState<string | null>(null);
   const [isLoadingPhoto, setIsLoadingPhoto] = useState(false);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [showProofCamera, setShowProofCamera] = useState(false);
+  const [proofPhoto, setProofPhoto] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Reset state when dialog opens
@@ -57,8 +74,13 @@ export function PackagePickupDialog({
       setInputCode("");
       setPickedUpByName("");
       setCodeValid(null);
+      setValidationMode("code");
+      setInputCpf("");
       setErrorMessage("");
       setSignedPhotoUrl(null);
+      setSignature(null);
+      setShowProofCamera(false);
+      setProofPhoto(null);
       // Focus input after dialog opens
       setTimeout(() => inputRef.current?.focus(), 100);
     }
@@ -88,11 +110,41 @@ export function PackagePickupDialog({
     setCodeValid(isValid);
   }, [inputCode, package_]);
 
+  const authorizedCpf = package_?.authorized_pickup_cpf || null;
+  const inputCpfDigits = inputCpf.replace(/\D/g, "");
+  const cpfValid = inputCpfDigits.length === 11 ? inputCpfDigits === authorizedCpf : null;
+  const isValidated = validationMode === "cpf" ? cpfValid === true : codeValid === true;
+
+  const handleSelectThirdParty = () => {
+    setValidationMode("cpf");
+    setPickedUpByName(package_?.authorized_pickup_name || "");
+    setInputCpf("");
+  };
+
+  const handleSelectCode = () => {
+    setValidationMode("code");
+    setPickedUpByName("");
+    setTimeout(() => inputRef.current?.focus(), 100);
+  };
+
+  const canConfirm = isValidated && !!pickedUpByName.trim() && !!signature;
+
   const handleConfirm = async () => {
-    if (!codeValid || !pickedUpByName.trim()) return;
+    if (!package_ || !signature || !canConfirm) return;
     
     setStep("processing");
-    const result = await onConfirm(pickedUpByName.trim());
+
+    let proof: PickupProofPaths;
+    try {
+      proof = await uploadPickupProof(package_, signature, proofPhoto);
+    } catch (error) {
+      console.error("Error uploading pickup proof:", error);
+      setErrorMessage("Não foi possível salvar o comprovante de retirada");
+      setStep("error");
+      return;
+    }
+
+    const result = await onConfirm(pickedUpByName.trim(), proof);
     
     if (result.success) {
       setStep("success");
@@ -115,7 +167,7 @@ export function PackagePickupDialog({
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         {step === "validate" && (
           <>
             <DialogHeader>
@@ -124,7 +176,9 @@ export function PackagePickupDialog({
                 Confirmar Retirada
               </DialogTitle>
               <DialogDescription>
-                Digite o código de retirada para confirmar
+                {validationMode === "cpf"
+                  ? "Confira o documento do terceiro autorizado pelo morador"
+                  : "Digite o código de retirada para confirmar"}
               </DialogDescription>
             </DialogHeader>
 
@@ -163,9 +217,42 @@ export function PackagePickupDialog({
                       {package_.description}
                     </p>
                   )}
+                  <StorageLocationBadge location={package_.storage_location} className="mt-2" />
                 </div>
               </div>
 
+              {/* Resident's choice via WhatsApp quick reply */}
+              {package_.pickup_intent && !authorizedCpf && (
+                <div className="flex items-center gap-2 p-3 rounded-lg border bg-muted/50 text-sm">
+                  <MessageCircle className="w-4 h-4 text-primary shrink-0" />
+                  <span>{PICKUP_INTENT_LABELS[package_.pickup_intent as PackagePickupIntent]}</span>
+                </div>
+              )}
+
+              {/* Third party authorized by the resident */}
+              {authorizedCpf && (
+                <div className="p-3 rounded-lg border border-primary/30 bg-primary/5 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <UserCheck className="w-4 h-4 text-primary mt-0.5 shrink-0" />
+                    <div className="text-sm min-w-0">
+                      <p className="font-medium">Terceiro autorizado pelo morador</p>
+                      <p className="text-muted-foreground truncate">
+                        {package_.authorized_pickup_name} • CPF {formatCPF(authorizedCpf).replace(/^\d{3}/, "***").replace(/\d{2}$/, "**")}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant={validationMode === "cpf" ? "secondary" : "outline"}
+                    size="sm"
+                    className="w-full"
+                    onClick={validationMode === "cpf" ? handleSelectCode : handleSelectThirdParty}
+                  >
+                    {validationMode === "cpf" ? "Validar pelo código de retirada" : "Retirada pelo terceiro autorizado"}
+                  </Button>
+                </div>
+              )}
+
               {/* Picked Up By Name Input */}
               <div className="space-y-2">
                 <Label htmlFor="picked-up-by-name" className="flex items-center gap-2">
@@ -182,50 +269,126 @@ export function PackagePickupDialog({
                 />
               </div>
 
-              {/* Code Input */}
-              <div className="space-y-2">
-                <Label htmlFor="pickup-code" className="flex items-center gap-2">
-                  <KeyRound className="w-4 h-4" />
-                  Código de Retirada
-                </Label>
-                <div className="relative">
-                  <Input
-                    ref={inputRef}
-                    id="pickup-code"
-                    placeholder="000000"
-                    value={inputCode}
-                    onChange={(e) => {
-                      // Apenas números
-                      const numericValue = e.target.value.replace(/\D/g, '');
-                      setInputCode(numericValue);
-                    }}
-                    className={cn(
-                      "font-mono text-2xl tracking-[0.5em] text-center pr-10",
-                      codeValid === true && "border-green-500 focus-visible:ring-green-500",
-                      codeValid === false && "border-destructive focus-visible:ring-destructive"
+              {/* Third party CPF Input */}
+              {validationMode === "cpf" && (
+                <div className="space-y-2">
+                  <Label htmlFor="third-party-cpf" className="flex items-center gap-2">
+                    <UserCheck className="w-4 h-4" />
+                    CPF do documento apresentado
+                  </Label>
+                  <div className="relative">
+                    <MaskedInput
+                      id="third-party-cpf"
+                      mask="cpf"
+                      value={inputCpf}
+                      onChange={setInputCpf}
+                      className={cn(
+                        "font-mono text-lg text-center pr-10",
+                        cpfValid === true && "border-green-500 focus-visible:ring-green-500",
+                        cpfValid === false && "border-destructive focus-visible:ring-destructive"
+                      )}
+                      maxLength={14}
+                    />
+                    {cpfValid !== null && (
+                      <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                        {cpfValid ? (
+                          <Check className="w-5 h-5 text-green-500" />
+                        ) : (
+                          <X className="w-5 h-5 text-destructive" />
+                        )}
+                      </div>
                     )}
-                    maxLength={6}
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                  />
-                  {codeValid !== null && (
-                    <div className="absolute right-3 top-1/2 -translate-y-1/2">
-                      {codeValid ? (
-                        <Check className="w-5 h-5 text-green-500" />
-                      ) : (
-                        <X className="w-5 h-5 text-destructive" />
+                  </div>
+                  {cpfValid === false && (
+                    <p className="text-sm text-destructive flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      CPF não corresponde ao autorizado pelo morador
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Code Input */}
+              {validationMode === "code" && (
+                <div className="space-y-2">
+                  <Label htmlFor="pickup-code" className="flex items-center gap-2">
+                    <KeyRound className="w-4 h-4" />
+                    Código de Retirada
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      ref={inputRef}
+                      id="pickup-code"
+                      placeholder="000000"
+                      value={inputCode}
+                      onChange={(e) => {
+                        // Apenas números
+                        const numericValue = e.target.value.replace(/\D/g, '');
+                        setInputCode(numericValue);
+                      }}
+                      className={cn(
+                        "font-mono text-2xl tracking-[0.5em] text-center pr-10",
+                        codeValid === true && "border-green-500 focus-visible:ring-green-500",
+                        codeValid === false && "border-destructive focus-visible:ring-destructive"
                       )}
-                    </div>
+                      maxLength={6}
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                    />
+                    {codeValid !== null && (
+                      <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                        {codeValid ? (
+                          <Check className="w-5 h-5 text-green-500" />
+                        ) : (
+                          <X className="w-5 h-5 text-destructive" />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {codeValid === false && inputCode.length >= 4 && (
+                    <p className="text-sm text-destructive flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      Código inválido
+                    </p>
                   )}
                 </div>
-                {codeValid === false && inputCode.length >= 4 && (
-                  <p className="text-sm text-destructive flex items-center gap-1">
-                    <AlertCircle className="w-4 h-4" />
-                    Código inválido
-                  </p>
-                )}
+              )}
+
+              {/* Proof of delivery */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <PenLine className="w-4 h-4" />
+                  Assinatura de quem está retirando
+                </Label>
+                <SignaturePad onChange={setSignature} hasSignature={!!signature} />
               </div>
 
+              {showProofCamera ? (
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Camera className="w-4 h-4" />
+                    Foto de quem está retirando (opcional)
+                  </Label>
+                  <CameraCapture
+                    onCapture={setProofPhoto}
+                    capturedImage={proofPhoto}
+                    onClear={() => setProofPhoto(null)}
+                    className="aspect-[4/3]"
+                  />
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="w-full gap-2"
+                  onClick={() => setShowProofCamera(true)}
+                >
+                  <Camera className="w-4 h-4" />
+                  Adicionar foto de quem está retirando (opcional)
+                </Button>
+              )}
+
               {/* Actions */}
               <div className="flex gap-3 pt-2">
                 <Button
@@ -237,7 +400,7 @@ export function PackagePickupDialog({
                 </Button>
                 <Button
                   onClick={handleConfirm}
-                  disabled={!codeValid || !pickedUpByName.trim()}
+                  disabled={!canConfirm}
                   className="flex-1 gap-2"
                 >
                   <PackageCheck className="w-4 h-4" />
@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Warehouse } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { usePackageStorageLocations } from "@/hooks/usePackageStorageLocations";
+import { STORAGE_LOCATION_TYPE_LABELS, type StorageLocationType } from "@/lib/packageConstants";
+import { StorageLocationIcon } from "./StorageLocationBadge";
+
+interface PackageStorageLocationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  condominiums: { id: string; name: string }[];
+}
+
+const emptyForm = { name: "", location_type: "prateleira" as StorageLocationType, description: "" };
+
+/**
+ * Shelves, cabinets, refrigerator and oversized area where the portaria keeps packages.
+ * Once a condominium has active locations, porters must pick one when registering.
+ */
+export function PackageStorageLocationsDialog({ open, onOpenChange, condominiums }: PackageStorageLocationsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [condominiumId, setCondominiumId] = useState("");
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!condominiumId && condominiums.length > 0) {
+      setCondominiumId(condominiums[0].id);
+    }
+  }, [condominiums, condominiumId]);
+
+  const { locations, isLoading } = usePackageStorageLocations(condominiumId ? [condominiumId] : [], true);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["package-storage-locations"] });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      if (!form.name.trim()) throw new Error("Informe o nome do local.");
+      const { error } = await supabase.from("package_storage_locations").insert({
+        condominium_id: condominiumId,
+        name: form.name.trim(),
+        location_type: form.location_type,
+        description: form.description.trim() || null,
+        display_order: locations.length,
+      });
+      if (error) {
+        if (error.code === "23505") throw new Error("Já existe um local com este nome.");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(emptyForm);
+      toast({ title: "Local cadastrado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cadastrar local", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("package_storage_locations").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar local", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("package_storage_locations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Local removido", description: "Encomendas que estavam nele ficam sem local informado." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover local", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Warehouse className="w-5 h-5 text-primary" />
+            Locais de Armazenamento
+          </DialogTitle>
+          <DialogDescription>
+            Onde a portaria guarda as encomendas. Com locais ativos, o porteiro informa o local ao registrar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {condominiums.length > 1 && (
+            <Select value={condominiumId} onValueChange={setCondominiumId}>
+              <SelectTrigger><SelectValue placeholder="Selecione o condomínio" /></SelectTrigger>
+              <SelectContent>
+                {condominiums.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : locations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Nenhum local cadastrado.</p>
+          ) : (
+            <div className="space-y-2">
+              {locations.map((location) => (
+                <div
+                  key={location.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <StorageLocationIcon type={location.location_type} className="w-4 h-4 text-primary shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{location.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {STORAGE_LOCATION_TYPE_LABELS[location.location_type]}
+                        {location.description && ` · ${location.description}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={location.is_active}
+                      onCheckedChange={(is_active) => toggleMutation.mutate({ id: location.id, is_active })}
+                      aria-label="Local ativo"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteMutation.mutate(location.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="p-4 rounded-lg border space-y-3">
+            <p className="text-sm font-medium">Novo local</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Nome</Label>
+                <Input
+                  placeholder="Ex: Prateleira A"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Tipo</Label>
+                <Select
+                  value={form.location_type}
+                  onValueChange={(v: StorageLocationType) => setForm({ ...form, location_type: v })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STORAGE_LOCATION_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Descrição (opcional)</Label>
+              <Input
+                placeholder="Ex: Sala da portaria, à esquerda"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <Button
+              size="sm"
+              className="gap-2"
+              onClick={() => addMutation.mutate()}
+              disabled={!condominiumId || addMutation.isPending}
+            >
+              {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Adicionar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
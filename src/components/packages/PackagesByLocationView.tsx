@@ -0,0 +1,415 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  CheckCircle2,
+  ClipboardCheck,
+  Info,
+  Loader2,
+  MapPinOff,
+  Package as PackageIcon,
+  PackageSearch,
+  X,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { usePackageStorageLocations } from "@/hooks/usePackageStorageLocations";
+import type { Package } from "@/hooks/usePackages";
+import { STORAGE_LOCATION_TYPE_LABELS, type InventoryAuditResult } from "@/lib/packageConstants";
+import { StorageLocationIcon } from "./StorageLocationBadge";
+import { cn } from "@/lib/utils";
+
+interface PackagesByLocationViewProps {
+  condominiumIds: string[];
+  onPackageClick: (pkg: Package) => void;
+  onViewDetails: (pkg: Package) => void;
+}
+
+interface AuditEntry {
+  result: InventoryAuditResult;
+  foundLocationId: string | null;
+}
+
+interface LocationGroup {
+  key: string;
+  location: Package["storage_location"];
+  condominiumName?: string;
+  packages: Package[];
+}
+
+const packagesByLocationQueryKey = (condominiumIds: string[]) => [
+  "porter-packages-by-location",
+  ...condominiumIds,
+];
+
+/**
+ * Pending packages grouped by where they are stored, with an inventory-audit mode
+ * in which the porteiro confirms, relocates or flags as missing each package.
+ */
+export function PackagesByLocationView({ condominiumIds, onPackageClick, onViewDetails }: PackagesByLocationViewProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [auditStartedAt, setAuditStartedAt] = useState<string | null>(null);
+  const [audit, setAudit] = useState<Record<string, AuditEntry>>({});
+
+  const { locations } = usePackageStorageLocations(condominiumIds);
+
+  const { data: packages = [], isLoading } = useQuery({
+    queryKey: packagesByLocationQueryKey(condominiumIds),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("packages")
+        .select(`
+          *,
+          apartment:apartments(id, number),
+          block:blocks(id, name),
+          condominium:condominiums(id, name),
+          package_type:package_types(id, name, icon),
+          storage_location:package_storage_locations(id, name, location_type)
+        `)
+        .in("condominium_id", condominiumIds)
+        .eq("status", "pendente")
+        .order("received_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Package[];
+    },
+    enabled: condominiumIds.length > 0,
+  });
+
+  const groups = useMemo(() => {
+    const order = new Map(locations.map((l, index) => [l.id, index]));
+    const byKey = new Map<string, LocationGroup>();
+
+    for (const pkg of packages) {
+      const key = pkg.storage_location_id || "none";
+      let group = byKey.get(key);
+      if (!group) {
+        group = {
+          key,
+          location: pkg.storage_location ?? null,
+          condominiumName: pkg.condominium?.name,
+          packages: [],
+        };
+        byKey.set(key, group);
+      }
+      group.packages.push(pkg);
+    }
+
+    // Configured order first, then locations deactivated meanwhile, then packages without location
+    const rank = (key: string) => (key === "none" ? Infinity : order.get(key) ?? locations.length);
+    return Array.from(byKey.values()).sort((a, b) => rank(a.key) - rank(b.key));
+  }, [packages, locations]);
+
+  const isAuditing = auditStartedAt !== null;
+  const checkedCount = packages.filter((p) => audit[p.id]).length;
+  const showCondominium = condominiumIds.length > 1;
+
+  const setEntry = (packageId: string, entry: AuditEntry | null) => {
+    setAudit((prev) => {
+      const next = { ...prev };
+      if (entry) {
+        next[packageId] = entry;
+      } else {
+        delete next[packageId];
+      }
+      return next;
+    });
+  };
+
+  const startAudit = () => {
+    setAudit({});
+    setAuditStartedAt(new Date().toISOString());
+  };
+
+  const cancelAudit = () => {
+    setAudit({});
+    setAuditStartedAt(null);
+  };
+
+  const finishMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !auditStartedAt) throw new Error("Usuário não autenticado");
+
+      const { data: profileData } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+
+      const byCondominium = new Map<string, Package[]>();
+      for (const pkg of packages) {
+        const list = byCondominium.get(pkg.condominium_id) || [];
+        list.push(pkg);
+        byCondominium.set(pkg.condominium_id, list);
+      }
+
+      let relocated = 0;
+      let missing = 0;
+
+      for (const [condominiumId, condoPackages] of byCondominium) {
+        const entries = condoPackages.map((pkg) => ({ pkg, entry: audit[pkg.id] }));
+        const count = (result: InventoryAuditResult) => entries.filter((e) => e.entry.result === result).length;
+
+        const { data: auditRow, error: auditError } = await supabase
+          .from("package_inventory_audits")
+          .insert({
+            condominium_id: condominiumId,
+            performed_by: user.id,
+            performed_by_name: profileData?.full_name || null,
+            started_at: auditStartedAt,
+            finished_at: new Date().toISOString(),
+            total_packages: entries.length,
+            confirmed_count: count("confirmada"),
+            relocated_count: count("realocada"),
+            missing_count: count("nao_encontrada"),
+          })
+          .select("id")
+          .single();
+
+        if (auditError) throw auditError;
+
+        const { error: itemsError } = await supabase.from("package_inventory_audit_items").insert(
+          entries.map(({ pkg, entry }) => ({
+            audit_id: auditRow.id,
+            package_id: pkg.id,
+            expected_location_id: pkg.storage_location_id || null,
+            found_location_id: entry.result === "nao_encontrada" ? null : entry.foundLocationId,
+            result: entry.result,
+          }))
+        );
+        if (itemsError) throw itemsError;
+
+        for (const { pkg, entry } of entries) {
+          if (entry.result !== "realocada") continue;
+          const { error } = await supabase
+            .from("packages")
+            .update({ storage_location_id: entry.foundLocationId })
+            .eq("id", pkg.id);
+          if (error) throw error;
+        }
+
+        relocated += count("realocada");
+        missing += count("nao_encontrada");
+      }
+
+      return { relocated, missing };
+    },
+    onSuccess: ({ relocated, missing }) => {
+      toast({
+        title: "Conferência finalizada",
+        description:
+          missing > 0
+            ? `${missing} encomenda(s) não encontrada(s). Avise o síndico.`
+            : relocated > 0
+            ? `${relocated} encomenda(s) com local atualizado.`
+            : "Todas as encomendas estão nos locais indicados.",
+        variant: missing > 0 ? "destructive" : "default",
+      });
+      cancelAudit();
+      queryClient.invalidateQueries({ queryKey: ["porter-packages-by-location"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao finalizar conferência", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-40 rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (packages.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <PackageIcon className="w-12 h-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Nenhuma encomenda pendente</h3>
+          <p className="text-muted-foreground text-center">Não há encomendas aguardando retirada</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Audit toolbar */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-sm text-muted-foreground">
+          {isAuditing
+            ? `Conferidas ${checkedCount} de ${packages.length} encomendas`
+            : `${packages.length} encomenda(s) pendente(s) em ${groups.length} local(is)`}
+        </p>
+        {isAuditing ? (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={cancelAudit} disabled={finishMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              size="sm"
+              className="gap-2"
+              onClick={() => finishMutation.mutate()}
+              disabled={checkedCount < packages.length || finishMutation.isPending}
+            >
+              {finishMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4" />
+              )}
+              Finalizar conferência
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="gap-2" onClick={startAudit}>
+            <ClipboardCheck className="w-4 h-4" />
+            Iniciar conferência
+          </Button>
+        )}
+      </div>
+
+      {groups.map((group) => (
+        <Card key={group.key}>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              {group.location ? (
+                <StorageLocationIcon type={group.location.location_type} className="w-4 h-4 text-primary" />
+              ) : (
+                <MapPinOff className="w-4 h-4 text-muted-foreground" />
+              )}
+              {group.location?.name || "Sem local informado"}
+              <Badge variant="secondary" className="ml-1">{group.packages.length}</Badge>
+              {group.location && (
+                <span className="text-xs font-normal text-muted-foreground">
+                  {STORAGE_LOCATION_TYPE_LABELS[group.location.location_type]}
+                  {showCondominium && group.condominiumName && ` · ${group.condominiumName}`}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {group.packages.map((pkg) => {
+              const entry = audit[pkg.id];
+              const otherLocations = locations.filter(
+                (l) => l.condominium_id === pkg.condominium_id && l.id !== pkg.storage_location_id
+              );
+
+              return (
+                <div
+                  key={pkg.id}
+                  className={cn(
+                    "flex flex-col gap-3 p-3 rounded-lg border sm:flex-row sm:items-center sm:justify-between",
+                    entry?.result === "confirmada" && "border-emerald-500/40 bg-emerald-500/5",
+                    entry?.result === "realocada" && "border-sky-500/40 bg-sky-500/5",
+                    entry?.result === "nao_encontrada" && "border-destructive/40 bg-destructive/5"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium uppercase">
+                      {pkg.block?.name} - APTO {pkg.apartment?.number}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {pkg.description || "Sem descrição"} · recebida{" "}
+                      {formatDistanceToNow(new Date(pkg.received_at), { addSuffix: true, locale: ptBR })}
+                    </p>
+                  </div>
+
+                  {isAuditing ? (
+                    <div className="flex flex-wrap items-center gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant={entry?.result === "confirmada" ? "default" : "outline"}
+                        className="gap-1"
+                        onClick={() =>
+                          setEntry(
+                            pkg.id,
+                            entry?.result === "confirmada"
+                              ? null
+                              : { result: "confirmada", foundLocationId: pkg.storage_location_id || null }
+                          )
+                        }
+                      >
+                        <CheckCircle2 className="w-4 h-4" />
+                        Está aqui
+                      </Button>
+                      {otherLocations.length > 0 && (
+                        <Select
+                          value={entry?.result === "realocada" ? entry.foundLocationId || "" : ""}
+                          onValueChange={(locationId) =>
+                            setEntry(pkg.id, { result: "realocada", foundLocationId: locationId })
+                          }
+                        >
+                          <SelectTrigger className="h-9 w-40">
+                            <SelectValue placeholder="Em outro local" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {otherLocations.map((l) => (
+                              <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Button
+                        size="sm"
+                        variant={entry?.result === "nao_encontrada" ? "destructive" : "outline"}
+                        className="gap-1"
+                        onClick={() =>
+                          setEntry(
+                            pkg.id,
+                            entry?.result === "nao_encontrada" ? null : { result: "nao_encontrada", foundLocationId: null }
+                          )
+                        }
+                      >
+                        <PackageSearch className="w-4 h-4" />
+                        Não encontrada
+                      </Button>
+                      {entry && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => setEntry(pkg.id, null)}
+                          aria-label="Desfazer"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex gap-2 shrink-0">
+                      <Button size="sm" variant="ghost" className="gap-1" onClick={() => onViewDetails(pkg)}>
+                        <Info className="w-4 h-4" />
+                        Detalhes
+                      </Button>
+                      <Button size="sm" onClick={() => onPackageClick(pkg)}>
+                        Retirar
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useRef, useEffect, useCallback } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SignaturePadProps {
+  /** Called with a PNG data URL after each stroke, or null when cleared. */
+  onChange: (dataUrl: string | null) => void;
+  hasSignature: boolean;
+  className?: string;
+}
+
+export function SignaturePad({ onChange, hasSignature, className }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Match the canvas buffer to its rendered size so strokes are not blurry
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    // offsetWidth ignores the dialog's zoom-in transform, unlike getBoundingClientRect
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    // Opaque background keeps the signature legible when re-encoded as JPEG (PDF exports)
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.offsetWidth, canvas.offsetHeight);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111827";
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    lastPointRef.current = getPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || !lastPointRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const point = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    onChange(canvasRef.current?.toDataURL("image/png") || null);
+  };
+
+  const handleClear = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (canvas && ctx) {
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.restore();
+    }
+    onChange(null);
+  }, [onChange]);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative rounded-lg border-2 border-dashed bg-white">
+        <canvas
+          ref={canvasRef}
+          className="w-full h-36 touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {!hasSignature && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground pointer-events-none">
+            Assine aqui
+          </p>
+        )}
+      </div>
+      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={handleClear} disabled={!hasSignature}>
+        <Eraser className="w-4 h-4" />
+        Limpar assinatura
+      </Button>
+    </div>
+  );
+}
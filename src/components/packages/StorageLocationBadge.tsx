@@ -0,0 +1,50 @@
+import { Archive, Boxes, Layers, Snowflake, type LucideIcon } from "lucide-react";
+import { type PackageStorageLocation, type StorageLocationType } from "@/lib/packageConstants";
+import { cn } from "@/lib/utils";
+
+const STORAGE_LOCATION_ICONS: Record<StorageLocationType, LucideIcon> = {
+  prateleira: Layers,
+  armario: Archive,
+  geladeira: Snowflake,
+  volumosos: Boxes,
+};
+
+interface StorageLocationIconProps {
+  type: StorageLocationType;
+  className?: string;
+}
+
+export function StorageLocationIcon({ type, className }: StorageLocationIconProps) {
+  const Icon = STORAGE_LOCATION_ICONS[type] || Layers;
+  return <Icon className={className} />;
+}
+
+interface StorageLocationBadgeProps {
+  location: PackageStorageLocation | null | undefined;
+  className?: string;
+}
+
+export function StorageLocationBadge({ location, className }: StorageLocationBadgeProps) {
+  if (!location) {
+    return (
+      <span className={cn("inline-flex items-center gap-1 text-xs text-muted-foreground", className)}>
+        Local não informado
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium border",
+        location.location_type === "geladeira"
+          ? "bg-sky-100 text-sky-800 border-sky-200 dark:bg-sky-900/30 dark:text-sky-300 dark:border-sky-800"
+          : "bg-muted text-foreground border-border",
+        className
+      )}
+    >
+      <StorageLocationIcon type={location.location_type} className="w-3 h-3" />
+      {location.name}
+    </span>
+  );
+}
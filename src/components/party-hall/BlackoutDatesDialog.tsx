@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarOff, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface BlackoutDatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  space: { id: string; name: string; condominium_id: string };
+}
+
+/**
+ * Dates on which residents cannot request the space (maintenance, condominium
+ * events). Existing bookings on the date are kept; the síndico handles them.
+ */
+export default function BlackoutDatesDialog({ open, onOpenChange, space }: BlackoutDatesDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: dates = [], isLoading } = useQuery({
+    queryKey: ["party-hall-blackout-dates", space.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_blackout_dates")
+        .select("id, blackout_date, reason")
+        .eq("party_hall_setting_id", space.id)
+        .gte("blackout_date", today)
+        .order("blackout_date");
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("party_hall_blackout_dates").insert({
+        party_hall_setting_id: space.id,
+        condominium_id: space.condominium_id,
+        blackout_date: blackoutDate,
+        reason: reason.trim() || null,
+        created_by: user?.id,
+      });
+      if (error) {
+        if (error.code === "23505") throw new Error("Esta data já está bloqueada");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      setBlackoutDate("");
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["party-hall-blackout-dates", space.id] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-availability"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao bloquear data", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("party_hall_blackout_dates").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["party-hall-blackout-dates", space.id] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-availability"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao liberar data", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Datas Bloqueadas</DialogTitle>
+          <DialogDescription>{space.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3 p-3 rounded-lg bg-muted/50">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1">
+                <Label htmlFor="blackout_date">Data</Label>
+                <Input
+                  id="blackout_date"
+                  type="date"
+                  min={today}
+                  value={blackoutDate}
+                  onChange={(e) => setBlackoutDate(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="blackout_reason">Motivo</Label>
+                <Input
+                  id="blackout_reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Ex: Manutenção"
+                />
+              </div>
+            </div>
+            <Button
+              size="sm"
+              className="w-full gap-2"
+              onClick={() => addMutation.mutate()}
+              disabled={!blackoutDate || addMutation.isPending}
+            >
+              {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Bloquear data
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Reservas já existentes na data não são canceladas automaticamente.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2].map((i) => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : dates.length === 0 ? (
+            <div className="text-center py-4">
+              <CalendarOff className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">Nenhuma data bloqueada.</p>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {dates.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-secondary/30">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {format(parseISO(item.blackout_date), "dd/MM/yyyy (EEEE)", { locale: ptBR })}
+                    </p>
+                    {item.reason && <p className="text-xs text-muted-foreground truncate">{item.reason}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeMutation.mutate(item.id)}
+                    disabled={removeMutation.isPending}
+                    aria-label="Liberar data"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
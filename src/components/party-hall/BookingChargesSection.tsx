@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Wallet, ShieldCheck, CheckCircle2, Receipt, Ban, Download, Loader2, AlertTriangle } from "lucide-react";
+import {
+  DEPOSIT_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  getBookingTotal,
+} from "@/lib/partyHallConstants";
+import { downloadPartyHallReceipt } from "@/lib/partyHallReceiptPdf";
+
+interface DamageFinding {
+  id: string;
+  item_name: string;
+  observation: string | null;
+}
+
+interface BookingChargesSectionProps {
+  bookingId: string;
+  /** Exit checklist items marked as not OK; null while the exit checklist was not done. */
+  exitFindings: DamageFinding[] | null;
+}
+
+const paymentStatusVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pendente: "destructive",
+  lancado_boleto: "secondary",
+  pago: "default",
+  isento: "outline",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+/**
+ * Rental fee and deposit of a booking as seen by the síndico: payment tracking,
+ * receipt and the deposit decision after the exit checklist.
+ */
+export default function BookingChargesSection({ bookingId, exitFindings }: BookingChargesSectionProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [retainedAmount, setRetainedAmount] = useState("0");
+  const [depositNotes, setDepositNotes] = useState("");
+  const [downloadingReceipt, setDownloadingReceipt] = useState(false);
+
+  const { data: charges, isLoading } = useQuery({
+    queryKey: ["booking-charges", bookingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_bookings")
+        .select(
+          "fee_amount, deposit_amount, payment_method, payment_status, paid_at, payment_reference, deposit_status, deposit_retained_amount, deposit_notes, deposit_decided_at"
+        )
+        .eq("id", bookingId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Damage findings from the exit checklist prefill the retention
+  useEffect(() => {
+    if (!exitFindings) return;
+    setRetainedAmount("0");
+    setDepositNotes(
+      exitFindings
+        .map((finding) => (finding.observation ? `${finding.item_name}: ${finding.observation}` : finding.item_name))
+        .join("\n")
+    );
+  }, [exitFindings]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["booking-charges", bookingId] });
+    queryClient.invalidateQueries({ queryKey: ["party-hall-bookings"] });
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: async (paymentStatus: "lancado_boleto" | "pago" | "isento") => {
+      if (!charges) return;
+      const { error } = await supabase
+        .from("party_hall_bookings")
+        .update({
+          payment_status: paymentStatus,
+          ...(paymentStatus === "isento"
+            ? { deposit_status: "nao_aplicavel" }
+            : { payment_method: charges.payment_method || "boleto_condominio" }),
+          ...(paymentStatus === "pago" ? { paid_at: new Date().toISOString() } : {}),
+        })
+        .eq("id", bookingId)
+        .eq("payment_status", charges.payment_status);
+      if (error) throw error;
+    },
+    onSuccess: (_, paymentStatus) => {
+      invalidate();
+      toast({ title: `Cobrança: ${PAYMENT_STATUS_LABELS[paymentStatus].toLowerCase()}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar cobrança", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const depositMutation = useMutation({
+    mutationFn: async (retain: boolean) => {
+      if (!charges) return;
+      const amount = retain ? Number(retainedAmount.replace(",", ".")) : 0;
+      if (retain && (isNaN(amount) || amount <= 0 || amount > Number(charges.deposit_amount))) {
+        throw new Error(`Informe um valor entre R$ 0,01 e ${formatCurrency(Number(charges.deposit_amount))}`);
+      }
+      if (retain && !depositNotes.trim()) {
+        throw new Error("Descreva os danos que justificam a retenção");
+      }
+
+      const { error } = await supabase
+        .from("party_hall_bookings")
+        .update({
+          deposit_status: retain ? "retido" : "devolvido",
+          deposit_retained_amount: amount,
+          deposit_notes: depositNotes.trim() || null,
+          deposit_decided_by: user?.id,
+          deposit_decided_at: new Date().toISOString(),
+        })
+        .eq("id", bookingId)
+        .eq("deposit_status", "em_garantia");
+      if (error) throw error;
+    },
+    onSuccess: (_, retain) => {
+      invalidate();
+      toast({ title: retain ? "Caução retida" : "Caução devolvida" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar caução", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDownloadReceipt = async () => {
+    setDownloadingReceipt(true);
+    try {
+      await downloadPartyHallReceipt(bookingId);
+    } catch (error) {
+      toast({
+        title: "Erro ao gerar recibo",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingReceipt(false);
+    }
+  };
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+  if (!charges) return null;
+
+  const total = getBookingTotal(charges);
+  if (total <= 0 && charges.payment_status === "isento") return null;
+
+  const depositAmount = Number(charges.deposit_amount);
+  // The deposit is only decided once it was actually charged
+  const depositCharged = ["pago", "lancado_boleto"].includes(charges.payment_status);
+  const isBusy = paymentMutation.isPending || depositMutation.isPending;
+
+  return (
+    <>
+      <Separator />
+      <div className="space-y-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold flex items-center gap-2">
+              <Wallet className="h-4 w-4 text-primary" />
+              Cobrança
+            </h3>
+            <Badge variant={paymentStatusVariant[charges.payment_status] || "outline"}>
+              {PAYMENT_STATUS_LABELS[charges.payment_status] || charges.payment_status}
+            </Badge>
+          </div>
+  
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Taxa</p>
+              <p className="font-medium">{formatCurrency(Number(charges.fee_amount))}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Caução</p>
+              <p className="font-medium">{formatCurrency(depositAmount)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Total</p>
+              <p className="font-medium">{formatCurrency(total)}</p>
+            </div>
+          </div>
+  
+          <p className="text-xs text-muted-foreground">
+            {charges.payment_method
+              ? `Forma de pagamento: ${PAYMENT_METHOD_LABELS[charges.payment_method]}`
+              : "O morador ainda não escolheu a forma de pagamento"}
+            {charges.paid_at && ` · Pago em ${format(parseISO(charges.paid_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`}
+            {charges.payment_reference && ` · Ref. ${charges.payment_reference}`}
+          </p>
+  
+          <div className="flex flex-wrap gap-2">
+            {charges.payment_status === "pendente" && (
+              <Button size="sm" variant="outline" onClick={() => paymentMutation.mutate("lancado_boleto")} disabled={isBusy}>
+                <Receipt className="h-4 w-4 mr-1" />
+                Lançar no boleto
+              </Button>
+            )}
+            {["pendente", "lancado_boleto"].includes(charges.payment_status) && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => paymentMutation.mutate("pago")} disabled={isBusy}>
+                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                  Marcar como pago
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => paymentMutation.mutate("isento")} disabled={isBusy}>
+                  <Ban className="h-4 w-4 mr-1" />
+                  Isentar
+                </Button>
+              </>
+            )}
+            {charges.payment_status === "pago" && (
+              <Button size="sm" variant="outline" onClick={handleDownloadReceipt} disabled={downloadingReceipt}>
+                {downloadingReceipt ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+                Recibo
+              </Button>
+            )}
+          </div>
+        </div>
+  
+        {charges.deposit_status !== "nao_aplicavel" && (
+          <div className="space-y-3 p-3 rounded-lg border">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-sm flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4 text-primary" />
+                Caução
+              </h4>
+              <Badge variant={charges.deposit_status === "retido" ? "destructive" : "outline"}>
+                {DEPOSIT_STATUS_LABELS[charges.deposit_status] || charges.deposit_status}
+              </Badge>
+            </div>
+  
+            {charges.deposit_status !== "em_garantia" ? (
+              <div className="text-sm space-y-1">
+                {charges.deposit_status === "retido" && (
+                  <p>
+                    Retido {formatCurrency(Number(charges.deposit_retained_amount))} · devolvido{" "}
+                    {formatCurrency(depositAmount - Number(charges.deposit_retained_amount))}
+                  </p>
+                )}
+                {charges.deposit_notes && (
+                  <p className="text-muted-foreground whitespace-pre-line">{charges.deposit_notes}</p>
+                )}
+                {charges.deposit_decided_at && (
+                  <p className="text-xs text-muted-foreground">
+                    Decidido em {format(parseISO(charges.deposit_decided_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                  </p>
+                )}
+              </div>
+            ) : !depositCharged ? (
+              <p className="text-sm text-muted-foreground">A caução é decidida depois que a cobrança for paga ou lançada no boleto.</p>
+            ) : !exitFindings ? (
+              <p className="text-sm text-muted-foreground">A decisão fica disponível após o checklist de saída.</p>
+            ) : (
+              <div className="space-y-3">
+                {exitFindings.length === 0 ? (
+                  <p className="text-sm text-green-600">O checklist de saída não apontou danos. Recomenda-se devolver a caução.</p>
+                ) : (
+                  <p className="text-sm text-destructive flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    O checklist de saída apontou {exitFindings.length} problema(s).
+                  </p>
+                )}
+  
+                <div className="grid gap-2">
+                  <Label htmlFor="deposit_notes">Justificativa</Label>
+                  <Textarea
+                    id="deposit_notes"
+                    value={depositNotes}
+                    onChange={(e) => setDepositNotes(e.target.value)}
+                    placeholder="Danos encontrados e valor estimado do reparo"
+                    rows={3}
+                  />
+                </div>
+  
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="grid gap-2 w-36">
+                    <Label htmlFor="deposit_retained_amount">Valor a reter (R$)</Label>
+                    <Input
+                      id="deposit_retained_amount"
+                      type="number"
+                      min="0"
+                      max={depositAmount}
+                      step="0.01"
+                      value={retainedAmount}
+                      onChange={(e) => setRetainedAmount(e.target.value)}
+                    />
+                  </div>
+                  <Button size="sm" variant="destructive" onClick={() => depositMutation.mutate(true)} disabled={isBusy}>
+                    Reter
+                  </Button>
+                  <Button size="sm" onClick={() => depositMutation.mutate(false)} disabled={isBusy}>
+                    Devolver caução
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,3 +1,4 @@
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
@@ -9,6 +10,8 @@ import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Calendar, Clock, User, Building2, Users, MessageCircle, ClipboardCheck, Check, X, AlertCircle } from "lucide-react";
 import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
+import BookingChargesSection from "./BookingChargesSection";
+import BookingGuestSummary from "./BookingGuestSummary";
 
 interface Booking {
   id: string;
@@ -35,6 +38,7 @@ interface Booking {
     id: string;
     name: string;
     rules?: string | null;
+    max_guests?: number | null;
   };
   condominium: {
     id: string;
@@ -88,6 +92,12 @@ export default function BookingDetailsDialog({ open, onOpenChange, booking }: Bo
   const entryChecklist = checklists.find((c: any) => c.type === "entrada");
   const exitChecklist = checklists.find((c: any) => c.type === "saida");
 
+  // Damage findings of the exit inspection drive the deposit decision
+  const exitFindings = useMemo(
+    () => (exitChecklist ? (exitChecklist.items || []).filter((item) => !item.is_ok) : null),
+    [exitChecklist]
+  );
+
   const renderChecklist = (checklist: any, title: string) => {
     if (!checklist) return null;
 
@@ -254,6 +264,14 @@ export default function BookingDetailsDialog({ open, onOpenChange, booking }: Bo
               )}
             </div>
 
+            <BookingGuestSummary
+              bookingId={booking.id}
+              bookingStatus={booking.status}
+              maxGuests={booking.party_hall_setting.max_guests ?? null}
+            />
+
+            <BookingChargesSection bookingId={booking.id} exitFindings={exitFindings} />
+
             {booking.observations && (
               <>
                 <Separator />
@@ -81,7 +81,7 @@ export default function BookingEditDialog({ open, onOpenChange, booking }: Booki
     queryFn: async () => {
       const { data, error } = await supabase
         .from("party_hall_settings")
-        .select("id, name, check_in_time, check_out_time, max_guests, advance_days_required")
+        .select("id, name, check_in_time, check_out_time, max_guests, advance_days_required, booking_mode")
         .eq("id", booking.party_hall_setting.id)
         .single();
       if (error) throw error;
@@ -106,10 +106,14 @@ export default function BookingEditDialog({ open, onOpenChange, booking }: Booki
     enabled: open,
   });
 
+  // Hourly spaces take several bookings a day; overlaps are rejected by the database
+  const isHourly = spaceSettings?.booking_mode === "por_horario";
+
   // Create a set of blocked dates for quick lookup
   const blockedDates = useMemo(() => {
+    if (isHourly) return [];
     return existingBookings.map(b => startOfDay(parseISO(b.booking_date)));
-  }, [existingBookings]);
+  }, [existingBookings, isHourly]);
 
   // Check if a date is blocked
   const isDateBlocked = (date: Date) => {
@@ -202,7 +206,7 @@ export default function BookingEditDialog({ open, onOpenChange, booking }: Booki
       const currentBookingDate = format(parseISO(booking.booking_date), "yyyy-MM-dd");
       const newBookingDate = format(bookingDate, "yyyy-MM-dd");
       
-      if (currentBookingDate !== newBookingDate) {
+      if (currentBookingDate !== newBookingDate && !isHourly) {
         const { data: conflictCheck, error: checkError } = await supabase
           .from("party_hall_bookings")
           .select("id")
@@ -250,6 +254,12 @@ export default function BookingEditDialog({ open, onOpenChange, booking }: Booki
           if (notifError) {
             console.error("[PARTY-HALL] Error sending cancellation notification (edit dialog):", notifError);
           }
+
+          // Offer the freed slot to the first resident on the waitlist
+          const { error: waitlistError } = await supabase.functions.invoke("notify-party-hall-waitlist");
+          if (waitlistError) {
+            console.error("[PARTY-HALL] Error notifying waitlist (edit dialog):", waitlistError);
+          }
         } catch (err) {
           console.error("[PARTY-HALL] Error sending cancellation notification (edit dialog):", err);
         }
@@ -47,7 +47,7 @@ export default function BookingFormDialog({ open, onOpenChange, condominiums }:
       if (!selectedCondominium) return [];
       const { data, error } = await supabase
         .from("party_hall_settings")
-        .select("id, name, check_in_time, check_out_time, max_guests, advance_days_required")
+        .select("id, name, check_in_time, check_out_time, max_guests, advance_days_required, booking_mode")
         .eq("condominium_id", selectedCondominium)
         .eq("is_active", true);
       if (error) throw error;
@@ -72,10 +72,34 @@ export default function BookingFormDialog({ open, onOpenChange, condominiums }:
     enabled: !!selectedSpace,
   });
 
+  // Dates offered to the waitlist stay held for the resident who received the offer
+  const { data: activeOffers = [] } = useQuery({
+    queryKey: ["space-waitlist-offers", selectedSpace],
+    queryFn: async () => {
+      if (!selectedSpace) return [];
+      const { data, error } = await supabase
+        .from("party_hall_waitlist")
+        .select("booking_date, resident_id")
+        .eq("party_hall_setting_id", selectedSpace)
+        .eq("status", "oferecida")
+        .or(`offer_expires_at.is.null,offer_expires_at.gt.${new Date().toISOString()}`);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedSpace,
+  });
+
+  // Hourly spaces take several bookings a day; overlaps are rejected by the database
+  const isHourly = spaces.find(s => s.id === selectedSpace)?.booking_mode === "por_horario";
+
   // Create a set of blocked dates for quick lookup
   const blockedDates = useMemo(() => {
-    return existingBookings.map(booking => startOfDay(parseISO(booking.booking_date)));
-  }, [existingBookings]);
+    if (isHourly) return [];
+    return [
+      ...existingBookings.map(booking => booking.booking_date),
+      ...activeOffers.filter(offer => offer.resident_id !== selectedResident).map(offer => offer.booking_date),
+    ].map(date => startOfDay(parseISO(date)));
+  }, [existingBookings, activeOffers, selectedResident, isHourly]);
 
   // Check if a date is blocked
   const isDateBlocked = (date: Date) => {
@@ -169,7 +193,7 @@ export default function BookingFormDialog({ open, onOpenChange, condominiums }:
     if (bookingDate && isDateBlocked(bookingDate)) {
       setBookingDate(undefined);
     }
-  }, [selectedSpace, existingBookings]);
+  }, [selectedSpace, existingBookings, activeOffers, selectedResident]);
 
   // Create booking mutation
   const createBookingMutation = useMutation({
@@ -188,17 +212,19 @@ export default function BookingFormDialog({ open, onOpenChange, condominiums }:
       }
 
       // Double-check if date is still available (race condition prevention)
-      const { data: conflictCheck, error: checkError } = await supabase
-        .from("party_hall_bookings")
-        .select("id")
-        .eq("party_hall_setting_id", selectedSpace)
-        .eq("booking_date", format(bookingDate, "yyyy-MM-dd"))
-        .in("status", ["pendente", "confirmada", "em_uso"])
-        .maybeSingle();
-
-      if (checkError) throw checkError;
-      if (conflictCheck) {
-        throw new Error("Esta data já foi reservada. Por favor, escolha outra data.");
+      if (!isHourly) {
+        const { data: conflictCheck, error: checkError } = await supabase
+          .from("party_hall_bookings")
+          .select("id")
+          .eq("party_hall_setting_id", selectedSpace)
+          .eq("booking_date", format(bookingDate, "yyyy-MM-dd"))
+          .in("status", ["pendente", "confirmada", "em_uso"])
+          .maybeSingle();
+
+        if (checkError) throw checkError;
+        if (conflictCheck) {
+          throw new Error("Esta data já foi reservada. Por favor, escolha outra data.");
+        }
       }
 
       // Validate guest count
@@ -225,6 +251,7 @@ export default function BookingFormDialog({ open, onOpenChange, condominiums }:
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["party-hall-bookings"] });
       queryClient.invalidateQueries({ queryKey: ["space-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["space-waitlist-offers"] });
       onOpenChange(false);
       resetForm();
       toast({ title: "Reserva criada com sucesso!" });
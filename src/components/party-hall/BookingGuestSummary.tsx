@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { UserCheck, UserX, Users, Clock } from "lucide-react";
+
+interface BookingGuestSummaryProps {
+  bookingId: string;
+  bookingStatus: string;
+  maxGuests: number | null;
+}
+
+interface Guest {
+  id: string;
+  guest_name: string;
+  checked_in_at: string | null;
+}
+
+/**
+ * Named guest list of a booking as seen by the síndico. Once the event is over
+ * it becomes the attendance summary recorded by the portaria.
+ */
+export default function BookingGuestSummary({ bookingId, bookingStatus, maxGuests }: BookingGuestSummaryProps) {
+  const { data: guests = [], isLoading } = useQuery({
+    queryKey: ["booking-guests", bookingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_guests")
+        .select("id, guest_name, checked_in_at")
+        .eq("booking_id", bookingId)
+        .order("guest_name");
+      if (error) throw error;
+      return data as Guest[];
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <>
+        <Separator />
+        <Skeleton className="h-20 w-full" />
+      </>
+    );
+  }
+
+  if (guests.length === 0) return null;
+
+  const isFinished = bookingStatus === "finalizada";
+  const arrivals = guests
+    .filter((g) => g.checked_in_at)
+    .map((g) => g.checked_in_at as string)
+    .sort();
+  const noShows = guests.filter((g) => !g.checked_in_at);
+
+  return (
+    <>
+      <Separator />
+      <div className="space-y-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          {isFinished ? "Resumo do Evento" : "Lista de Convidados"}
+        </h3>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-2 rounded-lg bg-muted/50">
+            <p className="text-lg font-semibold">{guests.length}</p>
+            <p className="text-xs text-muted-foreground">
+              Cadastrados{maxGuests ? ` de ${maxGuests}` : ""}
+            </p>
+          </div>
+          <div className="p-2 rounded-lg bg-muted/50">
+            <p className="text-lg font-semibold text-emerald-600">{arrivals.length}</p>
+            <p className="text-xs text-muted-foreground">Compareceram</p>
+          </div>
+          <div className="p-2 rounded-lg bg-muted/50">
+            <p className="text-lg font-semibold">{noShows.length}</p>
+            <p className="text-xs text-muted-foreground">{isFinished ? "Não compareceram" : "Aguardando"}</p>
+          </div>
+        </div>
+
+        {arrivals.length > 0 && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Primeira entrada às {format(parseISO(arrivals[0]), "HH:mm")}
+            {arrivals.length > 1 && `, última às ${format(parseISO(arrivals[arrivals.length - 1]), "HH:mm")}`}
+          </p>
+        )}
+
+        {isFinished && noShows.length > 0 && (
+          <div className="text-sm">
+            <p className="text-muted-foreground flex items-center gap-2 mb-1">
+              <UserX className="h-4 w-4" />
+              Não compareceram
+            </p>
+            <p>{noShows.map((g) => g.guest_name).join(", ")}</p>
+          </div>
+        )}
+
+        {isFinished && noShows.length === 0 && (
+          <p className="text-sm text-emerald-600 flex items-center gap-2">
+            <UserCheck className="h-4 w-4" />
+            Todos os convidados compareceram
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
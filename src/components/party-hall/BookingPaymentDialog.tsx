@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Check, Copy, Loader2, QrCode, Receipt } from "lucide-react";
+import { getBookingTotal } from "@/lib/partyHallConstants";
+
+interface PixData {
+  qr_code: string;
+  qr_code_base64?: string;
+  ticket_url?: string;
+  expiration_date?: string;
+}
+
+interface BookingPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  booking: {
+    id: string;
+    fee_amount: number;
+    deposit_amount: number;
+    payment_method: string | null;
+    party_hall_setting: { name: string } | null;
+  };
+}
+
+// While a QR Code is on screen, check whether the webhook already confirmed the payment
+const PAYMENT_POLL_INTERVAL_MS = 5000;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+/**
+ * Resident pays the rental fee and deposit of an approved booking by PIX or
+ * asks for the amount to be added to the next condominium boleto.
+ */
+export default function BookingPaymentDialog({ open, onOpenChange, booking }: BookingPaymentDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { dateTime: formatDateTime } = useDateFormatter();
+  const [method, setMethod] = useState(booking.payment_method || "pix");
+  const [pixData, setPixData] = useState<PixData | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const onOpenChangeRef = useRef(onOpenChange);
+  onOpenChangeRef.current = onOpenChange;
+
+  useEffect(() => {
+    if (open) {
+      setMethod(booking.payment_method || "pix");
+      setPixData(null);
+    }
+  }, [open, booking.payment_method]);
+
+  useEffect(() => {
+    if (!pixData) return;
+
+    const interval = setInterval(async () => {
+      const { data } = await supabase
+        .from("party_hall_bookings")
+        .select("payment_status")
+        .eq("id", booking.id)
+        .maybeSingle();
+
+      if (data?.payment_status === "pago") {
+        clearInterval(interval);
+        setPixData(null);
+        toast({ title: "Pagamento confirmado!", description: "O recibo já está disponível em Minhas Reservas." });
+        queryClient.invalidateQueries({ queryKey: ["resident-party-hall-bookings"] });
+        onOpenChangeRef.current(false);
+      }
+    }, PAYMENT_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pixData, booking.id, toast, queryClient]);
+
+  const boletoMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("choose_party_hall_payment_method", {
+        p_booking_id: booking.id,
+        p_payment_method: "boleto_condominio",
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-bookings"] });
+      onOpenChange(false);
+      toast({
+        title: "Pedido registrado",
+        description: "A administração vai lançar o valor no próximo boleto do condomínio.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar pedido", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleGeneratePix = async () => {
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("create-party-hall-pix", {
+        body: { booking_id: booking.id },
+      });
+
+      if (error) {
+        // Non-2xx responses carry the Portuguese error message in the body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || "Não foi possível gerar o PIX.");
+      }
+      if (!data?.success) throw new Error(data?.error || "Não foi possível gerar o PIX.");
+
+      setPixData(data);
+    } catch (error) {
+      toast({
+        title: "Erro ao gerar PIX",
+        description: error instanceof Error ? error.message : "Não foi possível gerar o PIX.",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!pixData) return;
+    try {
+      await navigator.clipboard.writeText(pixData.qr_code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: "Não foi possível copiar o código", variant: "destructive" });
+    }
+  };
+
+  const depositAmount = Number(booking.deposit_amount);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pagamento da Reserva</DialogTitle>
+          <DialogDescription>{booking.party_hall_setting?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1 p-3 rounded-lg bg-muted/50 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Taxa de locação</span>
+              <span>{formatCurrency(Number(booking.fee_amount))}</span>
+            </div>
+            {depositAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Caução (reembolsável)</span>
+                <span>{formatCurrency(depositAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between pt-1 border-t font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(getBookingTotal(booking))}</span>
+            </div>
+          </div>
+          {depositAmount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              A caução é devolvida após a vistoria de saída, descontados eventuais danos ao espaço.
+            </p>
+          )}
+
+          {pixData ? (
+            <div className="space-y-4">
+              {pixData.qr_code_base64 && (
+                <div className="flex justify-center">
+                  <img
+                    src={`data:image/png;base64,${pixData.qr_code_base64}`}
+                    alt="QR Code PIX"
+                    className="w-48 h-48 rounded-lg border border-border bg-white p-2"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">PIX copia e cola</p>
+                <div className="flex gap-2">
+                  <Input value={pixData.qr_code} readOnly className="font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copiar código PIX">
+                    {copied ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Aguardando confirmação do pagamento...
+                {pixData.expiration_date && ` Válido até ${formatDateTime(pixData.expiration_date)}.`}
+              </div>
+            </div>
+          ) : (
+            <>
+              <RadioGroup value={method} onValueChange={setMethod} className="space-y-2">
+                <div className="flex items-center space-x-2 p-3 rounded-lg bg-secondary/30">
+                  <RadioGroupItem value="pix" id="payment_pix" />
+                  <Label htmlFor="payment_pix" className="flex-1 cursor-pointer">
+                    <span className="font-medium">PIX</span>
+                    <span className="block text-xs text-muted-foreground">Confirmação imediata</span>
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2 p-3 rounded-lg bg-secondary/30">
+                  <RadioGroupItem value="boleto_condominio" id="payment_boleto" />
+                  <Label htmlFor="payment_boleto" className="flex-1 cursor-pointer">
+                    <span className="font-medium">Lançar no boleto do condomínio</span>
+                    <span className="block text-xs text-muted-foreground">Cobrado junto com a próxima taxa condominial</span>
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              {method === "pix" ? (
+                <Button onClick={handleGeneratePix} disabled={generating} className="w-full gap-2">
+                  {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <QrCode className="w-4 h-4" />}
+                  Gerar PIX
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => boletoMutation.mutate()}
+                  disabled={boletoMutation.isPending || booking.payment_method === "boleto_condominio"}
+                  className="w-full gap-2"
+                >
+                  {boletoMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Receipt className="w-4 h-4" />}
+                  {booking.payment_method === "boleto_condominio" ? "Lançamento já solicitado" : "Solicitar lançamento no boleto"}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, FileUp, Loader2, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { PARTY_HALL_GUEST_LISTS_BUCKET, buildGuestListPath, buildTimeSlots } from "@/lib/partyHallConstants";
+import type { TimeSlot } from "./ResidentBookingCalendar";
+
+// Spreadsheets, PDFs and photos of a handwritten list
+const GUEST_LIST_ACCEPT = ".pdf,.xlsx,.xls,.csv,.doc,.docx,image/*";
+const MAX_GUEST_LIST_BYTES = 10 * 1024 * 1024;
+
+interface BookingRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookingDate: Date | null;
+  /** Slot picked on the calendar for hourly spaces. */
+  bookingSlot?: TimeSlot | null;
+  resident: { id: string; condominium_id: string };
+  space: {
+    id: string;
+    name: string;
+    check_in_time: string | null;
+    check_out_time: string | null;
+    booking_mode: string;
+    slot_duration_minutes: number;
+    max_guests: number | null;
+    rental_fee: number | null;
+    deposit_amount: number;
+  };
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export default function BookingRequestDialog({ open, onOpenChange, bookingDate, bookingSlot, resident, space }: BookingRequestDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const checkIn = space.check_in_time?.slice(0, 5) || "08:00";
+  const checkOut = space.check_out_time?.slice(0, 5) || "22:00";
+  const isHourly = space.booking_mode === "por_horario" && !!bookingSlot;
+
+  const [startTime, setStartTime] = useState(checkIn);
+  const [endTime, setEndTime] = useState(checkOut);
+  const [guestCount, setGuestCount] = useState<number>(0);
+  const [guestList, setGuestList] = useState<File | null>(null);
+  const [observations, setObservations] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setStartTime(bookingSlot?.start || checkIn);
+      setEndTime(bookingSlot?.end || checkOut);
+      setGuestCount(0);
+      setGuestList(null);
+      setObservations("");
+    }
+  }, [open, checkIn, checkOut, bookingSlot]);
+
+  // Hourly spaces can be held for consecutive slots; the server rejects overlaps
+  const endTimeOptions = isHourly
+    ? buildTimeSlots(checkIn, checkOut, space.slot_duration_minutes)
+        .filter((slot) => slot.start >= bookingSlot!.start)
+        .map((slot) => slot.end)
+    : [];
+
+  const guestCountExceedsMax = !!space.max_guests && guestCount > space.max_guests;
+  const rentalFee = Number(space.rental_fee || 0);
+  const depositAmount = Number(space.deposit_amount || 0);
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      if (!bookingDate) throw new Error("Selecione a data da reserva");
+      if (startTime >= endTime || startTime < checkIn || endTime > checkOut) {
+        throw new Error(`O horário deve estar entre ${checkIn} e ${checkOut}`);
+      }
+      if (guestCountExceedsMax) {
+        throw new Error(`O número de convidados não pode exceder ${space.max_guests}`);
+      }
+
+      let guestListPath: string | undefined;
+      if (guestList) {
+        guestListPath = buildGuestListPath(resident.condominium_id, resident.id, guestList.name);
+        const { error: uploadError } = await supabase.storage
+          .from(PARTY_HALL_GUEST_LISTS_BUCKET)
+          .upload(guestListPath, guestList);
+        if (uploadError) throw new Error("Não foi possível enviar a lista de convidados");
+      }
+
+      const { error } = await supabase.rpc("request_party_hall_booking", {
+        p_resident_id: resident.id,
+        p_setting_id: space.id,
+        p_booking_date: format(bookingDate, "yyyy-MM-dd"),
+        p_start_time: startTime,
+        p_end_time: endTime,
+        p_guest_count: guestCount || undefined,
+        p_observations: observations.trim() || undefined,
+        p_guest_list_path: guestListPath,
+      });
+
+      if (error) {
+        if (guestListPath) {
+          await supabase.storage.from(PARTY_HALL_GUEST_LISTS_BUCKET).remove([guestListPath]);
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-availability"] });
+      onOpenChange(false);
+      toast({
+        title: "Solicitação enviada",
+        description: "O síndico vai analisar o pedido e você receberá a resposta pelo WhatsApp.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao solicitar reserva", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (file: File | undefined) => {
+    if (file && file.size > MAX_GUEST_LIST_BYTES) {
+      toast({ title: "Arquivo muito grande", description: "A lista deve ter no máximo 10 MB.", variant: "destructive" });
+      return;
+    }
+    setGuestList(file || null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Solicitar Reserva</DialogTitle>
+          <DialogDescription>
+            {space.name}
+            {bookingDate && ` · ${format(bookingDate, "EEEE, dd 'de' MMMM", { locale: ptBR })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {isHourly ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Horário Início</Label>
+                <Input value={startTime} readOnly />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="request_end_slot">Horário Fim</Label>
+                <Select value={endTime} onValueChange={setEndTime}>
+                  <SelectTrigger id="request_end_slot">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {endTimeOptions.map((time) => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="request_start_time">Horário Início</Label>
+                <Input
+                  id="request_start_time"
+                  type="time"
+                  min={checkIn}
+                  max={checkOut}
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="request_end_time">Horário Fim</Label>
+                <Input
+                  id="request_end_time"
+                  type="time"
+                  min={checkIn}
+                  max={checkOut}
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground -mt-2">
+            Horário permitido: {checkIn} às {checkOut}
+            {isHourly && ` em blocos de ${space.slot_duration_minutes} minutos`}
+          </p>
+
+          <div className="grid gap-2">
+            <Label htmlFor="request_guest_count">Número de Convidados</Label>
+            <Input
+              id="request_guest_count"
+              type="number"
+              min={0}
+              value={guestCount}
+              onChange={(e) => setGuestCount(Number(e.target.value))}
+            />
+            {space.max_guests && (
+              <p className={cn("text-xs", guestCountExceedsMax ? "text-destructive" : "text-muted-foreground")}>
+                Capacidade máxima: {space.max_guests} pessoas
+              </p>
+            )}
+          </div>
+
+          {guestCountExceedsMax && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>O número de convidados excede a capacidade máxima do espaço.</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="request_guest_list">Lista de Convidados</Label>
+            <label
+              htmlFor="request_guest_list"
+              className="flex items-center gap-2 rounded-md border border-dashed p-3 text-sm text-muted-foreground cursor-pointer hover:bg-accent/50"
+            >
+              <FileUp className="h-4 w-4 shrink-0" />
+              <span className="truncate">{guestList ? guestList.name : "Anexar arquivo (PDF, planilha ou foto)"}</span>
+            </label>
+            <input
+              id="request_guest_list"
+              type="file"
+              accept={GUEST_LIST_ACCEPT}
+              className="hidden"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            <p className="text-xs text-muted-foreground">Opcional. A portaria usa a lista para liberar a entrada.</p>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="request_observations">Observações</Label>
+            <Textarea
+              id="request_observations"
+              value={observations}
+              onChange={(e) => setObservations(e.target.value)}
+              placeholder="Tipo de evento, necessidades especiais..."
+              rows={3}
+            />
+          </div>
+
+          {rentalFee + depositAmount > 0 && (
+            <Alert>
+              <Wallet className="h-4 w-4" />
+              <AlertDescription>
+                Após a aprovação será cobrada a taxa de locação de {formatCurrency(rentalFee)}
+                {depositAmount > 0 && ` e a caução reembolsável de ${formatCurrency(depositAmount)}`}, por PIX ou no
+                boleto do condomínio.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={() => requestMutation.mutate()} disabled={requestMutation.isPending || guestCountExceedsMax}>
+            {requestMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enviar Solicitação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
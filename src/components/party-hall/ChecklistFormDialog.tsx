@@ -61,12 +61,14 @@ export default function ChecklistFormDialog({ open, onOpenChange, booking, type
 
   // Fetch checklist templates
   const { data: templates = [] } = useQuery({
-    queryKey: ["checklist-templates", booking.condominium.id],
+    queryKey: ["checklist-templates", booking.condominium.id, booking.party_hall_setting.id],
     queryFn: async () => {
+      // Condominium-wide items plus the ones specific to this space
       const { data, error } = await supabase
         .from("party_hall_checklist_templates")
         .select("*")
         .eq("condominium_id", booking.condominium.id)
+        .or(`party_hall_setting_id.is.null,party_hall_setting_id.eq.${booking.party_hall_setting.id}`)
         .eq("is_active", true)
         .order("display_order");
       if (error) throw error;
@@ -272,7 +274,7 @@ export default function ChecklistFormDialog({ open, onOpenChange, booking, type
               <div className="text-center py-8 text-muted-foreground">
                 <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
                 <p>Nenhum item de checklist configurado para este condomínio.</p>
-                <p className="text-sm">Configure os itens em Configurações do Salão.</p>
+                <p className="text-sm">Configure os itens em Configurações das Áreas Comuns.</p>
               </div>
             )}
 
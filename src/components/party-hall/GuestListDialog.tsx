@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format } from "date-fns";
+import { CheckCircle2, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface GuestListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  booking: {
+    id: string;
+    condominium_id: string;
+    booking_date: string;
+    status: string;
+    party_hall_setting: { name: string; max_guests: number | null } | null;
+  };
+}
+
+interface Guest {
+  id: string;
+  guest_name: string;
+  guest_document: string | null;
+  checked_in_at: string | null;
+}
+
+/**
+ * Resident registers the named guests of a booking. The portaria checks them
+ * in on the day of the event; the capacity limit is enforced by the database.
+ */
+export default function GuestListDialog({ open, onOpenChange, booking }: GuestListDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [guestName, setGuestName] = useState("");
+  const [guestDocument, setGuestDocument] = useState("");
+
+  const maxGuests = booking.party_hall_setting?.max_guests ?? null;
+  const today = format(new Date(), "yyyy-MM-dd");
+  const editable = ["pendente", "confirmada"].includes(booking.status) && booking.booking_date >= today;
+
+  const { data: guests = [], isLoading } = useQuery({
+    queryKey: ["party-hall-guests", booking.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_guests")
+        .select("id, guest_name, guest_document, checked_in_at")
+        .eq("booking_id", booking.id)
+        .order("guest_name");
+      if (error) throw error;
+      return data as Guest[];
+    },
+    enabled: open,
+  });
+
+  const isFull = maxGuests !== null && guests.length >= maxGuests;
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from("party_hall_guests").insert({
+        booking_id: booking.id,
+        condominium_id: booking.condominium_id,
+        guest_name: guestName.trim(),
+        guest_document: guestDocument.trim() || null,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setGuestName("");
+      setGuestDocument("");
+      queryClient.invalidateQueries({ queryKey: ["party-hall-guests", booking.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao adicionar convidado", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (guestId: string) => {
+      const { error } = await supabase.from("party_hall_guests").delete().eq("id", guestId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["party-hall-guests", booking.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover convidado", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guestName.trim() || isFull) return;
+    addMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lista de Convidados</DialogTitle>
+          <DialogDescription>
+            {booking.party_hall_setting?.name} · {guests.length}
+            {maxGuests !== null ? ` de ${maxGuests}` : ""} convidado(s)
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {editable && (
+            <form onSubmit={handleSubmit} className="space-y-3 p-3 rounded-lg bg-muted/50">
+              <div className="space-y-1">
+                <Label htmlFor="guest_name">Nome do convidado</Label>
+                <Input
+                  id="guest_name"
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  placeholder="Nome completo"
+                  disabled={isFull}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guest_document">Documento (opcional)</Label>
+                <Input
+                  id="guest_document"
+                  value={guestDocument}
+                  onChange={(e) => setGuestDocument(e.target.value)}
+                  placeholder="RG ou CPF"
+                  disabled={isFull}
+                />
+              </div>
+              <Button type="submit" size="sm" className="w-full gap-2" disabled={!guestName.trim() || isFull || addMutation.isPending}>
+                {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Adicionar convidado
+              </Button>
+              {isFull && (
+                <p className="text-xs text-muted-foreground">A lista atingiu a capacidade máxima do espaço.</p>
+              )}
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : guests.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Nenhum convidado cadastrado.</p>
+          ) : (
+            <div className="space-y-1">
+              {guests.map((guest) => (
+                <div key={guest.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-secondary/30">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{guest.guest_name}</p>
+                    {guest.guest_document && <p className="text-xs text-muted-foreground">{guest.guest_document}</p>}
+                  </div>
+                  {guest.checked_in_at ? (
+                    <span className="flex items-center gap-1 text-xs text-emerald-600 shrink-0">
+                      <CheckCircle2 className="w-3 h-3" /> Chegou
+                    </span>
+                  ) : editable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeMutation.mutate(guest.id)}
+                      disabled={removeMutation.isPending}
+                      aria-label={`Remover ${guest.guest_name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { addDays, endOfMonth, format, isSameDay, parseISO, startOfDay, startOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarDays, CalendarPlus, ListPlus, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildTimeSlots, timeRangesOverlap } from "@/lib/partyHallConstants";
+
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+interface ResidentBookingCalendarProps {
+  settingId: string;
+  advanceDaysRequired: number;
+  bookingMode: string;
+  slotDurationMinutes: number;
+  checkInTime: string;
+  checkOutTime: string;
+  onRequest: (date: Date, slot?: TimeSlot) => void;
+  onJoinWaitlist: (date: Date, slot: TimeSlot) => void;
+  joiningWaitlist: boolean;
+}
+
+/**
+ * Availability of a space as seen by residents: occupied dates come from
+ * get_party_hall_availability, which hides who booked them. Hourly spaces
+ * only lock the booked slots, so the day stays open for other residents.
+ * Occupied dates and slots can be joined as a waitlist instead.
+ */
+export default function ResidentBookingCalendar({
+  settingId,
+  advanceDaysRequired,
+  bookingMode,
+  slotDurationMinutes,
+  checkInTime,
+  checkOutTime,
+  onRequest,
+  onJoinWaitlist,
+  joiningWaitlist,
+}: ResidentBookingCalendarProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
+
+  const { data: occupied = [], isLoading } = useQuery({
+    queryKey: ["party-hall-availability", settingId, format(currentMonth, "yyyy-MM")],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_party_hall_availability", {
+        p_setting_id: settingId,
+        p_from: format(startOfMonth(currentMonth), "yyyy-MM-dd"),
+        p_to: format(endOfMonth(currentMonth), "yyyy-MM-dd"),
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const minDate = startOfDay(addDays(new Date(), advanceDaysRequired || 1));
+
+  const isHourly = bookingMode === "por_horario";
+
+  const { pendingDates, bookedDates, blockedDates } = useMemo(() => {
+    const pending: Date[] = [];
+    const booked: Date[] = [];
+    const blocked: Date[] = [];
+    occupied.forEach((b) => {
+      if (b.status === "bloqueada") blocked.push(parseISO(b.booking_date));
+      // A booking on an hourly space does not take the whole day
+      else if (!isHourly) (b.status === "pendente" ? pending : booked).push(parseISO(b.booking_date));
+    });
+    return { pendingDates: pending, bookedDates: booked, blockedDates: blocked };
+  }, [occupied, isHourly]);
+
+  const isOccupied = (date: Date) => [...pendingDates, ...bookedDates].some((d) => isSameDay(d, date));
+  const selectedBlocked = selectedDate ? blockedDates.some((d) => isSameDay(d, selectedDate)) : false;
+  const selectedOccupied = selectedDate ? isOccupied(selectedDate) : false;
+  const selectedTooSoon = selectedDate ? selectedDate < minDate : false;
+
+  const daySlots = useMemo(() => {
+    if (!isHourly || !selectedDate) return [];
+    const dayBookings = occupied.filter((b) => b.status !== "bloqueada" && isSameDay(parseISO(b.booking_date), selectedDate));
+    return buildTimeSlots(checkInTime, checkOutTime, slotDurationMinutes).map((slot) => ({
+      ...slot,
+      taken: dayBookings.some((b) => timeRangesOverlap(slot.start, slot.end, b.start_time, b.end_time)),
+    }));
+  }, [isHourly, selectedDate, occupied, checkInTime, checkOutTime, slotDurationMinutes]);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_300px]">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Disponibilidade
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[320px] w-full" />
+          ) : (
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={setSelectedDate}
+              month={currentMonth}
+              onMonthChange={setCurrentMonth}
+              locale={ptBR}
+              modifiers={{ pending: pendingDates, booked: bookedDates, blocked: blockedDates }}
+              modifiersClassNames={{
+                pending: "bg-yellow-500/20 text-yellow-700 dark:text-yellow-300",
+                booked: "line-through text-muted-foreground bg-muted",
+                blocked: "line-through text-destructive bg-destructive/10",
+              }}
+              className="rounded-md border pointer-events-auto w-full"
+              classNames={{
+                months: "flex flex-col sm:flex-row space-y-4 sm:space-x-4 sm:space-y-0 w-full",
+                month: "space-y-4 w-full",
+                table: "w-full border-collapse",
+                head_row: "flex w-full",
+                head_cell: "text-muted-foreground rounded-md flex-1 font-medium text-sm py-2",
+                row: "flex w-full mt-1",
+                cell: "relative flex-1 p-0 text-center text-sm",
+                day: "h-10 w-full p-0 font-normal aria-selected:opacity-100 hover:bg-accent hover:text-accent-foreground rounded-md transition-colors",
+                day_selected: "bg-primary text-primary-foreground hover:bg-primary hover:text-primary-foreground",
+                day_today: "bg-accent/50 text-accent-foreground font-bold",
+                day_outside: "text-muted-foreground opacity-50",
+                day_disabled: "text-muted-foreground opacity-50",
+              }}
+            />
+          )}
+
+          <div className="flex flex-wrap gap-3 mt-4 pt-4 border-t text-xs text-muted-foreground">
+            {!isHourly && (
+              <>
+                <span className="flex items-center gap-1.5">
+                  <span className="w-3 h-3 rounded bg-yellow-500/30" />
+                  Em análise
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <span className="w-3 h-3 rounded bg-muted" />
+                  Reservada
+                </span>
+              </>
+            )}
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-destructive/20" />
+              Bloqueada
+            </span>
+            <span>Antecedência mínima: {advanceDaysRequired || 1} dia(s)</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">
+            {selectedDate ? format(selectedDate, "dd 'de' MMMM", { locale: ptBR }) : "Selecione uma data"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!selectedDate ? (
+            <p className="text-sm text-muted-foreground">Escolha um dia no calendário para solicitar a reserva.</p>
+          ) : selectedBlocked ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              O espaço não está disponível nesta data.
+            </p>
+          ) : selectedOccupied ? (
+            <>
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Esta data já possui uma reserva ou solicitação em análise.
+              </p>
+              {!selectedTooSoon && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Entre na lista de espera para ser avisado pelo WhatsApp se a data for liberada.
+                  </p>
+                  <Button
+                    variant="outline"
+                    className="w-full gap-2"
+                    disabled={joiningWaitlist}
+                    onClick={() => onJoinWaitlist(selectedDate, { start: checkInTime, end: checkOutTime })}
+                  >
+                    <ListPlus className="h-4 w-4" />
+                    Entrar na lista de espera
+                  </Button>
+                </>
+              )}
+            </>
+          ) : selectedTooSoon ? (
+            <p className="text-sm text-muted-foreground">
+              Reservas precisam ser solicitadas com pelo menos {advanceDaysRequired || 1} dia(s) de antecedência.
+            </p>
+          ) : isHourly ? (
+            daySlots.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum horário configurado para este espaço.</p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">Escolha um horário livre:</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {daySlots.map((slot) => (
+                    <Button
+                      key={slot.start}
+                      variant={slot.taken ? "ghost" : "outline"}
+                      size="sm"
+                      disabled={slot.taken && joiningWaitlist}
+                      className={cn(slot.taken && "line-through text-muted-foreground")}
+                      title={slot.taken ? "Entrar na lista de espera" : undefined}
+                      onClick={() =>
+                        slot.taken
+                          ? onJoinWaitlist(selectedDate, { start: slot.start, end: slot.end })
+                          : onRequest(selectedDate, { start: slot.start, end: slot.end })
+                      }
+                    >
+                      {slot.start} - {slot.end}
+                    </Button>
+                  ))}
+                </div>
+                {daySlots.some((slot) => slot.taken) && (
+                  <p className="text-xs text-muted-foreground">
+                    Horários riscados já estão reservados. Toque em um deles para entrar na lista de espera.
+                  </p>
+                )}
+              </>
+            )
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">Data disponível.</p>
+              <Button className="w-full gap-2" onClick={() => onRequest(selectedDate)}>
+                <CalendarPlus className="h-4 w-4" />
+                Solicitar reserva
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { WAITLIST_STATUS_LABELS } from "@/lib/partyHallConstants";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarCheck, Hourglass, ListOrdered, Loader2, XCircle } from "lucide-react";
+
+interface ResidentWaitlistProps {
+  residentId: string;
+}
+
+interface WaitlistEntry {
+  id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  offer_expires_at: string | null;
+  party_hall_setting: { name: string } | null;
+}
+
+const statusVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  aguardando: "outline",
+  oferecida: "default",
+  reservada: "secondary",
+  expirada: "outline",
+  cancelada: "outline",
+};
+
+/**
+ * The resident's waitlist entries for upcoming dates. When a slot is offered the
+ * resident confirms it here before the deadline, turning it into a regular
+ * booking request.
+ */
+export default function ResidentWaitlist({ residentId }: ResidentWaitlistProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: entries = [] } = useQuery({
+    queryKey: ["resident-party-hall-waitlist", residentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_waitlist")
+        .select("id, booking_date, start_time, end_time, status, offer_expires_at, party_hall_setting:party_hall_settings(name)")
+        .eq("resident_id", residentId)
+        .gte("booking_date", today)
+        .order("booking_date")
+        .order("start_time");
+      if (error) throw error;
+      return data as unknown as WaitlistEntry[];
+    },
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const { error } = await supabase.rpc("claim_party_hall_waitlist_offer", { p_entry_id: entryId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-availability"] });
+      toast({ title: "Reserva solicitada", description: "A solicitação foi enviada para aprovação do síndico." });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-waitlist"] });
+      toast({ title: "Erro ao confirmar vaga", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (entry: WaitlistEntry) => {
+      const { error } = await supabase.rpc("leave_party_hall_waitlist", { p_entry_id: entry.id });
+      if (error) throw error;
+
+      // Declining an offer hands the slot to the next resident in line
+      if (entry.status === "oferecida") {
+        const { error: notifError } = await supabase.functions.invoke("notify-party-hall-waitlist");
+        if (notifError) console.error("Error notifying party hall waitlist:", notifError);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-waitlist"] });
+      toast({ title: "Você saiu da lista de espera" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao sair da lista de espera", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (entries.length === 0) return null;
+
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-primary" />
+          Lista de Espera
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.map((entry) => {
+          // The deadline starts with the WhatsApp notice; the scheduled job may not have expired the offer yet
+          const offerOpen =
+            entry.status === "oferecida" && (!entry.offer_expires_at || parseISO(entry.offer_expires_at) > now);
+          const status = entry.status === "oferecida" && !offerOpen ? "expirada" : entry.status;
+          const active = status === "aguardando" || offerOpen;
+          return (
+            <div key={entry.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-sm">{entry.party_hall_setting?.name}</span>
+                  <Badge variant={statusVariant[status] || "outline"}>
+                    {WAITLIST_STATUS_LABELS[status] || status}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                  <span>{format(parseISO(entry.booking_date), "dd/MM/yyyy (EEEE)", { locale: ptBR })}</span>
+                  <span>
+                    {entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}
+                  </span>
+                </div>
+                {offerOpen && entry.offer_expires_at && (
+                  <p className="text-xs text-primary flex items-center gap-1">
+                    <Hourglass className="w-3 h-3" />
+                    Confirme até {format(parseISO(entry.offer_expires_at), "dd/MM 'às' HH:mm")} ou a vaga passa para o próximo da fila
+                  </p>
+                )}
+              </div>
+              {active && (
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  {offerOpen && (
+                    <Button
+                      size="sm"
+                      onClick={() => claimMutation.mutate(entry.id)}
+                      disabled={claimMutation.isPending}
+                    >
+                      {claimMutation.isPending && claimMutation.variables === entry.id ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <CalendarCheck className="w-4 h-4 mr-1" />
+                      )}
+                      Confirmar reserva
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => leaveMutation.mutate(entry)}
+                    disabled={leaveMutation.isPending}
+                  >
+                    {leaveMutation.isPending && leaveMutation.variables?.id === entry.id ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <XCircle className="w-4 h-4 mr-1" />
+                    )}
+                    {offerOpen ? "Recusar" : "Sair da fila"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AREA_TYPE_LABELS, BOOKING_MODE_LABELS } from "@/lib/partyHallConstants";
+
+export interface SpaceRules {
+  area_type: string;
+  booking_mode: string;
+  slot_duration_minutes: number;
+  max_bookings_per_unit_month: number | null;
+  cooldown_days: number;
+  waitlist_claim_hours: number;
+}
+
+interface SpaceRulesFieldsProps {
+  idPrefix: string;
+  value: SpaceRules;
+  onChange: (value: SpaceRules) => void;
+}
+
+const SLOT_DURATIONS = [30, 60, 90, 120, 180, 240];
+
+/**
+ * Area type, booking mode, per-unit limits and the waitlist claim deadline,
+ * shared by the new and edit space dialogs. The limits are enforced by
+ * request_party_hall_booking.
+ */
+export default function SpaceRulesFields({ idPrefix, value, onChange }: SpaceRulesFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}area_type`}>Tipo de Área</Label>
+          <Select value={value.area_type} onValueChange={(area_type) => onChange({ ...value, area_type })}>
+            <SelectTrigger id={`${idPrefix}area_type`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(AREA_TYPE_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}booking_mode`}>Modalidade de Reserva</Label>
+          <Select value={value.booking_mode} onValueChange={(booking_mode) => onChange({ ...value, booking_mode })}>
+            <SelectTrigger id={`${idPrefix}booking_mode`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BOOKING_MODE_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {value.booking_mode === "por_horario" && (
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}slot_duration`}>Duração de Cada Horário</Label>
+          <Select
+            value={String(value.slot_duration_minutes)}
+            onValueChange={(minutes) => onChange({ ...value, slot_duration_minutes: Number(minutes) })}
+          >
+            <SelectTrigger id={`${idPrefix}slot_duration`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOT_DURATIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h${minutes % 60}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}max_per_month`}>Reservas por Unidade/Mês</Label>
+          <Input
+            id={`${idPrefix}max_per_month`}
+            type="number"
+            min="1"
+            placeholder="Sem limite"
+            value={value.max_bookings_per_unit_month ?? ""}
+            onChange={(e) =>
+              onChange({ ...value, max_bookings_per_unit_month: e.target.value ? Number(e.target.value) : null })
+            }
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}cooldown`}>Intervalo Entre Reservas (dias)</Label>
+          <Input
+            id={`${idPrefix}cooldown`}
+            type="number"
+            min="0"
+            value={value.cooldown_days}
+            onChange={(e) => onChange({ ...value, cooldown_days: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}waitlist_claim_hours`}>Prazo para Confirmar Vaga da Lista de Espera (horas)</Label>
+        <Input
+          id={`${idPrefix}waitlist_claim_hours`}
+          type="number"
+          min="1"
+          max="168"
+          value={value.waitlist_claim_hours}
+          onChange={(e) => onChange({ ...value, waitlist_claim_hours: Number(e.target.value) })}
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
+import { WAITLIST_STATUS_LABELS } from "@/lib/partyHallConstants";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Hourglass, ListOrdered } from "lucide-react";
+
+interface WaitlistQueueProps {
+  condominiumIds: string[];
+}
+
+interface WaitlistEntry {
+  id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  offer_expires_at: string | null;
+  created_at: string;
+  resident: {
+    full_name: string;
+    apartment: {
+      number: string;
+      block: {
+        name: string;
+      };
+    };
+  };
+  party_hall_setting: {
+    id: string;
+    name: string;
+  };
+  condominium: {
+    name: string;
+  };
+}
+
+/**
+ * Upcoming waitlists grouped by space, date and time, in queue order. Offers
+ * and their expiry are handled by offer_party_hall_waitlist; the síndico only
+ * follows the queue here.
+ */
+export default function WaitlistQueue({ condominiumIds }: WaitlistQueueProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["party-hall-waitlist", condominiumIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_waitlist")
+        .select(`
+          id,
+          booking_date,
+          start_time,
+          end_time,
+          status,
+          offer_expires_at,
+          created_at,
+          resident:residents!inner(
+            full_name,
+            apartment:apartments!inner(
+              number,
+              block:blocks!inner(
+                name
+              )
+            )
+          ),
+          party_hall_setting:party_hall_settings!inner(
+            id,
+            name
+          ),
+          condominium:condominiums!inner(
+            name
+          )
+        `)
+        .in("condominium_id", condominiumIds)
+        .in("status", ["aguardando", "oferecida"])
+        .gte("booking_date", today)
+        .order("booking_date")
+        .order("created_at");
+      if (error) throw error;
+      return data as unknown as WaitlistEntry[];
+    },
+    enabled: condominiumIds.length > 0,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-muted-foreground">Carregando...</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <ListOrdered className="h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Nenhum morador na lista de espera</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const queues = new Map<string, WaitlistEntry[]>();
+  entries.forEach((entry) => {
+    const key = `${entry.party_hall_setting.id}|${entry.booking_date}|${entry.start_time}|${entry.end_time}`;
+    queues.set(key, [...(queues.get(key) || []), entry]);
+  });
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {Array.from(queues.entries()).map(([key, queue]) => {
+        const first = queue[0];
+        return (
+          <Card key={key}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <ListOrdered className="h-4 w-4 text-primary" />
+                {first.party_hall_setting.name}
+              </CardTitle>
+              <CardDescription>
+                {first.condominium.name} · {format(parseISO(first.booking_date), "dd/MM/yyyy (EEEE)", { locale: ptBR })} ·{" "}
+                {first.start_time.slice(0, 5)} - {first.end_time.slice(0, 5)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {queue.map((entry, index) => (
+                <div key={entry.id} className="flex items-start justify-between gap-2 p-2 rounded-lg bg-secondary/30">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {index + 1}º · {entry.resident.full_name}
+                    </p>
+                    <BlockApartmentDisplay
+                      blockName={entry.resident.apartment.block.name}
+                      apartmentNumber={entry.resident.apartment.number}
+                      variant="default"
+                      className="text-xs text-muted-foreground"
+                    />
+                    {entry.status === "oferecida" ? (
+                      <p className="text-xs text-primary flex items-center gap-1 mt-1">
+                        <Hourglass className="w-3 h-3" />
+                        {entry.offer_expires_at
+                          ? `Prazo até ${format(parseISO(entry.offer_expires_at), "dd/MM 'às' HH:mm")}`
+                          : "Aguardando envio do aviso"}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Na fila {formatDistanceToNow(parseISO(entry.created_at), { addSuffix: true, locale: ptBR })}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant={entry.status === "oferecida" ? "default" : "outline"} className="shrink-0">
+                    {WAITLIST_STATUS_LABELS[entry.status] || entry.status}
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
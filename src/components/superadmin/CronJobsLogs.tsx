@@ -336,9 +336,12 @@ export function CronJobsLogs() {
   const availableFunctions = [
     { name: "notify-trial-ending", label: "Avisar Fim do Trial", description: "Envia notificações para síndicos cujo período de teste expira em 1-2 dias" },
     { name: "generate-invoices", label: "Gerar Faturas", description: "Gera faturas mensais para assinaturas ativas com período vencido" },
+    { name: "process-overdue-fines", label: "Multas Vencidas", description: "Marca multas vencidas, aplica multa moratória e juros, sugere multiplicador por reincidência e avisa o morador" },
     { name: "notify-party-hall-reminders", label: "Lembretes Salão de Festas", description: "Envia lembretes de reservas de salão de festas para amanhã" },
+    { name: "notify-party-hall-waitlist", label: "Lista de Espera Áreas Comuns", description: "Expira ofertas sem resposta, oferece vagas liberadas ao próximo da fila e avisa pelo WhatsApp" },
     { name: "start-party-hall-usage", label: "Iniciar Uso Salão", description: "Marca reservas do dia como 'em uso' e envia checklist de entrada" },
     { name: "finish-party-hall-usage", label: "Finalizar Uso Salão", description: "Marca reservas finalizadas como 'concluídas' e envia checklist de saída" },
+    { name: "notify-package-pickup-reminders", label: "Lembretes de Encomendas", description: "Reenvia lembretes de encomendas pendentes, escala para a unidade e o síndico e marca candidatas a devolução" },
     { name: "cleanup-orphan-package-photos", label: "Limpar Fotos Órfãs", description: "Remove fotos de encomendas excluídas do storage para liberar espaço" },
   ];
 
@@ -346,15 +349,21 @@ export function CronJobsLogs() {
   const jobNameTranslations: Record<string, string> = {
     "notify-trial-ending-daily": "Avisar Fim do Trial (Diário)",
     "generate-invoices-daily": "Gerar Faturas (Diário)",
+    "process-overdue-fines-daily": "Multas Vencidas (Diário)",
     "notify-party-hall-reminders-daily": "Lembretes Salão de Festas (Diário)",
+    "notify-party-hall-waitlist-hourly": "Lista de Espera Áreas Comuns (De Hora em Hora)",
     "start-party-hall-usage-daily": "Iniciar Uso Salão (Diário)",
     "finish-party-hall-usage-daily": "Finalizar Uso Salão (Diário)",
+    "notify-package-pickup-reminders-daily": "Lembretes de Encomendas (Diário)",
     "cleanup-orphan-package-photos": "Limpar Fotos Órfãs (Semanal)",
     "notify-trial-ending": "Avisar Fim do Trial",
     "generate-invoices": "Gerar Faturas",
+    "process-overdue-fines": "Multas Vencidas",
     "notify-party-hall-reminders": "Lembretes Salão de Festas",
+    "notify-party-hall-waitlist": "Lista de Espera Áreas Comuns",
     "start-party-hall-usage": "Iniciar Uso Salão",
     "finish-party-hall-usage": "Finalizar Uso Salão",
+    "notify-package-pickup-reminders": "Lembretes de Encomendas",
   };
 
   const translateJobName = (jobName: string): string => {
@@ -51,9 +51,12 @@ interface JobStatus {
 const availableFunctions = [
   { name: "notify-trial-ending", label: "Avisar Fim do Trial", description: "Notifica síndicos sobre expiração do período de teste" },
   { name: "generate-invoices", label: "Gerar Faturas", description: "Gera faturas mensais para assinaturas ativas" },
+  { name: "process-overdue-fines", label: "Multas Vencidas", description: "Aplica encargos em multas vencidas" },
   { name: "notify-party-hall-reminders", label: "Lembretes Salão de Festas", description: "Envia lembretes de reservas" },
+  { name: "notify-party-hall-waitlist", label: "Lista de Espera Áreas Comuns", description: "Oferece vagas liberadas à fila de espera" },
   { name: "start-party-hall-usage", label: "Iniciar Uso Salão", description: "Marca reservas como 'em uso'" },
   { name: "finish-party-hall-usage", label: "Finalizar Uso Salão", description: "Marca reservas como 'concluídas'" },
+  { name: "notify-package-pickup-reminders", label: "Lembretes de Encomendas", description: "Lembra moradores de encomendas não retiradas" },
   { name: "cleanup-orphan-package-photos", label: "Limpar Fotos Órfãs", description: "Remove fotos de encomendas excluídas" },
 ];
 
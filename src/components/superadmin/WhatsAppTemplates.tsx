@@ -75,6 +75,7 @@ const VARIABLE_EXAMPLES: Record<string, string> = {
   titulo: "Barulho após horário permitido",
   link: "https://app.exemplo.com/xyz123",
   justificativa: "Após análise, consideramos procedente a reclamação.",
+  situacao: "Multado",
   nome_morador: "Maria Santos",
   dias_restantes: "3 dias",
   data_expiracao: "15/01/2026",
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Skeleton } from "@/components/ui/skeleton";
+import { buildGuestInvitationUrl } from "@/lib/guestInvitations";
+
+interface GuestInvitationQrCodeProps {
+  token: string;
+  size?: number;
+}
+
+export function GuestInvitationQrCode({ token, size = 240 }: GuestInvitationQrCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(buildGuestInvitationUrl(token), { margin: 1, width: size }).then((url) => {
+      if (!cancelled) setDataUrl(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, size]);
+
+  if (!dataUrl) {
+    return <Skeleton className="rounded-lg" style={{ width: size, height: size }} />;
+  }
+
+  return (
+    <img
+      src={dataUrl}
+      alt="QR Code do convite"
+      width={size}
+      height={size}
+      className="rounded-lg bg-white p-2"
+    />
+  );
+}
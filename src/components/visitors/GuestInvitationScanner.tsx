@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { QrCode, Loader2, CheckCircle2, XCircle, Home, Calendar, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BarcodeScanner } from "@/components/packages/BarcodeScanner";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { GUEST_INVITATION_STATUS_LABELS, type GuestInvitationStatus } from "@/lib/guestInvitations";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface GuestInvitationScannerProps {
+  condominiumId: string;
+  disabled?: boolean;
+  onAdmitted?: () => void;
+}
+
+interface ScanResult {
+  valid: boolean;
+  error?: string;
+  invitation_id?: string;
+  guest_name?: string;
+  guest_document?: string | null;
+  resident_name?: string | null;
+  block_name?: string;
+  apartment_number?: string;
+  valid_from?: string;
+  valid_until?: string;
+  max_uses?: number;
+  remaining_uses?: number;
+  status?: GuestInvitationStatus;
+}
+
+const invokeValidation = async (body: { token: string; condominium_id: string; admit: boolean }) => {
+  const { data, error } = await supabase.functions.invoke("validate-guest-invitation", { body });
+  if (error) {
+    const errorBody = await error.context?.json?.().catch(() => null);
+    throw new Error(errorBody?.error || "Não foi possível validar o convite.");
+  }
+  return data as ScanResult & { admitted?: boolean; entry_id?: string };
+};
+
+const formatMoment = (value: string) => format(new Date(value), "dd/MM 'às' HH:mm", { locale: ptBR });
+
+/** "Ler convite QR" button: scans a guest invitation, shows its details and admits the guest. */
+export function GuestInvitationScanner({ condominiumId, disabled, onAdmitted }: GuestInvitationScannerProps) {
+  const { toast } = useToast();
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [scannedToken, setScannedToken] = useState<string | null>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+
+  const close = () => {
+    setScannedToken(null);
+    setResult(null);
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: (token: string) => invokeValidation({ token, condominium_id: condominiumId, admit: false }),
+    onSuccess: (data) => setResult(data),
+    onError: (error: Error) => {
+      setScannedToken(null);
+      toast({ title: "Erro ao ler convite", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const admitMutation = useMutation({
+    mutationFn: async () => {
+      const data = await invokeValidation({ token: scannedToken!, condominium_id: condominiumId, admit: true });
+      if (!data.admitted || !data.entry_id) throw new Error(data.error || "Convite não aceito.");
+
+      // Entry is already recorded; a failed WhatsApp notice must not block the portaria
+      const { data: notifyResult, error: notifyError } = await supabase.functions.invoke("notify-visitor-arrival", {
+        body: { entry_id: data.entry_id },
+      });
+      return { notified: !notifyError && !!notifyResult?.success };
+    },
+    onSuccess: ({ notified }) => {
+      onAdmitted?.();
+      toast({
+        title: "Entrada liberada",
+        description: notified ? "O morador foi avisado pelo WhatsApp." : "Não foi possível avisar o morador pelo WhatsApp.",
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao liberar entrada", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleScan = (code: string) => {
+    setScannerOpen(false);
+    setScannedToken(code);
+    setResult(null);
+    validateMutation.mutate(code);
+  };
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2 shrink-0" disabled={disabled} onClick={() => setScannerOpen(true)}>
+        <QrCode className="w-4 h-4" /> Ler convite QR
+      </Button>
+
+      <BarcodeScanner isOpen={scannerOpen} onClose={() => setScannerOpen(false)} onScan={handleScan} />
+
+      <Dialog open={!!scannedToken} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {validateMutation.isPending || !result ? (
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+              ) : result.valid ? (
+                <CheckCircle2 className="w-5 h-5 text-green-600" />
+              ) : (
+                <XCircle className="w-5 h-5 text-destructive" />
+              )}
+              {validateMutation.isPending || !result
+                ? "Validando convite..."
+                : result.valid
+                  ? "Convite válido"
+                  : "Convite recusado"}
+            </DialogTitle>
+            {result && !result.valid && <DialogDescription>{result.error}</DialogDescription>}
+          </DialogHeader>
+
+          {result?.guest_name && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                <User className="w-5 h-5 text-primary shrink-0" />
+                <div>
+                  <p className="font-medium">{result.guest_name}</p>
+                  {result.guest_document && (
+                    <p className="text-xs text-muted-foreground">Documento: {result.guest_document}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                <Home className="w-5 h-5 text-primary shrink-0" />
+                <div>
+                  <p className="font-medium">
+                    {result.block_name} - {result.apartment_number}
+                  </p>
+                  {result.resident_name && (
+                    <p className="text-xs text-muted-foreground">Convidado por {result.resident_name}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-start gap-3 p-3 rounded-lg bg-secondary/50">
+                <Calendar className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm">
+                      {formatMoment(result.valid_from!)} até {formatMoment(result.valid_until!)}
+                    </p>
+                    {result.status && <Badge variant="outline">{GUEST_INVITATION_STATUS_LABELS[result.status]}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {result.remaining_uses} de {result.max_uses} entrada(s) restante(s)
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close}>Fechar</Button>
+            {result?.valid && (
+              <Button onClick={() => admitMutation.mutate()} disabled={admitMutation.isPending}>
+                {admitMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Liberar entrada
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { QrCode, Plus, Share2, XCircle, Loader2, Calendar, Copy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { GuestInvitationQrCode } from "@/components/visitors/GuestInvitationQrCode";
+import {
+  GUEST_INVITATION_STATUS_LABELS,
+  buildGuestInvitationUrl,
+  buildGuestInvitationWhatsAppUrl,
+  getGuestInvitationStatus,
+} from "@/lib/guestInvitations";
+import { format, addDays, endOfDay } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface GuestInvitationsCardProps {
+  resident: {
+    id: string;
+    apartment_id: string;
+    condominium_id: string;
+    condominium_name: string;
+  };
+}
+
+interface Invitation {
+  id: string;
+  token: string;
+  guest_name: string;
+  guest_document: string | null;
+  valid_from: string;
+  valid_until: string;
+  max_uses: number;
+  uses_count: number;
+  status: string;
+}
+
+const LOCAL_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const emptyForm = () => ({
+  guest_name: "",
+  guest_document: "",
+  valid_from: format(new Date(), LOCAL_INPUT_FORMAT),
+  valid_until: format(endOfDay(addDays(new Date(), 1)), LOCAL_INPUT_FORMAT),
+  max_uses: "1",
+});
+
+/**
+ * QR invitations the resident shares with guests. The porteiro scans the code at the gate;
+ * each entry consumes one use.
+ */
+export function GuestInvitationsCard({ resident }: GuestInvitationsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [shown, setShown] = useState<Invitation | null>(null);
+  const queryKey = ["guest-invitations", resident.apartment_id];
+
+  const { data: invitations = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("guest_invitations")
+        .select("id, token, guest_name, guest_document, valid_from, valid_until, max_uses, uses_count, status")
+        .eq("apartment_id", resident.apartment_id)
+        .order("created_at", { ascending: false })
+        .limit(30);
+      if (error) throw error;
+      return data as Invitation[];
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!form.guest_name.trim()) throw new Error("Informe o nome do convidado.");
+      const validFrom = new Date(form.valid_from);
+      const validUntil = new Date(form.valid_until);
+      if (validUntil <= validFrom) throw new Error("O fim da validade deve ser posterior ao início.");
+
+      const { data, error } = await supabase
+        .from("guest_invitations")
+        .insert({
+          condominium_id: resident.condominium_id,
+          apartment_id: resident.apartment_id,
+          resident_id: resident.id,
+          guest_name: form.guest_name.trim(),
+          guest_document: form.guest_document.trim() || null,
+          valid_from: validFrom.toISOString(),
+          valid_until: validUntil.toISOString(),
+          max_uses: Math.min(Math.max(parseInt(form.max_uses) || 1, 1), 50),
+        })
+        .select("id, token, guest_name, guest_document, valid_from, valid_until, max_uses, uses_count, status")
+        .single();
+      if (error) throw error;
+      return data as Invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey });
+      setFormOpen(false);
+      setForm(emptyForm());
+      setShown(invitation);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao gerar convite", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("revoke_guest_invitation", { p_invitation_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setShown(null);
+      toast({ title: "Convite cancelado", description: "O QR Code não será mais aceito na portaria." });
+    },
+    onError: () => toast({ title: "Erro ao cancelar convite", variant: "destructive" }),
+  });
+
+  const copyLink = async (invitation: Invitation) => {
+    await navigator.clipboard.writeText(buildGuestInvitationUrl(invitation.token));
+    toast({ title: "Link copiado" });
+  };
+
+  const formatMoment = (value: string) => format(new Date(value), "dd/MM 'às' HH:mm", { locale: ptBR });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <QrCode className="w-5 h-5 text-primary" />
+            Convites QR
+          </CardTitle>
+          <CardDescription>
+            Gere um QR Code com prazo de validade e envie ao convidado pelo WhatsApp
+          </CardDescription>
+        </div>
+        <Button size="sm" className="gap-1 shrink-0" onClick={() => setFormOpen(true)}>
+          <Plus className="w-4 h-4" /> Novo convite
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)}
+          </div>
+        ) : invitations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhum convite gerado.</p>
+        ) : (
+          <div className="space-y-2">
+            {invitations.map((invitation) => {
+              const status = getGuestInvitationStatus(invitation);
+              const open = status === "valido" || status === "nao_iniciado";
+              return (
+                <div key={invitation.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm">{invitation.guest_name}</span>
+                      <Badge
+                        variant={open ? "secondary" : "outline"}
+                        className={status === "valido" ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" : undefined}
+                      >
+                        {GUEST_INVITATION_STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {formatMoment(invitation.valid_from)} até {formatMoment(invitation.valid_until)}
+                      </span>
+                      <span>
+                        {invitation.uses_count}/{invitation.max_uses} {invitation.max_uses === 1 ? "uso" : "usos"}
+                      </span>
+                    </div>
+                  </div>
+                  {open && (
+                    <Button variant="outline" size="sm" className="shrink-0 gap-1" onClick={() => setShown(invitation)}>
+                      <QrCode className="w-4 h-4" /> Ver
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* New invitation */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Novo Convite QR</DialogTitle>
+            <DialogDescription>
+              O convidado apresenta o QR Code na portaria dentro do período informado.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nome do convidado</Label>
+              <Input value={form.guest_name} onChange={(e) => setForm({ ...form, guest_name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Documento (opcional)</Label>
+              <Input
+                value={form.guest_document}
+                onChange={(e) => setForm({ ...form, guest_document: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Válido a partir de</Label>
+                <Input
+                  type="datetime-local"
+                  value={form.valid_from}
+                  onChange={(e) => setForm({ ...form, valid_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Até</Label>
+                <Input
+                  type="datetime-local"
+                  value={form.valid_until}
+                  min={form.valid_from}
+                  onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Número de entradas permitidas</Label>
+              <Input
+                type="number"
+                min={1}
+                max={50}
+                value={form.max_uses}
+                onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancelar</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Gerar convite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* QR + share */}
+      <Dialog open={!!shown} onOpenChange={(open) => !open && setShown(null)}>
+        <DialogContent className="max-w-sm">
+          {shown && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Convite de {shown.guest_name}</DialogTitle>
+                <DialogDescription>
+                  {formatMoment(shown.valid_from)} até {formatMoment(shown.valid_until)} ·{" "}
+                  {shown.max_uses - shown.uses_count} entrada(s) restante(s)
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex justify-center py-2">
+                <GuestInvitationQrCode token={shown.token} />
+              </div>
+              <div className="grid gap-2">
+                <Button asChild className="gap-2">
+                  <a
+                    href={buildGuestInvitationWhatsAppUrl(shown, resident.condominium_name)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Share2 className="w-4 h-4" /> Enviar pelo WhatsApp
+                  </a>
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={() => copyLink(shown)}>
+                  <Copy className="w-4 h-4" /> Copiar link
+                </Button>
+                <Button
+                  variant="ghost"
+                  className="gap-2 text-destructive hover:text-destructive"
+                  onClick={() => revokeMutation.mutate(shown.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <XCircle className="w-4 h-4" /> Cancelar convite
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
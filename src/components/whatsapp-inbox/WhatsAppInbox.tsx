@@ -0,0 +1,418 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
+import { formatDateTime, formatTime } from "@/lib/dateUtils";
+import { cn } from "@/lib/utils";
+import {
+  MessageCircle,
+  Search,
+  Send,
+  Loader2,
+  Package,
+  FileText,
+  Clock,
+  ArrowLeft,
+  CheckCheck,
+  Check,
+  AlertCircle,
+  Paperclip,
+} from "lucide-react";
+
+// Meta only accepts free-text replies within 24h of the resident's last message
+const REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface Conversation {
+  id: string;
+  condominium_id: string | null;
+  resident_id: string | null;
+  phone: string;
+  contact_name: string | null;
+  last_message_at: string;
+  last_message_preview: string | null;
+  last_inbound_at: string | null;
+  unread_count: number;
+  condominium?: { name: string } | null;
+  resident?: {
+    full_name: string;
+    apartment?: { number: string; block?: { name: string } | null } | null;
+  } | null;
+}
+
+interface InboxMessage {
+  id: string;
+  direction: "inbound" | "outbound";
+  message_type: string;
+  content: string | null;
+  button_payload: string | null;
+  media_id: string | null;
+  status: string;
+  error_message: string | null;
+  sent_by_name: string | null;
+  created_at: string;
+  notification?: { id: string; occurrence?: { id: string; title: string } | null } | null;
+  package?: { id: string; pickup_code: string; status: string } | null;
+}
+
+interface WhatsAppInboxProps {
+  condominiumIds: string[];
+  /** Base path used to link occurrence notifications (omit when the role cannot open occurrences) */
+  occurrenceBasePath?: string;
+}
+
+const isWithinReplyWindow = (lastInboundAt: string | null) =>
+  !!lastInboundAt && Date.now() - new Date(lastInboundAt).getTime() < REPLY_WINDOW_MS;
+
+const MEDIA_LABELS: Record<string, string> = {
+  image: "Imagem",
+  video: "Vídeo",
+  audio: "Áudio",
+  document: "Documento",
+  sticker: "Figurinha",
+};
+
+function OutboundStatusIcon({ status }: { status: string }) {
+  if (status === "failed") return <AlertCircle className="w-3.5 h-3.5 text-destructive" />;
+  if (status === "read") return <CheckCheck className="w-3.5 h-3.5 text-blue-500" />;
+  if (status === "delivered") return <CheckCheck className="w-3.5 h-3.5" />;
+  return <Check className="w-3.5 h-3.5" />;
+}
+
+export default function WhatsAppInbox({ condominiumIds, occurrenceBasePath }: WhatsAppInboxProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [reply, setReply] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: conversations = [], isLoading } = useQuery({
+    queryKey: ["whatsapp-conversations", condominiumIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("whatsapp_conversations")
+        .select(`
+          *,
+          condominium:condominiums(name),
+          resident:residents(full_name, apartment:apartments(number, block:blocks(name)))
+        `)
+        .in("condominium_id", condominiumIds)
+        .order("last_message_at", { ascending: false })
+        .limit(200);
+      if (error) throw error;
+      return data as unknown as Conversation[];
+    },
+    enabled: condominiumIds.length > 0,
+    staleTime: 1000 * 30,
+  });
+
+  const { data: messages = [], isLoading: messagesLoading } = useQuery({
+    queryKey: ["whatsapp-messages", selectedId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("whatsapp_messages")
+        .select(`
+          *,
+          notification:notifications_sent(id, occurrence:occurrences(id, title)),
+          package:packages(id, pickup_code, status)
+        `)
+        .eq("conversation_id", selectedId!)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data as unknown as InboxMessage[];
+    },
+    enabled: !!selectedId,
+    staleTime: 1000 * 30,
+  });
+
+  const condominiumKey = condominiumIds.join(",");
+
+  // Realtime: new inbound messages and delivery status of replies
+  useEffect(() => {
+    if (!condominiumKey) return;
+
+    const channel = supabase
+      .channel("whatsapp-inbox")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "whatsapp_conversations" },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["whatsapp-conversations"] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "whatsapp_messages" },
+        (payload) => {
+          const changed = payload.new as { conversation_id?: string };
+          if (changed?.conversation_id) {
+            queryClient.invalidateQueries({ queryKey: ["whatsapp-messages", changed.conversation_id] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [condominiumKey, queryClient]);
+
+  const selected = conversations.find((c) => c.id === selectedId) || null;
+
+  // Mark as read when opening a conversation with unread messages
+  useEffect(() => {
+    if (!selected || selected.unread_count === 0) return;
+    supabase
+      .from("whatsapp_conversations")
+      .update({ unread_count: 0 })
+      .eq("id", selected.id)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ["whatsapp-conversations"] });
+        queryClient.invalidateQueries({ queryKey: ["badge-unread-conversations"] });
+      });
+  }, [selected, queryClient]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length, selectedId]);
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke("send-whatsapp-reply", {
+        body: { conversation_id: selectedId, message: reply.trim() },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data;
+    },
+    onSuccess: () => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey: ["whatsapp-messages", selectedId] });
+      queryClient.invalidateQueries({ queryKey: ["whatsapp-conversations"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao enviar resposta", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filteredConversations = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return conversations;
+    return conversations.filter((c) =>
+      [c.resident?.full_name, c.contact_name, c.phone, c.resident?.apartment?.number, c.resident?.apartment?.block?.name]
+        .filter(Boolean)
+        .some((value) => value!.toLowerCase().includes(term))
+    );
+  }, [conversations, searchTerm]);
+
+  const canReply = selected ? isWithinReplyWindow(selected.last_inbound_at) : false;
+  const displayName = (c: Conversation) => c.resident?.full_name || c.contact_name || c.phone;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[340px_1fr] h-[calc(100vh-220px)] min-h-[480px]">
+      {/* Conversation list */}
+      <Card className={cn("flex flex-col overflow-hidden", selectedId && "hidden md:flex")}>
+        <CardHeader className="pb-3 space-y-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <MessageCircle className="w-4 h-4" />
+            Conversas
+          </CardTitle>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por nome, telefone ou unidade..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="flex-1 p-0 overflow-hidden">
+          <ScrollArea className="h-full">
+            {isLoading ? (
+              <div className="p-4 space-y-3">
+                {[1, 2, 3].map((i) => <Skeleton key={i} className="h-14 w-full" />)}
+              </div>
+            ) : filteredConversations.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                Nenhuma conversa recebida.
+              </div>
+            ) : (
+              filteredConversations.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  type="button"
+                  onClick={() => setSelectedId(conversation.id)}
+                  className={cn(
+                    "w-full text-left px-4 py-3 border-b transition-colors hover:bg-muted/50",
+                    selectedId === conversation.id && "bg-muted"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={cn("truncate text-sm", conversation.unread_count > 0 ? "font-semibold" : "font-medium")}>
+                      {displayName(conversation)}
+                    </span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatTime(conversation.last_message_at)}
+                    </span>
+                  </div>
+                  {conversation.resident?.apartment && (
+                    <BlockApartmentDisplay
+                      blockName={conversation.resident.apartment.block?.name}
+                      apartmentNumber={conversation.resident.apartment.number}
+                      variant="compact"
+                      className="text-xs text-muted-foreground"
+                    />
+                  )}
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-xs text-muted-foreground truncate">
+                      {conversation.last_message_preview || "-"}
+                    </p>
+                    {conversation.unread_count > 0 && (
+                      <Badge className="h-5 min-w-5 px-1.5 text-xs shrink-0">{conversation.unread_count}</Badge>
+                    )}
+                  </div>
+                </button>
+              ))
+            )}
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      {/* Thread */}
+      <Card className={cn("flex flex-col overflow-hidden", !selectedId && "hidden md:flex")}>
+        {!selected ? (
+          <CardContent className="flex-1 flex flex-col items-center justify-center text-muted-foreground gap-2">
+            <MessageCircle className="w-10 h-10" />
+            <p className="text-sm">Selecione uma conversa para visualizar as mensagens</p>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader className="pb-3 border-b">
+              <div className="flex items-center gap-3">
+                <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setSelectedId(null)}>
+                  <ArrowLeft className="w-4 h-4" />
+                </Button>
+                <div className="min-w-0">
+                  <CardTitle className="text-base truncate">{displayName(selected)}</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    {selected.phone}
+                    {selected.condominium?.name && ` • ${selected.condominium.name}`}
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="flex-1 p-0 overflow-hidden">
+              <ScrollArea className="h-full">
+                <div className="p-4 space-y-3">
+                  {messagesLoading ? (
+                    <Skeleton className="h-16 w-2/3" />
+                  ) : (
+                    messages.map((message) => {
+                      const isInbound = message.direction === "inbound";
+                      const occurrence = message.notification?.occurrence;
+                      return (
+                        <div key={message.id} className={cn("flex", isInbound ? "justify-start" : "justify-end")}>
+                          <div
+                            className={cn(
+                              "max-w-[80%] rounded-lg px-3 py-2 text-sm space-y-1",
+                              isInbound ? "bg-muted" : "bg-primary text-primary-foreground"
+                            )}
+                          >
+                            {(occurrence || message.package) && (
+                              <div className="flex flex-wrap gap-1">
+                                {occurrence && (
+                                  occurrenceBasePath ? (
+                                    <Link to={`${occurrenceBasePath}/${occurrence.id}`}>
+                                      <Badge variant="outline" className="gap-1 bg-background">
+                                        <FileText className="w-3 h-3" />
+                                        {occurrence.title}
+                                      </Badge>
+                                    </Link>
+                                  ) : (
+                                    <Badge variant="outline" className="gap-1 bg-background">
+                                      <FileText className="w-3 h-3" />
+                                      {occurrence.title}
+                                    </Badge>
+                                  )
+                                )}
+                                {message.package && (
+                                  <Badge variant="outline" className="gap-1 bg-background">
+                                    <Package className="w-3 h-3" />
+                                    Encomenda {message.package.pickup_code}
+                                    {message.package.status === "retirada" && " (retirada)"}
+                                  </Badge>
+                                )}
+                              </div>
+                            )}
+                            {message.media_id && (
+                              <p className="flex items-center gap-1 text-xs opacity-80">
+                                <Paperclip className="w-3 h-3" />
+                                {MEDIA_LABELS[message.message_type] || "Anexo"}
+                              </p>
+                            )}
+                            {message.content && <p className="whitespace-pre-wrap break-words">{message.content}</p>}
+                            <div className={cn("flex items-center gap-1 text-[11px]", isInbound ? "text-muted-foreground" : "opacity-80 justify-end")}>
+                              {!isInbound && message.sent_by_name && <span>{message.sent_by_name} •</span>}
+                              <span title={formatDateTime(message.created_at)}>{formatTime(message.created_at)}</span>
+                              {!isInbound && <OutboundStatusIcon status={message.status} />}
+                            </div>
+                            {message.status === "failed" && message.error_message && (
+                              <p className="text-[11px] opacity-90">{message.error_message}</p>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })
+                  )}
+                  <div ref={bottomRef} />
+                </div>
+              </ScrollArea>
+            </CardContent>
+            <div className="border-t p-3 space-y-2">
+              {canReply ? (
+                <div className="flex gap-2 items-end">
+                  <Textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Digite sua resposta..."
+                    rows={2}
+                    maxLength={4096}
+                    className="resize-none"
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !e.shiftKey && reply.trim() && !replyMutation.isPending) {
+                        e.preventDefault();
+                        replyMutation.mutate();
+                      }
+                    }}
+                  />
+                  <Button
+                    size="icon"
+                    onClick={() => replyMutation.mutate()}
+                    disabled={!reply.trim() || replyMutation.isPending}
+                  >
+                    {replyMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  </Button>
+                </div>
+              ) : (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Clock className="w-3.5 h-3.5" />
+                  A janela de 24 horas para resposta expirou. Aguarde uma nova mensagem do morador.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+
+export interface ActiveCondominiumContextValue {
+  activeCondominiumId: string | null;
+  switchCondominium: (condominiumId: string | null) => void;
+}
+
+export const ActiveCondominiumContext = createContext<ActiveCondominiumContextValue | null>(null);
+
+export const useActiveCondominium = (): ActiveCondominiumContextValue => {
+  const context = useContext(ActiveCondominiumContext);
+  if (!context) {
+    throw new Error("useActiveCondominium must be used within ActiveCondominiumProvider");
+  }
+  return context;
+};
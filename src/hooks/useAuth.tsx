@@ -103,6 +103,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       key.startsWith('sb-') || key.includes('supabase')
     );
     keysToRemove.forEach(key => localStorage.removeItem(key));
+
+    // Porteiro lookups cached by the service worker belong to the user signing out
+    if ("caches" in window) {
+      await caches.delete("porteiro-lookups").catch(() => false);
+    }
     
     // Then attempt to sign out from Supabase (ignore errors if session doesn't exist)
     try {
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  fetchManagedCondominiums,
+  type CondominiumPermission,
+} from "@/lib/condominiumAccess";
+
+export const condominiumAccessQueryKey = (userId: string | undefined) => ["condominium-access", userId];
+
+/**
+ * Condominiums the logged user manages (as síndico or delegated manager) and their permissions
+ */
+export const useCondominiumAccess = () => {
+  const { user } = useAuth();
+
+  const { data: managed = [], isLoading } = useQuery({
+    queryKey: condominiumAccessQueryKey(user?.id),
+    enabled: !!user,
+    queryFn: fetchManagedCondominiums,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const getAccess = (condominiumId: string | null | undefined) =>
+    managed.find((m) => m.condominium_id === condominiumId);
+
+  return {
+    managed,
+    condominiumIds: managed.map((m) => m.condominium_id),
+    isLoading,
+    getAccess,
+    isOwner: (condominiumId: string | null | undefined) => getAccess(condominiumId)?.access_role === "sindico",
+    can: (condominiumId: string | null | undefined, permission: CondominiumPermission) =>
+      !!getAccess(condominiumId)?.permissions.includes(permission),
+    canAny: (permission: CondominiumPermission) => managed.some((m) => m.permissions.includes(permission)),
+    ownsAny: managed.some((m) => m.access_role === "sindico"),
+  };
+};
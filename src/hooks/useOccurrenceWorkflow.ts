@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { WorkflowState, WorkflowTransition } from "@/lib/occurrenceWorkflow";
+
+export const occurrenceWorkflowQueryKey = (condominiumId: string | null | undefined) =>
+  ["occurrence-workflow", condominiumId];
+
+/**
+ * States and transitions of a condominium's occurrence workflow
+ */
+export const useOccurrenceWorkflow = (condominiumId: string | null | undefined) => {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: occurrenceWorkflowQueryKey(condominiumId),
+    enabled: !!condominiumId,
+    queryFn: async () => {
+      const [statesResult, transitionsResult] = await Promise.all([
+        supabase
+          .from("occurrence_workflow_states")
+          .select("*")
+          .eq("condominium_id", condominiumId!)
+          .order("display_order", { ascending: true }),
+        supabase
+          .from("occurrence_workflow_transitions")
+          .select("*")
+          .eq("condominium_id", condominiumId!)
+          .order("display_order", { ascending: true }),
+      ]);
+
+      if (statesResult.error) throw statesResult.error;
+      if (transitionsResult.error) throw transitionsResult.error;
+
+      return {
+        states: (statesResult.data || []) as WorkflowState[],
+        transitions: (transitionsResult.data || []) as WorkflowTransition[],
+      };
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const states = data?.states || [];
+  const transitions = data?.transitions || [];
+
+  return {
+    states,
+    transitions,
+    getState: (key: string | null | undefined) => states.find((s) => s.key === key),
+    isLoading,
+    refetch,
+  };
+};
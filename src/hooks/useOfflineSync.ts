@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import type { OfflinePayloads, OfflineQueueItem, OfflineQueueKind } from "@/lib/offlineQueue";
+
+export interface OfflineSyncContextValue {
+  isOnline: boolean;
+  isSyncing: boolean;
+  items: OfflineQueueItem[];
+  queueOffline: <K extends OfflineQueueKind>(kind: K, payload: OfflinePayloads[K]) => Promise<string>;
+  syncNow: () => Promise<void>;
+  /** "force" registers the item despite the conflict, "discard" drops it */
+  resolveConflict: (id: string, action: "force" | "discard") => Promise<void>;
+}
+
+export const OfflineSyncContext = createContext<OfflineSyncContextValue | null>(null);
+
+export const useOfflineSync = (): OfflineSyncContextValue => {
+  const context = useContext(OfflineSyncContext);
+  if (!context) {
+    throw new Error("useOfflineSync must be used within OfflineSyncProvider");
+  }
+  return context;
+};
@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { PackageStorageLocation } from "@/lib/packageConstants";
+
+export interface PackageStorageLocationRow extends PackageStorageLocation {
+  condominium_id: string;
+  description: string | null;
+  is_active: boolean;
+  display_order: number;
+}
+
+export const packageStorageLocationsQueryKey = (condominiumIds: string[]) => [
+  "package-storage-locations",
+  ...condominiumIds,
+];
+
+/**
+ * Storage locations configured for the given condominiums, in display order.
+ * Inactive locations are only returned when `includeInactive` is set.
+ */
+export function usePackageStorageLocations(condominiumIds: string[], includeInactive = false) {
+  const { data: locations = [], isLoading } = useQuery({
+    queryKey: [...packageStorageLocationsQueryKey(condominiumIds), includeInactive],
+    queryFn: async () => {
+      let query = supabase
+        .from("package_storage_locations")
+        .select("id, condominium_id, name, location_type, description, is_active, display_order")
+        .in("condominium_id", condominiumIds)
+        .order("display_order")
+        .order("name");
+
+      if (!includeInactive) {
+        query = query.eq("is_active", true);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as PackageStorageLocationRow[];
+    },
+    enabled: condominiumIds.length > 0,
+  });
+
+  return { locations, isLoading };
+}
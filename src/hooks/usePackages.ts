@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { PackageStatus } from "@/lib/packageConstants";
+import { PackageStatus, type PackageStorageLocation } from "@/lib/packageConstants";
 
 export interface Package {
   id: string;
@@ -22,10 +22,22 @@ export interface Package {
   notification_sent: boolean | null;
   notification_sent_at: string | null;
   notification_count: number | null;
+  // WhatsApp quick reply / third party authorization
+  pickup_intent?: string | null;
+  pickup_intent_at?: string | null;
+  authorized_pickup_name?: string | null;
+  authorized_pickup_cpf?: string | null;
+  authorized_pickup_at?: string | null;
+  storage_location_id?: string | null;
+  // Proof of delivery (package-pickup-proofs bucket)
+  pickup_signature_path?: string | null;
+  pickup_photo_path?: string | null;
+  pickup_receipt_sent_at?: string | null;
   // Joined data
   condominium?: { name: string };
   block?: { name: string };
   apartment?: { number: string };
+  storage_location?: PackageStorageLocation | null;
 }
 
 interface UsePackagesOptions {
@@ -52,7 +64,8 @@ export function usePackages(options: UsePackagesOptions = {}) {
           *,
           condominium:condominiums(name),
           block:blocks(name),
-          apartment:apartments(number)
+          apartment:apartments(number),
+          storage_location:package_storage_locations(id, name, location_type)
         `)
         .order("received_at", { ascending: false });
 
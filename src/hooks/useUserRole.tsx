@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback, createContext, useContext, ReactNode
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 
-export type UserRole = "super_admin" | "sindico" | "morador" | "porteiro" | "zelador" | null;
+export type UserRole = "super_admin" | "sindico" | "morador" | "porteiro" | "zelador" | "conselheiro" | null;
 
 interface ResidentInfo {
   id: string;
@@ -31,6 +31,11 @@ interface PorteiroCondominium {
   name: string;
 }
 
+interface CouncilCondominium {
+  id: string;
+  name: string;
+}
+
 interface UseUserRoleReturn {
   role: UserRole;
   loading: boolean;
@@ -39,12 +44,15 @@ interface UseUserRoleReturn {
   isSuperAdmin: boolean;
   isPorteiro: boolean;
   isZelador: boolean;
+  isConselheiro: boolean;
   residentInfo: ResidentInfo | null;
   allResidentProfiles: ResidentInfo[];
   switchApartment: (residentId: string) => void;
   profileInfo: ProfileInfo | null;
   refetchProfile: () => Promise<void>;
   porteiroCondominiums: PorteiroCondominium[];
+  /** Condominiums where the user sits on the council (conselheiro) */
+  councilCondominiums: CouncilCondominium[];
 }
 
 const SELECTED_RESIDENT_KEY = "selected_resident_id";
@@ -75,6 +83,7 @@ const useUserRoleInternal = (): UseUserRoleReturn => {
   const [allResidentProfiles, setAllResidentProfiles] = useState<ResidentInfo[]>([]);
   const [profileInfo, setProfileInfo] = useState<ProfileInfo | null>(null);
   const [porteiroCondominiums, setPorteiroCondominiums] = useState<PorteiroCondominium[]>([]);
+  const [councilCondominiums, setCouncilCondominiums] = useState<CouncilCondominium[]>([]);
 
   const fetchProfileInfo = useCallback(async (userId: string) => {
     const { data: profileData, error: profileError } = await supabase
@@ -138,10 +147,11 @@ const useUserRoleInternal = (): UseUserRoleReturn => {
         }
 
         const rolePriority: Record<string, number> = {
-          super_admin: 5,
-          porteiro: 4,
-          zelador: 3,
-          sindico: 2,
+          super_admin: 6,
+          porteiro: 5,
+          zelador: 4,
+          sindico: 3,
+          conselheiro: 2,
           morador: 1,
         };
 
@@ -178,7 +188,21 @@ const useUserRoleInternal = (): UseUserRoleReturn => {
           }
         }
 
-        if (userRole === "morador") {
+        if (userRole === "conselheiro") {
+          const { data: councilData } = await supabase
+            .from("council_members")
+            .select("condominiums(id, name), residents!inner(user_id)")
+            .eq("residents.user_id", user.id);
+
+          setCouncilCondominiums(
+            (councilData || [])
+              .filter((cm) => cm.condominiums)
+              .map((cm) => ({ id: cm.condominiums!.id, name: cm.condominiums!.name }))
+          );
+        }
+
+        // Council members are residents too and keep their resident area
+        if (userRole === "morador" || userRole === "conselheiro") {
           const { data: residentData, error: residentError } = await supabase
             .from("residents")
             .select(`
@@ -253,11 +277,13 @@ const useUserRoleInternal = (): UseUserRoleReturn => {
     isSuperAdmin: role === "super_admin",
     isPorteiro: role === "porteiro",
     isZelador: role === "zelador",
+    isConselheiro: role === "conselheiro",
     residentInfo,
     allResidentProfiles,
     switchApartment,
     profileInfo,
     refetchProfile,
     porteiroCondominiums,
+    councilCondominiums,
   };
 };
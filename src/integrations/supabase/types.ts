@@ -82,6 +82,83 @@ export type Database = {
         }
         Relationships: []
       }
+      appeal_attachments: {
+        Row: {
+          appeal_id: string
+          created_at: string
+          file_type: string
+          file_url: string
+          id: string
+        }
+        Insert: {
+          appeal_id: string
+          created_at?: string
+          file_type: string
+          file_url: string
+          id?: string
+        }
+        Update: {
+          appeal_id?: string
+          created_at?: string
+          file_type?: string
+          file_url?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appeal_attachments_appeal_id_fkey"
+            columns: ["appeal_id"]
+            isOneToOne: false
+            referencedRelation: "occurrence_appeals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appeal_votes: {
+        Row: {
+          appeal_id: string
+          comment: string | null
+          condominium_id: string
+          created_at: string
+          id: string
+          vote: string
+          voter_id: string
+        }
+        Insert: {
+          appeal_id: string
+          comment?: string | null
+          condominium_id: string
+          created_at?: string
+          id?: string
+          vote: string
+          voter_id: string
+        }
+        Update: {
+          appeal_id?: string
+          comment?: string | null
+          condominium_id?: string
+          created_at?: string
+          id?: string
+          vote?: string
+          voter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appeal_votes_appeal_id_fkey"
+            columns: ["appeal_id"]
+            isOneToOne: false
+            referencedRelation: "occurrence_appeals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appeal_votes_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -209,6 +286,50 @@ export type Database = {
           },
         ]
       }
+      condominium_mercadopago_config: {
+        Row: {
+          access_token_encrypted: string
+          condominium_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          is_sandbox: boolean
+          public_key: string | null
+          updated_at: string
+          webhook_secret: string | null
+        }
+        Insert: {
+          access_token_encrypted: string
+          condominium_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_sandbox?: boolean
+          public_key?: string | null
+          updated_at?: string
+          webhook_secret?: string | null
+        }
+        Update: {
+          access_token_encrypted?: string
+          condominium_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_sandbox?: boolean
+          public_key?: string | null
+          updated_at?: string
+          webhook_secret?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "condominium_mercadopago_config_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: true
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       condominium_transfers: {
         Row: {
           condominium_id: string
@@ -292,16 +413,27 @@ export type Database = {
         Row: {
           address: string | null
           address_number: string | null
+          appeal_quorum: number
+          appeal_window_days: number
           city: string | null
           cnpj: string | null
           convention_url: string | null
           created_at: string
           defense_deadline_days: number
+          fine_late_fee_percent: number
+          fine_monthly_interest_percent: number
+          fine_recidivism_window_days: number
           id: string
           internal_rules_url: string | null
           name: string
           neighborhood: string | null
+          organization_id: string | null
           owner_id: string
+          package_escalate_sindico_after_days: number
+          package_escalate_unit_after_days: number
+          package_reminder_interval_days: number
+          package_reminders_enabled: boolean
+          package_return_after_days: number
           phone: string | null
           state: string | null
           updated_at: string
@@ -310,16 +442,27 @@ export type Database = {
         Insert: {
           address?: string | null
           address_number?: string | null
+          appeal_quorum?: number
+          appeal_window_days?: number
           city?: string | null
           cnpj?: string | null
           convention_url?: string | null
           created_at?: string
           defense_deadline_days?: number
+          fine_late_fee_percent?: number
+          fine_monthly_interest_percent?: number
+          fine_recidivism_window_days?: number
           id?: string
           internal_rules_url?: string | null
           name: string
           neighborhood?: string | null
+          organization_id?: string | null
           owner_id: string
+          package_escalate_sindico_after_days?: number
+          package_escalate_unit_after_days?: number
+          package_reminder_interval_days?: number
+          package_reminders_enabled?: boolean
+          package_return_after_days?: number
           phone?: string | null
           state?: string | null
           updated_at?: string
@@ -328,22 +471,41 @@ export type Database = {
         Update: {
           address?: string | null
           address_number?: string | null
+          appeal_quorum?: number
+          appeal_window_days?: number
           city?: string | null
           cnpj?: string | null
           convention_url?: string | null
           created_at?: string
           defense_deadline_days?: number
+          fine_late_fee_percent?: number
+          fine_monthly_interest_percent?: number
+          fine_recidivism_window_days?: number
           id?: string
           internal_rules_url?: string | null
           name?: string
           neighborhood?: string | null
+          organization_id?: string | null
           owner_id?: string
+          package_escalate_sindico_after_days?: number
+          package_escalate_unit_after_days?: number
+          package_reminder_interval_days?: number
+          package_reminders_enabled?: boolean
+          package_return_after_days?: number
           phone?: string | null
           state?: string | null
           updated_at?: string
           zip_code?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "condominiums_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       contact_messages: {
         Row: {
@@ -384,6 +546,45 @@ export type Database = {
         }
         Relationships: []
       }
+      council_members: {
+        Row: {
+          condominium_id: string
+          created_at: string
+          designated_by: string | null
+          id: string
+          resident_id: string
+        }
+        Insert: {
+          condominium_id: string
+          created_at?: string
+          designated_by?: string | null
+          id?: string
+          resident_id: string
+        }
+        Update: {
+          condominium_id?: string
+          created_at?: string
+          designated_by?: string | null
+          id?: string
+          resident_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "council_members_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "council_members_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cron_job_controls: {
         Row: {
           created_at: string
@@ -411,8 +612,51 @@ export type Database = {
         }
         Relationships: []
       }
+      decision_signatures: {
+        Row: {
+          condominium_id: string
+          decision_id: string
+          id: string
+          signed_at: string
+          signer_id: string
+          signer_name: string
+        }
+        Insert: {
+          condominium_id: string
+          decision_id: string
+          id?: string
+          signed_at?: string
+          signer_id: string
+          signer_name: string
+        }
+        Update: {
+          condominium_id?: string
+          decision_id?: string
+          id?: string
+          signed_at?: string
+          signer_id?: string
+          signer_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_signatures_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_signatures_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       decisions: {
         Row: {
+          appeal_id: string | null
           created_at: string
           decided_at: string
           decided_by: string
@@ -422,6 +666,7 @@ export type Database = {
           occurrence_id: string
         }
         Insert: {
+          appeal_id?: string | null
           created_at?: string
           decided_at?: string
           decided_by: string
@@ -431,6 +676,7 @@ export type Database = {
           occurrence_id: string
         }
         Update: {
+          appeal_id?: string | null
           created_at?: string
           decided_at?: string
           decided_by?: string
@@ -440,6 +686,13 @@ export type Database = {
           occurrence_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "decisions_appeal_id_fkey"
+            columns: ["appeal_id"]
+            isOneToOne: false
+            referencedRelation: "occurrence_appeals"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "decisions_occurrence_id_fkey"
             columns: ["occurrence_id"]
@@ -571,53 +824,156 @@ export type Database = {
         }
         Relationships: []
       }
+      fine_payments: {
+        Row: {
+          amount: number
+          condominium_id: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          fine_id: string
+          id: string
+          paid_at: string | null
+          provider: string
+          provider_payment_id: string
+          qr_code: string | null
+          qr_code_base64: string | null
+          resident_id: string | null
+          status: string
+          ticket_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          condominium_id: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          fine_id: string
+          id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_payment_id: string
+          qr_code?: string | null
+          qr_code_base64?: string | null
+          resident_id?: string | null
+          status?: string
+          ticket_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          condominium_id?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          fine_id?: string
+          id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_payment_id?: string
+          qr_code?: string | null
+          qr_code_base64?: string | null
+          resident_id?: string | null
+          status?: string
+          ticket_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fine_payments_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fine_payments_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fine_payments_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       fines: {
         Row: {
           acknowledged_at: string | null
           amount: number
+          appeal_suspended_at: string | null
+          charges_updated_at: string | null
           created_at: string
           due_date: string
           id: string
+          interest_amount: number
+          late_fee_amount: number
           multiplier: number
           notified_at: string | null
           occurrence_id: string
+          overdue_notified_at: string | null
           paid_at: string | null
           payment_method: string | null
           payment_reference: string | null
+          recidivism_count: number | null
           resident_id: string
           status: Database["public"]["Enums"]["fine_status"]
+          suggested_multiplier: number | null
+          total_due: number | null
           updated_at: string
         }
         Insert: {
           acknowledged_at?: string | null
           amount: number
+          appeal_suspended_at?: string | null
+          charges_updated_at?: string | null
           created_at?: string
           due_date: string
           id?: string
+          interest_amount?: number
+          late_fee_amount?: number
           multiplier?: number
           notified_at?: string | null
           occurrence_id: string
+          overdue_notified_at?: string | null
           paid_at?: string | null
           payment_method?: string | null
           payment_reference?: string | null
+          recidivism_count?: number | null
           resident_id: string
           status?: Database["public"]["Enums"]["fine_status"]
+          suggested_multiplier?: number | null
+          total_due?: number | null
           updated_at?: string
         }
         Update: {
           acknowledged_at?: string | null
           amount?: number
+          appeal_suspended_at?: string | null
+          charges_updated_at?: string | null
           created_at?: string
           due_date?: string
           id?: string
+          interest_amount?: number
+          late_fee_amount?: number
           multiplier?: number
           notified_at?: string | null
           occurrence_id?: string
+          overdue_notified_at?: string | null
           paid_at?: string | null
           payment_method?: string | null
           payment_reference?: string | null
+          recidivism_count?: number | null
           resident_id?: string
           status?: Database["public"]["Enums"]["fine_status"]
+          suggested_multiplier?: number | null
+          total_due?: number | null
           updated_at?: string
         }
         Relationships: [
@@ -637,42 +993,180 @@ export type Database = {
           },
         ]
       }
-      invoices: {
+      guest_invitation_scan_logs: {
         Row: {
-          amount: number
-          condominium_id: string
+          admitted: boolean
+          condominium_id: string | null
           created_at: string
-          description: string | null
-          due_date: string
+          error_message: string | null
           id: string
-          invoice_number: string | null
-          paid_at: string | null
-          payment_method: string | null
-          payment_reference: string | null
-          period_end: string
-          period_start: string
-          status: string
-          subscription_id: string
-          updated_at: string
+          invitation_id: string | null
+          ip_address: string | null
+          scanned_at: string
+          scanned_by: string | null
+          success: boolean
+          token_id: string
+          user_agent: string | null
         }
         Insert: {
-          amount: number
-          condominium_id: string
+          admitted?: boolean
+          condominium_id?: string | null
           created_at?: string
-          description?: string | null
-          due_date: string
+          error_message?: string | null
           id?: string
-          invoice_number?: string | null
-          paid_at?: string | null
-          payment_method?: string | null
-          payment_reference?: string | null
-          period_end: string
-          period_start: string
-          status?: string
-          subscription_id: string
-          updated_at?: string
-        }
-        Update: {
+          invitation_id?: string | null
+          ip_address?: string | null
+          scanned_at?: string
+          scanned_by?: string | null
+          success?: boolean
+          token_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          admitted?: boolean
+          condominium_id?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          invitation_id?: string | null
+          ip_address?: string | null
+          scanned_at?: string
+          scanned_by?: string | null
+          success?: boolean
+          token_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_invitation_scan_logs_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_invitation_scan_logs_invitation_id_fkey"
+            columns: ["invitation_id"]
+            isOneToOne: false
+            referencedRelation: "guest_invitations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guest_invitations: {
+        Row: {
+          apartment_id: string
+          condominium_id: string
+          created_at: string
+          guest_document: string | null
+          guest_name: string
+          id: string
+          max_uses: number
+          resident_id: string | null
+          revoked_at: string | null
+          status: string
+          token: string
+          updated_at: string
+          uses_count: number
+          valid_from: string
+          valid_until: string
+        }
+        Insert: {
+          apartment_id: string
+          condominium_id: string
+          created_at?: string
+          guest_document?: string | null
+          guest_name: string
+          id?: string
+          max_uses?: number
+          resident_id?: string | null
+          revoked_at?: string | null
+          status?: string
+          token?: string
+          updated_at?: string
+          uses_count?: number
+          valid_from?: string
+          valid_until: string
+        }
+        Update: {
+          apartment_id?: string
+          condominium_id?: string
+          created_at?: string
+          guest_document?: string | null
+          guest_name?: string
+          id?: string
+          max_uses?: number
+          resident_id?: string | null
+          revoked_at?: string | null
+          status?: string
+          token?: string
+          updated_at?: string
+          uses_count?: number
+          valid_from?: string
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_invitations_apartment_id_fkey"
+            columns: ["apartment_id"]
+            isOneToOne: false
+            referencedRelation: "apartments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_invitations_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_invitations_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount: number
+          condominium_id: string
+          created_at: string
+          description: string | null
+          due_date: string
+          id: string
+          invoice_number: string | null
+          organization_invoice_id: string | null
+          paid_at: string | null
+          payment_method: string | null
+          payment_reference: string | null
+          period_end: string
+          period_start: string
+          status: string
+          subscription_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          condominium_id: string
+          created_at?: string
+          description?: string | null
+          due_date: string
+          id?: string
+          invoice_number?: string | null
+          organization_invoice_id?: string | null
+          paid_at?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          period_end: string
+          period_start: string
+          status?: string
+          subscription_id: string
+          updated_at?: string
+        }
+        Update: {
           amount?: number
           condominium_id?: string
           created_at?: string
@@ -680,6 +1174,7 @@ export type Database = {
           due_date?: string
           id?: string
           invoice_number?: string | null
+          organization_invoice_id?: string | null
           paid_at?: string | null
           payment_method?: string | null
           payment_reference?: string | null
@@ -697,6 +1192,13 @@ export type Database = {
             referencedRelation: "condominiums"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoices_organization_invoice_id_fkey"
+            columns: ["organization_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "organization_invoices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "invoices_subscription_id_fkey"
             columns: ["subscription_id"]
@@ -1116,157 +1618,733 @@ export type Database = {
           },
         ]
       }
-      occurrence_evidences: {
+      occurrence_appeals: {
         Row: {
+          condominium_id: string
+          content: string
           created_at: string
-          description: string | null
-          file_type: string
-          file_url: string
+          decision_id: string
+          filed_at: string
           id: string
           occurrence_id: string
-          uploaded_by: string
+          outcome_decision_id: string | null
+          resident_id: string
+          resolved_at: string | null
+          status: string
+          updated_at: string
         }
         Insert: {
+          condominium_id: string
+          content: string
           created_at?: string
-          description?: string | null
-          file_type: string
-          file_url: string
+          decision_id: string
+          filed_at?: string
           id?: string
           occurrence_id: string
-          uploaded_by: string
+          outcome_decision_id?: string | null
+          resident_id: string
+          resolved_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Update: {
+          condominium_id?: string
+          content?: string
           created_at?: string
-          description?: string | null
-          file_type?: string
-          file_url?: string
+          decision_id?: string
+          filed_at?: string
           id?: string
           occurrence_id?: string
-          uploaded_by?: string
+          outcome_decision_id?: string | null
+          resident_id?: string
+          resolved_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "occurrence_evidences_occurrence_id_fkey"
+            foreignKeyName: "occurrence_appeals_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrence_appeals_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: true
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrence_appeals_occurrence_id_fkey"
             columns: ["occurrence_id"]
             isOneToOne: false
             referencedRelation: "occurrences"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "occurrence_appeals_outcome_decision_id_fkey"
+            columns: ["outcome_decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrence_appeals_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      occurrences: {
+      occurrence_documents: {
         Row: {
-          apartment_id: string | null
-          block_id: string | null
-          civil_code_article: string | null
           condominium_id: string
-          convention_article: string | null
+          content_hash: string
           created_at: string
-          description: string
+          document_type: string
           id: string
-          internal_rules_article: string | null
-          legal_basis: string | null
-          location: string | null
-          occurred_at: string
-          registered_by: string
-          resident_id: string | null
-          status: Database["public"]["Enums"]["occurrence_status"]
-          title: string
-          type: Database["public"]["Enums"]["occurrence_type"]
-          updated_at: string
+          issued_at: string
+          issued_by: string
+          occurrence_id: string
+          occurrence_status: string
+          verification_code: string
         }
         Insert: {
-          apartment_id?: string | null
-          block_id?: string | null
-          civil_code_article?: string | null
           condominium_id: string
-          convention_article?: string | null
+          content_hash: string
           created_at?: string
-          description: string
+          document_type: string
           id?: string
-          internal_rules_article?: string | null
-          legal_basis?: string | null
-          location?: string | null
-          occurred_at: string
-          registered_by: string
-          resident_id?: string | null
-          status?: Database["public"]["Enums"]["occurrence_status"]
-          title: string
-          type: Database["public"]["Enums"]["occurrence_type"]
-          updated_at?: string
+          issued_at?: string
+          issued_by: string
+          occurrence_id: string
+          occurrence_status: string
+          verification_code?: string
         }
         Update: {
-          apartment_id?: string | null
-          block_id?: string | null
-          civil_code_article?: string | null
           condominium_id?: string
-          convention_article?: string | null
+          content_hash?: string
           created_at?: string
-          description?: string
+          document_type?: string
           id?: string
-          internal_rules_article?: string | null
-          legal_basis?: string | null
-          location?: string | null
-          occurred_at?: string
-          registered_by?: string
-          resident_id?: string | null
-          status?: Database["public"]["Enums"]["occurrence_status"]
-          title?: string
-          type?: Database["public"]["Enums"]["occurrence_type"]
-          updated_at?: string
+          issued_at?: string
+          issued_by?: string
+          occurrence_id?: string
+          occurrence_status?: string
+          verification_code?: string
         }
         Relationships: [
           {
-            foreignKeyName: "occurrences_apartment_id_fkey"
-            columns: ["apartment_id"]
-            isOneToOne: false
-            referencedRelation: "apartments"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "occurrences_block_id_fkey"
-            columns: ["block_id"]
-            isOneToOne: false
-            referencedRelation: "blocks"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "occurrences_condominium_id_fkey"
+            foreignKeyName: "occurrence_documents_condominium_id_fkey"
             columns: ["condominium_id"]
             isOneToOne: false
             referencedRelation: "condominiums"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "occurrences_resident_id_fkey"
-            columns: ["resident_id"]
+            foreignKeyName: "occurrence_documents_occurrence_id_fkey"
+            columns: ["occurrence_id"]
             isOneToOne: false
-            referencedRelation: "residents"
+            referencedRelation: "occurrences"
             referencedColumns: ["id"]
           },
         ]
       }
-      package_types: {
+      occurrence_evidences: {
         Row: {
           created_at: string
           description: string | null
-          display_order: number
-          icon: string | null
+          file_type: string
+          file_url: string
           id: string
-          is_active: boolean
-          name: string
-          updated_at: string
+          occurrence_id: string
+          uploaded_by: string
         }
         Insert: {
           created_at?: string
           description?: string | null
-          display_order?: number
-          icon?: string | null
+          file_type: string
+          file_url: string
           id?: string
-          is_active?: boolean
-          name: string
-          updated_at?: string
-        }
+          occurrence_id: string
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          file_type?: string
+          file_url?: string
+          id?: string
+          occurrence_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "occurrence_evidences_occurrence_id_fkey"
+            columns: ["occurrence_id"]
+            isOneToOne: false
+            referencedRelation: "occurrences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      occurrence_status_history: {
+        Row: {
+          condominium_id: string
+          created_at: string
+          from_state: string | null
+          id: string
+          justification: string | null
+          occurrence_id: string
+          performed_by: string | null
+          performed_role: string | null
+          to_state: string
+        }
+        Insert: {
+          condominium_id: string
+          created_at?: string
+          from_state?: string | null
+          id?: string
+          justification?: string | null
+          occurrence_id: string
+          performed_by?: string | null
+          performed_role?: string | null
+          to_state: string
+        }
+        Update: {
+          condominium_id?: string
+          created_at?: string
+          from_state?: string | null
+          id?: string
+          justification?: string | null
+          occurrence_id?: string
+          performed_by?: string | null
+          performed_role?: string | null
+          to_state?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "occurrence_status_history_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrence_status_history_occurrence_id_fkey"
+            columns: ["occurrence_id"]
+            isOneToOne: false
+            referencedRelation: "occurrences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      occurrence_workflow_states: {
+        Row: {
+          base_status: Database["public"]["Enums"]["occurrence_status"]
+          color: string
+          condominium_id: string
+          created_at: string
+          display_order: number
+          id: string
+          is_final: boolean
+          is_initial: boolean
+          key: string
+          label: string
+          updated_at: string
+        }
+        Insert: {
+          base_status: Database["public"]["Enums"]["occurrence_status"]
+          color?: string
+          condominium_id: string
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_final?: boolean
+          is_initial?: boolean
+          key: string
+          label: string
+          updated_at?: string
+        }
+        Update: {
+          base_status?: Database["public"]["Enums"]["occurrence_status"]
+          color?: string
+          condominium_id?: string
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_final?: boolean
+          is_initial?: boolean
+          key?: string
+          label?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "occurrence_workflow_states_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      occurrence_workflow_transitions: {
+        Row: {
+          allowed_roles: string[]
+          condominium_id: string
+          created_at: string
+          display_order: number
+          from_state: string
+          id: string
+          label: string
+          required_fields: string[]
+          to_state: string
+        }
+        Insert: {
+          allowed_roles?: string[]
+          condominium_id: string
+          created_at?: string
+          display_order?: number
+          from_state: string
+          id?: string
+          label: string
+          required_fields?: string[]
+          to_state: string
+        }
+        Update: {
+          allowed_roles?: string[]
+          condominium_id?: string
+          created_at?: string
+          display_order?: number
+          from_state?: string
+          id?: string
+          label?: string
+          required_fields?: string[]
+          to_state?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "occurrence_workflow_transitions_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      occurrences: {
+        Row: {
+          apartment_id: string | null
+          block_id: string | null
+          civil_code_article: string | null
+          condominium_id: string
+          convention_article: string | null
+          created_at: string
+          description: string
+          id: string
+          internal_rules_article: string | null
+          legal_basis: string | null
+          location: string | null
+          occurred_at: string
+          registered_by: string
+          resident_id: string | null
+          status: Database["public"]["Enums"]["occurrence_status"]
+          title: string
+          type: Database["public"]["Enums"]["occurrence_type"]
+          updated_at: string
+          vehicle_id: string | null
+          workflow_state: string | null
+        }
+        Insert: {
+          apartment_id?: string | null
+          block_id?: string | null
+          civil_code_article?: string | null
+          condominium_id: string
+          convention_article?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          internal_rules_article?: string | null
+          legal_basis?: string | null
+          location?: string | null
+          occurred_at: string
+          registered_by: string
+          resident_id?: string | null
+          status?: Database["public"]["Enums"]["occurrence_status"]
+          title: string
+          type: Database["public"]["Enums"]["occurrence_type"]
+          updated_at?: string
+          vehicle_id?: string | null
+          workflow_state?: string | null
+        }
+        Update: {
+          apartment_id?: string | null
+          block_id?: string | null
+          civil_code_article?: string | null
+          condominium_id?: string
+          convention_article?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          internal_rules_article?: string | null
+          legal_basis?: string | null
+          location?: string | null
+          occurred_at?: string
+          registered_by?: string
+          resident_id?: string | null
+          status?: Database["public"]["Enums"]["occurrence_status"]
+          title?: string
+          type?: Database["public"]["Enums"]["occurrence_type"]
+          updated_at?: string
+          vehicle_id?: string | null
+          workflow_state?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "occurrences_apartment_id_fkey"
+            columns: ["apartment_id"]
+            isOneToOne: false
+            referencedRelation: "apartments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrences_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrences_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrences_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "occurrences_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invoices: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          due_date: string
+          id: string
+          organization_id: string
+          paid_at: string | null
+          payment_method: string | null
+          payment_reference: string | null
+          period_end: string
+          period_start: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          due_date: string
+          id?: string
+          organization_id: string
+          paid_at?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          period_end: string
+          period_start: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          due_date?: string
+          id?: string
+          organization_id?: string
+          paid_at?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          period_end?: string
+          period_start?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invoices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          permissions: string[]
+          role: Database["public"]["Enums"]["organization_member_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          permissions?: string[]
+          role?: Database["public"]["Enums"]["organization_member_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          permissions?: string[]
+          role?: Database["public"]["Enums"]["organization_member_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          cnpj: string | null
+          consolidated_billing: boolean
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          owner_id: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          cnpj?: string | null
+          consolidated_billing?: boolean
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          owner_id: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          cnpj?: string | null
+          consolidated_billing?: boolean
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          owner_id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      package_inventory_audit_items: {
+        Row: {
+          audit_id: string
+          created_at: string
+          expected_location_id: string | null
+          found_location_id: string | null
+          id: string
+          package_id: string
+          result: string
+        }
+        Insert: {
+          audit_id: string
+          created_at?: string
+          expected_location_id?: string | null
+          found_location_id?: string | null
+          id?: string
+          package_id: string
+          result: string
+        }
+        Update: {
+          audit_id?: string
+          created_at?: string
+          expected_location_id?: string | null
+          found_location_id?: string | null
+          id?: string
+          package_id?: string
+          result?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "package_inventory_audit_items_audit_id_fkey"
+            columns: ["audit_id"]
+            isOneToOne: false
+            referencedRelation: "package_inventory_audits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "package_inventory_audit_items_expected_location_id_fkey"
+            columns: ["expected_location_id"]
+            isOneToOne: false
+            referencedRelation: "package_storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "package_inventory_audit_items_found_location_id_fkey"
+            columns: ["found_location_id"]
+            isOneToOne: false
+            referencedRelation: "package_storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "package_inventory_audit_items_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      package_inventory_audits: {
+        Row: {
+          condominium_id: string
+          confirmed_count: number
+          created_at: string
+          finished_at: string
+          id: string
+          missing_count: number
+          performed_by: string
+          performed_by_name: string | null
+          relocated_count: number
+          started_at: string
+          total_packages: number
+        }
+        Insert: {
+          condominium_id: string
+          confirmed_count?: number
+          created_at?: string
+          finished_at?: string
+          id?: string
+          missing_count?: number
+          performed_by: string
+          performed_by_name?: string | null
+          relocated_count?: number
+          started_at?: string
+          total_packages?: number
+        }
+        Update: {
+          condominium_id?: string
+          confirmed_count?: number
+          created_at?: string
+          finished_at?: string
+          id?: string
+          missing_count?: number
+          performed_by?: string
+          performed_by_name?: string | null
+          relocated_count?: number
+          started_at?: string
+          total_packages?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "package_inventory_audits_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      package_storage_locations: {
+        Row: {
+          condominium_id: string
+          created_at: string
+          description: string | null
+          display_order: number
+          id: string
+          is_active: boolean
+          location_type: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          condominium_id: string
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          is_active?: boolean
+          location_type?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          condominium_id?: string
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          is_active?: boolean
+          location_type?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "package_storage_locations_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      package_types: {
+        Row: {
+          created_at: string
+          description: string | null
+          display_order: number
+          icon: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          icon?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
         Update: {
           created_at?: string
           description?: string | null
@@ -1282,11 +2360,19 @@ export type Database = {
       packages: {
         Row: {
           apartment_id: string
+          authorized_by_resident_id: string | null
+          authorized_pickup_at: string | null
+          authorized_pickup_cpf: string | null
+          authorized_pickup_name: string | null
           block_id: string
+          carrier: string | null
           condominium_id: string
           created_at: string
           description: string | null
+          escalated_to_sindico_at: string | null
+          escalated_to_unit_at: string | null
           id: string
+          last_reminder_at: string | null
           notification_count: number | null
           notification_sent: boolean | null
           notification_sent_at: string | null
@@ -1296,20 +2382,36 @@ export type Database = {
           picked_up_by: string | null
           picked_up_by_name: string | null
           pickup_code: string
+          pickup_intent: string | null
+          pickup_intent_at: string | null
+          pickup_photo_path: string | null
+          pickup_receipt_sent_at: string | null
+          pickup_signature_path: string | null
           received_at: string
           received_by: string
           received_by_name: string | null
+          reminder_count: number
           resident_id: string | null
+          return_candidate_at: string | null
           status: Database["public"]["Enums"]["package_status"]
+          storage_location_id: string | null
           tracking_code: string | null
         }
         Insert: {
           apartment_id: string
+          authorized_by_resident_id?: string | null
+          authorized_pickup_at?: string | null
+          authorized_pickup_cpf?: string | null
+          authorized_pickup_name?: string | null
           block_id: string
+          carrier?: string | null
           condominium_id: string
           created_at?: string
           description?: string | null
+          escalated_to_sindico_at?: string | null
+          escalated_to_unit_at?: string | null
           id?: string
+          last_reminder_at?: string | null
           notification_count?: number | null
           notification_sent?: boolean | null
           notification_sent_at?: string | null
@@ -1319,20 +2421,36 @@ export type Database = {
           picked_up_by?: string | null
           picked_up_by_name?: string | null
           pickup_code: string
+          pickup_intent?: string | null
+          pickup_intent_at?: string | null
+          pickup_photo_path?: string | null
+          pickup_receipt_sent_at?: string | null
+          pickup_signature_path?: string | null
           received_at?: string
           received_by: string
           received_by_name?: string | null
+          reminder_count?: number
           resident_id?: string | null
+          return_candidate_at?: string | null
           status?: Database["public"]["Enums"]["package_status"]
+          storage_location_id?: string | null
           tracking_code?: string | null
         }
         Update: {
           apartment_id?: string
+          authorized_by_resident_id?: string | null
+          authorized_pickup_at?: string | null
+          authorized_pickup_cpf?: string | null
+          authorized_pickup_name?: string | null
           block_id?: string
+          carrier?: string | null
           condominium_id?: string
           created_at?: string
           description?: string | null
+          escalated_to_sindico_at?: string | null
+          escalated_to_unit_at?: string | null
           id?: string
+          last_reminder_at?: string | null
           notification_count?: number | null
           notification_sent?: boolean | null
           notification_sent_at?: string | null
@@ -1342,11 +2460,19 @@ export type Database = {
           picked_up_by?: string | null
           picked_up_by_name?: string | null
           pickup_code?: string
+          pickup_intent?: string | null
+          pickup_intent_at?: string | null
+          pickup_photo_path?: string | null
+          pickup_receipt_sent_at?: string | null
+          pickup_signature_path?: string | null
           received_at?: string
           received_by?: string
           received_by_name?: string | null
+          reminder_count?: number
           resident_id?: string | null
+          return_candidate_at?: string | null
           status?: Database["public"]["Enums"]["package_status"]
+          storage_location_id?: string | null
           tracking_code?: string | null
         }
         Relationships: [
@@ -1357,6 +2483,13 @@ export type Database = {
             referencedRelation: "apartments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "packages_authorized_by_resident_id_fkey"
+            columns: ["authorized_by_resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "packages_block_id_fkey"
             columns: ["block_id"]
@@ -1385,6 +2518,112 @@ export type Database = {
             referencedRelation: "residents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "packages_storage_location_id_fkey"
+            columns: ["storage_location_id"]
+            isOneToOne: false
+            referencedRelation: "package_storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parking_spots: {
+        Row: {
+          apartment_id: string | null
+          code: string
+          condominium_id: string
+          created_at: string
+          id: string
+          is_covered: boolean
+          location: string | null
+          notes: string | null
+          spot_type: string
+          updated_at: string
+        }
+        Insert: {
+          apartment_id?: string | null
+          code: string
+          condominium_id: string
+          created_at?: string
+          id?: string
+          is_covered?: boolean
+          location?: string | null
+          notes?: string | null
+          spot_type?: string
+          updated_at?: string
+        }
+        Update: {
+          apartment_id?: string | null
+          code?: string
+          condominium_id?: string
+          created_at?: string
+          id?: string
+          is_covered?: boolean
+          location?: string | null
+          notes?: string | null
+          spot_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parking_spots_apartment_id_fkey"
+            columns: ["apartment_id"]
+            isOneToOne: false
+            referencedRelation: "apartments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parking_spots_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      party_hall_blackout_dates: {
+        Row: {
+          blackout_date: string
+          condominium_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          party_hall_setting_id: string
+          reason: string | null
+        }
+        Insert: {
+          blackout_date: string
+          condominium_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          party_hall_setting_id: string
+          reason?: string | null
+        }
+        Update: {
+          blackout_date?: string
+          condominium_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          party_hall_setting_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "party_hall_blackout_dates_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_blackout_dates_party_hall_setting_id_fkey"
+            columns: ["party_hall_setting_id"]
+            isOneToOne: false
+            referencedRelation: "party_hall_settings"
+            referencedColumns: ["id"]
+          },
         ]
       }
       party_hall_bookings: {
@@ -1392,13 +2631,28 @@ export type Database = {
           booking_date: string
           condominium_id: string
           created_at: string
+          deposit_amount: number
+          deposit_decided_at: string | null
+          deposit_decided_by: string | null
+          deposit_notes: string | null
+          deposit_retained_amount: number
+          deposit_status: string
           end_time: string
+          fee_amount: number
           guest_count: number | null
+          guest_list_path: string | null
           id: string
           notification_sent_at: string | null
           observations: string | null
+          paid_at: string | null
           party_hall_setting_id: string
+          payment_method: string | null
+          payment_reference: string | null
+          payment_status: string
+          rejection_reason: string | null
           resident_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
           start_time: string
           status: string
           updated_at: string
@@ -1407,13 +2661,28 @@ export type Database = {
           booking_date: string
           condominium_id: string
           created_at?: string
+          deposit_amount?: number
+          deposit_decided_at?: string | null
+          deposit_decided_by?: string | null
+          deposit_notes?: string | null
+          deposit_retained_amount?: number
+          deposit_status?: string
           end_time: string
+          fee_amount?: number
           guest_count?: number | null
+          guest_list_path?: string | null
           id?: string
           notification_sent_at?: string | null
           observations?: string | null
+          paid_at?: string | null
           party_hall_setting_id: string
+          payment_method?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          rejection_reason?: string | null
           resident_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           start_time: string
           status?: string
           updated_at?: string
@@ -1422,13 +2691,28 @@ export type Database = {
           booking_date?: string
           condominium_id?: string
           created_at?: string
+          deposit_amount?: number
+          deposit_decided_at?: string | null
+          deposit_decided_by?: string | null
+          deposit_notes?: string | null
+          deposit_retained_amount?: number
+          deposit_status?: string
           end_time?: string
+          fee_amount?: number
           guest_count?: number | null
+          guest_list_path?: string | null
           id?: string
           notification_sent_at?: string | null
           observations?: string | null
+          paid_at?: string | null
           party_hall_setting_id?: string
+          payment_method?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          rejection_reason?: string | null
           resident_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           start_time?: string
           status?: string
           updated_at?: string
@@ -1507,6 +2791,7 @@ export type Database = {
           id: string
           is_active: boolean
           item_name: string
+          party_hall_setting_id: string | null
           updated_at: string
         }
         Insert: {
@@ -1517,6 +2802,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           item_name: string
+          party_hall_setting_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -1527,6 +2813,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           item_name?: string
+          party_hall_setting_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -1537,6 +2824,13 @@ export type Database = {
             referencedRelation: "condominiums"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "party_hall_checklist_templates_party_hall_setting_id_fkey"
+            columns: ["party_hall_setting_id"]
+            isOneToOne: false
+            referencedRelation: "party_hall_settings"
+            referencedColumns: ["id"]
+          },
         ]
       }
       party_hall_checklists: {
@@ -1580,6 +2874,57 @@ export type Database = {
           },
         ]
       }
+      party_hall_guests: {
+        Row: {
+          booking_id: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          condominium_id: string
+          created_at: string
+          created_by: string | null
+          guest_document: string | null
+          guest_name: string
+          id: string
+        }
+        Insert: {
+          booking_id: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          condominium_id: string
+          created_at?: string
+          created_by?: string | null
+          guest_document?: string | null
+          guest_name: string
+          id?: string
+        }
+        Update: {
+          booking_id?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          condominium_id?: string
+          created_at?: string
+          created_by?: string | null
+          guest_document?: string | null
+          guest_name?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "party_hall_guests_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "party_hall_bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_guests_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       party_hall_notifications: {
         Row: {
           booking_id: string
@@ -1647,48 +2992,148 @@ export type Database = {
           },
         ]
       }
+      party_hall_payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          condominium_id: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          paid_at: string | null
+          provider: string
+          provider_payment_id: string
+          qr_code: string | null
+          qr_code_base64: string | null
+          resident_id: string | null
+          status: string
+          ticket_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          condominium_id: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_payment_id: string
+          qr_code?: string | null
+          qr_code_base64?: string | null
+          resident_id?: string | null
+          status?: string
+          ticket_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          condominium_id?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_payment_id?: string
+          qr_code?: string | null
+          qr_code_base64?: string | null
+          resident_id?: string | null
+          status?: string
+          ticket_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "party_hall_payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "party_hall_bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_payments_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_payments_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       party_hall_settings: {
         Row: {
           advance_days_required: number | null
+          area_type: string
+          booking_mode: string
           check_in_time: string | null
           check_out_time: string | null
           condominium_id: string
+          cooldown_days: number
           created_at: string
+          deposit_amount: number
           id: string
           is_active: boolean
+          max_bookings_per_unit_month: number | null
           max_guests: number | null
           name: string
           rental_fee: number | null
           rules: string | null
+          slot_duration_minutes: number
           updated_at: string
+          waitlist_claim_hours: number
         }
         Insert: {
           advance_days_required?: number | null
+          area_type?: string
+          booking_mode?: string
           check_in_time?: string | null
           check_out_time?: string | null
           condominium_id: string
+          cooldown_days?: number
           created_at?: string
+          deposit_amount?: number
           id?: string
           is_active?: boolean
+          max_bookings_per_unit_month?: number | null
           max_guests?: number | null
           name?: string
           rental_fee?: number | null
           rules?: string | null
+          slot_duration_minutes?: number
           updated_at?: string
+          waitlist_claim_hours?: number
         }
         Update: {
           advance_days_required?: number | null
+          area_type?: string
+          booking_mode?: string
           check_in_time?: string | null
           check_out_time?: string | null
           condominium_id?: string
+          cooldown_days?: number
           created_at?: string
+          deposit_amount?: number
           id?: string
           is_active?: boolean
+          max_bookings_per_unit_month?: number | null
           max_guests?: number | null
           name?: string
           rental_fee?: number | null
           rules?: string | null
+          slot_duration_minutes?: number
           updated_at?: string
+          waitlist_claim_hours?: number
         }
         Relationships: [
           {
@@ -1700,6 +3145,83 @@ export type Database = {
           },
         ]
       }
+      party_hall_waitlist: {
+        Row: {
+          booking_date: string
+          booking_id: string | null
+          condominium_id: string
+          created_at: string
+          end_time: string
+          id: string
+          offer_expires_at: string | null
+          offer_notified_at: string | null
+          offered_at: string | null
+          party_hall_setting_id: string
+          resident_id: string
+          start_time: string
+          status: string
+        }
+        Insert: {
+          booking_date: string
+          booking_id?: string | null
+          condominium_id: string
+          created_at?: string
+          end_time: string
+          id?: string
+          offer_expires_at?: string | null
+          offer_notified_at?: string | null
+          offered_at?: string | null
+          party_hall_setting_id: string
+          resident_id: string
+          start_time: string
+          status?: string
+        }
+        Update: {
+          booking_date?: string
+          booking_id?: string | null
+          condominium_id?: string
+          created_at?: string
+          end_time?: string
+          id?: string
+          offer_expires_at?: string | null
+          offer_notified_at?: string | null
+          offered_at?: string | null
+          party_hall_setting_id?: string
+          resident_id?: string
+          start_time?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "party_hall_waitlist_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "party_hall_bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_waitlist_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_waitlist_party_hall_setting_id_fkey"
+            columns: ["party_hall_setting_id"]
+            isOneToOne: false
+            referencedRelation: "party_hall_settings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hall_waitlist_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       password_recovery_attempts: {
         Row: {
           attempted_at: string
@@ -2243,69 +3765,324 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "subscriptions_condominium_id_fkey"
+            foreignKeyName: "subscriptions_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: true
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_condominiums: {
+        Row: {
+          condominium_id: string
+          created_at: string | null
+          id: string
+          invited_by: string | null
+          manager_role: Database["public"]["Enums"]["condominium_manager_role"] | null
+          permissions: string[]
+          sindico_role_granted: boolean
+          user_id: string
+        }
+        Insert: {
+          condominium_id: string
+          created_at?: string | null
+          id?: string
+          invited_by?: string | null
+          manager_role?: Database["public"]["Enums"]["condominium_manager_role"] | null
+          permissions?: string[]
+          sindico_role_granted?: boolean
+          user_id: string
+        }
+        Update: {
+          condominium_id?: string
+          created_at?: string | null
+          id?: string
+          invited_by?: string | null
+          manager_role?: Database["public"]["Enums"]["condominium_manager_role"] | null
+          permissions?: string[]
+          sindico_role_granted?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_condominiums_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vehicles: {
+        Row: {
+          apartment_id: string
+          color: string | null
+          condominium_id: string
+          created_at: string
+          id: string
+          model: string | null
+          notes: string | null
+          parking_spot_id: string | null
+          plate: string
+          resident_id: string | null
+          updated_at: string
+          vehicle_type: string
+        }
+        Insert: {
+          apartment_id: string
+          color?: string | null
+          condominium_id: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          notes?: string | null
+          parking_spot_id?: string | null
+          plate: string
+          resident_id?: string | null
+          updated_at?: string
+          vehicle_type?: string
+        }
+        Update: {
+          apartment_id?: string
+          color?: string | null
+          condominium_id?: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          notes?: string | null
+          parking_spot_id?: string | null
+          plate?: string
+          resident_id?: string | null
+          updated_at?: string
+          vehicle_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_apartment_id_fkey"
+            columns: ["apartment_id"]
+            isOneToOne: false
+            referencedRelation: "apartments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicles_condominium_id_fkey"
             columns: ["condominium_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "condominiums"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "vehicles_parking_spot_id_fkey"
+            columns: ["parking_spot_id"]
+            isOneToOne: false
+            referencedRelation: "parking_spots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicles_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      user_condominiums: {
+      visitor_authorizations: {
         Row: {
+          apartment_id: string
+          company: string | null
           condominium_id: string
-          created_at: string | null
+          created_at: string
           id: string
-          user_id: string
+          notes: string | null
+          resident_id: string | null
+          status: string
+          updated_at: string
+          valid_from: string
+          valid_until: string
+          vehicle_plate: string | null
+          visitor_document: string | null
+          visitor_name: string
+          visitor_type: string
         }
         Insert: {
+          apartment_id: string
+          company?: string | null
           condominium_id: string
-          created_at?: string | null
+          created_at?: string
           id?: string
-          user_id: string
+          notes?: string | null
+          resident_id?: string | null
+          status?: string
+          updated_at?: string
+          valid_from?: string
+          valid_until?: string
+          vehicle_plate?: string | null
+          visitor_document?: string | null
+          visitor_name: string
+          visitor_type?: string
         }
         Update: {
+          apartment_id?: string
+          company?: string | null
           condominium_id?: string
-          created_at?: string | null
+          created_at?: string
           id?: string
-          user_id?: string
+          notes?: string | null
+          resident_id?: string | null
+          status?: string
+          updated_at?: string
+          valid_from?: string
+          valid_until?: string
+          vehicle_plate?: string | null
+          visitor_document?: string | null
+          visitor_name?: string
+          visitor_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_condominiums_condominium_id_fkey"
+            foreignKeyName: "visitor_authorizations_apartment_id_fkey"
+            columns: ["apartment_id"]
+            isOneToOne: false
+            referencedRelation: "apartments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_authorizations_condominium_id_fkey"
             columns: ["condominium_id"]
             isOneToOne: false
             referencedRelation: "condominiums"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "visitor_authorizations_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      user_roles: {
+      visitor_entries: {
         Row: {
+          apartment_id: string
+          authorization_id: string | null
+          checked_in_at: string
+          checked_in_by: string
+          checked_out_at: string | null
+          checked_out_by: string | null
+          company: string | null
+          condominium_id: string
           created_at: string
+          guest_invitation_id: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          notes: string | null
+          photo_path: string | null
+          resident_notified_at: string | null
+          vehicle_plate: string | null
+          visitor_document: string | null
+          visitor_name: string
+          visitor_type: string
         }
         Insert: {
+          apartment_id: string
+          authorization_id?: string | null
+          checked_in_at?: string
+          checked_in_by: string
+          checked_out_at?: string | null
+          checked_out_by?: string | null
+          company?: string | null
+          condominium_id: string
           created_at?: string
+          guest_invitation_id?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          notes?: string | null
+          photo_path?: string | null
+          resident_notified_at?: string | null
+          vehicle_plate?: string | null
+          visitor_document?: string | null
+          visitor_name: string
+          visitor_type?: string
         }
         Update: {
+          apartment_id?: string
+          authorization_id?: string | null
+          checked_in_at?: string
+          checked_in_by?: string
+          checked_out_at?: string | null
+          checked_out_by?: string | null
+          company?: string | null
+          condominium_id?: string
           created_at?: string
+          guest_invitation_id?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          notes?: string | null
+          photo_path?: string | null
+          resident_notified_at?: string | null
+          vehicle_plate?: string | null
+          visitor_document?: string | null
+          visitor_name?: string
+          visitor_type?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "visitor_entries_apartment_id_fkey"
+            columns: ["apartment_id"]
+            isOneToOne: false
+            referencedRelation: "apartments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_entries_authorization_id_fkey"
+            columns: ["authorization_id"]
+            isOneToOne: false
+            referencedRelation: "visitor_authorizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_entries_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_entries_guest_invitation_id_fkey"
+            columns: ["guest_invitation_id"]
+            isOneToOne: false
+            referencedRelation: "guest_invitations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       webhook_raw_logs: {
         Row: {
           bsuids_captured: number | null
           created_at: string
           id: string
+          messages_count: number | null
           notifications_updated: number | null
           payload: Json
           source: string
@@ -2315,6 +4092,7 @@ export type Database = {
           bsuids_captured?: number | null
           created_at?: string
           id?: string
+          messages_count?: number | null
           notifications_updated?: number | null
           payload: Json
           source?: string
@@ -2324,6 +4102,7 @@ export type Database = {
           bsuids_captured?: number | null
           created_at?: string
           id?: string
+          messages_count?: number | null
           notifications_updated?: number | null
           payload?: Json
           source?: string
@@ -2373,6 +4152,148 @@ export type Database = {
         }
         Relationships: []
       }
+      whatsapp_conversations: {
+        Row: {
+          bsuid: string | null
+          condominium_id: string | null
+          contact_name: string | null
+          created_at: string
+          id: string
+          last_inbound_at: string | null
+          last_message_at: string
+          last_message_preview: string | null
+          phone: string
+          resident_id: string | null
+          unread_count: number
+          updated_at: string
+        }
+        Insert: {
+          bsuid?: string | null
+          condominium_id?: string | null
+          contact_name?: string | null
+          created_at?: string
+          id?: string
+          last_inbound_at?: string | null
+          last_message_at?: string
+          last_message_preview?: string | null
+          phone: string
+          resident_id?: string | null
+          unread_count?: number
+          updated_at?: string
+        }
+        Update: {
+          bsuid?: string | null
+          condominium_id?: string | null
+          contact_name?: string | null
+          created_at?: string
+          id?: string
+          last_inbound_at?: string | null
+          last_message_at?: string
+          last_message_preview?: string | null
+          phone?: string
+          resident_id?: string | null
+          unread_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_conversations_condominium_id_fkey"
+            columns: ["condominium_id"]
+            isOneToOne: false
+            referencedRelation: "condominiums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_conversations_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      whatsapp_messages: {
+        Row: {
+          button_payload: string | null
+          content: string | null
+          context_message_id: string | null
+          conversation_id: string
+          created_at: string
+          direction: string
+          error_message: string | null
+          id: string
+          media_id: string | null
+          media_mime_type: string | null
+          message_type: string
+          meta_message_id: string | null
+          notification_id: string | null
+          package_id: string | null
+          sent_by: string | null
+          sent_by_name: string | null
+          status: string
+        }
+        Insert: {
+          button_payload?: string | null
+          content?: string | null
+          context_message_id?: string | null
+          conversation_id: string
+          created_at?: string
+          direction: string
+          error_message?: string | null
+          id?: string
+          media_id?: string | null
+          media_mime_type?: string | null
+          message_type?: string
+          meta_message_id?: string | null
+          notification_id?: string | null
+          package_id?: string | null
+          sent_by?: string | null
+          sent_by_name?: string | null
+          status?: string
+        }
+        Update: {
+          button_payload?: string | null
+          content?: string | null
+          context_message_id?: string | null
+          conversation_id?: string
+          created_at?: string
+          direction?: string
+          error_message?: string | null
+          id?: string
+          media_id?: string | null
+          media_mime_type?: string | null
+          message_type?: string
+          meta_message_id?: string | null
+          notification_id?: string | null
+          package_id?: string | null
+          sent_by?: string | null
+          sent_by_name?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_messages_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications_sent"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_messages_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       whatsapp_notification_logs: {
         Row: {
           accepted_at: string | null
@@ -2506,6 +4427,30 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      cancel_own_party_hall_booking: {
+        Args: { p_booking_id: string }
+        Returns: undefined
+      }
+      cast_appeal_vote: {
+        Args: { p_appeal_id: string; p_comment?: string; p_vote: string }
+        Returns: string
+      }
+      check_in_party_hall_guest: {
+        Args: { p_guest_id: string }
+        Returns: string
+      }
+      choose_party_hall_payment_method: {
+        Args: { p_booking_id: string; p_payment_method: string }
+        Returns: undefined
+      }
+      claim_party_hall_waitlist_offer: {
+        Args: {
+          p_entry_id: string
+          p_guest_count?: number
+          p_observations?: string
+        }
+        Returns: string
+      }
       cleanup_old_audit_logs: { Args: never; Returns: number }
       cleanup_old_password_recovery_attempts: {
         Args: never
@@ -2514,11 +4459,26 @@ export type Database = {
       confirm_package_pickup: {
         Args: {
           p_package_id: string
+          p_photo_path?: string
           p_picked_up_by: string
           p_picked_up_by_name: string
+          p_signature_path?: string
         }
         Returns: undefined
       }
+      decide_occurrence: {
+        Args: {
+          p_decision: Database["public"]["Enums"]["occurrence_status"]
+          p_justification: string
+          p_occurrence_id: string
+          p_to_state?: string
+        }
+        Returns: string
+      }
+      file_occurrence_appeal: {
+        Args: { p_content: string; p_occurrence_id: string }
+        Returns: string
+      }
       get_apartment_condominium_id: {
         Args: { _apartment_id: string }
         Returns: string
@@ -2567,6 +4527,54 @@ export type Database = {
           username: string
         }[]
       }
+      get_managed_condominiums: {
+        Args: never
+        Returns: {
+          access_role: string
+          condominium_id: string
+          condominium_name: string
+          organization_id: string
+          permissions: string[]
+        }[]
+      }
+      get_party_hall_availability: {
+        Args: { p_from: string; p_setting_id: string; p_to: string }
+        Returns: {
+          booking_date: string
+          end_time: string
+          start_time: string
+          status: string
+        }[]
+      }
+      get_party_hall_events_today: {
+        Args: { p_condominium_id: string }
+        Returns: {
+          apartment_number: string
+          block_name: string
+          booking_id: string
+          end_time: string
+          guest_checked_in: number
+          guest_total: number
+          max_guests: number
+          resident_name: string
+          space_name: string
+          start_time: string
+          status: string
+        }[]
+      }
+      get_portfolio_summary: {
+        Args: never
+        Returns: {
+          condominium_id: string
+          condominium_name: string
+          open_occurrences: number
+          organization_id: string
+          overdue_invoices: number
+          overdue_maintenance: number
+          pending_invoices: number
+          pending_packages: number
+        }[]
+      }
       get_rls_status: {
         Args: never
         Returns: {
@@ -2579,6 +4587,10 @@ export type Database = {
         Args: { _user_id: string }
         Returns: string[]
       }
+      has_condominium_permission: {
+        Args: { _condominium_id: string; _permission: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -2586,6 +4598,18 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_condominium_manager: {
+        Args: { _condominium_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_council_member: {
+        Args: { _condominium_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_organization_admin: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_owner_of_apartment: {
         Args: { _apartment_id: string; _user_id: string }
         Returns: boolean
@@ -2598,19 +4622,113 @@ export type Database = {
         Args: { _condominium_id: string; _user_id: string }
         Returns: boolean
       }
+      issue_occurrence_document: {
+        Args: { p_occurrence_id: string }
+        Returns: {
+          content_hash: string
+          document_type: string
+          issued_at: string
+          occurrence_status: string
+          verification_code: string
+        }[]
+      }
+      join_party_hall_waitlist: {
+        Args: {
+          p_booking_date: string
+          p_end_time: string
+          p_resident_id: string
+          p_setting_id: string
+          p_start_time: string
+        }
+        Returns: string
+      }
+      leave_party_hall_waitlist: {
+        Args: { p_entry_id: string }
+        Returns: undefined
+      }
+      occurrence_actor_roles: {
+        Args: { _occurrence_id: string; _user_id: string }
+        Returns: string[]
+      }
+      offer_party_hall_waitlist: {
+        Args: { p_setting_id?: string }
+        Returns: number
+      }
+      organization_permissions: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: string[]
+      }
+      party_hall_offer_holder: {
+        Args: {
+          p_booking_date: string
+          p_end_time: string
+          p_setting_id: string
+          p_start_time: string
+        }
+        Returns: string
+      }
+      register_whatsapp_inbound: {
+        Args: {
+          p_bsuid?: string
+          p_conversation_id: string
+          p_preview: string
+          p_received_at: string
+        }
+        Returns: number
+      }
+      request_party_hall_booking: {
+        Args: {
+          p_booking_date: string
+          p_end_time: string
+          p_guest_count?: number
+          p_guest_list_path?: string
+          p_observations?: string
+          p_resident_id: string
+          p_setting_id: string
+          p_start_time: string
+        }
+        Returns: string
+      }
+      revoke_guest_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: undefined
+      }
+      seed_default_occurrence_workflow: {
+        Args: { _condominium_id: string }
+        Returns: undefined
+      }
+      set_condominium_organization: {
+        Args: { p_condominium_id: string; p_organization_id: string }
+        Returns: undefined
+      }
       toggle_cron_job: { Args: { p_jobid: number }; Returns: boolean }
       toggle_cron_job_pause: {
         Args: { p_function_name: string }
         Returns: boolean
       }
+      transition_occurrence: {
+        Args: {
+          p_justification?: string
+          p_occurrence_id: string
+          p_to_state: string
+        }
+        Returns: string
+      }
       user_belongs_to_condominium: {
         Args: { _condominium_id: string; _user_id: string }
         Returns: boolean
       }
     }
     Enums: {
-      app_role: "super_admin" | "sindico" | "morador" | "porteiro" | "zelador"
-      fine_status: "em_aberto" | "pago" | "vencido"
+      app_role:
+        | "super_admin"
+        | "sindico"
+        | "morador"
+        | "porteiro"
+        | "zelador"
+        | "conselheiro"
+      condominium_manager_role: "subsindico" | "administrador"
+      fine_status: "em_aberto" | "pago" | "vencido" | "cancelada"
       maintenance_execution_status: "concluida" | "parcial" | "nao_realizada"
       maintenance_periodicity:
         | "semanal"
@@ -2630,6 +4748,7 @@ export type Database = {
         | "advertido"
         | "multado"
       occurrence_type: "advertencia" | "notificacao" | "multa"
+      organization_member_role: "admin" | "staff"
       package_status: "pendente" | "retirada"
       plan_type: "start" | "essencial" | "profissional" | "enterprise"
     }
@@ -2759,8 +4878,16 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["super_admin", "sindico", "morador", "porteiro", "zelador"],
-      fine_status: ["em_aberto", "pago", "vencido"],
+      app_role: [
+        "super_admin",
+        "sindico",
+        "morador",
+        "porteiro",
+        "zelador",
+        "conselheiro",
+      ],
+      condominium_manager_role: ["subsindico", "administrador"],
+      fine_status: ["em_aberto", "pago", "vencido", "cancelada"],
       maintenance_execution_status: ["concluida", "parcial", "nao_realizada"],
       maintenance_periodicity: [
         "semanal",
@@ -2782,6 +4909,7 @@ export const Constants = {
         "multado",
       ],
       occurrence_type: ["advertencia", "notificacao", "multa"],
+      organization_member_role: ["admin", "staff"],
       package_status: ["pendente", "retirada"],
       plan_type: ["start", "essencial", "profissional", "enterprise"],
     },
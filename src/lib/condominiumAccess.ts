@@ -0,0 +1,111 @@
+/**
+ * Delegated condominium management
+ *
+ * The síndico (`condominiums.owner_id`) holds every permission. Subsíndicos and
+ * administradora staff are linked through `user_condominiums.manager_role` with a
+ * scoped `permissions` list, enforced by RLS via `has_condominium_permission`.
+ * Plan changes, staff and condominium settings stay with the síndico.
+ *
+ * Administradoras group condominiums in an `organizations` portfolio: the owner and
+ * "admin" members hold every permission there, "staff" members their own list.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type CondominiumManagerRole = Database["public"]["Enums"]["condominium_manager_role"];
+export type CondominiumAccessRole = "sindico" | CondominiumManagerRole;
+export type OrganizationMemberRole = Database["public"]["Enums"]["organization_member_role"];
+
+export const CONDOMINIUM_PERMISSIONS = [
+  "occurrences.register",
+  "occurrences.decide",
+  "residents.manage",
+  "packages.manage",
+  "party_hall.manage",
+  "maintenance.manage",
+  "invoices.view",
+  "reports.view",
+] as const;
+
+export type CondominiumPermission = (typeof CONDOMINIUM_PERMISSIONS)[number];
+
+export const CONDOMINIUM_PERMISSION_LABELS: Record<CondominiumPermission, string> = {
+  "occurrences.register": "Registrar e notificar ocorrências",
+  "occurrences.decide": "Decidir ocorrências e aplicar multas",
+  "residents.manage": "Gerenciar blocos, unidades e moradores",
+  "packages.manage": "Gerenciar encomendas e portaria",
+  "party_hall.manage": "Gerenciar salão de festas",
+  "maintenance.manage": "Gerenciar manutenções",
+  "invoices.view": "Visualizar faturas",
+  "reports.view": "Visualizar relatórios",
+};
+
+export const CONDOMINIUM_ACCESS_ROLE_LABELS: Record<CondominiumAccessRole, string> = {
+  sindico: "Síndico",
+  subsindico: "Subsíndico",
+  administrador: "Administradora",
+};
+
+export const DEFAULT_MANAGER_PERMISSIONS: Record<CondominiumManagerRole, CondominiumPermission[]> = {
+  subsindico: [
+    "occurrences.register",
+    "residents.manage",
+    "packages.manage",
+    "party_hall.manage",
+    "maintenance.manage",
+    "reports.view",
+  ],
+  administrador: ["occurrences.register", "residents.manage", "invoices.view", "reports.view"],
+};
+
+export const ORGANIZATION_MEMBER_ROLE_LABELS: Record<OrganizationMemberRole, string> = {
+  admin: "Administrador",
+  staff: "Equipe",
+};
+
+export interface ManagedCondominium {
+  condominium_id: string;
+  condominium_name: string;
+  organization_id: string | null;
+  access_role: CondominiumAccessRole;
+  permissions: CondominiumPermission[];
+}
+
+export const fetchManagedCondominiums = async (): Promise<ManagedCondominium[]> => {
+  const { data, error } = await supabase.rpc("get_managed_condominiums");
+  if (error) throw error;
+  return (data || []) as ManagedCondominium[];
+};
+
+const ACTIVE_CONDOMINIUM_KEY = "active_condominium_id";
+
+/**
+ * Condominium the manager is currently working on (null = all of them). Kept per browser
+ * so staff switch context without signing in again.
+ */
+export const getActiveCondominiumId = () => localStorage.getItem(ACTIVE_CONDOMINIUM_KEY);
+
+export const setActiveCondominiumId = (condominiumId: string | null) => {
+  if (condominiumId) {
+    localStorage.setItem(ACTIVE_CONDOMINIUM_KEY, condominiumId);
+  } else {
+    localStorage.removeItem(ACTIVE_CONDOMINIUM_KEY);
+  }
+};
+
+/**
+ * Ids of the condominiums the logged user manages, optionally narrowed to a permission
+ * and to the active condominium. Replaces the `owner_id = user.id` filter on síndico pages.
+ */
+export const fetchManagedCondominiumIds = async (permission?: CondominiumPermission) => {
+  const managed = await fetchManagedCondominiums();
+  const activeId = getActiveCondominiumId();
+  const scoped = activeId && managed.some((m) => m.condominium_id === activeId)
+    ? managed.filter((m) => m.condominium_id === activeId)
+    : managed;
+
+  return scoped
+    .filter((m) => !permission || m.permissions.includes(permission))
+    .map((m) => m.condominium_id);
+};
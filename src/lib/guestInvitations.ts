@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Mirrors supabase/functions/_shared/guest-invitation.ts
+export type GuestInvitationStatus = "valido" | "nao_iniciado" | "expirado" | "revogado" | "esgotado";
+
+export const GUEST_INVITATION_STATUS_LABELS: Record<GuestInvitationStatus, string> = {
+  valido: "Válido",
+  nao_iniciado: "Agendado",
+  expirado: "Expirado",
+  revogado: "Cancelado",
+  esgotado: "Utilizado",
+};
+
+export function getGuestInvitationStatus(
+  invitation: { status: string; valid_from: string; valid_until: string; max_uses: number; uses_count: number },
+  now = new Date()
+): GuestInvitationStatus {
+  if (invitation.status === "revogado") return "revogado";
+  if (invitation.uses_count >= invitation.max_uses) return "esgotado";
+  if (now < new Date(invitation.valid_from)) return "nao_iniciado";
+  if (now > new Date(invitation.valid_until)) return "expirado";
+  return "valido";
+}
+
+/** Public link encoded in the QR code and shared with the guest */
+export function buildGuestInvitationUrl(token: string): string {
+  return `${window.location.origin}/convite/${token}`;
+}
+
+export function buildGuestInvitationWhatsAppUrl(invitation: {
+  token: string;
+  guest_name: string;
+  valid_from: string;
+  valid_until: string;
+}, condominiumName: string): string {
+  const period = `${format(new Date(invitation.valid_from), "dd/MM 'às' HH:mm", { locale: ptBR })} até ${format(
+    new Date(invitation.valid_until),
+    "dd/MM 'às' HH:mm",
+    { locale: ptBR }
+  )}`;
+  const message =
+    `Olá, ${invitation.guest_name.split(" ")[0]}! Você foi convidado(a) para o ${condominiumName}.\n` +
+    `Válido de ${period}.\n` +
+    `Apresente o QR Code deste link na portaria: ${buildGuestInvitationUrl(invitation.token)}`;
+  return `https://wa.me/?text=${encodeURIComponent(message)}`;
+}
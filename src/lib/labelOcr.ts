@@ -0,0 +1,158 @@
+/**
+ * Shipping label OCR: reads the captured package photo on the device and
+ * suggests the destination unit from the "Bloco/Apto" text and recipient name.
+ */
+
+export interface LabelHints {
+  text: string;
+  block: string | null;
+  apartment: string | null;
+  recipientName: string | null;
+}
+
+export interface UnitCandidate {
+  apartmentId: string;
+  apartmentNumber: string;
+  blockId: string;
+  blockName: string;
+  blockShortCode: string | null;
+  residentNames: string[];
+}
+
+export interface UnitSuggestion {
+  unit: UnitCandidate;
+  /** 0 to 1 */
+  confidence: number;
+  matchedResident: string | null;
+  reasons: string[];
+}
+
+/**
+ * Runs Tesseract (Portuguese) over the image. The library is loaded on demand
+ * so it doesn't weigh on the initial bundle.
+ */
+export async function recognizeLabelText(
+  image: string,
+  onProgress?: (progress: number) => void
+): Promise<string> {
+  const { createWorker } = await import("tesseract.js");
+  const worker = await createWorker("por", undefined, {
+    logger: (message) => {
+      if (message.status === "recognizing text") onProgress?.(message.progress);
+    },
+  });
+
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase();
+
+const BLOCK_PATTERN = /\b(?:BLOCO|BLOC|BL|TORRE|TR)\b\.?\s*[:\-º°]?\s*([A-Z]{1,3}\d{0,2}|\d{1,3})\b/;
+const APARTMENT_PATTERN = /\b(?:APARTAMENTO|APTO|APT|AP|UNIDADE|UN|CASA)\b\.?\s*[:\-º°]?\s*(\d{1,5}[A-Z]?)\b/;
+const RECIPIENT_PATTERN = /\b(?:DESTINATARIO|PARA|NOME|RECEBEDOR)\b\s*[:-]?\s*([A-Z][A-Z .']{4,60})/;
+
+/** Extracts block, apartment and recipient name from the raw OCR text. */
+export function extractLabelHints(rawText: string): LabelHints {
+  const text = normalize(rawText);
+  const block = text.match(BLOCK_PATTERN)?.[1] ?? null;
+  const apartment = text.match(APARTMENT_PATTERN)?.[1] ?? null;
+  const recipient = text.match(RECIPIENT_PATTERN)?.[1]?.trim() ?? null;
+
+  return {
+    text: rawText,
+    block,
+    apartment,
+    recipientName: recipient && recipient.split(/\s+/).length >= 2 ? recipient : null,
+  };
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, "").replace(/^0+/, "");
+
+function blockMatches(hint: string, unit: UnitCandidate): boolean {
+  const name = normalize(unit.blockName);
+  const shortCode = unit.blockShortCode ? normalize(unit.blockShortCode) : "";
+  if (shortCode === hint || name === hint) return true;
+  if (name.replace(/^(BLOCO|TORRE)\s*/, "") === hint) return true;
+  const hintDigits = digitsOf(hint);
+  return !!hintDigits && hintDigits === digitsOf(name);
+}
+
+/** Share of the resident's name tokens (2+ letters) found in the label text. */
+function nameScore(residentName: string, labelWords: Set<string>): number {
+  const tokens = normalize(residentName)
+    .split(/\s+/)
+    .filter((t) => t.length >= 2 && !["DA", "DE", "DO", "DAS", "DOS"].includes(t));
+  if (tokens.length === 0) return 0;
+  const found = tokens.filter((t) => labelWords.has(t)).length;
+  // The first name alone is weak evidence
+  return found >= 2 ? found / tokens.length : found === 1 ? 0.3 : 0;
+}
+
+/**
+ * Scores every unit of the condominium against the label hints and returns the
+ * most likely one. Apartment number, block and a resident's name each add to
+ * the confidence; a block alone is not enough to suggest a unit, and a tie with
+ * another unit halves the confidence.
+ */
+export function suggestUnitFromLabel(hints: LabelHints, units: UnitCandidate[]): UnitSuggestion | null {
+  const labelWords = new Set(normalize(hints.text).split(/[^A-Z]+/).filter(Boolean));
+  const apartmentHint = hints.apartment ? digitsOf(hints.apartment) : null;
+
+  let best: UnitSuggestion | null = null;
+  let runnerUpScore = 0;
+
+  for (const unit of units) {
+    let score = 0;
+    const reasons: string[] = [];
+
+    const apartmentMatched = !!apartmentHint && digitsOf(unit.apartmentNumber) === apartmentHint;
+    if (apartmentMatched) {
+      score += 0.4;
+      reasons.push(`Apto ${hints.apartment}`);
+    }
+
+    if (hints.block && blockMatches(hints.block, unit)) {
+      score += 0.25;
+      reasons.push(`Bloco ${hints.block}`);
+    }
+
+    let matchedResident: string | null = null;
+    let bestNameScore = 0;
+    for (const name of unit.residentNames) {
+      const s = nameScore(name, labelWords);
+      if (s > bestNameScore) {
+        bestNameScore = s;
+        matchedResident = name;
+      }
+    }
+    if (matchedResident) {
+      score += 0.35 * bestNameScore;
+      reasons.push(`Morador ${matchedResident}`);
+    }
+
+    if (!apartmentMatched && !matchedResident) continue;
+
+    if (!best || score > best.confidence) {
+      runnerUpScore = best?.confidence ?? 0;
+      best = { unit, confidence: Math.min(score, 1), matchedResident, reasons };
+    } else if (score > runnerUpScore) {
+      runnerUpScore = score;
+    }
+  }
+
+  if (best && runnerUpScore >= best.confidence) {
+    best.confidence /= 2;
+    best.reasons.push("outras unidades compatíveis");
+  }
+
+  return best;
+}
@@ -0,0 +1,65 @@
+/**
+ * Second-instance appeals (recursos) judged by the condominium council.
+ * Filing and voting are validated server-side by `file_occurrence_appeal` / `cast_appeal_vote`.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type AppealStatus = "em_votacao" | "provido" | "improvido";
+export type AppealVote = "provido" | "improvido";
+
+export const APPEAL_STATUS_LABELS: Record<string, string> = {
+  em_votacao: "Em votação",
+  provido: "Recurso provido",
+  improvido: "Recurso não provido",
+};
+
+export const APPEAL_STATUS_STYLES: Record<string, string> = {
+  em_votacao: "bg-amber-500/10 text-amber-600",
+  provido: "bg-emerald-500/10 text-emerald-600",
+  improvido: "bg-red-500/10 text-red-600",
+};
+
+export const APPEAL_VOTE_LABELS: Record<AppealVote, string> = {
+  provido: "Dar provimento",
+  improvido: "Manter decisão",
+};
+
+export function getAppealDeadline(decidedAt: string, appealWindowDays: number) {
+  const deadline = new Date(decidedAt);
+  deadline.setDate(deadline.getDate() + appealWindowDays);
+  return deadline;
+}
+
+/**
+ * Casts the current user's council vote. When the vote completes the quorum the appeal is
+ * judged and the resident is notified of the resulting decision.
+ */
+export async function castAppealVote(appealId: string, vote: AppealVote, comment?: string) {
+  const { data: outcome, error } = await supabase.rpc("cast_appeal_vote", {
+    p_appeal_id: appealId,
+    p_vote: vote,
+    p_comment: comment || undefined,
+  });
+
+  if (error) throw error;
+
+  if (outcome === "provido" || outcome === "improvido") {
+    const { data: appeal } = await supabase
+      .from("occurrence_appeals")
+      .select("occurrence_id")
+      .eq("id", appealId)
+      .single();
+
+    if (appeal) {
+      // Fire and forget - the judgment is already recorded
+      supabase.functions.invoke("notify-resident-decision", {
+        body: { occurrence_id: appeal.occurrence_id },
+      }).catch((err) => {
+        console.error("Error notifying resident (non-blocking):", err);
+      });
+    }
+  }
+
+  return outcome as AppealStatus;
+}
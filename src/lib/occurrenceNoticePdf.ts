@@ -0,0 +1,438 @@
+import jsPDF from "jspdf";
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCNPJ, formatCEP } from "@/lib/utils";
+
+/**
+ * Formal occurrence notice ("Notificação Extrajudicial" / "Auto de Infração")
+ *
+ * Shared by the síndico and resident occurrence pages. Every generated PDF is
+ * registered by the issue_occurrence_document RPC, which hashes the stored
+ * occurrence content server-side, and the QR code printed on it points to the
+ * public /verificar/:code route.
+ */
+
+export type OccurrenceDocumentType = "notificacao_extrajudicial" | "auto_infracao";
+
+export interface OccurrenceNoticeInput {
+  occurrence: {
+    id: string;
+    condominium_id: string;
+    title: string;
+    description: string;
+    type: string;
+    status: string;
+    occurred_at: string;
+    location: string | null;
+    civil_code_article: string | null;
+    convention_article: string | null;
+    internal_rules_article: string | null;
+    legal_basis: string | null;
+  };
+  condominium: {
+    name: string;
+    cnpj?: string | null;
+    address?: string | null;
+    address_number?: string | null;
+    neighborhood?: string | null;
+    city?: string | null;
+    state?: string | null;
+    zip_code?: string | null;
+    defense_deadline_days?: number | null;
+  };
+  residentName: string | null;
+  blockName: string | null;
+  apartmentNumber: string | null;
+  evidences: { file_url: string; file_type: string; description: string | null; created_at?: string }[];
+  defenses: { content: string; submitted_at: string; deadline: string; resident_name?: string | null }[];
+  decisions: { decision: string; justification: string; decided_at: string }[];
+}
+
+export const DOCUMENT_TYPE_LABELS: Record<OccurrenceDocumentType, string> = {
+  notificacao_extrajudicial: "Notificação Extrajudicial",
+  auto_infracao: "Auto de Infração",
+};
+
+const REF_LABELS: Record<string, string> = {
+  advertencia: "Aplicação de Advertência",
+  notificacao: "Notificação",
+  multa: "Aplicação de Multa",
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  arquivada: "ARQUIVADA",
+  advertido: "ADVERTÊNCIA MANTIDA",
+  multado: "MULTA APLICADA",
+};
+
+const MONTHS = [
+  "janeiro", "fevereiro", "março", "abril", "maio", "junho",
+  "julho", "agosto", "setembro", "outubro", "novembro", "dezembro",
+];
+
+const MARGIN = 20;
+const LINE_HEIGHT = 5;
+const FOOTER_HEIGHT = 30;
+const THUMB_WIDTH = 52;
+const THUMB_HEIGHT = 39;
+
+const formatFullDate = (dateStr: string) => {
+  const date = new Date(dateStr);
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${day} de ${MONTHS[date.getMonth()]} de ${date.getFullYear()}`;
+};
+
+const formatShortDate = (dateStr: string) => {
+  const date = new Date(dateStr);
+  const day = date.getDate().toString().padStart(2, "0");
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  return `${day}/${month}/${date.getFullYear()}`;
+};
+
+const formatTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+
+const numberToPortugueseWords = (num: number): string => {
+  const units = ["", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove"];
+  const teens = ["dez", "onze", "doze", "treze", "quatorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove"];
+  const tens = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
+
+  if (num < 10) return units[num];
+  if (num < 20) return teens[num - 10];
+  if (num < 100) {
+    const ten = Math.floor(num / 10);
+    const unit = num % 10;
+    return unit === 0 ? tens[ten] : `${tens[ten]} e ${units[unit]}`;
+  }
+  return String(num);
+};
+
+/**
+ * Builds the public URL encoded in the QR code of a document
+ */
+export const buildVerificationUrl = (verificationCode: string, contentHash: string) =>
+  `${window.location.origin}/verificar/${verificationCode}?h=${contentHash}`;
+
+/**
+ * Downloads an evidence image and shrinks it to a JPEG data URL small enough to embed
+ */
+async function loadImageThumbnail(url: string, maxSize = 480): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const bitmap = await createImageBitmap(await response.blob());
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } catch (error) {
+    console.warn("Could not load evidence thumbnail:", url, error);
+    return null;
+  }
+}
+
+function buildAddressLine(condominium: OccurrenceNoticeInput["condominium"]) {
+  const street = [condominium.address, condominium.address_number].filter(Boolean).join(", ");
+  const cityState = [condominium.city, condominium.state].filter(Boolean).join("/");
+  return [
+    street,
+    condominium.neighborhood,
+    cityState,
+    condominium.zip_code ? `CEP ${formatCEP(condominium.zip_code)}` : null,
+  ].filter(Boolean).join(" - ");
+}
+
+function renderNoticePdf(
+  input: OccurrenceNoticeInput,
+  documentType: OccurrenceDocumentType,
+  issuedAt: string,
+  verification: { code: string; hash: string; qrDataUrl: string },
+  thumbnails: (string | null)[],
+) {
+  const { occurrence, condominium } = input;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const condominiumName = condominium.name || "Condomínio";
+  let yPos = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (yPos + height > pageHeight - FOOTER_HEIGHT) {
+      doc.addPage();
+      yPos = MARGIN;
+    }
+  };
+
+  const writeParagraph = (text: string, options: { bold?: boolean; size?: number; gap?: number } = {}) => {
+    doc.setFontSize(options.size || 11);
+    doc.setFont("helvetica", options.bold ? "bold" : "normal");
+    doc.setTextColor(33, 33, 33);
+    const lines = doc.splitTextToSize(text, contentWidth);
+    ensureSpace(lines.length * LINE_HEIGHT);
+    doc.text(lines, MARGIN, yPos);
+    yPos += lines.length * LINE_HEIGHT + (options.gap ?? 6);
+  };
+
+  const writeSectionTitle = (title: string) => {
+    ensureSpace(14);
+    yPos += 2;
+    writeParagraph(title, { bold: true, gap: 4 });
+  };
+
+  // ===== LETTERHEAD =====
+  doc.setFontSize(15);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(33, 33, 33);
+  doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
+  yPos += 6;
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(90, 90, 90);
+  if (condominium.cnpj) {
+    doc.text(`CNPJ: ${formatCNPJ(condominium.cnpj)}`, pageWidth / 2, yPos, { align: "center" });
+    yPos += 4.5;
+  }
+  const addressLine = buildAddressLine(condominium);
+  if (addressLine) {
+    const addressLines = doc.splitTextToSize(addressLine, contentWidth);
+    doc.text(addressLines, pageWidth / 2, yPos, { align: "center" });
+    yPos += addressLines.length * 4.5;
+  }
+  doc.setDrawColor(180, 180, 180);
+  doc.line(MARGIN, yPos, pageWidth - MARGIN, yPos);
+  yPos += 10;
+
+  // ===== TITLE =====
+  doc.setFontSize(11);
+  doc.setTextColor(33, 33, 33);
+  doc.text(`${condominium.city || "São Paulo"}, ${formatFullDate(issuedAt)}`, pageWidth - MARGIN, yPos, { align: "right" });
+  yPos += 12;
+
+  doc.setFontSize(15);
+  doc.setFont("helvetica", "bold");
+  doc.text(DOCUMENT_TYPE_LABELS[documentType].toUpperCase(), pageWidth / 2, yPos, { align: "center" });
+  yPos += 5;
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(90, 90, 90);
+  doc.text(`Documento nº ${verification.code}`, pageWidth / 2, yPos, { align: "center" });
+  yPos += 12;
+
+  // ===== RECIPIENT =====
+  writeParagraph(`Ao(À) Senhor(a): ${input.residentName || "Não identificado"}`, { gap: 2 });
+  writeParagraph(`BLOCO: ${input.blockName || "-"}       APTO: ${input.apartmentNumber || "-"}`, { gap: 8 });
+  writeParagraph(`REF: ${REF_LABELS[occurrence.type] || "Ocorrência"} - ${occurrence.title}`, { bold: true, size: 12, gap: 8 });
+
+  writeParagraph("Prezado(a) Condômino(a),", { gap: 4 });
+  writeParagraph(
+    "Na qualidade de síndico(a) deste Condomínio, no uso de minhas atribuições legais e atendendo a determinação do corpo diretivo, utilizo-me da presente para notificá-lo(a) por desrespeito às normas condominiais, nos termos abaixo."
+  );
+
+  // ===== FACTS =====
+  writeSectionTitle("DOS FATOS");
+  let facts = `No dia ${formatShortDate(occurrence.occurred_at)}, por volta das ${formatTime(occurrence.occurred_at)}`;
+  if (occurrence.location) facts += `, no local: ${occurrence.location}`;
+  facts += `, foi verificado que: ${occurrence.description}`;
+  writeParagraph(facts);
+
+  // ===== LEGAL BASIS =====
+  const articles = [
+    occurrence.civil_code_article && `Código Civil - Art. ${occurrence.civil_code_article}`,
+    occurrence.convention_article && `Convenção do Condomínio - Art. ${occurrence.convention_article}`,
+    occurrence.internal_rules_article && `Regimento Interno - Art. ${occurrence.internal_rules_article}`,
+  ].filter(Boolean) as string[];
+
+  if (articles.length > 0 || occurrence.legal_basis) {
+    writeSectionTitle("DA FUNDAMENTAÇÃO");
+    articles.forEach((article) => writeParagraph(`• ${article}`, { gap: 2 }));
+    if (occurrence.legal_basis) {
+      yPos += 2;
+      writeParagraph(occurrence.legal_basis);
+    } else {
+      yPos += 4;
+    }
+  }
+
+  // ===== PENALTY =====
+  writeSectionTitle("DA PENALIDADE");
+  if (occurrence.type === "multa") {
+    writeParagraph("Diante do ocorrido, torna-se necessária a aplicação da penalidade de multa prevista nas normas deste Condomínio, a qual será lançada juntamente com sua quota condominial.");
+  } else if (occurrence.type === "advertencia") {
+    writeParagraph("Diante do ocorrido, esta serve como ADVERTÊNCIA FORMAL, ficando registrado o descumprimento das normas condominiais. Reincidências poderão acarretar penalidades mais severas, incluindo aplicação de multa.");
+  } else {
+    writeParagraph("Diante do ocorrido, serve a presente como NOTIFICAÇÃO FORMAL sobre o descumprimento das normas condominiais.");
+  }
+
+  // ===== DEFENSE DEADLINE =====
+  const deadlineDays = condominium.defense_deadline_days || 10;
+  writeSectionTitle("DO PRAZO PARA DEFESA");
+  writeParagraph(
+    `Fica estipulado o prazo de ${deadlineDays} (${numberToPortugueseWords(deadlineDays)}) dias, contados do recebimento desta, para que V. Sa. apresente, se assim desejar, suas razões mediante defesa por escrito, que será submetida à análise do corpo diretivo. A defesa pode ser enviada pelo aplicativo do condomínio.`
+  );
+
+  // ===== EVIDENCES =====
+  if (input.evidences.length > 0) {
+    writeSectionTitle("DAS PROVAS");
+    const perRow = Math.max(1, Math.floor((contentWidth + 4) / (THUMB_WIDTH + 4)));
+    let column = 0;
+
+    input.evidences.forEach((evidence, index) => {
+      const thumbnail = thumbnails[index];
+      const caption = `${index + 1}. ${evidence.description || evidence.file_type.toUpperCase()}`;
+
+      if (thumbnail) {
+        if (column === 0) ensureSpace(THUMB_HEIGHT + 10);
+        const x = MARGIN + column * (THUMB_WIDTH + 4);
+        doc.addImage(thumbnail, "JPEG", x, yPos, THUMB_WIDTH, THUMB_HEIGHT, undefined, "FAST");
+        doc.setDrawColor(200, 200, 200);
+        doc.rect(x, yPos, THUMB_WIDTH, THUMB_HEIGHT);
+        doc.setFontSize(8);
+        doc.setTextColor(90, 90, 90);
+        doc.text(doc.splitTextToSize(caption, THUMB_WIDTH)[0], x, yPos + THUMB_HEIGHT + 4);
+        column += 1;
+        if (column === perRow) {
+          column = 0;
+          yPos += THUMB_HEIGHT + 9;
+        }
+      } else {
+        if (column !== 0) {
+          column = 0;
+          yPos += THUMB_HEIGHT + 9;
+        }
+        const date = evidence.created_at ? ` (${formatShortDate(evidence.created_at)})` : "";
+        writeParagraph(`${caption} - ${evidence.file_type.toUpperCase()}${date}`, { size: 10, gap: 2 });
+      }
+    });
+    if (column !== 0) yPos += THUMB_HEIGHT + 9;
+    yPos += 2;
+  }
+
+  // ===== DEFENSES =====
+  if (input.defenses.length > 0) {
+    writeSectionTitle("DA DEFESA APRESENTADA");
+    input.defenses.forEach((defense, index) => {
+      const author = defense.resident_name ? ` - ${defense.resident_name}` : "";
+      writeParagraph(`Defesa ${index + 1}${author} (enviada em ${formatShortDate(defense.submitted_at)})`, { bold: true, size: 10, gap: 2 });
+      writeParagraph(defense.content, { size: 10 });
+    });
+  }
+
+  // ===== DECISION =====
+  writeSectionTitle("DA DECISÃO");
+  if (input.decisions.length > 0) {
+    input.decisions.forEach((decision) => {
+      writeParagraph(
+        `Resultado: ${DECISION_LABELS[decision.decision] || decision.decision} (em ${formatShortDate(decision.decided_at)})`,
+        { bold: true, size: 10, gap: 2 }
+      );
+      writeParagraph(`Justificativa: ${decision.justification}`, { size: 10 });
+    });
+  } else {
+    writeParagraph("Pendente. A decisão será comunicada após o término do prazo para defesa e a análise do caso.", { size: 10 });
+  }
+
+  // ===== SIGNATURE =====
+  ensureSpace(30);
+  yPos += 8;
+  writeParagraph("Atenciosamente,", { gap: 16 });
+  doc.setFont("helvetica", "bold");
+  doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
+  yPos += 6;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text("Síndico(a)", pageWidth / 2, yPos, { align: "center" });
+  yPos += 12;
+
+  // ===== VERIFICATION =====
+  const qrSize = 32;
+  ensureSpace(qrSize + 4);
+  doc.setDrawColor(200, 200, 200);
+  doc.roundedRect(MARGIN, yPos, contentWidth, qrSize + 4, 2, 2);
+  doc.addImage(verification.qrDataUrl, "PNG", MARGIN + 2, yPos + 2, qrSize, qrSize);
+
+  const textX = MARGIN + qrSize + 6;
+  const textWidth = contentWidth - qrSize - 10;
+  let textY = yPos + 7;
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(33, 33, 33);
+  doc.text("Verificação de autenticidade", textX, textY);
+  textY += 5;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(90, 90, 90);
+  const verificationLines = doc.splitTextToSize(
+    `Leia o QR Code ou acesse ${window.location.origin}/verificar/${verification.code} para confirmar a emissão e a situação atual deste documento.`,
+    textWidth
+  );
+  doc.text(verificationLines, textX, textY);
+  textY += verificationLines.length * 3.6 + 1;
+  doc.text(`Código: ${verification.code}`, textX, textY);
+  textY += 3.6;
+  doc.text(doc.splitTextToSize(`SHA-256: ${verification.hash}`, textWidth), textX, textY);
+
+  // ===== FOOTER =====
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setDrawColor(200, 200, 200);
+    doc.line(MARGIN, pageHeight - 20, pageWidth - MARGIN, pageHeight - 20);
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(100, 100, 100);
+    doc.text(`${DOCUMENT_TYPE_LABELS[documentType]} nº ${verification.code}`, MARGIN, pageHeight - 13);
+    doc.text(`Página ${i} de ${totalPages}`, pageWidth - MARGIN, pageHeight - 13, { align: "right" });
+  }
+
+  return doc;
+}
+
+/**
+ * Registers the document for public verification, renders the PDF and starts the download.
+ */
+export async function issueOccurrenceNotice(input: OccurrenceNoticeInput) {
+  const { data, error } = await supabase.rpc("issue_occurrence_document", {
+    p_occurrence_id: input.occurrence.id,
+  });
+
+  if (error) throw error;
+  const document = data?.[0];
+  if (!document) throw new Error("Documento não registrado");
+
+  const documentType = document.document_type as OccurrenceDocumentType;
+  const issuedAt = document.issued_at;
+  const contentHash = document.content_hash;
+
+  const verificationUrl = buildVerificationUrl(document.verification_code, contentHash);
+  const qrDataUrl = await QRCode.toDataURL(verificationUrl, { margin: 1, width: 256 });
+
+  const thumbnails = await Promise.all(
+    input.evidences.map((evidence) =>
+      evidence.file_type === "image" ? loadImageThumbnail(evidence.file_url) : Promise.resolve(null)
+    )
+  );
+
+  const doc = renderNoticePdf(
+    input,
+    documentType,
+    issuedAt,
+    { code: document.verification_code, hash: contentHash, qrDataUrl },
+    thumbnails
+  );
+
+  const residentName = input.residentName?.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 20) || "morador";
+  const typeLabel = documentType === "auto_infracao" ? "AUTO_DE_INFRACAO" : "NOTIFICACAO_EXTRAJUDICIAL";
+  const fileName = `${typeLabel}_-_BL_${input.blockName || "-"}_APTO_${input.apartmentNumber || "-"}_-_${residentName}.pdf`;
+
+  doc.save(fileName);
+
+  return { fileName, verificationCode: document.verification_code, contentHash };
+}
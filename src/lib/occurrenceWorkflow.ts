@@ -0,0 +1,157 @@
+/**
+ * Per-condominium occurrence workflow
+ *
+ * States and transitions live in `occurrence_workflow_states` / `occurrence_workflow_transitions`.
+ * Every state maps to a base `occurrence_status`, which reports and notifications keep using.
+ * Transitions are validated server-side by the `transition_occurrence` RPC.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type OccurrenceBaseStatus = Database["public"]["Enums"]["occurrence_status"];
+
+export interface WorkflowState {
+  id: string;
+  condominium_id: string;
+  key: string;
+  label: string;
+  color: string;
+  base_status: OccurrenceBaseStatus;
+  is_initial: boolean;
+  is_final: boolean;
+  display_order: number;
+}
+
+export interface WorkflowTransition {
+  id: string;
+  condominium_id: string;
+  from_state: string;
+  to_state: string;
+  label: string;
+  allowed_roles: string[];
+  required_fields: string[];
+  display_order: number;
+}
+
+export type WorkflowRole = "sindico" | "morador" | "conselheiro";
+
+export const WORKFLOW_ROLE_LABELS: Record<WorkflowRole, string> = {
+  sindico: "Síndico",
+  morador: "Morador",
+  conselheiro: "Conselheiro",
+};
+
+export const WORKFLOW_REQUIRED_FIELD_LABELS: Record<string, string> = {
+  justification: "Justificativa",
+  defense: "Defesa registrada",
+  evidence: "Prova anexada",
+  legal_basis: "Fundamentação legal",
+};
+
+export const BASE_STATUS_LABELS: Record<OccurrenceBaseStatus, string> = {
+  registrada: "Registrada",
+  notificado: "Notificado",
+  em_defesa: "Em Defesa",
+  arquivada: "Arquivada",
+  advertido: "Advertido",
+  multado: "Multado",
+};
+
+/** Base statuses that close the occurrence with a decision (also recorded in `decisions`) */
+export const DECISION_STATUSES: OccurrenceBaseStatus[] = ["arquivada", "advertido", "multado"];
+
+export const WORKFLOW_COLOR_STYLES: Record<string, string> = {
+  blue: "bg-blue-500/10 text-blue-500",
+  amber: "bg-amber-500/10 text-amber-500",
+  purple: "bg-purple-500/10 text-purple-500",
+  orange: "bg-orange-500/10 text-orange-500",
+  red: "bg-red-500/10 text-red-500",
+  green: "bg-emerald-500/10 text-emerald-500",
+  slate: "bg-muted text-muted-foreground",
+};
+
+export const WORKFLOW_COLOR_LABELS: Record<string, string> = {
+  blue: "Azul",
+  amber: "Amarelo",
+  purple: "Roxo",
+  orange: "Laranja",
+  red: "Vermelho",
+  green: "Verde",
+  slate: "Cinza",
+};
+
+export function getAvailableTransitions(
+  transitions: WorkflowTransition[],
+  fromState: string | null | undefined,
+  role: WorkflowRole
+) {
+  if (!fromState) return [];
+  return transitions
+    .filter((t) => t.from_state === fromState && t.allowed_roles.includes(role))
+    .sort((a, b) => a.display_order - b.display_order);
+}
+
+/**
+ * Finds the transition a legacy action (e.g. "apply fine") maps to in the condominium workflow
+ */
+export function findTransitionToStatus(
+  transitions: WorkflowTransition[],
+  states: WorkflowState[],
+  fromState: string | null | undefined,
+  baseStatus: OccurrenceBaseStatus,
+  role: WorkflowRole
+) {
+  return getAvailableTransitions(transitions, fromState, role).find(
+    (t) => states.find((s) => s.key === t.to_state)?.base_status === baseStatus
+  );
+}
+
+/**
+ * Moves an occurrence to the next workflow state mapped to `baseStatus`, if the
+ * condominium workflow allows it for `role`. Returns false when no such transition exists.
+ */
+export async function transitionOccurrenceToStatus(
+  occurrenceId: string,
+  baseStatus: OccurrenceBaseStatus,
+  role: WorkflowRole,
+  justification?: string
+) {
+  const { data: occurrence, error: occurrenceError } = await supabase
+    .from("occurrences")
+    .select("condominium_id, workflow_state")
+    .eq("id", occurrenceId)
+    .single();
+
+  if (occurrenceError) throw occurrenceError;
+
+  const [statesResult, transitionsResult] = await Promise.all([
+    supabase.from("occurrence_workflow_states").select("*").eq("condominium_id", occurrence.condominium_id),
+    supabase
+      .from("occurrence_workflow_transitions")
+      .select("*")
+      .eq("condominium_id", occurrence.condominium_id)
+      .eq("from_state", occurrence.workflow_state || ""),
+  ]);
+
+  if (statesResult.error) throw statesResult.error;
+  if (transitionsResult.error) throw transitionsResult.error;
+
+  const transition = findTransitionToStatus(
+    transitionsResult.data as WorkflowTransition[],
+    statesResult.data as WorkflowState[],
+    occurrence.workflow_state,
+    baseStatus,
+    role
+  );
+  if (!transition) return false;
+
+  const { error } = await supabase.rpc("transition_occurrence", {
+    p_occurrence_id: occurrenceId,
+    p_to_state: transition.to_state,
+    p_justification: justification,
+  });
+
+  if (error) throw error;
+  return true;
+}
@@ -0,0 +1,166 @@
+/**
+ * IndexedDB queue for porteiro registrations made without connection.
+ * Items are replayed by useOfflineSync once the device is back online.
+ */
+
+import type { PackageCarrier } from "@/lib/packageCarriers";
+
+export type OfflineQueueKind = "package" | "occurrence" | "handover";
+
+/** pending: waiting to sync · conflict: needs the porteiro's decision · error: failed, retried later */
+export type OfflineQueueStatus = "pending" | "syncing" | "conflict" | "error";
+
+export interface OfflinePackagePayload {
+  condominium_id: string;
+  block_id: string;
+  apartment_id: string;
+  /** JPEG data URL as captured by the camera */
+  photo: string;
+  pickup_code: string;
+  description: string | null;
+  package_type_id: string | null;
+  tracking_code: string | null;
+  carrier: PackageCarrier | null;
+  storage_location_id: string | null;
+  received_by_name: string | null;
+}
+
+export interface OfflineOccurrencePayload {
+  condominium_id: string;
+  title: string;
+  description: string;
+  category: string;
+  priority: string;
+  reporter_block_id: string | null;
+  reporter_apartment_id: string | null;
+  target_block_id: string | null;
+  target_apartment_id: string | null;
+}
+
+export interface OfflineHandoverPayload {
+  condominium_id: string;
+  incoming_porter_name: string;
+  general_observations: string | null;
+  items: { item_name: string; category: string; is_ok: boolean; observation: string | null }[];
+}
+
+export interface OfflinePayloads {
+  package: OfflinePackagePayload;
+  occurrence: OfflineOccurrencePayload;
+  handover: OfflineHandoverPayload;
+}
+
+interface OfflineQueueItemBase<K extends OfflineQueueKind> {
+  /** Also used as the row id on replay, so a retried insert never duplicates */
+  id: string;
+  kind: K;
+  userId: string;
+  createdAt: string;
+  attempts: number;
+  status: OfflineQueueStatus;
+  error?: string;
+  /** Set when the porteiro chose to register despite a conflict */
+  force?: boolean;
+  payload: OfflinePayloads[K];
+}
+
+export type OfflineQueueItem =
+  | OfflineQueueItemBase<"package">
+  | OfflineQueueItemBase<"occurrence">
+  | OfflineQueueItemBase<"handover">;
+
+export const OFFLINE_KIND_LABELS: Record<OfflineQueueKind, string> = {
+  package: "Encomenda",
+  occurrence: "Ocorrência",
+  handover: "Passagem de plantão",
+};
+
+const DB_NAME = "notificacondo-offline";
+const STORE_NAME = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** Subscribes to queue changes; returns the unsubscribe function. */
+export function subscribeOfflineQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export async function listOfflineQueue(userId: string): Promise<OfflineQueueItem[]> {
+  const items = await runTransaction<OfflineQueueItem[]>("readonly", (store) => store.getAll());
+  return items
+    .filter((item) => item.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function enqueueOffline<K extends OfflineQueueKind>(
+  kind: K,
+  payload: OfflinePayloads[K],
+  userId: string
+): Promise<string> {
+  const item = {
+    id: crypto.randomUUID(),
+    kind,
+    userId,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+    payload,
+  } as OfflineQueueItem;
+
+  await runTransaction("readwrite", (store) => store.put(item));
+  notify();
+  return item.id;
+}
+
+export async function updateOfflineItem(item: OfflineQueueItem): Promise<void> {
+  await runTransaction("readwrite", (store) => store.put(item));
+  notify();
+}
+
+export async function removeOfflineItem(id: string): Promise<void> {
+  await runTransaction("readwrite", (store) => store.delete(id));
+  notify();
+}
+
+/**
+ * True when the request failed for lack of connection (as opposed to a
+ * validation or permission error), so the registration should be queued.
+ */
+export function isConnectivityError(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
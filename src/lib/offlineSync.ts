@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+import { uploadPackagePhoto } from "@/lib/packageStorage";
+import type { OfflineQueueItem } from "@/lib/offlineQueue";
+
+export type ReplayOutcome = { result: "synced" } | { result: "conflict"; reason: string };
+
+type ReplayHandler<K extends OfflineQueueItem["kind"]> = (
+  item: Extract<OfflineQueueItem, { kind: K }>
+) => Promise<ReplayOutcome>;
+
+const replayPackage: ReplayHandler<"package"> = async (item) => {
+  const { payload } = item;
+
+  // A previous attempt may have inserted the row before losing the response
+  const { data: existing } = await supabase.from("packages").select("id").eq("id", item.id).maybeSingle();
+  if (existing) return { result: "synced" };
+
+  if (!item.force && payload.tracking_code) {
+    const { data: duplicate } = await supabase
+      .from("packages")
+      .select("id")
+      .eq("condominium_id", payload.condominium_id)
+      .eq("tracking_code", payload.tracking_code)
+      .gte("received_at", item.createdAt)
+      .limit(1);
+    if (duplicate && duplicate.length > 0) {
+      return {
+        result: "conflict",
+        reason: "Outro dispositivo registrou o mesmo código de rastreio enquanto você estava sem conexão",
+      };
+    }
+  }
+
+  const photoUrl = await uploadPackagePhoto(payload.photo, `offline_${item.id}.jpg`);
+
+  const { error } = await supabase.from("packages").insert({
+    id: item.id,
+    condominium_id: payload.condominium_id,
+    block_id: payload.block_id,
+    apartment_id: payload.apartment_id,
+    received_by: item.userId,
+    received_by_name: payload.received_by_name,
+    received_at: item.createdAt,
+    pickup_code: payload.pickup_code,
+    description: payload.description,
+    photo_url: photoUrl,
+    status: "pendente",
+    package_type_id: payload.package_type_id,
+    tracking_code: payload.tracking_code,
+    carrier: payload.carrier,
+    storage_location_id: payload.storage_location_id,
+  });
+  if (error) throw error;
+
+  // The resident is only told once the package actually exists
+  const { error: notifyError } = await supabase.functions.invoke("notify-package-arrival", {
+    body: {
+      package_id: item.id,
+      apartment_id: payload.apartment_id,
+      pickup_code: payload.pickup_code,
+      photo_url: photoUrl,
+    },
+  });
+  if (notifyError) console.warn("Failed to notify queued package:", notifyError);
+
+  return { result: "synced" };
+};
+
+const replayOccurrence: ReplayHandler<"occurrence"> = async (item) => {
+  const { data: existing } = await supabase.from("porter_occurrences").select("id").eq("id", item.id).maybeSingle();
+  if (existing) return { result: "synced" };
+
+  const { error } = await supabase.from("porter_occurrences").insert({
+    id: item.id,
+    registered_by: item.userId,
+    occurred_at: item.createdAt,
+    ...item.payload,
+  });
+  if (error) throw error;
+
+  return { result: "synced" };
+};
+
+const replayHandover: ReplayHandler<"handover"> = async (item) => {
+  const { payload } = item;
+
+  const { data: existing } = await supabase.from("shift_handovers").select("id").eq("id", item.id).maybeSingle();
+
+  if (!existing) {
+    if (!item.force) {
+      const { data: newer } = await supabase
+        .from("shift_handovers")
+        .select("id")
+        .eq("condominium_id", payload.condominium_id)
+        .gte("created_at", item.createdAt)
+        .limit(1);
+      if (newer && newer.length > 0) {
+        return {
+          result: "conflict",
+          reason: "Outra passagem de plantão foi registrada neste condomínio enquanto você estava sem conexão",
+        };
+      }
+    }
+
+    const { error } = await supabase.from("shift_handovers").insert({
+      id: item.id,
+      condominium_id: payload.condominium_id,
+      outgoing_porter_id: item.userId,
+      incoming_porter_name: payload.incoming_porter_name,
+      general_observations: payload.general_observations,
+      shift_ended_at: item.createdAt,
+    });
+    if (error) throw error;
+  } else {
+    // Items may be missing if the previous attempt stopped between the two inserts
+    const { count } = await supabase
+      .from("shift_handover_items")
+      .select("id", { count: "exact", head: true })
+      .eq("handover_id", item.id);
+    if ((count || 0) > 0) return { result: "synced" };
+  }
+
+  if (payload.items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from("shift_handover_items")
+      .insert(payload.items.map((i) => ({ ...i, handover_id: item.id })));
+    if (itemsError) throw itemsError;
+  }
+
+  return { result: "synced" };
+};
+
+/**
+ * Sends one queued registration to the backend. Throws when the request
+ * fails, so the caller can keep the item for a later attempt.
+ */
+export function replayOfflineItem(item: OfflineQueueItem): Promise<ReplayOutcome> {
+  switch (item.kind) {
+    case "package":
+      return replayPackage(item);
+    case "occurrence":
+      return replayOccurrence(item);
+    case "handover":
+      return replayHandover(item);
+  }
+}
@@ -0,0 +1,89 @@
+// Carriers recognized from the tracking code (packages.carrier)
+export type PackageCarrier =
+  | 'correios'
+  | 'mercado_livre'
+  | 'amazon'
+  | 'shopee'
+  | 'jadlog'
+  | 'aliexpress';
+
+export const CARRIER_LABELS: Record<PackageCarrier, string> = {
+  correios: 'Correios',
+  mercado_livre: 'Mercado Livre',
+  amazon: 'Amazon',
+  shopee: 'Shopee',
+  jadlog: 'Jadlog',
+  aliexpress: 'AliExpress',
+};
+
+// Default package_types.name for each carrier, used to pre-select the type
+export const CARRIER_PACKAGE_TYPE_NAME: Record<PackageCarrier, string> = {
+  correios: 'Correios',
+  mercado_livre: 'E-commerce',
+  amazon: 'E-commerce',
+  shopee: 'E-commerce',
+  jadlog: 'Transportadora',
+  aliexpress: 'E-commerce',
+};
+
+export interface ParsedTrackingCode {
+  /** Normalized code to store in packages.tracking_code */
+  code: string;
+  carrier: PackageCarrier | null;
+  /** False when a Correios object code fails its check digit (likely a typo) */
+  isValid: boolean;
+}
+
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7];
+
+/** Check digit of a UPU S10 object code (Correios), e.g. AA123456789BR. */
+function isValidS10(code: string): boolean {
+  const digits = code.slice(2, 10).split('').map(Number);
+  const check = Number(code[10]);
+  const sum = digits.reduce((acc, digit, i) => acc + digit * S10_WEIGHTS[i], 0);
+  const remainder = 11 - (sum % 11);
+  const expected = remainder === 10 ? 0 : remainder === 11 ? 5 : remainder;
+  return expected === check;
+}
+
+const CARRIER_PATTERNS: { carrier: PackageCarrier; pattern: RegExp }[] = [
+  { carrier: 'correios', pattern: /^[A-Z]{2}\d{9}[A-Z]{2}$/ },
+  { carrier: 'shopee', pattern: /^(SPXBR\d{10,}|BR\d{12,14}[A-Z]?)$/ },
+  { carrier: 'amazon', pattern: /^TB[ACM]\d{12}$/ },
+  { carrier: 'mercado_livre', pattern: /^(MEL\w{8,}|4\d{10})$/ },
+  { carrier: 'aliexpress', pattern: /^(LP\d{14}|CNBR\w{8,}|YT\d{16})$/ },
+  { carrier: 'jadlog', pattern: /^\d{14}$/ },
+];
+
+/**
+ * Identifies the carrier from a typed or scanned tracking code.
+ * Mercado Livre labels carry a JSON QR code ({"id": "...", "sender_id": ...});
+ * the shipment id inside it becomes the tracking code.
+ */
+export function parseTrackingCode(raw: string): ParsedTrackingCode {
+  const trimmed = raw.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const payload = JSON.parse(trimmed) as { id?: string | number; sender_id?: unknown };
+      if (payload.id && payload.sender_id) {
+        return { code: String(payload.id), carrier: 'mercado_livre', isValid: true };
+      }
+    } catch {
+      // Not JSON, fall through to the regular patterns
+    }
+  }
+
+  const code = trimmed.toUpperCase().replace(/[\s-]/g, '');
+  const match = CARRIER_PATTERNS.find(({ pattern }) => pattern.test(code));
+
+  if (!match) {
+    return { code, carrier: null, isValid: true };
+  }
+
+  return {
+    code,
+    carrier: match.carrier,
+    isValid: match.carrier === 'correios' ? isValidS10(code) : true,
+  };
+}
@@ -23,6 +23,15 @@ export const STATUS_COLORS: Record<PackageStatus, { bg: string; text: string; bo
   },
 };
 
+// Options chosen by the resident through the WhatsApp quick reply buttons
+export type PackagePickupIntent = 'retirar_hoje' | 'autorizar_terceiro' | 'deixar_zelador';
+
+export const PICKUP_INTENT_LABELS: Record<PackagePickupIntent, string> = {
+  retirar_hoje: 'Morador vai retirar hoje',
+  autorizar_terceiro: 'Retirada por terceiro autorizado',
+  deixar_zelador: 'Deixar com o zelador',
+};
+
 export function generatePickupCode(): string {
   const chars = '0123456789';
   let code = '';
@@ -31,3 +40,22 @@ export function generatePickupCode(): string {
   }
   return code;
 }
+
+// Where the package physically sits in the portaria (package_storage_locations.location_type)
+export type StorageLocationType = 'prateleira' | 'armario' | 'geladeira' | 'volumosos';
+
+export const STORAGE_LOCATION_TYPE_LABELS: Record<StorageLocationType, string> = {
+  prateleira: 'Prateleira',
+  armario: 'Armário',
+  geladeira: 'Geladeira (perecíveis)',
+  volumosos: 'Área de volumosos',
+};
+
+export interface PackageStorageLocation {
+  id: string;
+  name: string;
+  location_type: StorageLocationType;
+}
+
+// Outcome of checking a pending package during an inventory audit
+export type InventoryAuditResult = 'confirmada' | 'realocada' | 'nao_encontrada';
@@ -67,6 +67,23 @@ export function extractFilePathFromUrl(photoUrl: string): string | null {
   }
 }
 
+/**
+ * Uploads a captured package photo (JPEG data URL) to the package photos bucket
+ * @param imageDataUrl - The photo as captured by the camera
+ * @param fileName - File name within the bucket; uploading again under the same name replaces it
+ * @returns The public URL stored in packages.photo_url
+ */
+export async function uploadPackagePhoto(imageDataUrl: string, fileName: string): Promise<string> {
+  const blob = await (await fetch(imageDataUrl)).blob();
+
+  const { error } = await supabase.storage
+    .from("package-photos")
+    .upload(fileName, blob, { contentType: "image/jpeg", upsert: true });
+  if (error) throw error;
+
+  return supabase.storage.from("package-photos").getPublicUrl(fileName).data.publicUrl;
+}
+
 /**
  * Deletes a package photo from Supabase Storage
  * @param photoUrl - The full public URL of the photo to delete
@@ -221,3 +238,62 @@ export async function deleteMultiplePackagePhotos(photoUrls: string[]): Promise<
     return { success: false, deletedCount: 0, errors };
   }
 }
+
+export const PICKUP_PROOFS_BUCKET = "package-pickup-proofs";
+
+export interface PickupProofPaths {
+  signaturePath: string;
+  photoPath: string | null;
+}
+
+/**
+ * Uploads the proof of delivery captured at pickup: the signature (PNG data URL)
+ * and an optional photo of the person collecting (JPEG data URL).
+ * Files are stored under <condominium_id>/<package_id>/ in the private proofs bucket.
+ */
+export async function uploadPickupProof(
+  pkg: { id: string; condominium_id: string },
+  signatureDataUrl: string,
+  photoDataUrl: string | null
+): Promise<PickupProofPaths> {
+  const folder = `${pkg.condominium_id}/${pkg.id}`;
+  const timestamp = Date.now();
+
+  const signaturePath = `${folder}/assinatura-${timestamp}.png`;
+  const signatureBlob = await (await fetch(signatureDataUrl)).blob();
+  const { error: signatureError } = await supabase.storage
+    .from(PICKUP_PROOFS_BUCKET)
+    .upload(signaturePath, signatureBlob, { contentType: "image/png" });
+  if (signatureError) throw signatureError;
+
+  let photoPath: string | null = null;
+  if (photoDataUrl) {
+    photoPath = `${folder}/foto-${timestamp}.jpg`;
+    const photoBlob = await (await fetch(photoDataUrl)).blob();
+    const { error: photoError } = await supabase.storage
+      .from(PICKUP_PROOFS_BUCKET)
+      .upload(photoPath, photoBlob, { contentType: "image/jpeg" });
+    if (photoError) throw photoError;
+  }
+
+  return { signaturePath, photoPath };
+}
+
+/**
+ * Generates a signed URL for a pickup signature or photo
+ * @param path - Path within the proofs bucket, as stored on the package
+ * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ */
+export async function getSignedPickupProofUrl(path: string, expiresIn: number = 3600): Promise<string | null> {
+  if (!path) return null;
+
+  const { data, error } = await supabase.storage
+    .from(PICKUP_PROOFS_BUCKET)
+    .createSignedUrl(path, expiresIn);
+
+  if (error) {
+    console.error("Error creating pickup proof signed URL:", error);
+    return null;
+  }
+  return data?.signedUrl || null;
+}
@@ -0,0 +1,88 @@
+export const PARTY_HALL_GUEST_LISTS_BUCKET = 'party-hall-guest-lists';
+
+/** Statuses that keep the date occupied for the space. */
+export const ACTIVE_BOOKING_STATUSES = ['pendente', 'confirmada', 'em_uso'];
+
+export const BOOKING_STATUS_LABELS: Record<string, string> = {
+  pendente: 'Aguardando aprovação',
+  confirmada: 'Confirmada',
+  em_uso: 'Em uso',
+  finalizada: 'Finalizada',
+  cancelada: 'Cancelada',
+};
+
+export const WAITLIST_STATUS_LABELS: Record<string, string> = {
+  aguardando: 'Na fila',
+  oferecida: 'Vaga liberada',
+  reservada: 'Reserva solicitada',
+  expirada: 'Expirada',
+  cancelada: 'Desistiu',
+};
+
+/** Guest lists live under {condominium_id}/{resident_id}/ so storage policies can check ownership. */
+export function buildGuestListPath(condominiumId: string, residentId: string, fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : 'pdf';
+  return `${condominiumId}/${residentId}/${Date.now()}.${extension}`;
+}
+
+export const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pendente: 'Pagamento pendente',
+  lancado_boleto: 'Lançado no boleto',
+  pago: 'Pago',
+  isento: 'Isento',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  pix: 'PIX',
+  boleto_condominio: 'Boleto do condomínio',
+};
+
+export const DEPOSIT_STATUS_LABELS: Record<string, string> = {
+  nao_aplicavel: 'Sem caução',
+  em_garantia: 'Em garantia',
+  devolvido: 'Devolvida',
+  retido: 'Retida',
+};
+
+/** Rental fee plus the refundable deposit, charged together. */
+export function getBookingTotal(booking: { fee_amount: number; deposit_amount: number }): number {
+  return Number(booking.fee_amount) + Number(booking.deposit_amount);
+}
+
+export const AREA_TYPE_LABELS: Record<string, string> = {
+  salao_festas: 'Salão de festas',
+  churrasqueira: 'Churrasqueira',
+  quadra: 'Quadra',
+  espaco_gourmet: 'Espaço gourmet',
+  academia: 'Academia',
+  piscina: 'Piscina',
+  outro: 'Outro',
+};
+
+export const BOOKING_MODE_LABELS: Record<string, string> = {
+  dia_inteiro: 'Dia inteiro',
+  por_horario: 'Por horário',
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.slice(0, 5).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/** Hourly slots between opening and closing, aligned the same way request_party_hall_booking checks them. */
+export function buildTimeSlots(checkIn: string, checkOut: string, slotMinutes: number): { start: string; end: string }[] {
+  const slots: { start: string; end: string }[] = [];
+  const close = toMinutes(checkOut);
+  for (let start = toMinutes(checkIn); start + slotMinutes <= close; start += slotMinutes) {
+    slots.push({ start: toTime(start), end: toTime(start + slotMinutes) });
+  }
+  return slots;
+}
+
+/** Whether two HH:MM[:SS] ranges on the same day overlap. */
+export function timeRangesOverlap(startA: string, endA: string, startB: string, endB: string): boolean {
+  return startA.slice(0, 5) < endB.slice(0, 5) && endA.slice(0, 5) > startB.slice(0, 5);
+}
@@ -0,0 +1,231 @@
+import jsPDF from "jspdf";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCNPJ, formatCEP } from "@/lib/utils";
+import { DEPOSIT_STATUS_LABELS, PAYMENT_METHOD_LABELS, getBookingTotal } from "@/lib/partyHallConstants";
+
+/**
+ * Receipt for the rental fee and deposit of a paid party hall booking.
+ *
+ * Available to the síndico and to the resident who booked; RLS decides who
+ * can load the booking.
+ */
+
+interface ReceiptBooking {
+  id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  fee_amount: number;
+  deposit_amount: number;
+  payment_status: string;
+  payment_method: string | null;
+  payment_reference: string | null;
+  paid_at: string | null;
+  deposit_status: string;
+  deposit_retained_amount: number;
+  deposit_notes: string | null;
+  party_hall_setting: { name: string } | null;
+  resident: {
+    full_name: string;
+    apartment: { number: string; block: { name: string } | null } | null;
+  } | null;
+  condominium: {
+    name: string;
+    cnpj: string | null;
+    address: string | null;
+    address_number: string | null;
+    neighborhood: string | null;
+    city: string | null;
+    state: string | null;
+    zip_code: string | null;
+  } | null;
+}
+
+const MARGIN = 20;
+const LINE_HEIGHT = 5;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatBookingDate = (date: string) => {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+};
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+
+const getReceiptNumber = (bookingId: string) => bookingId.slice(0, 8).toUpperCase();
+
+function renderReceiptPdf(booking: ReceiptBooking) {
+  const condominium = booking.condominium;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const condominiumName = condominium?.name || "Condomínio";
+  const receiptNumber = getReceiptNumber(booking.id);
+  let yPos = MARGIN;
+
+  const writeParagraph = (text: string, options: { bold?: boolean; size?: number; gap?: number } = {}) => {
+    doc.setFontSize(options.size || 11);
+    doc.setFont("helvetica", options.bold ? "bold" : "normal");
+    doc.setTextColor(33, 33, 33);
+    const lines = doc.splitTextToSize(text, contentWidth);
+    doc.text(lines, MARGIN, yPos);
+    yPos += lines.length * LINE_HEIGHT + (options.gap ?? 6);
+  };
+
+  const writeRow = (label: string, value: string, bold = false) => {
+    doc.setFontSize(10);
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setTextColor(33, 33, 33);
+    doc.text(label, MARGIN + 2, yPos);
+    doc.text(value, pageWidth - MARGIN - 2, yPos, { align: "right" });
+    yPos += 7;
+  };
+
+  // ===== LETTERHEAD =====
+  doc.setFontSize(15);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(33, 33, 33);
+  doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
+  yPos += 6;
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(90, 90, 90);
+  if (condominium?.cnpj) {
+    doc.text(`CNPJ: ${formatCNPJ(condominium.cnpj)}`, pageWidth / 2, yPos, { align: "center" });
+    yPos += 4.5;
+  }
+  const street = [condominium?.address, condominium?.address_number].filter(Boolean).join(", ");
+  const cityState = [condominium?.city, condominium?.state].filter(Boolean).join("/");
+  const addressLine = [
+    street,
+    condominium?.neighborhood,
+    cityState,
+    condominium?.zip_code ? `CEP ${formatCEP(condominium.zip_code)}` : null,
+  ].filter(Boolean).join(" - ");
+  if (addressLine) {
+    const addressLines = doc.splitTextToSize(addressLine, contentWidth);
+    doc.text(addressLines, pageWidth / 2, yPos, { align: "center" });
+    yPos += addressLines.length * 4.5;
+  }
+  doc.setDrawColor(180, 180, 180);
+  doc.line(MARGIN, yPos, pageWidth - MARGIN, yPos);
+  yPos += 12;
+
+  // ===== TITLE =====
+  doc.setFontSize(15);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(33, 33, 33);
+  doc.text("RECIBO DE RESERVA", pageWidth / 2, yPos, { align: "center" });
+  yPos += 5;
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(90, 90, 90);
+  doc.text(`Recibo nº ${receiptNumber}`, pageWidth / 2, yPos, { align: "center" });
+  yPos += 12;
+
+  // ===== BODY =====
+  const total = getBookingTotal(booking);
+  const spaceName = booking.party_hall_setting?.name || "Salão de Festas";
+  const apartment = booking.resident?.apartment;
+  const unit = apartment ? `Bloco ${apartment.block?.name || "-"}, Apto ${apartment.number}` : "unidade não informada";
+  writeParagraph(
+    `Recebemos de ${booking.resident?.full_name || "morador"} (${unit}) a importância de ${formatCurrency(total)} referente à reserva do espaço ${spaceName} para o dia ${formatBookingDate(booking.booking_date)}, das ${booking.start_time.slice(0, 5)} às ${booking.end_time.slice(0, 5)}.`,
+    { gap: 10 }
+  );
+
+  doc.setDrawColor(200, 200, 200);
+  doc.line(MARGIN, yPos - 5, pageWidth - MARGIN, yPos - 5);
+  writeRow("Taxa de locação", formatCurrency(Number(booking.fee_amount)));
+  if (Number(booking.deposit_amount) > 0) {
+    writeRow("Caução (reembolsável)", formatCurrency(Number(booking.deposit_amount)));
+  }
+  doc.line(MARGIN, yPos - 5, pageWidth - MARGIN, yPos - 5);
+  writeRow("Total pago", formatCurrency(total), true);
+  yPos += 4;
+
+  writeParagraph(
+    `Forma de pagamento: ${booking.payment_method ? PAYMENT_METHOD_LABELS[booking.payment_method] : "Não informada"}`,
+    { size: 10, gap: 1 }
+  );
+  if (booking.paid_at) {
+    writeParagraph(`Pago em: ${formatDateTime(booking.paid_at)}`, { size: 10, gap: 1 });
+  }
+  if (booking.payment_reference) {
+    writeParagraph(`Referência: ${booking.payment_reference}`, { size: 10, gap: 1 });
+  }
+  yPos += 6;
+
+  // ===== DEPOSIT =====
+  if (Number(booking.deposit_amount) > 0) {
+    writeParagraph("CAUÇÃO", { bold: true, gap: 3 });
+    writeParagraph(`Situação: ${DEPOSIT_STATUS_LABELS[booking.deposit_status] || booking.deposit_status}`, { size: 10, gap: 1 });
+    if (booking.deposit_status === "retido") {
+      const retained = Number(booking.deposit_retained_amount);
+      writeParagraph(`Valor retido: ${formatCurrency(retained)}`, { size: 10, gap: 1 });
+      writeParagraph(`Valor devolvido: ${formatCurrency(Number(booking.deposit_amount) - retained)}`, { size: 10, gap: 1 });
+    }
+    if (booking.deposit_notes) {
+      writeParagraph(`Observações: ${booking.deposit_notes}`, { size: 10, gap: 1 });
+    }
+    if (booking.deposit_status === "em_garantia") {
+      writeParagraph("A caução será devolvida após a vistoria de saída, descontados eventuais danos ao espaço.", { size: 10, gap: 1 });
+    }
+    yPos += 6;
+  }
+
+  // ===== SIGNATURE =====
+  yPos += 10;
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(33, 33, 33);
+  doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
+  yPos += 6;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text("Administração", pageWidth / 2, yPos, { align: "center" });
+
+  // ===== FOOTER =====
+  doc.setDrawColor(200, 200, 200);
+  doc.line(MARGIN, pageHeight - 20, pageWidth - MARGIN, pageHeight - 20);
+  doc.setFontSize(8);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Recibo de reserva nº ${receiptNumber}`, MARGIN, pageHeight - 13);
+  doc.text(`Emitido em ${formatDateTime(new Date().toISOString())}`, pageWidth - MARGIN, pageHeight - 13, { align: "right" });
+
+  return doc;
+}
+
+/**
+ * Loads the booking, renders the receipt and starts the download.
+ */
+export async function downloadPartyHallReceipt(bookingId: string) {
+  const { data, error } = await supabase
+    .from("party_hall_bookings")
+    .select(`
+      id, booking_date, start_time, end_time, fee_amount, deposit_amount,
+      payment_status, payment_method, payment_reference, paid_at,
+      deposit_status, deposit_retained_amount, deposit_notes,
+      party_hall_setting:party_hall_settings(name),
+      resident:residents(full_name, apartment:apartments(number, block:blocks(name))),
+      condominium:condominiums(name, cnpj, address, address_number, neighborhood, city, state, zip_code)
+    `)
+    .eq("id", bookingId)
+    .single();
+
+  if (error) throw error;
+  const booking = data as unknown as ReceiptBooking;
+  if (booking.payment_status !== "pago") {
+    throw new Error("O recibo fica disponível após a confirmação do pagamento");
+  }
+
+  const doc = renderReceiptPdf(booking);
+  const fileName = `RECIBO_RESERVA_${booking.booking_date}_${getReceiptNumber(booking.id)}.pdf`;
+  doc.save(fileName);
+
+  return { fileName };
+}
@@ -0,0 +1,25 @@
+export type VehicleType = 'carro' | 'moto' | 'outro';
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  carro: 'Carro',
+  moto: 'Moto',
+  outro: 'Outro',
+};
+
+export type ParkingSpotType = 'carro' | 'moto';
+
+export const PARKING_SPOT_TYPE_LABELS: Record<ParkingSpotType, string> = {
+  carro: 'Carro',
+  moto: 'Moto',
+};
+
+/** Plates are stored normalized (see normalizePlate); old-format plates are shown as ABC-1234. */
+export function formatPlate(plate: string): string {
+  return /^[A-Z]{3}\d{4}$/.test(plate) ? `${plate.slice(0, 3)}-${plate.slice(3)}` : plate;
+}
+
+/** Short description such as "ABC-1234 · Onix prata". */
+export function describeVehicle(vehicle: { plate: string; model: string | null; color: string | null }): string {
+  const details = [vehicle.model, vehicle.color].filter(Boolean).join(' ');
+  return details ? `${formatPlate(vehicle.plate)} · ${details}` : formatPlate(vehicle.plate);
+}
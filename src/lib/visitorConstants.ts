@@ -0,0 +1,23 @@
+export type VisitorType = 'visitante' | 'prestador';
+
+export const VISITOR_TYPE_LABELS: Record<VisitorType, string> = {
+  visitante: 'Visitante',
+  prestador: 'Prestador de serviço',
+};
+
+export type VisitorAuthorizationStatus = 'ativa' | 'cancelada';
+
+export const VISITOR_PHOTOS_BUCKET = 'visitor-photos';
+
+/** Normalizes a Brazilian plate (old ABC-1234 or Mercosul ABC1D23) to upper case without separators. */
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** Whether an authorization window (inclusive dates, yyyy-MM-dd) covers the given day. */
+export function isAuthorizationValidOn(
+  authorization: { valid_from: string; valid_until: string; status: string },
+  day: string
+): boolean {
+  return authorization.status === 'ativa' && authorization.valid_from <= day && authorization.valid_until >= day;
+}
@@ -186,6 +186,7 @@ const Auth = () => {
       if (roles.includes("super_admin")) return "/superadmin";
       if (roles.includes("porteiro")) return "/porteiro";
       if (roles.includes("sindico")) return "/dashboard";
+      if (roles.includes("conselheiro")) return "/conselho";
       if (roles.includes("morador")) return "/resident";
 
       return "/dashboard";
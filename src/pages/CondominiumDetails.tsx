@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { MaskedInput, formatPhone, formatCPF } from "@/components/ui/masked-input";
@@ -62,6 +63,14 @@ import { cn } from "@/lib/utils";
 import ResidentCSVImportDialog from "@/components/condominium/ResidentCSVImportDialog";
 import { BulkBlocksApartmentsWizard } from "@/components/condominium/BulkBlocksApartmentsWizard";
 import BulkResidentCSVImportDialog from "@/components/condominium/BulkResidentCSVImportDialog";
+import { CondominiumMercadoPagoSettings } from "@/components/condominium/CondominiumMercadoPagoSettings";
+import { CondominiumFineRulesSettings } from "@/components/condominium/CondominiumFineRulesSettings";
+import { CondominiumPackageReminderSettings } from "@/components/condominium/CondominiumPackageReminderSettings";
+import { CondominiumOccurrenceWorkflowSettings } from "@/components/condominium/CondominiumOccurrenceWorkflowSettings";
+import { CondominiumCouncilSettings } from "@/components/condominium/CondominiumCouncilSettings";
+import { CondominiumManagersSettings } from "@/components/condominium/CondominiumManagersSettings";
+import { CondominiumVehiclesSettings } from "@/components/condominium/CondominiumVehiclesSettings";
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
 import { QuickBlockApartmentSearch } from "@/components/packages/QuickBlockApartmentSearch";
 import {
   Select,
@@ -114,6 +123,7 @@ interface Resident {
 const CondominiumDetails = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const { isOwner, can } = useCondominiumAccess();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -326,11 +336,12 @@ const CondominiumDetails = () => {
 
     try {
       // Fetch condominium with full data
+      const managedIds = await fetchManagedCondominiumIds();
       const { data: condoData, error: condoError } = await supabase
         .from("condominiums")
         .select("id, name, address, address_number, neighborhood, city, state, cnpj, zip_code")
         .eq("id", id)
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .maybeSingle();
 
       if (condoError) throw condoError;
@@ -796,6 +807,32 @@ const CondominiumDetails = () => {
           </Card>
         </div>
 
+        {/* Condominium settings stay with the síndico; delegated managers only see the units */}
+        {id && isOwner(id) && (
+          <>
+            {/* Fine payments via PIX */}
+            <CondominiumMercadoPagoSettings condominiumId={id} />
+
+            {/* Late charges and recidivism rules for fines */}
+            <CondominiumFineRulesSettings condominiumId={id} />
+
+            {/* Pickup reminders and escalation for packages left at the gate */}
+            <CondominiumPackageReminderSettings condominiumId={id} />
+
+            {/* Occurrence workflow: states, transitions and who may perform them */}
+            <CondominiumOccurrenceWorkflowSettings condominiumId={id} />
+
+            {/* Appeal window and council members who judge appeals */}
+            <CondominiumCouncilSettings condominiumId={id} />
+
+            {/* Subsíndicos and administradora staff with scoped permissions */}
+            <CondominiumManagersSettings condominiumId={id} />
+          </>
+        )}
+
+        {/* Vehicles and garage spots per unit */}
+        {id && can(id, "residents.manage") && <CondominiumVehiclesSettings condominiumId={id} />}
+
         {/* Search and Filters */}
         <Card>
           <CardContent className="pt-6">
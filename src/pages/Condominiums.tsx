@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { Helmet } from "react-helmet-async";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds, CONDOMINIUM_ACCESS_ROLE_LABELS } from "@/lib/condominiumAccess";
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { MaskedInput } from "@/components/ui/masked-input";
@@ -64,6 +66,7 @@ interface Condominium {
   zip_code: string | null;
   created_at: string;
   defense_deadline_days: number;
+  owner_id: string;
   subscription?: {
     plan: string;
   } | null;
@@ -71,6 +74,7 @@ interface Condominium {
 
 const Condominiums = () => {
   const { user } = useAuth();
+  const { getAccess } = useCondominiumAccess();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [condominiums, setCondominiums] = useState<Condominium[]>([]);
@@ -115,13 +119,14 @@ const Condominiums = () => {
     if (!user) return;
     
     try {
+      const managedIds = await fetchManagedCondominiumIds();
       const { data, error } = await supabase
         .from("condominiums")
         .select(`
           *,
           subscription:subscriptions(plan)
         `)
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -728,24 +733,30 @@ const Condominiums = () => {
                       </Badge>
                     )}
                   </div>
-                  <div className="flex gap-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleEdit(condo)}
-                      className="h-8 w-8"
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDelete(condo.id)}
-                      className="h-8 w-8"
-                    >
-                      <Trash2 className="w-4 h-4 text-destructive" />
-                    </Button>
-                  </div>
+                  {condo.owner_id === user?.id ? (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleEdit(condo)}
+                        className="h-8 w-8"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(condo.id)}
+                        className="h-8 w-8"
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      {CONDOMINIUM_ACCESS_ROLE_LABELS[getAccess(condo.id)?.access_role ?? "subsindico"]}
+                    </Badge>
+                  )}
                 </div>
 
                 <h3 className="font-display text-base md:text-lg font-semibold text-foreground mb-2">
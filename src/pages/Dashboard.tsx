@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { Helmet } from "react-helmet-async";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -105,10 +106,11 @@ const Dashboard = () => {
     const fetchCondominiums = async () => {
       if (!user) return;
 
+      const managedIds = await fetchManagedCondominiumIds();
       const { data: condos } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .order("name");
 
       setCondominiums(condos || []);
@@ -148,13 +150,8 @@ const Dashboard = () => {
         let condoCount = 0;
 
         if (selectedCondominium === "all") {
-          const { data: condos, count } = await supabase
-            .from("condominiums")
-            .select("id", { count: "exact" })
-            .eq("owner_id", user.id);
-
-          condoIds = condos?.map((c) => c.id) || [];
-          condoCount = count || 0;
+          condoIds = await fetchManagedCondominiumIds();
+          condoCount = condoIds.length;
         } else {
           condoIds = [selectedCondominium];
           condoCount = 1;
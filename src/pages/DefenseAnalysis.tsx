@@ -244,46 +244,18 @@ const DefenseAnalysis = () => {
 
     setSavingDecision(true);
     try {
-      // Insert decision
-      const { error: decisionError } = await supabase.from("decisions").insert({
-        occurrence_id: selectedDefense.occurrence_id,
-        decided_by: user.id,
-        decision: decisionType,
-        justification: justification.trim(),
+      // Workflow transition, decision and fine are recorded in one transaction
+      const { error: decisionError } = await supabase.rpc("decide_occurrence", {
+        p_occurrence_id: selectedDefense.occurrence_id,
+        p_decision: decisionType,
+        p_justification: justification.trim(),
       });
 
       if (decisionError) throw decisionError;
 
-      // Update occurrence status
-      const { error: updateError } = await supabase
-        .from("occurrences")
-        .update({ status: decisionType })
-        .eq("id", selectedDefense.occurrence_id);
-
-      if (updateError) throw updateError;
-
-      // If it's a fine, create the fine record
-      if (decisionType === "multado") {
-        const { error: fineError } = await supabase.from("fines").insert({
-          occurrence_id: selectedDefense.occurrence_id,
-          resident_id: selectedDefense.resident_id,
-          amount: 100, // Default amount, can be customized
-          due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          status: "em_aberto",
-        });
-
-        if (fineError) {
-          console.error("Error creating fine:", fineError);
-        }
-      }
-
       // Notify resident via WhatsApp (fire and forget)
       supabase.functions.invoke("notify-resident-decision", {
-        body: {
-          occurrence_id: selectedDefense.occurrence_id,
-          decision: decisionType,
-          justification: justification.trim(),
-        },
+        body: { occurrence_id: selectedDefense.occurrence_id },
       }).then((result) => {
         if (result.error) {
           console.log("Notification to resident failed (non-blocking):", result.error);
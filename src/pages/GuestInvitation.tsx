@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { supabase } from "@/integrations/supabase/client";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, AlertCircle, Building2, Calendar, QrCode, Home } from "lucide-react";
+import { GuestInvitationQrCode } from "@/components/visitors/GuestInvitationQrCode";
+import { GUEST_INVITATION_STATUS_LABELS, type GuestInvitationStatus } from "@/lib/guestInvitations";
+
+interface InvitationView {
+  token: string;
+  guest_name: string;
+  condominium_name: string;
+  condominium_address: string | null;
+  block_name: string;
+  apartment_number: string;
+  valid_from: string;
+  valid_until: string;
+  remaining_uses: number;
+  status: GuestInvitationStatus;
+}
+
+const STATUS_HINTS: Partial<Record<GuestInvitationStatus, string>> = {
+  nao_iniciado: "O convite ainda não está válido. Apresente o QR Code a partir do horário indicado.",
+  expirado: "O período do convite terminou. Peça um novo convite ao morador.",
+  revogado: "Este convite foi cancelado pelo morador.",
+  esgotado: "Todas as entradas deste convite já foram utilizadas.",
+};
+
+const GuestInvitation = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { dateTime: formatDateTime } = useDateFormatter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<InvitationView | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data, error: funcError } = await supabase.functions.invoke("get-guest-invitation", {
+          body: { token },
+        });
+
+        if (funcError) {
+          const body = await funcError.context?.json?.().catch(() => null);
+          setError(body?.error || "Não foi possível carregar o convite.");
+          return;
+        }
+
+        setInvitation(data);
+      } catch (err) {
+        console.error("Error loading guest invitation:", err);
+        setError("Erro ao carregar o convite. Tente novamente.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="flex flex-col items-center text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary mb-4" />
+          <p className="text-muted-foreground">Carregando convite...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-gradient-card border-border/50">
+          <CardContent className="pt-8 pb-8">
+            <div className="flex flex-col items-center text-center">
+              <div className="w-16 h-16 rounded-2xl bg-destructive/10 flex items-center justify-center mb-6">
+                <AlertCircle className="w-8 h-8 text-destructive" />
+              </div>
+              <h2 className="font-display text-xl font-semibold text-foreground mb-2">
+                Convite indisponível
+              </h2>
+              <p className="text-muted-foreground mb-6">{error}</p>
+              <Button variant="outline" onClick={() => navigate("/")}>
+                Voltar para o início
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const usable = invitation.status === "valido" || invitation.status === "nao_iniciado";
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Helmet>
+        <title>Convite de Acesso | NotificaCondo</title>
+      </Helmet>
+      <Card className="w-full max-w-md bg-gradient-card border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 justify-center text-center">
+            <QrCode className="w-6 h-6 text-primary" />
+            Convite de {invitation.guest_name}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground text-center">
+            {usable
+              ? "Apresente este QR Code na portaria para liberar sua entrada."
+              : STATUS_HINTS[invitation.status]}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {usable && (
+            <div className="flex justify-center py-2">
+              <GuestInvitationQrCode token={invitation.token} size={260} />
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+            <Building2 className="w-5 h-5 text-primary shrink-0" />
+            <div>
+              <p className="text-sm text-muted-foreground">Condomínio</p>
+              <p className="font-medium text-foreground">{invitation.condominium_name}</p>
+              {invitation.condominium_address && (
+                <p className="text-xs text-muted-foreground">{invitation.condominium_address}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+            <Home className="w-5 h-5 text-primary shrink-0" />
+            <div>
+              <p className="text-sm text-muted-foreground">Unidade</p>
+              <p className="font-medium text-foreground">
+                {invitation.block_name} - {invitation.apartment_number}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-secondary/50">
+            <Calendar className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">Validade</p>
+                <Badge variant="outline">{GUEST_INVITATION_STATUS_LABELS[invitation.status]}</Badge>
+              </div>
+              <p className="text-sm text-foreground">
+                {formatDateTime(invitation.valid_from)} até {formatDateTime(invitation.valid_until)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {invitation.remaining_uses} entrada(s) restante(s)
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GuestInvitation;
@@ -56,9 +56,20 @@ import {
   Globe,
   ChevronDown,
   ChevronsUpDown,
+  Car,
 } from "lucide-react";
-import jsPDF from "jspdf";
-import autoTable from "jspdf-autotable";
+import { issueOccurrenceNotice } from "@/lib/occurrenceNoticePdf";
+import { describeVehicle } from "@/lib/vehicleConstants";
+import { useOccurrenceWorkflow } from "@/hooks/useOccurrenceWorkflow";
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
+import OccurrenceAppealCard from "@/components/occurrences/OccurrenceAppealCard";
+import {
+  DECISION_STATUSES,
+  WORKFLOW_COLOR_STYLES,
+  WORKFLOW_REQUIRED_FIELD_LABELS,
+  findTransitionToStatus,
+  getAvailableTransitions,
+} from "@/lib/occurrenceWorkflow";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
@@ -70,6 +81,7 @@ interface Occurrence {
   description: string;
   type: "advertencia" | "notificacao" | "multa";
   status: string;
+  workflow_state: string | null;
   occurred_at: string;
   created_at: string;
   location: string | null;
@@ -80,10 +92,21 @@ interface Occurrence {
   apartment_id: string | null;
   resident_id: string | null;
   condominium_id: string;
-  condominiums: { name: string; defense_deadline_days: number } | null;
+  condominiums: {
+    name: string;
+    defense_deadline_days: number;
+    cnpj: string | null;
+    address: string | null;
+    address_number: string | null;
+    neighborhood: string | null;
+    city: string | null;
+    state: string | null;
+    zip_code: string | null;
+  } | null;
   blocks: { name: string } | null;
   apartments: { number: string } | null;
   residents: { id: string; full_name: string; email: string } | null;
+  vehicles: { plate: string; model: string | null; color: string | null } | null;
 }
 
 interface Evidence {
@@ -108,6 +131,7 @@ interface Decision {
   decision: string;
   justification: string;
   decided_at: string;
+  decision_signatures?: { id: string; signer_name: string; signed_at: string }[];
 }
 
 interface Notification {
@@ -148,6 +172,7 @@ interface TimelineItem {
 const OccurrenceDetails = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const { getAccess } = useCondominiumAccess();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { dateTime: formatDateTime, dateTimeLong: formatDateTimeLong } = useDateFormatter();
@@ -162,19 +187,37 @@ const OccurrenceDetails = () => {
   const [accessLogs, setAccessLogs] = useState<AccessLog[]>([]);
   const [unitHistory, setUnitHistory] = useState<{ advertencia: number; notificacao: number; multa: number; items: any[] }>({ advertencia: 0, notificacao: 0, multa: 0, items: [] });
 
-  // Decision dialog
+  // Decision dialog (moves the occurrence along the condominium workflow)
   const [isDecisionDialogOpen, setIsDecisionDialogOpen] = useState(false);
   const [decisionData, setDecisionData] = useState({
-    decision: "" as "arquivada" | "advertido" | "multado" | "",
+    toState: "",
     justification: "",
   });
   const [savingDecision, setSavingDecision] = useState(false);
 
+  const workflow = useOccurrenceWorkflow(occurrence?.condominium_id);
+  // Delegated managers only get the transitions their permissions cover (also enforced by the RPC)
+  const access = getAccess(occurrence?.condominium_id);
+  const canDecide = !access || access.permissions.includes("occurrences.decide");
+  const canRegister = !access || access.permissions.includes("occurrences.register");
+  const availableTransitions = getAvailableTransitions(workflow.transitions, occurrence?.workflow_state, "sindico").filter(
+    (t) => {
+      const target = workflow.getState(t.to_state);
+      return target && DECISION_STATUSES.includes(target.base_status) ? canDecide : canRegister;
+    }
+  );
+  const selectedTransition = availableTransitions.find((t) => t.to_state === decisionData.toState);
+  const selectedTargetState = workflow.getState(decisionData.toState);
+  const isDecisionTransition = !!selectedTargetState && DECISION_STATUSES.includes(selectedTargetState.base_status);
+  const justificationRequired =
+    isDecisionTransition || !!selectedTransition?.required_fields.includes("justification");
+
   // Image preview
   const [previewImage, setPreviewImage] = useState<string | null>(null);
 
   // WhatsApp notification
   const [sendingWhatsApp, setSendingWhatsApp] = useState(false);
+  const [generatingPDF, setGeneratingPDF] = useState(false);
   
   // Notifications collapse state
   const [expandedNotifications, setExpandedNotifications] = useState<Set<string>>(new Set());
@@ -248,10 +291,11 @@ const OccurrenceDetails = () => {
         .from("occurrences")
         .select(`
           *,
-          condominiums(name, defense_deadline_days),
+          condominiums(name, defense_deadline_days, cnpj, address, address_number, neighborhood, city, state, zip_code),
           blocks(name),
           apartments(number),
-          residents(id, full_name, email)
+          residents(id, full_name, email),
+          vehicles(plate, model, color)
         `)
         .eq("id", id)
         .maybeSingle();
@@ -287,7 +331,7 @@ const OccurrenceDetails = () => {
       // Fetch decisions
       const { data: decisionsData } = await supabase
         .from("decisions")
-        .select("*")
+        .select("*, decision_signatures(id, signer_name, signed_at)")
         .eq("occurrence_id", id)
         .order("decided_at", { ascending: true });
       setDecisions(decisionsData || []);
@@ -470,6 +514,15 @@ const OccurrenceDetails = () => {
   };
 
   const getStatusBadge = (status: string) => {
+    const workflowState = workflow.getState(occurrence?.workflow_state);
+    if (workflowState) {
+      return (
+        <span className={`px-3 py-1 rounded-full text-sm font-medium ${WORKFLOW_COLOR_STYLES[workflowState.color] || ""}`}>
+          {workflowState.label}
+        </span>
+      );
+    }
+
     const styles: Record<string, string> = {
       registrada: "bg-blue-500/10 text-blue-500",
       notificado: "bg-amber-500/10 text-amber-500",
@@ -514,38 +567,37 @@ const OccurrenceDetails = () => {
   const handleSubmitDecision = async () => {
     if (!occurrence || !user) return;
 
-    if (!decisionData.decision || !decisionData.justification.trim()) {
+    if (!selectedTransition || (justificationRequired && !decisionData.justification.trim())) {
       toast({ title: "Preencha todos os campos", variant: "destructive" });
       return;
     }
 
     setSavingDecision(true);
     try {
-      // Insert decision
-      const { error: decisionError } = await supabase.from("decisions").insert({
-        occurrence_id: occurrence.id,
-        decided_by: user.id,
-        decision: decisionData.decision,
-        justification: decisionData.justification,
-      });
-
-      if (decisionError) throw decisionError;
-
-      // Update occurrence status
-      const { error: updateError } = await supabase
-        .from("occurrences")
-        .update({ status: decisionData.decision })
-        .eq("id", occurrence.id);
+      // Validated server-side against the condominium workflow; decisions (and fines)
+      // are recorded in the same transaction as the transition
+      const { error: transitionError } = isDecisionTransition && selectedTargetState
+        ? await supabase.rpc("decide_occurrence", {
+            p_occurrence_id: occurrence.id,
+            p_decision: selectedTargetState.base_status,
+            p_justification: decisionData.justification.trim(),
+            p_to_state: selectedTransition.to_state,
+          })
+        : await supabase.rpc("transition_occurrence", {
+            p_occurrence_id: occurrence.id,
+            p_to_state: selectedTransition.to_state,
+            p_justification: decisionData.justification.trim() || undefined,
+          });
 
-      if (updateError) throw updateError;
+      if (transitionError) throw transitionError;
 
-      toast({ title: "Decisão registrada com sucesso!" });
+      toast({ title: isDecisionTransition ? "Decisão registrada com sucesso!" : "Ocorrência atualizada!" });
       setIsDecisionDialogOpen(false);
-      setDecisionData({ decision: "", justification: "" });
+      setDecisionData({ toState: "", justification: "" });
       fetchData();
     } catch (error: any) {
       console.error("Error submitting decision:", error);
-      toast({ title: "Erro ao registrar decisão", variant: "destructive" });
+      toast({ title: "Erro ao registrar decisão", description: error.message, variant: "destructive" });
     } finally {
       setSavingDecision(false);
     }
@@ -582,12 +634,16 @@ const OccurrenceDetails = () => {
           description: "O morador foi notificado via WhatsApp com sucesso." 
         });
         
-        // Update occurrence status if it was just registered
-        if (occurrence.status === "registrada") {
-          await supabase
-            .from("occurrences")
-            .update({ status: "notificado" })
-            .eq("id", occurrence.id);
+        // Move a just registered occurrence to the workflow's "notified" step
+        const notifyTransition = occurrence.status === "registrada"
+          ? findTransitionToStatus(workflow.transitions, workflow.states, occurrence.workflow_state, "notificado", "sindico")
+          : undefined;
+        if (notifyTransition) {
+          const { error: transitionError } = await supabase.rpc("transition_occurrence", {
+            p_occurrence_id: occurrence.id,
+            p_to_state: notifyTransition.to_state,
+          });
+          if (transitionError) console.error("Error moving occurrence to notified:", transitionError);
         }
         
         // Refresh data
@@ -607,378 +663,36 @@ const OccurrenceDetails = () => {
     }
   };
 
-  const generatePDF = () => {
-    if (!occurrence) return;
-
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 20;
-    const contentWidth = pageWidth - margin * 2;
-    let yPos = margin;
-
-    // Type labels
-    const typeLabels: Record<string, string> = {
-      advertencia: "Advertência",
-      notificacao: "Notificação",
-      multa: "Multa",
-    };
-
-    const refLabels: Record<string, string> = {
-      advertencia: "Aplicação de Advertência",
-      notificacao: "Notificação",
-      multa: "Aplicação de Multa",
-    };
-
-    // Format date for header (e.g., "Guarulhos, 04 de dezembro de 2025")
-    const formatFullDate = (dateStr: string) => {
-      const date = new Date(dateStr);
-      const months = [
-        "janeiro", "fevereiro", "março", "abril", "maio", "junho",
-        "julho", "agosto", "setembro", "outubro", "novembro", "dezembro"
-      ];
-      const day = date.getDate().toString().padStart(2, "0");
-      const month = months[date.getMonth()];
-      const year = date.getFullYear();
-      return `${day} de ${month} de ${year}`;
-    };
-
-    const numberToPortugueseWords = (num: number): string => {
-      const units = ["", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove"];
-      const teens = ["dez", "onze", "doze", "treze", "quatorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove"];
-      const tens = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
-      
-      if (num < 10) return units[num];
-      if (num < 20) return teens[num - 10];
-      if (num < 100) {
-        const ten = Math.floor(num / 10);
-        const unit = num % 10;
-        return unit === 0 ? tens[ten] : `${tens[ten]} e ${units[unit]}`;
-      }
-      return String(num);
-    };
-
-    const formatShortDate = (dateStr: string) => {
-      const date = new Date(dateStr);
-      const day = date.getDate().toString().padStart(2, "0");
-      const month = (date.getMonth() + 1).toString().padStart(2, "0");
-      const year = date.getFullYear();
-      return `${day}/${month}/${year}`;
-    };
-
-    const formatTime = (dateStr: string) => {
-      const date = new Date(dateStr);
-      return date.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
-    };
-
-    // Get condominium city (if available from address) or default
-    const condominiumName = occurrence.condominiums?.name || "Condomínio";
-    const today = new Date().toISOString();
-
-    // ===== PAGE 1: FORMAL LETTER =====
-
-    // Header - Date aligned right
-    doc.setFontSize(11);
-    doc.setTextColor(33, 33, 33);
-    doc.text(`São Paulo, ${formatFullDate(today)}`, pageWidth - margin, yPos, { align: "right" });
-    yPos += 15;
-
-    // Condominium Name - Centered, bold
-    doc.setFontSize(16);
-    doc.setFont("helvetica", "bold");
-    doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
-    yPos += 15;
-
-    // Recipient info
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    doc.text(`Ao Senhor(a): ${occurrence.residents?.full_name || "Não identificado"}`, margin, yPos);
-    yPos += 8;
-
-    // Block and Apartment
-    const blockName = occurrence.blocks?.name || "-";
-    const aptNumber = occurrence.apartments?.number || "-";
-    doc.text(`BLOCO: ${blockName}       APTO: ${aptNumber}`, margin, yPos);
-    yPos += 8;
-
-    // Condominium address (full name again)
-    doc.setFontSize(10);
-    doc.setTextColor(80, 80, 80);
-    doc.text(condominiumName.toUpperCase(), margin, yPos);
-    yPos += 20;
-
-    // Reference line
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor(33, 33, 33);
-    doc.text(`REF: ${refLabels[occurrence.type] || "Ocorrência"}`, margin, yPos);
-    yPos += 12;
-
-    // Greeting
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    doc.text("Prezado(a) Condômino(a),", margin, yPos);
-    yPos += 10;
-
-    // Intro paragraph
-    const introParagraph = "Na qualidade de síndico(a) deste Condomínio, no uso de minhas atribuições legais e atendendo a determinação do corpo diretivo, utilizo-me da presente para notificá-lo(a) por desrespeito às normas do Regimento Interno.";
-    const introLines = doc.splitTextToSize(introParagraph, contentWidth);
-    doc.text(introLines, margin, yPos);
-    yPos += introLines.length * 5 + 8;
-
-    // Legal basis section (FUNDAMENTAÇÃO LEGAL)
-    const hasLegalBasis = occurrence.internal_rules_article || occurrence.convention_article || occurrence.civil_code_article || occurrence.legal_basis;
-    
-    if (hasLegalBasis) {
-      // Section header
-      doc.setFont("helvetica", "bold");
-      doc.text("FUNDAMENTAÇÃO LEGAL:", margin, yPos);
-      yPos += 8;
-      doc.setFont("helvetica", "normal");
-
-      // List each legal reference with its description
-      if (occurrence.civil_code_article) {
-        const civilCodeText = `• Código Civil - Art. ${occurrence.civil_code_article}`;
-        const civilLines = doc.splitTextToSize(civilCodeText, contentWidth);
-        doc.text(civilLines, margin, yPos);
-        yPos += civilLines.length * 5 + 3;
-      }
-
-      if (occurrence.convention_article) {
-        const conventionText = `• Convenção do Condomínio - Art. ${occurrence.convention_article}`;
-        const conventionLines = doc.splitTextToSize(conventionText, contentWidth);
-        doc.text(conventionLines, margin, yPos);
-        yPos += conventionLines.length * 5 + 3;
-      }
-
-      if (occurrence.internal_rules_article) {
-        const rulesText = `• Regimento Interno - Art. ${occurrence.internal_rules_article}`;
-        const rulesLines = doc.splitTextToSize(rulesText, contentWidth);
-        doc.text(rulesLines, margin, yPos);
-        yPos += rulesLines.length * 5 + 3;
-      }
-
-      // Additional legal basis description
-      if (occurrence.legal_basis) {
-        yPos += 3;
-        const legalBasisLines = doc.splitTextToSize(occurrence.legal_basis, contentWidth);
-        doc.text(legalBasisLines, margin, yPos);
-        yPos += legalBasisLines.length * 5 + 5;
-      }
-
-      yPos += 5;
-    }
+  const generatePDF = async () => {
+    if (!occurrence || !user) return;
 
-    // Occurrence description paragraph
-    const occurrenceDate = formatShortDate(occurrence.occurred_at);
-    const occurrenceTime = formatTime(occurrence.occurred_at);
-    
-    let descriptionParagraph = `No dia ${occurrenceDate}, por volta das ${occurrenceTime}`;
-    if (occurrence.location) {
-      descriptionParagraph += `, no local: ${occurrence.location}`;
-    }
-    descriptionParagraph += `, foi verificado que: ${occurrence.description}`;
-    descriptionParagraph += " Informamos que tal conduta caracteriza descumprimento do Regimento Interno, estando sujeita à aplicação das penalidades previstas nas normas condominiais.";
-
-    const descLines = doc.splitTextToSize(descriptionParagraph, contentWidth);
-    doc.text(descLines, margin, yPos);
-    yPos += descLines.length * 5 + 8;
-
-    // Penalty paragraph (based on type)
-    let penaltyParagraph = "";
-    if (occurrence.type === "multa") {
-      penaltyParagraph = "Diante do ocorrido, torna-se necessária a aplicação da penalidade prevista no Regimento Interno deste Condomínio, a qual será lançada juntamente com sua quota condominial.";
-    } else if (occurrence.type === "advertencia") {
-      penaltyParagraph = "Diante do ocorrido, esta serve como ADVERTÊNCIA FORMAL, ficando registrado o descumprimento das normas condominiais. Reincidências poderão acarretar penalidades mais severas, incluindo aplicação de multa.";
-    } else {
-      penaltyParagraph = "Diante do ocorrido, serve a presente como NOTIFICAÇÃO FORMAL sobre o descumprimento das normas condominiais.";
-    }
-    const penaltyLines = doc.splitTextToSize(penaltyParagraph, contentWidth);
-    doc.text(penaltyLines, margin, yPos);
-    yPos += penaltyLines.length * 5 + 8;
-
-    // Defense deadline paragraph
-    const deadlineDays = occurrence.condominiums?.defense_deadline_days || 10;
-    const deadlineWritten = deadlineDays === 10 ? "10 (dez)" : `${deadlineDays} (${numberToPortugueseWords(deadlineDays)})`;
-    const defenseParagraph = `Outrossim, a partir desta data, fica estipulado o prazo de ${deadlineWritten} dias para que V. Sa. apresente, se assim desejar, suas razões mediante defesa por escrito, a qual será submetida à análise perante o Conselho Consultivo.`;
-    const defenseLines = doc.splitTextToSize(defenseParagraph, contentWidth);
-    doc.text(defenseLines, margin, yPos);
-    yPos += defenseLines.length * 5 + 20;
-
-    // Closing
-    doc.text("Atenciosamente,", margin, yPos);
-    yPos += 25;
-
-    // Signature area
-    doc.setFont("helvetica", "bold");
-    doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
-    yPos += 8;
-    doc.setFont("helvetica", "normal");
-    doc.setFontSize(10);
-    doc.text("Síndico(a)", pageWidth / 2, yPos, { align: "center" });
-
-    // ===== PAGE 2: AUTO DE INFRAÇÃO (Evidence) =====
-    if (evidences.length > 0) {
-      doc.addPage();
-      yPos = margin;
-
-      // Header
-      doc.setFontSize(11);
-      doc.setTextColor(33, 33, 33);
-      doc.text(`São Paulo, ${formatFullDate(today)}`, pageWidth - margin, yPos, { align: "right" });
-      yPos += 15;
-
-      // Condominium Name
-      doc.setFontSize(16);
-      doc.setFont("helvetica", "bold");
-      doc.text(condominiumName.toUpperCase(), pageWidth / 2, yPos, { align: "center" });
-      yPos += 15;
-
-      // Section title
-      doc.setFontSize(14);
-      doc.text("AUTO DE INFRAÇÃO:", margin, yPos);
-      yPos += 15;
-
-      // Evidence info box
-      doc.setFontSize(11);
-      doc.setFont("helvetica", "normal");
-      doc.text(`DATA: ${occurrenceDate}`, margin, yPos);
-      yPos += 8;
-      doc.text(`HORÁRIO: ${occurrenceTime}`, margin, yPos);
-      yPos += 8;
-      if (occurrence.location) {
-        doc.text(`LOCAL: ${occurrence.location}`, margin, yPos);
-        yPos += 8;
-      }
-      yPos += 10;
-
-      // List evidences
-      doc.setFontSize(10);
-      doc.text("Provas anexadas:", margin, yPos);
-      yPos += 8;
-
-      evidences.forEach((evidence, index) => {
-        const evidenceText = `${index + 1}. ${evidence.file_type.toUpperCase()}${evidence.description ? ` - ${evidence.description}` : ""} (${formatShortDate(evidence.created_at)})`;
-        const evidenceLines = doc.splitTextToSize(evidenceText, contentWidth);
-        doc.text(evidenceLines, margin + 5, yPos);
-        yPos += evidenceLines.length * 5 + 3;
+    setGeneratingPDF(true);
+    try {
+      const { verificationCode } = await issueOccurrenceNotice({
+        occurrence,
+        condominium: occurrence.condominiums || { name: "Condomínio" },
+        residentName: occurrence.residents?.full_name || null,
+        blockName: occurrence.blocks?.name || null,
+        apartmentNumber: occurrence.apartments?.number || null,
+        evidences,
+        defenses: defenses.map((defense) => ({ ...defense, resident_name: defense.residents?.full_name })),
+        decisions,
       });
-    }
-
-    // ===== PAGE 3: DEFENSES (if any) =====
-    if (defenses.length > 0) {
-      doc.addPage();
-      yPos = margin;
-
-      doc.setFontSize(14);
-      doc.setFont("helvetica", "bold");
-      doc.setTextColor(33, 33, 33);
-      doc.text("DEFESA(S) APRESENTADA(S)", pageWidth / 2, yPos, { align: "center" });
-      yPos += 15;
-
-      defenses.forEach((defense, index) => {
-        if (yPos > pageHeight - 50) {
-          doc.addPage();
-          yPos = margin;
-        }
 
-        doc.setFontSize(11);
-        doc.setFont("helvetica", "bold");
-        doc.text(`Defesa ${index + 1} - ${defense.residents?.full_name || "Morador"}`, margin, yPos);
-        yPos += 6;
-        
-        doc.setFontSize(9);
-        doc.setFont("helvetica", "normal");
-        doc.setTextColor(100, 100, 100);
-        doc.text(`Prazo: ${formatShortDate(defense.deadline)} | Enviada em: ${formatShortDate(defense.submitted_at)}`, margin, yPos);
-        yPos += 8;
-
-        doc.setFontSize(10);
-        doc.setTextColor(33, 33, 33);
-        const defenseLines = doc.splitTextToSize(defense.content, contentWidth);
-        doc.text(defenseLines, margin, yPos);
-        yPos += defenseLines.length * 5 + 15;
+      toast({
+        title: "PDF gerado com sucesso!",
+        description: `Documento nº ${verificationCode}. O download foi iniciado.`,
       });
-    }
-
-    // ===== PAGE 4: DECISIONS (if any) =====
-    if (decisions.length > 0) {
-      doc.addPage();
-      yPos = margin;
-
-      doc.setFontSize(14);
-      doc.setFont("helvetica", "bold");
-      doc.setTextColor(33, 33, 33);
-      doc.text("DECISÃO", pageWidth / 2, yPos, { align: "center" });
-      yPos += 15;
-
-      const statusLabels: Record<string, string> = {
-        arquivada: "ARQUIVADA",
-        advertido: "ADVERTÊNCIA MANTIDA",
-        multado: "MULTA APLICADA",
-      };
-
-      decisions.forEach((decision, index) => {
-        if (yPos > pageHeight - 50) {
-          doc.addPage();
-          yPos = margin;
-        }
-
-        doc.setFontSize(12);
-        doc.setFont("helvetica", "bold");
-        doc.text(`Resultado: ${statusLabels[decision.decision] || decision.decision}`, margin, yPos);
-        yPos += 8;
-
-        doc.setFontSize(9);
-        doc.setFont("helvetica", "normal");
-        doc.setTextColor(100, 100, 100);
-        doc.text(`Data da decisão: ${formatShortDate(decision.decided_at)}`, margin, yPos);
-        yPos += 10;
-
-        doc.setFontSize(10);
-        doc.setTextColor(33, 33, 33);
-        doc.text("Justificativa:", margin, yPos);
-        yPos += 6;
-
-        const justificationLines = doc.splitTextToSize(decision.justification, contentWidth);
-        doc.text(justificationLines, margin, yPos);
-        yPos += justificationLines.length * 5 + 15;
+    } catch (error) {
+      console.error("Error generating notice PDF:", error);
+      toast({
+        title: "Erro ao gerar PDF",
+        description: error instanceof Error ? error.message : "Não foi possível gerar o documento.",
+        variant: "destructive",
       });
+    } finally {
+      setGeneratingPDF(false);
     }
-
-    // Footer on all pages
-    const totalPages = doc.getNumberOfPages();
-    for (let i = 1; i <= totalPages; i++) {
-      doc.setPage(i);
-      
-      // Bottom line
-      doc.setDrawColor(200, 200, 200);
-      doc.line(margin, pageHeight - 25, pageWidth - margin, pageHeight - 25);
-      
-      // Condominium info footer
-      doc.setFontSize(9);
-      doc.setFont("helvetica", "bold");
-      doc.setTextColor(33, 33, 33);
-      doc.text(condominiumName.toUpperCase(), pageWidth / 2, pageHeight - 18, { align: "center" });
-      
-      doc.setFontSize(8);
-      doc.setFont("helvetica", "normal");
-      doc.setTextColor(100, 100, 100);
-      doc.text(`Página ${i} de ${totalPages}`, pageWidth / 2, pageHeight - 10, { align: "center" });
-    }
-
-    // Generate filename
-    const residentName = occurrence.residents?.full_name?.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 20) || "morador";
-    const blockApt = `BL_${blockName}_APTO_${aptNumber}`;
-    const typeLabel = typeLabels[occurrence.type]?.toUpperCase() || "OCORRENCIA";
-    const fileName = `${typeLabel}_-_${blockApt}_-_${residentName}.pdf`;
-
-    doc.save(fileName);
-
-    toast({
-      title: "PDF gerado com sucesso!",
-      description: "O download do documento foi iniciado.",
-    });
   };
 
   const getFileIcon = (type: string) => {
@@ -1035,10 +749,15 @@ const OccurrenceDetails = () => {
             <Button 
               variant="outline" 
               onClick={generatePDF}
+              disabled={generatingPDF}
               className="border-primary/50 text-primary hover:bg-primary/10 text-xs md:text-sm"
               size="sm"
             >
-              <FileDown className="w-4 h-4 mr-1 md:mr-2" />
+              {generatingPDF ? (
+                <Loader2 className="w-4 h-4 mr-1 md:mr-2 animate-spin" />
+              ) : (
+                <FileDown className="w-4 h-4 mr-1 md:mr-2" />
+              )}
               Baixar PDF
             </Button>
             {occurrence.residents && !["arquivada", "advertido", "multado"].includes(occurrence.status) && (
@@ -1056,7 +775,7 @@ const OccurrenceDetails = () => {
                 Notificar via WhatsApp
               </Button>
             )}
-            {!["arquivada", "advertido", "multado"].includes(occurrence.status) && (
+            {availableTransitions.length > 0 && (
               <Button variant="hero" onClick={() => setIsDecisionDialogOpen(true)}>
                 <Gavel className="w-4 h-4 mr-2" />
                 Registrar Decisão
@@ -1099,6 +818,22 @@ const OccurrenceDetails = () => {
                   </CardContent>
                 </Card>
               )}
+
+              {occurrence.vehicles && (
+                <Card className="bg-gradient-card border-border/50">
+                  <CardContent className="pt-6">
+                    <div className="flex items-start gap-3">
+                      <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                        <Car className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Veículo envolvido</p>
+                        <p className="font-medium text-foreground">{describeVehicle(occurrence.vehicles)}</p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             {/* Description */}
@@ -1309,6 +1044,15 @@ const OccurrenceDetails = () => {
                             </span>
                           </div>
                           <p className="text-foreground whitespace-pre-line text-justify">{dec.justification}</p>
+                          {dec.decision_signatures && dec.decision_signatures.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-border/30 space-y-1">
+                              {dec.decision_signatures.map((signature) => (
+                                <p key={signature.id} className="text-xs text-muted-foreground">
+                                  Coassinado pelo conselheiro {signature.signer_name} em {formatDateLocal(signature.signed_at)}
+                                </p>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -1316,6 +1060,9 @@ const OccurrenceDetails = () => {
                 )}
               </CardContent>
             </Card>
+
+            {/* Appeal judged by the council */}
+            <OccurrenceAppealCard occurrenceId={occurrence.id} />
           </div>
 
           {/* Right Column - Timeline & Info */}
@@ -1491,21 +1238,30 @@ const OccurrenceDetails = () => {
             <div className="space-y-2">
               <label className="text-sm font-medium">Decisão</label>
               <Select
-                value={decisionData.decision}
-                onValueChange={(v: "arquivada" | "advertido" | "multado") => setDecisionData({ ...decisionData, decision: v })}
+                value={decisionData.toState}
+                onValueChange={(v) => setDecisionData({ ...decisionData, toState: v })}
               >
                 <SelectTrigger className="bg-background">
                   <SelectValue placeholder="Selecione a decisão" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="arquivada">Arquivar</SelectItem>
-                  <SelectItem value="advertido">Aplicar Advertência</SelectItem>
-                  <SelectItem value="multado">Aplicar Multa</SelectItem>
+                  {availableTransitions.map((transition) => (
+                    <SelectItem key={transition.id} value={transition.to_state}>
+                      {transition.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {selectedTransition && selectedTransition.required_fields.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Exige: {selectedTransition.required_fields.map((f) => WORKFLOW_REQUIRED_FIELD_LABELS[f] || f).join(", ")}
+                </p>
+              )}
             </div>
             <div className="space-y-2">
-              <label className="text-sm font-medium">Justificativa</label>
+              <label className="text-sm font-medium">
+                Justificativa{justificationRequired ? "" : " (opcional)"}
+              </label>
               <Textarea
                 value={decisionData.justification}
                 onChange={(e) => setDecisionData({ ...decisionData, justification: e.target.value })}
@@ -1,10 +1,14 @@
 import { useState, useEffect } from "react";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import { nowInSaoPauloForInput } from "@/lib/dateUtils";
+import { transitionOccurrenceToStatus } from "@/lib/occurrenceWorkflow";
 import { useNavigate } from "react-router-dom";
 import { Helmet } from "react-helmet-async";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
+import { describeVehicle } from "@/lib/vehicleConstants";
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
 import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
 import SubscriptionGate from "@/components/sindico/SubscriptionGate";
 import { Badge } from "@/components/ui/badge";
@@ -50,12 +54,14 @@ import {
   Scale,
   Send,
   Trash2,
+  Car,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import UnitHistoryTab from "@/components/occurrences/UnitHistoryTab";
+import FineStatusBadge from "@/components/occurrences/FineStatusBadge";
 import { History } from "lucide-react";
 
 interface Condominium {
@@ -82,6 +88,15 @@ interface Resident {
   email: string;
 }
 
+interface Vehicle {
+  id: string;
+  condominium_id: string;
+  apartment_id: string;
+  plate: string;
+  model: string | null;
+  color: string | null;
+}
+
 interface UploadedFile {
   file: File;
   preview: string;
@@ -105,6 +120,7 @@ const OCCURRENCE_TYPES = [
 
 const Occurrences = () => {
   const { user } = useAuth();
+  const { can, canAny } = useCondominiumAccess();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { date: formatDate } = useDateFormatter();
@@ -114,6 +130,7 @@ const Occurrences = () => {
   const [blocks, setBlocks] = useState<Block[]>([]);
   const [apartments, setApartments] = useState<Apartment[]>([]);
   const [residents, setResidents] = useState<Resident[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [occurrences, setOccurrences] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -133,6 +150,7 @@ const Occurrences = () => {
     block_id: "",
     apartment_id: "",
     resident_id: "",
+    vehicle_id: "",
     type: "advertencia" as "advertencia" | "notificacao" | "multa",
     title: "",
     description: "",
@@ -148,6 +166,7 @@ const Occurrences = () => {
   const filteredBlocks = blocks.filter((b) => b.condominium_id === formData.condominium_id);
   const filteredApartments = apartments.filter((a) => a.block_id === formData.block_id);
   const filteredResidents = residents.filter((r) => r.apartment_id === formData.apartment_id);
+  const filteredVehicles = vehicles.filter((v) => v.condominium_id === formData.condominium_id);
 
   // Build apartment warnings count map from all occurrences
   const apartmentWarningsCount: Record<string, number> = {};
@@ -173,10 +192,11 @@ const Occurrences = () => {
 
     try {
       // Fetch condominiums
+      const managedIds = await fetchManagedCondominiumIds();
       const { data: condosData } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id);
+        .in("id", managedIds);
       setCondominiums(condosData || []);
 
       if (condosData && condosData.length > 0) {
@@ -209,6 +229,14 @@ const Occurrences = () => {
           }
         }
 
+        // Fetch vehicles
+        const { data: vehiclesData } = await supabase
+          .from("vehicles")
+          .select("id, condominium_id, apartment_id, plate, model, color")
+          .in("condominium_id", condoIds)
+          .order("plate");
+        setVehicles(vehiclesData || []);
+
         // Fetch occurrences
         const { data: occurrencesData } = await supabase
           .from("occurrences")
@@ -217,7 +245,8 @@ const Occurrences = () => {
             condominiums(name),
             blocks(name),
             apartments(number),
-            residents(full_name)
+            residents(full_name),
+            fines(status, payment_method)
           `)
           .in("condominium_id", condoIds)
           .order("created_at", { ascending: false });
@@ -429,6 +458,7 @@ const Occurrences = () => {
           block_id: formData.block_id || null,
           apartment_id: formData.apartment_id || null,
           resident_id: formData.resident_id || null,
+          vehicle_id: formData.vehicle_id || null,
           registered_by: user.id,
           type: formData.type,
           status: "registrada",
@@ -473,6 +503,7 @@ const Occurrences = () => {
         block_id: "",
         apartment_id: "",
         resident_id: "",
+        vehicle_id: "",
         type: "advertencia",
         title: "",
         description: "",
@@ -522,15 +553,10 @@ const Occurrences = () => {
         throw new Error(data.error);
       }
 
-      // Update occurrence status to 'notificado'
-      const { error: updateError } = await supabase
-        .from("occurrences")
-        .update({ status: "notificado" })
-        .eq("id", occurrence.id);
-
-      if (updateError) {
+      // Move the occurrence to the workflow's "notified" step, when allowed from its current state
+      await transitionOccurrenceToStatus(occurrence.id, "notificado", "sindico").catch((updateError) => {
         console.error("Error updating status:", updateError);
-      }
+      });
 
       toast({
         title: "Notificação enviada!",
@@ -708,24 +734,26 @@ const Occurrences = () => {
               </SelectContent>
             </Select>
           </div>
-          <Button
-            variant="hero"
-            onClick={() => {
-              if (condominiums.length === 0) {
-                toast({
-                  title: "Atenção",
-                  description: "Cadastre um condomínio primeiro.",
-                  variant: "destructive",
-                });
-                return;
-              }
-              setIsDialogOpen(true);
-            }}
-            className="w-full sm:w-auto sm:self-end"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Nova Ocorrência
-          </Button>
+          {(condominiums.length === 0 || canAny("occurrences.register")) && (
+            <Button
+              variant="hero"
+              onClick={() => {
+                if (condominiums.length === 0) {
+                  toast({
+                    title: "Atenção",
+                    description: "Cadastre um condomínio primeiro.",
+                    variant: "destructive",
+                  });
+                  return;
+                }
+                setIsDialogOpen(true);
+              }}
+              className="w-full sm:w-auto sm:self-end"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Nova Ocorrência
+            </Button>
+          )}
         </div>
 
         {/* Results Counter */}
@@ -773,7 +801,7 @@ const Occurrences = () => {
                 ? "Tente ajustar os filtros para ver mais resultados." 
                 : "Registre ocorrências para iniciar o fluxo de notificações."}
             </p>
-            {statusFilter === "all" && typeFilter === "all" && (
+            {statusFilter === "all" && typeFilter === "all" && canAny("occurrences.register") && (
               <Button variant="hero" onClick={() => setIsDialogOpen(true)} className="w-full sm:w-auto">
                 <Plus className="w-4 h-4 mr-2" />
                 Registrar Ocorrência
@@ -792,6 +820,12 @@ const Occurrences = () => {
                     <div className="flex items-center gap-2 mb-2 flex-wrap">
                       {getTypeBadge(occurrence.type)}
                       {getStatusBadge(occurrence.status)}
+                      {occurrence.fines?.[0] && (
+                        <FineStatusBadge
+                          status={occurrence.fines[0].status}
+                          paymentMethod={occurrence.fines[0].payment_method}
+                        />
+                      )}
                       {occurrence.apartment_id && apartmentWarningsCount[occurrence.apartment_id] > 0 && (
                         <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-500/10 text-orange-600 dark:text-orange-400">
                           {apartmentWarningsCount[occurrence.apartment_id]}ª Adv.
@@ -961,14 +995,14 @@ const Occurrences = () => {
                     <Select
                       value={formData.condominium_id}
                       onValueChange={(v) =>
-                        setFormData({ ...formData, condominium_id: v, block_id: "", apartment_id: "", resident_id: "" })
+                        setFormData({ ...formData, condominium_id: v, block_id: "", apartment_id: "", resident_id: "", vehicle_id: "" })
                       }
                     >
                       <SelectTrigger className="bg-secondary/50">
                         <SelectValue placeholder="Selecione" />
                       </SelectTrigger>
                       <SelectContent>
-                        {condominiums.map((c) => (
+                        {condominiums.filter((c) => can(c.id, "occurrences.register")).map((c) => (
                           <SelectItem key={c.id} value={c.id}>
                             {c.name}
                           </SelectItem>
@@ -1054,6 +1088,46 @@ const Occurrences = () => {
                   </div>
                 </div>
 
+                {filteredVehicles.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Car className="w-4 h-4 text-muted-foreground" />
+                      Veículo envolvido
+                    </Label>
+                    <Select
+                      value={formData.vehicle_id || "none"}
+                      onValueChange={(v) => {
+                        const vehicle = vehicles.find((item) => item.id === v);
+                        if (!vehicle) {
+                          setFormData({ ...formData, vehicle_id: "" });
+                          return;
+                        }
+                        // The vehicle's unit is the one being notified
+                        const apartment = apartments.find((a) => a.id === vehicle.apartment_id);
+                        setFormData({
+                          ...formData,
+                          vehicle_id: vehicle.id,
+                          block_id: apartment?.block_id || formData.block_id,
+                          apartment_id: vehicle.apartment_id,
+                          resident_id: formData.apartment_id === vehicle.apartment_id ? formData.resident_id : "",
+                        });
+                      }}
+                    >
+                      <SelectTrigger className="bg-secondary/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nenhum</SelectItem>
+                        {filteredVehicles.map((v) => (
+                          <SelectItem key={v.id} value={v.id}>
+                            {describeVehicle(v)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 {/* Apartment History Alert */}
                 {formApartmentHistory && (
                   <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 flex items-start gap-2">
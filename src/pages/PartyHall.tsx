@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useViewModePreference } from "@/hooks/useUserPreferences";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { ensureValidSession, isJwtExpiredError } from "@/lib/ensureAuth";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
@@ -15,15 +16,19 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar as CalendarIcon, PartyPopper, Settings, Plus, Check, X, ClipboardList, MessageCircle, Eye, CalendarDays, LayoutGrid, Pencil, History } from "lucide-react";
-import { format, parseISO, isToday, isTomorrow, isPast, isFuture } from "date-fns";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar as CalendarIcon, PartyPopper, Settings, Plus, Check, X, ClipboardList, MessageCircle, Eye, CalendarDays, LayoutGrid, Pencil, History, Inbox, FileText, ListOrdered } from "lucide-react";
+import { format, formatDistanceToNow, parseISO, isToday, isTomorrow, isPast, isFuture } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import BookingFormDialog from "@/components/party-hall/BookingFormDialog";
 import ChecklistFormDialog from "@/components/party-hall/ChecklistFormDialog";
 import BookingDetailsDialog from "@/components/party-hall/BookingDetailsDialog";
 import BookingCalendar from "@/components/party-hall/BookingCalendar";
 import BookingEditDialog from "@/components/party-hall/BookingEditDialog";
+import WaitlistQueue from "@/components/party-hall/WaitlistQueue";
 import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
+import { PARTY_HALL_GUEST_LISTS_BUCKET, PAYMENT_STATUS_LABELS } from "@/lib/partyHallConstants";
 import { useNavigate } from "react-router-dom";
 
 interface Booking {
@@ -35,6 +40,8 @@ interface Booking {
   guest_count: number | null;
   observations: string | null;
   notification_sent_at: string | null;
+  guest_list_path: string | null;
+  payment_status: string;
   created_at: string;
   resident: {
     id: string;
@@ -52,6 +59,7 @@ interface Booking {
     id: string;
     name: string;
     rules: string | null;
+    max_guests: number | null;
   };
   condominium: {
     id: string;
@@ -87,15 +95,17 @@ export default function PartyHall() {
   const [viewMode, setViewMode] = useViewModePreference("partyHallViewMode", "list" as "list" | "calendar");
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
 
   // Fetch condominiums
   const { data: condominiums = [] } = useQuery({
     queryKey: ["condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("party_hall.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user?.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data;
@@ -119,6 +129,8 @@ export default function PartyHall() {
             guest_count,
             observations,
             notification_sent_at,
+            guest_list_path,
+            payment_status,
             created_at,
             resident:residents!inner(
               id,
@@ -135,7 +147,8 @@ export default function PartyHall() {
             party_hall_setting:party_hall_settings!inner(
               id,
               name,
-              rules
+              rules,
+              max_guests
             ),
             condominium:condominiums!inner(
               id,
@@ -197,6 +210,50 @@ export default function PartyHall() {
     },
   });
 
+  // Approve or reject a pending request; the resident is told by WhatsApp
+  const reviewMutation = useMutation({
+    mutationFn: async ({ booking, approved, reason }: { booking: Booking; approved: boolean; reason?: string }) => {
+      const { error } = await supabase
+        .from("party_hall_bookings")
+        .update({
+          status: approved ? "confirmada" : "cancelada",
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString(),
+          rejection_reason: approved ? null : reason?.trim() || null,
+        })
+        .eq("id", booking.id)
+        .eq("status", "pendente");
+      if (error) throw error;
+
+      // The decision stands even if the message can't be delivered
+      const { error: notifError } = await supabase.functions.invoke("send-party-hall-notification", {
+        body: { bookingId: booking.id, notificationType: approved ? "approved" : "rejected" },
+      });
+      if (notifError) console.error("Error sending review notification:", notifError);
+
+      // A rejected request frees the date for the first resident on the waitlist
+      if (!approved) {
+        const { error: waitlistError } = await supabase.functions.invoke("notify-party-hall-waitlist");
+        if (waitlistError) console.error("Error notifying party hall waitlist:", waitlistError);
+      }
+      return { notified: !notifError };
+    },
+    onSuccess: ({ notified }, { approved }) => {
+      queryClient.invalidateQueries({ queryKey: ["party-hall-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-waitlist"] });
+      toast({
+        title: approved ? "Reserva aprovada" : "Solicitação recusada",
+        description: notified
+          ? "O morador foi avisado pelo WhatsApp."
+          : "Não foi possível enviar o aviso pelo WhatsApp.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro ao analisar solicitação", variant: "destructive" });
+    },
+  });
+
   // Send notification mutation
   const sendNotificationMutation = useMutation({
     mutationFn: async (booking: Booking) => {
@@ -222,40 +279,35 @@ export default function PartyHall() {
   };
 
   const handleApprove = (booking: Booking) => {
-    updateStatusMutation.mutate({ bookingId: booking.id, status: "confirmada" });
+    reviewMutation.mutate({ booking, approved: true });
   };
 
   const handleReject = (booking: Booking) => {
     setBookingToCancel(booking);
+    setRejectionReason("");
     setCancelDialogOpen(true);
   };
 
-  const confirmCancel = async () => {
+  const confirmCancel = () => {
     if (bookingToCancel) {
-      // Send cancellation notification via WhatsApp
-      try {
-        const { data: { session } } = await supabase.auth.getSession();
-        if (session?.access_token) {
-          const { error: notifError } = await supabase.functions.invoke("send-party-hall-notification", {
-            body: { bookingId: bookingToCancel.id, notificationType: "cancelled" },
-          });
-          
-          if (notifError) {
-            console.error("Error sending cancellation notification:", notifError);
-            // Don't block the cancellation if notification fails
-          }
-        }
-      } catch (error) {
-        console.error("Error sending cancellation notification:", error);
-        // Don't block the cancellation if notification fails
-      }
-
-      updateStatusMutation.mutate({ bookingId: bookingToCancel.id, status: "cancelada" });
+      reviewMutation.mutate({ booking: bookingToCancel, approved: false, reason: rejectionReason });
     }
     setCancelDialogOpen(false);
     setBookingToCancel(null);
   };
 
+  const openGuestList = async (booking: Booking) => {
+    if (!booking.guest_list_path) return;
+    const { data, error } = await supabase.storage
+      .from(PARTY_HALL_GUEST_LISTS_BUCKET)
+      .createSignedUrl(booking.guest_list_path, 300);
+    if (error || !data?.signedUrl) {
+      toast({ title: "Não foi possível abrir a lista de convidados", variant: "destructive" });
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
   const handleStartUse = (booking: Booking) => {
     updateStatusMutation.mutate({ bookingId: booking.id, status: "em_uso" });
   };
@@ -284,6 +336,11 @@ export default function PartyHall() {
     return booking.checklists?.some(c => c.type === type);
   };
 
+  // Oldest requests first, as a queue
+  const pendingRequests = bookings
+    .filter(b => b.status === "pendente")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
   const upcomingBookings = bookings.filter(b => 
     ["pendente", "confirmada"].includes(b.status) && 
     (isToday(parseISO(b.booking_date)) || isFuture(parseISO(b.booking_date)))
@@ -344,12 +401,31 @@ export default function PartyHall() {
           )}
         </div>
 
+        {["pendente", "lancado_boleto"].includes(booking.payment_status) && booking.status !== "cancelada" && (
+          <Badge variant="outline" className="text-xs">
+            {PAYMENT_STATUS_LABELS[booking.payment_status]}
+          </Badge>
+        )}
+
+        {booking.status === "pendente" && (
+          <p className="text-xs text-muted-foreground">
+            Solicitada {formatDistanceToNow(parseISO(booking.created_at), { addSuffix: true, locale: ptBR })}
+          </p>
+        )}
+
         <div className="flex flex-wrap gap-2 pt-2 border-t">
           <Button size="sm" variant="outline" onClick={() => handleViewDetails(booking)}>
             <Eye className="h-4 w-4 mr-1" />
             Ver
           </Button>
 
+          {booking.guest_list_path && (
+            <Button size="sm" variant="outline" onClick={() => openGuestList(booking)}>
+              <FileText className="h-4 w-4 mr-1" />
+              Lista
+            </Button>
+          )}
+
           {booking.status !== "finalizada" && booking.status !== "cancelada" && (
             <Button size="sm" variant="outline" onClick={() => handleEditBooking(booking)}>
               <Pencil className="h-4 w-4 mr-1" />
@@ -359,11 +435,11 @@ export default function PartyHall() {
 
           {booking.status === "pendente" && (
             <>
-              <Button size="sm" variant="default" onClick={() => handleApprove(booking)}>
+              <Button size="sm" variant="default" onClick={() => handleApprove(booking)} disabled={reviewMutation.isPending}>
                 <Check className="h-4 w-4 mr-1" />
                 Aprovar
               </Button>
-              <Button size="sm" variant="destructive" onClick={() => handleReject(booking)}>
+              <Button size="sm" variant="destructive" onClick={() => handleReject(booking)} disabled={reviewMutation.isPending}>
                 <X className="h-4 w-4 mr-1" />
                 Rejeitar
               </Button>
@@ -417,14 +493,14 @@ export default function PartyHall() {
     <DashboardLayout>
       <SubscriptionGate condominiumId={selectedCondominium !== "all" ? selectedCondominium : undefined}>
       <div className="flex-1 space-y-4 p-4 md:p-6 lg:p-8 pt-6">
-        <SindicoBreadcrumbs items={[{ label: "Salão de Festas" }]} />
+        <SindicoBreadcrumbs items={[{ label: "Áreas Comuns" }]} />
         <TrialBanner />
 
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div>
-            <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Salão de Festas</h2>
+            <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Áreas Comuns</h2>
             <p className="text-muted-foreground">
-              Gerencie reservas e checklists dos espaços
+              Gerencie reservas e checklists do salão de festas, churrasqueiras, quadras e demais espaços
             </p>
           </div>
           <div className="flex gap-2">
@@ -503,7 +579,14 @@ export default function PartyHall() {
         ) : (
           /* List View - Tabs */
           <Tabs defaultValue="upcoming" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-5">
+              <TabsTrigger value="approval" className="gap-2">
+                <Inbox className="h-4 w-4" />
+                <span className="hidden sm:inline">Aprovação</span>
+                {pendingRequests.length > 0 && (
+                  <Badge variant="destructive" className="ml-1">{pendingRequests.length}</Badge>
+                )}
+              </TabsTrigger>
               <TabsTrigger value="upcoming" className="gap-2">
                 <CalendarIcon className="h-4 w-4" />
                 <span className="hidden sm:inline">Próximas</span>
@@ -518,12 +601,33 @@ export default function PartyHall() {
                   <Badge variant="secondary" className="ml-1">{activeBookings.length}</Badge>
                 )}
               </TabsTrigger>
+              <TabsTrigger value="waitlist" className="gap-2">
+                <ListOrdered className="h-4 w-4" />
+                <span className="hidden sm:inline">Fila de Espera</span>
+              </TabsTrigger>
               <TabsTrigger value="history" className="gap-2">
                 <ClipboardList className="h-4 w-4" />
                 <span className="hidden sm:inline">Histórico</span>
               </TabsTrigger>
             </TabsList>
 
+            <TabsContent value="approval" className="space-y-4">
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+              ) : pendingRequests.length === 0 ? (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-12">
+                    <Inbox className="h-12 w-12 text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">Nenhuma solicitação aguardando aprovação</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {pendingRequests.map(renderBookingCard)}
+                </div>
+              )}
+            </TabsContent>
+
             <TabsContent value="upcoming" className="space-y-4">
               {isLoading ? (
                 <div className="text-center py-8 text-muted-foreground">Carregando...</div>
@@ -556,6 +660,12 @@ export default function PartyHall() {
               )}
             </TabsContent>
 
+            <TabsContent value="waitlist" className="space-y-4">
+              <WaitlistQueue
+                condominiumIds={selectedCondominium !== "all" ? [selectedCondominium] : condominiums.map((c) => c.id)}
+              />
+            </TabsContent>
+
             <TabsContent value="history" className="space-y-4">
               {pastBookings.length === 0 ? (
                 <Card>
@@ -604,9 +714,9 @@ export default function PartyHall() {
         <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Cancelar Reserva</AlertDialogTitle>
+              <AlertDialogTitle>Recusar Solicitação</AlertDialogTitle>
               <AlertDialogDescription>
-                Tem certeza que deseja cancelar esta reserva? Esta ação não pode ser desfeita.
+                O morador será avisado pelo WhatsApp e a data ficará livre novamente, sendo oferecida ao primeiro da lista de espera.
                 {bookingToCancel && (
                   <span className="block mt-2 font-medium text-foreground">
                     {bookingToCancel.resident.full_name} - {format(parseISO(bookingToCancel.booking_date), "dd/MM/yyyy", { locale: ptBR })}
@@ -614,10 +724,20 @@ export default function PartyHall() {
                 )}
               </AlertDialogDescription>
             </AlertDialogHeader>
+            <div className="grid gap-2">
+              <Label htmlFor="rejection_reason">Motivo</Label>
+              <Textarea
+                id="rejection_reason"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                placeholder="Ex: data reservada para manutenção do salão"
+                rows={3}
+              />
+            </div>
             <AlertDialogFooter>
               <AlertDialogCancel>Voltar</AlertDialogCancel>
               <AlertDialogAction onClick={confirmCancel} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                Confirmar Cancelamento
+                Recusar
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { useAuth } from "@/hooks/useAuth";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
@@ -57,6 +58,7 @@ const notificationTypeConfig: Record<string, { label: string; icon: React.ReactN
   reminder: { label: "Lembrete", icon: <Clock className="h-4 w-4" />, color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300" },
   cancelled: { label: "Cancelamento", icon: <XCircle className="h-4 w-4" />, color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300" },
   confirmed: { label: "Confirmação", icon: <CheckCircle className="h-4 w-4" />, color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300" },
+  rejected: { label: "Recusa", icon: <XCircle className="h-4 w-4" />, color: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300" },
 };
 
 const statusConfig: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
@@ -77,10 +79,11 @@ export default function PartyHallNotifications() {
   const { data: condominiums = [] } = useQuery({
     queryKey: ["condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("party_hall.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user?.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data;
@@ -157,7 +160,7 @@ export default function PartyHallNotifications() {
         
         <SindicoBreadcrumbs
           items={[
-            { label: "Salão de Festas", href: "/party-hall" },
+            { label: "Áreas Comuns", href: "/party-hall" },
             { label: "Histórico de Notificações" },
           ]}
         />
@@ -213,6 +216,7 @@ export default function PartyHallNotifications() {
                     <SelectItem value="reminder">Lembrete</SelectItem>
                     <SelectItem value="cancelled">Cancelamento</SelectItem>
                     <SelectItem value="confirmed">Confirmação</SelectItem>
+                    <SelectItem value="rejected">Recusa</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
@@ -14,20 +15,30 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Settings, Plus, Trash2, Building2, ClipboardList, Save } from "lucide-react";
+import { Settings, Plus, Trash2, Building2, ClipboardList, Save, CalendarOff } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
+import SpaceRulesFields, { type SpaceRules } from "@/components/party-hall/SpaceRulesFields";
+import BlackoutDatesDialog from "@/components/party-hall/BlackoutDatesDialog";
+import { AREA_TYPE_LABELS, BOOKING_MODE_LABELS } from "@/lib/partyHallConstants";
 
 interface PartyHallSetting {
   id: string;
   condominium_id: string;
   name: string;
   rental_fee: number;
+  deposit_amount: number;
   rules: string | null;
   advance_days_required: number;
   check_in_time: string;
   check_out_time: string;
   max_guests: number;
   is_active: boolean;
+  area_type: string;
+  booking_mode: string;
+  slot_duration_minutes: number;
+  max_bookings_per_unit_month: number | null;
+  cooldown_days: number;
+  waitlist_claim_hours: number;
   condominium?: {
     name: string;
   };
@@ -36,12 +47,25 @@ interface PartyHallSetting {
 interface ChecklistTemplate {
   id: string;
   condominium_id: string;
+  party_hall_setting_id: string | null;
   item_name: string;
   category: string;
   is_active: boolean;
   display_order: number;
 }
 
+const DEFAULT_SPACE_RULES: SpaceRules = {
+  area_type: "salao_festas",
+  booking_mode: "dia_inteiro",
+  slot_duration_minutes: 60,
+  max_bookings_per_unit_month: null,
+  cooldown_days: 0,
+  waitlist_claim_hours: 24,
+};
+
+// Select items cannot have an empty value, so "all spaces" gets a sentinel
+const ALL_SPACES = "all";
+
 export default function PartyHallSettings() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -50,32 +74,37 @@ export default function PartyHallSettings() {
   const [newSpaceDialogOpen, setNewSpaceDialogOpen] = useState(false);
   const [newTemplateDialogOpen, setNewTemplateDialogOpen] = useState(false);
   const [editingSpace, setEditingSpace] = useState<PartyHallSetting | null>(null);
+  const [blackoutSpace, setBlackoutSpace] = useState<PartyHallSetting | null>(null);
   
   // Form states for new space
   const [newSpace, setNewSpace] = useState({
     name: "",
     rental_fee: 0,
+    deposit_amount: 0,
     rules: "",
     advance_days_required: 3,
     check_in_time: "08:00",
     check_out_time: "22:00",
     max_guests: 50,
+    ...DEFAULT_SPACE_RULES,
   });
 
   // Form state for new template item
   const [newTemplateItem, setNewTemplateItem] = useState({
     item_name: "",
     category: "Geral",
+    party_hall_setting_id: ALL_SPACES,
   });
 
   // Fetch condominiums
   const { data: condominiums = [] } = useQuery({
     queryKey: ["condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("party_hall.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user?.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data;
@@ -140,11 +169,13 @@ export default function PartyHallSettings() {
       setNewSpace({
         name: "",
         rental_fee: 0,
+        deposit_amount: 0,
         rules: "",
         advance_days_required: 3,
         check_in_time: "08:00",
         check_out_time: "22:00",
         max_guests: 50,
+        ...DEFAULT_SPACE_RULES,
       });
       toast({ title: "Espaço criado com sucesso!" });
     },
@@ -161,12 +192,19 @@ export default function PartyHallSettings() {
         .update({
           name: space.name,
           rental_fee: space.rental_fee,
+          deposit_amount: space.deposit_amount,
           rules: space.rules,
           advance_days_required: space.advance_days_required,
           check_in_time: space.check_in_time,
           check_out_time: space.check_out_time,
           max_guests: space.max_guests,
           is_active: space.is_active,
+          area_type: space.area_type,
+          booking_mode: space.booking_mode,
+          slot_duration_minutes: space.slot_duration_minutes,
+          max_bookings_per_unit_month: space.max_bookings_per_unit_month,
+          cooldown_days: space.cooldown_days,
+          waitlist_claim_hours: space.waitlist_claim_hours,
         })
         .eq("id", space.id);
       if (error) throw error;
@@ -209,6 +247,8 @@ export default function PartyHallSettings() {
           condominium_id: selectedCondominium,
           item_name: newTemplateItem.item_name,
           category: newTemplateItem.category,
+          party_hall_setting_id:
+            newTemplateItem.party_hall_setting_id === ALL_SPACES ? null : newTemplateItem.party_hall_setting_id,
           display_order: templates.length,
         });
       if (error) throw error;
@@ -216,7 +256,7 @@ export default function PartyHallSettings() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["checklist-templates"] });
       setNewTemplateDialogOpen(false);
-      setNewTemplateItem({ item_name: "", category: "Geral" });
+      setNewTemplateItem({ item_name: "", category: "Geral", party_hall_setting_id: ALL_SPACES });
       toast({ title: "Item de checklist criado com sucesso!" });
     },
     onError: (error) => {
@@ -249,16 +289,16 @@ export default function PartyHallSettings() {
       <div className="flex-1 space-y-4 p-4 md:p-6 lg:p-8 pt-6">
         <SindicoBreadcrumbs 
           items={[
-            { label: "Salão de Festas", href: "/party-hall" },
+            { label: "Áreas Comuns", href: "/party-hall" },
             { label: "Configurações" }
           ]}
         />
 
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div>
-            <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Configurações do Salão</h2>
+            <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Configurações das Áreas Comuns</h2>
             <p className="text-muted-foreground">
-              Configure espaços e templates de checklist
+              Configure os espaços reserváveis, suas regras e templates de checklist
             </p>
           </div>
           <Select value={selectedCondominium} onValueChange={setSelectedCondominium}>
@@ -307,9 +347,14 @@ export default function PartyHallSettings() {
                         id="name"
                         value={newSpace.name}
                         onChange={(e) => setNewSpace({ ...newSpace, name: e.target.value })}
-                        placeholder="Ex: Salão de Festas"
+                        placeholder="Ex: Salão de Festas, Churrasqueira 1"
                       />
                     </div>
+                    <SpaceRulesFields
+                      idPrefix="new-"
+                      value={newSpace}
+                      onChange={(rules) => setNewSpace({ ...newSpace, ...rules })}
+                    />
                     <div className="grid grid-cols-2 gap-4">
                       <div className="grid gap-2">
                         <Label htmlFor="rental_fee">Taxa de Locação (R$)</Label>
@@ -320,6 +365,16 @@ export default function PartyHallSettings() {
                           onChange={(e) => setNewSpace({ ...newSpace, rental_fee: Number(e.target.value) })}
                         />
                       </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="deposit_amount">Caução (R$)</Label>
+                        <Input
+                          id="deposit_amount"
+                          type="number"
+                          min="0"
+                          value={newSpace.deposit_amount}
+                          onChange={(e) => setNewSpace({ ...newSpace, deposit_amount: Number(e.target.value) })}
+                        />
+                      </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="grid gap-2">
@@ -409,11 +464,20 @@ export default function PartyHallSettings() {
                         <div>
                           <CardTitle className="flex items-center gap-2">
                             {space.name}
+                            <Badge variant="outline">{AREA_TYPE_LABELS[space.area_type] || space.area_type}</Badge>
                             {!space.is_active && <Badge variant="secondary">Inativo</Badge>}
                           </CardTitle>
                           <CardDescription>{space.condominium?.name}</CardDescription>
                         </div>
                         <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setBlackoutSpace(space)}
+                            aria-label="Datas bloqueadas"
+                          >
+                            <CalendarOff className="h-4 w-4" />
+                          </Button>
                           <Button 
                             size="sm" 
                             variant="ghost"
@@ -437,6 +501,10 @@ export default function PartyHallSettings() {
                           <p className="text-muted-foreground">Taxa</p>
                           <p className="font-medium">R$ {space.rental_fee?.toFixed(2) || "0,00"}</p>
                         </div>
+                        <div>
+                          <p className="text-muted-foreground">Caução</p>
+                          <p className="font-medium">R$ {Number(space.deposit_amount || 0).toFixed(2)}</p>
+                        </div>
                         <div>
                           <p className="text-muted-foreground">Horário</p>
                           <p className="font-medium">{space.check_in_time?.slice(0,5)} - {space.check_out_time?.slice(0,5)}</p>
@@ -449,6 +517,26 @@ export default function PartyHallSettings() {
                           <p className="text-muted-foreground">Antecedência</p>
                           <p className="font-medium">{space.advance_days_required} dias</p>
                         </div>
+                        <div>
+                          <p className="text-muted-foreground">Reserva</p>
+                          <p className="font-medium">
+                            {space.booking_mode === "por_horario"
+                              ? `Blocos de ${space.slot_duration_minutes} min`
+                              : BOOKING_MODE_LABELS[space.booking_mode]}
+                          </p>
+                        </div>
+                        {space.max_bookings_per_unit_month && (
+                          <div>
+                            <p className="text-muted-foreground">Limite por Unidade</p>
+                            <p className="font-medium">{space.max_bookings_per_unit_month} por mês</p>
+                          </div>
+                        )}
+                        {space.cooldown_days > 0 && (
+                          <div>
+                            <p className="text-muted-foreground">Intervalo</p>
+                            <p className="font-medium">{space.cooldown_days} dias entre reservas</p>
+                          </div>
+                        )}
                       </div>
                       {space.rules && (
                         <div className="pt-2 border-t">
@@ -502,6 +590,23 @@ export default function PartyHallSettings() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="template_space">Espaço</Label>
+                      <Select
+                        value={newTemplateItem.party_hall_setting_id}
+                        onValueChange={(value) => setNewTemplateItem({ ...newTemplateItem, party_hall_setting_id: value })}
+                      >
+                        <SelectTrigger id="template_space">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_SPACES}>Todos os espaços</SelectItem>
+                          {settings.map((space) => (
+                            <SelectItem key={space.id} value={space.id}>{space.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                   <DialogFooter>
                     <Button variant="outline" onClick={() => setNewTemplateDialogOpen(false)}>
@@ -534,7 +639,7 @@ export default function PartyHallSettings() {
                 <CardHeader>
                   <CardTitle>Itens do Checklist</CardTitle>
                   <CardDescription>
-                    Estes itens serão usados nos checklists de entrada e saída
+                    Estes itens serão usados nos checklists de entrada e saída. Itens sem espaço valem para todos.
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -544,6 +649,11 @@ export default function PartyHallSettings() {
                         <div className="flex items-center gap-3">
                           <Badge variant="outline">{item.category}</Badge>
                           <span>{item.item_name}</span>
+                          {item.party_hall_setting_id && (
+                            <Badge variant="secondary">
+                              {settings.find((space) => space.id === item.party_hall_setting_id)?.name || "Espaço"}
+                            </Badge>
+                          )}
                         </div>
                         <Button 
                           size="sm" 
@@ -577,6 +687,11 @@ export default function PartyHallSettings() {
                     onChange={(e) => setEditingSpace({ ...editingSpace, name: e.target.value })}
                   />
                 </div>
+                <SpaceRulesFields
+                  idPrefix="edit-"
+                  value={editingSpace}
+                  onChange={(rules) => setEditingSpace({ ...editingSpace, ...rules })}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <div className="grid gap-2">
                     <Label htmlFor="edit-rental_fee">Taxa de Locação (R$)</Label>
@@ -587,6 +702,16 @@ export default function PartyHallSettings() {
                       onChange={(e) => setEditingSpace({ ...editingSpace, rental_fee: Number(e.target.value) })}
                     />
                   </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-deposit_amount">Caução (R$)</Label>
+                    <Input
+                      id="edit-deposit_amount"
+                      type="number"
+                      min="0"
+                      value={editingSpace.deposit_amount}
+                      onChange={(e) => setEditingSpace({ ...editingSpace, deposit_amount: Number(e.target.value) })}
+                    />
+                  </div>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="grid gap-2">
@@ -661,6 +786,14 @@ export default function PartyHallSettings() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {blackoutSpace && (
+          <BlackoutDatesDialog
+            open={!!blackoutSpace}
+            onOpenChange={(open) => !open && setBlackoutSpace(null)}
+            space={blackoutSpace}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
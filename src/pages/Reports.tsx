@@ -2,8 +2,10 @@ import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { Helmet } from "react-helmet-async";
 import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
 import SubscriptionGate from "@/components/sindico/SubscriptionGate";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -35,6 +37,7 @@ import autoTable from "jspdf-autotable";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
+import FineStatusBadge from "@/components/occurrences/FineStatusBadge";
 import { format, startOfMonth, endOfMonth, subMonths, parseISO, isWithinInterval, eachMonthOfInterval, startOfDay, endOfDay } from "date-fns";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import {
@@ -66,10 +69,16 @@ interface Occurrence {
 interface Fine {
   id: string;
   amount: number;
-  status: "em_aberto" | "pago" | "vencido";
+  status: "em_aberto" | "pago" | "vencido" | "cancelada";
   due_date: string;
   paid_at: string | null;
+  payment_method: string | null;
+  total_due: number | null;
+  suggested_multiplier: number | null;
+  recidivism_count: number | null;
   created_at: string;
+  occurrence_id: string;
+  occurrences?: { title: string } | null;
 }
 
 interface Condominium {
@@ -92,6 +101,7 @@ const PIE_COLORS = [COLORS.warning, COLORS.blue, COLORS.danger];
 
 const Reports = () => {
   const { user } = useAuth();
+  const { isConselheiro, councilCondominiums } = useUserRole();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { date: formatDate, dateTime: formatDateTime, custom: formatCustom, monthYear: formatMonthYear } = useDateFormatter();
@@ -114,11 +124,13 @@ const Reports = () => {
     if (!user) return;
 
     try {
-      // Fetch condominiums
-      const { data: condosData } = await supabase
-        .from("condominiums")
-        .select("id, name")
-        .eq("owner_id", user.id);
+      // Fetch condominiums (council members report on the condominiums they oversee)
+      const { data: condosData } = isConselheiro
+        ? { data: councilCondominiums }
+        : await supabase
+            .from("condominiums")
+            .select("id, name")
+            .in("id", await fetchManagedCondominiumIds("reports.view"));
       setCondominiums(condosData || []);
 
       if (condosData && condosData.length > 0) {
@@ -134,7 +146,7 @@ const Reports = () => {
         // Fetch fines
         const { data: finesData } = await supabase
           .from("fines")
-          .select("id, amount, status, due_date, paid_at, created_at, occurrence_id")
+          .select("id, amount, status, due_date, paid_at, payment_method, total_due, suggested_multiplier, recidivism_count, created_at, occurrence_id, occurrences(title)")
           .in(
             "occurrence_id",
             (occurrencesData || []).map((o) => o.id)
@@ -217,6 +229,11 @@ const Reports = () => {
     };
   }, [filteredOccurrences, filteredFines]);
 
+  const recentFines = useMemo(
+    () => [...filteredFines].sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, 10),
+    [filteredFines]
+  );
+
   // Chart data
   const occurrencesByTypeData = [
     { name: "Advertências", value: stats.byType.advertencia, color: COLORS.warning },
@@ -741,6 +758,59 @@ const Reports = () => {
           </CardContent>
         </Card>
 
+        {/* Recent Fines */}
+        <Card className="bg-gradient-card border-border/50 mb-8">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <DollarSign className="w-5 h-5 text-primary" />
+              Multas Recentes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentFines.length === 0 ? (
+              <div className="flex items-center justify-center h-24 text-muted-foreground">
+                Nenhuma multa no período
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {recentFines.map((fine) => (
+                  <button
+                    key={fine.id}
+                    type="button"
+                    onClick={() =>
+                      navigate(
+                        isConselheiro
+                          ? `/conselho/ocorrencias?ocorrencia=${fine.occurrence_id}`
+                          : `/occurrences/${fine.occurrence_id}`
+                      )
+                    }
+                    className="w-full flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3 text-left hover:bg-muted/30 rounded-md px-2 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {fine.occurrences?.title || "Ocorrência"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {fine.status === "pago" && fine.paid_at
+                          ? `Paga em ${formatDate(fine.paid_at)}`
+                          : `Vencimento: ${formatDate(fine.due_date)}`}
+                        {(fine.suggested_multiplier || 1) > 1 &&
+                          ` · Reincidente (${fine.recidivism_count}x no período) - multiplicador sugerido: ${fine.suggested_multiplier}x`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-sm font-semibold">
+                        {formatCurrency(Number(fine.status !== "pago" && fine.total_due != null ? fine.total_due : fine.amount))}
+                      </span>
+                      <FineStatusBadge status={fine.status} paymentMethod={fine.payment_method} />
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
       </div>
       </SubscriptionGate>
     </DashboardLayout>
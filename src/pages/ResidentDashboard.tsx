@@ -12,6 +12,7 @@ import {
   ChevronRight,
   Shield,
   AlertTriangle,
+  UserCheck,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
@@ -279,6 +280,21 @@ const ResidentDashboard = () => {
               </CardContent>
             </Card>
           ))}
+          <Card
+            className="bg-card border-border shadow-card hover:shadow-elevated transition-all duration-300 cursor-pointer"
+            onClick={() => navigate("/resident/visitantes")}
+          >
+            <CardContent className="p-3 md:p-5">
+              <div className="flex items-start justify-between mb-3 md:mb-4">
+                <div className="w-9 h-9 md:w-11 md:h-11 rounded-xl bg-gradient-to-br from-accent to-emerald-600 flex items-center justify-center shadow-lg">
+                  <UserCheck className="w-4 h-4 md:w-5 md:h-5 text-white" />
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </div>
+              <p className="font-semibold text-sm md:text-base text-foreground">Visitantes</p>
+              <p className="text-xs md:text-sm text-muted-foreground">Autorizar entrada</p>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Recent Occurrences */}
@@ -37,11 +37,16 @@ import {
   ChevronLeft,
   ChevronRight,
   Clock,
+  FileDown,
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import ResidentBreadcrumbs from "@/components/resident/ResidentBreadcrumbs";
+import FinePixPayment, { type ResidentFine } from "@/components/occurrences/FinePixPayment";
+import ResidentAppealSection from "@/components/occurrences/ResidentAppealSection";
+import { issueOccurrenceNotice } from "@/lib/occurrenceNoticePdf";
+import { transitionOccurrenceToStatus } from "@/lib/occurrenceWorkflow";
 
 interface OccurrenceDetails {
   id: string;
@@ -49,6 +54,7 @@ interface OccurrenceDetails {
   description: string;
   type: string;
   status: string;
+  condominium_id: string;
   occurred_at: string;
   location: string | null;
   convention_article: string | null;
@@ -56,7 +62,18 @@ interface OccurrenceDetails {
   civil_code_article: string | null;
   legal_basis: string | null;
   created_at: string;
-  condominiums: { name: string; defense_deadline_days: number } | null;
+  condominiums: {
+    name: string;
+    defense_deadline_days: number;
+    appeal_window_days: number;
+    cnpj: string | null;
+    address: string | null;
+    address_number: string | null;
+    neighborhood: string | null;
+    city: string | null;
+    state: string | null;
+    zip_code: string | null;
+  } | null;
   blocks: { name: string } | null;
   apartments: { number: string } | null;
 }
@@ -100,8 +117,10 @@ const ResidentOccurrenceDetails = () => {
   const [defenses, setDefenses] = useState<Defense[]>([]);
   const [evidences, setEvidences] = useState<Evidence[]>([]);
   const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [fines, setFines] = useState<ResidentFine[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [generatingPDF, setGeneratingPDF] = useState(false);
   const [defenseContent, setDefenseContent] = useState("");
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
@@ -163,7 +182,7 @@ const ResidentOccurrenceDetails = () => {
           .from("occurrences")
           .select(`
             *,
-            condominiums(name, defense_deadline_days),
+            condominiums(name, defense_deadline_days, appeal_window_days, cnpj, address, address_number, neighborhood, city, state, zip_code),
             blocks(name),
             apartments(number)
           `)
@@ -217,6 +236,8 @@ const ResidentOccurrenceDetails = () => {
           console.log("Decisions found:", decisionsData);
           setDecisions(decisionsData || []);
         }
+
+        await fetchFines();
       } catch (error) {
         console.error("Error fetching occurrence:", error);
         toast({
@@ -236,6 +257,50 @@ const ResidentOccurrenceDetails = () => {
     }
   }, [id, residentInfo, roleLoading]);
 
+  const handleDownloadNotice = async () => {
+    if (!occurrence || !user) return;
+
+    setGeneratingPDF(true);
+    try {
+      await issueOccurrenceNotice({
+        occurrence,
+        condominium: occurrence.condominiums || { name: residentInfo?.condominium_name || "Condomínio" },
+        residentName: residentInfo?.full_name || null,
+        blockName: occurrence.blocks?.name || residentInfo?.block_name || null,
+        apartmentNumber: occurrence.apartments?.number || residentInfo?.apartment_number || null,
+        evidences,
+        defenses,
+        decisions,
+      });
+    } catch (error) {
+      console.error("Error generating notice PDF:", error);
+      toast({
+        title: "Erro ao gerar PDF",
+        description: "Não foi possível gerar o documento. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setGeneratingPDF(false);
+    }
+  };
+
+  const fetchFines = async () => {
+    if (!id || !residentInfo) return;
+
+    const { data: finesData, error: finesError } = await supabase
+      .from("fines")
+      .select("id, amount, status, due_date, paid_at, payment_method, late_fee_amount, interest_amount, total_due, appeal_suspended_at")
+      .eq("occurrence_id", id)
+      .eq("resident_id", residentInfo.id)
+      .order("created_at", { ascending: false });
+
+    if (finesError) {
+      console.error("Error fetching fines:", finesError);
+      return;
+    }
+    setFines(finesData || []);
+  };
+
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -320,11 +385,11 @@ const ResidentOccurrenceDetails = () => {
         }
       }
 
-      // Update occurrence status to "em_defesa" when defense is submitted
-      await supabase
-        .from("occurrences")
-        .update({ status: "em_defesa" })
-        .eq("id", occurrence.id);
+      // Move the occurrence to the workflow's defense step when the condominium allows it
+      const movedToDefense = await transitionOccurrenceToStatus(occurrence.id, "em_defesa", "morador").catch((err) => {
+        console.error("Error moving occurrence to defense:", err);
+        return false;
+      });
 
       // Notify síndico via WhatsApp (fire and forget - don't block on result)
       supabase.functions.invoke("notify-sindico-defense", {
@@ -352,7 +417,7 @@ const ResidentOccurrenceDetails = () => {
       setDefenseContent("");
       setUploadedFiles([]);
       setDefenses([defenseData, ...defenses]);
-      setOccurrence({ ...occurrence, status: "em_defesa" });
+      if (movedToDefense) setOccurrence({ ...occurrence, status: "em_defesa" });
     } catch (error: any) {
       console.error("Error submitting defense:", error);
       toast({
@@ -475,6 +540,16 @@ const ResidentOccurrenceDetails = () => {
               {occurrence.title}
             </h1>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadNotice}
+            disabled={generatingPDF}
+            className="shrink-0 gap-2"
+          >
+            {generatingPDF ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+            <span className="hidden sm:inline">Baixar documento</span>
+          </Button>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -912,6 +987,21 @@ const ResidentOccurrenceDetails = () => {
                 </CardContent>
               </Card>
             )}
+
+            {/* Appeal to the council against a warning or fine */}
+            {occurrence && decisions.length > 0 && (
+              <ResidentAppealSection
+                occurrenceId={occurrence.id}
+                decisions={decisions}
+                appealWindowDays={occurrence.condominiums?.appeal_window_days || 15}
+                onFiled={fetchFines}
+              />
+            )}
+
+            {/* Fine Payment Section */}
+            {fines.map((fine) => (
+              <FinePixPayment key={fine.id} fine={fine} onPaid={fetchFines} />
+            ))}
           </div>
 
           {/* Right Column - Empty for now, can be used for future sidebar content */}
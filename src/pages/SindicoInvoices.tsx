@@ -3,6 +3,8 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Helmet } from "react-helmet-async";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
+import { useCondominiumAccess } from "@/hooks/useCondominiumAccess";
 import { useToast } from "@/hooks/use-toast";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import { usePullToRefresh } from "@/hooks/usePullToRefresh";
@@ -70,6 +72,7 @@ interface Invoice {
   period_start: string;
   period_end: string;
   created_at: string;
+  organization_invoice_id: string | null;
   condominium: {
     id: string;
     name: string;
@@ -112,6 +115,8 @@ const STATUS_CONFIG: Record<string, { label: string; color: string; icon: React.
 
 const SindicoInvoices = () => {
   const { user } = useAuth();
+  // Only the síndico pays invoices; delegated managers with "invoices.view" just follow them
+  const { isOwner } = useCondominiumAccess();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { date: formatDate } = useDateFormatter();
@@ -206,10 +211,11 @@ const SindicoInvoices = () => {
     queryKey: ["sindico-condominiums", user?.id],
     queryFn: async () => {
       if (!user) return [];
+      const managedIds = await fetchManagedCondominiumIds("invoices.view");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data || [];
@@ -237,6 +243,7 @@ const SindicoInvoices = () => {
           period_start,
           period_end,
           created_at,
+          organization_invoice_id,
           condominium:condominiums(id, name),
           subscription:subscriptions(id, plan)
         `)
@@ -499,7 +506,7 @@ const SindicoInvoices = () => {
                             
                             {/* Ação */}
                             <div>
-                              {invoice.status === "pending" || invoice.status === "overdue" ? (
+                              {isOwner(invoice.condominium?.id) && !invoice.organization_invoice_id && (invoice.status === "pending" || invoice.status === "overdue") ? (
                                 userProfile?.email ? (
                                   <MercadoPagoTransparentCheckout
                                     invoiceId={invoice.id}
@@ -520,6 +527,10 @@ const SindicoInvoices = () => {
                                 <span className="text-xs text-muted-foreground">
                                   Pago em {invoice.paid_at && formatDate(invoice.paid_at)}
                                 </span>
+                              ) : invoice.organization_invoice_id ? (
+                                <span className="text-xs text-muted-foreground">
+                                  Faturamento consolidado
+                                </span>
                               ) : null}
                             </div>
                           </div>
@@ -615,7 +626,7 @@ const SindicoInvoices = () => {
                               </Badge>
                             </TableCell>
                             <TableCell>
-                              {invoice.status === "pending" || invoice.status === "overdue" ? (
+                              {isOwner(invoice.condominium?.id) && !invoice.organization_invoice_id && (invoice.status === "pending" || invoice.status === "overdue") ? (
                                 userProfile?.email ? (
                                   <MercadoPagoTransparentCheckout
                                     invoiceId={invoice.id}
@@ -636,6 +647,10 @@ const SindicoInvoices = () => {
                                 <span className="text-xs text-muted-foreground">
                                   Pago em {invoice.paid_at && formatDate(invoice.paid_at)}
                                 </span>
+                              ) : invoice.organization_invoice_id ? (
+                                <span className="text-xs text-muted-foreground">
+                                  Faturamento consolidado
+                                </span>
                               ) : null}
                             </TableCell>
                           </TableRow>
@@ -48,6 +48,8 @@ const getActionIcon = (tableName: string, action: string, newData: any): LucideI
   if (newData?.action === "create_sindico") return UserPlus;
   if (newData?.action === "delete_sindico") return UserMinus;
   if (newData?.action === "add_extra_days") return Calendar;
+  if (newData?.action === "add_condominium_manager") return UserPlus;
+  if (newData?.action === "add_organization_member") return UserPlus;
 
   // Por tabela
   const tableIcons: Record<string, LucideIcon> = {
@@ -137,6 +139,8 @@ const formatAuditAction = (tableName: string, action: string, newData: any): str
     party_hall_bookings: { name: "Reserva de Salão", feminine: true },
     party_hall_settings: { name: "Config Salão de Festas", feminine: true },
     contact_messages: { name: "Mensagem de Contato", feminine: true },
+    user_condominiums: { name: "Vínculo de Condomínio", feminine: false },
+    organization_members: { name: "Membro de Administradora", feminine: false },
   };
 
   const actionNamesMasc: Record<string, string> = {
@@ -163,6 +167,12 @@ const formatAuditAction = (tableName: string, action: string, newData: any): str
   if (newData?.action === "add_extra_days") {
     return `+${newData.days_added} dias: ${newData.condominium_name || "Assinatura"}`;
   }
+  if (newData?.action === "add_condominium_manager") {
+    return `Gestor adicionado: ${newData.manager_name || "N/A"} (${newData.condominium_name || "Condomínio"})`;
+  }
+  if (newData?.action === "add_organization_member") {
+    return `Membro adicionado: ${newData.member_name || "N/A"} (${newData.organization_name || "Administradora"})`;
+  }
 
   const info = tableInfo[tableName];
   const table = info?.name || tableName;
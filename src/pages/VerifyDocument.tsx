@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { supabase } from "@/integrations/supabase/client";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ShieldCheck, ShieldAlert, AlertCircle, Building2, FileText, Hash } from "lucide-react";
+
+interface VerificationResult {
+  verification_code: string;
+  document_type: string;
+  issued_at: string;
+  content_hash: string;
+  hash_matches: boolean | null;
+  status_at_issue: string;
+  current_status: string | null;
+  occurrence_type: string | null;
+  occurred_at: string | null;
+  condominium_name: string | null;
+}
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  notificacao_extrajudicial: "Notificação Extrajudicial",
+  auto_infracao: "Auto de Infração",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  registrada: "Registrada",
+  notificado: "Notificado",
+  em_defesa: "Em Defesa",
+  arquivada: "Arquivada",
+  advertido: "Advertido",
+  multado: "Multado",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  advertencia: "Advertência",
+  notificacao: "Notificação",
+  multa: "Multa",
+};
+
+const VerifyDocument = () => {
+  const { code } = useParams<{ code: string }>();
+  const [searchParams] = useSearchParams();
+  const hash = searchParams.get("h");
+  const navigate = useNavigate();
+  const { date: formatDate, dateTime: formatDateTime } = useDateFormatter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const { data, error: funcError } = await supabase.functions.invoke("verify-occurrence-document", {
+          body: { code, hash },
+        });
+
+        if (funcError) {
+          const body = await funcError.context?.json?.().catch(() => null);
+          setError(body?.error || "Não foi possível verificar o documento.");
+          return;
+        }
+        if (!data?.valid) {
+          setError(data?.error || "Documento não encontrado.");
+          return;
+        }
+
+        setResult(data);
+      } catch (err) {
+        console.error("Error verifying document:", err);
+        setError("Erro ao verificar o documento. Tente novamente.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [code, hash]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="flex flex-col items-center text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary mb-4" />
+          <p className="text-muted-foreground">Verificando documento...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !result) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-gradient-card border-border/50">
+          <CardContent className="pt-8 pb-8">
+            <div className="flex flex-col items-center text-center">
+              <div className="w-16 h-16 rounded-2xl bg-destructive/10 flex items-center justify-center mb-6">
+                <AlertCircle className="w-8 h-8 text-destructive" />
+              </div>
+              <h2 className="font-display text-xl font-semibold text-foreground mb-2">
+                Documento não verificado
+              </h2>
+              <p className="text-muted-foreground mb-6">{error}</p>
+              <Button variant="outline" onClick={() => navigate("/")}>
+                Voltar para o início
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const authentic = result.hash_matches !== false;
+  const statusChanged = !!result.current_status && result.current_status !== result.status_at_issue;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Helmet>
+        <title>Verificação de Documento | NotificaCondo</title>
+      </Helmet>
+      <Card className="w-full max-w-lg bg-gradient-card border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 justify-center text-center">
+            {authentic ? (
+              <ShieldCheck className="w-6 h-6 text-green-500" />
+            ) : (
+              <ShieldAlert className="w-6 h-6 text-destructive" />
+            )}
+            {authentic ? "Documento Autêntico" : "Conteúdo não confere"}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground text-center">
+            {authentic
+              ? "Este documento foi emitido pela plataforma e está registrado com o código abaixo."
+              : "O código existe, mas o hash informado é diferente do registrado na emissão. O documento pode ter sido alterado."}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+            <FileText className="w-5 h-5 text-primary shrink-0" />
+            <div>
+              <p className="text-sm text-muted-foreground">Documento</p>
+              <p className="font-medium text-foreground">
+                {DOCUMENT_LABELS[result.document_type] || result.document_type} nº {result.verification_code}
+              </p>
+              <p className="text-xs text-muted-foreground">Emitido em {formatDateTime(result.issued_at)}</p>
+            </div>
+          </div>
+
+          {result.condominium_name && (
+            <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+              <Building2 className="w-5 h-5 text-primary shrink-0" />
+              <div>
+                <p className="text-sm text-muted-foreground">Condomínio</p>
+                <p className="font-medium text-foreground">{result.condominium_name}</p>
+                {result.occurrence_type && result.occurred_at && (
+                  <p className="text-xs text-muted-foreground">
+                    {TYPE_LABELS[result.occurrence_type] || result.occurrence_type} - ocorrência de {formatDate(result.occurred_at)}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="p-3 rounded-lg bg-secondary/50 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">Situação na emissão</span>
+              <Badge variant="outline">{STATUS_LABELS[result.status_at_issue] || result.status_at_issue}</Badge>
+            </div>
+            {result.current_status && (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">Situação atual</span>
+                <Badge variant="outline" className={statusChanged ? "bg-amber-500/10 text-amber-600 border-amber-500/20" : ""}>
+                  {STATUS_LABELS[result.current_status] || result.current_status}
+                </Badge>
+              </div>
+            )}
+            {statusChanged && (
+              <p className="text-xs text-amber-600">
+                A ocorrência mudou de situação depois da emissão. Solicite a versão mais recente ao condomínio.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-secondary/50">
+            <Hash className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <p className="text-sm text-muted-foreground">Hash SHA-256 registrado</p>
+              <p className="font-mono text-xs text-foreground break-all">{result.content_hash}</p>
+              {result.hash_matches === null && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Compare com o hash impresso no rodapé do documento.
+                </p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyDocument;
@@ -0,0 +1,191 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, Scale, DollarSign, Wrench, Receipt } from "lucide-react";
+import { parseISO, isBefore, startOfDay } from "date-fns";
+
+const OPEN_OCCURRENCE_STATUSES = ["registrada", "notificado", "em_defesa"];
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  pending: "Pendente",
+  paid: "Paga",
+  overdue: "Vencida",
+  cancelled: "Cancelada",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export default function ConselhoDashboard() {
+  const navigate = useNavigate();
+  const { councilCondominiums } = useUserRole();
+  const { date: formatDate } = useDateFormatter();
+  const condoIds = councilCondominiums.map((c) => c.id);
+
+  const { data: summary, isLoading } = useQuery({
+    queryKey: ["conselho-summary", condoIds],
+    enabled: condoIds.length > 0,
+    queryFn: async () => {
+      const [occurrencesResult, appealsResult, finesResult, tasksResult] = await Promise.all([
+        supabase
+          .from("occurrences")
+          .select("id", { count: "exact", head: true })
+          .in("condominium_id", condoIds)
+          .in("status", OPEN_OCCURRENCE_STATUSES as ("registrada" | "notificado" | "em_defesa")[]),
+        supabase
+          .from("occurrence_appeals")
+          .select("id", { count: "exact", head: true })
+          .in("condominium_id", condoIds)
+          .eq("status", "em_votacao"),
+        supabase
+          .from("fines")
+          .select("amount, total_due, occurrences!inner(condominium_id)")
+          .in("occurrences.condominium_id", condoIds)
+          .in("status", ["em_aberto", "vencido"]),
+        supabase
+          .from("maintenance_tasks")
+          .select("next_due_date")
+          .in("condominium_id", condoIds)
+          .eq("is_active", true),
+      ]);
+
+      const today = startOfDay(new Date());
+      return {
+        openOccurrences: occurrencesResult.count || 0,
+        pendingAppeals: appealsResult.count || 0,
+        openFinesAmount: (finesResult.data || []).reduce(
+          (sum, f) => sum + Number(f.total_due ?? f.amount),
+          0
+        ),
+        openFinesCount: finesResult.data?.length || 0,
+        overdueTasks: (tasksResult.data || []).filter((t) => isBefore(parseISO(t.next_due_date), today)).length,
+      };
+    },
+  });
+
+  const { data: invoices = [], isLoading: invoicesLoading } = useQuery({
+    queryKey: ["conselho-invoices", condoIds],
+    enabled: condoIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("invoices")
+        .select("id, invoice_number, amount, status, due_date, period_start, period_end, paid_at, condominium_id")
+        .in("condominium_id", condoIds)
+        .order("due_date", { ascending: false })
+        .limit(12);
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const cards = [
+    {
+      title: "Ocorrências em andamento",
+      value: summary?.openOccurrences ?? 0,
+      icon: AlertTriangle,
+      url: "/conselho/ocorrencias",
+    },
+    {
+      title: "Recursos em votação",
+      value: summary?.pendingAppeals ?? 0,
+      icon: Scale,
+      url: "/resident/appeals",
+    },
+    {
+      title: `Multas em aberto (${summary?.openFinesCount ?? 0})`,
+      value: formatCurrency(summary?.openFinesAmount ?? 0),
+      icon: DollarSign,
+      url: "/reports",
+    },
+    {
+      title: "Manutenções atrasadas",
+      value: summary?.overdueTasks ?? 0,
+      icon: Wrench,
+      url: "/conselho/manutencoes",
+    },
+  ];
+
+  return (
+    <DashboardLayout>
+      <Helmet>
+        <title>Conselho | NotificaCondo</title>
+      </Helmet>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Conselho</h1>
+          <p className="text-muted-foreground">
+            {councilCondominiums.map((c) => c.name).join(", ") || "Acompanhamento do condomínio"}
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {cards.map((card) => (
+            <Card
+              key={card.title}
+              className="cursor-pointer hover:border-primary/40 transition-colors"
+              onClick={() => navigate(card.url)}
+            >
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+                <card.icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <Skeleton className="h-8 w-20" />
+                ) : (
+                  <div className="text-2xl font-bold">{card.value}</div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Receipt className="w-5 h-5 text-primary" />
+              Faturas do Condomínio
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {invoicesLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : invoices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma fatura encontrada.</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground">
+                        {invoice.invoice_number || "Fatura"} · {formatDate(invoice.period_start)} a {formatDate(invoice.period_end)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {invoice.paid_at ? `Paga em ${formatDate(invoice.paid_at)}` : `Vencimento: ${formatDate(invoice.due_date)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-sm font-semibold">{formatCurrency(Number(invoice.amount))}</span>
+                      <Badge variant="outline">{INVOICE_STATUS_LABELS[invoice.status] || invoice.status}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
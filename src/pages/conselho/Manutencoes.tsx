@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { Helmet } from "react-helmet-async";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Wrench } from "lucide-react";
+
+const EXECUTION_STATUS_LABELS: Record<string, string> = {
+  concluida: "Concluída",
+  parcial: "Parcial",
+  nao_realizada: "Não realizada",
+};
+
+const EXECUTION_STATUS_STYLES: Record<string, string> = {
+  concluida: "bg-green-500/10 text-green-600 border-green-500/20",
+  parcial: "bg-amber-500/10 text-amber-600 border-amber-500/20",
+  nao_realizada: "bg-red-500/10 text-red-600 border-red-500/20",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export default function ConselhoManutencoes() {
+  const { councilCondominiums } = useUserRole();
+  const { dateTime: formatDateTime } = useDateFormatter();
+  const condoIds = councilCondominiums.map((c) => c.id);
+
+  const { data: executions = [], isLoading } = useQuery({
+    queryKey: ["conselho-maintenance-history", condoIds],
+    enabled: condoIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("maintenance_executions")
+        .select("id, executed_at, status, cost, observations, executed_by_name, maintenance_tasks(title, maintenance_categories(name))")
+        .in("condominium_id", condoIds)
+        .order("executed_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const totalCost = executions.reduce((sum, e) => sum + Number(e.cost || 0), 0);
+
+  return (
+    <DashboardLayout>
+      <Helmet>
+        <title>Manutenções | Conselho</title>
+      </Helmet>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Histórico de Manutenções</h1>
+          <p className="text-muted-foreground">
+            Execuções registradas pela equipe de manutenção
+            {executions.length > 0 && ` · custo total ${formatCurrency(totalCost)}`}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : executions.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Wrench className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">Nenhuma manutenção registrada</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {executions.map((execution) => (
+              <Card key={execution.id}>
+                <CardContent className="flex items-start justify-between gap-3 py-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium text-foreground">
+                      {execution.maintenance_tasks?.title || "Manutenção"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDateTime(execution.executed_at)}
+                      {execution.maintenance_tasks?.maintenance_categories?.name &&
+                        ` · ${execution.maintenance_tasks.maintenance_categories.name}`}
+                      {execution.executed_by_name && ` · ${execution.executed_by_name}`}
+                    </p>
+                    {execution.observations && (
+                      <p className="text-sm text-muted-foreground">{execution.observations}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <Badge variant="outline" className={EXECUTION_STATUS_STYLES[execution.status] || ""}>
+                      {EXECUTION_STATUS_LABELS[execution.status] || execution.status}
+                    </Badge>
+                    {execution.cost != null && (
+                      <span className="text-sm font-semibold">{formatCurrency(Number(execution.cost))}</span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
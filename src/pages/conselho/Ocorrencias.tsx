@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useToast } from "@/hooks/use-toast";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileText, Search, PenLine, CheckCircle2, Loader2 } from "lucide-react";
+import { BASE_STATUS_LABELS, type OccurrenceBaseStatus } from "@/lib/occurrenceWorkflow";
+
+interface CouncilOccurrence {
+  id: string;
+  title: string;
+  description: string;
+  type: string;
+  status: OccurrenceBaseStatus;
+  occurred_at: string;
+  legal_basis: string | null;
+  internal_rules_article: string | null;
+  condominium_id: string;
+  condominiums: { name: string } | null;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  advertencia: "Advertência",
+  notificacao: "Notificação",
+  multa: "Multa",
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  arquivada: "Arquivada",
+  advertido: "Advertência Aplicada",
+  multado: "Multa Aplicada",
+};
+
+export default function ConselhoOcorrencias() {
+  const { user } = useAuth();
+  const { councilCondominiums, residentInfo, profileInfo } = useUserRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { date: formatDate, dateTime: formatDateTime } = useDateFormatter();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState("");
+  const [signing, setSigning] = useState<string | null>(null);
+  const condoIds = councilCondominiums.map((c) => c.id);
+  const selectedId = searchParams.get("ocorrencia");
+
+  const { data: occurrences = [], isLoading } = useQuery({
+    queryKey: ["conselho-occurrences", condoIds],
+    enabled: condoIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("occurrences")
+        .select("id, title, description, type, status, occurred_at, legal_basis, internal_rules_article, condominium_id, condominiums(name)")
+        .in("condominium_id", condoIds)
+        .order("occurred_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as CouncilOccurrence[];
+    },
+  });
+
+  const { data: decisions = [], isLoading: decisionsLoading } = useQuery({
+    queryKey: ["conselho-occurrence-decisions", selectedId],
+    enabled: !!selectedId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("decisions")
+        .select("id, decision, justification, decided_at, decision_signatures(id, signer_id, signer_name, signed_at)")
+        .eq("occurrence_id", selectedId!)
+        .order("decided_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const selected = occurrences.find((o) => o.id === selectedId);
+  const filtered = occurrences.filter((o) => o.title.toLowerCase().includes(search.toLowerCase()));
+
+  const handleSign = async (decisionId: string) => {
+    if (!user || !selected) return;
+    setSigning(decisionId);
+    try {
+      const { error } = await supabase.from("decision_signatures").insert({
+        decision_id: decisionId,
+        condominium_id: selected.condominium_id,
+        signer_id: user.id,
+        signer_name: residentInfo?.full_name || profileInfo?.full_name || user.email || "Conselheiro",
+      });
+      if (error) throw error;
+
+      toast({ title: "Decisão coassinada" });
+      queryClient.invalidateQueries({ queryKey: ["conselho-occurrence-decisions", selectedId] });
+    } catch (error) {
+      toast({
+        title: "Erro ao coassinar",
+        description: error instanceof Error ? error.message : "Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setSigning(null);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <Helmet>
+        <title>Ocorrências | Conselho</title>
+      </Helmet>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Ocorrências do Condomínio</h1>
+          <p className="text-muted-foreground">Consulta das ocorrências e coassinatura das decisões do síndico</p>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Buscar por título..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : filtered.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <FileText className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">Nenhuma ocorrência encontrada</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map((occurrence) => (
+              <Card
+                key={occurrence.id}
+                className="cursor-pointer hover:border-primary/40 transition-colors"
+                onClick={() => setSearchParams({ ocorrencia: occurrence.id })}
+              >
+                <CardContent className="flex items-center justify-between gap-3 py-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{occurrence.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {TYPE_LABELS[occurrence.type] || occurrence.type} · {formatDate(occurrence.occurred_at)}
+                      {councilCondominiums.length > 1 && occurrence.condominiums && ` · ${occurrence.condominiums.name}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="shrink-0">
+                    {BASE_STATUS_LABELS[occurrence.status] || occurrence.status}
+                  </Badge>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSearchParams({})}>
+          <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+            {selected && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>{selected.title}</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline">{TYPE_LABELS[selected.type] || selected.type}</Badge>
+                    <Badge variant="outline">{BASE_STATUS_LABELS[selected.status] || selected.status}</Badge>
+                    <span className="text-muted-foreground self-center">Ocorrida em {formatDateTime(selected.occurred_at)}</span>
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-line">{selected.description}</p>
+                  {(selected.internal_rules_article || selected.legal_basis) && (
+                    <div className="p-3 rounded-lg bg-secondary/50 text-xs text-muted-foreground space-y-1">
+                      {selected.internal_rules_article && <p>Regimento interno: {selected.internal_rules_article}</p>}
+                      {selected.legal_basis && <p>{selected.legal_basis}</p>}
+                    </div>
+                  )}
+
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-semibold">Decisões</h4>
+                    {decisionsLoading ? (
+                      <Skeleton className="h-20 w-full" />
+                    ) : decisions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nenhuma decisão registrada.</p>
+                    ) : (
+                      decisions.map((decision) => {
+                        const signedByMe = decision.decision_signatures.some((s) => s.signer_id === user?.id);
+                        return (
+                          <div key={decision.id} className="p-4 rounded-xl bg-muted/30 border border-border/50 space-y-3">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm font-medium">
+                                {DECISION_LABELS[decision.decision] || decision.decision}
+                              </span>
+                              <span className="text-xs text-muted-foreground">{formatDateTime(decision.decided_at)}</span>
+                            </div>
+                            <p className="text-sm text-foreground whitespace-pre-line">{decision.justification}</p>
+                            {decision.decision_signatures.length > 0 && (
+                              <div className="space-y-1">
+                                {decision.decision_signatures.map((signature) => (
+                                  <p key={signature.id} className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <CheckCircle2 className="w-3 h-3 text-emerald-500" />
+                                    Coassinado por {signature.signer_name} em {formatDateTime(signature.signed_at)}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
+                            {!signedByMe && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="gap-2"
+                                disabled={signing === decision.id}
+                                onClick={() => handleSign(decision.id)}
+                              >
+                                {signing === decision.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <PenLine className="w-4 h-4" />
+                                )}
+                                Coassinar decisão
+                              </Button>
+                            )}
+                          </div>
+                        );
+                      })
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+}
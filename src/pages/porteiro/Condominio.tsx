@@ -61,11 +61,14 @@ import {
   X,
   User,
   MoreVertical,
+  Car,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { MaskedInput, formatCPF, formatPhone } from "@/components/ui/masked-input";
 import { QuickBlockApartmentSearch } from "@/components/packages/QuickBlockApartmentSearch";
 import { cn } from "@/lib/utils";
+import { normalizePlate } from "@/lib/visitorConstants";
+import { describeVehicle } from "@/lib/vehicleConstants";
 
 interface Resident {
   id: string;
@@ -96,6 +99,15 @@ interface Condominium {
   name: string;
 }
 
+interface Vehicle {
+  id: string;
+  apartment_id: string;
+  plate: string;
+  model: string | null;
+  color: string | null;
+  parking_spots: { code: string } | null;
+}
+
 const isValidCPF = (cpf: string): boolean => {
   const cleanCPF = cpf.replace(/\D/g, "");
   if (cleanCPF.length !== 11) return false;
@@ -239,6 +251,31 @@ export default function PorteiroCondominio() {
     enabled: !!selectedCondoId,
   });
 
+  // Vehicles registered by the síndico, searchable by plate
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ["porteiro-vehicles", selectedCondoId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("id, apartment_id, plate, model, color, parking_spots(code)")
+        .eq("condominium_id", selectedCondoId)
+        .order("plate");
+
+      if (error) throw error;
+      return (data || []) as Vehicle[];
+    },
+    enabled: !!selectedCondoId,
+  });
+
+  const vehiclesByApartment = useMemo(() => {
+    const map: Record<string, Vehicle[]> = {};
+    vehicles.forEach((v) => {
+      if (!map[v.apartment_id]) map[v.apartment_id] = [];
+      map[v.apartment_id].push(v);
+    });
+    return map;
+  }, [vehicles]);
+
   // Get unique blocks for filter dropdown
   const blocksForFilter = useMemo(() => {
     if (!blocks) return [];
@@ -274,23 +311,30 @@ export default function PorteiroCondominio() {
     // Apply search term
     if (searchTerm.trim()) {
       const term = searchTerm.toLowerCase();
+      const plateTerm = normalizePlate(searchTerm);
+      const matchesPlate = (apartmentId: string) =>
+        plateTerm.length >= 3 &&
+        (vehiclesByApartment[apartmentId] || []).some((v) => v.plate.includes(plateTerm));
       result = result
         .map((block) => ({
           ...block,
           apartments: block.apartments
             .map((apt) => ({
               ...apt,
-              residents: apt.residents.filter(
-                (r) =>
-                  r.full_name.toLowerCase().includes(term) ||
-                  r.email.toLowerCase().includes(term) ||
-                  r.phone?.includes(term)
-              ),
+              residents: matchesPlate(apt.id)
+                ? apt.residents
+                : apt.residents.filter(
+                    (r) =>
+                      r.full_name.toLowerCase().includes(term) ||
+                      r.email.toLowerCase().includes(term) ||
+                      r.phone?.includes(term)
+                  ),
             }))
             .filter(
               (apt) =>
                 apt.number.toLowerCase().includes(term) ||
-                apt.residents.length > 0
+                apt.residents.length > 0 ||
+                matchesPlate(apt.id)
             ),
         }))
         .filter(
@@ -301,7 +345,7 @@ export default function PorteiroCondominio() {
     }
     
     return result;
-  }, [blocks, searchTerm, selectedBlockFilter, selectedApartmentFilter]);
+  }, [blocks, searchTerm, selectedBlockFilter, selectedApartmentFilter, vehiclesByApartment]);
 
   const toggleBlock = (blockId: string) => {
     setExpandedBlocks((prev) => {
@@ -620,7 +664,7 @@ export default function PorteiroCondominio() {
               <div className="relative flex-1 min-w-[200px]">
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input
-                  placeholder="Buscar por nome, e-mail ou telefone..."
+                  placeholder="Buscar por nome, e-mail, telefone ou placa..."
                   className="pl-10"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
@@ -727,6 +771,16 @@ export default function PorteiroCondominio() {
                                     <p className="text-sm text-muted-foreground">
                                       {apartment.residents.length} morador(es)
                                     </p>
+                                    {vehiclesByApartment[apartment.id]?.map((vehicle) => (
+                                      <p
+                                        key={vehicle.id}
+                                        className="flex items-center gap-1 text-xs text-muted-foreground"
+                                      >
+                                        <Car className="w-3 h-3" />
+                                        {describeVehicle(vehicle)}
+                                        {vehicle.parking_spots && ` — vaga ${vehicle.parking_spots.code}`}
+                                      </p>
+                                    ))}
                                   </div>
                                 </div>
 
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import { Package, PackagePlus, Search, PackageCheck, X, Building2, Loader2, CheckCircle2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Package, PackagePlus, Search, PackageCheck, X, Building2, Loader2, CheckCircle2, Home, Warehouse } from "lucide-react";
 import SubscriptionGate from "@/components/sindico/SubscriptionGate";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
@@ -12,12 +13,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PackageCard } from "@/components/packages/PackageCard";
 import { PackagePickupDialog } from "@/components/packages/PackagePickupDialog";
 import { PackageDetailsDialog } from "@/components/packages/PackageDetailsDialog";
+import { PackagesByLocationView } from "@/components/packages/PackagesByLocationView";
 import { Package as PackageType } from "@/hooks/usePackages";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { PackageStatus } from "@/lib/packageConstants";
-import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
+import { getSignedPackagePhotoUrl, type PickupProofPaths } from "@/lib/packageStorage";
 import { usePackageNotificationStatus } from "@/hooks/usePackageNotificationStatus";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 
@@ -39,7 +41,9 @@ export default function PorteiroPackages() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   
+  const [view, setView] = useState<"unidade" | "local">("unidade");
   const [condominiumIds, setCondominiumIds] = useState<string[]>([]);
   const [searchCode, setSearchCode] = useState("");
   const [searchError, setSearchError] = useState("");
@@ -93,7 +97,8 @@ export default function PorteiroPackages() {
           apartment:apartments(id, number),
           block:blocks(id, name),
           condominium:condominiums(id, name),
-          package_type:package_types(id, name, icon)
+          package_type:package_types(id, name, icon),
+          storage_location:package_storage_locations(id, name, location_type)
         `)
         .eq("apartment_id", apartmentId)
         .order("received_at", { ascending: false });
@@ -102,7 +107,7 @@ export default function PorteiroPackages() {
       
       // Generate signed URLs for all packages in parallel
       const packagesWithSignedUrls = await Promise.all(
-        (data || []).map(async (pkg) => {
+        ((data || []) as PackageType[]).map(async (pkg) => {
           const signedPhotoUrl = await getSignedPackagePhotoUrl(pkg.photo_url);
           return {
             ...pkg,
@@ -235,7 +240,13 @@ export default function PorteiroPackages() {
     setIsDetailsDialogOpen(true);
   };
 
-  const handleConfirmPickup = async (pickedUpByName: string) => {
+  // The location view loads packages without signed photo URLs; sign before opening dialogs
+  const withSignedUrl = async (pkg: PackageType): Promise<PackageWithSignedUrl> => {
+    const signedPhotoUrl = await getSignedPackagePhotoUrl(pkg.photo_url);
+    return { ...pkg, signedPhotoUrl: signedPhotoUrl || pkg.photo_url };
+  };
+
+  const handleConfirmPickup = async (pickedUpByName: string, proof: PickupProofPaths) => {
     if (!selectedPackage || !user) {
       return { success: false, error: "Usuário não autenticado" };
     }
@@ -246,6 +257,8 @@ export default function PorteiroPackages() {
         p_package_id: selectedPackage.id,
         p_picked_up_by: user.id,
         p_picked_up_by_name: pickedUpByName,
+        p_signature_path: proof.signaturePath,
+        p_photo_path: proof.photoPath,
       });
 
       if (error) {
@@ -257,6 +270,8 @@ export default function PorteiroPackages() {
             picked_up_at: new Date().toISOString(),
             picked_up_by: user.id,
             picked_up_by_name: pickedUpByName,
+            pickup_signature_path: proof.signaturePath,
+            pickup_photo_path: proof.photoPath,
           })
           .eq("id", selectedPackage.id);
         
@@ -265,6 +280,11 @@ export default function PorteiroPackages() {
 
       if (error) throw error;
 
+      // Receipt failures must not block the pickup; the proof is already stored
+      supabase.functions
+        .invoke("notify-package-pickup", { body: { package_id: selectedPackage.id } })
+        .catch((notifyError) => console.error("Error sending pickup receipt:", notifyError));
+
       toast({
         title: "Encomenda retirada!",
         description: `Retirada por ${pickedUpByName} confirmada com sucesso.`,
@@ -274,6 +294,7 @@ export default function PorteiroPackages() {
       if (selectedApartment) {
         await fetchPackages(selectedApartment.id);
       }
+      queryClient.invalidateQueries({ queryKey: ["porter-packages-by-location"] });
 
       setSelectedPackage(null);
       return { success: true };
@@ -329,105 +350,131 @@ export default function PorteiroPackages() {
           <div>
             <h1 className="text-2xl font-bold">Encomendas</h1>
             <p className="text-muted-foreground">
-              Busque por unidade para ver as encomendas
+              {view === "unidade"
+                ? "Busque por unidade para ver as encomendas"
+                : "Encomendas pendentes agrupadas por local de armazenamento"}
             </p>
           </div>
-          <Button onClick={() => navigate("/porteiro/registrar")} className="gap-2">
-            <PackagePlus className="w-4 h-4" />
-            Nova Encomenda
-          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <Tabs value={view} onValueChange={(v) => setView(v as typeof view)}>
+              <TabsList>
+                <TabsTrigger value="unidade" className="gap-2">
+                  <Home className="w-4 h-4" />
+                  Por unidade
+                </TabsTrigger>
+                <TabsTrigger value="local" className="gap-2">
+                  <Warehouse className="w-4 h-4" />
+                  Por local
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button onClick={() => navigate("/porteiro/registrar")} className="gap-2">
+              <PackagePlus className="w-4 h-4" />
+              Nova Encomenda
+            </Button>
+          </div>
         </div>
 
+        {view === "local" && (
+          <PackagesByLocationView
+            condominiumIds={condominiumIds}
+            onPackageClick={async (pkg) => handlePackageClick(await withSignedUrl(pkg))}
+            onViewDetails={async (pkg) => handleViewDetails(await withSignedUrl(pkg))}
+          />
+        )}
+
         {/* Quick Search by Code */}
-        <Card>
-          <CardContent className="pt-6">
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="search-code" className="flex items-center gap-2">
-                  <Search className="w-4 h-4" />
-                  Buscar Unidade (Bloco + Apartamento)
-                </Label>
-                <div className="flex gap-2">
-                  <div className="relative flex-1 max-w-xs">
-                    <Input
-                      id="search-code"
-                      placeholder="Ex: 0344 = Bloco 03, Apto 44"
-                      value={searchCode}
-                      onChange={(e) => {
-                        const val = e.target.value.replace(/\D/g, "").slice(0, 6);
-                        setSearchCode(val);
-                        setSearchError("");
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") {
-                          e.preventDefault();
-                          handleSearch();
-                        }
-                      }}
-                      disabled={isSearching}
-                      className={searchError ? "border-destructive" : ""}
-                      maxLength={6}
-                    />
-                    {searchCode && (
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
-                        onClick={clearSearch}
-                      >
-                        <X className="w-4 h-4" />
-                      </Button>
-                    )}
+        {view === "unidade" && (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="search-code" className="flex items-center gap-2">
+                    <Search className="w-4 h-4" />
+                    Buscar Unidade (Bloco + Apartamento)
+                  </Label>
+                  <div className="flex gap-2">
+                    <div className="relative flex-1 max-w-xs">
+                      <Input
+                        id="search-code"
+                        placeholder="Ex: 0344 = Bloco 03, Apto 44"
+                        value={searchCode}
+                        onChange={(e) => {
+                          const val = e.target.value.replace(/\D/g, "").slice(0, 6);
+                          setSearchCode(val);
+                          setSearchError("");
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleSearch();
+                          }
+                        }}
+                        disabled={isSearching}
+                        className={searchError ? "border-destructive" : ""}
+                        maxLength={6}
+                      />
+                      {searchCode && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+                          onClick={clearSearch}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <Button
+                      onClick={handleSearch}
+                      disabled={isSearching || !searchCode}
+                      className="gap-2"
+                    >
+                      {isSearching ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Search className="w-4 h-4" />
+                      )}
+                      Buscar
+                    </Button>
                   </div>
-                  <Button
-                    onClick={handleSearch}
-                    disabled={isSearching || !searchCode}
-                    className="gap-2"
-                  >
-                    {isSearching ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <Search className="w-4 h-4" />
-                    )}
-                    Buscar
-                  </Button>
+                  {searchError && (
+                    <p className="text-sm text-destructive">{searchError}</p>
+                  )}
                 </div>
-                {searchError && (
-                  <p className="text-sm text-destructive">{searchError}</p>
-                )}
-              </div>
 
-              {/* Selected Apartment Display */}
-              {selectedApartment && (
-                <div className="p-4 rounded-lg bg-primary/10 border border-primary/20">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center">
-                        <Building2 className="w-5 h-5 text-primary" />
-                      </div>
-                      <div>
-                        <p className="font-semibold text-lg uppercase">
-                          {selectedApartment.blockName} - APTO {selectedApartment.number}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          {selectedApartment.condominiumName}
-                        </p>
+                {/* Selected Apartment Display */}
+                {selectedApartment && (
+                  <div className="p-4 rounded-lg bg-primary/10 border border-primary/20">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center">
+                          <Building2 className="w-5 h-5 text-primary" />
+                        </div>
+                        <div>
+                          <p className="font-semibold text-lg uppercase">
+                            {selectedApartment.blockName} - APTO {selectedApartment.number}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {selectedApartment.condominiumName}
+                          </p>
+                        </div>
                       </div>
+                      <Button variant="ghost" size="sm" onClick={clearSearch}>
+                        <X className="w-4 h-4 mr-1" />
+                        Limpar
+                      </Button>
                     </div>
-                    <Button variant="ghost" size="sm" onClick={clearSearch}>
-                      <X className="w-4 h-4 mr-1" />
-                      Limpar
-                    </Button>
                   </div>
-                </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Packages List - Only shown when apartment is selected */}
-        {selectedApartment && (
+        {view === "unidade" && selectedApartment && (
           <>
             {/* Tabs */}
             <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)}>
@@ -502,7 +549,7 @@ export default function PorteiroPackages() {
         )}
 
         {/* Initial State - No apartment selected */}
-        {!selectedApartment && !isSearching && (
+        {view === "unidade" && !selectedApartment && !isSearching && (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <Search className="w-12 h-12 text-muted-foreground mb-4" />
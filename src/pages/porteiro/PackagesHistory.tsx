@@ -64,7 +64,7 @@ import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import { useNavigate } from "react-router-dom";
 import { QuickBlockApartmentSearch } from "@/components/packages/QuickBlockApartmentSearch";
-import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
+import { getSignedPackagePhotoUrl, getSignedPickupProofUrl } from "@/lib/packageStorage";
 
 interface ApartmentResident {
   id: string;
@@ -82,6 +82,7 @@ interface PackageWithRelations {
   picked_up_by: string | null;
   picked_up_by_name: string | null;
   pickup_code: string;
+  pickup_signature_path: string | null;
   photo_url: string;
   description: string | null;
   tracking_code: string | null;
@@ -296,6 +297,7 @@ const PorteiroPackagesHistory = () => {
           picked_up_by,
           picked_up_by_name,
           pickup_code,
+          pickup_signature_path,
           photo_url,
           description,
           tracking_code,
@@ -305,7 +307,7 @@ const PorteiroPackagesHistory = () => {
           block:blocks(id, name),
           apartment:apartments(id, number, residents(id, full_name, phone, is_responsible)),
           condominium:condominiums(id, name),
-          resident:residents(id, full_name, phone),
+          resident:residents!packages_resident_id_fkey(id, full_name, phone),
           package_type:package_types(id, name, icon)
         `)
         .eq("condominium_id", selectedCondominium)
@@ -663,6 +665,18 @@ const PorteiroPackagesHistory = () => {
       })
     );
 
+    // Pickup signatures (proof of delivery)
+    const signaturesBase64: Record<string, string> = {};
+
+    await Promise.all(
+      packages.map(async (pkg) => {
+        if (pkg.pickup_signature_path) {
+          const signedUrl = await getSignedPickupProofUrl(pkg.pickup_signature_path);
+          signaturesBase64[pkg.id] = signedUrl ? await getBase64FromUrl(signedUrl) : "";
+        }
+      })
+    );
+
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
 
@@ -770,7 +784,7 @@ const PorteiroPackagesHistory = () => {
 
     autoTable(doc, {
       startY: tableStartY + 4,
-      head: [["Foto", "Data/Hora", "Bloco/Apt", "Tipo", "Status", "Retirado por", "Tempo"]],
+      head: [["Foto", "Data/Hora", "Bloco/Apt", "Tipo", "Status", "Retirado por", "Tempo", "Assinatura"]],
       body: packages.map((pkg) => [
         "",
         format(parseISO(pkg.received_at), "dd/MM/yyyy HH:mm"),
@@ -779,14 +793,32 @@ const PorteiroPackagesHistory = () => {
         STATUS_CONFIG[pkg.status].label,
         pkg.picked_up_by_name || pkg.picked_up_by_profile?.full_name || "-",
         getWaitingTime(pkg),
+        "", // Signature drawn by didDrawCell
       ]),
       theme: "striped",
       headStyles: { fillColor: [59, 130, 246], fontSize: 8 },
       bodyStyles: { fontSize: 8, minCellHeight: 18 },
       columnStyles: {
         0: { cellWidth: 20 },
+        7: { cellWidth: 24 },
       },
       didDrawCell: (data) => {
+        if (data.column.index === 7 && data.section === "body") {
+          const signature = signaturesBase64[packages[data.row.index]?.id];
+          if (signature) {
+            try {
+              // Signature pad is roughly 20:7
+              const width = 20;
+              const height = 7;
+              const x = data.cell.x + (data.cell.width - width) / 2;
+              const y = data.cell.y + (data.cell.height - height) / 2;
+              doc.addImage(signature, "JPEG", x, y, width, height);
+            } catch {
+              // Silent fail if image can't be added
+            }
+          }
+          return;
+        }
         if (data.column.index === 0 && data.section === "body") {
           const pkg = packages[data.row.index];
           if (pkg) {
@@ -0,0 +1,285 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Clock, Loader2, LogIn, PartyPopper, Search, Users } from "lucide-react";
+import SubscriptionGate from "@/components/sindico/SubscriptionGate";
+import { BOOKING_STATUS_LABELS } from "@/lib/partyHallConstants";
+import { format } from "date-fns";
+
+interface TodayEvent {
+  booking_id: string;
+  space_name: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  resident_name: string;
+  block_name: string | null;
+  apartment_number: string | null;
+  max_guests: number | null;
+  guest_total: number;
+  guest_checked_in: number;
+}
+
+interface Guest {
+  id: string;
+  guest_name: string;
+  guest_document: string | null;
+  checked_in_at: string | null;
+}
+
+export default function PartyHallEvents() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [condominiums, setCondominiums] = useState<{ id: string; name: string }[]>([]);
+  const [selectedCondominium, setSelectedCondominium] = useState<string>("");
+  const [selectedBookingId, setSelectedBookingId] = useState<string>("");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  // Fetch condominiums
+  useEffect(() => {
+    const fetchCondominiums = async () => {
+      if (!user) return;
+      const { data } = await supabase
+        .from("user_condominiums")
+        .select("condominium_id, condominiums:condominium_id(id, name)")
+        .eq("user_id", user.id);
+
+      if (data) {
+        const condos = data.filter((d) => d.condominiums).map((d) => ({
+          id: d.condominiums.id,
+          name: d.condominiums.name,
+        }));
+        setCondominiums(condos);
+        if (condos.length === 1) setSelectedCondominium(condos[0].id);
+      }
+    };
+    fetchCondominiums();
+  }, [user]);
+
+  const { data: events = [], isLoading: loadingEvents } = useQuery({
+    queryKey: ["porter-party-hall-events", selectedCondominium],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_party_hall_events_today", {
+        p_condominium_id: selectedCondominium,
+      });
+      if (error) throw error;
+      return (data || []) as TodayEvent[];
+    },
+    enabled: !!selectedCondominium,
+  });
+
+  // Most days have a single event, so open it straight away
+  useEffect(() => {
+    if (events.length > 0 && !events.some((e) => e.booking_id === selectedBookingId)) {
+      setSelectedBookingId(events[0].booking_id);
+    }
+  }, [events, selectedBookingId]);
+
+  const selectedEvent = events.find((e) => e.booking_id === selectedBookingId);
+
+  const { data: guests = [], isLoading: loadingGuests } = useQuery({
+    queryKey: ["porter-party-hall-guests", selectedBookingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_guests")
+        .select("id, guest_name, guest_document, checked_in_at")
+        .eq("booking_id", selectedBookingId)
+        .order("guest_name");
+      if (error) throw error;
+      return data as Guest[];
+    },
+    enabled: !!selectedBookingId,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (guestId: string) => {
+      const { error } = await supabase.rpc("check_in_party_hall_guest", { p_guest_id: guestId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["porter-party-hall-guests", selectedBookingId] });
+      queryClient.invalidateQueries({ queryKey: ["porter-party-hall-events", selectedCondominium] });
+      setSearchTerm("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar entrada", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredGuests = term
+    ? guests.filter((g) =>
+        g.guest_name.toLowerCase().includes(term) || (g.guest_document || "").toLowerCase().includes(term)
+      )
+    : guests;
+  const canCheckIn = !!selectedEvent && ["confirmada", "em_uso"].includes(selectedEvent.status);
+
+  return (
+    <DashboardLayout>
+      <SubscriptionGate>
+      <div className="space-y-8 animate-fade-up">
+
+        {/* Header */}
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h1 className="font-display text-3xl font-bold text-foreground">Eventos do Dia</h1>
+            <p className="text-muted-foreground mt-1">
+              Confira as reservas de hoje nas áreas comuns e registre a chegada dos convidados
+            </p>
+          </div>
+          {condominiums.length > 1 && (
+            <Select
+              value={selectedCondominium}
+              onValueChange={(value) => {
+                setSelectedCondominium(value);
+                setSelectedBookingId("");
+              }}
+            >
+              <SelectTrigger className="w-[200px]"><SelectValue placeholder="Selecionar condomínio" /></SelectTrigger>
+              <SelectContent>
+                {condominiums.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {!selectedCondominium ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <PartyPopper className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Selecione um condomínio para ver os eventos do dia.</p>
+            </CardContent>
+          </Card>
+        ) : loadingEvents ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => <Skeleton key={i} className="h-20 w-full rounded-xl" />)}
+          </div>
+        ) : events.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <PartyPopper className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Nenhuma reserva nas áreas comuns hoje.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-3 md:grid-cols-2">
+              {events.map((event) => (
+                <Card
+                  key={event.booking_id}
+                  className={`bg-card border-border shadow-card cursor-pointer transition-colors ${
+                    event.booking_id === selectedBookingId ? "ring-2 ring-primary" : ""
+                  }`}
+                  onClick={() => setSelectedBookingId(event.booking_id)}
+                >
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{event.space_name}</span>
+                      <Badge variant={event.status === "em_uso" ? "secondary" : "outline"}>
+                        {BOOKING_STATUS_LABELS[event.status] || event.status}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {event.resident_name}
+                      {event.apartment_number && ` · Bloco ${event.block_name || "-"}, Apto ${event.apartment_number}`}
+                    </p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {event.start_time.slice(0, 5)} - {event.end_time.slice(0, 5)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Users className="w-3 h-3" />
+                        {event.guest_checked_in} de {event.guest_total} convidado(s) chegaram
+                        {event.max_guests ? ` · capacidade ${event.max_guests}` : ""}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {selectedEvent && (
+              <Card className="bg-card border-border shadow-card">
+                <CardHeader>
+                  <CardTitle className="font-display text-lg flex items-center gap-2">
+                    <Users className="w-5 h-5 text-primary" />
+                    Convidados de {selectedEvent.resident_name}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      className="pl-9"
+                      placeholder="Buscar por nome ou documento..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                    />
+                  </div>
+
+                  {loadingGuests ? (
+                    [1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)
+                  ) : guests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                      O morador não cadastrou convidados para este evento.
+                    </p>
+                  ) : filteredGuests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                      Convidado não está na lista.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {filteredGuests.map((guest) => (
+                        <div key={guest.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{guest.guest_name}</p>
+                            {guest.guest_document && (
+                              <p className="text-xs text-muted-foreground">{guest.guest_document}</p>
+                            )}
+                          </div>
+                          {guest.checked_in_at ? (
+                            <span className="flex items-center gap-1 text-xs text-emerald-600 shrink-0">
+                              <CheckCircle2 className="w-4 h-4" />
+                              Entrou às {format(new Date(guest.checked_in_at), "HH:mm")}
+                            </span>
+                          ) : (
+                            <Button
+                              size="sm"
+                              className="shrink-0 gap-1"
+                              onClick={() => checkInMutation.mutate(guest.id)}
+                              disabled={!canCheckIn || checkInMutation.isPending}
+                            >
+                              {checkInMutation.isPending && checkInMutation.variables === guest.id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <LogIn className="w-4 h-4" />
+                              )}
+                              Entrada
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+      </SubscriptionGate>
+    </DashboardLayout>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { isConnectivityError } from "@/lib/offlineQueue";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
@@ -76,6 +78,7 @@ interface Apartment {
 
 export default function PortariaOccurrences() {
   const { user } = useAuth();
+  const { queueOffline } = useOfflineSync();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -291,9 +294,8 @@ export default function PortariaOccurrences() {
   // Create occurrence
   const createMutation = useMutation({
     mutationFn: async () => {
-      const { error } = await supabase.from("porter_occurrences").insert({
+      const occurrence = {
         condominium_id: selectedCondominium,
-        registered_by: user!.id,
         title: newTitle,
         description: newDescription,
         category: newCategory,
@@ -302,12 +304,29 @@ export default function PortariaOccurrences() {
         reporter_apartment_id: reporterApartmentId || null,
         target_block_id: targetBlockId || null,
         target_apartment_id: targetApartmentId || null,
-      });
-      if (error) throw error;
+      };
+
+      // Without connection the occurrence is kept on the device and sent later
+      if (!navigator.onLine) {
+        await queueOffline("occurrence", occurrence);
+        return { queued: true };
+      }
+
+      const { error } = await supabase.from("porter_occurrences").insert({ ...occurrence, registered_by: user!.id });
+      if (error) {
+        if (!isConnectivityError(error)) throw error;
+        await queueOffline("occurrence", occurrence);
+        return { queued: true };
+      }
+      return { queued: false };
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ["porter-occurrences"] });
-      toast({ title: "Ocorrência registrada com sucesso!" });
+      toast(
+        queued
+          ? { title: "Ocorrência salva no dispositivo", description: "Ela será registrada quando a conexão voltar." }
+          : { title: "Ocorrência registrada com sucesso!" }
+      );
       setDialogOpen(false);
       setNewTitle("");
       setNewDescription("");
@@ -0,0 +1,635 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { UserCheck, UserPlus, LogIn, LogOut, Search, Car, Wrench, Loader2, ClipboardList, Bell } from "lucide-react";
+import SubscriptionGate from "@/components/sindico/SubscriptionGate";
+import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
+import { CameraCapture } from "@/components/packages/CameraCapture";
+import { GuestInvitationScanner } from "@/components/visitors/GuestInvitationScanner";
+import {
+  VISITOR_TYPE_LABELS,
+  VISITOR_PHOTOS_BUCKET,
+  normalizePlate,
+  type VisitorType,
+} from "@/lib/visitorConstants";
+import { describeVehicle, formatPlate } from "@/lib/vehicleConstants";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface UnitRef {
+  number: string;
+  block: { name: string } | null;
+}
+
+interface Authorization {
+  id: string;
+  apartment_id: string;
+  visitor_type: VisitorType;
+  visitor_name: string;
+  visitor_document: string | null;
+  vehicle_plate: string | null;
+  company: string | null;
+  notes: string | null;
+  valid_from: string;
+  valid_until: string;
+  apartment: UnitRef | null;
+}
+
+interface Entry {
+  id: string;
+  visitor_type: VisitorType;
+  visitor_name: string;
+  visitor_document: string | null;
+  vehicle_plate: string | null;
+  company: string | null;
+  checked_in_at: string;
+  resident_notified_at: string | null;
+  apartment: UnitRef | null;
+}
+
+interface RegisteredVehicle {
+  id: string;
+  plate: string;
+  model: string | null;
+  color: string | null;
+  apartment: UnitRef | null;
+}
+
+interface CheckInForm {
+  authorization_id: string | null;
+  block_id: string;
+  apartment_id: string;
+  visitor_type: VisitorType;
+  visitor_name: string;
+  visitor_document: string;
+  vehicle_plate: string;
+  company: string;
+  notes: string;
+}
+
+const emptyCheckIn: CheckInForm = {
+  authorization_id: null,
+  block_id: "",
+  apartment_id: "",
+  visitor_type: "visitante",
+  visitor_name: "",
+  visitor_document: "",
+  vehicle_plate: "",
+  company: "",
+  notes: "",
+};
+
+const base64ToBlob = (dataUrl: string) => {
+  const byteCharacters = atob(dataUrl.split(",")[1]);
+  const byteNumbers = new Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteNumbers[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([new Uint8Array(byteNumbers)], { type: "image/jpeg" });
+};
+
+export default function PortariaVisitors() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [condominiums, setCondominiums] = useState<{ id: string; name: string }[]>([]);
+  const [selectedCondominium, setSelectedCondominium] = useState<string>("");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const [checkInOpen, setCheckInOpen] = useState(false);
+  const [checkIn, setCheckIn] = useState<CheckInForm>(emptyCheckIn);
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  // Fetch condominiums
+  useEffect(() => {
+    const fetchCondominiums = async () => {
+      if (!user) return;
+      const { data } = await supabase
+        .from("user_condominiums")
+        .select("condominium_id, condominiums:condominium_id(id, name)")
+        .eq("user_id", user.id);
+
+      if (data) {
+        const condos = data.filter((d) => d.condominiums).map((d) => ({
+          id: d.condominiums.id,
+          name: d.condominiums.name,
+        }));
+        setCondominiums(condos);
+        if (condos.length === 1) setSelectedCondominium(condos[0].id);
+      }
+    };
+    fetchCondominiums();
+  }, [user]);
+
+  const { data: blocks = [] } = useQuery({
+    queryKey: ["blocks", selectedCondominium],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("blocks")
+        .select("id, name")
+        .eq("condominium_id", selectedCondominium)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedCondominium,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const { data: apartments = [] } = useQuery({
+    queryKey: ["apartments", checkIn.block_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("apartments")
+        .select("id, number, block_id")
+        .eq("block_id", checkIn.block_id)
+        .order("number");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!checkIn.block_id,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  // Authorizations valid today
+  const { data: authorizations = [], isLoading: loadingAuthorizations } = useQuery({
+    queryKey: ["porter-visitor-authorizations", selectedCondominium, today],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("visitor_authorizations")
+        .select(`
+          id, apartment_id, visitor_type, visitor_name, visitor_document, vehicle_plate, company, notes,
+          valid_from, valid_until,
+          apartment:apartments(number, block:blocks(name))
+        `)
+        .eq("condominium_id", selectedCondominium)
+        .eq("status", "ativa")
+        .lte("valid_from", today)
+        .gte("valid_until", today)
+        .order("visitor_name");
+      if (error) throw error;
+      return data as unknown as Authorization[];
+    },
+    enabled: !!selectedCondominium,
+  });
+
+  // Vehicles registered to units, so the porter sees when a plate belongs to a resident
+  const { data: registeredVehicles = [] } = useQuery({
+    queryKey: ["porteiro-vehicles-lookup", selectedCondominium],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("id, plate, model, color, apartment:apartments(number, block:blocks(name))")
+        .eq("condominium_id", selectedCondominium);
+      if (error) throw error;
+      return data as unknown as RegisteredVehicle[];
+    },
+    enabled: !!selectedCondominium,
+  });
+
+  // Visitors currently inside
+  const { data: insideEntries = [], isLoading: loadingEntries } = useQuery({
+    queryKey: ["porter-visitor-entries", selectedCondominium],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("visitor_entries")
+        .select(`
+          id, visitor_type, visitor_name, visitor_document, vehicle_plate, company, checked_in_at, resident_notified_at,
+          apartment:apartments(number, block:blocks(name))
+        `)
+        .eq("condominium_id", selectedCondominium)
+        .is("checked_out_at", null)
+        .order("checked_in_at", { ascending: false });
+      if (error) throw error;
+      return data as unknown as Entry[];
+    },
+    enabled: !!selectedCondominium,
+  });
+
+  const checkInPlate = normalizePlate(checkIn.vehicle_plate);
+  const registeredPlateMatch = checkInPlate
+    ? registeredVehicles.find((v) => v.plate === checkInPlate)
+    : undefined;
+
+  const matchesSearch = (item: { visitor_name: string; visitor_document: string | null; vehicle_plate: string | null }) => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    const plate = normalizePlate(searchTerm);
+    return (
+      item.visitor_name.toLowerCase().includes(term) ||
+      (item.visitor_document || "").toLowerCase().includes(term) ||
+      (!!plate && (item.vehicle_plate || "").includes(plate))
+    );
+  };
+
+  const filteredAuthorizations = authorizations.filter(matchesSearch);
+  const filteredInside = insideEntries.filter(matchesSearch);
+
+  const openCheckIn = (authorization?: Authorization) => {
+    setCapturedImage(null);
+    setCheckIn(
+      authorization
+        ? {
+            ...emptyCheckIn,
+            authorization_id: authorization.id,
+            apartment_id: authorization.apartment_id,
+            visitor_type: authorization.visitor_type,
+            visitor_name: authorization.visitor_name,
+            visitor_document: authorization.visitor_document || "",
+            vehicle_plate: authorization.vehicle_plate || "",
+            company: authorization.company || "",
+          }
+        : emptyCheckIn
+    );
+    setCheckInOpen(true);
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      if (!checkIn.visitor_name.trim()) throw new Error("Informe o nome do visitante.");
+      if (!checkIn.apartment_id) throw new Error("Selecione a unidade de destino.");
+
+      let photoPath: string | null = null;
+      if (capturedImage) {
+        photoPath = `${selectedCondominium}/${Date.now()}.jpg`;
+        const { error: uploadError } = await supabase.storage
+          .from(VISITOR_PHOTOS_BUCKET)
+          .upload(photoPath, base64ToBlob(capturedImage), { contentType: "image/jpeg" });
+        if (uploadError) throw uploadError;
+      }
+
+      const { data: entry, error } = await supabase
+        .from("visitor_entries")
+        .insert({
+          condominium_id: selectedCondominium,
+          apartment_id: checkIn.apartment_id,
+          authorization_id: checkIn.authorization_id,
+          visitor_type: checkIn.visitor_type,
+          visitor_name: checkIn.visitor_name.trim(),
+          visitor_document: checkIn.visitor_document.trim() || null,
+          vehicle_plate: checkIn.vehicle_plate ? normalizePlate(checkIn.vehicle_plate) : null,
+          company: checkIn.company.trim() || null,
+          notes: checkIn.notes.trim() || null,
+          photo_path: photoPath,
+          checked_in_by: user!.id,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      // Entry is already recorded; a failed WhatsApp notice must not block the portaria
+      const { data: notifyResult, error: notifyError } = await supabase.functions.invoke("notify-visitor-arrival", {
+        body: { entry_id: entry.id },
+      });
+      return { notified: !notifyError && !!notifyResult?.success };
+    },
+    onSuccess: ({ notified }) => {
+      queryClient.invalidateQueries({ queryKey: ["porter-visitor-entries"] });
+      toast({
+        title: "Entrada registrada",
+        description: notified ? "O morador foi avisado pelo WhatsApp." : "Não foi possível avisar o morador pelo WhatsApp.",
+      });
+      setCheckInOpen(false);
+      setCheckIn(emptyCheckIn);
+      setCapturedImage(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar entrada", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const checkOutMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const { error } = await supabase
+        .from("visitor_entries")
+        .update({ checked_out_at: new Date().toISOString(), checked_out_by: user!.id })
+        .eq("id", entryId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["porter-visitor-entries"] });
+      toast({ title: "Saída registrada" });
+    },
+    onError: () => toast({ title: "Erro ao registrar saída", variant: "destructive" }),
+  });
+
+  const renderVisitorLine = (item: {
+    visitor_type: VisitorType;
+    visitor_name: string;
+    company: string | null;
+    vehicle_plate: string | null;
+    visitor_document: string | null;
+    apartment: UnitRef | null;
+  }) => (
+    <div className="min-w-0 space-y-1">
+      <div className="flex items-center gap-2 flex-wrap">
+        {item.visitor_type === "prestador" ? (
+          <Wrench className="w-4 h-4 text-muted-foreground" />
+        ) : (
+          <UserCheck className="w-4 h-4 text-muted-foreground" />
+        )}
+        <span className="font-semibold text-foreground">{item.visitor_name}</span>
+        {item.company && <span className="text-xs text-muted-foreground">({item.company})</span>}
+        <Badge variant="outline">{VISITOR_TYPE_LABELS[item.visitor_type]}</Badge>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {item.apartment && (
+          <BlockApartmentDisplay
+            blockName={item.apartment.block?.name}
+            apartmentNumber={item.apartment.number}
+            variant="inline"
+            showIcons
+            valueClassName="font-medium text-foreground text-xs"
+          />
+        )}
+        {item.vehicle_plate && (
+          <span className="flex items-center gap-1">
+            <Car className="w-3 h-3" /> {formatPlate(item.vehicle_plate)}
+          </span>
+        )}
+        {item.visitor_document && <span>Doc.: {item.visitor_document}</span>}
+      </div>
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <SubscriptionGate>
+      <div className="space-y-8 animate-fade-up">
+
+        {/* Header */}
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h1 className="font-display text-3xl font-bold text-foreground flex items-center gap-3">
+              Visitantes
+              {insideEntries.length > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  {insideEntries.length} no condomínio
+                </Badge>
+              )}
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Registre a entrada e a saída de visitantes e prestadores de serviço
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {condominiums.length > 1 && (
+              <Select value={selectedCondominium} onValueChange={setSelectedCondominium}>
+                <SelectTrigger className="w-[200px]"><SelectValue placeholder="Selecionar condomínio" /></SelectTrigger>
+                <SelectContent>
+                  {condominiums.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+            <GuestInvitationScanner
+              condominiumId={selectedCondominium}
+              disabled={!selectedCondominium}
+              onAdmitted={() => queryClient.invalidateQueries({ queryKey: ["porter-visitor-entries"] })}
+            />
+            <Button className="gap-2 shrink-0" disabled={!selectedCondominium} onClick={() => openCheckIn()}>
+              <UserPlus className="w-4 h-4" /> Entrada sem autorização
+            </Button>
+          </div>
+        </div>
+
+        {!selectedCondominium ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <ClipboardList className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Selecione um condomínio para controlar os visitantes.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                placeholder="Buscar por nome, documento ou placa..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+
+            <Tabs defaultValue="autorizados">
+              <TabsList>
+                <TabsTrigger value="autorizados">Autorizados hoje ({authorizations.length})</TabsTrigger>
+                <TabsTrigger value="presentes">No condomínio ({insideEntries.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="autorizados" className="space-y-3 mt-4">
+                {loadingAuthorizations ? (
+                  [1, 2, 3].map((i) => <Skeleton key={i} className="h-20 w-full rounded-xl" />)
+                ) : filteredAuthorizations.length === 0 ? (
+                  <Card>
+                    <CardContent className="py-12 text-center">
+                      <UserCheck className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+                      <p className="text-muted-foreground">Nenhuma autorização válida para hoje.</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  filteredAuthorizations.map((auth) => (
+                    <Card key={auth.id} className="bg-card border-border shadow-card">
+                      <CardContent className="p-4 flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          {renderVisitorLine(auth)}
+                          {auth.notes && <p className="text-xs text-muted-foreground mt-1">Obs.: {auth.notes}</p>}
+                        </div>
+                        <Button size="sm" className="shrink-0 gap-1" onClick={() => openCheckIn(auth)}>
+                          <LogIn className="w-4 h-4" /> Entrada
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="presentes" className="space-y-3 mt-4">
+                {loadingEntries ? (
+                  [1, 2, 3].map((i) => <Skeleton key={i} className="h-20 w-full rounded-xl" />)
+                ) : filteredInside.length === 0 ? (
+                  <Card>
+                    <CardContent className="py-12 text-center">
+                      <LogOut className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+                      <p className="text-muted-foreground">Nenhum visitante no condomínio.</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  filteredInside.map((entry) => (
+                    <Card key={entry.id} className="bg-card border-border shadow-card">
+                      <CardContent className="p-4 flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          {renderVisitorLine(entry)}
+                          <p className="text-xs text-muted-foreground mt-1 flex items-center gap-2">
+                            Entrada {format(new Date(entry.checked_in_at), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                            {entry.resident_notified_at && (
+                              <span className="flex items-center gap-1">
+                                <Bell className="w-3 h-3" /> Morador avisado
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0 gap-1"
+                          onClick={() => checkOutMutation.mutate(entry.id)}
+                          disabled={checkOutMutation.isPending}
+                        >
+                          <LogOut className="w-4 h-4" /> Saída
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+
+        {/* Check-in dialog */}
+        <Dialog open={checkInOpen} onOpenChange={setCheckInOpen}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {checkIn.authorization_id ? "Registrar Entrada de Visitante Autorizado" : "Registrar Entrada sem Autorização"}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm">Foto do visitante</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CameraCapture
+                    onCapture={setCapturedImage}
+                    capturedImage={capturedImage}
+                    onClear={() => setCapturedImage(null)}
+                    className="aspect-[4/3]"
+                  />
+                </CardContent>
+              </Card>
+
+              <div className="space-y-4">
+                {!checkIn.authorization_id && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs">Bloco</Label>
+                      <Select
+                        value={checkIn.block_id}
+                        onValueChange={(v) => setCheckIn({ ...checkIn, block_id: v, apartment_id: "" })}
+                      >
+                        <SelectTrigger><SelectValue placeholder="Selecionar..." /></SelectTrigger>
+                        <SelectContent>
+                          {blocks.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Apartamento</Label>
+                      <Select
+                        value={checkIn.apartment_id}
+                        onValueChange={(v) => setCheckIn({ ...checkIn, apartment_id: v })}
+                        disabled={!checkIn.block_id}
+                      >
+                        <SelectTrigger><SelectValue placeholder="Selecionar..." /></SelectTrigger>
+                        <SelectContent>
+                          {apartments.map((a) => <SelectItem key={a.id} value={a.id}>{a.number}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <Label>Tipo</Label>
+                  <Select
+                    value={checkIn.visitor_type}
+                    onValueChange={(v: VisitorType) => setCheckIn({ ...checkIn, visitor_type: v })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="visitante">{VISITOR_TYPE_LABELS.visitante}</SelectItem>
+                      <SelectItem value="prestador">{VISITOR_TYPE_LABELS.prestador}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Nome</Label>
+                  <Input
+                    value={checkIn.visitor_name}
+                    onChange={(e) => setCheckIn({ ...checkIn, visitor_name: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Documento</Label>
+                    <Input
+                      value={checkIn.visitor_document}
+                      onChange={(e) => setCheckIn({ ...checkIn, visitor_document: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Placa</Label>
+                    <Input
+                      value={checkIn.vehicle_plate}
+                      onChange={(e) => setCheckIn({ ...checkIn, vehicle_plate: e.target.value })}
+                      maxLength={8}
+                    />
+                    {registeredPlateMatch && (
+                      <p className="text-xs text-amber-600 mt-1">
+                        Veículo cadastrado: {describeVehicle(registeredPlateMatch)}
+                        {registeredPlateMatch.apartment &&
+                          ` (${registeredPlateMatch.apartment.block?.name || ""} - ${registeredPlateMatch.apartment.number})`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {checkIn.visitor_type === "prestador" && (
+                  <div>
+                    <Label>Empresa / serviço</Label>
+                    <Input
+                      value={checkIn.company}
+                      onChange={(e) => setCheckIn({ ...checkIn, company: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label>Observações</Label>
+                  <Textarea
+                    value={checkIn.notes}
+                    onChange={(e) => setCheckIn({ ...checkIn, notes: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCheckInOpen(false)}>Cancelar</Button>
+              <Button onClick={() => checkInMutation.mutate()} disabled={checkInMutation.isPending}>
+                {checkInMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Registrar Entrada
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+      </SubscriptionGate>
+    </DashboardLayout>
+  );
+}
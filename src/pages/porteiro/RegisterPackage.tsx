@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Package, CheckCircle2, Loader2, MessageCircle, AlertCircle, MapPin, User, Phone, UserPlus, Check, ChevronsUpDown, Search, icons, QrCode } from "lucide-react";
+import { ArrowLeft, Package, CheckCircle2, Loader2, MessageCircle, AlertCircle, MapPin, User, Phone, UserPlus, Check, ChevronsUpDown, Search, icons, QrCode, Truck, Copy, Layers } from "lucide-react";
 import SubscriptionGate from "@/components/sindico/SubscriptionGate";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { MaskedInput } from "@/components/ui/masked-input";
 import {
   Command,
@@ -28,9 +29,24 @@ import { useToast } from "@/hooks/use-toast";
 import { CameraCapture } from "@/components/packages/CameraCapture";
 import { BarcodeScanner } from "@/components/packages/BarcodeScanner";
 import { CondominiumBlockApartmentSelect } from "@/components/packages/CondominiumBlockApartmentSelect";
-import { generatePickupCode } from "@/lib/packageConstants";
+import { LabelOcrSuggestion } from "@/components/packages/LabelOcrSuggestion";
+import type { UnitCandidate } from "@/lib/labelOcr";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StorageLocationIcon } from "@/components/packages/StorageLocationBadge";
+import { generatePickupCode, STORAGE_LOCATION_TYPE_LABELS } from "@/lib/packageConstants";
+import { usePackageStorageLocations } from "@/hooks/usePackageStorageLocations";
+import { CARRIER_LABELS, CARRIER_PACKAGE_TYPE_NAME, parseTrackingCode } from "@/lib/packageCarriers";
+import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { isConnectivityError } from "@/lib/offlineQueue";
 
 interface PackageType {
   id: string;
@@ -46,6 +62,14 @@ interface NotificationResult {
   message?: string;
 }
 
+interface DuplicatePackage {
+  id: string;
+  received_at: string;
+  status: string;
+  block: { name: string } | null;
+  apartment: { number: string } | null;
+}
+
 interface DestinationPreview {
   condominiumName: string;
   blockName: string;
@@ -59,6 +83,7 @@ export default function RegisterPackage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
+  const { queueOffline } = useOfflineSync();
   
   const [step, setStep] = useState<RegistrationStep>("form");
   const [condominiumIds, setCondominiumIds] = useState<string[]>([]);
@@ -80,6 +105,19 @@ export default function RegisterPackage() {
   const [newResidentEmail, setNewResidentEmail] = useState("");
   const [isSavingResident, setIsSavingResident] = useState(false);
   const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
+  const [selectedStorageLocation, setSelectedStorageLocation] = useState("");
+  const [packageTypeAutoFilled, setPackageTypeAutoFilled] = useState(false);
+  const [duplicatePackages, setDuplicatePackages] = useState<DuplicatePackage[]>([]);
+  const [duplicateConfirmed, setDuplicateConfirmed] = useState(false);
+  const [savedOffline, setSavedOffline] = useState(false);
+
+  const parsedTracking = useMemo(() => parseTrackingCode(trackingCode), [trackingCode]);
+
+  const { locations: storageLocations } = usePackageStorageLocations(
+    selectedCondominium ? [selectedCondominium] : []
+  );
+  // Choosing a location is only required once the condominium has configured some
+  const storageLocationRequired = storageLocations.length > 0;
 
   // Fetch porter's condominiums
   useEffect(() => {
@@ -116,6 +154,43 @@ export default function RegisterPackage() {
     fetchPackageTypes();
   }, []);
 
+  // Pre-select the package type matching the detected carrier, unless the porteiro chose one
+  useEffect(() => {
+    if (!parsedTracking.carrier || (selectedPackageType && !packageTypeAutoFilled)) return;
+    const typeName = CARRIER_PACKAGE_TYPE_NAME[parsedTracking.carrier].toLowerCase();
+    const match = packageTypes.find((type) => type.name.toLowerCase() === typeName);
+    if (match) {
+      setSelectedPackageType(match.id);
+      setPackageTypeAutoFilled(true);
+    }
+  }, [parsedTracking.carrier, packageTypes, selectedPackageType, packageTypeAutoFilled]);
+
+  // Flag tracking codes already registered in the condominium
+  useEffect(() => {
+    setDuplicatePackages([]);
+    setDuplicateConfirmed(false);
+    if (!selectedCondominium || parsedTracking.code.length < 8) return;
+
+    const timeout = setTimeout(async () => {
+      const { data } = await supabase
+        .from("packages")
+        .select("id, received_at, status, block:blocks(name), apartment:apartments(number)")
+        .eq("condominium_id", selectedCondominium)
+        .eq("tracking_code", parsedTracking.code)
+        .order("received_at", { ascending: false })
+        .limit(3);
+
+      setDuplicatePackages(data || []);
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [parsedTracking.code, selectedCondominium]);
+
+  // Locations belong to the condominium; drop the choice when it changes
+  useEffect(() => {
+    setSelectedStorageLocation("");
+  }, [selectedCondominium]);
+
   // Fetch destination preview when selections change
   useEffect(() => {
     const fetchDestinationPreview = async () => {
@@ -135,7 +210,8 @@ export default function RegisterPackage() {
 
         const residents = residentsRes.data || [];
         const responsibleResident = residents.find(r => r.phone) || residents[0];
-        const hasResidents = residents.length > 0;
+        // Residents are not cached for offline use; without connection assume the unit has them
+        const hasResidents = residents.length > 0 || !!residentsRes.error;
 
         if (condoRes.data && blockRes.data && aptRes.data) {
           setDestinationPreview({
@@ -199,6 +275,24 @@ export default function RegisterPackage() {
       return;
     }
 
+    if (duplicatePackages.length > 0 && !duplicateConfirmed) {
+      toast({
+        title: "Código já registrado",
+        description: "Confirme que se trata de uma nova encomenda antes de registrar",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (storageLocationRequired && !selectedStorageLocation) {
+      toast({
+        title: "Local obrigatório",
+        description: "Selecione onde a encomenda foi guardada",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!user) {
       toast({
         title: "Não autenticado",
@@ -210,6 +304,46 @@ export default function RegisterPackage() {
 
     setIsSubmitting(true);
 
+    // Without connection the registration is kept on the device and sent later
+    const registerOffline = async (pickupCode: string) => {
+      await queueOffline("package", {
+        condominium_id: selectedCondominium,
+        block_id: selectedBlock,
+        apartment_id: selectedApartment,
+        photo: capturedImage,
+        pickup_code: pickupCode,
+        description: description || null,
+        package_type_id: selectedPackageType || null,
+        tracking_code: parsedTracking.code || null,
+        carrier: parsedTracking.carrier,
+        storage_location_id: selectedStorageLocation || null,
+        received_by_name: user.user_metadata?.full_name ?? null,
+      });
+      setSavedOffline(true);
+      setNotificationResult({
+        sent: false,
+        count: 0,
+        message: "Sem conexão: o morador será notificado quando a conexão voltar",
+      });
+      setRegisteredCode(pickupCode);
+      setStep("success");
+      toast({
+        title: "Encomenda salva no dispositivo",
+        description: "Ela será registrada automaticamente quando a conexão voltar.",
+      });
+    };
+
+    const pickupCode = generatePickupCode();
+
+    if (!navigator.onLine) {
+      try {
+        await registerOffline(pickupCode);
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
+
     try {
       // 0. Fetch porter's profile name
       const { data: porterProfile } = await supabase
@@ -219,7 +353,6 @@ export default function RegisterPackage() {
         .single();
 
       // 1. Upload image to storage
-      const pickupCode = generatePickupCode();
       const fileName = `${Date.now()}_${pickupCode}.jpg`;
       
       // Convert base64 to blob
@@ -266,7 +399,9 @@ export default function RegisterPackage() {
           photo_url: urlData.publicUrl,
           status: "pendente",
           package_type_id: selectedPackageType || null,
-          tracking_code: trackingCode || null,
+          tracking_code: parsedTracking.code || null,
+          carrier: parsedTracking.carrier,
+          storage_location_id: selectedStorageLocation || null,
         })
         .select()
         .single();
@@ -314,6 +449,10 @@ export default function RegisterPackage() {
           : "Encomenda salva. Notificação não enviada.",
       });
     } catch (error) {
+      if (isConnectivityError(error)) {
+        await registerOffline(pickupCode);
+        return;
+      }
       console.error("Error registering package:", error);
       toast({
         title: "Erro ao registrar",
@@ -325,6 +464,13 @@ export default function RegisterPackage() {
     }
   };
 
+  // Unit suggested by the label OCR, confirmed by the porteiro
+  const handleConfirmOcrUnit = (unit: UnitCandidate) => {
+    setSelectedBlock(unit.blockId);
+    // Wait for the block's apartments to load before selecting the apartment
+    setTimeout(() => setSelectedApartment(unit.apartmentId), 100);
+  };
+
   const handleNewPackage = () => {
     setCapturedImage(null);
     setSelectedCondominium("");
@@ -334,7 +480,12 @@ export default function RegisterPackage() {
     setRegisteredCode("");
     setSelectedPackageType("");
     setTrackingCode("");
+    setPackageTypeAutoFilled(false);
+    setDuplicatePackages([]);
+    setDuplicateConfirmed(false);
+    setSelectedStorageLocation("");
     setNotificationResult(null);
+    setSavedOffline(false);
     setDestinationPreview(null);
     setShowResidentForm(false);
     setNewResidentName("");
@@ -421,7 +572,7 @@ export default function RegisterPackage() {
                 <CheckCircle2 className="w-8 h-8 text-green-600" />
               </div>
               <h2 className="text-2xl font-bold text-center mb-2">
-                Encomenda Registrada!
+                {savedOffline ? "Encomenda Salva no Dispositivo" : "Encomenda Registrada!"}
               </h2>
               <p className="text-muted-foreground text-center mb-4">
                 O morador deve apresentar o código no app para confirmar a retirada
@@ -479,12 +630,16 @@ export default function RegisterPackage() {
           <Button variant="ghost" size="icon" onClick={() => navigate("/porteiro")}>
             <ArrowLeft className="w-5 h-5" />
           </Button>
-          <div>
+          <div className="flex-1">
             <h1 className="text-2xl font-bold">Registrar Encomenda</h1>
             <p className="text-muted-foreground">
               Tire uma foto e selecione o destino
             </p>
           </div>
+          <Button variant="outline" className="gap-2" onClick={() => navigate("/porteiro/registrar/lote")}>
+            <Layers className="w-4 h-4" />
+            <span className="hidden sm:inline">Registrar em lote</span>
+          </Button>
         </div>
 
         {/* Form */}
@@ -510,6 +665,14 @@ export default function RegisterPackage() {
               <CardTitle className="text-lg">Destino da Encomenda</CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
+              <LabelOcrSuggestion
+                image={capturedImage}
+                condominiumId={selectedCondominium}
+                selectedApartmentId={selectedApartment}
+                onConfirm={handleConfirmOcrUnit}
+                disabled={isSubmitting}
+              />
+
               <CondominiumBlockApartmentSelect
                 condominiumIds={condominiumIds}
                 selectedCondominium={selectedCondominium}
@@ -677,6 +840,7 @@ export default function RegisterPackage() {
                                 value={type.name}
                                 onSelect={() => {
                                   setSelectedPackageType(type.id);
+                                  setPackageTypeAutoFilled(false);
                                 }}
                               >
                                 <Check
@@ -697,9 +861,46 @@ export default function RegisterPackage() {
                 </Popover>
               </div>
 
+              {/* Storage Location */}
+              {storageLocationRequired && (
+                <div className="space-y-2">
+                  <Label htmlFor="storage-location">Local de Armazenamento *</Label>
+                  <Select
+                    value={selectedStorageLocation}
+                    onValueChange={setSelectedStorageLocation}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="storage-location">
+                      <SelectValue placeholder="Onde a encomenda foi guardada?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {storageLocations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          <span className="flex items-center gap-2">
+                            <StorageLocationIcon type={location.location_type} className="h-4 w-4 text-muted-foreground" />
+                            {location.name}
+                            <span className="text-xs text-muted-foreground">
+                              {STORAGE_LOCATION_TYPE_LABELS[location.location_type]}
+                            </span>
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Tracking Code */}
               <div className="space-y-2">
-                <Label htmlFor="tracking-code">Código de Rastreio *</Label>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="tracking-code">Código de Rastreio *</Label>
+                  {parsedTracking.carrier && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Truck className="w-3 h-3" />
+                      {CARRIER_LABELS[parsedTracking.carrier]}
+                    </Badge>
+                  )}
+                </div>
                 <div className="flex gap-2">
                   <Input
                     id="tracking-code"
@@ -720,13 +921,45 @@ export default function RegisterPackage() {
                     <QrCode className="h-4 w-4" />
                   </Button>
                 </div>
+                {!parsedTracking.isValid && (
+                  <p className="text-xs text-amber-600 flex items-center gap-1">
+                    <AlertCircle className="w-3 h-3" />
+                    Dígito verificador não confere. Confira o código digitado.
+                  </p>
+                )}
+                {duplicatePackages.length > 0 && (
+                  <div className="p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 space-y-2">
+                    <p className="text-sm font-medium text-amber-700 dark:text-amber-400 flex items-center gap-2">
+                      <Copy className="w-4 h-4" />
+                      Este código já foi registrado neste condomínio
+                    </p>
+                    <ul className="text-xs text-muted-foreground space-y-0.5">
+                      {duplicatePackages.map((dup) => (
+                        <li key={dup.id}>
+                          {format(new Date(dup.received_at), "dd/MM/yyyy HH:mm")} · {dup.block?.name} - Apto{" "}
+                          {dup.apartment?.number} · {dup.status === "pendente" ? "Pendente" : "Retirada"}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="duplicate-confirmed"
+                        checked={duplicateConfirmed}
+                        onCheckedChange={(checked) => setDuplicateConfirmed(checked === true)}
+                      />
+                      <Label htmlFor="duplicate-confirmed" className="text-xs font-normal">
+                        Confirmo que é uma nova encomenda
+                      </Label>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Barcode Scanner Modal */}
               <BarcodeScanner
                 isOpen={showBarcodeScanner}
                 onClose={() => setShowBarcodeScanner(false)}
-                onScan={(code) => setTrackingCode(code.toUpperCase())}
+                onScan={(code) => setTrackingCode(parseTrackingCode(code).code)}
               />
 
               <div className="space-y-2">
@@ -755,7 +988,7 @@ export default function RegisterPackage() {
                 className="w-full gap-2"
                 size="lg"
                 onClick={handleSubmit}
-                disabled={isSubmitting || !capturedImage || !selectedApartment || !selectedPackageType || !trackingCode.trim() || (destinationPreview && !destinationPreview.hasResidents)}
+                disabled={isSubmitting || !capturedImage || !selectedApartment || !selectedPackageType || !trackingCode.trim() || (duplicatePackages.length > 0 && !duplicateConfirmed) || (storageLocationRequired && !selectedStorageLocation) || (destinationPreview && !destinationPreview.hasResidents)}
               >
                 {isSubmitting ? (
                   <>
@@ -0,0 +1,649 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  ArrowLeft,
+  Package,
+  Loader2,
+  AlertCircle,
+  Plus,
+  Trash2,
+  QrCode,
+  Truck,
+  Copy,
+  CheckCircle2,
+  XCircle,
+  MessageCircle,
+  Layers,
+  RotateCcw,
+} from "lucide-react";
+import SubscriptionGate from "@/components/sindico/SubscriptionGate";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CameraCapture } from "@/components/packages/CameraCapture";
+import { BarcodeScanner } from "@/components/packages/BarcodeScanner";
+import { CondominiumBlockApartmentSelect } from "@/components/packages/CondominiumBlockApartmentSelect";
+import { LabelOcrSuggestion } from "@/components/packages/LabelOcrSuggestion";
+import { StorageLocationIcon } from "@/components/packages/StorageLocationBadge";
+import type { UnitCandidate } from "@/lib/labelOcr";
+import { generatePickupCode } from "@/lib/packageConstants";
+import { CARRIER_LABELS, CARRIER_PACKAGE_TYPE_NAME, parseTrackingCode, type PackageCarrier } from "@/lib/packageCarriers";
+import { deletePackagePhoto, uploadPackagePhoto } from "@/lib/packageStorage";
+import { usePackageStorageLocations } from "@/hooks/usePackageStorageLocations";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { cn } from "@/lib/utils";
+
+interface PackageType {
+  id: string;
+  name: string;
+}
+
+type BatchItemStatus = "queued" | "submitting" | "registered" | "error";
+
+interface BatchItem {
+  localId: string;
+  photo: string;
+  condominiumId: string;
+  blockId: string;
+  apartmentId: string;
+  unitLabel: string;
+  hasPhone: boolean;
+  trackingCode: string;
+  carrier: PackageCarrier | null;
+  packageTypeId: string;
+  storageLocationId: string | null;
+  possibleDuplicate: boolean;
+  status: BatchItemStatus;
+  error?: string;
+  packageId?: string;
+  pickupCode?: string;
+  notified?: boolean;
+}
+
+const STATUS_BADGES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: "Na fila", className: "bg-muted text-muted-foreground" },
+  submitting: { label: "Registrando", className: "bg-primary/10 text-primary border-primary/30" },
+  registered: { label: "Registrada", className: "bg-emerald-500/10 text-emerald-600 border-emerald-500/30" },
+  error: { label: "Erro", className: "bg-destructive/10 text-destructive border-destructive/30" },
+};
+
+export default function RegisterPackageBatch() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const [condominiumIds, setCondominiumIds] = useState<string[]>([]);
+  const [packageTypes, setPackageTypes] = useState<PackageType[]>([]);
+  const [queue, setQueue] = useState<BatchItem[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
+
+  // Current item; condominium, type and location are kept between items
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [selectedCondominium, setSelectedCondominium] = useState("");
+  const [selectedBlock, setSelectedBlock] = useState("");
+  const [selectedApartment, setSelectedApartment] = useState("");
+  const [trackingCode, setTrackingCode] = useState("");
+  const [selectedPackageType, setSelectedPackageType] = useState("");
+  const [packageTypeAutoFilled, setPackageTypeAutoFilled] = useState(false);
+  const [selectedStorageLocation, setSelectedStorageLocation] = useState("");
+
+  const parsedTracking = useMemo(() => parseTrackingCode(trackingCode), [trackingCode]);
+
+  const { locations: storageLocations } = usePackageStorageLocations(
+    selectedCondominium ? [selectedCondominium] : []
+  );
+  const storageLocationRequired = storageLocations.length > 0;
+
+  const pendingItems = queue.filter((item) => item.status === "queued" || item.status === "error");
+  const registeredItems = queue.filter((item) => item.status === "registered");
+
+  useEffect(() => {
+    const fetchCondominiums = async () => {
+      if (!user) return;
+      const { data } = await supabase
+        .from("user_condominiums")
+        .select("condominium_id")
+        .eq("user_id", user.id);
+      if (data) {
+        setCondominiumIds(data.map((uc) => uc.condominium_id));
+      }
+    };
+    fetchCondominiums();
+  }, [user]);
+
+  useEffect(() => {
+    const fetchPackageTypes = async () => {
+      const { data, error } = await supabase
+        .from("package_types")
+        .select("id, name")
+        .eq("is_active", true)
+        .order("display_order");
+      if (data && !error) {
+        setPackageTypes(data);
+      }
+    };
+    fetchPackageTypes();
+  }, []);
+
+  // Pre-select the package type matching the detected carrier, unless the porteiro chose one
+  useEffect(() => {
+    if (!parsedTracking.carrier || (selectedPackageType && !packageTypeAutoFilled)) return;
+    const typeName = CARRIER_PACKAGE_TYPE_NAME[parsedTracking.carrier].toLowerCase();
+    const match = packageTypes.find((type) => type.name.toLowerCase() === typeName);
+    if (match) {
+      setSelectedPackageType(match.id);
+      setPackageTypeAutoFilled(true);
+    }
+  }, [parsedTracking.carrier, packageTypes, selectedPackageType, packageTypeAutoFilled]);
+
+  useEffect(() => {
+    setSelectedStorageLocation("");
+  }, [selectedCondominium]);
+
+  // The queue only lives in memory; warn before leaving with unregistered packages
+  useEffect(() => {
+    if (pendingItems.length === 0) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [pendingItems.length]);
+
+  const updateItem = (localId: string, changes: Partial<BatchItem>) => {
+    setQueue((prev) => prev.map((item) => (item.localId === localId ? { ...item, ...changes } : item)));
+  };
+
+  const handleConfirmOcrUnit = (unit: UnitCandidate) => {
+    setSelectedBlock(unit.blockId);
+    // Wait for the block's apartments to load before selecting the apartment
+    setTimeout(() => setSelectedApartment(unit.apartmentId), 100);
+  };
+
+  const handleAddToQueue = async () => {
+    if (!capturedImage || !selectedCondominium || !selectedBlock || !selectedApartment) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Tire a foto e selecione o bloco e apartamento",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!selectedPackageType || !parsedTracking.code) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Informe o tipo e o código de rastreio da encomenda",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (storageLocationRequired && !selectedStorageLocation) {
+      toast({
+        title: "Local obrigatório",
+        description: "Selecione onde a encomenda foi guardada",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (queue.some((item) => item.trackingCode === parsedTracking.code && item.condominiumId === selectedCondominium)) {
+      toast({
+        title: "Código já está no lote",
+        description: "Esta encomenda já foi adicionada à fila",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const [aptRes, residentsRes, duplicateRes] = await Promise.all([
+        supabase.from("apartments").select("number, block:blocks(name)").eq("id", selectedApartment).single(),
+        supabase.from("residents").select("phone").eq("apartment_id", selectedApartment),
+        supabase
+          .from("packages")
+          .select("id", { count: "exact", head: true })
+          .eq("condominium_id", selectedCondominium)
+          .eq("tracking_code", parsedTracking.code),
+      ]);
+
+      const residents = residentsRes.data || [];
+      if (residents.length === 0) {
+        toast({
+          title: "Unidade sem moradores",
+          description: "Cadastre um morador pelo registro individual antes de incluir esta unidade no lote",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setQueue((prev) => [
+        ...prev,
+        {
+          localId: crypto.randomUUID(),
+          photo: capturedImage,
+          condominiumId: selectedCondominium,
+          blockId: selectedBlock,
+          apartmentId: selectedApartment,
+          unitLabel: aptRes.data ? `${aptRes.data.block?.name} - Apto ${aptRes.data.number}` : "Unidade",
+          hasPhone: residents.some((r) => r.phone),
+          trackingCode: parsedTracking.code,
+          carrier: parsedTracking.carrier,
+          packageTypeId: selectedPackageType,
+          storageLocationId: selectedStorageLocation || null,
+          possibleDuplicate: (duplicateRes.count || 0) > 0,
+          status: "queued",
+        },
+      ]);
+
+      setCapturedImage(null);
+      setTrackingCode("");
+      setSelectedBlock("");
+      setSelectedApartment("");
+    } catch (error) {
+      console.error("Error adding package to batch:", error);
+      toast({
+        title: "Erro ao adicionar",
+        description: "Não foi possível adicionar a encomenda ao lote",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleSubmitBatch = async () => {
+    if (!user || pendingItems.length === 0) return;
+    setIsSubmitting(true);
+
+    const { data: profileData } = await supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    // Registered one by one so a failure only affects its own item
+    const registeredIds: string[] = [];
+    for (const item of pendingItems) {
+      updateItem(item.localId, { status: "submitting", error: undefined });
+      let photoUrl: string | null = null;
+      try {
+        const pickupCode = generatePickupCode();
+        photoUrl = await uploadPackagePhoto(item.photo, `${Date.now()}_${pickupCode}.jpg`);
+
+        const { data, error } = await supabase
+          .from("packages")
+          .insert({
+            condominium_id: item.condominiumId,
+            block_id: item.blockId,
+            apartment_id: item.apartmentId,
+            received_by: user.id,
+            received_by_name: profileData?.full_name || null,
+            pickup_code: pickupCode,
+            photo_url: photoUrl,
+            status: "pendente",
+            package_type_id: item.packageTypeId,
+            tracking_code: item.trackingCode,
+            carrier: item.carrier,
+            storage_location_id: item.storageLocationId,
+          })
+          .select("id")
+          .single();
+
+        if (error) throw error;
+
+        registeredIds.push(data.id);
+        updateItem(item.localId, { status: "registered", packageId: data.id, pickupCode });
+      } catch (error) {
+        console.error("Error registering batch package:", error);
+        if (photoUrl) await deletePackagePhoto(photoUrl);
+        updateItem(item.localId, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Não foi possível registrar",
+        });
+      }
+    }
+
+    // One consolidated message per resident for everything registered in this round
+    let notificationsSent = 0;
+    if (registeredIds.length > 0) {
+      try {
+        const { data: notifyData, error: notifyError } = await supabase.functions.invoke(
+          "notify-package-batch-arrival",
+          { body: { package_ids: registeredIds } }
+        );
+        if (notifyError) throw notifyError;
+
+        notificationsSent = notifyData?.notifications_sent || 0;
+        const notifiedIds = new Set<string>(notifyData?.notified_package_ids || []);
+        setQueue((prev) =>
+          prev.map((item) =>
+            item.packageId && registeredIds.includes(item.packageId)
+              ? { ...item, notified: notifiedIds.has(item.packageId) }
+              : item
+          )
+        );
+      } catch (notifyErr) {
+        console.warn("Error calling batch notification function:", notifyErr);
+        setQueue((prev) =>
+          prev.map((item) =>
+            item.packageId && registeredIds.includes(item.packageId) ? { ...item, notified: false } : item
+          )
+        );
+      }
+    }
+
+    setIsSubmitting(false);
+
+    const failed = pendingItems.length - registeredIds.length;
+    toast({
+      title: failed > 0 ? "Lote registrado com falhas" : "Lote registrado!",
+      description:
+        `${registeredIds.length} de ${pendingItems.length} encomenda(s) registrada(s). ` +
+        `${notificationsSent} morador(es) notificado(s) via WhatsApp.` +
+        (failed > 0 ? " Revise os itens com erro e tente novamente." : ""),
+      variant: failed > 0 ? "destructive" : undefined,
+    });
+  };
+
+  const handleNewBatch = () => {
+    setQueue((prev) => prev.filter((item) => item.status !== "registered"));
+  };
+
+  return (
+    <DashboardLayout>
+      <SubscriptionGate>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/porteiro/registrar")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Registrar em Lote</h1>
+            <p className="text-muted-foreground">
+              Fotografe as encomendas em sequência e registre todas de uma vez
+            </p>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Current item */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Próxima Encomenda</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <CameraCapture
+                onCapture={setCapturedImage}
+                capturedImage={capturedImage}
+                onClear={() => setCapturedImage(null)}
+                className="aspect-[4/3]"
+              />
+
+              <LabelOcrSuggestion
+                image={capturedImage}
+                condominiumId={selectedCondominium}
+                selectedApartmentId={selectedApartment}
+                onConfirm={handleConfirmOcrUnit}
+                disabled={isSubmitting}
+              />
+
+              <CondominiumBlockApartmentSelect
+                condominiumIds={condominiumIds}
+                selectedCondominium={selectedCondominium}
+                selectedBlock={selectedBlock}
+                selectedApartment={selectedApartment}
+                onCondominiumChange={setSelectedCondominium}
+                onBlockChange={setSelectedBlock}
+                onApartmentChange={setSelectedApartment}
+                disabled={isSubmitting}
+              />
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="batch-tracking-code">Código de Rastreio *</Label>
+                  {parsedTracking.carrier && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Truck className="w-3 h-3" />
+                      {CARRIER_LABELS[parsedTracking.carrier]}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    id="batch-tracking-code"
+                    placeholder="Ex: AA123456789BR"
+                    value={trackingCode}
+                    onChange={(e) => setTrackingCode(e.target.value.toUpperCase())}
+                    disabled={isSubmitting}
+                    className="flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setShowBarcodeScanner(true)}
+                    disabled={isSubmitting}
+                    title="Escanear código de barras ou QR Code"
+                  >
+                    <QrCode className="h-4 w-4" />
+                  </Button>
+                </div>
+                {!parsedTracking.isValid && (
+                  <p className="text-xs text-amber-600 flex items-center gap-1">
+                    <AlertCircle className="w-3 h-3" />
+                    Dígito verificador não confere. Confira o código digitado.
+                  </p>
+                )}
+              </div>
+
+              <BarcodeScanner
+                isOpen={showBarcodeScanner}
+                onClose={() => setShowBarcodeScanner(false)}
+                onScan={(code) => setTrackingCode(parseTrackingCode(code).code)}
+              />
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="batch-package-type">Tipo de Encomenda *</Label>
+                  <Select
+                    value={selectedPackageType}
+                    onValueChange={(value) => {
+                      setSelectedPackageType(value);
+                      setPackageTypeAutoFilled(false);
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="batch-package-type">
+                      <SelectValue placeholder="Selecione o tipo" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {packageTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {storageLocationRequired && (
+                  <div className="space-y-2">
+                    <Label htmlFor="batch-storage-location">Local de Armazenamento *</Label>
+                    <Select
+                      value={selectedStorageLocation}
+                      onValueChange={setSelectedStorageLocation}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger id="batch-storage-location">
+                        <SelectValue placeholder="Onde foi guardada?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {storageLocations.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            <span className="flex items-center gap-2">
+                              <StorageLocationIcon type={location.location_type} className="h-4 w-4 text-muted-foreground" />
+                              {location.name}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <Button
+                className="w-full gap-2"
+                variant="secondary"
+                onClick={handleAddToQueue}
+                disabled={isSubmitting || isAdding || !capturedImage || !selectedApartment || !selectedPackageType || !parsedTracking.code || (storageLocationRequired && !selectedStorageLocation)}
+              >
+                {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Adicionar ao lote
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Queue */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Layers className="w-5 h-5" />
+                Lote ({queue.length})
+              </CardTitle>
+              {registeredItems.length > 0 && !isSubmitting && (
+                <Button variant="ghost" size="sm" className="gap-1" onClick={handleNewBatch}>
+                  <RotateCcw className="w-4 h-4" />
+                  Limpar registradas
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {queue.length === 0 ? (
+                <div className="text-center py-10 text-muted-foreground">
+                  <Package className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                  <p className="text-sm">Nenhuma encomenda no lote.</p>
+                  <p className="text-xs">Fotografe e adicione as encomendas uma a uma.</p>
+                </div>
+              ) : (
+                <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+                  {queue.map((item) => {
+                    const badge = STATUS_BADGES[item.status];
+                    return (
+                      <li key={item.localId} className="flex items-center gap-3 p-2 rounded-lg border">
+                        <img src={item.photo} alt="" className="w-14 h-14 rounded object-cover shrink-0" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <p className="font-medium text-sm uppercase truncate">{item.unitLabel}</p>
+                          <p className="text-xs text-muted-foreground font-mono truncate">
+                            {item.trackingCode}
+                            {item.carrier && ` · ${CARRIER_LABELS[item.carrier]}`}
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant="outline" className={cn("text-[10px]", badge.className)}>
+                              {item.status === "submitting" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                              {badge.label}
+                              {item.pickupCode && ` · ${item.pickupCode}`}
+                            </Badge>
+                            {item.possibleDuplicate && item.status !== "registered" && (
+                              <Badge variant="outline" className="text-[10px] gap-1 bg-amber-500/10 text-amber-600 border-amber-500/30">
+                                <Copy className="w-3 h-3" />
+                                Código já registrado
+                              </Badge>
+                            )}
+                            {!item.hasPhone && (
+                              <Badge variant="outline" className="text-[10px] bg-muted text-muted-foreground">
+                                Sem WhatsApp
+                              </Badge>
+                            )}
+                            {item.notified !== undefined && (
+                              <Badge
+                                variant="outline"
+                                className={cn(
+                                  "text-[10px] gap-1",
+                                  item.notified
+                                    ? "bg-emerald-500/10 text-emerald-600 border-emerald-500/30"
+                                    : "bg-muted text-muted-foreground"
+                                )}
+                              >
+                                <MessageCircle className="w-3 h-3" />
+                                {item.notified ? "Notificado" : "Não notificado"}
+                              </Badge>
+                            )}
+                          </div>
+                          {item.error && (
+                            <p className="text-xs text-destructive flex items-center gap-1">
+                              <XCircle className="w-3 h-3 shrink-0" />
+                              {item.error}
+                            </p>
+                          )}
+                        </div>
+                        {item.status === "registered" ? (
+                          <CheckCircle2 className="w-5 h-5 text-emerald-600 shrink-0" />
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="shrink-0"
+                            onClick={() => setQueue((prev) => prev.filter((i) => i.localId !== item.localId))}
+                            disabled={isSubmitting}
+                            title="Remover do lote"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              <Button
+                className="w-full gap-2"
+                size="lg"
+                onClick={handleSubmitBatch}
+                disabled={isSubmitting || pendingItems.length === 0}
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Registrando lote...
+                  </>
+                ) : (
+                  <>
+                    <Package className="w-4 h-4" />
+                    {queue.some((item) => item.status === "error")
+                      ? `Tentar novamente (${pendingItems.length})`
+                      : `Registrar ${pendingItems.length} encomenda(s)`}
+                  </>
+                )}
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                Cada morador recebe uma única mensagem com todas as suas encomendas do lote.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+      </SubscriptionGate>
+    </DashboardLayout>
+  );
+}
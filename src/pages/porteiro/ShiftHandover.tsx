@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { isConnectivityError } from "@/lib/offlineQueue";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -39,6 +41,7 @@ interface HandoverRecord {
 
 export default function ShiftHandover() {
   const { user } = useAuth();
+  const { queueOffline } = useOfflineSync();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -216,6 +219,26 @@ export default function ShiftHandover() {
   // Submit handover
   const submitMutation = useMutation({
     mutationFn: async () => {
+      const items = checklistItems.map((item) => ({
+        item_name: item.item_name,
+        category: item.category,
+        is_ok: item.is_ok,
+        observation: item.observation || null,
+      }));
+
+      // Without connection the handover is kept on the device and sent later
+      const saveOffline = async () => {
+        await queueOffline("handover", {
+          condominium_id: selectedCondominium,
+          incoming_porter_name: incomingPorterName,
+          general_observations: generalObservations || null,
+          items,
+        });
+        return { queued: true };
+      };
+
+      if (!navigator.onLine) return saveOffline();
+
       // Create handover
       const { data: handover, error: handoverError } = await supabase
         .from("shift_handovers")
@@ -228,23 +251,21 @@ export default function ShiftHandover() {
         .select("id")
         .single();
 
-      if (handoverError) throw handoverError;
+      if (handoverError) {
+        if (isConnectivityError(handoverError)) return saveOffline();
+        throw handoverError;
+      }
 
       // Create items
-      if (checklistItems.length > 0) {
-        const items = checklistItems.map((item) => ({
-          handover_id: handover.id,
-          item_name: item.item_name,
-          category: item.category,
-          is_ok: item.is_ok,
-          observation: item.observation || null,
-        }));
-
-        const { error: itemsError } = await supabase.from("shift_handover_items").insert(items);
+      if (items.length > 0) {
+        const { error: itemsError } = await supabase
+          .from("shift_handover_items")
+          .insert(items.map((item) => ({ ...item, handover_id: handover.id })));
         if (itemsError) throw itemsError;
       }
+      return { queued: false };
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
       // Build summary text
       const itemsNotOk = checklistItems.filter((i) => !i.is_ok);
       const hasIssues = itemsNotOk.length > 0;
@@ -272,7 +293,11 @@ export default function ShiftHandover() {
       setShowSummaryModal(true);
 
       queryClient.invalidateQueries({ queryKey: ["shift-handovers"] });
-      toast({ title: "Passagem de plantão registrada com sucesso!" });
+      toast(
+        queued
+          ? { title: "Passagem de plantão salva no dispositivo", description: "Ela será registrada quando a conexão voltar." }
+          : { title: "Passagem de plantão registrada com sucesso!" }
+      );
       setIncomingPorterName("");
       setGeneralObservations("");
       setChecklistItems(
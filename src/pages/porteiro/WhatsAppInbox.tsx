@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import SubscriptionGate from "@/components/sindico/SubscriptionGate";
+import WhatsAppInbox from "@/components/whatsapp-inbox/WhatsAppInbox";
+import { useUserRole } from "@/hooks/useUserRole";
+import { MessageCircle } from "lucide-react";
+
+export default function PorteiroWhatsAppInbox() {
+  const { porteiroCondominiums } = useUserRole();
+  const condominiumIds = useMemo(() => porteiroCondominiums.map((c) => c.id), [porteiroCondominiums]);
+
+  return (
+    <DashboardLayout>
+      <SubscriptionGate>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+              <MessageCircle className="w-6 h-6" />
+              Conversas
+            </h1>
+            <p className="text-muted-foreground">
+              Mensagens enviadas pelos moradores via WhatsApp
+            </p>
+          </div>
+
+          <WhatsAppInbox condominiumIds={condominiumIds} />
+        </div>
+      </SubscriptionGate>
+    </DashboardLayout>
+  );
+}
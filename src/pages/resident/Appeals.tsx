@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Helmet } from "react-helmet-async";
+import { Scale, Loader2, ThumbsUp, ThumbsDown, Paperclip, CheckCircle2 } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useToast } from "@/hooks/use-toast";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  APPEAL_STATUS_LABELS,
+  APPEAL_STATUS_STYLES,
+  APPEAL_VOTE_LABELS,
+  castAppealVote,
+  type AppealVote,
+} from "@/lib/occurrenceAppeals";
+
+interface CouncilAppeal {
+  id: string;
+  content: string;
+  status: string;
+  filed_at: string;
+  resolved_at: string | null;
+  occurrences: { title: string; description: string; occurred_at: string } | null;
+  decisions: { decision: string; justification: string; decided_at: string } | null;
+  appeal_attachments: { id: string; file_url: string; file_type: string }[];
+  appeal_votes: { voter_id: string; vote: string; comment: string | null }[];
+}
+
+const DECISION_LABELS: Record<string, string> = {
+  advertido: "Advertência",
+  multado: "Multa",
+};
+
+export default function ResidentAppeals() {
+  const { user } = useAuth();
+  const { residentInfo } = useUserRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { dateTime: formatDateTime } = useDateFormatter();
+  const [activeTab, setActiveTab] = useState<"em_votacao" | "julgados">("em_votacao");
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [voting, setVoting] = useState<string | null>(null);
+
+  const condominiumId = residentInfo?.condominium_id;
+
+  const { data: appeals = [], isLoading } = useQuery({
+    queryKey: ["council-appeals", condominiumId],
+    enabled: !!condominiumId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("occurrence_appeals")
+        .select(`
+          id, content, status, filed_at, resolved_at,
+          occurrences(title, description, occurred_at),
+          decisions!occurrence_appeals_decision_id_fkey(decision, justification, decided_at),
+          appeal_attachments(id, file_url, file_type),
+          appeal_votes(voter_id, vote, comment)
+        `)
+        .eq("condominium_id", condominiumId!)
+        .order("filed_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as CouncilAppeal[];
+    },
+  });
+
+  const pending = appeals.filter((a) => a.status === "em_votacao");
+  const visibleAppeals = activeTab === "em_votacao" ? pending : appeals.filter((a) => a.status !== "em_votacao");
+
+  const handleVote = async (appealId: string, vote: AppealVote) => {
+    setVoting(appealId);
+    try {
+      const outcome = await castAppealVote(appealId, vote, comments[appealId]);
+      toast({
+        title: "Voto registrado",
+        description:
+          outcome === "em_votacao"
+            ? "O recurso será julgado quando o quórum for atingido."
+            : `Quórum atingido: ${APPEAL_STATUS_LABELS[outcome].toLowerCase()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["council-appeals", condominiumId] });
+    } catch (error) {
+      toast({
+        title: "Erro ao votar",
+        description: error instanceof Error ? error.message : "Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setVoting(null);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <Helmet>
+        <title>Recursos do Conselho | NotificaCondo</title>
+      </Helmet>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Recursos do Conselho</h1>
+          <p className="text-muted-foreground">
+            Recursos de moradores contra advertências e multas aplicadas pelo síndico
+          </p>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="em_votacao" className="gap-2">
+              Em votação
+              {pending.length > 0 && (
+                <Badge variant="secondary" className="ml-1">{pending.length}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="julgados">Julgados</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-48 w-full" />
+            ))}
+          </div>
+        ) : visibleAppeals.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Scale className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">
+                {activeTab === "em_votacao" ? "Nenhum recurso aguardando votação" : "Nenhum recurso julgado"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {visibleAppeals.map((appeal) => {
+              const myVote = appeal.appeal_votes.find((v) => v.voter_id === user?.id);
+              const favorable = appeal.appeal_votes.filter((v) => v.vote === "provido").length;
+              const against = appeal.appeal_votes.length - favorable;
+
+              return (
+                <Card key={appeal.id} className="bg-gradient-card border-border/50">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-3 flex-wrap">
+                      <div>
+                        <CardTitle className="text-lg">{appeal.occurrences?.title || "Ocorrência"}</CardTitle>
+                        <p className="text-xs text-muted-foreground">
+                          Recurso apresentado em {formatDateTime(appeal.filed_at)}
+                        </p>
+                      </div>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${APPEAL_STATUS_STYLES[appeal.status] || ""}`}>
+                        {APPEAL_STATUS_LABELS[appeal.status] || appeal.status}
+                      </span>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {appeal.occurrences?.description && (
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Fatos</p>
+                        <p className="text-sm text-foreground whitespace-pre-line">{appeal.occurrences.description}</p>
+                      </div>
+                    )}
+
+                    {appeal.decisions && (
+                      <div className="p-3 rounded-lg bg-secondary/50">
+                        <p className="text-xs text-muted-foreground mb-1">
+                          Decisão recorrida: {DECISION_LABELS[appeal.decisions.decision] || appeal.decisions.decision}
+                          {" · "}
+                          {formatDateTime(appeal.decisions.decided_at)}
+                        </p>
+                        <p className="text-sm text-foreground whitespace-pre-line">{appeal.decisions.justification}</p>
+                      </div>
+                    )}
+
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Razões do recurso</p>
+                      <p className="text-sm text-foreground whitespace-pre-line">{appeal.content}</p>
+                    </div>
+
+                    {appeal.appeal_attachments.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {appeal.appeal_attachments.map((attachment, index) => (
+                          <a
+                            key={attachment.id}
+                            href={attachment.file_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                          >
+                            <Paperclip className="w-3 h-3" />
+                            Anexo {index + 1}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      Votos: {favorable} a favor · {against} contra
+                    </p>
+
+                    {appeal.status === "em_votacao" && (
+                      <div className="space-y-3 pt-3 border-t border-border/30">
+                        {myVote && (
+                          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <CheckCircle2 className="w-3 h-3 text-emerald-500" />
+                            Seu voto: {APPEAL_VOTE_LABELS[myVote.vote as AppealVote] || myVote.vote}. Você pode alterá-lo até o julgamento.
+                          </p>
+                        )}
+                        <Textarea
+                          rows={2}
+                          placeholder="Fundamentação do voto (opcional)"
+                          value={comments[appeal.id] ?? myVote?.comment ?? ""}
+                          onChange={(e) => setComments({ ...comments, [appeal.id]: e.target.value })}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            className="flex-1 gap-2"
+                            disabled={voting === appeal.id}
+                            onClick={() => handleVote(appeal.id, "provido")}
+                          >
+                            {voting === appeal.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsUp className="w-4 h-4" />}
+                            {APPEAL_VOTE_LABELS.provido}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            className="flex-1 gap-2"
+                            disabled={voting === appeal.id}
+                            onClick={() => handleVote(appeal.id, "improvido")}
+                          >
+                            {voting === appeal.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsDown className="w-4 h-4" />}
+                            {APPEAL_VOTE_LABELS.improvido}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PartyPopper, Clock, Users, CalendarClock, FileText, XCircle, Loader2, Wallet, QrCode, Download, UserPlus, Repeat, Hourglass } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ResidentBookingCalendar, { type TimeSlot } from "@/components/party-hall/ResidentBookingCalendar";
+import BookingRequestDialog from "@/components/party-hall/BookingRequestDialog";
+import BookingPaymentDialog from "@/components/party-hall/BookingPaymentDialog";
+import GuestListDialog from "@/components/party-hall/GuestListDialog";
+import ResidentWaitlist from "@/components/party-hall/ResidentWaitlist";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useToast } from "@/hooks/use-toast";
+import { AREA_TYPE_LABELS, BOOKING_STATUS_LABELS, PAYMENT_STATUS_LABELS, getBookingTotal } from "@/lib/partyHallConstants";
+import { downloadPartyHallReceipt } from "@/lib/partyHallReceiptPdf";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Space {
+  id: string;
+  name: string;
+  rules: string | null;
+  advance_days_required: number | null;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  max_guests: number | null;
+  rental_fee: number | null;
+  deposit_amount: number;
+  area_type: string;
+  booking_mode: string;
+  slot_duration_minutes: number;
+  max_bookings_per_unit_month: number | null;
+  cooldown_days: number;
+}
+
+interface ResidentBooking {
+  id: string;
+  condominium_id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  guest_count: number | null;
+  guest_list_path: string | null;
+  rejection_reason: string | null;
+  fee_amount: number;
+  deposit_amount: number;
+  payment_method: string | null;
+  payment_status: string;
+  party_hall_setting: { name: string; max_guests: number | null } | null;
+}
+
+const statusVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pendente: "outline",
+  confirmada: "default",
+  em_uso: "secondary",
+  finalizada: "outline",
+  cancelada: "destructive",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export default function ResidentPartyHall() {
+  const { residentInfo } = useUserRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedSpaceId, setSelectedSpaceId] = useState<string>("");
+  const [requestDate, setRequestDate] = useState<Date | null>(null);
+  const [requestSlot, setRequestSlot] = useState<TimeSlot | null>(null);
+  const [payingBooking, setPayingBooking] = useState<ResidentBooking | null>(null);
+  const [downloadingReceiptId, setDownloadingReceiptId] = useState<string | null>(null);
+  const [guestListBooking, setGuestListBooking] = useState<ResidentBooking | null>(null);
+
+  const condominiumId = residentInfo?.condominium_id;
+
+  const { data: spaces = [], isLoading: loadingSpaces } = useQuery({
+    queryKey: ["resident-party-hall-spaces", condominiumId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_settings")
+        .select("id, name, rules, advance_days_required, check_in_time, check_out_time, max_guests, rental_fee, deposit_amount, area_type, booking_mode, slot_duration_minutes, max_bookings_per_unit_month, cooldown_days")
+        .eq("condominium_id", condominiumId!)
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data as Space[];
+    },
+    enabled: !!condominiumId,
+  });
+
+  useEffect(() => {
+    if (!spaces.some((s) => s.id === selectedSpaceId)) {
+      setSelectedSpaceId(spaces[0]?.id || "");
+    }
+  }, [spaces, selectedSpaceId]);
+
+  const { data: bookings = [], isLoading: loadingBookings } = useQuery({
+    queryKey: ["resident-party-hall-bookings", residentInfo?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("party_hall_bookings")
+        .select("id, condominium_id, booking_date, start_time, end_time, status, guest_count, guest_list_path, rejection_reason, fee_amount, deposit_amount, payment_method, payment_status, party_hall_setting:party_hall_settings(name, max_guests)")
+        .eq("resident_id", residentInfo!.id)
+        .order("booking_date", { ascending: false })
+        .limit(30);
+      if (error) throw error;
+      return data as unknown as ResidentBooking[];
+    },
+    enabled: !!residentInfo,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const { error } = await supabase.rpc("cancel_own_party_hall_booking", { p_booking_id: bookingId });
+      if (error) throw error;
+
+      // The freed date may go to the first resident on the waitlist
+      const { error: notifError } = await supabase.functions.invoke("notify-party-hall-waitlist");
+      if (notifError) console.error("Error notifying party hall waitlist:", notifError);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["party-hall-availability"] });
+      toast({ title: "Reserva cancelada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cancelar reserva", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async ({ date, slot }: { date: Date; slot: TimeSlot }) => {
+      const { error } = await supabase.rpc("join_party_hall_waitlist", {
+        p_resident_id: residentInfo!.id,
+        p_setting_id: selectedSpaceId,
+        p_booking_date: format(date, "yyyy-MM-dd"),
+        p_start_time: slot.start,
+        p_end_time: slot.end,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-party-hall-waitlist"] });
+      toast({
+        title: "Você entrou na lista de espera",
+        description: "Se a vaga for liberada, você será avisado pelo WhatsApp.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao entrar na lista de espera", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDownloadReceipt = async (bookingId: string) => {
+    setDownloadingReceiptId(bookingId);
+    try {
+      await downloadPartyHallReceipt(bookingId);
+    } catch (error) {
+      toast({
+        title: "Erro ao gerar recibo",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingReceiptId(null);
+    }
+  };
+
+  const selectedSpace = spaces.find((s) => s.id === selectedSpaceId);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Áreas Comuns</h1>
+            <p className="text-muted-foreground">
+              Consulte as datas e horários livres e solicite sua reserva para aprovação do síndico
+            </p>
+          </div>
+          {spaces.length > 1 && (
+            <Select value={selectedSpaceId} onValueChange={setSelectedSpaceId}>
+              <SelectTrigger className="w-full md:w-[220px]">
+                <SelectValue placeholder="Selecione o espaço" />
+              </SelectTrigger>
+              <SelectContent>
+                {spaces.map((space) => (
+                  <SelectItem key={space.id} value={space.id}>
+                    {space.name} · {AREA_TYPE_LABELS[space.area_type] || space.area_type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {loadingSpaces ? (
+          <Skeleton className="h-[360px] w-full" />
+        ) : !selectedSpace ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <PartyPopper className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">Nenhum espaço disponível para reserva no seu condomínio.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Space rules */}
+            <Card>
+              <CardContent className="py-4 flex flex-wrap gap-x-6 gap-y-2 text-sm">
+                <span className="flex items-center gap-1.5">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  {selectedSpace.check_in_time?.slice(0, 5) || "08:00"} às {selectedSpace.check_out_time?.slice(0, 5) || "22:00"}
+                  {selectedSpace.booking_mode === "por_horario" && ` · blocos de ${selectedSpace.slot_duration_minutes} min`}
+                </span>
+                {selectedSpace.max_guests && (
+                  <span className="flex items-center gap-1.5">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    Até {selectedSpace.max_guests} convidados
+                  </span>
+                )}
+                <span className="flex items-center gap-1.5">
+                  <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                  {selectedSpace.advance_days_required || 1} dia(s) de antecedência
+                </span>
+                {selectedSpace.max_bookings_per_unit_month && (
+                  <span className="flex items-center gap-1.5">
+                    <Repeat className="h-4 w-4 text-muted-foreground" />
+                    Até {selectedSpace.max_bookings_per_unit_month} reserva(s) por unidade no mês
+                  </span>
+                )}
+                {selectedSpace.cooldown_days > 0 && (
+                  <span className="flex items-center gap-1.5">
+                    <Hourglass className="h-4 w-4 text-muted-foreground" />
+                    Intervalo de {selectedSpace.cooldown_days} dia(s) entre reservas da unidade
+                  </span>
+                )}
+                {(Number(selectedSpace.rental_fee) > 0 || Number(selectedSpace.deposit_amount) > 0) && (
+                  <span className="flex items-center gap-1.5">
+                    <Wallet className="h-4 w-4 text-muted-foreground" />
+                    Taxa {formatCurrency(Number(selectedSpace.rental_fee || 0))}
+                    {Number(selectedSpace.deposit_amount) > 0 && ` + caução ${formatCurrency(Number(selectedSpace.deposit_amount))}`}
+                  </span>
+                )}
+                {selectedSpace.rules && (
+                  <p className="w-full text-muted-foreground whitespace-pre-line">{selectedSpace.rules}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <ResidentBookingCalendar
+              key={selectedSpace.id}
+              settingId={selectedSpace.id}
+              advanceDaysRequired={selectedSpace.advance_days_required || 1}
+              bookingMode={selectedSpace.booking_mode}
+              slotDurationMinutes={selectedSpace.slot_duration_minutes}
+              checkInTime={selectedSpace.check_in_time?.slice(0, 5) || "08:00"}
+              checkOutTime={selectedSpace.check_out_time?.slice(0, 5) || "22:00"}
+              onRequest={(date, slot) => {
+                setRequestSlot(slot || null);
+                setRequestDate(date);
+              }}
+              onJoinWaitlist={(date, slot) => joinWaitlistMutation.mutate({ date, slot })}
+              joiningWaitlist={joinWaitlistMutation.isPending}
+            />
+          </>
+        )}
+
+        {residentInfo && <ResidentWaitlist residentId={residentInfo.id} />}
+
+        {/* Own bookings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PartyPopper className="w-5 h-5 text-primary" />
+              Minhas Reservas
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingBookings ? (
+              <div className="space-y-2">
+                {[1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)}
+              </div>
+            ) : bookings.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Você ainda não solicitou reservas.</p>
+            ) : (
+              <div className="space-y-2">
+                {bookings.map((booking) => {
+                  const cancellable = ["pendente", "confirmada"].includes(booking.status) && booking.booking_date > today;
+                  // The charge is released once the síndico approves the request
+                  const payable = booking.payment_status === "pendente" && ["confirmada", "em_uso", "finalizada"].includes(booking.status);
+                  const hasCharge = booking.payment_status !== "isento" && booking.status !== "cancelada";
+                  const hasGuestList = ["pendente", "confirmada", "em_uso", "finalizada"].includes(booking.status);
+                  return (
+                    <div key={booking.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium text-sm">{booking.party_hall_setting?.name}</span>
+                          <Badge variant={statusVariant[booking.status] || "outline"}>
+                            {BOOKING_STATUS_LABELS[booking.status] || booking.status}
+                          </Badge>
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          <span>{format(parseISO(booking.booking_date), "dd/MM/yyyy (EEEE)", { locale: ptBR })}</span>
+                          <span>
+                            {booking.start_time.slice(0, 5)} - {booking.end_time.slice(0, 5)}
+                          </span>
+                          {booking.guest_count && <span>{booking.guest_count} convidados</span>}
+                          {booking.guest_list_path && (
+                            <span className="flex items-center gap-1">
+                              <FileText className="w-3 h-3" /> Lista enviada
+                            </span>
+                          )}
+                          {hasCharge && (
+                            <span className="flex items-center gap-1">
+                              <Wallet className="w-3 h-3" />
+                              {formatCurrency(getBookingTotal(booking))} · {PAYMENT_STATUS_LABELS[booking.payment_status] || booking.payment_status}
+                              {booking.payment_status === "pendente" && booking.payment_method === "boleto_condominio" && " (boleto solicitado)"}
+                            </span>
+                          )}
+                        </div>
+                        {booking.status === "cancelada" && booking.rejection_reason && (
+                          <p className="text-xs text-destructive">Motivo: {booking.rejection_reason}</p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1 shrink-0">
+                        {hasGuestList && (
+                          <Button variant="ghost" size="sm" onClick={() => setGuestListBooking(booking)}>
+                            <UserPlus className="w-4 h-4 mr-1" />
+                            Convidados
+                          </Button>
+                        )}
+                        {payable && (
+                          <Button size="sm" variant="outline" onClick={() => setPayingBooking(booking)}>
+                            <QrCode className="w-4 h-4 mr-1" />
+                            Pagar
+                          </Button>
+                        )}
+                        {booking.payment_status === "pago" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDownloadReceipt(booking.id)}
+                            disabled={downloadingReceiptId === booking.id}
+                          >
+                            {downloadingReceiptId === booking.id ? (
+                              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            ) : (
+                              <Download className="w-4 h-4 mr-1" />
+                            )}
+                            Recibo
+                          </Button>
+                        )}
+                        {cancellable && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-muted-foreground hover:text-destructive"
+                            onClick={() => cancelMutation.mutate(booking.id)}
+                            disabled={cancelMutation.isPending}
+                          >
+                            {cancelMutation.isPending && cancelMutation.variables === booking.id ? (
+                              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            ) : (
+                              <XCircle className="w-4 h-4 mr-1" />
+                            )}
+                            Cancelar
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {residentInfo && selectedSpace && (
+        <BookingRequestDialog
+          open={!!requestDate}
+          onOpenChange={(open) => !open && setRequestDate(null)}
+          bookingDate={requestDate}
+          bookingSlot={requestSlot}
+          resident={residentInfo}
+          space={selectedSpace}
+        />
+      )}
+
+      {payingBooking && (
+        <BookingPaymentDialog
+          open={!!payingBooking}
+          onOpenChange={(open) => !open && setPayingBooking(null)}
+          booking={payingBooking}
+        />
+      )}
+
+      {guestListBooking && (
+        <GuestListDialog
+          open={!!guestListBooking}
+          onOpenChange={(open) => !open && setGuestListBooking(null)}
+          booking={guestListBooking}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
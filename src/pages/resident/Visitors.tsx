@@ -0,0 +1,417 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { UserCheck, UserPlus, Car, Calendar, LogIn, LogOut, XCircle, Loader2, Wrench } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { GuestInvitationsCard } from "@/components/visitors/GuestInvitationsCard";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useToast } from "@/hooks/use-toast";
+import {
+  VISITOR_TYPE_LABELS,
+  normalizePlate,
+  isAuthorizationValidOn,
+  type VisitorType,
+} from "@/lib/visitorConstants";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Authorization {
+  id: string;
+  visitor_type: VisitorType;
+  visitor_name: string;
+  visitor_document: string | null;
+  vehicle_plate: string | null;
+  company: string | null;
+  notes: string | null;
+  valid_from: string;
+  valid_until: string;
+  status: string;
+}
+
+interface Entry {
+  id: string;
+  visitor_type: VisitorType;
+  visitor_name: string;
+  company: string | null;
+  vehicle_plate: string | null;
+  checked_in_at: string;
+  checked_out_at: string | null;
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const emptyForm = () => ({
+  visitor_type: "visitante" as VisitorType,
+  visitor_name: "",
+  visitor_document: "",
+  vehicle_plate: "",
+  company: "",
+  notes: "",
+  valid_from: today(),
+  valid_until: today(),
+});
+
+const formatDay = (day: string) => format(parseISO(day), "dd/MM/yyyy", { locale: ptBR });
+
+export default function ResidentVisitors() {
+  const { residentInfo } = useUserRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const apartmentId = residentInfo?.apartment_id;
+
+  const { data: authorizations = [], isLoading: loadingAuthorizations } = useQuery({
+    queryKey: ["resident-visitor-authorizations", apartmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("visitor_authorizations")
+        .select("id, visitor_type, visitor_name, visitor_document, vehicle_plate, company, notes, valid_from, valid_until, status")
+        .eq("apartment_id", apartmentId!)
+        .order("valid_from", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data as Authorization[];
+    },
+    enabled: !!apartmentId,
+  });
+
+  const { data: entries = [], isLoading: loadingEntries } = useQuery({
+    queryKey: ["resident-visitor-entries", apartmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("visitor_entries")
+        .select("id, visitor_type, visitor_name, company, vehicle_plate, checked_in_at, checked_out_at")
+        .eq("apartment_id", apartmentId!)
+        .order("checked_in_at", { ascending: false })
+        .limit(30);
+      if (error) throw error;
+      return data as Entry[];
+    },
+    enabled: !!apartmentId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!residentInfo) throw new Error("Perfil de morador não encontrado.");
+      if (!form.visitor_name.trim()) throw new Error("Informe o nome do visitante.");
+      if (form.valid_until < form.valid_from) throw new Error("A data final deve ser igual ou posterior à inicial.");
+
+      const { error } = await supabase.from("visitor_authorizations").insert({
+        condominium_id: residentInfo.condominium_id,
+        apartment_id: residentInfo.apartment_id,
+        resident_id: residentInfo.id,
+        visitor_type: form.visitor_type,
+        visitor_name: form.visitor_name.trim(),
+        visitor_document: form.visitor_document.trim() || null,
+        vehicle_plate: form.vehicle_plate ? normalizePlate(form.vehicle_plate) : null,
+        company: form.visitor_type === "prestador" ? form.company.trim() || null : null,
+        notes: form.notes.trim() || null,
+        valid_from: form.valid_from,
+        valid_until: form.valid_until,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-visitor-authorizations"] });
+      toast({ title: "Visitante autorizado", description: "A portaria já pode liberar a entrada no período informado." });
+      setDialogOpen(false);
+      setForm(emptyForm());
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao autorizar visitante", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("visitor_authorizations")
+        .update({ status: "cancelada" })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resident-visitor-authorizations"] });
+      toast({ title: "Autorização cancelada" });
+    },
+    onError: () => toast({ title: "Erro ao cancelar autorização", variant: "destructive" }),
+  });
+
+  const currentDay = today();
+  const upcoming = authorizations.filter((a) => a.status === "ativa" && a.valid_until >= currentDay);
+  const insideCount = entries.filter((e) => !e.checked_out_at).length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Meus Visitantes</h1>
+            <p className="text-muted-foreground">
+              Autorize visitantes e prestadores e acompanhe as entradas na sua unidade
+            </p>
+          </div>
+          <Button className="gap-2 shrink-0" onClick={() => setDialogOpen(true)} disabled={!residentInfo}>
+            <UserPlus className="w-4 h-4" /> Autorizar Visitante
+          </Button>
+        </div>
+
+        {/* Stats */}
+        <div className="grid gap-4 grid-cols-2">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Autorizações ativas</CardTitle>
+              <UserCheck className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{upcoming.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">No condomínio agora</CardTitle>
+              <LogIn className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{insideCount}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Authorizations */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <UserCheck className="w-5 h-5 text-primary" />
+              Autorizações
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingAuthorizations ? (
+              <div className="space-y-2">
+                {[1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)}
+              </div>
+            ) : authorizations.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nenhum visitante autorizado. Cadastre uma autorização para agilizar a entrada na portaria.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {authorizations.map((auth) => {
+                  const validToday = isAuthorizationValidOn(auth, currentDay);
+                  const expired = auth.status === "ativa" && auth.valid_until < currentDay;
+                  return (
+                    <div key={auth.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          {auth.visitor_type === "prestador" ? (
+                            <Wrench className="w-4 h-4 text-muted-foreground" />
+                          ) : (
+                            <UserCheck className="w-4 h-4 text-muted-foreground" />
+                          )}
+                          <span className="font-medium text-sm">{auth.visitor_name}</span>
+                          {auth.company && <span className="text-xs text-muted-foreground">({auth.company})</span>}
+                          {auth.status === "cancelada" ? (
+                            <Badge variant="outline">Cancelada</Badge>
+                          ) : expired ? (
+                            <Badge variant="outline">Expirada</Badge>
+                          ) : validToday ? (
+                            <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Válida hoje</Badge>
+                          ) : (
+                            <Badge variant="secondary">Agendada</Badge>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Calendar className="w-3 h-3" />
+                            {auth.valid_from === auth.valid_until
+                              ? formatDay(auth.valid_from)
+                              : `${formatDay(auth.valid_from)} a ${formatDay(auth.valid_until)}`}
+                          </span>
+                          {auth.vehicle_plate && (
+                            <span className="flex items-center gap-1">
+                              <Car className="w-3 h-3" /> {auth.vehicle_plate}
+                            </span>
+                          )}
+                          {auth.visitor_document && <span>Doc.: {auth.visitor_document}</span>}
+                        </div>
+                      </div>
+                      {auth.status === "ativa" && !expired && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="shrink-0 text-muted-foreground hover:text-destructive"
+                          onClick={() => cancelMutation.mutate(auth.id)}
+                          disabled={cancelMutation.isPending}
+                        >
+                          <XCircle className="w-4 h-4 mr-1" /> Cancelar
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {residentInfo && <GuestInvitationsCard resident={residentInfo} />}
+
+        {/* Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <LogIn className="w-5 h-5 text-primary" />
+              Entradas Recentes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingEntries ? (
+              <div className="space-y-2">
+                {[1, 2].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nenhuma entrada registrada.</p>
+            ) : (
+              <div className="space-y-2">
+                {entries.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {entry.visitor_name}
+                        {entry.company && <span className="text-muted-foreground font-normal"> ({entry.company})</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {VISITOR_TYPE_LABELS[entry.visitor_type]} · Entrada{" "}
+                        {format(new Date(entry.checked_in_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      </p>
+                    </div>
+                    {entry.checked_out_at ? (
+                      <span className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
+                        <LogOut className="w-3 h-3" />
+                        {format(new Date(entry.checked_out_at), "HH:mm", { locale: ptBR })}
+                      </span>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 shrink-0">
+                        No condomínio
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* New authorization */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Autorizar Visitante</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select
+                  value={form.visitor_type}
+                  onValueChange={(value: VisitorType) => setForm({ ...form, visitor_type: value })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="visitante">{VISITOR_TYPE_LABELS.visitante}</SelectItem>
+                    <SelectItem value="prestador">{VISITOR_TYPE_LABELS.prestador}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Documento (RG/CPF)</Label>
+                <Input
+                  value={form.visitor_document}
+                  onChange={(e) => setForm({ ...form, visitor_document: e.target.value })}
+                  placeholder="Opcional"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Nome completo</Label>
+              <Input
+                value={form.visitor_name}
+                onChange={(e) => setForm({ ...form, visitor_name: e.target.value })}
+                placeholder="Nome do visitante"
+              />
+            </div>
+            {form.visitor_type === "prestador" && (
+              <div className="space-y-2">
+                <Label>Empresa / serviço</Label>
+                <Input
+                  value={form.company}
+                  onChange={(e) => setForm({ ...form, company: e.target.value })}
+                  placeholder="Ex: Eletricista, Net Internet"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Placa do veículo</Label>
+              <Input
+                value={form.vehicle_plate}
+                onChange={(e) => setForm({ ...form, vehicle_plate: e.target.value })}
+                placeholder="Opcional"
+                maxLength={8}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Válido de</Label>
+                <Input
+                  type="date"
+                  value={form.valid_from}
+                  min={today()}
+                  onChange={(e) => setForm({ ...form, valid_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Até</Label>
+                <Input
+                  type="date"
+                  value={form.valid_until}
+                  min={form.valid_from}
+                  onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Observações para a portaria</Label>
+              <Textarea
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="Opcional"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Autorizar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,457 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCondominiumAccess, condominiumAccessQueryKey } from "@/hooks/useCondominiumAccess";
+import { useDateFormatter } from "@/hooks/useFormattedDate";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
+import { OrganizationMembersSettings } from "@/components/organization/OrganizationMembersSettings";
+import { MercadoPagoTransparentCheckout } from "@/components/mercadopago/MercadoPagoTransparentCheckout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Briefcase, Building2, Loader2, Plus, Receipt, Save, Unlink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface Organization {
+  id: string;
+  name: string;
+  cnpj: string | null;
+  email: string | null;
+  phone: string | null;
+  owner_id: string;
+  consolidated_billing: boolean;
+}
+
+const emptyForm = { name: "", cnpj: "", email: "", phone: "" };
+
+const INVOICE_STATUS_LABELS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Pendente", variant: "secondary" },
+  paid: { label: "Pago", variant: "default" },
+  overdue: { label: "Vencido", variant: "destructive" },
+  cancelled: { label: "Cancelado", variant: "outline" },
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+export default function Administradora() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { date: formatDate } = useDateFormatter();
+  const { managed } = useCondominiumAccess();
+  const [selectedOrganizationId, setSelectedOrganizationId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [condominiumToLink, setCondominiumToLink] = useState("");
+
+  const { data: organizations = [], isLoading } = useQuery({
+    queryKey: ["organizations", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organizations")
+        .select("id, name, cnpj, email, phone, owner_id, consolidated_billing")
+        .order("name");
+      if (error) throw error;
+      return data as Organization[];
+    },
+    enabled: !!user,
+  });
+
+  const organization = organizations.find((o) => o.id === selectedOrganizationId) || organizations[0] || null;
+
+  useEffect(() => {
+    setFormData(
+      organization
+        ? {
+            name: organization.name,
+            cnpj: organization.cnpj || "",
+            email: organization.email || "",
+            phone: organization.phone || "",
+          }
+        : emptyForm
+    );
+  }, [organization]);
+
+  const { data: isAdmin = false } = useQuery({
+    queryKey: ["organization-admin", organization?.id, user?.id],
+    queryFn: async () => {
+      const { data } = await supabase.rpc("is_organization_admin", {
+        _user_id: user!.id,
+        _organization_id: organization!.id,
+      });
+      return !!data;
+    },
+    enabled: !!user && !!organization,
+  });
+
+  const { data: condominiums = [] } = useQuery({
+    queryKey: ["organization-condominiums", organization?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("condominiums")
+        .select("id, name, city, state")
+        .eq("organization_id", organization!.id)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organization,
+  });
+
+  const { data: organizationInvoices = [] } = useQuery({
+    queryKey: ["organization-invoices", organization?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organization_invoices")
+        .select("id, amount, status, due_date, period_start, period_end, description, paid_at, invoices(id)")
+        .eq("organization_id", organization!.id)
+        .order("period_start", { ascending: false })
+        .limit(24);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organization,
+  });
+
+  // Only the síndico responsible for a condominium can bring it into the portfolio
+  const linkableCondominiums = managed.filter((m) => !m.organization_id && m.access_role === "sindico");
+
+  const invalidateOrganization = () => {
+    queryClient.invalidateQueries({ queryKey: ["organizations"] });
+    queryClient.invalidateQueries({ queryKey: ["organization-condominiums"] });
+    queryClient.invalidateQueries({ queryKey: condominiumAccessQueryKey(user?.id) });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (changes: Partial<Organization>) => {
+      if (changes.name !== undefined && !changes.name.trim()) {
+        throw new Error("Informe o nome da administradora.");
+      }
+
+      if (organization) {
+        const { error } = await supabase.from("organizations").update(changes).eq("id", organization.id);
+        if (error) throw error;
+        return organization.id;
+      }
+
+      const { data, error } = await supabase
+        .from("organizations")
+        .insert({ name: changes.name!, cnpj: changes.cnpj, email: changes.email, phone: changes.phone, owner_id: user!.id })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: (organizationId) => {
+      setSelectedOrganizationId(organizationId);
+      invalidateOrganization();
+      toast({ title: "Administradora salva" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ condominiumId, organizationId }: { condominiumId: string; organizationId: string | null }) => {
+      const { error } = await supabase.rpc("set_condominium_organization", {
+        p_condominium_id: condominiumId,
+        p_organization_id: organizationId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { organizationId }) => {
+      setCondominiumToLink("");
+      invalidateOrganization();
+      toast({ title: organizationId ? "Condomínio adicionado à carteira" : "Condomínio removido da carteira" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar carteira", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSaveDetails = () => {
+    saveMutation.mutate({
+      name: formData.name.trim(),
+      cnpj: formData.cnpj.trim() || null,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="flex-1 space-y-4 p-4 md:p-6 lg:p-8 pt-6">
+        <SindicoBreadcrumbs items={[{ label: "Administradora" }]} />
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Administradora</h2>
+            <p className="text-muted-foreground">
+              Agrupe condomínios em uma carteira, gerencie a equipe e o faturamento consolidado
+            </p>
+          </div>
+          {organizations.length > 1 && organization && (
+            <Select value={organization.id} onValueChange={setSelectedOrganizationId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map((org) => (
+                  <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => <Skeleton key={i} className="h-40 w-full" />)}
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="bg-gradient-card border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Briefcase className="w-5 h-5 text-primary" />
+                  {organization ? "Dados da administradora" : "Cadastrar administradora"}
+                </CardTitle>
+                {!organization && (
+                  <CardDescription>
+                    Crie a organização para reunir os condomínios que você administra em um único painel.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="organization_name">Nome</Label>
+                    <Input
+                      id="organization_name"
+                      value={formData.name}
+                      disabled={!!organization && !isAdmin}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="organization_cnpj">CNPJ</Label>
+                    <Input
+                      id="organization_cnpj"
+                      value={formData.cnpj}
+                      disabled={!!organization && !isAdmin}
+                      onChange={(e) => setFormData({ ...formData, cnpj: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="organization_phone">Telefone</Label>
+                    <Input
+                      id="organization_phone"
+                      value={formData.phone}
+                      disabled={!!organization && !isAdmin}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="organization_email">E-mail</Label>
+                    <Input
+                      id="organization_email"
+                      type="email"
+                      value={formData.email}
+                      disabled={!!organization && !isAdmin}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                {organization && (
+                  <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-secondary/50">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Faturamento consolidado</p>
+                      <p className="text-xs text-muted-foreground">
+                        As faturas dos condomínios da carteira são agrupadas em uma única cobrança mensal
+                        enviada à administradora.
+                      </p>
+                    </div>
+                    <Switch
+                      checked={organization.consolidated_billing}
+                      disabled={!isAdmin || saveMutation.isPending}
+                      onCheckedChange={(checked) => saveMutation.mutate({ consolidated_billing: checked })}
+                    />
+                  </div>
+                )}
+
+                {(!organization || isAdmin) && (
+                  <Button className="gap-2" onClick={handleSaveDetails} disabled={saveMutation.isPending}>
+                    {saveMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : organization ? (
+                      <Save className="w-4 h-4" />
+                    ) : (
+                      <Plus className="w-4 h-4" />
+                    )}
+                    {organization ? "Salvar" : "Criar administradora"}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {organization && (
+              <Card className="bg-gradient-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Building2 className="w-5 h-5 text-primary" />
+                    Condomínios da carteira
+                  </CardTitle>
+                  <CardDescription>
+                    {condominiums.length} condomínio(s). Só é possível adicionar condomínios em que você é
+                    síndico ou já está cadastrado como administradora.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {condominiums.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nenhum condomínio na carteira.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {condominiums.map((condo) => (
+                        <div key={condo.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-foreground truncate">{condo.name}</p>
+                            {condo.city && (
+                              <p className="text-xs text-muted-foreground truncate">
+                                {condo.city}{condo.state ? ` - ${condo.state}` : ""}
+                              </p>
+                            )}
+                          </div>
+                          {isAdmin && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              title="Remover da carteira"
+                              onClick={() => linkMutation.mutate({ condominiumId: condo.id, organizationId: null })}
+                              disabled={linkMutation.isPending}
+                            >
+                              <Unlink className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {isAdmin && linkableCondominiums.length > 0 && (
+                    <div className="flex gap-2 pt-4 border-t border-border/50">
+                      <Select value={condominiumToLink} onValueChange={setCondominiumToLink}>
+                        <SelectTrigger className="bg-background">
+                          <SelectValue placeholder="Selecione um condomínio" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {linkableCondominiums.map((m) => (
+                            <SelectItem key={m.condominium_id} value={m.condominium_id}>
+                              {m.condominium_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        className="gap-2 shrink-0"
+                        disabled={!condominiumToLink || linkMutation.isPending}
+                        onClick={() =>
+                          linkMutation.mutate({ condominiumId: condominiumToLink, organizationId: organization.id })
+                        }
+                      >
+                        <Plus className="w-4 h-4" />
+                        Adicionar
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {organization && (
+              <div className="lg:col-span-2">
+                <OrganizationMembersSettings organizationId={organization.id} canManage={isAdmin} />
+              </div>
+            )}
+
+            {organization && (organization.consolidated_billing || organizationInvoices.length > 0) && (
+              <Card className="bg-gradient-card border-border/50 lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Receipt className="w-5 h-5 text-primary" />
+                    Faturas consolidadas
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {organizationInvoices.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nenhuma fatura consolidada gerada.</p>
+                  ) : (
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Período</TableHead>
+                            <TableHead className="text-center">Condomínios</TableHead>
+                            <TableHead>Vencimento</TableHead>
+                            <TableHead>Valor</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {organizationInvoices.map((invoice) => {
+                            const status = INVOICE_STATUS_LABELS[invoice.status] || INVOICE_STATUS_LABELS.pending;
+                            return (
+                              <TableRow key={invoice.id}>
+                                <TableCell>
+                                  {formatDate(invoice.period_start)} a {formatDate(invoice.period_end)}
+                                </TableCell>
+                                <TableCell className="text-center">{invoice.invoices?.length || 0}</TableCell>
+                                <TableCell>{formatDate(invoice.due_date)}</TableCell>
+                                <TableCell className="font-medium">{formatCurrency(Number(invoice.amount))}</TableCell>
+                                <TableCell>
+                                  <Badge variant={status.variant}>{status.label}</Badge>
+                                </TableCell>
+                                <TableCell>
+                                  {/* Paying the consolidated invoice settles every condominium invoice grouped in it */}
+                                  {isAdmin && user?.email && (invoice.status === "pending" || invoice.status === "overdue") ? (
+                                    <MercadoPagoTransparentCheckout
+                                      invoiceId={invoice.id}
+                                      invoiceKind="organization_invoice"
+                                      payerEmail={user.email}
+                                      amount={Number(invoice.amount)}
+                                      buttonText="Pagar"
+                                      onPaymentSuccess={() => {
+                                        queryClient.invalidateQueries({ queryKey: ["organization-invoices"] });
+                                      }}
+                                    />
+                                  ) : invoice.status === "paid" && invoice.paid_at ? (
+                                    <span className="text-xs text-muted-foreground">Pago em {formatDate(invoice.paid_at)}</span>
+                                  ) : null}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useActiveCondominium } from "@/hooks/useActiveCondominium";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Briefcase, Package, FileText, Wrench, Receipt, ArrowRight, Search } from "lucide-react";
+
+interface PortfolioRow {
+  condominium_id: string;
+  condominium_name: string;
+  organization_id: string | null;
+  pending_packages: number | null;
+  open_occurrences: number;
+  overdue_maintenance: number | null;
+  pending_invoices: number | null;
+  overdue_invoices: number | null;
+}
+
+const sum = (rows: PortfolioRow[], key: keyof PortfolioRow) =>
+  rows.reduce((acc, row) => acc + (Number(row[key]) || 0), 0);
+
+const CountCell = ({ value, alert }: { value: number | null; alert?: boolean }) => {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  if (alert && value > 0) return <Badge variant="destructive">{value}</Badge>;
+  return <span className={value > 0 ? "font-medium" : "text-muted-foreground"}>{value}</span>;
+};
+
+export default function Carteira() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { switchCondominium } = useActiveCondominium();
+  const [search, setSearch] = useState("");
+  const [organizationFilter, setOrganizationFilter] = useState("all");
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ["portfolio-summary", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_portfolio_summary");
+      if (error) throw error;
+      return (data || []) as PortfolioRow[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: organizations = [] } = useQuery({
+    queryKey: ["organizations", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("organizations").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const filteredRows = rows.filter((row) => {
+    if (organizationFilter !== "all" && row.organization_id !== organizationFilter) return false;
+    return !search || row.condominium_name.toLowerCase().includes(search.toLowerCase());
+  });
+
+  const openCondominium = (condominiumId: string) => {
+    switchCondominium(condominiumId);
+    navigate("/dashboard");
+  };
+
+  const totals = [
+    { title: "Encomendas pendentes", value: sum(filteredRows, "pending_packages"), icon: Package },
+    { title: "Ocorrências em aberto", value: sum(filteredRows, "open_occurrences"), icon: FileText },
+    { title: "Manutenções atrasadas", value: sum(filteredRows, "overdue_maintenance"), icon: Wrench },
+    { title: "Faturas vencidas", value: sum(filteredRows, "overdue_invoices"), icon: Receipt },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="flex-1 space-y-4 p-4 md:p-6 lg:p-8 pt-6">
+        <SindicoBreadcrumbs items={[{ label: "Carteira" }]} />
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Carteira de Condomínios</h2>
+            <p className="text-muted-foreground">
+              Pendências de todos os {rows.length} condomínios que você gerencia
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            {organizations.length > 1 && (
+              <Select value={organizationFilter} onValueChange={setOrganizationFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as organizações</SelectItem>
+                  {organizations.map((org) => (
+                    <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar condomínio..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9 w-full sm:w-[240px]"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+          {totals.map((total) => (
+            <Card key={total.title}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{total.title}</CardTitle>
+                <total.icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{isLoading ? "—" : total.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-14 w-full" />)}
+          </div>
+        ) : filteredRows.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Briefcase className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">Nenhum condomínio encontrado.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Condomínio</TableHead>
+                  <TableHead className="text-center">Encomendas</TableHead>
+                  <TableHead className="text-center">Ocorrências</TableHead>
+                  <TableHead className="text-center">Manutenções atrasadas</TableHead>
+                  <TableHead className="text-center hidden md:table-cell">Faturas</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.map((row) => (
+                  <TableRow key={row.condominium_id}>
+                    <TableCell className="font-medium">{row.condominium_name}</TableCell>
+                    <TableCell className="text-center">
+                      <CountCell value={row.pending_packages} />
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <CountCell value={row.open_occurrences} />
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <CountCell value={row.overdue_maintenance} alert />
+                    </TableCell>
+                    <TableCell className="text-center hidden md:table-cell">
+                      {row.overdue_invoices === null ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : row.overdue_invoices > 0 ? (
+                        <Badge variant="destructive">{row.overdue_invoices} vencida(s)</Badge>
+                      ) : row.pending_invoices ? (
+                        <Badge variant="secondary">{row.pending_invoices} em aberto</Badge>
+                      ) : (
+                        <Badge variant="outline">Em dia</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openCondominium(row.condominium_id)}
+                        title="Trabalhar neste condomínio"
+                      >
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
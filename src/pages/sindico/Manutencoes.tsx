@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
@@ -106,10 +107,11 @@ export default function SindicoManutencoes() {
   const { data: condominiums = [] } = useQuery({
     queryKey: ["condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("maintenance.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user!.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data;
@@ -3,6 +3,7 @@ import { Helmet } from "react-helmet-async";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { useToast } from "@/hooks/use-toast";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
@@ -65,12 +66,16 @@ import {
   History,
   Home,
   MessageSquare,
+  Warehouse,
   X,
 } from "lucide-react";
 import { format, parseISO, formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
 import { QuickBlockApartmentSearch } from "@/components/packages/QuickBlockApartmentSearch";
+import { PackageStorageLocationsDialog } from "@/components/packages/PackageStorageLocationsDialog";
+import { StorageLocationBadge } from "@/components/packages/StorageLocationBadge";
+import type { PackageStorageLocation } from "@/lib/packageConstants";
 import { useNavigate } from "react-router-dom";
 
 interface PackageWithRelations {
@@ -93,6 +98,7 @@ interface PackageWithRelations {
   condominium: { id: string; name: string } | null;
   resident: { id: string; full_name: string; phone: string | null } | null;
   package_type: { id: string; name: string; icon: string | null } | null;
+  storage_location: PackageStorageLocation | null;
   received_by_name?: string | null;
   received_by_profile: { full_name: string } | null;
   picked_up_by_profile: { full_name: string } | null;
@@ -134,6 +140,7 @@ const SindicoPackages = () => {
   const [packageToDelete, setPackageToDelete] = useState<PackageWithRelations | null>(null);
   const [signedPhotoUrl, setSignedPhotoUrl] = useState<string | null>(null);
   const [isLoadingPhoto, setIsLoadingPhoto] = useState(false);
+  const [locationsDialogOpen, setLocationsDialogOpen] = useState(false);
 
   // Generate signed URL when a package is selected
   useEffect(() => {
@@ -161,10 +168,11 @@ const SindicoPackages = () => {
   const { data: condominiums = [] } = useQuery({
     queryKey: ["sindico-condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user?.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data as Condominium[];
@@ -281,8 +289,9 @@ const SindicoPackages = () => {
           block:blocks(id, name),
           apartment:apartments(id, number),
           condominium:condominiums(id, name),
-          resident:residents(id, full_name, phone),
-          package_type:package_types(id, name, icon)
+          resident:residents!packages_resident_id_fkey(id, full_name, phone),
+          package_type:package_types(id, name, icon),
+          storage_location:package_storage_locations(id, name, location_type)
         `)
         .in("condominium_id", activeCondoIds)
         .order("received_at", { ascending: false });
@@ -489,6 +498,10 @@ const SindicoPackages = () => {
               <BarChart3 className="w-4 h-4 mr-2" />
               Estatísticas
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setLocationsDialogOpen(true)}>
+              <Warehouse className="w-4 h-4 mr-2" />
+              Locais
+            </Button>
           </div>
         </div>
 
@@ -1015,6 +1028,12 @@ const SindicoPackages = () => {
                       {STATUS_CONFIG[selectedPackage.status].label}
                     </Badge>
                   </div>
+                  {selectedPackage.status === "pendente" && (
+                    <div className="col-span-2">
+                      <p className="text-xs text-muted-foreground">Local</p>
+                      <StorageLocationBadge location={selectedPackage.storage_location} />
+                    </div>
+                  )}
                   {selectedPackage.tracking_code && (
                     <div className="col-span-2">
                       <p className="text-xs text-muted-foreground">Código de Rastreio</p>
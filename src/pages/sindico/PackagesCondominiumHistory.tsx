@@ -3,6 +3,7 @@ import { Helmet } from "react-helmet-async";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { useToast } from "@/hooks/use-toast";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
 import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
@@ -117,10 +118,11 @@ const PackagesCondominiumHistory = () => {
   const { data: condominiums = [] } = useQuery({
     queryKey: ["sindico-condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name, address")
-        .eq("owner_id", user?.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data as Condominium[];
@@ -166,7 +168,7 @@ const PackagesCondominiumHistory = () => {
           block:blocks(id, name),
           apartment:apartments(id, number),
           condominium:condominiums(id, name),
-          resident:residents(id, full_name, phone),
+          resident:residents!packages_resident_id_fkey(id, full_name, phone),
           package_type:package_types(id, name, icon)
         `)
         .eq("condominium_id", selectedCondominium)
@@ -3,6 +3,7 @@ import { useState, useEffect, useMemo } from "react";
 import { Helmet } from "react-helmet-async";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -23,6 +24,9 @@ import {
   Calendar,
   BarChart3,
   ArrowRight,
+  Truck,
+  Hourglass,
+  Undo2,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
@@ -45,6 +49,7 @@ import {
 } from "recharts";
 import { format, subMonths, startOfMonth, endOfMonth, eachMonthOfInterval, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { CARRIER_LABELS, type PackageCarrier } from "@/lib/packageCarriers";
 
 interface PackageWithRelations {
   id: string;
@@ -53,6 +58,8 @@ interface PackageWithRelations {
   picked_up_at: string | null;
   block_id: string;
   condominium_id: string;
+  carrier: string | null;
+  return_candidate_at: string | null;
   block: { name: string } | null;
   condominium: { name: string } | null;
 }
@@ -64,6 +71,34 @@ interface BlockStats {
   total: number;
 }
 
+interface CarrierStats {
+  name: string;
+  total: number;
+  avgPickupHours: number | null;
+}
+
+interface AgingBucket {
+  label: string;
+  count: number;
+}
+
+// Upper bound in days (inclusive) of each waiting-time bucket for pending packages
+const AGING_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: "Até 2 dias", maxDays: 2 },
+  { label: "3 a 7 dias", maxDays: 7 },
+  { label: "8 a 15 dias", maxDays: 15 },
+  { label: "16 a 30 dias", maxDays: 30 },
+  { label: "Mais de 30 dias", maxDays: Infinity },
+];
+
+const AGING_COLORS = [
+  "hsl(142, 71%, 45%)",
+  "hsl(48, 96%, 53%)",
+  "hsl(38, 92%, 50%)",
+  "hsl(25, 95%, 53%)",
+  "hsl(0, 84%, 60%)",
+];
+
 interface MonthlyStats {
   month: string;
   monthLabel: string;
@@ -103,17 +138,21 @@ const PackagesDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [statusStats, setStatusStats] = useState<ServerStats>({ total: 0, pendente: 0, retirada: 0 });
   const [blockStats, setBlockStats] = useState<BlockStats[]>([]);
+  const [carrierStats, setCarrierStats] = useState<CarrierStats[]>([]);
   const [monthlyStats, setMonthlyStats] = useState<MonthlyServerStats[]>([]);
   const [avgPickupTime, setAvgPickupTime] = useState<number | null>(null);
+  const [agingStats, setAgingStats] = useState<AgingBucket[]>([]);
+  const [returnCandidates, setReturnCandidates] = useState(0);
 
   // Fetch condominiums once
   useEffect(() => {
     const fetchCondominiums = async () => {
       if (!user) return;
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
       const { data } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .order("name");
       setCondominiums(data || []);
     };
@@ -132,11 +171,7 @@ const PackagesDashboard = () => {
         // Determine which condominium IDs to use
         let condoIds: string[] = [];
         if (selectedCondominium === "all") {
-          const { data: condosData } = await supabase
-            .from("condominiums")
-            .select("id")
-            .eq("owner_id", user.id);
-          condoIds = condosData?.map((c) => c.id) || [];
+          condoIds = await fetchManagedCondominiumIds("packages.manage");
         } else {
           condoIds = [selectedCondominium];
         }
@@ -144,8 +179,11 @@ const PackagesDashboard = () => {
         if (condoIds.length === 0) {
           setStatusStats({ total: 0, pendente: 0, retirada: 0 });
           setBlockStats([]);
+          setCarrierStats([]);
           setMonthlyStats([]);
           setAvgPickupTime(null);
+          setAgingStats([]);
+          setReturnCandidates(0);
           setLoading(false);
           return;
         }
@@ -186,7 +224,7 @@ const PackagesDashboard = () => {
         while (hasMore) {
           const { data: batch } = await supabase
             .from("packages")
-            .select("id, status, received_at, picked_up_at, block_id, condominium_id, block:blocks(name), condominium:condominiums(name)")
+            .select("id, status, received_at, picked_up_at, block_id, condominium_id, carrier, return_candidate_at, block:blocks(name), condominium:condominiums(name)")
             .in("condominium_id", condoIds)
             .gte("received_at", twelveMonthsAgo)
             .order("received_at", { ascending: false })
@@ -214,8 +252,40 @@ const PackagesDashboard = () => {
         });
         setBlockStats(Array.from(blockMap.values()).sort((a, b) => b.total - a.total));
 
-        // Calculate monthly stats (last 6 months)
+        // Calculate carrier stats (carrier detected from the tracking code)
+        const carrierMap = new Map<string, { total: number; pickupHours: number; pickedUp: number }>();
+        allPackages.forEach((pkg) => {
+          const name = pkg.carrier ? CARRIER_LABELS[pkg.carrier as PackageCarrier] || pkg.carrier : "Não identificada";
+          const c = carrierMap.get(name) || { total: 0, pickupHours: 0, pickedUp: 0 };
+          c.total++;
+          if (pkg.picked_up_at) {
+            c.pickupHours += (parseISO(pkg.picked_up_at).getTime() - parseISO(pkg.received_at).getTime()) / (1000 * 60 * 60);
+            c.pickedUp++;
+          }
+          carrierMap.set(name, c);
+        });
+        setCarrierStats(
+          Array.from(carrierMap.entries())
+            .map(([name, c]) => ({
+              name,
+              total: c.total,
+              avgPickupHours: c.pickedUp > 0 ? Math.round(c.pickupHours / c.pickedUp) : null,
+            }))
+            .sort((a, b) => b.total - a.total)
+        );
+
+        // Waiting time of packages still at the gate
         const now = new Date();
+        const pendingPackages = allPackages.filter((pkg) => pkg.status === "pendente");
+        const buckets = AGING_BUCKETS.map((b) => ({ label: b.label, count: 0 }));
+        pendingPackages.forEach((pkg) => {
+          const ageDays = Math.floor((now.getTime() - parseISO(pkg.received_at).getTime()) / (1000 * 60 * 60 * 24));
+          buckets[AGING_BUCKETS.findIndex((b) => ageDays <= b.maxDays)].count++;
+        });
+        setAgingStats(buckets);
+        setReturnCandidates(pendingPackages.filter((pkg) => pkg.return_candidate_at).length);
+
+        // Calculate monthly stats (last 6 months)
         const sixMonthsAgo = subMonths(now, 5);
         const months = eachMonthOfInterval({
           start: startOfMonth(sixMonthsAgo),
@@ -374,6 +444,13 @@ const PackagesDashboard = () => {
             description="Entregues com sucesso"
             color="bg-green-500"
           />
+          <StatCard
+            title="Sem Retirada"
+            value={returnCandidates}
+            icon={Undo2}
+            description="Candidatas a devolução"
+            color="bg-red-500"
+          />
         </div>
 
         {/* Average pickup time */}
@@ -516,6 +593,56 @@ const PackagesDashboard = () => {
           </Card>
         </div>
 
+        {/* Pending packages by waiting time */}
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Hourglass className="w-5 h-5 text-primary" />
+              Pendentes por Tempo de Espera
+            </CardTitle>
+            <CardDescription>Há quanto tempo as encomendas pendentes aguardam retirada na portaria</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Skeleton className="h-[240px] w-full" />
+            ) : statusStats.pendente === 0 ? (
+              <div className="h-[240px] flex items-center justify-center text-muted-foreground">
+                Nenhuma encomenda pendente
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height={240}>
+                <BarChart data={agingStats} margin={{ left: 0, right: 16, top: 8, bottom: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    allowDecimals={false}
+                    tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                  />
+                  <Bar dataKey="count" name="Pendentes" radius={[4, 4, 0, 0]}>
+                    {agingStats.map((_, index) => (
+                      <Cell key={`aging-${index}`} fill={AGING_COLORS[index]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Block Stats Bar Chart */}
         <Card className="bg-card border-border">
           <CardHeader>
@@ -578,6 +705,62 @@ const PackagesDashboard = () => {
           </CardContent>
         </Card>
 
+        {/* Carrier Stats */}
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Truck className="w-5 h-5 text-primary" />
+              Encomendas por Transportadora
+            </CardTitle>
+            <CardDescription>Identificada pelo código de rastreio no registro</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Skeleton className="h-[240px] w-full" />
+            ) : carrierStats.length === 0 ? (
+              <div className="h-[240px] flex items-center justify-center text-muted-foreground">
+                Nenhuma encomenda encontrada
+              </div>
+            ) : (
+              <div className="grid gap-6 lg:grid-cols-2">
+                <ResponsiveContainer width="100%" height={Math.max(240, carrierStats.length * 40)}>
+                  <BarChart data={carrierStats} layout="vertical" margin={{ left: 8, right: 16, top: 8, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis type="number" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }} />
+                    <YAxis
+                      type="category"
+                      dataKey="name"
+                      width={120}
+                      tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "8px",
+                      }}
+                    />
+                    <Bar dataKey="total" name="Encomendas" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+                <div className="space-y-2">
+                  {carrierStats.map((c) => (
+                    <div key={c.name} className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+                      <span className="text-sm font-medium">{c.name}</span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{c.total}</Badge>
+                        <span className="text-xs text-muted-foreground w-28 text-right">
+                          {c.avgPickupHours !== null ? `retirada em ~${c.avgPickupHours}h` : "sem retiradas"}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Empty State */}
         {!loading && statusStats.total === 0 && (
           <Card className="bg-card border-border">
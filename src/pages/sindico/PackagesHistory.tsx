@@ -3,9 +3,10 @@ import { Helmet } from "react-helmet-async";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import { useToast } from "@/hooks/use-toast";
 import { useDateFormatter } from "@/hooks/useFormattedDate";
-import { getSignedPackagePhotoUrl } from "@/lib/packageStorage";
+import { getSignedPackagePhotoUrl, getSignedPickupProofUrl } from "@/lib/packageStorage";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -56,6 +57,7 @@ interface PackageWithRelations {
   picked_up_by: string | null;
   picked_up_by_name: string | null;
   pickup_code: string;
+  pickup_signature_path: string | null;
   photo_url: string;
   description: string | null;
   tracking_code: string | null;
@@ -115,10 +117,11 @@ const PackagesHistory = () => {
   const { data: condominiums = [] } = useQuery({
     queryKey: ["sindico-condominiums", user?.id],
     queryFn: async () => {
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
       const { data, error } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user?.id)
+        .in("id", managedIds)
         .order("name");
       if (error) throw error;
       return data as Condominium[];
@@ -190,13 +193,14 @@ const PackagesHistory = () => {
           picked_up_by,
           picked_up_by_name,
           pickup_code,
+          pickup_signature_path,
           photo_url,
           description,
           tracking_code,
           block:blocks(id, name),
           apartment:apartments(id, number),
           condominium:condominiums(id, name),
-          resident:residents(id, full_name, phone),
+          resident:residents!packages_resident_id_fkey(id, full_name, phone),
           package_type:package_types(id, name, icon)
         `)
         .eq("apartment_id", selectedApartment)
@@ -394,6 +398,18 @@ const PackagesHistory = () => {
       })
     );
 
+    // Pickup signatures (proof of delivery)
+    const signaturesBase64: Record<string, string> = {};
+
+    await Promise.all(
+      packages.map(async (pkg) => {
+        if (pkg.pickup_signature_path) {
+          const signedUrl = await getSignedPickupProofUrl(pkg.pickup_signature_path);
+          signaturesBase64[pkg.id] = signedUrl ? await getBase64FromUrl(signedUrl) : "";
+        }
+      })
+    );
+
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
 
@@ -479,7 +495,7 @@ const PackagesHistory = () => {
 
     autoTable(doc, {
       startY: tableStartY + 4,
-      head: [["Foto", "Data/Hora", "Tipo", "Status", "Código", "Recebido", "Tempo"]],
+      head: [["Foto", "Data/Hora", "Tipo", "Status", "Código", "Recebido", "Tempo", "Assinatura"]],
       body: packages.map((pkg) => [
         "", // Empty cell for photo - will be filled by didDrawCell
         format(parseISO(pkg.received_at), "dd/MM/yyyy HH:mm"),
@@ -488,14 +504,32 @@ const PackagesHistory = () => {
         pkg.pickup_code,
         pkg.picked_up_by_name || pkg.picked_up_by_profile?.full_name || "-",
         getWaitingTime(pkg),
+        "", // Signature drawn by didDrawCell
       ]),
       theme: "striped",
       headStyles: { fillColor: [59, 130, 246], fontSize: 8 },
       bodyStyles: { fontSize: 8, minCellHeight: 18 },
       columnStyles: {
         0: { cellWidth: 20 }, // Photo column width
+        7: { cellWidth: 24 },
       },
       didDrawCell: (data) => {
+        if (data.column.index === 7 && data.section === "body") {
+          const signature = signaturesBase64[packages[data.row.index]?.id];
+          if (signature) {
+            try {
+              // Signature pad is roughly 20:7
+              const width = 20;
+              const height = 7;
+              const x = data.cell.x + (data.cell.width - width) / 2;
+              const y = data.cell.y + (data.cell.height - height) / 2;
+              doc.addImage(signature, "JPEG", x, y, width, height);
+            } catch {
+              // Silent fail if image can't be added
+            }
+          }
+          return;
+        }
         // Draw image in the first column (Foto)
         if (data.column.index === 0 && data.section === "body") {
           const pkg = packages[data.row.index];
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -111,10 +112,11 @@ export default function SindicoPortariaOccurrences() {
   useEffect(() => {
     const fetchCondominiums = async () => {
       if (!user) return;
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
       const { data } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .order("name");
 
       if (data) {
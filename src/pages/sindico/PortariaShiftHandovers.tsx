@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -36,10 +37,11 @@ export default function SindicoPortariaShiftHandovers() {
   useEffect(() => {
     const fetchCondominiums = async () => {
       if (!user) return;
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
       const { data } = await supabase
         .from("condominiums")
         .select("id, name")
-        .eq("owner_id", user.id)
+        .in("id", managedIds)
         .order("name");
 
       if (data) {
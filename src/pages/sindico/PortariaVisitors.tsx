@@ -0,0 +1,356 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchManagedCondominiumIds } from "@/lib/condominiumAccess";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { UserCheck, Search, CalendarIcon, X, Camera, Loader2 } from "lucide-react";
+import BlockApartmentDisplay from "@/components/common/BlockApartmentDisplay";
+import { VISITOR_TYPE_LABELS, VISITOR_PHOTOS_BUCKET, normalizePlate, type VisitorType } from "@/lib/visitorConstants";
+import { format, startOfDay, endOfDay } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import type { DateRange } from "react-day-picker";
+
+interface EntryRecord {
+  id: string;
+  apartment_id: string;
+  authorization_id: string | null;
+  guest_invitation_id: string | null;
+  visitor_type: VisitorType;
+  visitor_name: string;
+  visitor_document: string | null;
+  vehicle_plate: string | null;
+  company: string | null;
+  photo_path: string | null;
+  notes: string | null;
+  checked_in_at: string;
+  checked_in_by: string;
+  checked_out_at: string | null;
+  apartment: { number: string; block: { id: string; name: string } | null } | null;
+  checked_in_by_name?: string;
+}
+
+export default function SindicoPortariaVisitors() {
+  const { user } = useAuth();
+
+  const [condominiums, setCondominiums] = useState<{ id: string; name: string }[]>([]);
+  const [selectedCondominium, setSelectedCondominium] = useState<string>("");
+  const [blockFilter, setBlockFilter] = useState("all");
+  const [apartmentFilter, setApartmentFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [loadingPhotoId, setLoadingPhotoId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCondominiums = async () => {
+      if (!user) return;
+      const managedIds = await fetchManagedCondominiumIds("packages.manage");
+      const { data } = await supabase
+        .from("condominiums")
+        .select("id, name")
+        .in("id", managedIds)
+        .order("name");
+
+      if (data) {
+        setCondominiums(data);
+        if (data.length === 1) setSelectedCondominium(data[0].id);
+      }
+    };
+    fetchCondominiums();
+  }, [user]);
+
+  const { data: blocks = [] } = useQuery({
+    queryKey: ["blocks", selectedCondominium],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("blocks")
+        .select("id, name")
+        .eq("condominium_id", selectedCondominium)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedCondominium,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const { data: apartments = [] } = useQuery({
+    queryKey: ["apartments", blockFilter],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("apartments")
+        .select("id, number")
+        .eq("block_id", blockFilter)
+        .order("number");
+      if (error) throw error;
+      return data;
+    },
+    enabled: blockFilter !== "all",
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["sindico-visitor-entries", selectedCondominium, apartmentFilter, dateRange?.from, dateRange?.to],
+    queryFn: async () => {
+      let query = supabase
+        .from("visitor_entries")
+        .select(`
+          id, apartment_id, authorization_id, guest_invitation_id, visitor_type, visitor_name, visitor_document, vehicle_plate, company,
+          photo_path, notes, checked_in_at, checked_in_by, checked_out_at,
+          apartment:apartments(number, block:blocks(id, name))
+        `)
+        .eq("condominium_id", selectedCondominium)
+        .order("checked_in_at", { ascending: false })
+        .limit(500);
+
+      if (apartmentFilter !== "all") query = query.eq("apartment_id", apartmentFilter);
+      if (dateRange?.from) {
+        query = query
+          .gte("checked_in_at", startOfDay(dateRange.from).toISOString())
+          .lte("checked_in_at", endOfDay(dateRange.to || dateRange.from).toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const porterIds = [...new Set((data || []).map((e) => e.checked_in_by))];
+      let porterNames: Record<string, string> = {};
+      if (porterIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("user_id, full_name")
+          .in("user_id", porterIds);
+        porterNames = Object.fromEntries((profiles || []).map((p) => [p.user_id, p.full_name]));
+      }
+
+      return ((data || []) as unknown as EntryRecord[]).map((e) => ({
+        ...e,
+        checked_in_by_name: porterNames[e.checked_in_by] || "Porteiro",
+      }));
+    },
+    enabled: !!selectedCondominium,
+  });
+
+  const filteredEntries = entries.filter((e) => {
+    if (blockFilter !== "all" && e.apartment?.block?.id !== blockFilter) return false;
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    const plate = normalizePlate(searchTerm);
+    return (
+      e.visitor_name.toLowerCase().includes(term) ||
+      (e.visitor_document || "").toLowerCase().includes(term) ||
+      (e.company || "").toLowerCase().includes(term) ||
+      (!!plate && (e.vehicle_plate || "").includes(plate))
+    );
+  });
+
+  const openPhoto = async (entry: EntryRecord) => {
+    if (!entry.photo_path) return;
+    setLoadingPhotoId(entry.id);
+    const { data, error } = await supabase.storage
+      .from(VISITOR_PHOTOS_BUCKET)
+      .createSignedUrl(entry.photo_path, 300);
+    setLoadingPhotoId(null);
+    if (error || !data?.signedUrl) {
+      toast.error("Não foi possível carregar a foto");
+      return;
+    }
+    setPhotoUrl(data.signedUrl);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <SindicoBreadcrumbs items={[{ label: "Portaria" }, { label: "Registro de Visitantes" }]} />
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Registro de Visitantes</h1>
+          <p className="text-muted-foreground">Consulte as entradas e saídas de visitantes e prestadores por unidade</p>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-3">
+          {condominiums.length > 1 && (
+            <Select
+              value={selectedCondominium}
+              onValueChange={(v) => { setSelectedCondominium(v); setBlockFilter("all"); setApartmentFilter("all"); }}
+            >
+              <SelectTrigger className="w-full lg:w-[220px]"><SelectValue placeholder="Selecionar condomínio" /></SelectTrigger>
+              <SelectContent>
+                {condominiums.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={blockFilter} onValueChange={(v) => { setBlockFilter(v); setApartmentFilter("all"); }}>
+            <SelectTrigger className="w-full lg:w-[150px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os blocos</SelectItem>
+              {blocks.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={apartmentFilter} onValueChange={setApartmentFilter} disabled={blockFilter === "all"}>
+            <SelectTrigger className="w-full lg:w-[150px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as unidades</SelectItem>
+              {apartments.map((a) => <SelectItem key={a.id} value={a.id}>{a.number}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Buscar por nome, documento, empresa ou placa..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn("w-full lg:w-auto justify-start text-left font-normal", !dateRange && "text-muted-foreground")}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {dateRange?.from ? (
+                  dateRange.to ? (
+                    <>{format(dateRange.from, "dd/MM/yy")} – {format(dateRange.to, "dd/MM/yy")}</>
+                  ) : format(dateRange.from, "dd/MM/yyyy")
+                ) : "Filtrar por data"}
+                {dateRange && (
+                  <X className="ml-2 h-3 w-3 opacity-60 hover:opacity-100" onClick={(e) => { e.stopPropagation(); setDateRange(undefined); }} />
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                locale={ptBR}
+                initialFocus
+                className={cn("p-3 pointer-events-auto")}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {!selectedCondominium ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <UserCheck className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Selecione um condomínio para consultar o registro.</p>
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-14 w-full" />)}
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <UserCheck className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Nenhuma entrada encontrada.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Entrada</TableHead>
+                  <TableHead>Visitante</TableHead>
+                  <TableHead>Unidade</TableHead>
+                  <TableHead className="hidden md:table-cell">Placa</TableHead>
+                  <TableHead className="hidden md:table-cell">Saída</TableHead>
+                  <TableHead className="hidden lg:table-cell">Porteiro</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(entry.checked_in_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.visitor_name}</div>
+                      <div className="flex flex-wrap items-center gap-1 mt-1">
+                        <Badge variant="outline" className="text-[10px]">{VISITOR_TYPE_LABELS[entry.visitor_type]}</Badge>
+                        {entry.authorization_id ? (
+                          <Badge variant="secondary" className="text-[10px]">Pré-autorizado</Badge>
+                        ) : entry.guest_invitation_id ? (
+                          <Badge variant="secondary" className="text-[10px]">Convite QR</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-[10px]">Sem autorização</Badge>
+                        )}
+                        {entry.company && <span className="text-xs text-muted-foreground">{entry.company}</span>}
+                      </div>
+                      {entry.visitor_document && (
+                        <div className="text-xs text-muted-foreground mt-1">Doc.: {entry.visitor_document}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <BlockApartmentDisplay
+                        blockName={entry.apartment?.block?.name}
+                        apartmentNumber={entry.apartment?.number}
+                        variant="compact"
+                      />
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-sm">{entry.vehicle_plate || "—"}</TableCell>
+                    <TableCell className="hidden md:table-cell text-sm whitespace-nowrap">
+                      {entry.checked_out_at ? (
+                        format(new Date(entry.checked_out_at), "dd/MM HH:mm", { locale: ptBR })
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">No condomínio</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell text-sm">{entry.checked_in_by_name}</TableCell>
+                    <TableCell>
+                      {entry.photo_path && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openPhoto(entry)}
+                          disabled={loadingPhotoId === entry.id}
+                          title="Ver foto"
+                        >
+                          {loadingPhotoId === entry.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Camera className="h-4 w-4 text-muted-foreground" />
+                          )}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Dialog open={!!photoUrl} onOpenChange={(open) => !open && setPhotoUrl(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Foto do visitante</DialogTitle>
+            </DialogHeader>
+            {photoUrl && <img src={photoUrl} alt="Foto do visitante" className="w-full rounded-lg" />}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import SindicoBreadcrumbs from "@/components/sindico/SindicoBreadcrumbs";
+import WhatsAppInbox from "@/components/whatsapp-inbox/WhatsAppInbox";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { MessageCircle } from "lucide-react";
+
+export default function SindicoWhatsAppInbox() {
+  const { user } = useAuth();
+
+  const { data: condoIds = [] } = useQuery({
+    queryKey: ["sindico-condo-ids", user?.id],
+    queryFn: async () => {
+      const { data: condos } = await supabase
+        .from("condominiums")
+        .select("id")
+        .eq("owner_id", user!.id);
+      return condos?.map((c) => c.id) || [];
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <SindicoBreadcrumbs items={[{ label: "Conversas WhatsApp" }]} />
+
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <MessageCircle className="w-6 h-6" />
+            Conversas WhatsApp
+          </h1>
+          <p className="text-muted-foreground">
+            Respostas dos moradores às notificações de ocorrências e encomendas
+          </p>
+        </div>
+
+        <WhatsAppInbox condominiumIds={condoIds} occurrenceBasePath="/occurrences" />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -122,10 +122,13 @@ export default function EdgeFunctionLogs() {
   const translateFunctionName = (name: string) => {
     const translations: Record<string, string> = {
       "notify-party-hall-reminders": "Lembretes Salão de Festas",
+      "notify-party-hall-waitlist": "Lista de Espera Áreas Comuns",
       "start-party-hall-usage": "Iniciar Uso Salão de Festas",
       "finish-party-hall-usage": "Finalizar Uso Salão de Festas",
       "notify-trial-ending": "Notificar Fim do Trial",
       "generate-invoices": "Gerar Faturas",
+      "process-overdue-fines": "Multas Vencidas",
+      "verify-occurrence-document": "Verificar Documento",
       "cleanup-old-packages": "Limpar Encomendas Antigas",
       "cleanup-orphan-package-photos": "Limpar Fotos Órfãs",
       "cleanup-orphan-users": "Limpar Usuários Órfãos",
@@ -152,6 +155,8 @@ export default function EdgeFunctionLogs() {
       "mercadopago-webhook": "Webhook MercadoPago",
       "mercadopago-create-payment": "Criar Pagamento MP",
       "mercadopago-create-pix": "Criar PIX MP",
+      "create-fine-pix": "Criar PIX de Multa",
+      "create-party-hall-pix": "Criar PIX de Reserva",
       "mercadopago-create-subscription": "Criar Assinatura MP",
       "mercadopago-cancel-subscription": "Cancelar Assinatura MP",
       "mercadopago-process-payment": "Processar Pagamento MP",
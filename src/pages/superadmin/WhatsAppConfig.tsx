@@ -609,6 +609,14 @@ export default function WhatsAppConfig() {
                   </Badge>
                 </div>
               </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Assinatura dos Eventos (X-Hub-Signature-256)</Label>
+                <div className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-2">
+                  <code className="text-xs font-mono text-muted-foreground">META_APP_SECRET</code>
+                  <span className="text-[10px] text-muted-foreground">Chave secreta do app Meta; eventos sem assinatura válida são recusados</span>
+                </div>
+              </div>
             </div>
 
             <Separator />
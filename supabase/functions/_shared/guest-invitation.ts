@@ -0,0 +1,41 @@
+/**
+ * Guest QR invitations
+ *
+ * The QR code carries the public invitation URL (`<app>/convite/<token>`). Both the public
+ * invitation page and the portaria scanner resolve the token to the same status here.
+ */
+
+export type GuestInvitationStatus = "valido" | "nao_iniciado" | "expirado" | "revogado" | "esgotado";
+
+export interface GuestInvitationRow {
+  status: string;
+  valid_from: string;
+  valid_until: string;
+  max_uses: number;
+  uses_count: number;
+}
+
+export const GUEST_INVITATION_STATUS_MESSAGES: Record<GuestInvitationStatus, string> = {
+  valido: "Convite válido",
+  nao_iniciado: "Convite ainda não está no período de validade",
+  expirado: "Convite expirado",
+  revogado: "Convite cancelado pelo morador",
+  esgotado: "Convite já utilizado",
+};
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+/** Accepts the raw token or the full invitation URL read from the QR code */
+export function extractInvitationToken(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const match = UUID_PATTERN.exec(value);
+  return match ? match[0].toLowerCase() : null;
+}
+
+export function getGuestInvitationStatus(invitation: GuestInvitationRow, now = new Date()): GuestInvitationStatus {
+  if (invitation.status === "revogado") return "revogado";
+  if (invitation.uses_count >= invitation.max_uses) return "esgotado";
+  if (now < new Date(invitation.valid_from)) return "nao_iniciado";
+  if (now > new Date(invitation.valid_until)) return "expirado";
+  return "valido";
+}
@@ -39,12 +39,20 @@ export interface MetaTemplateParams {
   headerMediaUrl?: string;
   headerMediaType?: "image" | "video" | "document";
   bodyParamNames?: string[];
-  buttonParams?: Array<{
-    type: "button";
-    subType: "url";
-    index: number;
-    parameters: Array<{ type: "text"; text: string }>;
-  }>;
+  buttonParams?: Array<
+    | {
+        type: "button";
+        subType: "url";
+        index: number;
+        parameters: Array<{ type: "text"; text: string }>;
+      }
+    | {
+        type: "button";
+        subType: "quick_reply";
+        index: number;
+        parameters: Array<{ type: "payload"; payload: string }>;
+      }
+  >;
   /** Optional BSUID - if provided, will be used instead of phone for the `to` field */
   bsuid?: string;
 }
@@ -65,6 +73,17 @@ export interface MetaImageMessageParams {
   bsuid?: string;
 }
 
+export interface MetaInteractiveButtonsParams {
+  phone: string;
+  bodyText: string;
+  /** Up to 3 reply buttons; `id` is returned as button_reply.id in the webhook */
+  buttons: Array<{ id: string; title: string }>;
+  headerText?: string;
+  footerText?: string;
+  /** Optional BSUID - if provided, will be used instead of phone for the `to` field */
+  bsuid?: string;
+}
+
 // ============= Utilities =============
 
 /**
@@ -451,6 +470,103 @@ export async function sendMetaImage(
   }
 }
 
+/**
+ * Send an interactive message with reply buttons via Meta WhatsApp Cloud API
+ * Note: Only works for conversations within the 24-hour window
+ */
+export async function sendMetaInteractiveButtons(
+  params: MetaInteractiveButtonsParams,
+  config?: MetaWhatsAppConfig
+): Promise<MetaSendResult> {
+  const cfg = config || getMetaConfig();
+  const recipient = resolveRecipient(params.phone, params.bsuid);
+  const endpoint = `${META_API_BASE_URL}/${cfg.phoneNumberId}/messages`;
+
+  const interactive: Record<string, unknown> = {
+    type: "button",
+    body: { text: params.bodyText },
+    action: {
+      buttons: params.buttons.slice(0, 3).map((button) => ({
+        type: "reply",
+        // Meta limits reply button titles to 20 characters
+        reply: { id: button.id, title: button.title.substring(0, 20) },
+      })),
+    },
+  };
+
+  if (params.headerText) {
+    interactive.header = { type: "text", text: params.headerText };
+  }
+  if (params.footerText) {
+    interactive.footer = { text: params.footerText };
+  }
+
+  const payload = {
+    messaging_product: "whatsapp",
+    to: recipient,
+    type: "interactive",
+    interactive,
+  };
+
+  const logRecipient = params.bsuid ? `BSUID:${params.bsuid}` : params.phone;
+  console.log(`[META] Sending interactive buttons to ${logRecipient}`);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${cfg.accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const responseText = await response.text();
+    console.log(`[META] Response status: ${response.status}`);
+    console.log(`[META] Response body: ${responseText.substring(0, 500)}`);
+
+    let responseData: { messages?: Array<{ id?: string }>; error?: { message?: string; code?: number }; raw?: string };
+    try {
+      responseData = JSON.parse(responseText);
+    } catch {
+      responseData = { raw: responseText };
+    }
+
+    if (!response.ok) {
+      const metaError = responseData?.error;
+      return {
+        success: false,
+        error: metaError?.message || `HTTP ${response.status}`,
+        errorCode: metaError?.code?.toString(),
+        debug: {
+          endpoint,
+          status: response.status,
+          response: responseText.substring(0, 500),
+          payload,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      messageId: responseData?.messages?.[0]?.id,
+      debug: {
+        endpoint,
+        status: response.status,
+        response: responseText,
+        payload,
+      },
+    };
+  } catch (error) {
+    console.error(`[META] Error sending interactive buttons:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      debug: { endpoint, payload },
+    };
+  }
+}
+
 // ============= Utility Functions =============
 
 /**
@@ -0,0 +1,74 @@
+/**
+ * Package arrival quick replies
+ *
+ * The package_arrival notification carries up to three reply buttons. Each button
+ * payload encodes the package and the chosen action (e.g. `pkg:<uuid>:autorizar_terceiro`)
+ * so whatsapp-webhook can update the right `packages` row when the resident taps it.
+ */
+
+export type PackagePickupIntent = "retirar_hoje" | "autorizar_terceiro" | "deixar_zelador";
+
+/** Button order must match the quick reply buttons of the package_arrival template */
+export const PACKAGE_QUICK_REPLIES: Array<{ intent: PackagePickupIntent; title: string }> = [
+  { intent: "retirar_hoje", title: "Vou retirar hoje" },
+  { intent: "autorizar_terceiro", title: "Autorizar terceiro" },
+  { intent: "deixar_zelador", title: "Deixar com o zelador" },
+];
+
+const PAYLOAD_PREFIX = "pkg";
+
+export function buildPackagePayload(packageId: string, intent: PackagePickupIntent): string {
+  return `${PAYLOAD_PREFIX}:${packageId}:${intent}`;
+}
+
+export function parsePackagePayload(payload: string | null | undefined): { packageId: string; intent: PackagePickupIntent } | null {
+  if (!payload) return null;
+  const [prefix, packageId, intent] = payload.split(":");
+  if (prefix !== PAYLOAD_PREFIX || !packageId) return null;
+  if (!PACKAGE_QUICK_REPLIES.some((r) => r.intent === intent)) return null;
+  return { packageId, intent: intent as PackagePickupIntent };
+}
+
+/**
+ * Validates a Brazilian CPF number (same rules as isValidCPF in src/lib/utils.ts)
+ */
+export function isValidCpf(cpf: string): boolean {
+  const clean = cpf.replace(/\D/g, "");
+  if (clean.length !== 11 || /^(\d)\1{10}$/.test(clean)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) sum += parseInt(clean.charAt(i)) * (10 - i);
+  let remainder = (sum * 10) % 11;
+  if (remainder === 10 || remainder === 11) remainder = 0;
+  if (remainder !== parseInt(clean.charAt(9))) return false;
+
+  sum = 0;
+  for (let i = 0; i < 10; i++) sum += parseInt(clean.charAt(i)) * (11 - i);
+  remainder = (sum * 10) % 11;
+  if (remainder === 10 || remainder === 11) remainder = 0;
+  return remainder === parseInt(clean.charAt(10));
+}
+
+/**
+ * Extract the third party's name and CPF from a free-text reply,
+ * e.g. "Maria Souza 123.456.789-09" or "CPF 12345678909 - Maria Souza".
+ */
+export function parseThirdPartyDetails(text: string): { name: string; cpf: string } | null {
+  const cpfMatch = text.match(/\d{3}\.?\d{3}\.?\d{3}-?\d{2}/);
+  if (!cpfMatch) return null;
+
+  const cpf = cpfMatch[0].replace(/\D/g, "");
+  if (!isValidCpf(cpf)) return null;
+
+  const name = text
+    .replace(cpfMatch[0], " ")
+    .replace(/\bcpf\b/gi, " ")
+    .replace(/\bnome\b/gi, " ")
+    .replace(/[,;:\-–|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (name.length < 3) return null;
+
+  return { name: name.substring(0, 100), cpf };
+}
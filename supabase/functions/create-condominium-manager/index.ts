@@ -0,0 +1,314 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MANAGER_ROLES = ["subsindico", "administrador"];
+
+const PERMISSIONS = [
+  "occurrences.register",
+  "occurrences.decide",
+  "residents.manage",
+  "packages.manage",
+  "party_hall.manage",
+  "maintenance.manage",
+  "invoices.view",
+  "reports.view",
+];
+
+function generatePassword(): string {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
+  let password = "";
+  for (let i = 0; i < 8; i++) {
+    password += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return password;
+}
+
+async function findAuthUserByEmail(
+  supabase: ReturnType<typeof createClient>,
+  emailLower: string,
+): Promise<{ id: string; email?: string | null } | null> {
+  const perPage = 200;
+  const maxPages = 50;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+    if (error) {
+      console.error("Error listing auth users:", error);
+      return null;
+    }
+
+    const users = data?.users ?? [];
+    const found = users.find((u) => (u.email ?? "").toLowerCase() === emailLower);
+    if (found) return found;
+
+    if (users.length < perPage) break;
+  }
+
+  return null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Auth
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { full_name, email, phone, condominium_id, manager_role, permissions } = body;
+
+    if (!full_name || !email || !condominium_id || !manager_role) {
+      return new Response(
+        JSON.stringify({ error: "Nome, e-mail, condomínio e função são obrigatórios" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!MANAGER_ROLES.includes(manager_role)) {
+      return new Response(
+        JSON.stringify({ error: "Função inválida" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const grantedPermissions: string[] = Array.isArray(permissions)
+      ? permissions.filter((p: string) => PERMISSIONS.includes(p))
+      : [];
+
+    // Authorization: only the condominium's síndico (or super_admin) delegates management
+    const { data: condo, error: condoError } = await supabase
+      .from("condominiums")
+      .select("id, name, owner_id")
+      .eq("id", condominium_id)
+      .single();
+
+    if (condoError || !condo) {
+      return new Response(
+        JSON.stringify({ error: "Condomínio não encontrado" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (condo.owner_id !== user.id) {
+      const { data: superAdminRole } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "super_admin")
+        .maybeSingle();
+
+      if (!superAdminRole) {
+        return new Response(
+          JSON.stringify({ error: "Apenas o síndico pode adicionar gestores neste condomínio" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const emailLower = email.toLowerCase().trim();
+
+    // Check existing user
+    const { data: existingProfile } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .eq("email", emailLower)
+      .maybeSingle();
+
+    const existingAuthUser = existingProfile ? null : await findAuthUserByEmail(supabase, emailLower);
+
+    let userId: string;
+    let password: string | null = null;
+    let isNewUser = false;
+    let sindicoRoleGranted = false;
+
+    if (existingProfile || existingAuthUser) {
+      userId = existingProfile?.user_id ?? existingAuthUser!.id;
+
+      if (userId === condo.owner_id) {
+        return new Response(
+          JSON.stringify({ error: "Este usuário já é o síndico deste condomínio" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Porteiros and zeladores have their own portals and cannot also manage the condominium
+      const { data: existingRoles } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId);
+
+      const roles = (existingRoles || []).map((r: { role: string }) => r.role);
+
+      if (roles.includes("super_admin") || roles.includes("porteiro") || roles.includes("zelador")) {
+        return new Response(
+          JSON.stringify({ error: "Este e-mail pertence a um usuário com perfil incompatível e não pode ser cadastrado como gestor" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existingLink } = await supabase
+        .from("user_condominiums")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("condominium_id", condominium_id)
+        .maybeSingle();
+
+      if (existingLink) {
+        return new Response(
+          JSON.stringify({ error: "Este usuário já está vinculado a este condomínio" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Managers use the síndico portal, scoped by their permissions
+      if (!roles.includes("sindico")) {
+        await supabase.from("user_roles").upsert(
+          { user_id: userId, role: "sindico" },
+          { onConflict: "user_id,role" }
+        );
+        sindicoRoleGranted = true;
+      } else {
+        // The role may come from an earlier manager link; keep tracking it so the last unlink revokes it
+        const { data: grantedLink } = await supabase
+          .from("user_condominiums")
+          .select("id")
+          .eq("user_id", userId)
+          .eq("sindico_role_granted", true)
+          .limit(1)
+          .maybeSingle();
+        sindicoRoleGranted = !!grantedLink;
+      }
+
+      if (!existingProfile && existingAuthUser) {
+        await supabase.from("profiles").insert({
+          user_id: userId,
+          email: emailLower,
+          full_name,
+          phone: phone || null,
+        });
+      }
+    } else {
+      password = generatePassword();
+      isNewUser = true;
+
+      const { data: authData, error: createError } = await supabase.auth.admin.createUser({
+        email: emailLower,
+        password,
+        email_confirm: true,
+        user_metadata: {
+          full_name,
+          role: "sindico",
+          skip_role_assignment: "true",
+        },
+      });
+
+      if (createError || !authData.user) {
+        return new Response(
+          JSON.stringify({ error: createError?.message || "Erro ao criar usuário" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      userId = authData.user.id;
+
+      const profileData: Record<string, string> = { full_name };
+      if (phone) profileData.phone = phone;
+
+      await supabase.from("profiles").update(profileData).eq("user_id", userId);
+
+      await supabase.from("user_roles").upsert(
+        { user_id: userId, role: "sindico" },
+        { onConflict: "user_id,role" }
+      );
+      sindicoRoleGranted = true;
+    }
+
+    // Link to condominium with the delegated permissions
+    const { error: linkError } = await supabase.from("user_condominiums").insert({
+      user_id: userId,
+      condominium_id,
+      manager_role,
+      permissions: grantedPermissions,
+      invited_by: user.id,
+      sindico_role_granted: sindicoRoleGranted,
+    });
+
+    if (linkError) {
+      console.error("Error linking manager:", linkError);
+      return new Response(
+        JSON.stringify({ error: "Erro ao vincular gestor ao condomínio" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Audit with the síndico who delegated access (service role has no auth.uid())
+    await supabase.from("audit_logs").insert({
+      table_name: "user_condominiums",
+      action: "INSERT",
+      record_id: userId,
+      new_data: {
+        action: "add_condominium_manager",
+        condominium_id,
+        condominium_name: condo.name,
+        manager_role,
+        permissions: grantedPermissions,
+        manager_email: emailLower,
+        manager_name: full_name,
+      },
+      user_id: user.id,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        user_id: userId,
+        is_new_user: isNewUser,
+        password: isNewUser ? password : undefined,
+        message: isNewUser ? "Gestor criado com sucesso" : "Gestor vinculado ao condomínio",
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
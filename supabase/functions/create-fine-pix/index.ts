@@ -0,0 +1,286 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A pending PIX is reused while it still has this much time left before expiring
+const REUSE_MIN_REMAINING_MS = 10 * 60 * 1000;
+const PIX_EXPIRATION_MS = 24 * 60 * 60 * 1000;
+
+interface FineRow {
+  id: string;
+  amount: number;
+  total_due: number | null;
+  status: string;
+  resident_id: string;
+  appeal_suspended_at: string | null;
+  occurrences: {
+    id: string;
+    title: string;
+    condominium_id: string;
+    condominiums: { name: string; owner_id: string } | null;
+  } | null;
+  residents: {
+    id: string;
+    user_id: string | null;
+    full_name: string;
+    email: string;
+    cpf: string | null;
+  } | null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error("Auth error:", authError);
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== INPUT VALIDATION ==========
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { fine_id } = body;
+    if (!fine_id) {
+      return new Response(
+        JSON.stringify({ error: "fine_id é obrigatório" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== FETCH FINE ==========
+    const { data: fine, error: fineError } = await supabase
+      .from("fines")
+      .select(`
+        id, amount, total_due, status, resident_id, appeal_suspended_at,
+        occurrences(id, title, condominium_id, condominiums(name, owner_id)),
+        residents(id, user_id, full_name, email, cpf)
+      `)
+      .eq("id", fine_id)
+      .maybeSingle() as { data: FineRow | null; error: unknown };
+
+    if (fineError || !fine || !fine.occurrences) {
+      console.error("Fine not found:", fine_id, fineError);
+      return new Response(
+        JSON.stringify({ error: "Multa não encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const condominiumId = fine.occurrences.condominium_id;
+    // Overdue fines are charged with the late fee and interest applied by process-overdue-fines
+    const amountDue = Number(fine.total_due ?? fine.amount);
+    const condominiumName = fine.occurrences.condominiums?.name || "Condomínio";
+
+    // ========== AUTHORIZATION ==========
+    // Resident who received the fine or the síndico who owns the condominium
+    const isResident = fine.residents?.user_id === user.id;
+    const isOwner = fine.occurrences.condominiums?.owner_id === user.id;
+
+    if (!isResident && !isOwner) {
+      console.error(`User ${user.id} not authorized for fine ${fine_id}`);
+      return new Response(
+        JSON.stringify({ error: "Sem permissão para pagar esta multa" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (fine.status === "pago") {
+      return new Response(
+        JSON.stringify({ error: "Esta multa já foi paga", code: "ALREADY_PAID" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (fine.status === "cancelada") {
+      return new Response(
+        JSON.stringify({ error: "Esta multa foi cancelada", code: "CANCELLED" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (fine.appeal_suspended_at) {
+      return new Response(
+        JSON.stringify({ error: "Esta multa está suspensa até o julgamento do recurso", code: "SUSPENDED" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== CONDOMINIUM MERCADO PAGO CONFIG ==========
+    const { data: mpConfig } = await supabase
+      .from("condominium_mercadopago_config")
+      .select("access_token_encrypted, is_active")
+      .eq("condominium_id", condominiumId)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (!mpConfig?.access_token_encrypted) {
+      return new Response(
+        JSON.stringify({
+          error: "O condomínio ainda não habilitou o pagamento de multas via PIX. Procure a administração.",
+          code: "PIX_NOT_CONFIGURED",
+        }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== REUSE PENDING PIX ==========
+    const { data: pendingPayment } = await supabase
+      .from("fine_payments")
+      .select("provider_payment_id, status, qr_code, qr_code_base64, ticket_url, expires_at, amount")
+      .eq("fine_id", fine.id)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (
+      pendingPayment?.qr_code &&
+      Number(pendingPayment.amount) === amountDue &&
+      pendingPayment.expires_at &&
+      new Date(pendingPayment.expires_at).getTime() - Date.now() > REUSE_MIN_REMAINING_MS
+    ) {
+      console.log(`Reusing pending PIX ${pendingPayment.provider_payment_id} for fine ${fine.id}`);
+      return new Response(
+        JSON.stringify({
+          success: true,
+          payment_id: pendingPayment.provider_payment_id,
+          status: pendingPayment.status,
+          qr_code: pendingPayment.qr_code,
+          qr_code_base64: pendingPayment.qr_code_base64,
+          ticket_url: pendingPayment.ticket_url,
+          expiration_date: pendingPayment.expires_at,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== CREATE PIX ==========
+    const nameParts = (fine.residents?.full_name || "Morador").trim().split(/\s+/);
+    const expiresAt = new Date(Date.now() + PIX_EXPIRATION_MS);
+    const payerCpf = fine.residents?.cpf?.replace(/\D/g, "") || "";
+
+    const paymentPayload = {
+      transaction_amount: amountDue,
+      description: `Multa - ${fine.occurrences.title} - ${condominiumName}`.substring(0, 250),
+      payment_method_id: "pix",
+      date_of_expiration: expiresAt.toISOString(),
+      payer: {
+        email: fine.residents?.email || "morador@notificacondo.com.br",
+        first_name: nameParts[0],
+        last_name: nameParts.slice(1).join(" ") || condominiumName,
+        ...(payerCpf.length === 11 ? { identification: { type: "CPF", number: payerCpf } } : {}),
+      },
+      // The webhook uses the prefix to tell fine payments apart from platform invoices
+      external_reference: `fine:${fine.id}`,
+      notification_url: `${supabaseUrl}/functions/v1/mercadopago-webhook?condominium_id=${condominiumId}`,
+    };
+
+    console.log(`Creating PIX for fine ${fine.id} (condominium ${condominiumId}), amount ${amountDue}`);
+
+    const response = await fetch("https://api.mercadopago.com/v1/payments", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${mpConfig.access_token_encrypted}`,
+        "Content-Type": "application/json",
+        "X-Idempotency-Key": `fine-pix-${fine.id}-${Date.now()}`,
+      },
+      body: JSON.stringify(paymentPayload),
+    });
+
+    const responseText = await response.text();
+    console.log("MercadoPago response status:", response.status);
+
+    if (!response.ok) {
+      console.error("MercadoPago PIX error:", responseText);
+      return new Response(
+        JSON.stringify({ error: "Não foi possível gerar o PIX. Tente novamente em instantes." }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const paymentData = JSON.parse(responseText);
+    const pixData = paymentData.point_of_interaction?.transaction_data;
+
+    if (!pixData?.qr_code) {
+      console.error("PIX data not found in response:", responseText.substring(0, 500));
+      return new Response(
+        JSON.stringify({ error: "O Mercado Pago não retornou os dados do PIX" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { error: insertError } = await supabase.from("fine_payments").insert({
+      fine_id: fine.id,
+      condominium_id: condominiumId,
+      resident_id: fine.resident_id,
+      provider: "mercadopago",
+      provider_payment_id: String(paymentData.id),
+      status: paymentData.status || "pending",
+      amount: amountDue,
+      qr_code: pixData.qr_code,
+      qr_code_base64: pixData.qr_code_base64 || null,
+      ticket_url: pixData.ticket_url || null,
+      expires_at: paymentData.date_of_expiration || expiresAt.toISOString(),
+      created_by: user.id,
+    });
+
+    if (insertError) {
+      console.error("Error saving fine payment:", insertError);
+    }
+
+    console.log(`PIX ${paymentData.id} created for fine ${fine.id}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        payment_id: paymentData.id,
+        status: paymentData.status,
+        qr_code: pixData.qr_code,
+        qr_code_base64: pixData.qr_code_base64,
+        ticket_url: pixData.ticket_url,
+        expiration_date: paymentData.date_of_expiration || expiresAt.toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Unexpected error in create-fine-pix:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,305 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MEMBER_ROLES = ["admin", "staff"];
+
+const PERMISSIONS = [
+  "occurrences.register",
+  "occurrences.decide",
+  "residents.manage",
+  "packages.manage",
+  "party_hall.manage",
+  "maintenance.manage",
+  "invoices.view",
+  "reports.view",
+];
+
+function generatePassword(): string {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
+  let password = "";
+  for (let i = 0; i < 8; i++) {
+    password += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return password;
+}
+
+async function findAuthUserByEmail(
+  supabase: ReturnType<typeof createClient>,
+  emailLower: string,
+): Promise<{ id: string; email?: string | null } | null> {
+  const perPage = 200;
+  const maxPages = 50;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+    if (error) {
+      console.error("Error listing auth users:", error);
+      return null;
+    }
+
+    const users = data?.users ?? [];
+    const found = users.find((u) => (u.email ?? "").toLowerCase() === emailLower);
+    if (found) return found;
+
+    if (users.length < perPage) break;
+  }
+
+  return null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Auth
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { full_name, email, phone, organization_id, role, permissions } = body;
+
+    if (!full_name || !email || !organization_id || !role) {
+      return new Response(
+        JSON.stringify({ error: "Nome, e-mail, organização e função são obrigatórios" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!MEMBER_ROLES.includes(role)) {
+      return new Response(
+        JSON.stringify({ error: "Função inválida" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Admins hold every permission through the organization; the list only applies to staff
+    const grantedPermissions: string[] = role === "staff" && Array.isArray(permissions)
+      ? permissions.filter((p: string) => PERMISSIONS.includes(p))
+      : [];
+
+    // Authorization: only organization admins (or super_admin) add members
+    const { data: organization, error: organizationError } = await supabase
+      .from("organizations")
+      .select("id, name, owner_id")
+      .eq("id", organization_id)
+      .single();
+
+    if (organizationError || !organization) {
+      return new Response(
+        JSON.stringify({ error: "Organização não encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: isOrganizationAdmin } = await supabase.rpc("is_organization_admin", {
+      _user_id: user.id,
+      _organization_id: organization_id,
+    });
+
+    if (!isOrganizationAdmin) {
+      const { data: superAdminRole } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "super_admin")
+        .maybeSingle();
+
+      if (!superAdminRole) {
+        return new Response(
+          JSON.stringify({ error: "Apenas administradores da organização podem adicionar membros" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const emailLower = email.toLowerCase().trim();
+
+    // Check existing user
+    const { data: existingProfile } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .eq("email", emailLower)
+      .maybeSingle();
+
+    const existingAuthUser = existingProfile ? null : await findAuthUserByEmail(supabase, emailLower);
+
+    let userId: string;
+    let password: string | null = null;
+    let isNewUser = false;
+
+    if (existingProfile || existingAuthUser) {
+      userId = existingProfile?.user_id ?? existingAuthUser!.id;
+
+      if (userId === organization.owner_id) {
+        return new Response(
+          JSON.stringify({ error: "Este usuário já é o responsável pela organização" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Porteiros and zeladores have their own portals and cannot also manage condominiums
+      const { data: existingRoles } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId);
+
+      const roles = (existingRoles || []).map((r: { role: string }) => r.role);
+
+      if (roles.includes("super_admin") || roles.includes("porteiro") || roles.includes("zelador")) {
+        return new Response(
+          JSON.stringify({ error: "Este e-mail pertence a um usuário com perfil incompatível e não pode ser cadastrado na organização" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existingMember } = await supabase
+        .from("organization_members")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("organization_id", organization_id)
+        .maybeSingle();
+
+      if (existingMember) {
+        return new Response(
+          JSON.stringify({ error: "Este usuário já faz parte desta organização" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Members use the síndico portal, scoped by their permissions
+      if (!roles.includes("sindico")) {
+        await supabase.from("user_roles").upsert(
+          { user_id: userId, role: "sindico" },
+          { onConflict: "user_id,role" }
+        );
+      }
+
+      if (!existingProfile && existingAuthUser) {
+        await supabase.from("profiles").insert({
+          user_id: userId,
+          email: emailLower,
+          full_name,
+          phone: phone || null,
+        });
+      }
+    } else {
+      password = generatePassword();
+      isNewUser = true;
+
+      const { data: authData, error: createError } = await supabase.auth.admin.createUser({
+        email: emailLower,
+        password,
+        email_confirm: true,
+        user_metadata: {
+          full_name,
+          role: "sindico",
+          skip_role_assignment: "true",
+        },
+      });
+
+      if (createError || !authData.user) {
+        return new Response(
+          JSON.stringify({ error: createError?.message || "Erro ao criar usuário" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      userId = authData.user.id;
+
+      const profileData: Record<string, string> = { full_name };
+      if (phone) profileData.phone = phone;
+
+      await supabase.from("profiles").update(profileData).eq("user_id", userId);
+
+      await supabase.from("user_roles").upsert(
+        { user_id: userId, role: "sindico" },
+        { onConflict: "user_id,role" }
+      );
+    }
+
+    const { error: memberError } = await supabase.from("organization_members").insert({
+      organization_id,
+      user_id: userId,
+      role,
+      permissions: grantedPermissions,
+      invited_by: user.id,
+    });
+
+    if (memberError) {
+      console.error("Error adding organization member:", memberError);
+      return new Response(
+        JSON.stringify({ error: "Erro ao adicionar membro à organização" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Audit with the admin who added the member (service role has no auth.uid())
+    await supabase.from("audit_logs").insert({
+      table_name: "organization_members",
+      action: "INSERT",
+      record_id: userId,
+      new_data: {
+        action: "add_organization_member",
+        organization_id,
+        organization_name: organization.name,
+        role,
+        permissions: grantedPermissions,
+        member_email: emailLower,
+        member_name: full_name,
+      },
+      user_id: user.id,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        user_id: userId,
+        is_new_user: isNewUser,
+        password: isNewUser ? password : undefined,
+        message: isNewUser ? "Membro criado com sucesso" : "Membro adicionado à organização",
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
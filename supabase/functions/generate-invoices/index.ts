@@ -276,6 +276,81 @@ async function sendInvoiceNotification(
   }
 }
 
+// Function to send the consolidated invoice notification to the administradora
+async function sendOrganizationInvoiceNotification(
+  supabase: ReturnType<typeof createClient>,
+  organizationId: string,
+  organizationInvoiceId: string,
+  condominiumCount: number,
+  periodStart: string,
+  periodEnd: string,
+  amount: number,
+  dueDate: string,
+  appBaseUrl: string,
+  whatsappConfig: WhatsAppConfigRow
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data: organization } = await supabase
+      .from("organizations")
+      .select("name, phone, owner_id")
+      .eq("id", organizationId)
+      .single();
+
+    if (!organization) {
+      return { success: false, error: "Organização não encontrada" };
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("full_name, phone")
+      .eq("user_id", organization.owner_id)
+      .maybeSingle();
+
+    const phone = profile?.phone || organization.phone;
+    if (!phone) {
+      console.log(`Administradora ${organization.name} sem telefone cadastrado. Pulando notificação.`);
+      return { success: false, error: "Administradora sem telefone cadastrado" };
+    }
+
+    const { data: template } = await supabase
+      .from("whatsapp_templates")
+      .select("content")
+      .eq("slug", "invoice_generated")
+      .eq("is_active", true)
+      .single();
+
+    if (!template) {
+      return { success: false, error: "Template de notificação não encontrado" };
+    }
+
+    const formatDate = (date: string) => new Date(date).toLocaleDateString("pt-BR");
+    const formatCurrency = (value: number) => value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+    const message = template.content
+      .replace("{condominio}", `${organization.name} (${condominiumCount} condomínios)`)
+      .replace("{nome}", profile?.full_name || organization.name)
+      .replace("{numero_fatura}", `CONS-${organizationInvoiceId.slice(0, 8).toUpperCase()}`)
+      .replace("{periodo}", `${formatDate(periodStart)} a ${formatDate(periodEnd)}`)
+      .replace("{valor}", formatCurrency(amount))
+      .replace("{data_vencimento}", formatDate(dueDate))
+      .replace("{link}", `${appBaseUrl}/sindico/administradora`);
+
+    const provider = providers[whatsappConfig.provider as WhatsAppProvider];
+    if (!provider) {
+      return { success: false, error: `Provider ${whatsappConfig.provider} não suportado` };
+    }
+
+    return await provider.sendMessage(phone, message, {
+      apiUrl: whatsappConfig.api_url,
+      apiKey: whatsappConfig.api_key,
+      instanceId: whatsappConfig.instance_id,
+    });
+  } catch (error) {
+    console.error("Error sending organization invoice notification:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Erro desconhecido" };
+  }
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -386,9 +461,31 @@ Deno.serve(async (req) => {
       notificationsFailed: 0,
       trialsEnded: 0,
       lifetimeRenewed: 0,
+      consolidatedInvoicesCreated: 0,
       errors: [] as string[],
     };
 
+    // Condominiums billed through their administradora: their invoices are still created per
+    // condominium, then grouped into one organization invoice after the loop
+    const { data: consolidatedCondominiums } = await supabase
+      .from("condominiums")
+      .select("id, organization_id, organizations!inner(consolidated_billing)")
+      .eq("organizations.consolidated_billing", true);
+
+    const organizationByCondominium = new Map<string, string>(
+      (consolidatedCondominiums || []).map((c) => [c.id, c.organization_id as string])
+    );
+    const consolidatedInvoices = new Map<string, string[]>();
+
+    const groupIntoOrganization = (condominiumId: string, invoiceId: string | undefined) => {
+      const organizationId = organizationByCondominium.get(condominiumId);
+      if (!organizationId || !invoiceId) return false;
+      const group = consolidatedInvoices.get(organizationId) || [];
+      group.push(invoiceId);
+      consolidatedInvoices.set(organizationId, group);
+      return true;
+    };
+
     // ============================================
     // LIFETIME SUBSCRIPTIONS - Period renewal only (no invoices)
     // ============================================
@@ -516,7 +613,7 @@ Deno.serve(async (req) => {
             period_start: periodStart.toISOString().split("T")[0],
             period_end: periodEnd.toISOString().split("T")[0],
             description: `Assinatura ${subscription.plan.charAt(0).toUpperCase() + subscription.plan.slice(1)} - Primeiro mês após período de teste - ${periodStart.toLocaleDateString("pt-BR")} a ${periodEnd.toLocaleDateString("pt-BR")}`,
-          }).select("invoice_number").single();
+          }).select("id, invoice_number").single();
 
           if (invoiceError) {
             console.error(`Error creating first invoice for subscription ${subscription.id}:`, invoiceError);
@@ -528,8 +625,9 @@ Deno.serve(async (req) => {
           results.invoicesCreated++;
           results.trialsEnded++;
 
-          // Send WhatsApp notification to síndico
-          if (whatsappConfig) {
+          // Send WhatsApp notification to síndico (consolidated invoices notify the administradora instead)
+          const isConsolidated = groupIntoOrganization(subscription.condominium_id, newInvoice?.id);
+          if (whatsappConfig && !isConsolidated) {
             const notifResult = await sendInvoiceNotification(
               supabase,
               subscription.condominium_id,
@@ -655,7 +753,7 @@ Deno.serve(async (req) => {
           period_start: periodStart.toISOString().split("T")[0],
           period_end: periodEnd.toISOString().split("T")[0],
           description: invoiceDescription,
-        }).select("invoice_number").single();
+        }).select("id, invoice_number").single();
 
         if (invoiceError) {
           console.error(`Error creating invoice for subscription ${subscription.id}:`, invoiceError);
@@ -666,8 +764,9 @@ Deno.serve(async (req) => {
         console.log(`Created renewal invoice for subscription ${subscription.id} (base: ${price}, extras: ${extraCharge}, total: ${totalAmount})`);
         results.invoicesCreated++;
 
-        // Send WhatsApp notification to síndico
-        if (whatsappConfig) {
+        // Send WhatsApp notification to síndico (consolidated invoices notify the administradora instead)
+        const isConsolidated = groupIntoOrganization(subscription.condominium_id, renewalInvoice?.id);
+        if (whatsappConfig && !isConsolidated) {
           const notifResult = await sendInvoiceNotification(
             supabase,
             subscription.condominium_id,
@@ -713,6 +812,122 @@ Deno.serve(async (req) => {
       }
     }
 
+    // ============================================
+    // CONSOLIDATED BILLING - One invoice per administradora and billing month
+    // ============================================
+    // Condominiums renew on different days, so each run adds its invoices to the
+    // pending organization invoice of the month instead of opening a new one
+    const billingMonth = today.slice(0, 7);
+    const monthStart = `${billingMonth}-01`;
+    const monthEndDate = new Date(`${monthStart}T00:00:00Z`);
+    monthEndDate.setUTCMonth(monthEndDate.getUTCMonth() + 1);
+    monthEndDate.setUTCDate(0);
+    const monthEnd = monthEndDate.toISOString().split("T")[0];
+    const monthLabel = `${billingMonth.slice(5, 7)}/${billingMonth.slice(0, 4)}`;
+
+    for (const [organizationId, invoices] of consolidatedInvoices) {
+      try {
+        const { data: openInvoice } = await supabase
+          .from("organization_invoices")
+          .select("id")
+          .eq("organization_id", organizationId)
+          .eq("period_start", monthStart)
+          .eq("status", "pending")
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        let organizationInvoiceId = openInvoice?.id as string | undefined;
+        const isNew = !organizationInvoiceId;
+
+        if (!organizationInvoiceId) {
+          const { data: organizationInvoice, error: organizationInvoiceError } = await supabase
+            .from("organization_invoices")
+            .insert({
+              organization_id: organizationId,
+              amount: 0,
+              status: "pending",
+              due_date: today,
+              period_start: monthStart,
+              period_end: monthEnd,
+            })
+            .select("id")
+            .single();
+
+          if (organizationInvoiceError || !organizationInvoice) {
+            console.error(`Error creating consolidated invoice for organization ${organizationId}:`, organizationInvoiceError);
+            results.errors.push(`Organization ${organizationId}: ${organizationInvoiceError?.message}`);
+            continue;
+          }
+          organizationInvoiceId = organizationInvoice.id as string;
+        }
+
+        const { error: linkError } = await supabase
+          .from("invoices")
+          .update({ organization_invoice_id: organizationInvoiceId })
+          .in("id", invoices);
+
+        if (linkError) {
+          console.error(`Error grouping invoices for organization ${organizationId}:`, linkError);
+          results.errors.push(`Organization ${organizationId} grouping: ${linkError.message}`);
+          continue;
+        }
+
+        // Totals cover every invoice of the month, including those grouped by earlier runs
+        const { data: groupedInvoices } = await supabase
+          .from("invoices")
+          .select("amount, due_date")
+          .eq("organization_invoice_id", organizationInvoiceId);
+
+        const grouped = (groupedInvoices || []) as { amount: number; due_date: string }[];
+        const totalAmount = grouped.reduce((acc, invoice) => acc + Number(invoice.amount), 0);
+        const dueDate = grouped.reduce((latest, invoice) => (invoice.due_date > latest ? invoice.due_date : latest), today);
+
+        const { error: totalError } = await supabase
+          .from("organization_invoices")
+          .update({
+            amount: totalAmount,
+            due_date: dueDate,
+            description: `Faturamento consolidado - ${grouped.length} condomínio(s) - ${monthLabel}`,
+          })
+          .eq("id", organizationInvoiceId);
+
+        if (totalError) {
+          console.error(`Error updating consolidated invoice ${organizationInvoiceId}:`, totalError);
+          results.errors.push(`Organization ${organizationId} total: ${totalError.message}`);
+          continue;
+        }
+
+        console.log(`${isNew ? "Created" : "Updated"} consolidated invoice for organization ${organizationId} (${grouped.length} invoices, total: ${totalAmount})`);
+        if (isNew) results.consolidatedInvoicesCreated++;
+
+        // The administradora is notified once per month; later additions show up in the app
+        if (whatsappConfig && isNew) {
+          const notifResult = await sendOrganizationInvoiceNotification(
+            supabase,
+            organizationId,
+            organizationInvoiceId,
+            grouped.length,
+            monthStart,
+            monthEnd,
+            totalAmount,
+            dueDate,
+            appBaseUrl,
+            whatsappConfig as WhatsAppConfigRow
+          );
+          if (notifResult.success) {
+            results.notificationsSent++;
+          } else {
+            results.notificationsFailed++;
+            console.log(`WhatsApp notification failed for organization ${organizationId}: ${notifResult.error}`);
+          }
+        }
+      } catch (orgError) {
+        console.error(`Error processing consolidated billing for organization ${organizationId}:`, orgError);
+        results.errors.push(`Organization ${organizationId}: ${orgError instanceof Error ? orgError.message : String(orgError)}`);
+      }
+    }
+
     console.log("Invoice generation complete:", results);
 
     const finalResult = {
@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractInvitationToken, getGuestInvitationStatus } from "../_shared/guest-invitation.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InvitationRow {
+  guest_name: string;
+  status: string;
+  valid_from: string;
+  valid_until: string;
+  max_uses: number;
+  uses_count: number;
+  apartment: { number: string; block: { name: string } };
+  condominium: { name: string; address: string | null };
+}
+
+/**
+ * Public endpoint behind the shared invitation link: the guest opens it to display the QR
+ * code at the gate. Only exposes what the guest needs to find the building.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = extractInvitationToken(body?.token);
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: "Convite inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("guest_invitations")
+      .select(`
+        guest_name, status, valid_from, valid_until, max_uses, uses_count,
+        apartment:apartments!inner(number, block:blocks!inner(name)),
+        condominium:condominiums!inner(name, address)
+      `)
+      .eq("token", token)
+      .maybeSingle();
+
+    if (error || !data) {
+      return new Response(
+        JSON.stringify({ error: "Convite não encontrado" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const invitation = data as unknown as InvitationRow;
+
+    return new Response(
+      JSON.stringify({
+        token,
+        guest_name: invitation.guest_name,
+        condominium_name: invitation.condominium.name,
+        condominium_address: invitation.condominium.address,
+        block_name: invitation.apartment.block.name,
+        apartment_number: invitation.apartment.number,
+        valid_from: invitation.valid_from,
+        valid_until: invitation.valid_until,
+        remaining_uses: Math.max(invitation.max_uses - invitation.uses_count, 0),
+        status: getGuestInvitationStatus(invitation),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in get-guest-invitation:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -6,8 +6,30 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// Consolidated invoices of an administradora are paid with external_reference "organization_invoice:<id>"
+const ORGANIZATION_INVOICE_REFERENCE_PREFIX = "organization_invoice:";
+
+interface BillingAddress {
+  address?: string | null;
+  address_number?: string | null;
+  neighborhood?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip_code?: string | null;
+}
+
+interface BillingTarget {
+  id: string;
+  table: "invoices" | "organization_invoices";
+  amount: number;
+  payerName: string;
+  externalReference: string;
+  address: BillingAddress | null;
+}
+
 interface ProcessPaymentRequest {
-  invoice_id: string;
+  invoice_id?: string;
+  organization_invoice_id?: string;
   amount: number;
   form_data: {
     paymentType: string;
@@ -77,59 +99,110 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { invoice_id, amount, form_data }: ProcessPaymentRequest = await req.json();
+    const { invoice_id, organization_invoice_id, amount, form_data }: ProcessPaymentRequest = await req.json();
 
-    console.log("Processing payment for invoice:", invoice_id, "by user:", user.id);
+    console.log("Processing payment for", organization_invoice_id ? "organization invoice:" : "invoice:", organization_invoice_id || invoice_id, "by user:", user.id);
     console.log("Payment type:", form_data.paymentType);
     console.log("Selected payment method:", form_data.selectedPaymentMethod);
     console.log("Amount:", amount);
 
-    // Get invoice details to validate - include condominium address for boleto and owner_id for authorization
-    const { data: invoice, error: invoiceError } = await supabase
-      .from("invoices")
-      .select(`
-        *,
-        condominium:condominiums(
-          name,
-          owner_id,
-          address,
-          address_number,
-          neighborhood,
-          city,
-          state,
-          zip_code
-        )
-      `)
-      .eq("id", invoice_id)
-      .single();
-
-    if (invoiceError || !invoice) {
-      throw new Error(`Invoice not found: ${invoice_id}`);
-    }
+    const { data: superAdminRole } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "super_admin")
+      .maybeSingle();
+
+    let target: BillingTarget;
+
+    if (organization_invoice_id) {
+      // Consolidated invoice - paid by an admin of the administradora
+      const { data: organizationInvoice, error: organizationInvoiceError } = await supabase
+        .from("organization_invoices")
+        .select("id, amount, status, organization_id, organization:organizations(name)")
+        .eq("id", organization_invoice_id)
+        .single();
+
+      if (organizationInvoiceError || !organizationInvoice) {
+        throw new Error(`Organization invoice not found: ${organization_invoice_id}`);
+      }
 
-    // Verify user has permission (is condominium owner or super_admin)
-    const condoOwnerId = (invoice.condominium as { name: string; owner_id: string; address?: string; address_number?: string; neighborhood?: string; city?: string; state?: string; zip_code?: string })?.owner_id;
-    
-    if (condoOwnerId !== user.id) {
-      // Check if user is super_admin
-      const { data: roleCheck } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", user.id)
-        .eq("role", "super_admin")
-        .maybeSingle();
-      
-      if (!roleCheck) {
+      const { data: isOrganizationAdmin } = await supabase.rpc("is_organization_admin", {
+        _user_id: user.id,
+        _organization_id: organizationInvoice.organization_id,
+      });
+
+      if (!isOrganizationAdmin && !superAdminRole) {
         return new Response(
           JSON.stringify({ error: "Forbidden - You do not have permission to process payments for this invoice", success: false }),
           { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
+
+      if (organizationInvoice.status === "paid" || organizationInvoice.status === "cancelled") {
+        throw new Error("Esta fatura não está em aberto");
+      }
+
+      target = {
+        id: organizationInvoice.id,
+        table: "organization_invoices",
+        amount: Number(organizationInvoice.amount),
+        payerName: (organizationInvoice.organization as { name: string } | null)?.name || "Administradora",
+        externalReference: `${ORGANIZATION_INVOICE_REFERENCE_PREFIX}${organizationInvoice.id}`,
+        address: null,
+      };
+    } else {
+      // Get invoice details to validate - include condominium address for boleto and owner_id for authorization
+      const { data: invoice, error: invoiceError } = await supabase
+        .from("invoices")
+        .select(`
+          *,
+          condominium:condominiums(
+            name,
+            owner_id,
+            address,
+            address_number,
+            neighborhood,
+            city,
+            state,
+            zip_code
+          )
+        `)
+        .eq("id", invoice_id)
+        .single();
+
+      if (invoiceError || !invoice) {
+        throw new Error(`Invoice not found: ${invoice_id}`);
+      }
+
+      // Verify user has permission (is condominium owner or super_admin)
+      const condo = invoice.condominium as ({ name: string; owner_id: string } & BillingAddress) | null;
+
+      if (condo?.owner_id !== user.id && !superAdminRole) {
+        return new Response(
+          JSON.stringify({ error: "Forbidden - You do not have permission to process payments for this invoice", success: false }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Grouped invoices are settled through the consolidated invoice of the administradora
+      if (invoice.organization_invoice_id) {
+        throw new Error("Esta fatura é paga pela administradora na fatura consolidada");
+      }
+
+      target = {
+        id: invoice.id,
+        table: "invoices",
+        amount: Number(invoice.amount),
+        payerName: condo?.name || "Condomínio",
+        externalReference: invoice.id,
+        address: condo,
+      };
     }
 
     // Validate amount matches invoice
-    if (Math.abs(Number(invoice.amount) - amount) > 0.01) {
-      console.error("Amount mismatch:", { invoice: invoice.amount, received: amount });
+    if (Math.abs(target.amount - amount) > 0.01) {
+      console.error("Amount mismatch:", { invoice: target.amount, received: amount });
       throw new Error("Payment amount does not match invoice amount");
     }
 
@@ -138,12 +211,12 @@ Deno.serve(async (req) => {
     // Build payment payload based on payment type
     let paymentPayload: Record<string, any> = {
       transaction_amount: amount,
-      description: `Fatura - ${invoice.condominium?.name || "Condomínio"}`,
+      description: `Fatura - ${target.payerName}`,
       payment_method_id: formData.payment_method_id,
       payer: {
         email: formData.payer.email,
       },
-      external_reference: invoice_id,
+      external_reference: target.externalReference,
       statement_descriptor: "NotificaCondo",
     };
 
@@ -181,16 +254,7 @@ Deno.serve(async (req) => {
     // Ticket (Boleto) specific fields - requires address
     if (paymentType === "ticket") {
       // Try to use address from form_data first, then from condominium
-      const condo = invoice.condominium as {
-        name?: string;
-        owner_id?: string;
-        address?: string;
-        address_number?: string;
-        neighborhood?: string;
-        city?: string;
-        state?: string;
-        zip_code?: string;
-      } | null;
+      const condo = target.address;
 
       if (formData.payer.address?.zip_code) {
         // Use address from form data
@@ -242,7 +306,7 @@ Deno.serve(async (req) => {
       headers: {
         "Authorization": `Bearer ${mercadoPagoAccessToken}`,
         "Content-Type": "application/json",
-        "X-Idempotency-Key": `${invoice_id}-${Date.now()}`,
+        "X-Idempotency-Key": `${target.id}-${Date.now()}`,
       },
       body: JSON.stringify(paymentPayload),
     });
@@ -276,20 +340,21 @@ Deno.serve(async (req) => {
 
     // If payment is approved, update invoice status
     if (paymentData.status === "approved") {
+      // Paying a consolidated invoice also settles the grouped invoices (sync_organization_invoice_status)
       const { error: updateError } = await supabase
-        .from("invoices")
+        .from(target.table)
         .update({
           status: "paid",
           paid_at: new Date().toISOString(),
           payment_method: paymentMethodType,
           payment_reference: paymentData.id?.toString(),
         })
-        .eq("id", invoice_id);
+        .eq("id", target.id);
 
       if (updateError) {
         console.error("Error updating invoice:", updateError);
       } else {
-        console.log("Invoice marked as paid:", invoice_id);
+        console.log("Invoice marked as paid:", target.id);
       }
     }
 
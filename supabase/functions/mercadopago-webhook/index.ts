@@ -1,5 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
@@ -277,6 +279,233 @@ Um pagamento foi confirmado:
   }
 }
 
+// Fine PIX payments are created by create-fine-pix with external_reference "fine:<fine_id>"
+const FINE_REFERENCE_PREFIX = "fine:";
+// Party hall PIX payments are created by create-party-hall-pix with external_reference "party_hall:<booking_id>"
+const PARTY_HALL_REFERENCE_PREFIX = "party_hall:";
+// Consolidated invoices are paid through mercadopago-process-payment with external_reference "organization_invoice:<id>"
+const ORGANIZATION_INVOICE_REFERENCE_PREFIX = "organization_invoice:";
+// Booking statuses create-party-hall-pix charges for
+const PARTY_HALL_PAYABLE_STATUSES = ["confirmada", "em_uso", "finalizada"];
+
+// Amounts are compared in cents to avoid floating point noise
+function isAmountCovered(paidAmount: number | undefined, amountDue: number): boolean {
+  return Math.round(Number(paidAmount ?? 0) * 100) >= Math.round(amountDue * 100);
+}
+
+interface MercadoPagoPaymentData {
+  id: number | string;
+  status: string;
+  external_reference?: string | null;
+  payment_type_id?: string;
+  payment_method_id?: string;
+  transaction_amount?: number;
+  date_approved?: string | null;
+}
+
+/**
+ * Sync a fine PIX payment and mark the fine as paid once Mercado Pago approves it.
+ * Only fines of the condominium whose credentials were used to fetch the payment are touched.
+ */
+async function processFinePayment(
+  supabase: SupabaseClient,
+  paymentData: MercadoPagoPaymentData,
+  condominiumId: string
+): Promise<{ fineId: string; paid: boolean }> {
+  const fineId = String(paymentData.external_reference).substring(FINE_REFERENCE_PREFIX.length);
+  const paymentId = String(paymentData.id);
+  const isApproved = paymentData.status === "approved";
+  const paidAt = paymentData.date_approved || new Date().toISOString();
+
+  await supabase
+    .from("fine_payments")
+    .update({
+      status: paymentData.status,
+      ...(isApproved ? { paid_at: paidAt } : {}),
+    })
+    .eq("provider", "mercadopago")
+    .eq("provider_payment_id", paymentId);
+
+  if (!isApproved) {
+    console.log(`Fine ${fineId} payment ${paymentId} status: ${paymentData.status}`);
+    return { fineId, paid: false };
+  }
+
+  const { data: fine } = await supabase
+    .from("fines")
+    .select("id, status, amount, total_due, appeal_suspended_at, occurrences!inner(condominium_id)")
+    .eq("id", fineId)
+    .maybeSingle();
+
+  const occurrence = fine?.occurrences as { condominium_id?: string } | undefined;
+  if (!fine || occurrence?.condominium_id !== condominiumId) {
+    console.error(`Fine ${fineId} not found for condominium ${condominiumId}`);
+    return { fineId, paid: false };
+  }
+
+  if (fine.status === "pago") {
+    console.log(`Fine ${fineId} already paid, ignoring duplicate notification`);
+    return { fineId, paid: true };
+  }
+
+  // The payment stays recorded in fine_payments; the fine is settled only while payable
+  // and when the PIX covers the amount currently due (late charges may have been added)
+  if (fine.status === "cancelada" || fine.appeal_suspended_at) {
+    console.warn(`Fine ${fineId} is ${fine.appeal_suspended_at ? "suspended by an appeal" : "cancelled"}, payment ${paymentId} not applied`);
+    return { fineId, paid: false };
+  }
+
+  const amountDue = Number(fine.total_due ?? fine.amount);
+  if (!isAmountCovered(paymentData.transaction_amount, amountDue)) {
+    console.warn(`Fine ${fineId} payment ${paymentId} of ${paymentData.transaction_amount} does not cover ${amountDue}`);
+    return { fineId, paid: false };
+  }
+
+  const paymentTypeId = paymentData.payment_type_id || paymentData.payment_method_id || "pix";
+
+  const { error } = await supabase
+    .from("fines")
+    .update({
+      status: "pago",
+      paid_at: paidAt,
+      payment_method: `mercadopago_${paymentTypeId}`,
+      payment_reference: paymentId,
+    })
+    .eq("id", fineId);
+
+  if (error) {
+    console.error(`Error marking fine ${fineId} as paid:`, error);
+    return { fineId, paid: false };
+  }
+
+  console.log(`Fine ${fineId} marked as paid via ${paymentTypeId}`);
+  return { fineId, paid: true };
+}
+
+/**
+ * Sync a party hall PIX payment and mark the booking charge as paid once Mercado Pago approves it.
+ * Only bookings of the condominium whose credentials were used to fetch the payment are touched.
+ */
+async function processPartyHallPayment(
+  supabase: SupabaseClient,
+  paymentData: MercadoPagoPaymentData,
+  condominiumId: string
+): Promise<{ bookingId: string; paid: boolean }> {
+  const bookingId = String(paymentData.external_reference).substring(PARTY_HALL_REFERENCE_PREFIX.length);
+  const paymentId = String(paymentData.id);
+  const isApproved = paymentData.status === "approved";
+  const paidAt = paymentData.date_approved || new Date().toISOString();
+
+  await supabase
+    .from("party_hall_payments")
+    .update({
+      status: paymentData.status,
+      ...(isApproved ? { paid_at: paidAt } : {}),
+    })
+    .eq("provider", "mercadopago")
+    .eq("provider_payment_id", paymentId);
+
+  if (!isApproved) {
+    console.log(`Party hall booking ${bookingId} payment ${paymentId} status: ${paymentData.status}`);
+    return { bookingId, paid: false };
+  }
+
+  const { data: booking } = await supabase
+    .from("party_hall_bookings")
+    .select("id, condominium_id, status, payment_status, fee_amount, deposit_amount")
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (!booking || booking.condominium_id !== condominiumId) {
+    console.error(`Party hall booking ${bookingId} not found for condominium ${condominiumId}`);
+    return { bookingId, paid: false };
+  }
+
+  if (booking.payment_status === "pago") {
+    console.log(`Party hall booking ${bookingId} already paid, ignoring duplicate notification`);
+    return { bookingId, paid: true };
+  }
+
+  // The payment stays recorded in party_hall_payments; cancelled or refused bookings
+  // and partial amounts are left for the síndico to handle
+  if (!PARTY_HALL_PAYABLE_STATUSES.includes(booking.status)) {
+    console.warn(`Party hall booking ${bookingId} is ${booking.status}, payment ${paymentId} not applied`);
+    return { bookingId, paid: false };
+  }
+
+  const amountDue = Number(booking.fee_amount) + Number(booking.deposit_amount);
+  if (!isAmountCovered(paymentData.transaction_amount, amountDue)) {
+    console.warn(`Party hall booking ${bookingId} payment ${paymentId} of ${paymentData.transaction_amount} does not cover ${amountDue}`);
+    return { bookingId, paid: false };
+  }
+
+  const { error } = await supabase
+    .from("party_hall_bookings")
+    .update({
+      payment_status: "pago",
+      payment_method: "pix",
+      paid_at: paidAt,
+      payment_reference: paymentId,
+    })
+    .eq("id", bookingId);
+
+  if (error) {
+    console.error(`Error marking party hall booking ${bookingId} as paid:`, error);
+    return { bookingId, paid: false };
+  }
+
+  console.log(`Party hall booking ${bookingId} marked as paid`);
+  return { bookingId, paid: true };
+}
+
+/**
+ * Mark an administradora's consolidated invoice as paid once Mercado Pago approves it.
+ * The grouped condominium invoices follow through sync_organization_invoice_status.
+ */
+async function processOrganizationInvoicePayment(
+  supabase: SupabaseClient,
+  paymentData: MercadoPagoPaymentData
+): Promise<{ organizationInvoiceId: string; paid: boolean }> {
+  const organizationInvoiceId = String(paymentData.external_reference).substring(ORGANIZATION_INVOICE_REFERENCE_PREFIX.length);
+  const paymentId = String(paymentData.id);
+
+  const { data: organizationInvoice } = await supabase
+    .from("organization_invoices")
+    .select("id, status")
+    .eq("id", organizationInvoiceId)
+    .maybeSingle();
+
+  if (!organizationInvoice) {
+    console.error(`Organization invoice ${organizationInvoiceId} not found`);
+    return { organizationInvoiceId, paid: false };
+  }
+
+  if (organizationInvoice.status === "paid") {
+    console.log(`Organization invoice ${organizationInvoiceId} already paid, ignoring duplicate notification`);
+    return { organizationInvoiceId, paid: true };
+  }
+
+  const paymentTypeId = paymentData.payment_type_id || paymentData.payment_method_id;
+
+  const { error } = await supabase
+    .from("organization_invoices")
+    .update({
+      status: "paid",
+      paid_at: paymentData.date_approved || new Date().toISOString(),
+      payment_method: `mercadopago_${paymentTypeId}`,
+      payment_reference: paymentId,
+    })
+    .eq("id", organizationInvoiceId);
+
+  if (error) {
+    console.error(`Error marking organization invoice ${organizationInvoiceId} as paid:`, error);
+    return { organizationInvoiceId, paid: false };
+  }
+
+  console.log(`Organization invoice ${organizationInvoiceId} marked as paid via ${paymentTypeId}`);
+  return { organizationInvoiceId, paid: true };
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -289,10 +518,13 @@ Deno.serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const mercadoPagoAccessToken = Deno.env.get("MERCADOPAGO_ACCESS_TOKEN");
+    let mercadoPagoAccessToken = Deno.env.get("MERCADOPAGO_ACCESS_TOKEN");
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Notifications for fine and party hall payments come from the condominium's own Mercado Pago account
+    const condominiumId = new URL(req.url).searchParams.get("condominium_id");
+
     // Get request metadata
     const ipAddress = req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown";
     const userAgent = req.headers.get("user-agent") || "unknown";
@@ -351,13 +583,44 @@ Deno.serve(async (req) => {
     }
 
     // Fetch MercadoPago config to get webhook secret
-    const { data: mpConfig, error: mpConfigError } = await supabase
-      .from("mercadopago_config")
-      .select("webhook_secret, is_active")
-      .eq("is_active", true)
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    let mpConfig: { webhook_secret: string | null } | null = null;
+
+    if (condominiumId) {
+      const { data: condoConfig } = await supabase
+        .from("condominium_mercadopago_config")
+        .select("access_token_encrypted, webhook_secret")
+        .eq("condominium_id", condominiumId)
+        .maybeSingle();
+
+      if (!condoConfig) {
+        console.error("No Mercado Pago config for condominium:", condominiumId);
+        if (logId) {
+          await supabase
+            .from("mercadopago_webhook_logs")
+            .update({
+              processing_status: "rejected",
+              error_message: `Condominium ${condominiumId} has no Mercado Pago config`,
+              processing_duration_ms: Date.now() - startTime,
+            })
+            .eq("id", logId);
+        }
+        return new Response(JSON.stringify({ received: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      mpConfig = { webhook_secret: condoConfig.webhook_secret };
+      mercadoPagoAccessToken = condoConfig.access_token_encrypted;
+    } else {
+      const { data: platformConfig } = await supabase
+        .from("mercadopago_config")
+        .select("webhook_secret, is_active")
+        .eq("is_active", true)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      mpConfig = platformConfig;
+    }
 
     // Validate webhook signature if secret is configured
     if (mpConfig?.webhook_secret && dataId) {
@@ -483,8 +746,23 @@ Deno.serve(async (req) => {
         const paymentData = await paymentResponse.json();
         console.log("Payment data:", paymentData);
 
-        // If payment is approved, update invoice
-        if (paymentData.status === "approved") {
+        if (condominiumId) {
+          // Condominium accounts only receive fine and party hall payments
+          const externalReference = String(paymentData.external_reference || "");
+          if (externalReference.startsWith(FINE_REFERENCE_PREFIX)) {
+            await processFinePayment(supabase, paymentData, condominiumId);
+          } else if (externalReference.startsWith(PARTY_HALL_REFERENCE_PREFIX)) {
+            await processPartyHallPayment(supabase, paymentData, condominiumId);
+          } else {
+            console.log("Ignoring unknown payment from condominium account:", paymentId);
+          }
+        } else if (
+          paymentData.status === "approved" &&
+          String(paymentData.external_reference || "").startsWith(ORGANIZATION_INVOICE_REFERENCE_PREFIX)
+        ) {
+          await processOrganizationInvoicePayment(supabase, paymentData);
+        } else if (paymentData.status === "approved") {
+          // If payment is approved, update invoice
           const externalReference = paymentData.external_reference;
           const paymentTypeId = paymentData.payment_type_id || paymentData.payment_method_id;
           
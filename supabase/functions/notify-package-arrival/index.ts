@@ -3,11 +3,13 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { 
   sendMetaTemplate, 
   sendMetaImage, 
+  sendMetaInteractiveButtons,
   formatPhoneForMeta, 
   buildParamsArray,
   isMetaConfigured,
   type MetaSendResult 
 } from "../_shared/meta-whatsapp.ts";
+import { PACKAGE_QUICK_REPLIES, buildPackagePayload } from "../_shared/package-quick-replies.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,6 +19,13 @@ const corsHeaders = {
 // Sanitize strings for use in messages
 const sanitize = (str: string) => str.replace(/[<>"'`]/g, "").trim();
 
+interface ButtonConfigItem {
+  type: "url" | "quick_reply" | "call";
+  text: string;
+  url_base?: string;
+  has_dynamic_suffix?: boolean;
+}
+
 interface WhatsAppTemplateRow {
   id: string;
   slug: string;
@@ -25,6 +34,7 @@ interface WhatsAppTemplateRow {
   waba_template_name?: string;
   waba_language?: string;
   params_order?: string[];
+  button_config?: ButtonConfigItem | ButtonConfigItem[];
 }
 
 serve(async (req) => {
@@ -277,6 +287,7 @@ serve(async (req) => {
     let wabaTemplateName: string | null = null;
     let wabaLanguage: string = "pt_BR";
     let paramsOrder: string[] = [];
+    let buttonConfigs: ButtonConfigItem[] = [];
     
     // Check for custom condominium template first
     const { data: customTemplate } = await supabase
@@ -290,7 +301,7 @@ serve(async (req) => {
     // Fetch default template with WABA config
     const { data: defaultTemplate } = await supabase
       .from("whatsapp_templates")
-      .select("id, slug, content, is_active, waba_template_name, waba_language, params_order")
+      .select("id, slug, content, is_active, waba_template_name, waba_language, params_order, button_config")
       .eq("slug", "package_arrival")
       .eq("is_active", true)
       .maybeSingle() as { data: WhatsAppTemplateRow | null; error: any };
@@ -299,9 +310,25 @@ serve(async (req) => {
       wabaTemplateName = defaultTemplate.waba_template_name || null;
       wabaLanguage = defaultTemplate.waba_language || "pt_BR";
       paramsOrder = defaultTemplate.params_order || [];
+      buttonConfigs = defaultTemplate.button_config
+        ? (Array.isArray(defaultTemplate.button_config) ? defaultTemplate.button_config : [defaultTemplate.button_config])
+        : [];
       console.log(`Template WABA config: name=${wabaTemplateName}, lang=${wabaLanguage}, params=${paramsOrder.join(",")}`);
     }
 
+    // Quick reply buttons carry the package id + chosen pickup intent back to whatsapp-webhook.
+    // The n-th quick_reply button of the template maps to the n-th entry of PACKAGE_QUICK_REPLIES.
+    const quickReplyButtonParams = buttonConfigs
+      .map((btn, idx) => ({ btn, idx }))
+      .filter(({ btn }) => btn.type === "quick_reply")
+      .slice(0, PACKAGE_QUICK_REPLIES.length)
+      .map(({ idx }, position) => ({
+        type: "button" as const,
+        subType: "quick_reply" as const,
+        index: idx,
+        parameters: [{ type: "payload" as const, payload: buildPackagePayload(package_id, PACKAGE_QUICK_REPLIES[position].intent) }],
+      }));
+
     // ========== SEND NOTIFICATIONS ==========
     const results: Array<{ resident_id: string; success: boolean; messageId?: string; error?: string }> = [];
 
@@ -336,6 +363,7 @@ serve(async (req) => {
           bodyParamNames,
           headerMediaUrl: signedPhotoUrl || undefined,
           headerMediaType: signedPhotoUrl ? "image" : undefined,
+          buttonParams: quickReplyButtonParams.length > 0 ? quickReplyButtonParams : undefined,
         });
       } else {
         // Fallback: Send image with caption
@@ -366,6 +394,18 @@ serve(async (req) => {
             message: caption,
           });
         }
+
+        // Free-form messages can't carry template buttons, so offer the pickup options separately
+        if (result.success) {
+          await sendMetaInteractiveButtons({
+            phone: resident.phone!,
+            bodyText: "Como prefere retirar sua encomenda?",
+            buttons: PACKAGE_QUICK_REPLIES.map((reply) => ({
+              id: buildPackagePayload(package_id, reply.intent),
+              title: reply.title,
+            })),
+          });
+        }
       }
 
       // Log to whatsapp_notification_logs (with condominium_id for RLS)
@@ -0,0 +1,333 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  sendMetaTemplate,
+  sendMetaText,
+  buildParamsArray,
+  isMetaConfigured,
+  type MetaSendResult,
+} from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A truck rarely drops more than this at once; keeps the request bounded
+const MAX_PACKAGES_PER_BATCH = 100;
+
+const sanitizeForWaba = (text: string): string => {
+  return text
+    .replace(/[<>"'`]/g, "")
+    .replace(/[\n\r\t]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+interface PackageRow {
+  id: string;
+  condominium_id: string;
+  apartment_id: string;
+  resident_id: string | null;
+  pickup_code: string;
+  received_by: string;
+  received_by_name: string | null;
+  notification_count: number | null;
+  apartment: { number: string; block: { name: string } };
+  condominium: { name: string };
+}
+
+interface ResidentRow {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  apartment_id: string;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!isMetaConfigured()) {
+      return new Response(
+        JSON.stringify({ error: "Meta WhatsApp não configurado. Configure META_WHATSAPP_PHONE_ID e META_WHATSAPP_ACCESS_TOKEN." }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== INPUT VALIDATION ==========
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const packageIds: string[] = Array.isArray(body?.package_ids) ? body.package_ids : [];
+    if (packageIds.length === 0 || packageIds.length > MAX_PACKAGES_PER_BATCH) {
+      return new Response(
+        JSON.stringify({ error: `Informe de 1 a ${MAX_PACKAGES_PER_BATCH} encomendas em package_ids` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== FETCH PACKAGES ==========
+    const { data, error: packagesError } = await supabase
+      .from("packages")
+      .select(`
+        id, condominium_id, apartment_id, resident_id, pickup_code, received_by, received_by_name, notification_count,
+        apartment:apartments!inner(number, block:blocks!inner(name)),
+        condominium:condominiums!inner(name)
+      `)
+      .in("id", packageIds)
+      .eq("status", "pendente");
+
+    if (packagesError) {
+      console.error("Error fetching packages:", packagesError);
+      return new Response(
+        JSON.stringify({ error: "Erro ao buscar encomendas" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const packages = (data || []) as unknown as PackageRow[];
+    if (packages.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Nenhuma encomenda pendente encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHORIZATION ==========
+    // Porteiro linked to every condominium in the batch, manager with packages permission, or super_admin
+    const { data: superAdminRole } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "super_admin")
+      .maybeSingle();
+
+    if (!superAdminRole) {
+      const condominiumIds = [...new Set(packages.map((p) => p.condominium_id))];
+      for (const condominiumId of condominiumIds) {
+        const { data: isLinked } = await supabase.rpc("user_belongs_to_condominium", {
+          _user_id: user.id,
+          _condominium_id: condominiumId,
+        });
+        const { data: canManage } = await supabase.rpc("has_condominium_permission", {
+          _user_id: user.id,
+          _condominium_id: condominiumId,
+          _permission: "packages.manage",
+        });
+
+        if (!isLinked && !canManage) {
+          console.error(`User ${user.id} not authorized for condominium ${condominiumId}`);
+          return new Response(
+            JSON.stringify({ error: "Sem permissão para notificar neste condomínio" }),
+            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      }
+    }
+
+    // ========== RECIPIENTS ==========
+    const { data: residentsData, error: resError } = await supabase
+      .from("residents")
+      .select("id, full_name, phone, apartment_id")
+      .in("apartment_id", [...new Set(packages.map((p) => p.apartment_id))])
+      .not("phone", "is", null);
+
+    if (resError) {
+      console.error("Error fetching residents:", resError);
+      return new Response(
+        JSON.stringify({ error: "Erro ao buscar moradores" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const residents = (residentsData || []) as ResidentRow[];
+
+    // Packages addressed to a resident go only to them; the rest go to everyone in the unit
+    const packagesByResident = new Map<string, { resident: ResidentRow; packages: PackageRow[] }>();
+    for (const pkg of packages) {
+      const recipients = residents.filter((r) =>
+        r.apartment_id === pkg.apartment_id && (!pkg.resident_id || r.id === pkg.resident_id)
+      );
+      for (const resident of recipients) {
+        const entry = packagesByResident.get(resident.id) || { resident, packages: [] };
+        entry.packages.push(pkg);
+        packagesByResident.set(resident.id, entry);
+      }
+    }
+
+    // ========== TEMPLATE ==========
+    const { data: template } = await supabase
+      .from("whatsapp_templates")
+      .select("content, waba_template_name, waba_language, params_order")
+      .eq("slug", "package_batch_arrival")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    const wabaTemplateName = template?.waba_template_name || null;
+    const wabaLanguage = template?.waba_language || "pt_BR";
+    const paramsOrder: string[] = template?.params_order || [];
+
+    // ========== SEND NOTIFICATIONS ==========
+    const notifiedPackageIds = new Set<string>();
+    const sentByCondominium = new Map<string, number>();
+    const results: Array<{ resident_id: string; package_ids: string[]; success: boolean; error?: string }> = [];
+
+    for (const { resident, packages: residentPackages } of packagesByResident.values()) {
+      const first = residentPackages[0];
+      const variables: Record<string, string> = {
+        condominio: sanitizeForWaba(first.condominium.name),
+        nome: sanitizeForWaba(resident.full_name || "Morador"),
+        quantidade: String(residentPackages.length),
+        unidade: sanitizeForWaba(`${first.apartment.block.name} - ${first.apartment.number}`),
+        codigos: residentPackages.map((p) => p.pickup_code).join(", "),
+        porteiro: sanitizeForWaba(first.received_by_name || "Portaria"),
+      };
+
+      let result: MetaSendResult;
+      if (wabaTemplateName && paramsOrder.length > 0) {
+        const { values: bodyParams, names: bodyParamNames } = buildParamsArray(variables, paramsOrder);
+        result = await sendMetaTemplate({
+          phone: resident.phone!,
+          templateName: wabaTemplateName,
+          language: wabaLanguage,
+          bodyParams,
+          bodyParamNames,
+        });
+      } else {
+        // Fallback to text message (will only work within 24h window)
+        const message = Object.entries(variables).reduce(
+          (content, [key, value]) => content.replace(new RegExp(`\\{${key}\\}`, "g"), value),
+          template?.content || `Você tem ${variables.quantidade} encomenda(s) na portaria. Códigos: ${variables.codigos}`
+        );
+        result = await sendMetaText({ phone: resident.phone!, message });
+      }
+
+      // One log row per package sharing the message id, so delivery status
+      // updates from the webhook reach every package in the message
+      await supabase.from("whatsapp_notification_logs").insert(
+        residentPackages.map((pkg) => ({
+          function_name: "notify-package-batch-arrival",
+          phone: resident.phone,
+          resident_id: resident.id,
+          package_id: pkg.id,
+          condominium_id: pkg.condominium_id,
+          template_name: wabaTemplateName || "package_batch_arrival_fallback",
+          template_language: wabaLanguage,
+          success: result.success,
+          message_id: result.messageId || null,
+          error_message: result.error || null,
+          request_payload: result.debug?.payload || { variables, params_order: paramsOrder },
+          response_status: result.debug?.status || null,
+          response_body: typeof result.debug?.response === "string" ? result.debug.response.substring(0, 1000) : null,
+          debug_info: { sent_by_user_id: user.id, batch_size: residentPackages.length },
+        }))
+      );
+
+      if (result.success) {
+        residentPackages.forEach((pkg) => notifiedPackageIds.add(pkg.id));
+        sentByCondominium.set(first.condominium_id, (sentByCondominium.get(first.condominium_id) || 0) + 1);
+      }
+
+      results.push({
+        resident_id: resident.id,
+        package_ids: residentPackages.map((p) => p.id),
+        success: result.success,
+        error: result.error,
+      });
+
+      // Small delay between messages to avoid rate limiting
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    // ========== UPDATE PACKAGES ==========
+    const sentAt = new Date().toISOString();
+    for (const pkg of packages) {
+      const notified = notifiedPackageIds.has(pkg.id);
+      await supabase
+        .from("packages")
+        .update({
+          notification_sent: notified,
+          notification_sent_at: sentAt,
+          notification_count: (pkg.notification_count || 0) + (notified ? 1 : 0),
+        })
+        .eq("id", pkg.id);
+    }
+
+    // ========== UPDATE SUBSCRIPTION PACKAGE NOTIFICATION COUNTERS ==========
+    // Counted per message sent, so a consolidated batch uses fewer notifications
+    for (const [condominiumId, sent] of sentByCondominium) {
+      const { data: subscription } = await supabase
+        .from("subscriptions")
+        .select("id, package_notifications_limit, package_notifications_used, package_notifications_extra")
+        .eq("condominium_id", condominiumId)
+        .eq("active", true)
+        .maybeSingle();
+
+      if (!subscription) continue;
+
+      const isUnlimited = subscription.package_notifications_limit === -1;
+      const currentUsed = subscription.package_notifications_used || 0;
+      const limit = subscription.package_notifications_limit || 0;
+      const overLimit = isUnlimited ? 0 : Math.min(sent, Math.max(0, currentUsed + sent - limit));
+
+      await supabase
+        .from("subscriptions")
+        .update({
+          package_notifications_used: currentUsed + sent,
+          package_notifications_extra: (subscription.package_notifications_extra || 0) + overLimit,
+        })
+        .eq("id", subscription.id);
+    }
+
+    const successCount = results.filter((r) => r.success).length;
+    console.log(`Package batch ${packages.length} packages: ${successCount}/${results.length} notifications sent`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        notifications_sent: successCount,
+        total_residents: results.length,
+        notified_package_ids: [...notifiedPackageIds],
+        details: results,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in notify-package-batch-arrival:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
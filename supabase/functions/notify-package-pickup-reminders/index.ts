@@ -0,0 +1,439 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendMetaTemplate, isMetaConfigured, buildParamsArray } from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CondominiumRules {
+  id: string;
+  name: string;
+  owner_id: string;
+  package_reminder_interval_days: number;
+  package_escalate_unit_after_days: number;
+  package_escalate_sindico_after_days: number;
+  package_return_after_days: number;
+}
+
+interface PendingPackageRow {
+  id: string;
+  condominium_id: string;
+  apartment_id: string;
+  resident_id: string | null;
+  pickup_code: string;
+  received_at: string;
+  notification_sent_at: string | null;
+  reminder_count: number;
+  last_reminder_at: string | null;
+  escalated_to_unit_at: string | null;
+  escalated_to_sindico_at: string | null;
+  return_candidate_at: string | null;
+  apartment: { number: string; block: { name: string } | null } | null;
+  package_type: { name: string } | null;
+}
+
+interface ResidentRow {
+  id: string;
+  full_name: string;
+  phone: string;
+  apartment_id: string;
+  is_responsible: boolean;
+}
+
+interface WabaTemplate {
+  waba_template_name: string | null;
+  waba_language: string | null;
+  params_order: string[] | null;
+}
+
+interface PackageResult {
+  packageId: string;
+  ageDays: number;
+  reminded?: number;
+  escalatedToUnit?: boolean;
+  returnCandidate?: boolean;
+  error?: string;
+}
+
+const sanitizeForWaba = (text: string): string => {
+  return text
+    .replace(/[\n\r\t]/g, " ")
+    .replace(/\s{4,}/g, "   ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+const daysSince = (timestamp: string, now: Date) =>
+  Math.floor((now.getTime() - new Date(timestamp).getTime()) / DAY_MS);
+
+async function fetchWabaTemplate(supabase: SupabaseClient, slug: string): Promise<WabaTemplate | null> {
+  const { data } = await supabase
+    .from("whatsapp_templates")
+    .select("waba_template_name, waba_language, params_order")
+    .eq("slug", slug)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (data?.waba_template_name && data?.params_order?.length) return data;
+  console.warn(`Template WABA '${slug}' não configurado - notificações não serão enviadas`);
+  return null;
+}
+
+/**
+ * Before the unit escalation only the addressee is reminded (or the unit's
+ * responsible residents when the package has no addressee); afterwards
+ * everyone in the unit with a phone.
+ */
+function pickRecipients(pkg: PendingPackageRow, unitResidents: ResidentRow[], escalated: boolean): ResidentRow[] {
+  if (escalated) return unitResidents;
+  if (pkg.resident_id) {
+    const addressee = unitResidents.filter((r) => r.id === pkg.resident_id);
+    if (addressee.length > 0) return addressee;
+  }
+  const responsible = unitResidents.filter((r) => r.is_responsible);
+  return responsible.length > 0 ? responsible : unitResidents;
+}
+
+async function sendAndLog(
+  supabase: SupabaseClient,
+  template: WabaTemplate,
+  phone: string,
+  paramsMap: Record<string, string>,
+  log: { condominium_id: string; package_id?: string; resident_id?: string },
+): Promise<{ success: boolean; error?: string }> {
+  const { values: bodyParams, names: bodyParamNames } = buildParamsArray(paramsMap, template.params_order!);
+
+  const sendResult = await sendMetaTemplate({
+    phone,
+    templateName: template.waba_template_name!,
+    language: template.waba_language || "pt_BR",
+    bodyParams,
+    bodyParamNames,
+  });
+
+  await supabase.from("whatsapp_notification_logs").insert({
+    function_name: "notify-package-pickup-reminders",
+    phone,
+    template_name: template.waba_template_name,
+    template_language: template.waba_language || "pt_BR",
+    success: sendResult.success,
+    message_id: sendResult.messageId || null,
+    error_message: sendResult.error || null,
+    request_payload: { paramsMap, bodyParams },
+    response_status: sendResult.success ? 200 : 500,
+    ...log,
+  });
+
+  return { success: sendResult.success, error: sendResult.error };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  let logId: string | null = null;
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: logEntry } = await supabase
+      .from("edge_function_logs")
+      .insert({
+        function_name: "notify-package-pickup-reminders",
+        trigger_type: "cron",
+        status: "running",
+        started_at: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+
+    logId = logEntry?.id;
+
+    // Check pause
+    const { data: pauseStatus } = await supabase
+      .from("cron_job_controls")
+      .select("paused")
+      .eq("function_name", "notify-package-pickup-reminders")
+      .maybeSingle();
+
+    if (pauseStatus?.paused) {
+      if (logId) {
+        await supabase.from("edge_function_logs").update({
+          status: "skipped", ended_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+          result: { message: "Function is paused" },
+        }).eq("id", logId);
+      }
+      return new Response(
+        JSON.stringify({ success: true, message: "Function is paused" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const now = new Date();
+
+    const { data: condominiums, error: condoError } = await supabase
+      .from("condominiums")
+      .select(`
+        id, name, owner_id, package_reminder_interval_days, package_escalate_unit_after_days,
+        package_escalate_sindico_after_days, package_return_after_days
+      `)
+      .eq("package_reminders_enabled", true) as { data: CondominiumRules[] | null; error: { message: string } | null };
+
+    if (condoError) throw new Error(`Error fetching condominiums: ${condoError.message}`);
+
+    const rulesById = new Map((condominiums || []).map((c) => [c.id, c]));
+
+    // Anything younger than the shortest interval can't be due yet
+    const minInterval = Math.min(...(condominiums || []).map((c) => c.package_reminder_interval_days));
+    const packages: PendingPackageRow[] = [];
+    if (rulesById.size > 0) {
+      const receivedBefore = new Date(now.getTime() - minInterval * DAY_MS).toISOString();
+      const batchSize = 1000;
+      for (let offset = 0; ; offset += batchSize) {
+        const { data: batch, error: pkgError } = await supabase
+          .from("packages")
+          .select(`
+            id, condominium_id, apartment_id, resident_id, pickup_code, received_at, notification_sent_at,
+            reminder_count, last_reminder_at, escalated_to_unit_at, escalated_to_sindico_at, return_candidate_at,
+            apartment:apartments(number, block:blocks(name)),
+            package_type:package_types(name)
+          `)
+          .eq("status", "pendente")
+          .in("condominium_id", [...rulesById.keys()])
+          .lte("received_at", receivedBefore)
+          .order("received_at")
+          .range(offset, offset + batchSize - 1) as { data: PendingPackageRow[] | null; error: { message: string } | null };
+
+        if (pkgError) throw new Error(`Error fetching packages: ${pkgError.message}`);
+        packages.push(...(batch || []));
+        if (!batch || batch.length < batchSize) break;
+      }
+    }
+
+    if (packages.length === 0) {
+      if (logId) {
+        await supabase.from("edge_function_logs").update({
+          status: "completed", ended_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+          result: { message: "No pending packages due" },
+        }).eq("id", logId);
+      }
+      return new Response(
+        JSON.stringify({ success: true, message: "No pending packages due" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // WhatsApp is best effort: return candidates are still marked without templates
+    let reminderTemplate: WabaTemplate | null = null;
+    let sindicoTemplate: WabaTemplate | null = null;
+    if (isMetaConfigured()) {
+      reminderTemplate = await fetchWabaTemplate(supabase, "package_pickup_reminder");
+      sindicoTemplate = await fetchWabaTemplate(supabase, "package_unclaimed_sindico");
+    } else {
+      console.warn("Meta WhatsApp API not configured - notifications will be skipped");
+    }
+
+    const { data: residentsData } = await supabase
+      .from("residents")
+      .select("id, full_name, phone, apartment_id, is_responsible")
+      .in("apartment_id", [...new Set(packages.map((p) => p.apartment_id))])
+      .not("phone", "is", null);
+
+    const residentsByUnit = new Map<string, ResidentRow[]>();
+    for (const resident of (residentsData || []) as ResidentRow[]) {
+      const unit = residentsByUnit.get(resident.apartment_id) || [];
+      unit.push(resident);
+      residentsByUnit.set(resident.apartment_id, unit);
+    }
+
+    const results: PackageResult[] = [];
+    const sindicoQueue = new Map<string, PendingPackageRow[]>();
+
+    for (const pkg of packages) {
+      const rules = rulesById.get(pkg.condominium_id)!;
+      const ageDays = daysSince(pkg.received_at, now);
+      const result: PackageResult = { packageId: pkg.id, ageDays };
+
+      try {
+        const updates: Record<string, unknown> = {};
+
+        // ========== RETURN TO SENDER ==========
+        // Past this point reminders stop; the porteiro decides on the return
+        if (pkg.return_candidate_at || ageDays >= rules.package_return_after_days) {
+          if (!pkg.return_candidate_at) {
+            updates.return_candidate_at = now.toISOString();
+            result.returnCandidate = true;
+          }
+        } else if (reminderTemplate) {
+          // ========== RESIDENT REMINDER ==========
+          const lastContact = pkg.last_reminder_at || pkg.notification_sent_at || pkg.received_at;
+          if (daysSince(lastContact, now) >= rules.package_reminder_interval_days) {
+            const escalated = ageDays >= rules.package_escalate_unit_after_days;
+            const recipients = pickRecipients(pkg, residentsByUnit.get(pkg.apartment_id) || [], escalated);
+
+            let sent = 0;
+            for (const resident of recipients) {
+              const sendResult = await sendAndLog(
+                supabase,
+                reminderTemplate,
+                resident.phone,
+                {
+                  condominio: sanitizeForWaba(rules.name),
+                  nome: sanitizeForWaba(resident.full_name.split(" ")[0]),
+                  unidade: sanitizeForWaba(`${pkg.apartment?.block?.name || ""} - ${pkg.apartment?.number || ""}`),
+                  dias: String(ageDays),
+                  codigo: pkg.pickup_code,
+                  tipo_encomenda: sanitizeForWaba(pkg.package_type?.name || "Encomenda"),
+                },
+                { condominium_id: pkg.condominium_id, package_id: pkg.id, resident_id: resident.id },
+              );
+              if (sendResult.success) sent++;
+              else result.error = sendResult.error;
+              await new Promise((resolve) => setTimeout(resolve, 500));
+            }
+
+            if (sent > 0) {
+              updates.reminder_count = pkg.reminder_count + 1;
+              updates.last_reminder_at = now.toISOString();
+              if (escalated && !pkg.escalated_to_unit_at) {
+                updates.escalated_to_unit_at = now.toISOString();
+                result.escalatedToUnit = true;
+              }
+            }
+            result.reminded = sent;
+          }
+        }
+
+        // ========== SÍNDICO ESCALATION ==========
+        if (!pkg.escalated_to_sindico_at && (ageDays >= rules.package_escalate_sindico_after_days || result.returnCandidate)) {
+          const queue = sindicoQueue.get(pkg.condominium_id) || [];
+          queue.push(pkg);
+          sindicoQueue.set(pkg.condominium_id, queue);
+        }
+
+        if (Object.keys(updates).length > 0) {
+          const { error: updateError } = await supabase
+            .from("packages")
+            .update(updates)
+            .eq("id", pkg.id);
+          if (updateError) throw new Error(updateError.message);
+        }
+      } catch (pkgError) {
+        console.error(`Error processing package ${pkg.id}:`, pkgError);
+        result.error = pkgError instanceof Error ? pkgError.message : String(pkgError);
+      }
+
+      results.push(result);
+    }
+
+    // One summary per condominium instead of one message per package
+    let sindicoNotified = 0;
+    if (sindicoTemplate) {
+      for (const [condominiumId, queued] of sindicoQueue) {
+        const rules = rulesById.get(condominiumId)!;
+
+        const { data: sindico } = await supabase
+          .from("profiles")
+          .select("full_name, phone")
+          .eq("user_id", rules.owner_id)
+          .maybeSingle();
+
+        if (!sindico?.phone) {
+          console.warn(`Síndico of condominium ${condominiumId} has no phone`);
+          continue;
+        }
+
+        const { count: returnCandidates } = await supabase
+          .from("packages")
+          .select("id", { count: "exact", head: true })
+          .eq("condominium_id", condominiumId)
+          .eq("status", "pendente")
+          .not("return_candidate_at", "is", null);
+
+        const sendResult = await sendAndLog(
+          supabase,
+          sindicoTemplate,
+          sindico.phone,
+          {
+            condominio: sanitizeForWaba(rules.name),
+            nome: sanitizeForWaba((sindico.full_name || "Síndico").split(" ")[0]),
+            quantidade: String(queued.length),
+            dias: String(rules.package_escalate_sindico_after_days),
+            sem_retirada: String(returnCandidates || 0),
+          },
+          { condominium_id: condominiumId },
+        );
+
+        if (sendResult.success) {
+          sindicoNotified++;
+          await supabase
+            .from("packages")
+            .update({ escalated_to_sindico_at: now.toISOString() })
+            .in("id", queued.map((p) => p.id));
+        }
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+    }
+
+    const remindedCount = results.filter((r) => (r.reminded || 0) > 0).length;
+    const escalatedCount = results.filter((r) => r.escalatedToUnit).length;
+    const returnCount = results.filter((r) => r.returnCandidate).length;
+    const failureCount = results.filter((r) => r.error).length;
+
+    if (logId) {
+      await supabase.from("edge_function_logs").update({
+        status: failureCount > 0 && failureCount === results.length ? "error" : "completed",
+        ended_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime,
+        result: {
+          total: packages.length,
+          reminded: remindedCount,
+          escalated_to_unit: escalatedCount,
+          return_candidates: returnCount,
+          sindico_notified: sindicoNotified,
+          failed: failureCount,
+          details: results,
+        },
+      }).eq("id", logId);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        reminded: remindedCount,
+        escalated_to_unit: escalatedCount,
+        return_candidates: returnCount,
+        sindico_notified: sindicoNotified,
+        failed: failureCount,
+        results,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    const message = error instanceof Error ? error.message : "Erro interno do servidor";
+    if (logId) {
+      const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+      await supabase.from("edge_function_logs").update({
+        status: "error", ended_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime, error_message: message,
+      }).eq("id", logId);
+    }
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
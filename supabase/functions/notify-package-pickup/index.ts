@@ -0,0 +1,262 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  sendMetaTemplate,
+  sendMetaText,
+  buildParamsArray,
+  isMetaConfigured,
+  type MetaSendResult,
+} from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const sanitizeForWaba = (text: string): string => {
+  return text
+    .replace(/[\n\r\t]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+interface PackageRow {
+  id: string;
+  condominium_id: string;
+  apartment_id: string;
+  resident_id: string | null;
+  status: string;
+  picked_up_at: string | null;
+  picked_up_by_name: string | null;
+  pickup_signature_path: string | null;
+  pickup_photo_path: string | null;
+  pickup_receipt_sent_at: string | null;
+  apartment: { number: string; block: { name: string } };
+  condominium: { name: string };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!isMetaConfigured()) {
+      return new Response(
+        JSON.stringify({ error: "Meta WhatsApp não configurado. Configure META_WHATSAPP_PHONE_ID e META_WHATSAPP_ACCESS_TOKEN." }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { package_id } = await req.json();
+    if (!package_id) {
+      return new Response(
+        JSON.stringify({ error: "package_id é obrigatório" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== FETCH PACKAGE ==========
+    const { data, error: packageError } = await supabase
+      .from("packages")
+      .select(`
+        id, condominium_id, apartment_id, resident_id, status, picked_up_at, picked_up_by_name,
+        pickup_signature_path, pickup_photo_path, pickup_receipt_sent_at,
+        apartment:apartments!inner(number, block:blocks!inner(name)),
+        condominium:condominiums!inner(name)
+      `)
+      .eq("id", package_id)
+      .single();
+
+    if (packageError || !data) {
+      return new Response(
+        JSON.stringify({ error: "Encomenda não encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const pkg = data as unknown as PackageRow;
+
+    if (pkg.status !== "retirada") {
+      return new Response(
+        JSON.stringify({ error: "A encomenda ainda não foi retirada" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHORIZATION ==========
+    // Porteiro linked to the condominium, manager with packages permission, or super_admin
+    const { data: isLinked } = await supabase.rpc("user_belongs_to_condominium", {
+      _user_id: user.id,
+      _condominium_id: pkg.condominium_id,
+    });
+    const { data: canManage } = await supabase.rpc("has_condominium_permission", {
+      _user_id: user.id,
+      _condominium_id: pkg.condominium_id,
+      _permission: "packages.manage",
+    });
+    const { data: superAdminRole } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "super_admin")
+      .maybeSingle();
+
+    if (!isLinked && !canManage && !superAdminRole) {
+      return new Response(
+        JSON.stringify({ error: "Sem permissão para notificar neste condomínio" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Retries and double submits must not send the receipt twice
+    if (pkg.pickup_receipt_sent_at) {
+      return new Response(
+        JSON.stringify({ success: true, message: "Comprovante já enviado", notifications_sent: 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== RECIPIENTS ==========
+    // The package's resident; packages addressed to the unit go to everyone in it
+    let residentsQuery = supabase
+      .from("residents")
+      .select("id, full_name, phone")
+      .eq("apartment_id", pkg.apartment_id)
+      .not("phone", "is", null);
+
+    if (pkg.resident_id) {
+      residentsQuery = residentsQuery.eq("id", pkg.resident_id);
+    }
+
+    const { data: residents, error: resError } = await residentsQuery;
+    if (resError) {
+      return new Response(
+        JSON.stringify({ error: "Erro ao buscar moradores" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!residents || residents.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "Nenhum morador com telefone nesta unidade", notifications_sent: 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== TEMPLATE ==========
+    const { data: template } = await supabase
+      .from("whatsapp_templates")
+      .select("content, waba_template_name, waba_language, params_order")
+      .eq("slug", "package_pickup_receipt")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    const wabaTemplateName = template?.waba_template_name || null;
+    const wabaLanguage = template?.waba_language || "pt_BR";
+    const paramsOrder: string[] = template?.params_order || [];
+
+    const pickedUpAt = new Date(pkg.picked_up_at || Date.now()).toLocaleString("pt-BR", {
+      timeZone: "America/Sao_Paulo",
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const proofLabel = pkg.pickup_photo_path
+      ? "assinatura e foto registradas"
+      : pkg.pickup_signature_path
+      ? "assinatura registrada"
+      : "sem assinatura";
+
+    let sent = 0;
+    for (const resident of residents) {
+      const variables: Record<string, string> = {
+        condominio: sanitizeForWaba(pkg.condominium.name),
+        nome: sanitizeForWaba(resident.full_name.split(" ")[0]),
+        unidade: sanitizeForWaba(`${pkg.apartment.block.name} - ${pkg.apartment.number}`),
+        retirado_por: sanitizeForWaba(pkg.picked_up_by_name || "-"),
+        horario: pickedUpAt,
+        comprovante: proofLabel,
+      };
+
+      let result: MetaSendResult;
+      if (wabaTemplateName && paramsOrder.length > 0) {
+        const { values: bodyParams, names: bodyParamNames } = buildParamsArray(variables, paramsOrder);
+        result = await sendMetaTemplate({
+          phone: resident.phone!,
+          templateName: wabaTemplateName,
+          language: wabaLanguage,
+          bodyParams,
+          bodyParamNames,
+        });
+      } else {
+        // Fallback to text message (will only work within 24h window)
+        const message = Object.entries(variables).reduce(
+          (content, [key, value]) => content.replace(new RegExp(`\\{${key}\\}`, "g"), value),
+          template?.content || `Encomenda retirada por ${variables.retirado_por} às ${variables.horario}.`
+        );
+        result = await sendMetaText({ phone: resident.phone!, message });
+      }
+
+      // Not linked via package_id so arrival delivery tracking stays untouched
+      await supabase.from("whatsapp_notification_logs").insert({
+        function_name: "notify-package-pickup",
+        phone: resident.phone,
+        resident_id: resident.id,
+        condominium_id: pkg.condominium_id,
+        template_name: wabaTemplateName || "package_pickup_receipt_fallback",
+        template_language: wabaLanguage,
+        success: result.success,
+        message_id: result.messageId || null,
+        error_message: result.error || null,
+        request_payload: result.debug?.payload || { variables, params_order: paramsOrder, package_id: pkg.id },
+        response_status: result.debug?.status || null,
+        response_body: typeof result.debug?.response === "string" ? result.debug.response.substring(0, 1000) : null,
+      });
+
+      if (result.success) sent++;
+    }
+
+    if (sent > 0) {
+      await supabase
+        .from("packages")
+        .update({ pickup_receipt_sent_at: new Date().toISOString() })
+        .eq("id", pkg.id);
+    }
+
+    console.log(`Package pickup receipt ${pkg.id}: ${sent}/${residents.length} notifications sent`);
+
+    return new Response(
+      JSON.stringify({ success: sent > 0, notifications_sent: sent }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in notify-package-pickup:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
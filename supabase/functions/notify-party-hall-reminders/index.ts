@@ -80,7 +80,7 @@ serve(async (req) => {
     const { data: bookings, error: bookingsError } = await supabase
       .from("party_hall_bookings")
       .select(`
-        id, booking_date, start_time, end_time, condominium_id,
+        id, booking_date, start_time, end_time, condominium_id, party_hall_setting_id,
         resident:residents!inner(id, full_name, phone),
         party_hall_setting:party_hall_settings!inner(name),
         condominium:condominiums!inner(id, name)
@@ -134,6 +134,7 @@ serve(async (req) => {
         .from("party_hall_checklist_templates")
         .select("item_name")
         .eq("condominium_id", condo.id)
+        .or(`party_hall_setting_id.is.null,party_hall_setting_id.eq.${booking.party_hall_setting_id}`)
         .eq("is_active", true)
         .order("display_order", { ascending: true });
 
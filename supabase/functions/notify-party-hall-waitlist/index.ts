@@ -0,0 +1,238 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendMetaTemplate, isMetaConfigured, buildParamsArray } from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface WaitlistOfferRow {
+  id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  offer_expires_at: string | null;
+  resident: { id: string; full_name: string; phone: string | null };
+  party_hall_setting: { name: string; waitlist_claim_hours: number };
+  condominium: { id: string; name: string };
+}
+
+const sanitizeForWaba = (text: string): string => {
+  return text
+    .replace(/[\n\r\t]/g, " ")
+    .replace(/\s{4,}/g, "   ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// Expires unanswered waitlist offers, offers freed slots to the next resident in
+// line and sends the WhatsApp for every offer not yet notified. The claim deadline
+// starts when the message goes out. Runs on a schedule and right after a booking
+// is cancelled in the app.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("authorization") || "";
+  const triggerType = authHeader.includes(" anon") ? "scheduled" : "manual";
+
+  const startTime = Date.now();
+  let logId: string | null = null;
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: logEntry } = await supabase
+      .from("edge_function_logs")
+      .insert({
+        function_name: "notify-party-hall-waitlist",
+        trigger_type: triggerType,
+        status: "running",
+        started_at: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+
+    logId = logEntry?.id;
+
+    // Check pause
+    const { data: pauseStatus } = await supabase
+      .from("cron_job_controls")
+      .select("paused")
+      .eq("function_name", "notify-party-hall-waitlist")
+      .maybeSingle();
+
+    if (pauseStatus?.paused) {
+      if (logId) {
+        await supabase.from("edge_function_logs").update({
+          status: "skipped", ended_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+          result: { message: "Function is paused" },
+        }).eq("id", logId);
+      }
+      return new Response(
+        JSON.stringify({ success: true, message: "Function is paused" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Expire overdue offers and hand freed slots to the next in line
+    const { data: offeredNow, error: offerError } = await supabase.rpc("offer_party_hall_waitlist");
+    if (offerError) throw new Error(`Error advancing waitlist: ${offerError.message}`);
+
+    const { data: offers, error: offersError } = await supabase
+      .from("party_hall_waitlist")
+      .select(`
+        id, booking_date, start_time, end_time, offer_expires_at,
+        resident:residents!inner(id, full_name, phone),
+        party_hall_setting:party_hall_settings!inner(name, waitlist_claim_hours),
+        condominium:condominiums!inner(id, name)
+      `)
+      .eq("status", "oferecida")
+      .is("offer_notified_at", null)
+      .or(`offer_expires_at.is.null,offer_expires_at.gt.${new Date().toISOString()}`) as { data: WaitlistOfferRow[] | null; error: { message: string } | null };
+
+    if (offersError) throw new Error(`Error fetching offers: ${offersError.message}`);
+
+    if (!offers || offers.length === 0) {
+      if (logId) {
+        await supabase.from("edge_function_logs").update({
+          status: "completed", ended_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+          result: { message: "No offers to notify", offered: offeredNow ?? 0 },
+        }).eq("id", logId);
+      }
+      return new Response(
+        JSON.stringify({ success: true, message: "No offers to notify", offered: offeredNow ?? 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Check Meta config
+    if (!isMetaConfigured()) {
+      throw new Error("Meta WhatsApp API not configured");
+    }
+
+    // Get WABA template
+    const { data: wabaTemplate } = await supabase
+      .from("whatsapp_templates")
+      .select("waba_template_name, waba_language, params_order")
+      .eq("slug", "party_hall_waitlist_offer")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (!wabaTemplate?.waba_template_name || !wabaTemplate?.params_order?.length) {
+      throw new Error("Template WABA 'party_hall_waitlist_offer' não configurado");
+    }
+
+    const results: { entryId: string; success: boolean; error?: string }[] = [];
+
+    for (const offer of offers) {
+      const resident = offer.resident;
+      const condo = offer.condominium;
+      const hallSetting = offer.party_hall_setting;
+
+      // Deadline already running (resident without phone or notice overdue) is kept
+      const expiresAt = offer.offer_expires_at
+        ?? new Date(Date.now() + hallSetting.waitlist_claim_hours * 60 * 60 * 1000).toISOString();
+
+      if (!resident.phone) {
+        // The resident still sees the offer in the app
+        if (!offer.offer_expires_at) {
+          await supabase.from("party_hall_waitlist").update({ offer_expires_at: expiresAt }).eq("id", offer.id);
+        }
+        results.push({ entryId: offer.id, success: false, error: "No phone" });
+        continue;
+      }
+
+      const bookingDate = new Date(offer.booking_date + "T00:00:00");
+      const formattedDate = bookingDate.toLocaleDateString("pt-BR", {
+        weekday: "long", day: "2-digit", month: "long", year: "numeric",
+      });
+      const formattedDeadline = new Date(expiresAt).toLocaleString("pt-BR", {
+        timeZone: "America/Sao_Paulo", day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit",
+      });
+
+      const paramsMap: Record<string, string> = {
+        condominio: sanitizeForWaba(condo.name),
+        nome: sanitizeForWaba(resident.full_name.split(" ")[0]),
+        espaco: sanitizeForWaba(hallSetting.name),
+        data: sanitizeForWaba(formattedDate),
+        horario_inicio: offer.start_time.slice(0, 5),
+        horario_fim: offer.end_time.slice(0, 5),
+        prazo: sanitizeForWaba(formattedDeadline),
+      };
+
+      const { values: bodyParams, names: bodyParamNames } = buildParamsArray(paramsMap, wabaTemplate.params_order);
+
+      const sendResult = await sendMetaTemplate({
+        phone: resident.phone,
+        templateName: wabaTemplate.waba_template_name,
+        language: wabaTemplate.waba_language || "pt_BR",
+        bodyParams,
+        bodyParamNames,
+      });
+
+      await supabase.from("whatsapp_notification_logs").insert({
+        function_name: "notify-party-hall-waitlist",
+        phone: resident.phone,
+        template_name: wabaTemplate.waba_template_name,
+        template_language: wabaTemplate.waba_language || "pt_BR",
+        success: sendResult.success,
+        message_id: sendResult.messageId || null,
+        error_message: sendResult.error || null,
+        request_payload: { paramsMap, bodyParams },
+        response_status: sendResult.success ? 200 : 500,
+        resident_id: resident.id,
+        condominium_id: condo.id,
+      });
+
+      if (sendResult.success) {
+        await supabase
+          .from("party_hall_waitlist")
+          .update({ offer_notified_at: new Date().toISOString(), offer_expires_at: expiresAt })
+          .eq("id", offer.id);
+        results.push({ entryId: offer.id, success: true });
+      } else {
+        results.push({ entryId: offer.id, success: false, error: sendResult.error });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    const successCount = results.filter(r => r.success).length;
+    const failureCount = results.filter(r => !r.success).length;
+
+    if (logId) {
+      await supabase.from("edge_function_logs").update({
+        status: failureCount > 0 && successCount === 0 ? "error" : "completed",
+        ended_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime,
+        result: { offered: offeredNow ?? 0, total: offers.length, sent: successCount, failed: failureCount, details: results },
+      }).eq("id", logId);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, offered: offeredNow ?? 0, sent: successCount, failed: failureCount, results }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    const message = error instanceof Error ? error.message : "Erro interno do servidor";
+    if (logId) {
+      const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+      await supabase.from("edge_function_logs").update({
+        status: "error", ended_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime, error_message: message,
+      }).eq("id", logId);
+    }
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
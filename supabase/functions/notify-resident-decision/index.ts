@@ -9,10 +9,15 @@ const corsHeaders = {
 
 interface NotifyResidentRequest {
   occurrence_id: string;
-  decision: "arquivada" | "advertido" | "multado";
-  justification: string;
 }
 
+// WABA templates are registered per base status of the decision
+const DECISION_TEMPLATE_SLUGS: Record<string, string> = {
+  arquivada: "decision_archived",
+  advertido: "decision_warning",
+  multado: "decision_fine",
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -25,12 +30,12 @@ serve(async (req) => {
   let notificationId: string | null = null;
 
   try {
-    const { occurrence_id, decision, justification }: NotifyResidentRequest = await req.json();
-    console.log("Notify resident decision:", { occurrence_id, decision });
+    const { occurrence_id }: NotifyResidentRequest = await req.json();
+    console.log("Notify resident decision:", { occurrence_id });
 
-    if (!occurrence_id || !decision) {
+    if (!occurrence_id) {
       return new Response(
-        JSON.stringify({ error: "occurrence_id e decision são obrigatórios" }),
+        JSON.stringify({ error: "occurrence_id é obrigatório" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -39,7 +44,7 @@ serve(async (req) => {
     const { data: occurrence, error: occError } = await supabase
       .from("occurrences")
       .select(`
-        id, title, type, condominium_id,
+        id, title, type, condominium_id, workflow_state,
         residents!inner (
           id, full_name, phone, email,
           apartments!inner (
@@ -75,13 +80,32 @@ serve(async (req) => {
     const condoName = resident.apartments.blocks.condominiums.name;
     const condoId = occurrence.condominium_id;
 
-    // Map decision to template slug
-    const templateSlugMap: Record<string, string> = {
-      arquivada: "decision_archived",
-      advertido: "decision_warning",
-      multado: "decision_fine",
-    };
-    const templateSlug = templateSlugMap[decision];
+    // The decision comes from the occurrence's current workflow state, so custom
+    // workflows and appeal judgments are reported as recorded
+    const { data: workflowState } = await supabase
+      .from("occurrence_workflow_states")
+      .select("label, base_status")
+      .eq("condominium_id", condoId)
+      .eq("key", occurrence.workflow_state)
+      .maybeSingle();
+
+    if (!workflowState || !DECISION_TEMPLATE_SLUGS[workflowState.base_status]) {
+      return new Response(
+        JSON.stringify({ error: "A ocorrência não está em uma etapa de decisão" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: decision } = await supabase
+      .from("decisions")
+      .select("justification, appeal:occurrence_appeals!decisions_appeal_id_fkey(status)")
+      .eq("occurrence_id", occurrence_id)
+      .order("decided_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const templateSlug = DECISION_TEMPLATE_SLUGS[workflowState.base_status];
+    const appealOutcome = (decision?.appeal as { status: string } | null)?.status;
 
     // Fetch WABA template config
     const { data: template } = await supabase
@@ -112,7 +136,10 @@ serve(async (req) => {
       nome: resident.full_name || "Morador",
       titulo: occurrence.title,
       condominio: condoName,
-      justificativa: justification || "Sem justificativa adicional.",
+      situacao: workflowState.label,
+      justificativa: appealOutcome === "provido" || appealOutcome === "improvido"
+        ? `Recurso ${appealOutcome === "provido" ? "provido" : "não provido"} pelo conselho. ${decision?.justification || ""}`.trim()
+        : decision?.justification || "Sem justificativa adicional.",
       link,
     };
 
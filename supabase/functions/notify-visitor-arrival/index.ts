@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  sendMetaTemplate,
+  sendMetaText,
+  buildParamsArray,
+  isMetaConfigured,
+  type MetaSendResult,
+} from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const sanitizeForWaba = (text: string): string => {
+  return text
+    .replace(/[\n\r\t]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+const VISITOR_TYPE_LABELS: Record<string, string> = {
+  visitante: "visitante",
+  prestador: "prestador de serviço",
+};
+
+interface EntryRow {
+  id: string;
+  condominium_id: string;
+  apartment_id: string;
+  visitor_type: string;
+  visitor_name: string;
+  company: string | null;
+  checked_in_at: string;
+  authorization: { resident_id: string | null } | null;
+  apartment: { number: string; block: { name: string } };
+  condominium: { name: string };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!isMetaConfigured()) {
+      return new Response(
+        JSON.stringify({ error: "Meta WhatsApp não configurado. Configure META_WHATSAPP_PHONE_ID e META_WHATSAPP_ACCESS_TOKEN." }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { entry_id } = await req.json();
+    if (!entry_id) {
+      return new Response(
+        JSON.stringify({ error: "entry_id é obrigatório" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== FETCH ENTRY ==========
+    const { data, error: entryError } = await supabase
+      .from("visitor_entries")
+      .select(`
+        id, condominium_id, apartment_id, visitor_type, visitor_name, company, checked_in_at,
+        authorization:visitor_authorizations(resident_id),
+        apartment:apartments!inner(number, block:blocks!inner(name)),
+        condominium:condominiums!inner(name)
+      `)
+      .eq("id", entry_id)
+      .single();
+
+    if (entryError || !data) {
+      return new Response(
+        JSON.stringify({ error: "Entrada não encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const entry = data as unknown as EntryRow;
+
+    // ========== AUTHORIZATION ==========
+    // Porteiro linked to the condominium, manager with portaria permission, or super_admin
+    const { data: isLinked } = await supabase.rpc("user_belongs_to_condominium", {
+      _user_id: user.id,
+      _condominium_id: entry.condominium_id,
+    });
+    const { data: canManage } = await supabase.rpc("has_condominium_permission", {
+      _user_id: user.id,
+      _condominium_id: entry.condominium_id,
+      _permission: "packages.manage",
+    });
+    const { data: superAdminRole } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "super_admin")
+      .maybeSingle();
+
+    if (!isLinked && !canManage && !superAdminRole) {
+      return new Response(
+        JSON.stringify({ error: "Sem permissão para notificar neste condomínio" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== RECIPIENTS ==========
+    // The resident who pre-authorized the visit; walk-ins go to everyone in the unit
+    let residentsQuery = supabase
+      .from("residents")
+      .select("id, full_name, phone")
+      .eq("apartment_id", entry.apartment_id)
+      .not("phone", "is", null);
+
+    if (entry.authorization?.resident_id) {
+      residentsQuery = residentsQuery.eq("id", entry.authorization.resident_id);
+    }
+
+    const { data: residents, error: resError } = await residentsQuery;
+    if (resError) {
+      return new Response(
+        JSON.stringify({ error: "Erro ao buscar moradores" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!residents || residents.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "Nenhum morador com telefone nesta unidade", notifications_sent: 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== TEMPLATE ==========
+    const { data: template } = await supabase
+      .from("whatsapp_templates")
+      .select("content, waba_template_name, waba_language, params_order")
+      .eq("slug", "visitor_arrival")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    const wabaTemplateName = template?.waba_template_name || null;
+    const wabaLanguage = template?.waba_language || "pt_BR";
+    const paramsOrder: string[] = template?.params_order || [];
+
+    const checkedInAt = new Date(entry.checked_in_at).toLocaleString("pt-BR", {
+      timeZone: "America/Sao_Paulo",
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const visitorLabel = entry.company ? `${entry.visitor_name} (${entry.company})` : entry.visitor_name;
+
+    let sent = 0;
+    for (const resident of residents) {
+      const variables: Record<string, string> = {
+        condominio: sanitizeForWaba(entry.condominium.name),
+        nome: sanitizeForWaba(resident.full_name.split(" ")[0]),
+        visitante: sanitizeForWaba(visitorLabel),
+        tipo: VISITOR_TYPE_LABELS[entry.visitor_type] || entry.visitor_type,
+        unidade: sanitizeForWaba(`${entry.apartment.block.name} - ${entry.apartment.number}`),
+        horario: checkedInAt,
+      };
+
+      let result: MetaSendResult;
+      if (wabaTemplateName && paramsOrder.length > 0) {
+        const { values: bodyParams, names: bodyParamNames } = buildParamsArray(variables, paramsOrder);
+        result = await sendMetaTemplate({
+          phone: resident.phone!,
+          templateName: wabaTemplateName,
+          language: wabaLanguage,
+          bodyParams,
+          bodyParamNames,
+        });
+      } else {
+        // Fallback to text message (will only work within 24h window)
+        const message = Object.entries(variables).reduce(
+          (content, [key, value]) => content.replace(new RegExp(`\\{${key}\\}`, "g"), value),
+          template?.content || `Visitante na portaria: ${variables.visitante} (${variables.tipo}) às ${variables.horario}.`
+        );
+        result = await sendMetaText({ phone: resident.phone!, message });
+      }
+
+      await supabase.from("whatsapp_notification_logs").insert({
+        function_name: "notify-visitor-arrival",
+        phone: resident.phone,
+        resident_id: resident.id,
+        condominium_id: entry.condominium_id,
+        template_name: wabaTemplateName || "visitor_arrival_fallback",
+        template_language: wabaLanguage,
+        success: result.success,
+        message_id: result.messageId || null,
+        error_message: result.error || null,
+        request_payload: result.debug?.payload || { variables, params_order: paramsOrder },
+        response_status: result.debug?.status || null,
+        response_body: typeof result.debug?.response === "string" ? result.debug.response.substring(0, 1000) : null,
+      });
+
+      if (result.success) sent++;
+    }
+
+    if (sent > 0) {
+      await supabase
+        .from("visitor_entries")
+        .update({ resident_notified_at: new Date().toISOString() })
+        .eq("id", entry.id);
+    }
+
+    console.log(`Visitor arrival ${entry.id}: ${sent}/${residents.length} notifications sent`);
+
+    return new Response(
+      JSON.stringify({ success: sent > 0, notifications_sent: sent }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in notify-visitor-arrival:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,389 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendMetaTemplate, isMetaConfigured, buildParamsArray } from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Suggestion only: the síndico decides whether to apply it to the fine
+const MAX_SUGGESTED_MULTIPLIER = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OpenFineRow {
+  id: string;
+  amount: number;
+  status: string;
+  due_date: string;
+  resident_id: string;
+  overdue_notified_at: string | null;
+  suggested_multiplier: number | null;
+  occurrences: {
+    id: string;
+    title: string;
+    condominium_id: string;
+    apartment_id: string | null;
+    internal_rules_article: string | null;
+    occurred_at: string;
+    condominiums: {
+      name: string;
+      fine_late_fee_percent: number;
+      fine_monthly_interest_percent: number;
+      fine_recidivism_window_days: number;
+    } | null;
+  } | null;
+  residents: { full_name: string; phone: string | null } | null;
+}
+
+interface WabaTemplate {
+  waba_template_name: string | null;
+  waba_language: string | null;
+  params_order: string[] | null;
+}
+
+interface FineResult {
+  fineId: string;
+  overdue: boolean;
+  totalDue?: number;
+  suggestedMultiplier?: number;
+  notified?: boolean;
+  error?: string;
+}
+
+const sanitizeForWaba = (text: string): string => {
+  return text
+    .replace(/[\n\r\t]/g, " ")
+    .replace(/\s{4,}/g, "   ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const daysBetween = (fromDate: string, toDate: string) =>
+  Math.round((new Date(toDate + "T00:00:00Z").getTime() - new Date(fromDate + "T00:00:00Z").getTime()) / DAY_MS);
+
+/**
+ * Late charges over the original amount: one-off multa moratória plus
+ * monthly interest pro rata die.
+ */
+function computeLateCharges(fine: OpenFineRow, daysLate: number) {
+  const amount = Number(fine.amount);
+  const rules = fine.occurrences?.condominiums;
+  const lateFeePercent = Number(rules?.fine_late_fee_percent ?? 2);
+  const monthlyInterestPercent = Number(rules?.fine_monthly_interest_percent ?? 1);
+
+  const lateFee = roundCents(amount * lateFeePercent / 100);
+  const interest = roundCents(amount * (monthlyInterestPercent / 100) * (daysLate / 30));
+
+  return { lateFee, interest, totalDue: roundCents(amount + lateFee + interest) };
+}
+
+/**
+ * Counts earlier fines of the same unit (or resident, when the occurrence has no unit)
+ * for the same internal rules article within the condominium's recidivism window.
+ */
+async function countPriorOffenses(supabase: SupabaseClient, fine: OpenFineRow): Promise<number> {
+  const occurrence = fine.occurrences!;
+  if (!occurrence.internal_rules_article) return 0;
+
+  const windowDays = occurrence.condominiums?.fine_recidivism_window_days || 365;
+  const windowStart = new Date(new Date(occurrence.occurred_at).getTime() - windowDays * DAY_MS).toISOString();
+
+  let query = supabase
+    .from("fines")
+    .select("id, occurrences!inner(id)", { count: "exact", head: true })
+    .neq("id", fine.id)
+    .eq("occurrences.condominium_id", occurrence.condominium_id)
+    .eq("occurrences.internal_rules_article", occurrence.internal_rules_article)
+    .gte("occurrences.occurred_at", windowStart)
+    .lt("occurrences.occurred_at", occurrence.occurred_at);
+
+  query = occurrence.apartment_id
+    ? query.eq("occurrences.apartment_id", occurrence.apartment_id)
+    : query.eq("resident_id", fine.resident_id);
+
+  const { count, error } = await query;
+  if (error) throw new Error(`Error counting prior offenses: ${error.message}`);
+  return count || 0;
+}
+
+async function notifyOverdueFine(
+  supabase: SupabaseClient,
+  fine: OpenFineRow,
+  totalDue: number,
+  template: WabaTemplate,
+  appBaseUrl: string,
+): Promise<{ success: boolean; error?: string }> {
+  const occurrence = fine.occurrences!;
+  const resident = fine.residents;
+
+  if (!resident?.phone) return { success: false, error: "No phone" };
+
+  const paramsMap: Record<string, string> = {
+    condominio: sanitizeForWaba(occurrence.condominiums?.name || "Condomínio"),
+    nome: sanitizeForWaba(resident.full_name.split(" ")[0]),
+    titulo: sanitizeForWaba(occurrence.title),
+    vencimento: new Date(fine.due_date + "T00:00:00").toLocaleDateString("pt-BR"),
+    valor: formatCurrency(Number(fine.amount)),
+    valor_atualizado: formatCurrency(totalDue),
+    link: `${appBaseUrl}/resident/occurrences/${occurrence.id}`,
+  };
+
+  const { values: bodyParams, names: bodyParamNames } = buildParamsArray(paramsMap, template.params_order!);
+
+  const sendResult = await sendMetaTemplate({
+    phone: resident.phone,
+    templateName: template.waba_template_name!,
+    language: template.waba_language || "pt_BR",
+    bodyParams,
+    bodyParamNames,
+  });
+
+  await supabase.from("whatsapp_notification_logs").insert({
+    function_name: "process-overdue-fines",
+    phone: resident.phone,
+    template_name: template.waba_template_name,
+    template_language: template.waba_language || "pt_BR",
+    success: sendResult.success,
+    message_id: sendResult.messageId || null,
+    error_message: sendResult.error || null,
+    request_payload: { paramsMap, bodyParams },
+    response_status: sendResult.success ? 200 : 500,
+    condominium_id: occurrence.condominium_id,
+  });
+
+  return { success: sendResult.success, error: sendResult.error };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  let logId: string | null = null;
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: logEntry } = await supabase
+      .from("edge_function_logs")
+      .insert({
+        function_name: "process-overdue-fines",
+        trigger_type: "cron",
+        status: "running",
+        started_at: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+
+    logId = logEntry?.id;
+
+    // Check pause
+    const { data: pauseStatus } = await supabase
+      .from("cron_job_controls")
+      .select("paused")
+      .eq("function_name", "process-overdue-fines")
+      .maybeSingle();
+
+    if (pauseStatus?.paused) {
+      if (logId) {
+        await supabase.from("edge_function_logs").update({
+          status: "skipped", ended_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+          result: { message: "Function is paused" },
+        }).eq("id", logId);
+      }
+      return new Response(
+        JSON.stringify({ success: true, message: "Function is paused" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Today in Brazil (UTC-3)
+    const now = new Date();
+    const brazilOffset = -3 * 60;
+    const localNow = new Date(now.getTime() + (brazilOffset - now.getTimezoneOffset()) * 60 * 1000);
+    const todayStr = localNow.toISOString().split("T")[0];
+
+    console.log(`Processing open fines as of ${todayStr}`);
+
+    const { data: fines, error: finesError } = await supabase
+      .from("fines")
+      .select(`
+        id, amount, status, due_date, resident_id, overdue_notified_at, suggested_multiplier,
+        occurrences!inner(
+          id, title, condominium_id, apartment_id, internal_rules_article, occurred_at,
+          condominiums(name, fine_late_fee_percent, fine_monthly_interest_percent, fine_recidivism_window_days)
+        ),
+        residents(full_name, phone)
+      `)
+      .in("status", ["em_aberto", "vencido"])
+      // Due date is suspended while an appeal is under council vote
+      .is("appeal_suspended_at", null) as { data: OpenFineRow[] | null; error: { message: string } | null };
+
+    if (finesError) throw new Error(`Error fetching fines: ${finesError.message}`);
+
+    if (!fines || fines.length === 0) {
+      if (logId) {
+        await supabase.from("edge_function_logs").update({
+          status: "completed", ended_at: new Date().toISOString(),
+          duration_ms: Date.now() - startTime,
+          result: { message: "No open fines", date: todayStr },
+        }).eq("id", logId);
+      }
+      return new Response(
+        JSON.stringify({ success: true, message: "No open fines" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // WhatsApp is best effort: charges are applied even when the template is not linked yet
+    let wabaTemplate: WabaTemplate | null = null;
+    if (isMetaConfigured()) {
+      const { data } = await supabase
+        .from("whatsapp_templates")
+        .select("waba_template_name, waba_language, params_order")
+        .eq("slug", "fine_overdue")
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (data?.waba_template_name && data?.params_order?.length) {
+        wabaTemplate = data;
+      } else {
+        console.warn("Template WABA 'fine_overdue' não configurado - notificações não serão enviadas");
+      }
+    } else {
+      console.warn("Meta WhatsApp API not configured - notifications will be skipped");
+    }
+
+    const { data: appSettings } = await supabase
+      .from("app_settings")
+      .select("value")
+      .eq("key", "app_url")
+      .maybeSingle();
+
+    const appBaseUrl = (appSettings?.value as string) || "https://notificacondo.lovable.app";
+
+    const results: FineResult[] = [];
+
+    for (const fine of fines) {
+      if (!fine.occurrences) continue;
+
+      try {
+        const updates: Record<string, unknown> = {};
+        const result: FineResult = { fineId: fine.id, overdue: false };
+
+        // ========== RECIDIVISM ==========
+        if (fine.suggested_multiplier === null) {
+          const priorOffenses = await countPriorOffenses(supabase, fine);
+          const suggestedMultiplier = Math.min(priorOffenses + 1, MAX_SUGGESTED_MULTIPLIER);
+          updates.recidivism_count = priorOffenses;
+          updates.suggested_multiplier = suggestedMultiplier;
+          result.suggestedMultiplier = suggestedMultiplier;
+        }
+
+        // ========== LATE CHARGES ==========
+        const daysLate = daysBetween(fine.due_date, todayStr);
+        if (daysLate > 0) {
+          const { lateFee, interest, totalDue } = computeLateCharges(fine, daysLate);
+          updates.status = "vencido";
+          updates.late_fee_amount = lateFee;
+          updates.interest_amount = interest;
+          updates.total_due = totalDue;
+          updates.charges_updated_at = new Date().toISOString();
+          result.overdue = true;
+          result.totalDue = totalDue;
+
+          // ========== NOTIFICATION ==========
+          // Sent once, when the fine first becomes overdue
+          if (!fine.overdue_notified_at && wabaTemplate) {
+            const sendResult = await notifyOverdueFine(supabase, fine, totalDue, wabaTemplate, appBaseUrl);
+            result.notified = sendResult.success;
+            if (sendResult.success) {
+              updates.overdue_notified_at = new Date().toISOString();
+            } else {
+              result.error = sendResult.error;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 500));
+          }
+        }
+
+        if (Object.keys(updates).length > 0) {
+          const { error: updateError } = await supabase
+            .from("fines")
+            .update(updates)
+            .eq("id", fine.id);
+          if (updateError) throw new Error(updateError.message);
+        }
+
+        results.push(result);
+      } catch (fineError) {
+        console.error(`Error processing fine ${fine.id}:`, fineError);
+        results.push({
+          fineId: fine.id,
+          overdue: false,
+          error: fineError instanceof Error ? fineError.message : String(fineError),
+        });
+      }
+    }
+
+    const overdueCount = results.filter(r => r.overdue).length;
+    const notifiedCount = results.filter(r => r.notified).length;
+    const recidivismCount = results.filter(r => (r.suggestedMultiplier || 1) > 1).length;
+    const failureCount = results.filter(r => r.error && r.error !== "No phone").length;
+
+    if (logId) {
+      await supabase.from("edge_function_logs").update({
+        status: failureCount > 0 && failureCount === results.length ? "error" : "completed",
+        ended_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime,
+        result: {
+          date: todayStr,
+          total: fines.length,
+          overdue: overdueCount,
+          notified: notifiedCount,
+          recidivism: recidivismCount,
+          failed: failureCount,
+          details: results,
+        },
+      }).eq("id", logId);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        date: todayStr,
+        overdue: overdueCount,
+        notified: notifiedCount,
+        recidivism: recidivismCount,
+        failed: failureCount,
+        results,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    const message = error instanceof Error ? error.message : "Erro interno do servidor";
+    if (logId) {
+      const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+      await supabase.from("edge_function_logs").update({
+        status: "error", ended_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime, error_message: message,
+      }).eq("id", logId);
+    }
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
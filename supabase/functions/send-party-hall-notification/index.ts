@@ -7,6 +7,14 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// notificationType -> template slug, party_hall_notifications type and history label
+const NOTIFICATION_TYPES: Record<string, { slug: string; historyType: string; label: string }> = {
+  reminder: { slug: "party_hall_reminder", historyType: "reminder", label: "Lembrete" },
+  cancelled: { slug: "party_hall_cancelled", historyType: "cancelled", label: "Cancelamento" },
+  approved: { slug: "party_hall_approved", historyType: "confirmed", label: "Aprovação" },
+  rejected: { slug: "party_hall_rejected", historyType: "rejected", label: "Recusa" },
+};
+
 const sanitizeForWaba = (text: string): string => {
   return text
     .replace(/[\n\r\t]/g, " ")
@@ -59,7 +67,7 @@ serve(async (req) => {
       );
     }
 
-    const validTypes = ["reminder", "cancelled"];
+    const validTypes = Object.keys(NOTIFICATION_TYPES);
     if (!validTypes.includes(notificationType)) {
       return new Response(
         JSON.stringify({ error: `Invalid notificationType. Valid types: ${validTypes.join(", ")}` }),
@@ -71,7 +79,7 @@ serve(async (req) => {
     const { data: booking, error: bookingError } = await supabase
       .from("party_hall_bookings")
       .select(`
-        id, booking_date, start_time, end_time, condominium_id,
+        id, booking_date, start_time, end_time, condominium_id, party_hall_setting_id, rejection_reason,
         resident:residents!inner(id, full_name, phone, email),
         party_hall_setting:party_hall_settings!inner(name),
         condominium:condominiums!inner(id, name, owner_id)
@@ -91,7 +99,11 @@ serve(async (req) => {
     const hallSetting = booking.party_hall_setting as any;
 
     // Check authorization
-    const isOwner = condo.owner_id === user.id;
+    const { data: canManage } = await supabase.rpc("has_condominium_permission", {
+      _user_id: user.id,
+      _condominium_id: condo.id,
+      _permission: "party_hall.manage",
+    });
     const { data: roleCheck } = await supabase
       .from("user_roles")
       .select("role")
@@ -99,7 +111,7 @@ serve(async (req) => {
       .eq("role", "super_admin")
       .maybeSingle();
 
-    if (!isOwner && !roleCheck) {
+    if (!canManage && !roleCheck) {
       return new Response(
         JSON.stringify({ error: "Unauthorized to send notification for this booking" }),
         { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -114,7 +126,8 @@ serve(async (req) => {
     }
 
     // Get template based on notification type
-    const templateSlug = notificationType === "cancelled" ? "party_hall_cancelled" : "party_hall_reminder";
+    const typeConfig = NOTIFICATION_TYPES[notificationType];
+    const templateSlug = typeConfig.slug;
 
     const { data: wabaTemplate } = await supabase
       .from("whatsapp_templates")
@@ -150,6 +163,7 @@ serve(async (req) => {
         .from("party_hall_checklist_templates")
         .select("item_name")
         .eq("condominium_id", booking.condominium_id)
+        .or(`party_hall_setting_id.is.null,party_hall_setting_id.eq.${booking.party_hall_setting_id}`)
         .eq("is_active", true)
         .order("display_order");
 
@@ -167,6 +181,7 @@ serve(async (req) => {
       horario_inicio: booking.start_time.slice(0, 5),
       horario_fim: booking.end_time.slice(0, 5),
       checklist: checklistString,
+      motivo: sanitizeForWaba(booking.rejection_reason || "Não informado"),
     };
 
     const { values: bodyParams, names: bodyParamNames } = buildParamsArray(paramsMap, paramsOrder);
@@ -183,12 +198,12 @@ serve(async (req) => {
     });
 
     // Save to party_hall_notifications
-    const messageContent = `${notificationType === "cancelled" ? "Cancelamento" : "Lembrete"} - ${hallSetting.name} - ${formattedDate}`;
+    const messageContent = `${typeConfig.label} - ${hallSetting.name} - ${formattedDate}`;
     await supabase.from("party_hall_notifications").insert({
       booking_id: bookingId,
       condominium_id: booking.condominium_id,
       resident_id: resident.id,
-      notification_type: notificationType,
+      notification_type: typeConfig.historyType,
       phone: resident.phone,
       message_content: messageContent,
       message_id: result.messageId || null,
@@ -130,13 +130,14 @@ serve(async (req) => {
       );
     }
 
-    const { data: condo } = await supabase
-      .from("condominiums")
-      .select("owner_id")
-      .eq("id", occurrence.condominium_id)
-      .single();
+    // Owner or delegated manager (subsíndico/administradora) allowed to register occurrences
+    const { data: canNotify } = await supabase.rpc("has_condominium_permission", {
+      _user_id: user.id,
+      _condominium_id: occurrence.condominium_id,
+      _permission: "occurrences.register",
+    });
 
-    if (!condo || condo.owner_id !== user.id) {
+    if (!canNotify) {
       // Check if super_admin
       const { data: superAdminRole } = await supabase
         .from("user_roles")
@@ -146,7 +147,7 @@ serve(async (req) => {
         .maybeSingle();
 
       if (!superAdminRole) {
-        console.error(`User ${user.id} is not owner of condominium and not super_admin`);
+        console.error(`User ${user.id} cannot notify in this condominium and is not super_admin`);
         return new Response(
           JSON.stringify({ error: "Sem permissão para enviar notificações neste condomínio" }),
           { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
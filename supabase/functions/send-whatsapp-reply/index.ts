@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendMetaText, isMetaConfigured } from "../_shared/meta-whatsapp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Meta only accepts free-text messages within 24h of the customer's last message
+const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_MESSAGE_LENGTH = 4096;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ========== CHECK META CONFIG ==========
+    if (!isMetaConfigured()) {
+      console.error("Meta WhatsApp not configured");
+      return new Response(
+        JSON.stringify({ error: "Meta WhatsApp não configurado. Configure META_WHATSAPP_PHONE_ID e META_WHATSAPP_ACCESS_TOKEN." }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error("Auth error:", authError);
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== INPUT VALIDATION ==========
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { conversation_id } = body;
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+
+    if (!conversation_id || !message) {
+      return new Response(
+        JSON.stringify({ error: "Dados incompletos: conversation_id e message são obrigatórios" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `A mensagem deve ter no máximo ${MAX_MESSAGE_LENGTH} caracteres` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== FETCH CONVERSATION ==========
+    const { data: conversation, error: convError } = await supabase
+      .from("whatsapp_conversations")
+      .select("id, condominium_id, resident_id, phone, bsuid, last_inbound_at, condominiums(owner_id)")
+      .eq("id", conversation_id)
+      .maybeSingle();
+
+    if (convError || !conversation) {
+      console.error("Conversation not found:", convError);
+      return new Response(
+        JSON.stringify({ error: "Conversa não encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHORIZATION ==========
+    // Porteiro linked to condo, sindico owner, or super_admin
+    const condominium = conversation.condominiums as { owner_id?: string } | null;
+    const isOwner = condominium?.owner_id === user.id;
+
+    const { data: userCondoLink } = conversation.condominium_id
+      ? await supabase
+          .from("user_condominiums")
+          .select("id")
+          .eq("user_id", user.id)
+          .eq("condominium_id", conversation.condominium_id)
+          .maybeSingle()
+      : { data: null };
+
+    const { data: superAdminRole } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "super_admin")
+      .maybeSingle();
+
+    if (!isOwner && !userCondoLink && !superAdminRole) {
+      console.error(`User ${user.id} not authorized for conversation ${conversation_id}`);
+      return new Response(
+        JSON.stringify({ error: "Sem permissão para responder esta conversa" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== 24H WINDOW ==========
+    const lastInbound = conversation.last_inbound_at ? new Date(conversation.last_inbound_at).getTime() : 0;
+    if (Date.now() - lastInbound > CUSTOMER_SERVICE_WINDOW_MS) {
+      return new Response(
+        JSON.stringify({
+          error: "A janela de 24 horas expirou. O morador precisa enviar uma nova mensagem antes de receber respostas livres.",
+          code: "WINDOW_EXPIRED",
+        }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Fetch sender name
+    let senderName = "Equipe";
+    const { data: senderProfile } = await supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (senderProfile?.full_name) {
+      senderName = senderProfile.full_name;
+    }
+
+    // ========== SEND ==========
+    const result = await sendMetaText({
+      phone: conversation.phone,
+      message,
+      bsuid: conversation.bsuid || undefined,
+    });
+
+    const now = new Date().toISOString();
+
+    await supabase.from("whatsapp_messages").insert({
+      conversation_id: conversation.id,
+      direction: "outbound",
+      message_type: "text",
+      content: message,
+      meta_message_id: result.messageId || null,
+      sent_by: user.id,
+      sent_by_name: senderName,
+      status: result.success ? "sent" : "failed",
+      error_message: result.error || null,
+      created_at: now,
+    });
+
+    if (result.success) {
+      await supabase
+        .from("whatsapp_conversations")
+        .update({
+          last_message_at: now,
+          last_message_preview: message.substring(0, 120),
+          unread_count: 0,
+        })
+        .eq("id", conversation.id);
+    }
+
+    // Log to whatsapp_notification_logs (with condominium_id for RLS)
+    await supabase.from("whatsapp_notification_logs").insert({
+      function_name: "send-whatsapp-reply",
+      phone: conversation.phone,
+      resident_id: conversation.resident_id,
+      condominium_id: conversation.condominium_id,
+      template_name: "free_text_reply",
+      success: result.success,
+      message_id: result.messageId,
+      error_message: result.error,
+      request_payload: result.debug?.payload || { conversation_id },
+      response_body: result.debug?.response,
+      response_status: result.debug?.status,
+      debug_info: {
+        sent_by_user_id: user.id,
+        sent_by_name: senderName,
+        conversation_id: conversation.id,
+      },
+    });
+
+    if (!result.success) {
+      console.error(`Reply failed for conversation ${conversation.id}:`, result.error);
+      return new Response(
+        JSON.stringify({ success: false, error: result.error || "Falha ao enviar mensagem" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Reply sent for conversation ${conversation.id} by ${user.id}`);
+
+    return new Response(
+      JSON.stringify({ success: true, message_id: result.messageId }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,262 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  extractInvitationToken,
+  getGuestInvitationStatus,
+  GUEST_INVITATION_STATUS_MESSAGES,
+} from "../_shared/guest-invitation.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InvitationRow {
+  id: string;
+  condominium_id: string;
+  apartment_id: string;
+  guest_name: string;
+  guest_document: string | null;
+  status: string;
+  valid_from: string;
+  valid_until: string;
+  max_uses: number;
+  uses_count: number;
+  apartment: { number: string; block: { name: string; condominium_id: string } };
+  resident: { full_name: string } | null;
+}
+
+/**
+ * Porteiro scan of a guest QR invitation. Every call is logged in guest_invitation_scan_logs;
+ * with `admit: true` a valid invitation consumes one use and records the visitor entry.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== INPUT VALIDATION ==========
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { condominium_id, admit = false } = body;
+    const token = extractInvitationToken(body.token);
+
+    if (!condominium_id) {
+      return new Response(
+        JSON.stringify({ error: "condominium_id é obrigatório" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== AUTHORIZATION ==========
+    const { data: isLinked } = await supabase.rpc("user_belongs_to_condominium", {
+      _user_id: user.id,
+      _condominium_id: condominium_id,
+    });
+    const { data: canManage } = await supabase.rpc("has_condominium_permission", {
+      _user_id: user.id,
+      _condominium_id: condominium_id,
+      _permission: "packages.manage",
+    });
+
+    if (!isLinked && !canManage) {
+      return new Response(
+        JSON.stringify({ error: "Sem permissão para validar convites neste condomínio" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const xForwardedFor = req.headers.get("x-forwarded-for");
+    const clientIp = xForwardedFor
+      ? xForwardedFor.split(",")[0].trim()
+      : (req.headers.get("cf-connecting-ip") || "unknown");
+    const clientUserAgent = req.headers.get("user-agent") || "unknown";
+
+    const logScan = async (values: {
+      token_id: string;
+      invitation_id?: string;
+      success: boolean;
+      admitted?: boolean;
+      error_message?: string;
+    }) => {
+      await supabase.from("guest_invitation_scan_logs").insert({
+        ...values,
+        condominium_id,
+        scanned_by: user.id,
+        ip_address: clientIp,
+        user_agent: clientUserAgent,
+      });
+    };
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ valid: false, error: "QR Code não é um convite válido" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== LOOKUP ==========
+    const { data, error: invitationError } = await supabase
+      .from("guest_invitations")
+      .select(`
+        id, condominium_id, apartment_id, guest_name, guest_document, status, valid_from, valid_until,
+        max_uses, uses_count,
+        apartment:apartments!inner(number, block:blocks!inner(name, condominium_id)),
+        resident:residents(full_name)
+      `)
+      .eq("token", token)
+      .maybeSingle();
+
+    if (invitationError || !data) {
+      await logScan({ token_id: token, success: false, error_message: "Convite não encontrado" });
+      return new Response(
+        JSON.stringify({ valid: false, error: "Convite não encontrado" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const invitation = data as unknown as InvitationRow;
+
+    // The unit's condominium, not the column written by the resident when creating the invitation
+    if (invitation.apartment.block.condominium_id !== condominium_id) {
+      await logScan({ token_id: token, invitation_id: invitation.id, success: false, error_message: "Convite de outro condomínio" });
+      return new Response(
+        JSON.stringify({ valid: false, error: "Este convite é de outro condomínio" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const status = getGuestInvitationStatus(invitation);
+    const details = {
+      invitation_id: invitation.id,
+      guest_name: invitation.guest_name,
+      guest_document: invitation.guest_document,
+      resident_name: invitation.resident?.full_name || null,
+      block_name: invitation.apartment.block.name,
+      apartment_number: invitation.apartment.number,
+      valid_from: invitation.valid_from,
+      valid_until: invitation.valid_until,
+      max_uses: invitation.max_uses,
+      remaining_uses: Math.max(invitation.max_uses - invitation.uses_count, 0),
+      status,
+    };
+
+    if (status !== "valido") {
+      await logScan({
+        token_id: token,
+        invitation_id: invitation.id,
+        success: false,
+        error_message: GUEST_INVITATION_STATUS_MESSAGES[status],
+      });
+      return new Response(
+        JSON.stringify({ valid: false, error: GUEST_INVITATION_STATUS_MESSAGES[status], ...details }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!admit) {
+      await logScan({ token_id: token, invitation_id: invitation.id, success: true });
+      return new Response(
+        JSON.stringify({ valid: true, ...details }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== ADMIT ==========
+    // Compare-and-set on uses_count so two simultaneous scans cannot both consume the last use
+    const { data: consumed } = await supabase
+      .from("guest_invitations")
+      .update({ uses_count: invitation.uses_count + 1 })
+      .eq("id", invitation.id)
+      .eq("uses_count", invitation.uses_count)
+      .select("id")
+      .maybeSingle();
+
+    if (!consumed) {
+      await logScan({ token_id: token, invitation_id: invitation.id, success: false, error_message: "Convite utilizado simultaneamente" });
+      return new Response(
+        JSON.stringify({ valid: false, error: "Convite acabou de ser utilizado. Leia o QR Code novamente." }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: entry, error: entryError } = await supabase
+      .from("visitor_entries")
+      .insert({
+        condominium_id,
+        apartment_id: invitation.apartment_id,
+        guest_invitation_id: invitation.id,
+        visitor_type: "visitante",
+        visitor_name: invitation.guest_name,
+        visitor_document: invitation.guest_document,
+        checked_in_by: user.id,
+      })
+      .select("id")
+      .single();
+
+    if (entryError) {
+      console.error("Error recording visitor entry:", entryError);
+      // Give the use back; the guest is still at the gate
+      await supabase
+        .from("guest_invitations")
+        .update({ uses_count: invitation.uses_count })
+        .eq("id", invitation.id)
+        .eq("uses_count", invitation.uses_count + 1);
+      return new Response(
+        JSON.stringify({ error: "Erro ao registrar a entrada" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await logScan({ token_id: token, invitation_id: invitation.id, success: true, admitted: true });
+
+    console.log(`Guest invitation ${invitation.id} admitted by ${user.id}, entry ${entry.id}`);
+
+    return new Response(
+      JSON.stringify({
+        valid: true,
+        admitted: true,
+        entry_id: entry.id,
+        ...details,
+        remaining_uses: details.remaining_uses - 1,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in validate-guest-invitation:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Erro interno" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
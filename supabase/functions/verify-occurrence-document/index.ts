@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DocumentRow {
+  verification_code: string;
+  document_type: string;
+  content_hash: string;
+  occurrence_status: string;
+  issued_at: string;
+  occurrences: { type: string; status: string; occurred_at: string } | null;
+  condominiums: { name: string } | null;
+}
+
+/**
+ * Public endpoint behind the QR code of formal occurrence notices.
+ * Only returns what is needed to confirm authenticity - no resident data.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ========== INPUT VALIDATION ==========
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ valid: false, error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const code = typeof body.code === "string" ? body.code.trim().toUpperCase() : "";
+    const hash = typeof body.hash === "string" ? body.hash.trim().toLowerCase() : "";
+
+    if (!/^[0-9A-F]{12}$/.test(code)) {
+      return new Response(
+        JSON.stringify({ valid: false, error: "Código de verificação inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ========== FETCH DOCUMENT ==========
+    const { data: document, error } = await supabase
+      .from("occurrence_documents")
+      .select(`
+        verification_code, document_type, content_hash, occurrence_status, issued_at,
+        occurrences(type, status, occurred_at),
+        condominiums(name)
+      `)
+      .eq("verification_code", code)
+      .maybeSingle() as { data: DocumentRow | null; error: unknown };
+
+    if (error) {
+      console.error("Error fetching document:", error);
+      throw new Error("Erro ao consultar o documento");
+    }
+
+    if (!document) {
+      return new Response(
+        JSON.stringify({ valid: false, error: "Documento não encontrado" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Document ${code} verified (hash provided: ${!!hash})`);
+
+    return new Response(
+      JSON.stringify({
+        valid: true,
+        verification_code: document.verification_code,
+        document_type: document.document_type,
+        issued_at: document.issued_at,
+        content_hash: document.content_hash,
+        // null when the QR code/link did not carry a hash to compare
+        hash_matches: hash ? hash === document.content_hash : null,
+        status_at_issue: document.occurrence_status,
+        current_status: document.occurrences?.status || null,
+        occurrence_type: document.occurrences?.type || null,
+        occurred_at: document.occurrences?.occurred_at || null,
+        condominium_name: document.condominiums?.name || null,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Unexpected error in verify-occurrence-document:", error);
+    return new Response(
+      JSON.stringify({ valid: false, error: error instanceof Error ? error.message : "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,4 +1,8 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendMetaText, isMetaConfigured } from "../_shared/meta-whatsapp.ts";
+import { parsePackagePayload, parseThirdPartyDetails, type PackagePickupIntent } from "../_shared/package-quick-replies.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,6 +23,7 @@ interface MetaWebhookEntry {
         wa_id?: string;
         user_id?: string;
       }>;
+      messages?: Array<MetaInboundMessage>;
       statuses?: Array<{
         id: string;
         status: string;
@@ -47,11 +52,65 @@ interface MetaWebhookEntry {
   }>;
 }
 
+interface MetaInboundMessage {
+  id: string;
+  from: string;
+  from_user_id?: string;
+  timestamp: string;
+  type: string;
+  context?: { id?: string; from?: string };
+  text?: { body: string };
+  button?: { text: string; payload?: string };
+  interactive?: {
+    type: string;
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  image?: { id: string; mime_type?: string; caption?: string };
+  video?: { id: string; mime_type?: string; caption?: string };
+  audio?: { id: string; mime_type?: string };
+  document?: { id: string; mime_type?: string; caption?: string; filename?: string };
+  sticker?: { id: string; mime_type?: string };
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  reaction?: { message_id: string; emoji?: string };
+}
+
 interface MetaWebhookPayload {
   object: string;
   entry: MetaWebhookEntry[];
 }
 
+/**
+ * Checks the X-Hub-Signature-256 header Meta sends with every event: the HMAC-SHA256
+ * of the raw body keyed with the app secret.
+ */
+async function verifyMetaSignature(rawBody: string, signatureHeader: string | null): Promise<boolean> {
+  const appSecret = Deno.env.get("META_APP_SECRET");
+  if (!appSecret || !signatureHeader?.startsWith("sha256=")) return false;
+
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(appSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(rawBody));
+  const expected = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  const received = signatureHeader.slice("sha256=".length).toLowerCase();
+
+  // Constant-time comparison
+  if (received.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 function normalizeMetaStatus(status: string): string {
   const statusMap: Record<string, string> = {
     accepted: "accepted",
@@ -67,6 +126,408 @@ function formatErrors(errors: Array<{ code: number; title: string; message?: str
   return errors.map(e => `[${e.code}] ${e.title}${e.message ? ': ' + e.message : ''}`).join(' | ');
 }
 
+function getPhoneVariants(phone: string): string[] {
+  const cleanPhone = phone.replace(/\D/g, "");
+  const variants = [cleanPhone];
+  if (cleanPhone.startsWith("55")) {
+    variants.push(cleanPhone.substring(2));
+  }
+  return variants;
+}
+
+/**
+ * Extract the readable content of an inbound message according to its type.
+ * Media messages only carry the Meta media id; the caption (if any) is used as content.
+ */
+function extractInboundContent(message: MetaInboundMessage): {
+  content: string | null;
+  buttonPayload: string | null;
+  mediaId: string | null;
+  mediaMimeType: string | null;
+} {
+  const result = { content: null as string | null, buttonPayload: null as string | null, mediaId: null as string | null, mediaMimeType: null as string | null };
+
+  switch (message.type) {
+    case "text":
+      result.content = message.text?.body || null;
+      break;
+    case "button":
+      result.content = message.button?.text || null;
+      result.buttonPayload = message.button?.payload || null;
+      break;
+    case "interactive": {
+      const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+      result.content = reply?.title || null;
+      result.buttonPayload = reply?.id || null;
+      break;
+    }
+    case "image":
+    case "video":
+    case "audio":
+    case "document":
+    case "sticker": {
+      const media = message[message.type] as { id: string; mime_type?: string; caption?: string } | undefined;
+      result.mediaId = media?.id || null;
+      result.mediaMimeType = media?.mime_type || null;
+      result.content = media?.caption || null;
+      break;
+    }
+    case "location":
+      result.content = message.location
+        ? `📍 ${message.location.name || message.location.address || `${message.location.latitude}, ${message.location.longitude}`}`
+        : null;
+      break;
+    case "reaction":
+      result.content = message.reaction?.emoji || null;
+      break;
+  }
+
+  return result;
+}
+
+function buildPreview(type: string, content: string | null): string {
+  if (content) return content.substring(0, 120);
+  const labels: Record<string, string> = {
+    image: "📷 Imagem",
+    video: "🎥 Vídeo",
+    audio: "🎤 Áudio",
+    document: "📄 Documento",
+    sticker: "Figurinha",
+  };
+  return labels[type] || "Mensagem";
+}
+
+/**
+ * Find the resident who sent an inbound message.
+ * Priority: BSUID > phone number (with and without country code)
+ */
+async function findResidentForInbound(
+  supabase: SupabaseClient,
+  phone: string,
+  bsuid: string | null
+): Promise<{ id: string; full_name: string; apartment_id: string } | null> {
+  if (bsuid) {
+    const { data } = await supabase
+      .from("residents")
+      .select("id, full_name, apartment_id")
+      .eq("bsuid", bsuid)
+      .maybeSingle();
+    if (data) return data;
+  }
+
+  for (const phoneVar of getPhoneVariants(phone)) {
+    const { data } = await supabase
+      .from("residents")
+      .select("id, full_name, apartment_id")
+      .like("phone", `%${phoneVar}`)
+      .order("created_at", { ascending: false })
+      .limit(1);
+    if (data && data.length > 0) return data[0];
+  }
+
+  return null;
+}
+
+/**
+ * Link an inbound message to the notification it answers.
+ * Uses the quoted message (context.id) when present, otherwise the most recent
+ * occurrence notification or package notification sent to the resident.
+ */
+async function findLinkedNotification(
+  supabase: SupabaseClient,
+  residentId: string | null,
+  contextMessageId: string | null
+): Promise<{ residentId: string | null; notificationId: string | null; packageId: string | null }> {
+  if (contextMessageId) {
+    const { data: notification } = await supabase
+      .from("notifications_sent")
+      .select("id, resident_id")
+      .eq("zpro_message_id", contextMessageId)
+      .maybeSingle();
+    if (notification) {
+      return { residentId: notification.resident_id, notificationId: notification.id, packageId: null };
+    }
+
+    const { data: packageLog } = await supabase
+      .from("whatsapp_notification_logs")
+      .select("resident_id, package_id")
+      .eq("message_id", contextMessageId)
+      .not("package_id", "is", null)
+      .maybeSingle();
+    if (packageLog) {
+      return { residentId: packageLog.resident_id || residentId, notificationId: null, packageId: packageLog.package_id };
+    }
+  }
+
+  if (!residentId) {
+    return { residentId: null, notificationId: null, packageId: null };
+  }
+
+  const [{ data: lastNotification }, { data: lastPackageLog }] = await Promise.all([
+    supabase
+      .from("notifications_sent")
+      .select("id, sent_at")
+      .eq("resident_id", residentId)
+      .order("sent_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("whatsapp_notification_logs")
+      .select("package_id, created_at")
+      .eq("resident_id", residentId)
+      .eq("success", true)
+      .not("package_id", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const notificationTime = lastNotification ? new Date(lastNotification.sent_at).getTime() : 0;
+  const packageTime = lastPackageLog ? new Date(lastPackageLog.created_at).getTime() : 0;
+
+  if (packageTime > notificationTime) {
+    return { residentId, notificationId: null, packageId: lastPackageLog.package_id };
+  }
+
+  return { residentId, notificationId: lastNotification?.id || null, packageId: null };
+}
+
+/**
+ * Condominium of a sender who is not a registered resident, taken from the last
+ * WhatsApp notification sent to that number.
+ */
+async function findCondominiumForPhone(supabase: SupabaseClient, phone: string): Promise<string | null> {
+  for (const phoneVar of getPhoneVariants(phone)) {
+    const { data } = await supabase
+      .from("whatsapp_notification_logs")
+      .select("condominium_id")
+      .like("phone", `%${phoneVar}`)
+      .not("condominium_id", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (data) return data.condominium_id;
+  }
+
+  return null;
+}
+
+async function getOrCreateConversation(
+  supabase: SupabaseClient,
+  params: { phone: string; bsuid: string | null; contactName: string | null; residentId: string | null }
+): Promise<{ id: string } | null> {
+  let query = supabase
+    .from("whatsapp_conversations")
+    .select("id, condominium_id");
+
+  query = params.residentId
+    ? query.eq("resident_id", params.residentId)
+    : query.eq("phone", params.phone).is("resident_id", null);
+
+  const { data: existing } = await query.limit(1).maybeSingle();
+  if (existing?.condominium_id) return existing;
+
+  let condominiumId: string | null = null;
+  if (params.residentId) {
+    const { data: resident } = await supabase
+      .from("residents")
+      .select("apartments!inner(blocks!inner(condominium_id))")
+      .eq("id", params.residentId)
+      .maybeSingle();
+    const apartment = resident?.apartments as { blocks?: { condominium_id?: string } } | undefined;
+    condominiumId = apartment?.blocks?.condominium_id || null;
+  } else {
+    condominiumId = await findCondominiumForPhone(supabase, params.phone);
+  }
+
+  // Conversations without a condominium are not visible in any inbox
+  if (!condominiumId) {
+    console.warn(`[WEBHOOK] No condominium found for sender ${params.phone}`);
+  }
+
+  if (existing) {
+    if (condominiumId) {
+      await supabase.from("whatsapp_conversations").update({ condominium_id: condominiumId }).eq("id", existing.id);
+    }
+    return existing;
+  }
+
+  const { data: created, error } = await supabase
+    .from("whatsapp_conversations")
+    .insert({
+      condominium_id: condominiumId,
+      resident_id: params.residentId,
+      phone: params.phone,
+      bsuid: params.bsuid,
+      contact_name: params.contactName,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("[WEBHOOK] Error creating conversation:", error);
+    return null;
+  }
+
+  return created;
+}
+
+// Residents have this long to send the third party's details after tapping "Autorizar terceiro"
+const THIRD_PARTY_DETAILS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const PICKUP_INTENT_REPLIES: Record<PackagePickupIntent, string> = {
+  retirar_hoje: "Perfeito! Avisamos a portaria que você vai retirar sua encomenda hoje. 📦",
+  autorizar_terceiro:
+    "Certo! Envie em uma única mensagem o *nome completo* e o *CPF* da pessoa autorizada a retirar a encomenda.\n\nExemplo: Maria Souza 123.456.789-09",
+  deixar_zelador: "Combinado! Sua encomenda ficará com o zelador. A portaria já foi avisada. 📦",
+};
+
+function maskCpf(cpf: string): string {
+  return `***.${cpf.substring(3, 6)}.${cpf.substring(6, 9)}-**`;
+}
+
+/**
+ * Handle the package arrival quick replies and the follow-up message with the
+ * third party's name/CPF. Returns the automatic reply to send, if any.
+ */
+async function handlePackageReply(
+  supabase: SupabaseClient,
+  resident: { id: string; apartment_id: string },
+  buttonPayload: string | null,
+  text: string | null
+): Promise<{ reply: string; packageId: string } | null> {
+  const parsed = parsePackagePayload(buttonPayload);
+
+  if (parsed) {
+    const { data: pkg } = await supabase
+      .from("packages")
+      .select("id, apartment_id, status")
+      .eq("id", parsed.packageId)
+      .maybeSingle();
+
+    if (!pkg || pkg.apartment_id !== resident.apartment_id) {
+      console.warn(`[WEBHOOK] Package ${parsed.packageId} not found for resident ${resident.id}`);
+      return null;
+    }
+
+    if (pkg.status !== "pendente") {
+      return { reply: "Esta encomenda já foi retirada. Se tiver dúvidas, fale com a portaria.", packageId: pkg.id };
+    }
+
+    const { error } = await supabase
+      .from("packages")
+      .update({
+        pickup_intent: parsed.intent,
+        pickup_intent_at: new Date().toISOString(),
+        // A new choice always replaces any previous authorization
+        authorized_pickup_name: null,
+        authorized_pickup_cpf: null,
+        authorized_pickup_at: null,
+        authorized_by_resident_id: null,
+      })
+      .eq("id", pkg.id);
+
+    if (error) {
+      console.error(`[WEBHOOK] Error saving pickup intent for package ${pkg.id}:`, error);
+      return null;
+    }
+
+    console.log(`[WEBHOOK] Package ${pkg.id} pickup intent: ${parsed.intent}`);
+    return { reply: PICKUP_INTENT_REPLIES[parsed.intent], packageId: pkg.id };
+  }
+
+  if (!text) return null;
+
+  // Free text right after "Autorizar terceiro" is expected to carry the third party's details
+  const { data: awaitingPackage } = await supabase
+    .from("packages")
+    .select("id")
+    .eq("apartment_id", resident.apartment_id)
+    .eq("status", "pendente")
+    .eq("pickup_intent", "autorizar_terceiro")
+    .is("authorized_pickup_cpf", null)
+    .gte("pickup_intent_at", new Date(Date.now() - THIRD_PARTY_DETAILS_WINDOW_MS).toISOString())
+    .order("pickup_intent_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!awaitingPackage) return null;
+
+  const details = parseThirdPartyDetails(text);
+  if (!details) {
+    return {
+      reply: "Não consegui identificar o nome e um CPF válido. Envie novamente no formato:\n\nMaria Souza 123.456.789-09",
+      packageId: awaitingPackage.id,
+    };
+  }
+
+  const { error } = await supabase
+    .from("packages")
+    .update({
+      authorized_pickup_name: details.name,
+      authorized_pickup_cpf: details.cpf,
+      authorized_pickup_at: new Date().toISOString(),
+      authorized_by_resident_id: resident.id,
+    })
+    .eq("id", awaitingPackage.id);
+
+  if (error) {
+    console.error(`[WEBHOOK] Error saving authorized pickup for package ${awaitingPackage.id}:`, error);
+    return null;
+  }
+
+  console.log(`[WEBHOOK] Package ${awaitingPackage.id} authorized for third party pickup`);
+  return {
+    reply: `Pronto! *${details.name}* (CPF ${maskCpf(details.cpf)}) está autorizado(a) a retirar sua encomenda. A portaria vai conferir o documento na retirada.`,
+    packageId: awaitingPackage.id,
+  };
+}
+
+/**
+ * Send an automatic reply inside the conversation and record it as an outbound message
+ */
+async function sendAutoReply(
+  supabase: SupabaseClient,
+  conversation: { id: string },
+  recipient: { phone: string; bsuid: string | null },
+  reply: { reply: string; packageId: string }
+): Promise<void> {
+  if (!isMetaConfigured()) {
+    console.warn("[WEBHOOK] Meta WhatsApp not configured, skipping automatic reply");
+    return;
+  }
+
+  const result = await sendMetaText({
+    phone: recipient.phone,
+    message: reply.reply,
+    bsuid: recipient.bsuid || undefined,
+  });
+
+  const now = new Date().toISOString();
+
+  await supabase.from("whatsapp_messages").insert({
+    conversation_id: conversation.id,
+    direction: "outbound",
+    message_type: "text",
+    content: reply.reply,
+    meta_message_id: result.messageId || null,
+    package_id: reply.packageId,
+    sent_by_name: "Resposta automática",
+    status: result.success ? "sent" : "failed",
+    error_message: result.error || null,
+    created_at: now,
+  });
+
+  if (result.success) {
+    await supabase
+      .from("whatsapp_conversations")
+      .update({ last_message_at: now, last_message_preview: reply.reply.substring(0, 120) })
+      .eq("id", conversation.id);
+  } else {
+    console.error(`[WEBHOOK] Automatic reply failed for conversation ${conversation.id}:`, result.error);
+  }
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -97,7 +558,14 @@ Deno.serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const payload: MetaWebhookPayload = await req.json();
+    // Inbound messages change packages and feed the inbox: only Meta may post here
+    const rawBody = await req.text();
+    if (!(await verifyMetaSignature(rawBody, req.headers.get("x-hub-signature-256")))) {
+      console.warn("[WEBHOOK] Rejected - invalid or missing X-Hub-Signature-256");
+      return new Response("Invalid signature", { status: 401, headers: corsHeaders });
+    }
+
+    const payload: MetaWebhookPayload = JSON.parse(rawBody);
     console.log("[WEBHOOK] Received:", JSON.stringify(payload).substring(0, 500));
 
     // Save raw payload
@@ -121,6 +589,7 @@ Deno.serve(async (req) => {
     let totalBsuidsCapured = 0;
     let totalStatuses = 0;
     let totalErrors = 0;
+    let totalMessages = 0;
 
     for (const entry of payload.entry) {
       for (const change of entry.changes) {
@@ -133,6 +602,81 @@ Deno.serve(async (req) => {
         const contactBsuid = contacts.length > 0 ? contacts[0].user_id : null;
         const contactWaId = contacts.length > 0 ? contacts[0].wa_id : null;
 
+        // ========== INBOUND MESSAGES ==========
+        const inboundMessages = change.value.messages || [];
+        totalMessages += inboundMessages.length;
+
+        for (const message of inboundMessages) {
+          const senderPhone = (message.from || contactWaId || "").replace(/\D/g, "");
+          const senderBsuid = message.from_user_id || contactBsuid || null;
+          const contactName = contacts[0]?.profile?.name || null;
+          const { content, buttonPayload, mediaId, mediaMimeType } = extractInboundContent(message);
+          const contextMessageId = message.context?.id || null;
+
+          console.log(`[WEBHOOK] Inbound ${message.type} from ${senderPhone} | bsuid: ${senderBsuid || "none"} | msgId: ${message.id}`);
+
+          const resident = await findResidentForInbound(supabase, senderPhone, senderBsuid);
+          const link = await findLinkedNotification(supabase, resident?.id || null, contextMessageId);
+
+          const conversation = await getOrCreateConversation(supabase, {
+            phone: senderPhone,
+            bsuid: senderBsuid,
+            contactName: contactName || resident?.full_name || null,
+            residentId: link.residentId,
+          });
+
+          if (!conversation) continue;
+
+          const receivedAt = message.timestamp
+            ? new Date(Number(message.timestamp) * 1000).toISOString()
+            : new Date().toISOString();
+
+          const { error: msgError } = await supabase
+            .from("whatsapp_messages")
+            .insert({
+              conversation_id: conversation.id,
+              direction: "inbound",
+              message_type: message.type,
+              content,
+              button_payload: buttonPayload,
+              media_id: mediaId,
+              media_mime_type: mediaMimeType,
+              meta_message_id: message.id,
+              context_message_id: contextMessageId,
+              notification_id: link.notificationId,
+              package_id: link.packageId,
+              status: "received",
+              created_at: receivedAt,
+            });
+
+          if (msgError) {
+            // Duplicate deliveries from Meta hit the unique index on meta_message_id
+            console.error(`[WEBHOOK] Error saving inbound message ${message.id}:`, msgError);
+            continue;
+          }
+
+          // Incremented in SQL so concurrent deliveries don't lose unread messages
+          await supabase.rpc("register_whatsapp_inbound", {
+            p_conversation_id: conversation.id,
+            p_received_at: receivedAt,
+            p_preview: buildPreview(message.type, content),
+            p_bsuid: senderBsuid,
+          });
+
+          // ========== PACKAGE QUICK REPLIES ==========
+          if (resident) {
+            const autoReply = await handlePackageReply(
+              supabase,
+              resident,
+              buttonPayload,
+              message.type === "text" ? content : null
+            );
+            if (autoReply) {
+              await sendAutoReply(supabase, conversation, { phone: senderPhone, bsuid: senderBsuid }, autoReply);
+            }
+          }
+        }
+
         for (const status of statuses) {
           const messageId = status.id;
           const normalizedStatus = normalizeMetaStatus(status.status);
@@ -204,15 +748,16 @@ Deno.serve(async (req) => {
             .update(logUpdate)
             .eq("message_id", messageId);
 
+          // Keep inbox replies in sync with delivery status
+          await supabase
+            .from("whatsapp_messages")
+            .update({ status: normalizedStatus, ...(errorText ? { error_message: errorText } : {}) })
+            .eq("meta_message_id", messageId)
+            .eq("direction", "outbound");
+
           // Capture BSUID if present
           if (bsuid && recipientPhone) {
-            const cleanPhone = recipientPhone.replace(/\D/g, "");
-            const phoneVariants = [cleanPhone];
-            if (cleanPhone.startsWith("55")) {
-              phoneVariants.push(cleanPhone.substring(2));
-            }
-
-            for (const phoneVar of phoneVariants) {
+            for (const phoneVar of getPhoneVariants(recipientPhone)) {
               const { data: residents, error: findError } = await supabase
                 .from("residents")
                 .select("id, bsuid")
@@ -248,16 +793,18 @@ Deno.serve(async (req) => {
           statuses_count: totalStatuses,
           bsuids_captured: totalBsuidsCapured,
           notifications_updated: totalUpdated,
+          messages_count: totalMessages,
         })
         .eq("id", rawLogId);
     }
 
-    console.log(`[WEBHOOK] Processing complete: ${totalUpdated} notifications updated, ${totalBsuidsCapured} BSUIDs captured, ${totalErrors} errors saved`);
+    console.log(`[WEBHOOK] Processing complete: ${totalUpdated} notifications updated, ${totalMessages} messages received, ${totalBsuidsCapured} BSUIDs captured, ${totalErrors} errors saved`);
 
     return new Response(
       JSON.stringify({
         success: true,
         updated: totalUpdated,
+        messages_received: totalMessages,
         bsuids_captured: totalBsuidsCapured,
         errors_saved: totalErrors,
       }),
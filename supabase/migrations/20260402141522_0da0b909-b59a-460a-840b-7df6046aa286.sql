@@ -0,0 +1,113 @@
+-- =============================================
+-- CAIXA DE ENTRADA WHATSAPP - Conversas com moradores
+-- =============================================
+
+-- 1. Conversas (uma por morador ou, quando não identificado, por telefone)
+CREATE TABLE public.whatsapp_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  condominium_id uuid REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  resident_id uuid REFERENCES public.residents(id) ON DELETE SET NULL,
+  phone text NOT NULL,
+  bsuid text,
+  contact_name text,
+  last_message_at timestamptz NOT NULL DEFAULT now(),
+  last_message_preview text,
+  last_inbound_at timestamptz,
+  unread_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_whatsapp_conversations_condominium ON public.whatsapp_conversations (condominium_id, last_message_at DESC);
+CREATE INDEX idx_whatsapp_conversations_resident ON public.whatsapp_conversations (resident_id);
+CREATE INDEX idx_whatsapp_conversations_phone ON public.whatsapp_conversations (phone);
+
+ALTER TABLE public.whatsapp_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can manage conversations of own condominiums"
+  ON public.whatsapp_conversations FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = whatsapp_conversations.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view conversations of assigned condominiums"
+  ON public.whatsapp_conversations FOR SELECT
+  TO authenticated
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Porters can update conversations of assigned condominiums"
+  ON public.whatsapp_conversations FOR UPDATE
+  TO authenticated
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Super admins can manage all conversations"
+  ON public.whatsapp_conversations FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_whatsapp_conversations_updated_at
+  BEFORE UPDATE ON public.whatsapp_conversations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Mensagens (recebidas pelo webhook e respostas enviadas pela equipe)
+CREATE TABLE public.whatsapp_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES public.whatsapp_conversations(id) ON DELETE CASCADE,
+  direction text NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  message_type text NOT NULL DEFAULT 'text',
+  content text,
+  button_payload text,
+  media_id text,
+  media_mime_type text,
+  meta_message_id text,
+  context_message_id text,
+  notification_id uuid REFERENCES public.notifications_sent(id) ON DELETE SET NULL,
+  package_id uuid REFERENCES public.packages(id) ON DELETE SET NULL,
+  sent_by uuid,
+  sent_by_name text,
+  status text NOT NULL DEFAULT 'received',
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_whatsapp_messages_conversation ON public.whatsapp_messages (conversation_id, created_at);
+CREATE UNIQUE INDEX idx_whatsapp_messages_meta_id ON public.whatsapp_messages (meta_message_id) WHERE meta_message_id IS NOT NULL;
+
+ALTER TABLE public.whatsapp_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can view messages of own condominiums"
+  ON public.whatsapp_messages FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.whatsapp_conversations wc
+    JOIN public.condominiums c ON c.id = wc.condominium_id
+    WHERE wc.id = whatsapp_messages.conversation_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view messages of assigned condominiums"
+  ON public.whatsapp_messages FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.whatsapp_conversations wc
+    WHERE wc.id = whatsapp_messages.conversation_id
+      AND public.user_belongs_to_condominium(auth.uid(), wc.condominium_id)
+  ));
+
+CREATE POLICY "Super admins can view all messages"
+  ON public.whatsapp_messages FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Service role can insert messages"
+  ON public.whatsapp_messages FOR INSERT TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update messages"
+  ON public.whatsapp_messages FOR UPDATE TO service_role
+  USING (true);
+
+-- 3. Contador de mensagens recebidas no log bruto do webhook
+ALTER TABLE public.webhook_raw_logs
+  ADD COLUMN IF NOT EXISTS messages_count int DEFAULT 0;
+
+-- 4. Realtime para a caixa de entrada
+ALTER PUBLICATION supabase_realtime ADD TABLE public.whatsapp_conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.whatsapp_messages;
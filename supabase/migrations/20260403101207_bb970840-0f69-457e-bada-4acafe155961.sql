@@ -0,0 +1,18 @@
+-- =============================================
+-- ENCOMENDAS - Respostas rápidas e retirada por terceiro autorizado
+-- =============================================
+
+-- Opção escolhida pelo morador nos botões da notificação de chegada
+ALTER TABLE public.packages
+  ADD COLUMN pickup_intent text
+    CHECK (pickup_intent IN ('retirar_hoje', 'autorizar_terceiro', 'deixar_zelador')),
+  ADD COLUMN pickup_intent_at timestamptz,
+  -- Terceiro autorizado pelo morador via WhatsApp (conferido pela portaria na retirada)
+  ADD COLUMN authorized_pickup_name text,
+  ADD COLUMN authorized_pickup_cpf text,
+  ADD COLUMN authorized_pickup_at timestamptz,
+  ADD COLUMN authorized_by_resident_id uuid REFERENCES public.residents(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_packages_pickup_intent
+  ON public.packages (apartment_id, pickup_intent_at DESC)
+  WHERE status = 'pendente' AND pickup_intent IS NOT NULL;
@@ -0,0 +1,87 @@
+-- =============================================
+-- MULTAS - Pagamento via PIX (Mercado Pago do condomínio)
+-- =============================================
+
+-- 1. Credenciais Mercado Pago de cada condomínio (recebimento das multas vai direto para a conta do condomínio)
+CREATE TABLE public.condominium_mercadopago_config (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  condominium_id uuid NOT NULL UNIQUE REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  access_token_encrypted text NOT NULL,
+  public_key text,
+  webhook_secret text,
+  is_sandbox boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.condominium_mercadopago_config ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can manage mercadopago config of own condominiums"
+  ON public.condominium_mercadopago_config FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_mercadopago_config.condominium_id AND c.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_mercadopago_config.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Super admins can view condominium mercadopago config"
+  ON public.condominium_mercadopago_config FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_condominium_mercadopago_config_updated_at
+  BEFORE UPDATE ON public.condominium_mercadopago_config
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Cobranças PIX geradas para multas
+CREATE TABLE public.fine_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  fine_id uuid NOT NULL REFERENCES public.fines(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  resident_id uuid REFERENCES public.residents(id) ON DELETE SET NULL,
+  provider text NOT NULL DEFAULT 'mercadopago',
+  provider_payment_id text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  amount numeric(10,2) NOT NULL,
+  qr_code text,
+  qr_code_base64 text,
+  ticket_url text,
+  expires_at timestamptz,
+  paid_at timestamptz,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_fine_payments_provider_payment ON public.fine_payments (provider, provider_payment_id);
+CREATE INDEX idx_fine_payments_fine ON public.fine_payments (fine_id, created_at DESC);
+
+ALTER TABLE public.fine_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can view fine payments of own condominiums"
+  ON public.fine_payments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = fine_payments.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can view own fine payments"
+  ON public.fine_payments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.fines f
+    JOIN public.residents r ON r.id = f.resident_id
+    WHERE f.id = fine_payments.fine_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Super admins can view all fine payments"
+  ON public.fine_payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_fine_payments_updated_at
+  BEFORE UPDATE ON public.fine_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,54 @@
+-- =============================================
+-- MULTAS - Vencimento, encargos moratórios e reincidência
+-- =============================================
+
+-- 1. Regras de encargos por condomínio
+-- Multa moratória limitada a 2% (Código Civil, art. 1.336 §1º); juros ao mês pro rata die
+ALTER TABLE public.condominiums
+  ADD COLUMN fine_late_fee_percent numeric(5,2) NOT NULL DEFAULT 2
+    CHECK (fine_late_fee_percent >= 0 AND fine_late_fee_percent <= 100),
+  ADD COLUMN fine_monthly_interest_percent numeric(5,2) NOT NULL DEFAULT 1
+    CHECK (fine_monthly_interest_percent >= 0 AND fine_monthly_interest_percent <= 100),
+  ADD COLUMN fine_recidivism_window_days integer NOT NULL DEFAULT 365
+    CHECK (fine_recidivism_window_days > 0);
+
+-- 2. Encargos calculados pelo job diário (process-overdue-fines)
+ALTER TABLE public.fines
+  ADD COLUMN late_fee_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN interest_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN total_due numeric(10,2),
+  ADD COLUMN charges_updated_at timestamptz,
+  ADD COLUMN overdue_notified_at timestamptz,
+  ADD COLUMN recidivism_count integer,
+  ADD COLUMN suggested_multiplier integer;
+
+CREATE INDEX idx_fines_open_due_date
+  ON public.fines (due_date)
+  WHERE status IN ('em_aberto', 'vencido');
+
+-- 3. Template de aviso de multa vencida
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Multa Vencida',
+  'fine_overdue',
+  'Notificação enviada ao morador quando uma multa passa do vencimento sem pagamento',
+  '⚠️ *MULTA VENCIDA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+A multa referente à ocorrência *{titulo}* venceu em {vencimento} e ainda não consta como paga.
+
+💰 *Valor original:* {valor}
+📈 *Valor atualizado:* {valor_atualizado}
+_(inclui multa moratória e juros conforme o regimento do condomínio)_
+
+Acesse o link para consultar e pagar:
+👉 {link}
+
+Em caso de dúvidas, entre em contato com a administração.',
+  ARRAY['condominio', 'nome', 'titulo', 'vencimento', 'valor', 'valor_atualizado', 'link'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
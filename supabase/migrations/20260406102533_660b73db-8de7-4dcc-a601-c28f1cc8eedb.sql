@@ -0,0 +1,65 @@
+-- =============================================
+-- OCORRÊNCIAS - Documentos formais emitidos (Notificação Extrajudicial / Auto de Infração)
+-- =============================================
+
+-- 1. Registro de cada PDF emitido, usado pela página pública de verificação (QR Code)
+CREATE TABLE public.occurrence_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurrence_id uuid NOT NULL REFERENCES public.occurrences(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('notificacao_extrajudicial', 'auto_infracao')),
+  verification_code text NOT NULL UNIQUE
+    DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+  -- SHA-256 do conteúdo do documento no momento da emissão
+  content_hash text NOT NULL,
+  occurrence_status text NOT NULL,
+  issued_by uuid NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_occurrence_documents_occurrence ON public.occurrence_documents (occurrence_id);
+
+ALTER TABLE public.occurrence_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can view documents of own condominiums"
+  ON public.occurrence_documents FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = occurrence_documents.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Sindicos can issue documents of own condominiums"
+  ON public.occurrence_documents FOR INSERT
+  WITH CHECK (
+    issued_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.condominiums c
+      WHERE c.id = occurrence_documents.condominium_id AND c.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Residents can view documents of own occurrences"
+  ON public.occurrence_documents FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    JOIN public.residents r ON o.resident_id = r.id
+    WHERE o.id = occurrence_documents.occurrence_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can issue documents of own occurrences"
+  ON public.occurrence_documents FOR INSERT
+  WITH CHECK (
+    issued_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.occurrences o
+      JOIN public.residents r ON o.resident_id = r.id
+      WHERE o.id = occurrence_documents.occurrence_id
+        AND o.condominium_id = occurrence_documents.condominium_id
+        AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Super admins can view all occurrence documents"
+  ON public.occurrence_documents FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
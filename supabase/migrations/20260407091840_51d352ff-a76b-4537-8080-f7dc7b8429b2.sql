@@ -0,0 +1,332 @@
+-- =============================================
+-- OCORRÊNCIAS - Fluxo de trabalho configurável por condomínio
+-- =============================================
+-- Cada condomínio define suas etapas (estados), as transições permitidas entre elas,
+-- quem pode executar cada transição e os campos obrigatórios. Cada etapa aponta para
+-- um occurrence_status base, que continua sendo usado em relatórios e notificações.
+
+-- 1. Etapas do fluxo
+CREATE TABLE public.occurrence_workflow_states (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  key text NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  label text NOT NULL,
+  color text NOT NULL DEFAULT 'slate',
+  base_status occurrence_status NOT NULL,
+  is_initial boolean NOT NULL DEFAULT false,
+  is_final boolean NOT NULL DEFAULT false,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (condominium_id, key)
+);
+
+-- 2. Transições permitidas
+-- allowed_roles: sindico, morador
+-- required_fields: justification, defense, evidence, legal_basis
+CREATE TABLE public.occurrence_workflow_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  from_state text NOT NULL,
+  to_state text NOT NULL,
+  label text NOT NULL,
+  allowed_roles text[] NOT NULL DEFAULT ARRAY['sindico'],
+  required_fields text[] NOT NULL DEFAULT '{}',
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (condominium_id, from_state, to_state),
+  CHECK (from_state <> to_state),
+  FOREIGN KEY (condominium_id, from_state)
+    REFERENCES public.occurrence_workflow_states (condominium_id, key) ON DELETE CASCADE ON UPDATE CASCADE,
+  FOREIGN KEY (condominium_id, to_state)
+    REFERENCES public.occurrence_workflow_states (condominium_id, key) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- 3. Etapa atual da ocorrência
+ALTER TABLE public.occurrences ADD COLUMN workflow_state text;
+
+-- 4. Histórico de transições
+CREATE TABLE public.occurrence_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurrence_id uuid NOT NULL REFERENCES public.occurrences(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  from_state text,
+  to_state text NOT NULL,
+  performed_by uuid,
+  performed_role text,
+  justification text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_occurrence_status_history_occurrence ON public.occurrence_status_history (occurrence_id, created_at);
+
+-- 5. Fluxo padrão (equivalente ao comportamento anterior)
+CREATE OR REPLACE FUNCTION public.seed_default_occurrence_workflow(_condominium_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO occurrence_workflow_states (condominium_id, key, label, color, base_status, is_initial, is_final, display_order)
+  VALUES
+    (_condominium_id, 'registrada', 'Registrada', 'blue', 'registrada', true, false, 1),
+    (_condominium_id, 'notificado', 'Notificado', 'amber', 'notificado', false, false, 2),
+    (_condominium_id, 'em_defesa', 'Em Defesa', 'purple', 'em_defesa', false, false, 3),
+    (_condominium_id, 'arquivada', 'Arquivada', 'slate', 'arquivada', false, true, 4),
+    (_condominium_id, 'advertido', 'Advertido', 'orange', 'advertido', false, true, 5),
+    (_condominium_id, 'multado', 'Multado', 'red', 'multado', false, true, 6)
+  ON CONFLICT (condominium_id, key) DO NOTHING;
+
+  INSERT INTO occurrence_workflow_transitions (condominium_id, from_state, to_state, label, allowed_roles, required_fields, display_order)
+  VALUES
+    (_condominium_id, 'registrada', 'notificado', 'Marcar como notificado', ARRAY['sindico'], '{}', 1),
+    (_condominium_id, 'registrada', 'em_defesa', 'Apresentar defesa', ARRAY['morador'], ARRAY['defense'], 2),
+    (_condominium_id, 'notificado', 'em_defesa', 'Apresentar defesa', ARRAY['morador'], ARRAY['defense'], 2),
+    (_condominium_id, 'registrada', 'arquivada', 'Arquivar', ARRAY['sindico'], ARRAY['justification'], 3),
+    (_condominium_id, 'notificado', 'arquivada', 'Arquivar', ARRAY['sindico'], ARRAY['justification'], 3),
+    (_condominium_id, 'em_defesa', 'arquivada', 'Arquivar', ARRAY['sindico'], ARRAY['justification'], 3),
+    (_condominium_id, 'registrada', 'advertido', 'Aplicar advertência', ARRAY['sindico'], ARRAY['justification'], 4),
+    (_condominium_id, 'notificado', 'advertido', 'Aplicar advertência', ARRAY['sindico'], ARRAY['justification'], 4),
+    (_condominium_id, 'em_defesa', 'advertido', 'Aplicar advertência', ARRAY['sindico'], ARRAY['justification'], 4),
+    (_condominium_id, 'registrada', 'multado', 'Aplicar multa', ARRAY['sindico'], ARRAY['justification'], 5),
+    (_condominium_id, 'notificado', 'multado', 'Aplicar multa', ARRAY['sindico'], ARRAY['justification'], 5),
+    (_condominium_id, 'em_defesa', 'multado', 'Aplicar multa', ARRAY['sindico'], ARRAY['justification'], 5)
+  ON CONFLICT (condominium_id, from_state, to_state) DO NOTHING;
+END;
+$$;
+
+SELECT public.seed_default_occurrence_workflow(id) FROM public.condominiums;
+
+UPDATE public.occurrences SET workflow_state = status::text WHERE workflow_state IS NULL;
+
+ALTER TABLE public.occurrences
+  ADD CONSTRAINT occurrences_workflow_state_fkey
+  FOREIGN KEY (condominium_id, workflow_state)
+  REFERENCES public.occurrence_workflow_states (condominium_id, key) ON UPDATE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.handle_new_condominium_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_default_occurrence_workflow(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_condominium_created_seed_workflow
+  AFTER INSERT ON public.condominiums
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_condominium_workflow();
+
+-- 6. Papéis do usuário em relação a uma ocorrência
+CREATE OR REPLACE FUNCTION public.occurrence_actor_roles(_user_id uuid, _occurrence_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT array_remove(ARRAY[
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      JOIN condominiums c ON c.id = o.condominium_id
+      WHERE o.id = _occurrence_id AND c.owner_id = _user_id
+    ) OR has_role(_user_id, 'super_admin'::app_role) THEN 'sindico' END,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      JOIN residents r ON r.id = o.resident_id
+      WHERE o.id = _occurrence_id AND r.user_id = _user_id
+    ) THEN 'morador' END
+  ], NULL)
+$$;
+
+-- 7. Transição validada no servidor
+CREATE OR REPLACE FUNCTION public.transition_occurrence(
+  p_occurrence_id uuid,
+  p_to_state text,
+  p_justification text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_transition occurrence_workflow_transitions%ROWTYPE;
+  v_target occurrence_workflow_states%ROWTYPE;
+  v_roles text[];
+  v_field text;
+BEGIN
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  SELECT * INTO v_transition
+  FROM occurrence_workflow_transitions
+  WHERE condominium_id = v_occurrence.condominium_id
+    AND from_state = v_occurrence.workflow_state
+    AND to_state = p_to_state;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transição não permitida de "%" para "%"', v_occurrence.workflow_state, p_to_state;
+  END IF;
+
+  v_roles := occurrence_actor_roles(auth.uid(), p_occurrence_id);
+  IF NOT (v_roles && v_transition.allowed_roles) THEN
+    RAISE EXCEPTION 'Você não tem permissão para executar "%"', v_transition.label;
+  END IF;
+
+  FOREACH v_field IN ARRAY v_transition.required_fields LOOP
+    IF v_field = 'justification' AND coalesce(btrim(p_justification), '') = '' THEN
+      RAISE EXCEPTION 'Informe a justificativa para "%"', v_transition.label;
+    ELSIF v_field = 'defense' AND NOT EXISTS (SELECT 1 FROM defenses WHERE occurrence_id = p_occurrence_id) THEN
+      RAISE EXCEPTION '"%" exige uma defesa registrada', v_transition.label;
+    ELSIF v_field = 'evidence' AND NOT EXISTS (SELECT 1 FROM occurrence_evidences WHERE occurrence_id = p_occurrence_id) THEN
+      RAISE EXCEPTION '"%" exige ao menos uma prova anexada', v_transition.label;
+    ELSIF v_field = 'legal_basis' AND v_occurrence.civil_code_article IS NULL
+      AND v_occurrence.convention_article IS NULL AND v_occurrence.internal_rules_article IS NULL
+      AND v_occurrence.legal_basis IS NULL THEN
+      RAISE EXCEPTION '"%" exige a fundamentação legal da ocorrência', v_transition.label;
+    END IF;
+  END LOOP;
+
+  SELECT * INTO v_target
+  FROM occurrence_workflow_states
+  WHERE condominium_id = v_occurrence.condominium_id AND key = p_to_state;
+
+  PERFORM set_config('app.occurrence_transition', 'on', true);
+
+  UPDATE occurrences
+  SET workflow_state = v_target.key, status = v_target.base_status
+  WHERE id = p_occurrence_id;
+
+  PERFORM set_config('app.occurrence_transition', 'off', true);
+
+  INSERT INTO occurrence_status_history (occurrence_id, condominium_id, from_state, to_state, performed_by, performed_role, justification)
+  VALUES (
+    p_occurrence_id, v_occurrence.condominium_id, v_occurrence.workflow_state, v_target.key, auth.uid(),
+    (SELECT r FROM unnest(v_roles) r WHERE r = ANY (v_transition.allowed_roles) LIMIT 1),
+    nullif(btrim(p_justification), '')
+  );
+
+  RETURN v_target.base_status::text;
+END;
+$$;
+
+-- 8. Proteção: usuários só mudam a situação via transition_occurrence.
+-- Processos internos (service role) continuam podendo alterar o status; a etapa é sincronizada.
+CREATE OR REPLACE FUNCTION public.enforce_occurrence_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.workflow_state IS NULL THEN
+      SELECT key INTO NEW.workflow_state
+      FROM occurrence_workflow_states
+      WHERE condominium_id = NEW.condominium_id AND base_status = NEW.status
+      ORDER BY is_initial DESC, display_order
+      LIMIT 1;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.workflow_state IS NOT DISTINCT FROM OLD.workflow_state THEN
+    RETURN NEW;
+  END IF;
+
+  IF coalesce(current_setting('app.occurrence_transition', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'A situação da ocorrência deve ser alterada pelo fluxo do condomínio (transition_occurrence)';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.workflow_state IS NOT DISTINCT FROM OLD.workflow_state THEN
+    SELECT key INTO NEW.workflow_state
+    FROM occurrence_workflow_states
+    WHERE condominium_id = NEW.condominium_id AND base_status = NEW.status
+    ORDER BY is_initial DESC, display_order
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_occurrence_workflow
+  BEFORE INSERT OR UPDATE OF status, workflow_state ON public.occurrences
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_occurrence_workflow();
+
+CREATE TRIGGER update_occurrence_workflow_states_updated_at
+  BEFORE UPDATE ON public.occurrence_workflow_states
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 9. RLS
+ALTER TABLE public.occurrence_workflow_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.occurrence_workflow_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.occurrence_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can manage workflow states of own condominiums"
+  ON public.occurrence_workflow_states FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = occurrence_workflow_states.condominium_id AND c.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = occurrence_workflow_states.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can view workflow states"
+  ON public.occurrence_workflow_states FOR SELECT
+  USING (public.is_resident_of_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Super admins can manage all workflow states"
+  ON public.occurrence_workflow_states FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Sindicos can manage workflow transitions of own condominiums"
+  ON public.occurrence_workflow_transitions FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = occurrence_workflow_transitions.condominium_id AND c.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = occurrence_workflow_transitions.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can view workflow transitions"
+  ON public.occurrence_workflow_transitions FOR SELECT
+  USING (public.is_resident_of_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Super admins can manage all workflow transitions"
+  ON public.occurrence_workflow_transitions FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Sindicos can view status history of own condominiums"
+  ON public.occurrence_status_history FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = occurrence_status_history.condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can view status history of own occurrences"
+  ON public.occurrence_status_history FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    JOIN public.residents r ON o.resident_id = r.id
+    WHERE o.id = occurrence_status_history.occurrence_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Super admins can view all status history"
+  ON public.occurrence_status_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
@@ -0,0 +1,351 @@
+-- =============================================
+-- OCORRÊNCIAS - Recurso (segunda instância) com votação do conselho
+-- =============================================
+-- Após uma decisão de advertência ou multa, o morador pode apresentar recurso dentro do
+-- prazo configurado no condomínio. O vencimento da multa fica suspenso enquanto os membros
+-- do conselho votam. O resultado é registrado como uma nova decisão.
+
+-- 1. Multas canceladas por recurso provido
+ALTER TYPE public.fine_status ADD VALUE IF NOT EXISTS 'cancelada';
+
+-- 2. Regras de recurso por condomínio
+ALTER TABLE public.condominiums
+  ADD COLUMN appeal_window_days integer NOT NULL DEFAULT 15 CHECK (appeal_window_days > 0),
+  ADD COLUMN appeal_quorum integer NOT NULL DEFAULT 3 CHECK (appeal_quorum > 0);
+
+-- 3. Moradores designados pelo síndico para o conselho
+CREATE TABLE public.council_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  resident_id uuid NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+  designated_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (condominium_id, resident_id)
+);
+
+CREATE OR REPLACE FUNCTION public.is_council_member(_user_id uuid, _condominium_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM council_members cm
+    JOIN residents r ON r.id = cm.resident_id
+    WHERE cm.condominium_id = _condominium_id AND r.user_id = _user_id
+  )
+$$;
+
+-- 4. Recursos
+CREATE TABLE public.occurrence_appeals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurrence_id uuid NOT NULL REFERENCES public.occurrences(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  resident_id uuid NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+  decision_id uuid NOT NULL UNIQUE REFERENCES public.decisions(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  status text NOT NULL DEFAULT 'em_votacao' CHECK (status IN ('em_votacao', 'provido', 'improvido')),
+  outcome_decision_id uuid REFERENCES public.decisions(id) ON DELETE SET NULL,
+  filed_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_occurrence_appeals_condominium_status ON public.occurrence_appeals (condominium_id, status);
+CREATE INDEX idx_occurrence_appeals_occurrence ON public.occurrence_appeals (occurrence_id);
+
+CREATE TABLE public.appeal_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appeal_id uuid NOT NULL REFERENCES public.occurrence_appeals(id) ON DELETE CASCADE,
+  file_url text NOT NULL,
+  file_type text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.appeal_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appeal_id uuid NOT NULL REFERENCES public.occurrence_appeals(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  voter_id uuid NOT NULL,
+  vote text NOT NULL CHECK (vote IN ('provido', 'improvido')),
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (appeal_id, voter_id)
+);
+
+-- 5. Vínculos com decisões e multas
+ALTER TABLE public.decisions
+  ADD COLUMN appeal_id uuid REFERENCES public.occurrence_appeals(id) ON DELETE SET NULL;
+
+-- Vencimento suspenso enquanto houver recurso em votação
+ALTER TABLE public.fines
+  ADD COLUMN appeal_suspended_at timestamptz;
+
+-- 6. Apresentação do recurso (validada no servidor)
+CREATE OR REPLACE FUNCTION public.file_occurrence_appeal(p_occurrence_id uuid, p_content text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_resident_id uuid;
+  v_decision decisions%ROWTYPE;
+  v_window integer;
+  v_appeal_id uuid;
+BEGIN
+  IF coalesce(btrim(p_content), '') = '' THEN
+    RAISE EXCEPTION 'Informe as razões do recurso';
+  END IF;
+
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  SELECT r.id INTO v_resident_id
+  FROM residents r
+  WHERE r.id = v_occurrence.resident_id AND r.user_id = auth.uid();
+  IF v_resident_id IS NULL THEN
+    RAISE EXCEPTION 'Somente o morador notificado pode recorrer';
+  END IF;
+
+  SELECT * INTO v_decision
+  FROM decisions
+  WHERE occurrence_id = p_occurrence_id
+  ORDER BY decided_at DESC
+  LIMIT 1;
+  IF NOT FOUND OR v_decision.decision NOT IN ('advertido', 'multado') OR v_decision.appeal_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Não há decisão passível de recurso nesta ocorrência';
+  END IF;
+
+  SELECT appeal_window_days INTO v_window FROM condominiums WHERE id = v_occurrence.condominium_id;
+  IF now() > v_decision.decided_at + make_interval(days => v_window) THEN
+    RAISE EXCEPTION 'O prazo de % dias para recurso terminou', v_window;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM occurrence_appeals WHERE decision_id = v_decision.id) THEN
+    RAISE EXCEPTION 'Já existe um recurso para esta decisão';
+  END IF;
+
+  INSERT INTO occurrence_appeals (occurrence_id, condominium_id, resident_id, decision_id, content)
+  VALUES (p_occurrence_id, v_occurrence.condominium_id, v_resident_id, v_decision.id, btrim(p_content))
+  RETURNING id INTO v_appeal_id;
+
+  UPDATE fines
+  SET appeal_suspended_at = now()
+  WHERE occurrence_id = p_occurrence_id AND status IN ('em_aberto', 'vencido');
+
+  RETURN v_appeal_id;
+END;
+$$;
+
+-- 7. Voto do conselho; com o quórum atingido o recurso é julgado
+-- Empate mantém a decisão original.
+CREATE OR REPLACE FUNCTION public.cast_appeal_vote(p_appeal_id uuid, p_vote text, p_comment text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appeal occurrence_appeals%ROWTYPE;
+  v_original decisions%ROWTYPE;
+  v_quorum integer;
+  v_provido integer;
+  v_improvido integer;
+  v_outcome text;
+  v_decision_id uuid;
+  v_from_state text;
+  v_archived_state text;
+BEGIN
+  IF p_vote NOT IN ('provido', 'improvido') THEN
+    RAISE EXCEPTION 'Voto inválido';
+  END IF;
+
+  SELECT * INTO v_appeal FROM occurrence_appeals WHERE id = p_appeal_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurso não encontrado';
+  END IF;
+  IF v_appeal.status <> 'em_votacao' THEN
+    RAISE EXCEPTION 'Este recurso já foi julgado';
+  END IF;
+
+  IF NOT is_council_member(auth.uid(), v_appeal.condominium_id) THEN
+    RAISE EXCEPTION 'Somente membros do conselho podem votar';
+  END IF;
+  IF EXISTS (SELECT 1 FROM residents WHERE id = v_appeal.resident_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'O autor do recurso não pode votar';
+  END IF;
+
+  INSERT INTO appeal_votes (appeal_id, condominium_id, voter_id, vote, comment)
+  VALUES (p_appeal_id, v_appeal.condominium_id, auth.uid(), p_vote, nullif(btrim(p_comment), ''))
+  ON CONFLICT (appeal_id, voter_id) DO UPDATE SET vote = EXCLUDED.vote, comment = EXCLUDED.comment;
+
+  -- Quórum limitado ao número de conselheiros aptos a votar
+  SELECT least(c.appeal_quorum, (
+    SELECT count(*) FROM council_members cm
+    WHERE cm.condominium_id = v_appeal.condominium_id AND cm.resident_id <> v_appeal.resident_id
+  ))
+  INTO v_quorum
+  FROM condominiums c WHERE c.id = v_appeal.condominium_id;
+
+  SELECT count(*) FILTER (WHERE vote = 'provido'), count(*) FILTER (WHERE vote = 'improvido')
+  INTO v_provido, v_improvido
+  FROM appeal_votes WHERE appeal_id = p_appeal_id;
+
+  IF v_provido + v_improvido < greatest(v_quorum, 1) THEN
+    RETURN 'em_votacao';
+  END IF;
+
+  v_outcome := CASE WHEN v_provido > v_improvido THEN 'provido' ELSE 'improvido' END;
+  SELECT * INTO v_original FROM decisions WHERE id = v_appeal.decision_id;
+
+  INSERT INTO decisions (occurrence_id, decided_by, decision, justification, appeal_id)
+  VALUES (
+    v_appeal.occurrence_id,
+    auth.uid(),
+    CASE WHEN v_outcome = 'provido' THEN 'arquivada'::occurrence_status ELSE v_original.decision END,
+    format('Recurso %s pelo conselho (%s voto(s) a favor, %s contra).', v_outcome, v_provido, v_improvido),
+    p_appeal_id
+  )
+  RETURNING id INTO v_decision_id;
+
+  UPDATE occurrence_appeals
+  SET status = v_outcome, outcome_decision_id = v_decision_id, resolved_at = now(), updated_at = now()
+  WHERE id = p_appeal_id;
+
+  IF v_outcome = 'provido' THEN
+    UPDATE fines
+    SET status = 'cancelada', appeal_suspended_at = NULL, updated_at = now()
+    WHERE occurrence_id = v_appeal.occurrence_id AND status IN ('em_aberto', 'vencido');
+
+    SELECT workflow_state INTO v_from_state FROM occurrences WHERE id = v_appeal.occurrence_id;
+    SELECT key INTO v_archived_state
+    FROM occurrence_workflow_states
+    WHERE condominium_id = v_appeal.condominium_id AND base_status = 'arquivada'
+    ORDER BY display_order
+    LIMIT 1;
+
+    PERFORM set_config('app.occurrence_transition', 'on', true);
+    UPDATE occurrences
+    SET status = 'arquivada', workflow_state = coalesce(v_archived_state, workflow_state)
+    WHERE id = v_appeal.occurrence_id;
+    PERFORM set_config('app.occurrence_transition', 'off', true);
+
+    INSERT INTO occurrence_status_history (occurrence_id, condominium_id, from_state, to_state, performed_by, performed_role, justification)
+    VALUES (
+      v_appeal.occurrence_id, v_appeal.condominium_id, v_from_state, coalesce(v_archived_state, v_from_state),
+      auth.uid(), 'conselho', 'Recurso provido pelo conselho'
+    );
+  ELSE
+    -- Retoma o vencimento com os dias que restavam quando o recurso foi apresentado
+    UPDATE fines
+    SET due_date = current_date + greatest(due_date - appeal_suspended_at::date, 0),
+        appeal_suspended_at = NULL,
+        updated_at = now()
+    WHERE occurrence_id = v_appeal.occurrence_id AND appeal_suspended_at IS NOT NULL;
+  END IF;
+
+  RETURN v_outcome;
+END;
+$$;
+
+CREATE TRIGGER update_occurrence_appeals_updated_at
+  BEFORE UPDATE ON public.occurrence_appeals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 8. Conselheiros podem ler as ocorrências em recurso do seu condomínio
+CREATE POLICY "Council members can view appealed occurrences"
+  ON public.occurrences FOR SELECT
+  USING (
+    public.is_council_member(auth.uid(), condominium_id)
+    AND EXISTS (SELECT 1 FROM public.occurrence_appeals a WHERE a.occurrence_id = occurrences.id)
+  );
+
+-- 9. RLS
+ALTER TABLE public.council_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.occurrence_appeals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appeal_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appeal_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sindicos can manage council members of own condominiums"
+  ON public.council_members FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_id AND c.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can view council members"
+  ON public.council_members FOR SELECT
+  USING (public.is_resident_of_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Super admins can manage all council members"
+  ON public.council_members FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Sindicos can view appeals of own condominiums"
+  ON public.occurrence_appeals FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can view own appeals"
+  ON public.occurrence_appeals FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.id = resident_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Council members can view appeals"
+  ON public.occurrence_appeals FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Super admins can view all appeals"
+  ON public.occurrence_appeals FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Residents can manage own appeal attachments"
+  ON public.appeal_attachments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrence_appeals a
+    JOIN public.residents r ON r.id = a.resident_id
+    WHERE a.id = appeal_id AND r.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.occurrence_appeals a
+    JOIN public.residents r ON r.id = a.resident_id
+    WHERE a.id = appeal_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Sindicos and council members can view appeal attachments"
+  ON public.appeal_attachments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrence_appeals a
+    JOIN public.condominiums c ON c.id = a.condominium_id
+    WHERE a.id = appeal_id
+      AND (c.owner_id = auth.uid() OR public.is_council_member(auth.uid(), a.condominium_id))
+  ));
+
+CREATE POLICY "Sindicos can view appeal votes of own condominiums"
+  ON public.appeal_votes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Council members can view appeal votes"
+  ON public.appeal_votes FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Super admins can view all appeal votes"
+  ON public.appeal_votes FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
@@ -0,0 +1,2 @@
+-- Adicionar role 'conselheiro' ao enum app_role
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'conselheiro';
@@ -0,0 +1,208 @@
+-- =============================================
+-- CONSELHO - Papel de conselheiro com leitura e assinatura de decisões
+-- =============================================
+-- Moradores designados pelo síndico em council_members recebem o papel 'conselheiro'.
+-- Conselheiros leem ocorrências, multas, faturas e manutenções do condomínio,
+-- votam recursos e podem coassinar decisões.
+
+-- 1. Papel sincronizado com a designação no conselho
+CREATE OR REPLACE FUNCTION public.sync_council_member_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT user_id INTO v_user_id FROM residents WHERE id = NEW.resident_id;
+    IF v_user_id IS NOT NULL THEN
+      INSERT INTO user_roles (user_id, role)
+      VALUES (v_user_id, 'conselheiro')
+      ON CONFLICT (user_id, role) DO NOTHING;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM residents WHERE id = OLD.resident_id;
+  IF v_user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM council_members cm
+    JOIN residents r ON r.id = cm.resident_id
+    WHERE r.user_id = v_user_id
+  ) THEN
+    DELETE FROM user_roles WHERE user_id = v_user_id AND role = 'conselheiro';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER on_council_member_changed
+  AFTER INSERT OR DELETE ON public.council_members
+  FOR EACH ROW EXECUTE FUNCTION public.sync_council_member_role();
+
+-- Morador designado antes de ter conta recebe o papel ao vincular o usuário
+CREATE OR REPLACE FUNCTION public.sync_council_role_on_resident_link()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL
+    AND NEW.user_id IS DISTINCT FROM OLD.user_id
+    AND EXISTS (SELECT 1 FROM council_members WHERE resident_id = NEW.id) THEN
+    INSERT INTO user_roles (user_id, role)
+    VALUES (NEW.user_id, 'conselheiro')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_resident_linked_sync_council_role
+  AFTER UPDATE OF user_id ON public.residents
+  FOR EACH ROW EXECUTE FUNCTION public.sync_council_role_on_resident_link();
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT DISTINCT r.user_id, 'conselheiro'::app_role
+FROM public.council_members cm
+JOIN public.residents r ON r.id = cm.resident_id
+WHERE r.user_id IS NOT NULL
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- 2. Conselheiros também podem executar transições do fluxo marcadas para o conselho
+CREATE OR REPLACE FUNCTION public.occurrence_actor_roles(_user_id uuid, _occurrence_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT array_remove(ARRAY[
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      JOIN condominiums c ON c.id = o.condominium_id
+      WHERE o.id = _occurrence_id AND c.owner_id = _user_id
+    ) OR has_role(_user_id, 'super_admin'::app_role) THEN 'sindico' END,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      JOIN residents r ON r.id = o.resident_id
+      WHERE o.id = _occurrence_id AND r.user_id = _user_id
+    ) THEN 'morador' END,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      WHERE o.id = _occurrence_id AND is_council_member(_user_id, o.condominium_id)
+    ) THEN 'conselheiro' END
+  ], NULL)
+$$;
+
+-- 3. Coassinatura de decisões
+CREATE TABLE public.decision_signatures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  decision_id uuid NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  signer_id uuid NOT NULL,
+  signer_name text NOT NULL,
+  signed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (decision_id, signer_id)
+);
+
+CREATE INDEX idx_decision_signatures_decision ON public.decision_signatures (decision_id);
+
+ALTER TABLE public.decision_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Council members can sign decisions"
+  ON public.decision_signatures FOR INSERT
+  WITH CHECK (
+    signer_id = auth.uid()
+    AND public.is_council_member(auth.uid(), condominium_id)
+    AND EXISTS (
+      SELECT 1 FROM public.decisions d
+      JOIN public.occurrences o ON o.id = d.occurrence_id
+      WHERE d.id = decision_id AND o.condominium_id = decision_signatures.condominium_id
+    )
+  );
+
+CREATE POLICY "Council members can view decision signatures"
+  ON public.decision_signatures FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Sindicos can view decision signatures of own condominiums"
+  ON public.decision_signatures FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.condominiums c
+    WHERE c.id = condominium_id AND c.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Super admins can view all decision signatures"
+  ON public.decision_signatures FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- 4. Leitura do condomínio pelo conselho
+DROP POLICY IF EXISTS "Council members can view appealed occurrences" ON public.occurrences;
+
+CREATE POLICY "Council members can view occurrences"
+  ON public.occurrences FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view evidences"
+  ON public.occurrence_evidences FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_council_member(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Council members can view defenses"
+  ON public.defenses FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_council_member(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Council members can view decisions"
+  ON public.decisions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_council_member(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Council members can view fines"
+  ON public.fines FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_council_member(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Council members can view status history"
+  ON public.occurrence_status_history FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view invoices"
+  ON public.invoices FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view maintenance tasks"
+  ON public.maintenance_tasks FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view maintenance executions"
+  ON public.maintenance_executions FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view workflow states"
+  ON public.occurrence_workflow_states FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view workflow transitions"
+  ON public.occurrence_workflow_transitions FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+CREATE POLICY "Council members can view maintenance categories"
+  ON public.maintenance_categories FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
+
+-- Relatórios do conselho respeitam o mesmo bloqueio por assinatura do síndico
+CREATE POLICY "Council members can view subscriptions"
+  ON public.subscriptions FOR SELECT
+  USING (public.is_council_member(auth.uid(), condominium_id));
@@ -0,0 +1,448 @@
+-- =============================================
+-- Subsíndicos e administradoras por condomínio
+-- =============================================
+-- O síndico (owner_id) continua sendo o responsável pelo condomínio. Subsíndicos e
+-- funcionários da administradora são vinculados via user_condominiums com um papel de
+-- gestão e uma lista de permissões. Plano, equipe e configurações seguem exclusivos do síndico.
+
+-- 1. Papel de gestão e permissões no vínculo
+CREATE TYPE public.condominium_manager_role AS ENUM ('subsindico', 'administrador');
+
+ALTER TABLE public.user_condominiums
+  ADD COLUMN manager_role public.condominium_manager_role,
+  ADD COLUMN permissions text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN invited_by uuid;
+
+ALTER TABLE public.user_condominiums
+  ADD CONSTRAINT user_condominiums_permissions_check CHECK (
+    permissions <@ ARRAY[
+      'occurrences.register', 'occurrences.decide', 'residents.manage', 'packages.manage',
+      'party_hall.manage', 'maintenance.manage', 'invoices.view', 'reports.view'
+    ]::text[]
+  );
+
+CREATE INDEX idx_user_condominiums_managers
+  ON public.user_condominiums (user_id)
+  WHERE manager_role IS NOT NULL;
+
+-- 2. Funções auxiliares
+CREATE OR REPLACE FUNCTION public.is_condominium_manager(_user_id uuid, _condominium_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM condominiums c WHERE c.id = _condominium_id AND c.owner_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM user_condominiums uc
+    WHERE uc.user_id = _user_id
+      AND uc.condominium_id = _condominium_id
+      AND uc.manager_role IS NOT NULL
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_condominium_permission(_user_id uuid, _condominium_id uuid, _permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM condominiums c WHERE c.id = _condominium_id AND c.owner_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM user_condominiums uc
+    WHERE uc.user_id = _user_id
+      AND uc.condominium_id = _condominium_id
+      AND uc.manager_role IS NOT NULL
+      AND _permission = ANY (uc.permissions)
+  )
+$$;
+
+-- Condomínios geridos pelo usuário logado: próprios (todas as permissões) e delegados
+CREATE OR REPLACE FUNCTION public.get_managed_condominiums()
+RETURNS TABLE (condominium_id uuid, access_role text, permissions text[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, 'sindico'::text, ARRAY[
+    'occurrences.register', 'occurrences.decide', 'residents.manage', 'packages.manage',
+    'party_hall.manage', 'maintenance.manage', 'invoices.view', 'reports.view'
+  ]::text[]
+  FROM condominiums c
+  WHERE c.owner_id = auth.uid()
+  UNION ALL
+  SELECT uc.condominium_id, uc.manager_role::text, uc.permissions
+  FROM user_condominiums uc
+  JOIN condominiums c ON c.id = uc.condominium_id
+  WHERE uc.user_id = auth.uid()
+    AND uc.manager_role IS NOT NULL
+    AND c.owner_id <> auth.uid()
+$$;
+
+-- 3. Fluxo de ocorrências: subsíndicos atuam como síndico, mas só decidem com permissão
+CREATE OR REPLACE FUNCTION public.occurrence_actor_roles(_user_id uuid, _occurrence_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT array_remove(ARRAY[
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      WHERE o.id = _occurrence_id
+        AND (
+          has_condominium_permission(_user_id, o.condominium_id, 'occurrences.register')
+          OR has_condominium_permission(_user_id, o.condominium_id, 'occurrences.decide')
+        )
+    ) OR has_role(_user_id, 'super_admin'::app_role) THEN 'sindico' END,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      JOIN residents r ON r.id = o.resident_id
+      WHERE o.id = _occurrence_id AND r.user_id = _user_id
+    ) THEN 'morador' END,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM occurrences o
+      WHERE o.id = _occurrence_id AND is_council_member(_user_id, o.condominium_id)
+    ) THEN 'conselheiro' END
+  ], NULL)
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_occurrence(
+  p_occurrence_id uuid,
+  p_to_state text,
+  p_justification text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_transition occurrence_workflow_transitions%ROWTYPE;
+  v_target occurrence_workflow_states%ROWTYPE;
+  v_roles text[];
+  v_role text;
+  v_field text;
+BEGIN
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  SELECT * INTO v_transition
+  FROM occurrence_workflow_transitions
+  WHERE condominium_id = v_occurrence.condominium_id
+    AND from_state = v_occurrence.workflow_state
+    AND to_state = p_to_state;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transição não permitida de "%" para "%"', v_occurrence.workflow_state, p_to_state;
+  END IF;
+
+  v_roles := occurrence_actor_roles(auth.uid(), p_occurrence_id);
+  IF NOT (v_roles && v_transition.allowed_roles) THEN
+    RAISE EXCEPTION 'Você não tem permissão para executar "%"', v_transition.label;
+  END IF;
+  v_role := (SELECT r FROM unnest(v_roles) r WHERE r = ANY (v_transition.allowed_roles) LIMIT 1);
+
+  SELECT * INTO v_target
+  FROM occurrence_workflow_states
+  WHERE condominium_id = v_occurrence.condominium_id AND key = p_to_state;
+
+  IF v_role = 'sindico'
+    AND v_target.base_status IN ('arquivada', 'advertido', 'multado')
+    AND NOT has_role(auth.uid(), 'super_admin'::app_role)
+    AND NOT has_condominium_permission(auth.uid(), v_occurrence.condominium_id, 'occurrences.decide') THEN
+    RAISE EXCEPTION 'Você não tem permissão para decidir ocorrências neste condomínio';
+  END IF;
+
+  FOREACH v_field IN ARRAY v_transition.required_fields LOOP
+    IF v_field = 'justification' AND coalesce(btrim(p_justification), '') = '' THEN
+      RAISE EXCEPTION 'Informe a justificativa para "%"', v_transition.label;
+    ELSIF v_field = 'defense' AND NOT EXISTS (SELECT 1 FROM defenses WHERE occurrence_id = p_occurrence_id) THEN
+      RAISE EXCEPTION '"%" exige uma defesa registrada', v_transition.label;
+    ELSIF v_field = 'evidence' AND NOT EXISTS (SELECT 1 FROM occurrence_evidences WHERE occurrence_id = p_occurrence_id) THEN
+      RAISE EXCEPTION '"%" exige ao menos uma prova anexada', v_transition.label;
+    ELSIF v_field = 'legal_basis' AND v_occurrence.civil_code_article IS NULL
+      AND v_occurrence.convention_article IS NULL AND v_occurrence.internal_rules_article IS NULL
+      AND v_occurrence.legal_basis IS NULL THEN
+      RAISE EXCEPTION '"%" exige a fundamentação legal da ocorrência', v_transition.label;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.occurrence_transition', 'on', true);
+
+  UPDATE occurrences
+  SET workflow_state = v_target.key, status = v_target.base_status
+  WHERE id = p_occurrence_id;
+
+  PERFORM set_config('app.occurrence_transition', 'off', true);
+
+  INSERT INTO occurrence_status_history (occurrence_id, condominium_id, from_state, to_state, performed_by, performed_role, justification)
+  VALUES (
+    p_occurrence_id, v_occurrence.condominium_id, v_occurrence.workflow_state, v_target.key, auth.uid(),
+    v_role, nullif(btrim(p_justification), '')
+  );
+
+  RETURN v_target.base_status::text;
+END;
+$$;
+
+-- 4. Auditoria dos vínculos (inclusão, alteração de permissões e remoção de gestores)
+CREATE TRIGGER audit_user_condominiums
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_condominiums
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit_event();
+
+-- 5. RLS: leitura para qualquer gestor do condomínio
+CREATE POLICY "Managers can view managed condominiums"
+  ON public.condominiums FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), id));
+
+CREATE POLICY "Managers can view co-managers"
+  ON public.user_condominiums FOR SELECT
+  USING (manager_role IS NOT NULL AND public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view occurrences"
+  ON public.occurrences FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view evidences"
+  ON public.occurrence_evidences FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_condominium_manager(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view defenses"
+  ON public.defenses FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_condominium_manager(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view defense attachments"
+  ON public.defense_attachments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.defenses d
+    JOIN public.occurrences o ON o.id = d.occurrence_id
+    WHERE d.id = defense_id AND public.is_condominium_manager(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view decisions"
+  ON public.decisions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_condominium_manager(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view fines"
+  ON public.fines FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_condominium_manager(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view notifications"
+  ON public.notifications_sent FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id AND public.is_condominium_manager(auth.uid(), o.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view occurrence documents"
+  ON public.occurrence_documents FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view status history"
+  ON public.occurrence_status_history FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view workflow states"
+  ON public.occurrence_workflow_states FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view workflow transitions"
+  ON public.occurrence_workflow_transitions FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view appeals"
+  ON public.occurrence_appeals FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view appeal votes"
+  ON public.appeal_votes FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view decision signatures"
+  ON public.decision_signatures FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view blocks"
+  ON public.blocks FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view apartments"
+  ON public.apartments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.blocks b
+    WHERE b.id = block_id AND public.is_condominium_manager(auth.uid(), b.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view residents"
+  ON public.residents FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.apartments a
+    JOIN public.blocks b ON b.id = a.block_id
+    WHERE a.id = apartment_id AND public.is_condominium_manager(auth.uid(), b.condominium_id)
+  ));
+
+-- 6. RLS: escrita conforme as permissões delegadas
+CREATE POLICY "Managers can register occurrences"
+  ON public.occurrences FOR INSERT
+  WITH CHECK (public.has_condominium_permission(auth.uid(), condominium_id, 'occurrences.register'));
+
+CREATE POLICY "Managers can update occurrences"
+  ON public.occurrences FOR UPDATE
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'occurrences.register'));
+
+CREATE POLICY "Managers can manage evidences"
+  ON public.occurrence_evidences FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id
+      AND public.has_condominium_permission(auth.uid(), o.condominium_id, 'occurrences.register')
+  ));
+
+CREATE POLICY "Managers can register notifications"
+  ON public.notifications_sent FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id
+      AND public.has_condominium_permission(auth.uid(), o.condominium_id, 'occurrences.register')
+  ));
+
+CREATE POLICY "Managers can create occurrence documents"
+  ON public.occurrence_documents FOR INSERT
+  WITH CHECK (public.has_condominium_permission(auth.uid(), condominium_id, 'occurrences.register'));
+
+CREATE POLICY "Managers can register decisions"
+  ON public.decisions FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id
+      AND public.has_condominium_permission(auth.uid(), o.condominium_id, 'occurrences.decide')
+  ));
+
+CREATE POLICY "Managers can apply fines"
+  ON public.fines FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id
+      AND public.has_condominium_permission(auth.uid(), o.condominium_id, 'occurrences.decide')
+  ));
+
+CREATE POLICY "Managers can update fines"
+  ON public.fines FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.occurrences o
+    WHERE o.id = occurrence_id
+      AND public.has_condominium_permission(auth.uid(), o.condominium_id, 'occurrences.decide')
+  ));
+
+CREATE POLICY "Managers can manage blocks"
+  ON public.blocks FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'residents.manage'));
+
+CREATE POLICY "Managers can manage apartments"
+  ON public.apartments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.blocks b
+    WHERE b.id = block_id
+      AND public.has_condominium_permission(auth.uid(), b.condominium_id, 'residents.manage')
+  ));
+
+CREATE POLICY "Managers can manage residents"
+  ON public.residents FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.apartments a
+    JOIN public.blocks b ON b.id = a.block_id
+    WHERE a.id = apartment_id
+      AND public.has_condominium_permission(auth.uid(), b.condominium_id, 'residents.manage')
+  ));
+
+CREATE POLICY "Managers can manage packages"
+  ON public.packages FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Managers can manage porter occurrences"
+  ON public.porter_occurrences FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Managers can view shift handovers"
+  ON public.shift_handovers FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Managers can view shift handover items"
+  ON public.shift_handover_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.shift_handovers h
+    WHERE h.id = handover_id
+      AND public.has_condominium_permission(auth.uid(), h.condominium_id, 'packages.manage')
+  ));
+
+CREATE POLICY "Managers can manage shift checklist templates"
+  ON public.shift_checklist_templates FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Managers can manage party hall settings"
+  ON public.party_hall_settings FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Managers can manage party hall bookings"
+  ON public.party_hall_bookings FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Managers can manage party hall checklist templates"
+  ON public.party_hall_checklist_templates FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Managers can manage party hall checklists"
+  ON public.party_hall_checklists FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    WHERE b.id = booking_id
+      AND public.has_condominium_permission(auth.uid(), b.condominium_id, 'party_hall.manage')
+  ));
+
+CREATE POLICY "Managers can view party hall notifications"
+  ON public.party_hall_notifications FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Managers can manage maintenance categories"
+  ON public.maintenance_categories FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'maintenance.manage'));
+
+CREATE POLICY "Managers can manage maintenance tasks"
+  ON public.maintenance_tasks FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'maintenance.manage'));
+
+CREATE POLICY "Managers can manage maintenance executions"
+  ON public.maintenance_executions FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'maintenance.manage'));
+
+-- Faturas e assinatura: apenas leitura. A assinatura fica visível a todos os gestores
+-- porque o bloqueio por plano depende dela; a troca de plano segue restrita ao síndico.
+CREATE POLICY "Managers can view invoices"
+  ON public.invoices FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'invoices.view'));
+
+CREATE POLICY "Managers can view subscriptions"
+  ON public.subscriptions FOR SELECT
+  USING (public.is_condominium_manager(auth.uid(), condominium_id));
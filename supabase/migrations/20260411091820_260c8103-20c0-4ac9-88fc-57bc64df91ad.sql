@@ -0,0 +1,402 @@
+-- =============================================
+-- Administradoras: organizações com carteira de condomínios
+-- =============================================
+-- Uma organização agrupa vários condomínios. O dono e os membros "admin" têm todas as
+-- permissões nos condomínios da carteira; membros "staff" recebem uma lista de permissões
+-- (as mesmas de user_condominiums). O acesso entra nas funções auxiliares de gestão, então
+-- as políticas existentes passam a valer para a equipe da administradora sem alterações.
+
+-- 1. Organizações e equipe
+CREATE TYPE public.organization_member_role AS ENUM ('admin', 'staff');
+
+CREATE TABLE public.organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  cnpj text,
+  email text,
+  phone text,
+  owner_id uuid NOT NULL,
+  consolidated_billing boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organizations_owner ON public.organizations (owner_id);
+
+CREATE TABLE public.organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  role public.organization_member_role NOT NULL DEFAULT 'staff',
+  permissions text[] NOT NULL DEFAULT '{}',
+  invited_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, user_id),
+  CONSTRAINT organization_members_permissions_check CHECK (
+    permissions <@ ARRAY[
+      'occurrences.register', 'occurrences.decide', 'residents.manage', 'packages.manage',
+      'party_hall.manage', 'maintenance.manage', 'invoices.view', 'reports.view'
+    ]::text[]
+  )
+);
+
+CREATE INDEX idx_organization_members_user ON public.organization_members (user_id);
+
+ALTER TABLE public.condominiums
+  ADD COLUMN organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_condominiums_organization ON public.condominiums (organization_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_organization_members
+  AFTER INSERT OR UPDATE OR DELETE ON public.organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit_event();
+
+-- 2. Funções auxiliares
+-- Permissões do usuário na organização (NULL quando não faz parte dela)
+CREATE OR REPLACE FUNCTION public.organization_permissions(_user_id uuid, _organization_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM organizations o WHERE o.id = _organization_id AND o.owner_id = _user_id
+    ) OR EXISTS (
+      SELECT 1 FROM organization_members om
+      WHERE om.organization_id = _organization_id AND om.user_id = _user_id AND om.role = 'admin'
+    ) THEN ARRAY[
+      'occurrences.register', 'occurrences.decide', 'residents.manage', 'packages.manage',
+      'party_hall.manage', 'maintenance.manage', 'invoices.view', 'reports.view'
+    ]::text[]
+    ELSE (
+      SELECT om.permissions FROM organization_members om
+      WHERE om.organization_id = _organization_id AND om.user_id = _user_id
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(_user_id uuid, _organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organizations o WHERE o.id = _organization_id AND o.owner_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM organization_members om
+    WHERE om.organization_id = _organization_id AND om.user_id = _user_id AND om.role = 'admin'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_condominium_manager(_user_id uuid, _condominium_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM condominiums c WHERE c.id = _condominium_id AND c.owner_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM user_condominiums uc
+    WHERE uc.user_id = _user_id
+      AND uc.condominium_id = _condominium_id
+      AND uc.manager_role IS NOT NULL
+  ) OR EXISTS (
+    SELECT 1 FROM condominiums c
+    WHERE c.id = _condominium_id
+      AND c.organization_id IS NOT NULL
+      AND organization_permissions(_user_id, c.organization_id) IS NOT NULL
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_condominium_permission(_user_id uuid, _condominium_id uuid, _permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM condominiums c WHERE c.id = _condominium_id AND c.owner_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM user_condominiums uc
+    WHERE uc.user_id = _user_id
+      AND uc.condominium_id = _condominium_id
+      AND uc.manager_role IS NOT NULL
+      AND _permission = ANY (uc.permissions)
+  ) OR EXISTS (
+    SELECT 1 FROM condominiums c
+    WHERE c.id = _condominium_id
+      AND c.organization_id IS NOT NULL
+      AND _permission = ANY (organization_permissions(_user_id, c.organization_id))
+  )
+$$;
+
+-- Condomínios geridos pelo usuário logado. Quando há mais de um vínculo com o mesmo
+-- condomínio (ex.: subsíndico e membro da administradora) prevalece o papel mais forte
+-- e as permissões são somadas.
+DROP FUNCTION public.get_managed_condominiums();
+
+CREATE FUNCTION public.get_managed_condominiums()
+RETURNS TABLE (
+  condominium_id uuid,
+  condominium_name text,
+  organization_id uuid,
+  access_role text,
+  permissions text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH grants AS (
+    SELECT c.id AS condominium_id, 'sindico'::text AS access_role, 0 AS priority, ARRAY[
+      'occurrences.register', 'occurrences.decide', 'residents.manage', 'packages.manage',
+      'party_hall.manage', 'maintenance.manage', 'invoices.view', 'reports.view'
+    ]::text[] AS permissions
+    FROM condominiums c
+    WHERE c.owner_id = auth.uid()
+    UNION ALL
+    SELECT uc.condominium_id, uc.manager_role::text, 1, uc.permissions
+    FROM user_condominiums uc
+    WHERE uc.user_id = auth.uid()
+      AND uc.manager_role IS NOT NULL
+    UNION ALL
+    SELECT c.id, 'administrador'::text, 2, organization_permissions(auth.uid(), c.organization_id)
+    FROM condominiums c
+    WHERE c.organization_id IS NOT NULL
+      AND organization_permissions(auth.uid(), c.organization_id) IS NOT NULL
+  )
+  SELECT
+    g.condominium_id,
+    c.name,
+    c.organization_id,
+    (array_agg(g.access_role ORDER BY g.priority))[1],
+    ARRAY(
+      SELECT DISTINCT p FROM grants g2, unnest(g2.permissions) p
+      WHERE g2.condominium_id = g.condominium_id
+      ORDER BY p
+    )
+  FROM grants g
+  JOIN condominiums c ON c.id = g.condominium_id
+  GROUP BY g.condominium_id, c.name, c.organization_id
+  ORDER BY c.name
+$$;
+
+-- Vincula (ou desvincula, com NULL) um condomínio à organização. Exige ser admin da
+-- organização e síndico do condomínio ou já gestor como administradora.
+CREATE OR REPLACE FUNCTION public.set_condominium_organization(
+  p_condominium_id uuid,
+  p_organization_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condo condominiums%ROWTYPE;
+BEGIN
+  SELECT * INTO v_condo FROM condominiums WHERE id = p_condominium_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Condomínio não encontrado';
+  END IF;
+
+  IF p_organization_id IS NULL THEN
+    IF v_condo.owner_id <> auth.uid()
+      AND NOT (v_condo.organization_id IS NOT NULL AND is_organization_admin(auth.uid(), v_condo.organization_id)) THEN
+      RAISE EXCEPTION 'Sem permissão para desvincular este condomínio';
+    END IF;
+  ELSE
+    IF NOT is_organization_admin(auth.uid(), p_organization_id) THEN
+      RAISE EXCEPTION 'Apenas administradores da organização podem vincular condomínios';
+    END IF;
+
+    IF v_condo.owner_id <> auth.uid() AND NOT EXISTS (
+      SELECT 1 FROM user_condominiums uc
+      WHERE uc.user_id = auth.uid()
+        AND uc.condominium_id = p_condominium_id
+        AND uc.manager_role = 'administrador'
+    ) THEN
+      RAISE EXCEPTION 'O condomínio precisa ser seu ou ter você como administradora';
+    END IF;
+  END IF;
+
+  UPDATE condominiums SET organization_id = p_organization_id WHERE id = p_condominium_id;
+END;
+$$;
+
+-- Painel da carteira: pendências por condomínio, respeitando as permissões de cada vínculo
+CREATE OR REPLACE FUNCTION public.get_portfolio_summary()
+RETURNS TABLE (
+  condominium_id uuid,
+  condominium_name text,
+  organization_id uuid,
+  pending_packages bigint,
+  open_occurrences bigint,
+  overdue_maintenance bigint,
+  pending_invoices bigint,
+  overdue_invoices bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.condominium_id,
+    m.condominium_name,
+    m.organization_id,
+    CASE WHEN 'packages.manage' = ANY (m.permissions) THEN (
+      SELECT count(*) FROM packages p
+      WHERE p.condominium_id = m.condominium_id AND p.status = 'pendente'
+    ) END,
+    (
+      SELECT count(*) FROM occurrences o
+      WHERE o.condominium_id = m.condominium_id
+        AND o.status IN ('registrada', 'notificado', 'em_defesa')
+    ),
+    CASE WHEN 'maintenance.manage' = ANY (m.permissions) THEN (
+      SELECT count(*) FROM maintenance_tasks t
+      WHERE t.condominium_id = m.condominium_id
+        AND t.is_active
+        AND t.next_due_date < current_date
+        AND NOT (t.maintenance_type = 'corretiva' AND t.last_completed_at IS NOT NULL)
+    ) END,
+    CASE WHEN 'invoices.view' = ANY (m.permissions) THEN (
+      SELECT count(*) FROM invoices i
+      WHERE i.condominium_id = m.condominium_id
+        AND i.status = 'pending'
+        AND i.due_date >= current_date
+    ) END,
+    CASE WHEN 'invoices.view' = ANY (m.permissions) THEN (
+      SELECT count(*) FROM invoices i
+      WHERE i.condominium_id = m.condominium_id
+        AND (i.status = 'overdue' OR (i.status = 'pending' AND i.due_date < current_date))
+    ) END
+  FROM get_managed_condominiums() m
+$$;
+
+-- 3. Faturamento consolidado: uma fatura da organização agrupa as faturas dos condomínios
+CREATE TABLE public.organization_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  amount numeric NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'overdue', 'cancelled')),
+  due_date date NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  description text,
+  paid_at timestamptz,
+  payment_method text,
+  payment_reference text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_invoices_organization ON public.organization_invoices (organization_id, period_start);
+
+ALTER TABLE public.invoices
+  ADD COLUMN organization_invoice_id uuid REFERENCES public.organization_invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_invoices_organization_invoice ON public.invoices (organization_invoice_id);
+
+ALTER TABLE public.organization_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organization_invoices_updated_at
+  BEFORE UPDATE ON public.organization_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- O pagamento da fatura consolidada quita as faturas dos condomínios agrupadas nela
+CREATE OR REPLACE FUNCTION public.sync_organization_invoice_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('paid', 'cancelled') THEN
+    UPDATE invoices
+    SET status = NEW.status,
+        paid_at = CASE WHEN NEW.status = 'paid' THEN coalesce(NEW.paid_at, now()) ELSE paid_at END,
+        payment_method = coalesce(NEW.payment_method, payment_method),
+        payment_reference = coalesce(NEW.payment_reference, payment_reference),
+        updated_at = now()
+    WHERE organization_invoice_id = NEW.id AND status <> NEW.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_organization_invoice_status
+  AFTER UPDATE ON public.organization_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.sync_organization_invoice_status();
+
+-- 4. RLS
+CREATE POLICY "Members can view their organizations"
+  ON public.organizations FOR SELECT
+  USING (public.organization_permissions(auth.uid(), id) IS NOT NULL);
+
+CREATE POLICY "Sindicos can create organizations"
+  ON public.organizations FOR INSERT
+  WITH CHECK (owner_id = auth.uid() AND public.has_role(auth.uid(), 'sindico'::app_role));
+
+CREATE POLICY "Organization admins can update organizations"
+  ON public.organizations FOR UPDATE
+  USING (public.is_organization_admin(auth.uid(), id));
+
+CREATE POLICY "Organization owners can delete organizations"
+  ON public.organizations FOR DELETE
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Super admins can manage organizations"
+  ON public.organizations FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Members can view organization members"
+  ON public.organization_members FOR SELECT
+  USING (public.organization_permissions(auth.uid(), organization_id) IS NOT NULL);
+
+CREATE POLICY "Organization admins can update members"
+  ON public.organization_members FOR UPDATE
+  USING (public.is_organization_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Organization admins can remove members"
+  ON public.organization_members FOR DELETE
+  USING (public.is_organization_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Super admins can manage organization members"
+  ON public.organization_members FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Organization admins can view member profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members om
+      WHERE om.user_id = profiles.user_id
+        AND public.is_organization_admin(auth.uid(), om.organization_id)
+    )
+  );
+
+CREATE POLICY "Members with invoice access can view organization invoices"
+  ON public.organization_invoices FOR SELECT
+  USING ('invoices.view' = ANY (public.organization_permissions(auth.uid(), organization_id)));
+
+CREATE POLICY "Super admins can manage organization invoices"
+  ON public.organization_invoices FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
@@ -0,0 +1,167 @@
+-- =============================================
+-- CONTROLE DE ACESSO DE VISITANTES E PRESTADORES
+-- Moradores pré-autorizam visitantes/prestadores, a portaria registra
+-- entrada e saída (com foto) e o síndico consulta o histórico por unidade.
+-- =============================================
+
+-- 1. Autorizações prévias feitas pelo morador
+CREATE TABLE public.visitor_authorizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  apartment_id UUID NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  resident_id UUID REFERENCES public.residents(id) ON DELETE SET NULL,
+  visitor_type TEXT NOT NULL DEFAULT 'visitante' CHECK (visitor_type IN ('visitante', 'prestador')),
+  visitor_name TEXT NOT NULL,
+  visitor_document TEXT,
+  vehicle_plate TEXT,
+  company TEXT,
+  notes TEXT,
+  valid_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE NOT NULL DEFAULT CURRENT_DATE,
+  status TEXT NOT NULL DEFAULT 'ativa' CHECK (status IN ('ativa', 'cancelada')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT visitor_authorizations_valid_window CHECK (valid_until >= valid_from)
+);
+
+CREATE INDEX idx_visitor_authorizations_condominium_window
+  ON public.visitor_authorizations (condominium_id, valid_from, valid_until)
+  WHERE status = 'ativa';
+
+CREATE INDEX idx_visitor_authorizations_apartment
+  ON public.visitor_authorizations (apartment_id);
+
+ALTER TABLE public.visitor_authorizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view authorizations for their apartment"
+  ON public.visitor_authorizations FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = visitor_authorizations.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can create authorizations for their apartment"
+  ON public.visitor_authorizations FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.id = resident_id
+      AND r.apartment_id = visitor_authorizations.apartment_id
+      AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can update authorizations for their apartment"
+  ON public.visitor_authorizations FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = visitor_authorizations.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view authorizations in assigned condominiums"
+  ON public.visitor_authorizations FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage visitor authorizations"
+  ON public.visitor_authorizations FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Super admins can manage all visitor authorizations"
+  ON public.visitor_authorizations FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_visitor_authorizations_updated_at
+  BEFORE UPDATE ON public.visitor_authorizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Registro de entradas e saídas na portaria
+CREATE TABLE public.visitor_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  apartment_id UUID NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  authorization_id UUID REFERENCES public.visitor_authorizations(id) ON DELETE SET NULL,
+  visitor_type TEXT NOT NULL DEFAULT 'visitante' CHECK (visitor_type IN ('visitante', 'prestador')),
+  visitor_name TEXT NOT NULL,
+  visitor_document TEXT,
+  vehicle_plate TEXT,
+  company TEXT,
+  photo_path TEXT,
+  notes TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  checked_in_by UUID NOT NULL,
+  checked_out_at TIMESTAMP WITH TIME ZONE,
+  checked_out_by UUID,
+  resident_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_visitor_entries_condominium_checked_in
+  ON public.visitor_entries (condominium_id, checked_in_at DESC);
+
+CREATE INDEX idx_visitor_entries_apartment
+  ON public.visitor_entries (apartment_id, checked_in_at DESC);
+
+ALTER TABLE public.visitor_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view entries for their apartment"
+  ON public.visitor_entries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = visitor_entries.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can manage entries in assigned condominiums"
+  ON public.visitor_entries FOR ALL
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage visitor entries"
+  ON public.visitor_entries FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Super admins can manage all visitor entries"
+  ON public.visitor_entries FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- 3. Bucket privado para fotos dos visitantes (caminho: <condominium_id>/<arquivo>)
+INSERT INTO storage.buckets (id, name, public) VALUES ('visitor-photos', 'visitor-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Condominium staff can upload visitor photos"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'visitor-photos' AND (
+  public.user_belongs_to_condominium(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  OR public.has_condominium_permission(auth.uid(), ((storage.foldername(name))[1])::uuid, 'packages.manage')
+  OR public.has_role(auth.uid(), 'super_admin')
+));
+
+CREATE POLICY "Condominium staff can view visitor photos"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'visitor-photos' AND (
+  public.user_belongs_to_condominium(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  OR public.has_condominium_permission(auth.uid(), ((storage.foldername(name))[1])::uuid, 'packages.manage')
+  OR public.has_role(auth.uid(), 'super_admin')
+));
+
+CREATE POLICY "Super admins can delete visitor photos"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'visitor-photos' AND public.has_role(auth.uid(), 'super_admin'));
+
+-- 4. Template de aviso de chegada de visitante
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Chegada de Visitante',
+  'visitor_arrival',
+  'Notificação enviada ao morador quando a portaria registra a entrada de um visitante ou prestador',
+  '🔔 *VISITANTE NA PORTARIA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+A portaria registrou a entrada de *{visitante}* ({tipo}) para a sua unidade {unidade}.
+
+🕐 *Horário:* {horario}
+
+Se você não reconhece esta visita, entre em contato com a portaria imediatamente.',
+  ARRAY['condominio', 'nome', 'visitante', 'tipo', 'unidade', 'horario'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,115 @@
+-- =============================================
+-- CONVITES QR PARA VISITANTES
+-- O morador gera convites com validade e número de usos, compartilha o link
+-- pelo WhatsApp e a portaria valida o QR Code na entrada. Toda leitura é registrada.
+-- =============================================
+
+-- 1. Convites
+CREATE TABLE public.guest_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  apartment_id UUID NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  resident_id UUID REFERENCES public.residents(id) ON DELETE SET NULL,
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  guest_name TEXT NOT NULL,
+  guest_document TEXT,
+  valid_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses BETWEEN 1 AND 50),
+  uses_count INTEGER NOT NULL DEFAULT 0 CHECK (uses_count >= 0),
+  status TEXT NOT NULL DEFAULT 'ativo' CHECK (status IN ('ativo', 'revogado')),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT guest_invitations_valid_window CHECK (valid_until > valid_from),
+  CONSTRAINT guest_invitations_uses_limit CHECK (uses_count <= max_uses)
+);
+
+CREATE INDEX idx_guest_invitations_apartment ON public.guest_invitations (apartment_id, created_at DESC);
+CREATE INDEX idx_guest_invitations_condominium ON public.guest_invitations (condominium_id);
+
+ALTER TABLE public.guest_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view invitations for their apartment"
+  ON public.guest_invitations FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = guest_invitations.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can create invitations for their apartment"
+  ON public.guest_invitations FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.id = resident_id
+      AND r.apartment_id = guest_invitations.apartment_id
+      AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can update invitations for their apartment"
+  ON public.guest_invitations FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = guest_invitations.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view invitations in assigned condominiums"
+  ON public.guest_invitations FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage guest invitations"
+  ON public.guest_invitations FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Super admins can manage all guest invitations"
+  ON public.guest_invitations FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_guest_invitations_updated_at
+  BEFORE UPDATE ON public.guest_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Registro de leituras na portaria (gravado pela edge function validate-guest-invitation)
+CREATE TABLE public.guest_invitation_scan_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token_id UUID NOT NULL,
+  invitation_id UUID REFERENCES public.guest_invitations(id) ON DELETE SET NULL,
+  condominium_id UUID REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  scanned_by UUID,
+  ip_address TEXT,
+  user_agent TEXT,
+  scanned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  success BOOLEAN NOT NULL DEFAULT true,
+  admitted BOOLEAN NOT NULL DEFAULT false,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_guest_invitation_scan_logs_invitation ON public.guest_invitation_scan_logs (invitation_id);
+CREATE INDEX idx_guest_invitation_scan_logs_scanned_at ON public.guest_invitation_scan_logs (scanned_at DESC);
+
+ALTER TABLE public.guest_invitation_scan_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view scans of their invitations"
+  ON public.guest_invitation_scan_logs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.guest_invitations gi
+    JOIN public.residents r ON r.apartment_id = gi.apartment_id
+    WHERE gi.id = guest_invitation_scan_logs.invitation_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view scans in assigned condominiums"
+  ON public.guest_invitation_scan_logs FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view guest invitation scans"
+  ON public.guest_invitation_scan_logs FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Super admins can view all guest invitation scans"
+  ON public.guest_invitation_scan_logs FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- 3. Entradas liberadas por convite
+ALTER TABLE public.visitor_entries
+  ADD COLUMN guest_invitation_id UUID REFERENCES public.guest_invitations(id) ON DELETE SET NULL;
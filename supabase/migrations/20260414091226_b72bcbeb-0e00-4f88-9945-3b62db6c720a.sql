@@ -0,0 +1,99 @@
+-- =============================================
+-- CADASTRO DE VEÍCULOS E VAGAS DE GARAGEM
+-- O síndico (ou gestor com residents.manage) cadastra as vagas e os veículos de cada
+-- unidade; a portaria consulta por placa e as ocorrências podem citar um veículo.
+-- =============================================
+
+-- 1. Vagas de garagem
+CREATE TABLE public.parking_spots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  apartment_id UUID REFERENCES public.apartments(id) ON DELETE SET NULL,
+  code TEXT NOT NULL,
+  location TEXT,
+  spot_type TEXT NOT NULL DEFAULT 'carro' CHECK (spot_type IN ('carro', 'moto')),
+  is_covered BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT parking_spots_code_unique UNIQUE (condominium_id, code)
+);
+
+CREATE INDEX idx_parking_spots_apartment ON public.parking_spots (apartment_id);
+
+ALTER TABLE public.parking_spots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view parking spots of their apartment"
+  ON public.parking_spots FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = parking_spots.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view parking spots in assigned condominiums"
+  ON public.parking_spots FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage parking spots"
+  ON public.parking_spots FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'residents.manage'));
+
+CREATE POLICY "Super admins can manage all parking spots"
+  ON public.parking_spots FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_parking_spots_updated_at
+  BEFORE UPDATE ON public.parking_spots
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Veículos das unidades (placa normalizada: maiúsculas, sem traço nem espaço)
+CREATE TABLE public.vehicles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  apartment_id UUID NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  resident_id UUID REFERENCES public.residents(id) ON DELETE SET NULL,
+  parking_spot_id UUID REFERENCES public.parking_spots(id) ON DELETE SET NULL,
+  plate TEXT NOT NULL CHECK (plate ~ '^[A-Z0-9]{5,8}$'),
+  vehicle_type TEXT NOT NULL DEFAULT 'carro' CHECK (vehicle_type IN ('carro', 'moto', 'outro')),
+  model TEXT,
+  color TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vehicles_plate_unique UNIQUE (condominium_id, plate)
+);
+
+CREATE INDEX idx_vehicles_apartment ON public.vehicles (apartment_id);
+
+ALTER TABLE public.vehicles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view vehicles of their apartment"
+  ON public.vehicles FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = vehicles.apartment_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Porters can view vehicles in assigned condominiums"
+  ON public.vehicles FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage vehicles"
+  ON public.vehicles FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'residents.manage'));
+
+CREATE POLICY "Occurrence registrars can view vehicles"
+  ON public.vehicles FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'occurrences.register'));
+
+CREATE POLICY "Super admins can manage all vehicles"
+  ON public.vehicles FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_vehicles_updated_at
+  BEFORE UPDATE ON public.vehicles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Ocorrências podem citar o veículo envolvido (ex.: estacionado na vaga de outra unidade)
+ALTER TABLE public.occurrences
+  ADD COLUMN vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL;
@@ -0,0 +1,113 @@
+-- =============================================
+-- LOCAIS DE ARMAZENAMENTO E CONFERÊNCIA DE ENCOMENDAS
+-- Cada condomínio cadastra onde as encomendas ficam guardadas (prateleira, armário,
+-- geladeira para perecíveis, área de volumosos). O porteiro informa o local ao
+-- registrar e pode conferir se cada encomenda pendente está onde o sistema indica.
+-- =============================================
+
+-- 1. Locais de armazenamento
+CREATE TABLE public.package_storage_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  location_type TEXT NOT NULL DEFAULT 'prateleira'
+    CHECK (location_type IN ('prateleira', 'armario', 'geladeira', 'volumosos')),
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT package_storage_locations_name_unique UNIQUE (condominium_id, name)
+);
+
+ALTER TABLE public.package_storage_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Porters can view storage locations in assigned condominiums"
+  ON public.package_storage_locations FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage storage locations"
+  ON public.package_storage_locations FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Super admins can manage all storage locations"
+  ON public.package_storage_locations FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_package_storage_locations_updated_at
+  BEFORE UPDATE ON public.package_storage_locations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Local da encomenda
+ALTER TABLE public.packages
+  ADD COLUMN storage_location_id UUID REFERENCES public.package_storage_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_packages_storage_location
+  ON public.packages (storage_location_id)
+  WHERE status = 'pendente';
+
+-- 3. Conferências de inventário
+CREATE TABLE public.package_inventory_audits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  condominium_id UUID NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  performed_by UUID NOT NULL,
+  performed_by_name TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  total_packages INTEGER NOT NULL DEFAULT 0,
+  confirmed_count INTEGER NOT NULL DEFAULT 0,
+  relocated_count INTEGER NOT NULL DEFAULT 0,
+  missing_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_package_inventory_audits_condominium
+  ON public.package_inventory_audits (condominium_id, finished_at DESC);
+
+CREATE TABLE public.package_inventory_audit_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  audit_id UUID NOT NULL REFERENCES public.package_inventory_audits(id) ON DELETE CASCADE,
+  package_id UUID NOT NULL REFERENCES public.packages(id) ON DELETE CASCADE,
+  expected_location_id UUID REFERENCES public.package_storage_locations(id) ON DELETE SET NULL,
+  found_location_id UUID REFERENCES public.package_storage_locations(id) ON DELETE SET NULL,
+  result TEXT NOT NULL CHECK (result IN ('confirmada', 'realocada', 'nao_encontrada')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_package_inventory_audit_items_audit
+  ON public.package_inventory_audit_items (audit_id);
+
+ALTER TABLE public.package_inventory_audits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.package_inventory_audit_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Porters can manage inventory audits in assigned condominiums"
+  ON public.package_inventory_audits FOR ALL
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can view inventory audits"
+  ON public.package_inventory_audits FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'packages.manage'));
+
+CREATE POLICY "Super admins can manage all inventory audits"
+  ON public.package_inventory_audits FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Porters can manage inventory audit items"
+  ON public.package_inventory_audit_items FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.package_inventory_audits a
+    WHERE a.id = package_inventory_audit_items.audit_id
+      AND public.user_belongs_to_condominium(auth.uid(), a.condominium_id)
+  ));
+
+CREATE POLICY "Managers can view inventory audit items"
+  ON public.package_inventory_audit_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.package_inventory_audits a
+    WHERE a.id = package_inventory_audit_items.audit_id
+      AND public.has_condominium_permission(auth.uid(), a.condominium_id, 'packages.manage')
+  ));
+
+CREATE POLICY "Super admins can manage all inventory audit items"
+  ON public.package_inventory_audit_items FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
@@ -0,0 +1,68 @@
+-- =============================================
+-- COMPROVANTE DE RETIRADA DE ENCOMENDAS
+-- Na retirada, a portaria coleta a assinatura de quem está retirando e,
+-- opcionalmente, uma foto. Os arquivos ficam em bucket privado vinculados à
+-- encomenda e o morador recebe um comprovante via WhatsApp.
+-- =============================================
+
+-- 1. Comprovante vinculado à encomenda
+ALTER TABLE public.packages
+  ADD COLUMN pickup_signature_path TEXT,
+  ADD COLUMN pickup_photo_path TEXT,
+  ADD COLUMN pickup_receipt_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Bucket privado (caminho: <condominium_id>/<package_id>/<arquivo>)
+INSERT INTO storage.buckets (id, name, public) VALUES ('package-pickup-proofs', 'package-pickup-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Condominium staff can upload pickup proofs"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'package-pickup-proofs' AND (
+  public.user_belongs_to_condominium(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  OR public.has_condominium_permission(auth.uid(), ((storage.foldername(name))[1])::uuid, 'packages.manage')
+  OR public.has_role(auth.uid(), 'super_admin')
+));
+
+CREATE POLICY "Condominium staff can view pickup proofs"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'package-pickup-proofs' AND (
+  public.user_belongs_to_condominium(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  OR public.has_condominium_permission(auth.uid(), ((storage.foldername(name))[1])::uuid, 'packages.manage')
+  OR public.has_role(auth.uid(), 'super_admin')
+));
+
+CREATE POLICY "Residents can view pickup proofs of their packages"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'package-pickup-proofs' AND EXISTS (
+  SELECT 1 FROM public.packages p
+  JOIN public.residents r ON r.apartment_id = p.apartment_id
+  WHERE p.id = ((storage.foldername(name))[2])::uuid
+    AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Super admins can delete pickup proofs"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'package-pickup-proofs' AND public.has_role(auth.uid(), 'super_admin'));
+
+-- 3. Template do comprovante de retirada
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Comprovante de Retirada',
+  'package_pickup_receipt',
+  'Comprovante enviado ao morador quando a portaria confirma a retirada de uma encomenda',
+  '✅ *ENCOMENDA RETIRADA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+A encomenda da unidade {unidade} foi retirada por *{retirado_por}*.
+
+🕐 *Horário:* {horario}
+✍️ *Comprovante:* {comprovante}
+
+Se você não reconhece esta retirada, entre em contato com a portaria imediatamente.',
+  ARRAY['condominio', 'nome', 'unidade', 'retirado_por', 'horario', 'comprovante'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
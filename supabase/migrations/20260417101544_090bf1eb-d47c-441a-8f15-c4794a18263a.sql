@@ -0,0 +1,27 @@
+-- =============================================
+-- TRANSPORTADORA DA ENCOMENDA
+-- O código de rastreio lido no registro identifica a transportadora
+-- (Correios, Mercado Livre, Amazon, Shopee, Jadlog, AliExpress). A portaria
+-- também é alertada quando o mesmo código já foi registrado no condomínio.
+-- =============================================
+
+-- 1. Transportadora identificada
+ALTER TABLE public.packages
+  ADD COLUMN carrier TEXT
+    CHECK (carrier IN ('correios', 'mercado_livre', 'amazon', 'shopee', 'jadlog', 'aliexpress'));
+
+-- 2. Busca de códigos duplicados no condomínio
+CREATE INDEX idx_packages_condominium_tracking_code
+  ON public.packages (condominium_id, tracking_code)
+  WHERE tracking_code IS NOT NULL;
+
+-- 3. Identifica a transportadora das encomendas já registradas (mesmas regras do app)
+UPDATE public.packages SET carrier = CASE
+  WHEN tracking_code ~ '^[A-Z]{2}[0-9]{9}[A-Z]{2}$' THEN 'correios'
+  WHEN tracking_code ~ '^(SPXBR[0-9]{10,}|BR[0-9]{12,14}[A-Z]?)$' THEN 'shopee'
+  WHEN tracking_code ~ '^TB[ACM][0-9]{12}$' THEN 'amazon'
+  WHEN tracking_code ~ '^(MEL[A-Z0-9_]{8,}|4[0-9]{10})$' THEN 'mercado_livre'
+  WHEN tracking_code ~ '^(LP[0-9]{14}|CNBR[A-Z0-9_]{8,}|YT[0-9]{16})$' THEN 'aliexpress'
+  WHEN tracking_code ~ '^[0-9]{14}$' THEN 'jadlog'
+END
+WHERE tracking_code IS NOT NULL AND carrier IS NULL;
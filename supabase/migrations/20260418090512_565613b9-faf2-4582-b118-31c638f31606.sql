@@ -0,0 +1,28 @@
+-- =============================================
+-- REGISTRO DE ENCOMENDAS EM LOTE
+-- Quando a transportadora entrega várias encomendas de uma vez, a portaria
+-- registra todas em sequência e cada morador recebe uma única mensagem
+-- consolidada ("Você tem 3 encomendas") em vez de uma por encomenda.
+-- =============================================
+
+-- 1. Template da notificação consolidada
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Encomendas em Lote',
+  'package_batch_arrival',
+  'Mensagem única enviada ao morador quando várias encomendas dele são registradas no mesmo lote',
+  '📦 *NOVAS ENCOMENDAS*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+Você tem *{quantidade}* encomenda(s) aguardando retirada na portaria para a unidade {unidade}.
+
+🔑 *Códigos de retirada:* {codigos}
+
+Recebido por: {porteiro}',
+  ARRAY['condominio', 'nome', 'quantidade', 'unidade', 'codigos', 'porteiro'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,74 @@
+-- =============================================
+-- LEMBRETES DE RETIRADA DE ENCOMENDAS
+-- Encomendas pendentes recebem lembretes periódicos; depois de alguns dias
+-- o lembrete passa a ir para todos os moradores da unidade, depois o síndico
+-- é avisado e, por fim, a encomenda vira candidata a devolução ("sem retirada").
+-- =============================================
+
+-- 1. Regras por condomínio
+ALTER TABLE public.condominiums
+  ADD COLUMN package_reminders_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN package_reminder_interval_days integer NOT NULL DEFAULT 2
+    CHECK (package_reminder_interval_days > 0),
+  ADD COLUMN package_escalate_unit_after_days integer NOT NULL DEFAULT 5
+    CHECK (package_escalate_unit_after_days > 0),
+  ADD COLUMN package_escalate_sindico_after_days integer NOT NULL DEFAULT 10
+    CHECK (package_escalate_sindico_after_days > 0),
+  ADD COLUMN package_return_after_days integer NOT NULL DEFAULT 30
+    CHECK (package_return_after_days > 0);
+
+-- 2. Controle dos lembretes (job diário notify-package-pickup-reminders)
+ALTER TABLE public.packages
+  ADD COLUMN reminder_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN last_reminder_at timestamptz,
+  ADD COLUMN escalated_to_unit_at timestamptz,
+  ADD COLUMN escalated_to_sindico_at timestamptz,
+  ADD COLUMN return_candidate_at timestamptz;
+
+CREATE INDEX idx_packages_pending_received_at
+  ON public.packages (received_at)
+  WHERE status = 'pendente';
+
+-- 3. Lembrete ao morador
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Lembrete de Retirada de Encomenda',
+  'package_pickup_reminder',
+  'Lembrete periódico enviado enquanto a encomenda continua aguardando retirada na portaria',
+  '⏰ *ENCOMENDA AGUARDANDO RETIRADA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+Há uma encomenda ({tipo_encomenda}) para a unidade {unidade} aguardando retirada na portaria há *{dias} dia(s)*.
+
+🔑 *Código de retirada:* {codigo}
+
+Por favor, retire assim que possível.',
+  ARRAY['condominio', 'nome', 'unidade', 'dias', 'codigo', 'tipo_encomenda'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
+
+-- 4. Aviso ao síndico sobre encomendas não retiradas
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Encomendas Não Retiradas (Síndico)',
+  'package_unclaimed_sindico',
+  'Resumo enviado ao síndico quando encomendas passam do prazo de escalonamento sem retirada',
+  '📦 *ENCOMENDAS NÃO RETIRADAS*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+*{quantidade}* encomenda(s) estão na portaria há mais de {dias} dia(s) sem retirada, mesmo após os lembretes aos moradores.
+
+🔁 Candidatas a devolução ao remetente: *{sem_retirada}*
+
+Acesse o painel de encomendas para acompanhar.',
+  ARRAY['condominio', 'nome', 'quantidade', 'dias', 'sem_retirada'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
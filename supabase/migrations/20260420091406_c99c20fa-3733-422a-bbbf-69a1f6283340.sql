@@ -0,0 +1,234 @@
+-- =============================================
+-- SALÃO DE FESTAS - Solicitação de reserva pelo morador
+-- O morador consulta a disponibilidade, solicita a data respeitando as regras do
+-- espaço e envia a lista de convidados. A solicitação entra como 'pendente' na
+-- fila de aprovação do síndico, que aprova ou recusa com aviso por WhatsApp.
+-- =============================================
+
+-- 1. Análise da solicitação e lista de convidados
+ALTER TABLE public.party_hall_bookings
+  ADD COLUMN guest_list_path text,
+  ADD COLUMN reviewed_by uuid,
+  ADD COLUMN reviewed_at timestamptz,
+  ADD COLUMN rejection_reason text;
+
+CREATE INDEX idx_party_hall_bookings_setting_date
+  ON public.party_hall_bookings (party_hall_setting_id, booking_date)
+  WHERE status IN ('pendente', 'confirmada', 'em_uso');
+
+-- 2. Morador só cria reservas pela função abaixo (regras validadas no servidor)
+DROP POLICY IF EXISTS "Residents can create bookings" ON public.party_hall_bookings;
+
+-- 3. Disponibilidade sem dados de outros moradores
+CREATE OR REPLACE FUNCTION public.get_party_hall_availability(p_setting_id uuid, p_from date, p_to date)
+RETURNS TABLE (booking_date date, start_time time, end_time time, status text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condominium_id uuid;
+BEGIN
+  SELECT s.condominium_id INTO v_condominium_id FROM party_hall_settings s WHERE s.id = p_setting_id;
+  IF v_condominium_id IS NULL THEN
+    RAISE EXCEPTION 'Espaço não encontrado';
+  END IF;
+
+  IF NOT (
+    public.is_resident_of_condominium(auth.uid(), v_condominium_id)
+    OR public.has_condominium_permission(auth.uid(), v_condominium_id, 'party_hall.manage')
+    OR public.has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.booking_date, b.start_time, b.end_time, b.status
+  FROM party_hall_bookings b
+  WHERE b.party_hall_setting_id = p_setting_id
+    AND b.booking_date BETWEEN p_from AND p_to
+    AND b.status IN ('pendente', 'confirmada', 'em_uso')
+  ORDER BY b.booking_date;
+END;
+$$;
+
+-- 4. Solicitação de reserva pelo morador
+CREATE OR REPLACE FUNCTION public.request_party_hall_booking(
+  p_resident_id uuid,
+  p_setting_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_end_time time,
+  p_guest_count integer DEFAULT NULL,
+  p_observations text DEFAULT NULL,
+  p_guest_list_path text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_setting party_hall_settings%ROWTYPE;
+  v_resident residents%ROWTYPE;
+  v_condominium_id uuid;
+  v_booking_id uuid;
+BEGIN
+  SELECT * INTO v_resident FROM residents WHERE id = p_resident_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Perfil de morador não encontrado';
+  END IF;
+
+  SELECT b.condominium_id INTO v_condominium_id
+  FROM apartments a
+  JOIN blocks b ON b.id = a.block_id
+  WHERE a.id = v_resident.apartment_id;
+
+  SELECT * INTO v_setting FROM party_hall_settings WHERE id = p_setting_id;
+  IF NOT FOUND OR NOT v_setting.is_active OR v_setting.condominium_id <> v_condominium_id THEN
+    RAISE EXCEPTION 'Espaço indisponível para reservas';
+  END IF;
+
+  IF p_booking_date < current_date + coalesce(v_setting.advance_days_required, 1) THEN
+    RAISE EXCEPTION 'A reserva deve ser feita com pelo menos % dia(s) de antecedência', coalesce(v_setting.advance_days_required, 1);
+  END IF;
+
+  IF p_start_time >= p_end_time
+    OR p_start_time < coalesce(v_setting.check_in_time, '00:00')
+    OR p_end_time > coalesce(v_setting.check_out_time, '23:59') THEN
+    RAISE EXCEPTION 'O horário deve estar entre % e %',
+      to_char(coalesce(v_setting.check_in_time, '00:00'), 'HH24:MI'),
+      to_char(coalesce(v_setting.check_out_time, '23:59'), 'HH24:MI');
+  END IF;
+
+  IF v_setting.max_guests IS NOT NULL AND coalesce(p_guest_count, 0) > v_setting.max_guests THEN
+    RAISE EXCEPTION 'O número de convidados não pode exceder %', v_setting.max_guests;
+  END IF;
+
+  -- A lista de convidados precisa estar na pasta do próprio morador
+  IF p_guest_list_path IS NOT NULL
+    AND p_guest_list_path NOT LIKE v_condominium_id::text || '/' || p_resident_id::text || '/%' THEN
+    RAISE EXCEPTION 'Lista de convidados inválida';
+  END IF;
+
+  -- Serializa pedidos simultâneos para o mesmo espaço e data
+  PERFORM pg_advisory_xact_lock(hashtext(p_setting_id::text || p_booking_date::text));
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_bookings
+    WHERE party_hall_setting_id = p_setting_id
+      AND booking_date = p_booking_date
+      AND status IN ('pendente', 'confirmada', 'em_uso')
+  ) THEN
+    RAISE EXCEPTION 'Esta data já foi reservada. Por favor, escolha outra data.';
+  END IF;
+
+  INSERT INTO party_hall_bookings (
+    condominium_id, resident_id, party_hall_setting_id, booking_date, start_time, end_time,
+    guest_count, observations, guest_list_path, status
+  )
+  VALUES (
+    v_condominium_id, p_resident_id, p_setting_id, p_booking_date, p_start_time, p_end_time,
+    nullif(p_guest_count, 0), nullif(btrim(p_observations), ''), p_guest_list_path, 'pendente'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- 5. Cancelamento pelo próprio morador (antes da data)
+CREATE OR REPLACE FUNCTION public.cancel_own_party_hall_booking(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE party_hall_bookings b
+  SET status = 'cancelada'
+  FROM residents r
+  WHERE b.id = p_booking_id
+    AND r.id = b.resident_id
+    AND r.user_id = auth.uid()
+    AND b.status IN ('pendente', 'confirmada')
+    AND b.booking_date > current_date;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Esta reserva não pode mais ser cancelada';
+  END IF;
+END;
+$$;
+
+-- 6. Listas de convidados ({condominium_id}/{resident_id}/arquivo)
+INSERT INTO storage.buckets (id, name, public) VALUES ('party-hall-guest-lists', 'party-hall-guest-lists', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Residents can upload own guest lists"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'party-hall-guest-lists' AND EXISTS (
+  SELECT 1 FROM public.residents r
+  WHERE r.id::text = (storage.foldername(name))[2] AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Residents and managers can view guest lists"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'party-hall-guest-lists' AND (
+  EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.id::text = (storage.foldername(name))[2] AND r.user_id = auth.uid()
+  )
+  OR public.has_condominium_permission(auth.uid(), ((storage.foldername(name))[1])::uuid, 'party_hall.manage')
+  OR public.has_role(auth.uid(), 'super_admin')
+));
+
+-- 7. Avisos de aprovação e recusa
+ALTER TABLE public.party_hall_notifications
+  DROP CONSTRAINT IF EXISTS party_hall_notifications_notification_type_check;
+ALTER TABLE public.party_hall_notifications
+  ADD CONSTRAINT party_hall_notifications_notification_type_check
+  CHECK (notification_type IN ('reminder', 'cancelled', 'confirmed', 'rejected'));
+
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Reserva Aprovada',
+  'party_hall_approved',
+  'Enviado ao morador quando o síndico aprova a solicitação de reserva do espaço',
+  '✅ *RESERVA APROVADA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+Sua solicitação de reserva do *{espaco}* foi aprovada.
+
+📅 *Data:* {data}
+🕐 *Horário:* {horario_inicio} às {horario_fim}
+
+Você receberá um lembrete na véspera com o checklist do espaço.',
+  ARRAY['condominio', 'nome', 'espaco', 'data', 'horario_inicio', 'horario_fim'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Reserva Recusada',
+  'party_hall_rejected',
+  'Enviado ao morador quando o síndico recusa a solicitação de reserva do espaço',
+  '❌ *RESERVA NÃO APROVADA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+Sua solicitação de reserva do *{espaco}* para {data} não foi aprovada.
+
+📝 *Motivo:* {motivo}
+
+Você pode solicitar outra data pelo aplicativo.',
+  ARRAY['condominio', 'nome', 'espaco', 'data', 'motivo'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,128 @@
+-- =============================================
+-- SALÃO DE FESTAS - Cobrança da taxa de locação e caução
+-- Cada reserva guarda a taxa e a caução vigentes no momento da solicitação.
+-- O morador paga por PIX (Mercado Pago do condomínio) ou pede o lançamento no
+-- boleto do condomínio. A caução fica em garantia até o checklist de saída,
+-- quando o síndico decide pela devolução ou retenção (total ou parcial).
+-- =============================================
+
+-- 1. Caução configurável por espaço
+ALTER TABLE public.party_hall_settings
+  ADD COLUMN IF NOT EXISTS deposit_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+-- 2. Cobrança e caução da reserva
+ALTER TABLE public.party_hall_bookings
+  ADD COLUMN fee_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN deposit_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN payment_method text CHECK (payment_method IN ('pix', 'boleto_condominio')),
+  ADD COLUMN payment_status text NOT NULL DEFAULT 'isento'
+    CHECK (payment_status IN ('pendente', 'lancado_boleto', 'pago', 'isento')),
+  ADD COLUMN paid_at timestamptz,
+  ADD COLUMN payment_reference text,
+  ADD COLUMN deposit_status text NOT NULL DEFAULT 'nao_aplicavel'
+    CHECK (deposit_status IN ('nao_aplicavel', 'em_garantia', 'devolvido', 'retido')),
+  ADD COLUMN deposit_retained_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN deposit_notes text,
+  ADD COLUMN deposit_decided_by uuid,
+  ADD COLUMN deposit_decided_at timestamptz,
+  ADD CONSTRAINT party_hall_bookings_deposit_retained_check
+    CHECK (deposit_retained_amount >= 0 AND deposit_retained_amount <= deposit_amount);
+
+-- 3. Valores copiados do espaço na criação (reservas anteriores ficam isentas)
+CREATE OR REPLACE FUNCTION public.set_party_hall_booking_charges()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT coalesce(s.rental_fee, 0), coalesce(s.deposit_amount, 0)
+  INTO NEW.fee_amount, NEW.deposit_amount
+  FROM party_hall_settings s
+  WHERE s.id = NEW.party_hall_setting_id;
+
+  NEW.fee_amount := coalesce(NEW.fee_amount, 0);
+  NEW.deposit_amount := coalesce(NEW.deposit_amount, 0);
+  NEW.payment_status := CASE WHEN NEW.fee_amount + NEW.deposit_amount > 0 THEN 'pendente' ELSE 'isento' END;
+  NEW.deposit_status := CASE WHEN NEW.deposit_amount > 0 THEN 'em_garantia' ELSE 'nao_aplicavel' END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_party_hall_booking_charges
+  BEFORE INSERT ON public.party_hall_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_party_hall_booking_charges();
+
+-- 4. Forma de pagamento escolhida pelo morador
+CREATE OR REPLACE FUNCTION public.choose_party_hall_payment_method(p_booking_id uuid, p_payment_method text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_payment_method NOT IN ('pix', 'boleto_condominio') THEN
+    RAISE EXCEPTION 'Forma de pagamento inválida';
+  END IF;
+
+  UPDATE party_hall_bookings b
+  SET payment_method = p_payment_method
+  FROM residents r
+  WHERE b.id = p_booking_id
+    AND r.id = b.resident_id
+    AND r.user_id = auth.uid()
+    AND b.payment_status = 'pendente'
+    AND b.status <> 'cancelada';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A forma de pagamento desta reserva não pode mais ser alterada';
+  END IF;
+END;
+$$;
+
+-- 5. Cobranças PIX geradas para reservas
+CREATE TABLE public.party_hall_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.party_hall_bookings(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  resident_id uuid REFERENCES public.residents(id) ON DELETE SET NULL,
+  provider text NOT NULL DEFAULT 'mercadopago',
+  provider_payment_id text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  amount numeric(10,2) NOT NULL,
+  qr_code text,
+  qr_code_base64 text,
+  ticket_url text,
+  expires_at timestamptz,
+  paid_at timestamptz,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_party_hall_payments_provider_payment ON public.party_hall_payments (provider, provider_payment_id);
+CREATE INDEX idx_party_hall_payments_booking ON public.party_hall_payments (booking_id, created_at DESC);
+
+ALTER TABLE public.party_hall_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view party hall payments"
+  ON public.party_hall_payments FOR SELECT
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Residents can view own party hall payments"
+  ON public.party_hall_payments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    JOIN public.residents r ON r.id = b.resident_id
+    WHERE b.id = party_hall_payments.booking_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Super admins can view all party hall payments"
+  ON public.party_hall_payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_party_hall_payments_updated_at
+  BEFORE UPDATE ON public.party_hall_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
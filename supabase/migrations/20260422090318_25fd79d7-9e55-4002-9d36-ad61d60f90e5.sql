@@ -0,0 +1,192 @@
+-- =============================================
+-- SALÃO DE FESTAS - Lista nominal de convidados e entrada pela portaria
+-- O morador cadastra os convidados da reserva (limitados à capacidade do espaço),
+-- a portaria consulta os eventos do dia e registra a chegada de cada convidado,
+-- e o síndico vê o resumo de presença na reserva.
+-- =============================================
+
+-- 1. Convidados da reserva
+CREATE TABLE public.party_hall_guests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.party_hall_bookings(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  guest_name text NOT NULL CHECK (btrim(guest_name) <> ''),
+  guest_document text,
+  checked_in_at timestamptz,
+  checked_in_by uuid,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_party_hall_guests_booking ON public.party_hall_guests (booking_id, guest_name);
+
+-- 2. Capacidade do espaço e edição só antes do evento
+CREATE OR REPLACE FUNCTION public.enforce_party_hall_guest_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking party_hall_bookings%ROWTYPE;
+  v_max_guests integer;
+  v_guest_count integer;
+BEGIN
+  -- Serializa inclusões simultâneas na mesma reserva
+  SELECT * INTO v_booking FROM party_hall_bookings WHERE id = NEW.booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reserva não encontrada';
+  END IF;
+
+  IF v_booking.status NOT IN ('pendente', 'confirmada', 'em_uso') THEN
+    RAISE EXCEPTION 'A lista de convidados desta reserva não pode mais ser alterada';
+  END IF;
+
+  NEW.condominium_id := v_booking.condominium_id;
+  NEW.guest_name := btrim(NEW.guest_name);
+
+  SELECT s.max_guests INTO v_max_guests FROM party_hall_settings s WHERE s.id = v_booking.party_hall_setting_id;
+  SELECT count(*) INTO v_guest_count FROM party_hall_guests WHERE booking_id = NEW.booking_id;
+
+  IF v_max_guests IS NOT NULL AND v_guest_count >= v_max_guests THEN
+    RAISE EXCEPTION 'A lista de convidados atingiu a capacidade máxima do espaço (% pessoas)', v_max_guests;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_party_hall_guest_limit
+  BEFORE INSERT ON public.party_hall_guests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_party_hall_guest_limit();
+
+ALTER TABLE public.party_hall_guests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view guests of own bookings"
+  ON public.party_hall_guests FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    JOIN public.residents r ON r.id = b.resident_id
+    WHERE b.id = party_hall_guests.booking_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Residents can add guests to own upcoming bookings"
+  ON public.party_hall_guests FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    JOIN public.residents r ON r.id = b.resident_id
+    WHERE b.id = party_hall_guests.booking_id
+      AND r.user_id = auth.uid()
+      AND b.booking_date >= current_date
+  ) AND checked_in_at IS NULL);
+
+CREATE POLICY "Residents can remove guests not yet arrived"
+  ON public.party_hall_guests FOR DELETE
+  USING (checked_in_at IS NULL AND EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    JOIN public.residents r ON r.id = b.resident_id
+    WHERE b.id = party_hall_guests.booking_id
+      AND r.user_id = auth.uid()
+      AND b.booking_date >= current_date
+  ));
+
+CREATE POLICY "Porters can view guests in assigned condominiums"
+  ON public.party_hall_guests FOR SELECT
+  USING (public.user_belongs_to_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage party hall guests"
+  ON public.party_hall_guests FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Super admins can manage all party hall guests"
+  ON public.party_hall_guests FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- 3. Eventos do dia para a portaria (sem acesso às demais reservas)
+CREATE OR REPLACE FUNCTION public.get_party_hall_events_today(p_condominium_id uuid)
+RETURNS TABLE (
+  booking_id uuid,
+  space_name text,
+  start_time time,
+  end_time time,
+  status text,
+  resident_name text,
+  block_name text,
+  apartment_number text,
+  max_guests integer,
+  guest_total bigint,
+  guest_checked_in bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.user_belongs_to_condominium(auth.uid(), p_condominium_id)
+    OR public.has_condominium_permission(auth.uid(), p_condominium_id, 'party_hall.manage')
+    OR public.has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id, s.name, b.start_time, b.end_time, b.status,
+    r.full_name, bl.name, a.number, s.max_guests,
+    (SELECT count(*) FROM party_hall_guests g WHERE g.booking_id = b.id),
+    (SELECT count(*) FROM party_hall_guests g WHERE g.booking_id = b.id AND g.checked_in_at IS NOT NULL)
+  FROM party_hall_bookings b
+  JOIN party_hall_settings s ON s.id = b.party_hall_setting_id
+  JOIN residents r ON r.id = b.resident_id
+  LEFT JOIN apartments a ON a.id = r.apartment_id
+  LEFT JOIN blocks bl ON bl.id = a.block_id
+  WHERE b.condominium_id = p_condominium_id
+    AND b.booking_date = current_date
+    AND b.status IN ('confirmada', 'em_uso', 'finalizada')
+  ORDER BY b.start_time;
+END;
+$$;
+
+-- 4. Entrada do convidado registrada pela portaria no dia do evento
+CREATE OR REPLACE FUNCTION public.check_in_party_hall_guest(p_guest_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_guest party_hall_guests%ROWTYPE;
+  v_booking party_hall_bookings%ROWTYPE;
+  v_checked_in_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_guest FROM party_hall_guests WHERE id = p_guest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convidado não encontrado';
+  END IF;
+
+  IF NOT (
+    public.user_belongs_to_condominium(auth.uid(), v_guest.condominium_id)
+    OR public.has_condominium_permission(auth.uid(), v_guest.condominium_id, 'party_hall.manage')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  IF v_guest.checked_in_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A entrada deste convidado já foi registrada';
+  END IF;
+
+  SELECT * INTO v_booking FROM party_hall_bookings WHERE id = v_guest.booking_id;
+  IF v_booking.booking_date <> current_date OR v_booking.status NOT IN ('confirmada', 'em_uso') THEN
+    RAISE EXCEPTION 'A entrada só pode ser registrada no dia de uma reserva confirmada';
+  END IF;
+
+  UPDATE party_hall_guests
+  SET checked_in_at = v_checked_in_at, checked_in_by = auth.uid()
+  WHERE id = p_guest_id;
+
+  RETURN v_checked_in_at;
+END;
+$$;
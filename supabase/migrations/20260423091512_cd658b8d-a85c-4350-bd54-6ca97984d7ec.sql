@@ -0,0 +1,265 @@
+-- =============================================
+-- ÁREAS COMUNS - Espaços reserváveis além do salão de festas
+-- Churrasqueira, quadra, espaço gourmet, academia e outros espaços usam o mesmo
+-- cadastro do salão, com reserva por dia inteiro ou por horário e regras próprias:
+-- limite de reservas por unidade no mês, intervalo mínimo entre reservas da mesma
+-- unidade e datas bloqueadas. Checklists e avisos por WhatsApp são os mesmos.
+-- =============================================
+
+-- 1. Tipo de área, modalidade de reserva e regras do espaço
+ALTER TABLE public.party_hall_settings
+  ADD COLUMN area_type text NOT NULL DEFAULT 'salao_festas'
+    CHECK (area_type IN ('salao_festas', 'churrasqueira', 'quadra', 'espaco_gourmet', 'academia', 'piscina', 'outro')),
+  ADD COLUMN booking_mode text NOT NULL DEFAULT 'dia_inteiro'
+    CHECK (booking_mode IN ('dia_inteiro', 'por_horario')),
+  ADD COLUMN slot_duration_minutes integer NOT NULL DEFAULT 60
+    CHECK (slot_duration_minutes BETWEEN 15 AND 720),
+  ADD COLUMN max_bookings_per_unit_month integer
+    CHECK (max_bookings_per_unit_month > 0),
+  ADD COLUMN cooldown_days integer NOT NULL DEFAULT 0
+    CHECK (cooldown_days >= 0);
+
+-- 2. Datas bloqueadas pelo síndico (manutenção, eventos do condomínio)
+CREATE TABLE public.party_hall_blackout_dates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  party_hall_setting_id uuid NOT NULL REFERENCES public.party_hall_settings(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  blackout_date date NOT NULL,
+  reason text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (party_hall_setting_id, blackout_date)
+);
+
+ALTER TABLE public.party_hall_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view blackout dates of their condominium"
+  ON public.party_hall_blackout_dates FOR SELECT
+  USING (public.is_resident_of_condominium(auth.uid(), condominium_id));
+
+CREATE POLICY "Managers can manage blackout dates"
+  ON public.party_hall_blackout_dates FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Super admins can manage all blackout dates"
+  ON public.party_hall_blackout_dates FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- 3. Itens de checklist de um espaço específico (NULL vale para todos os espaços)
+ALTER TABLE public.party_hall_checklist_templates
+  ADD COLUMN party_hall_setting_id uuid REFERENCES public.party_hall_settings(id) ON DELETE CASCADE;
+
+-- 4. Conflito de data ou horário vale para reservas do morador e do síndico
+CREATE OR REPLACE FUNCTION public.prevent_party_hall_booking_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_mode text;
+BEGIN
+  IF NEW.status NOT IN ('pendente', 'confirmada', 'em_uso') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mudanças só de status (aprovação, início de uso) não alteram a ocupação
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('pendente', 'confirmada', 'em_uso')
+    AND NEW.party_hall_setting_id = OLD.party_hall_setting_id
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.start_time = OLD.start_time
+    AND NEW.end_time = OLD.end_time THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.booking_mode INTO v_booking_mode FROM party_hall_settings s WHERE s.id = NEW.party_hall_setting_id;
+
+  -- Serializa pedidos simultâneos para o mesmo espaço e data
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.party_hall_setting_id::text || NEW.booking_date::text));
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_bookings b
+    WHERE b.party_hall_setting_id = NEW.party_hall_setting_id
+      AND b.booking_date = NEW.booking_date
+      AND b.id <> NEW.id
+      AND b.status IN ('pendente', 'confirmada', 'em_uso')
+      AND (v_booking_mode = 'dia_inteiro' OR (b.start_time < NEW.end_time AND b.end_time > NEW.start_time))
+  ) THEN
+    IF v_booking_mode = 'por_horario' THEN
+      RAISE EXCEPTION 'Este horário já foi reservado. Por favor, escolha outro horário.';
+    END IF;
+    RAISE EXCEPTION 'Esta data já foi reservada. Por favor, escolha outra data.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_party_hall_booking_conflict
+  BEFORE INSERT OR UPDATE OF party_hall_setting_id, booking_date, start_time, end_time, status
+  ON public.party_hall_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_party_hall_booking_conflict();
+
+-- 5. Solicitação do morador com as regras do espaço
+CREATE OR REPLACE FUNCTION public.request_party_hall_booking(
+  p_resident_id uuid,
+  p_setting_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_end_time time,
+  p_guest_count integer DEFAULT NULL,
+  p_observations text DEFAULT NULL,
+  p_guest_list_path text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_setting party_hall_settings%ROWTYPE;
+  v_resident residents%ROWTYPE;
+  v_condominium_id uuid;
+  v_check_in time;
+  v_check_out time;
+  v_blackout_reason text;
+  v_month_count integer;
+  v_booking_id uuid;
+BEGIN
+  SELECT * INTO v_resident FROM residents WHERE id = p_resident_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Perfil de morador não encontrado';
+  END IF;
+
+  SELECT b.condominium_id INTO v_condominium_id
+  FROM apartments a
+  JOIN blocks b ON b.id = a.block_id
+  WHERE a.id = v_resident.apartment_id;
+
+  SELECT * INTO v_setting FROM party_hall_settings WHERE id = p_setting_id;
+  IF NOT FOUND OR NOT v_setting.is_active OR v_setting.condominium_id <> v_condominium_id THEN
+    RAISE EXCEPTION 'Espaço indisponível para reservas';
+  END IF;
+
+  IF p_booking_date < current_date + coalesce(v_setting.advance_days_required, 1) THEN
+    RAISE EXCEPTION 'A reserva deve ser feita com pelo menos % dia(s) de antecedência', coalesce(v_setting.advance_days_required, 1);
+  END IF;
+
+  SELECT coalesce(d.reason, 'data bloqueada pela administração') INTO v_blackout_reason
+  FROM party_hall_blackout_dates d
+  WHERE d.party_hall_setting_id = p_setting_id AND d.blackout_date = p_booking_date;
+  IF FOUND THEN
+    RAISE EXCEPTION 'O espaço não está disponível nesta data (%)', v_blackout_reason;
+  END IF;
+
+  v_check_in := coalesce(v_setting.check_in_time, '00:00');
+  v_check_out := coalesce(v_setting.check_out_time, '23:59');
+
+  IF p_start_time >= p_end_time OR p_start_time < v_check_in OR p_end_time > v_check_out THEN
+    RAISE EXCEPTION 'O horário deve estar entre % e %', to_char(v_check_in, 'HH24:MI'), to_char(v_check_out, 'HH24:MI');
+  END IF;
+
+  -- Espaços por horário são reservados em blocos a partir da abertura
+  IF v_setting.booking_mode = 'por_horario' AND (
+    (extract(epoch FROM p_start_time - v_check_in)::integer / 60) % v_setting.slot_duration_minutes <> 0
+    OR (extract(epoch FROM p_end_time - v_check_in)::integer / 60) % v_setting.slot_duration_minutes <> 0
+  ) THEN
+    RAISE EXCEPTION 'O horário deve seguir blocos de % minutos a partir das %',
+      v_setting.slot_duration_minutes, to_char(v_check_in, 'HH24:MI');
+  END IF;
+
+  IF v_setting.max_guests IS NOT NULL AND coalesce(p_guest_count, 0) > v_setting.max_guests THEN
+    RAISE EXCEPTION 'O número de convidados não pode exceder %', v_setting.max_guests;
+  END IF;
+
+  -- A lista de convidados precisa estar na pasta do próprio morador
+  IF p_guest_list_path IS NOT NULL
+    AND p_guest_list_path NOT LIKE v_condominium_id::text || '/' || p_resident_id::text || '/%' THEN
+    RAISE EXCEPTION 'Lista de convidados inválida';
+  END IF;
+
+  -- Limites por unidade contam reservas de todos os moradores do apartamento
+  PERFORM pg_advisory_xact_lock(hashtext(p_setting_id::text || v_resident.apartment_id::text));
+
+  IF v_setting.max_bookings_per_unit_month IS NOT NULL THEN
+    SELECT count(*) INTO v_month_count
+    FROM party_hall_bookings b
+    JOIN residents r ON r.id = b.resident_id
+    WHERE b.party_hall_setting_id = p_setting_id
+      AND r.apartment_id = v_resident.apartment_id
+      AND b.status IN ('pendente', 'confirmada', 'em_uso', 'finalizada')
+      AND date_trunc('month', b.booking_date) = date_trunc('month', p_booking_date);
+
+    IF v_month_count >= v_setting.max_bookings_per_unit_month THEN
+      RAISE EXCEPTION 'Sua unidade já atingiu o limite de % reserva(s) deste espaço no mês', v_setting.max_bookings_per_unit_month;
+    END IF;
+  END IF;
+
+  IF v_setting.cooldown_days > 0 AND EXISTS (
+    SELECT 1
+    FROM party_hall_bookings b
+    JOIN residents r ON r.id = b.resident_id
+    WHERE b.party_hall_setting_id = p_setting_id
+      AND r.apartment_id = v_resident.apartment_id
+      AND b.status IN ('pendente', 'confirmada', 'em_uso', 'finalizada')
+      AND abs(b.booking_date - p_booking_date) < v_setting.cooldown_days
+  ) THEN
+    RAISE EXCEPTION 'É preciso um intervalo de pelo menos % dia(s) entre as reservas deste espaço pela mesma unidade', v_setting.cooldown_days;
+  END IF;
+
+  -- Conflito de data ou horário é verificado por prevent_party_hall_booking_conflict
+  INSERT INTO party_hall_bookings (
+    condominium_id, resident_id, party_hall_setting_id, booking_date, start_time, end_time,
+    guest_count, observations, guest_list_path, status
+  )
+  VALUES (
+    v_condominium_id, p_resident_id, p_setting_id, p_booking_date, p_start_time, p_end_time,
+    nullif(p_guest_count, 0), nullif(btrim(p_observations), ''), p_guest_list_path, 'pendente'
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- 6. Disponibilidade inclui as datas bloqueadas
+CREATE OR REPLACE FUNCTION public.get_party_hall_availability(p_setting_id uuid, p_from date, p_to date)
+RETURNS TABLE (booking_date date, start_time time, end_time time, status text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condominium_id uuid;
+BEGIN
+  SELECT s.condominium_id INTO v_condominium_id FROM party_hall_settings s WHERE s.id = p_setting_id;
+  IF v_condominium_id IS NULL THEN
+    RAISE EXCEPTION 'Espaço não encontrado';
+  END IF;
+
+  IF NOT (
+    public.is_resident_of_condominium(auth.uid(), v_condominium_id)
+    OR public.has_condominium_permission(auth.uid(), v_condominium_id, 'party_hall.manage')
+    OR public.has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.booking_date, b.start_time, b.end_time, b.status
+  FROM party_hall_bookings b
+  WHERE b.party_hall_setting_id = p_setting_id
+    AND b.booking_date BETWEEN p_from AND p_to
+    AND b.status IN ('pendente', 'confirmada', 'em_uso')
+  UNION ALL
+  SELECT d.blackout_date, s.check_in_time, s.check_out_time, 'bloqueada'::text
+  FROM party_hall_blackout_dates d
+  JOIN party_hall_settings s ON s.id = d.party_hall_setting_id
+  WHERE d.party_hall_setting_id = p_setting_id
+    AND d.blackout_date BETWEEN p_from AND p_to
+  ORDER BY 1, 2;
+END;
+$$;
@@ -0,0 +1,358 @@
+-- =============================================
+-- ÁREAS COMUNS - Lista de espera para datas e horários ocupados
+-- O morador entra na fila de uma data (ou horário) já reservada. Quando a
+-- reserva é cancelada, a vaga é oferecida ao primeiro da fila, que recebe um
+-- aviso pelo WhatsApp e tem um prazo para confirmar; se não confirmar, a vaga
+-- passa para o próximo. O síndico acompanha a fila de cada espaço.
+-- =============================================
+
+-- 1. Prazo para o morador confirmar a vaga oferecida
+ALTER TABLE public.party_hall_settings
+  ADD COLUMN waitlist_claim_hours integer NOT NULL DEFAULT 24
+    CHECK (waitlist_claim_hours BETWEEN 1 AND 168);
+
+-- 2. Fila de espera
+CREATE TABLE public.party_hall_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  party_hall_setting_id uuid NOT NULL REFERENCES public.party_hall_settings(id) ON DELETE CASCADE,
+  condominium_id uuid NOT NULL REFERENCES public.condominiums(id) ON DELETE CASCADE,
+  resident_id uuid NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+  booking_date date NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  status text NOT NULL DEFAULT 'aguardando'
+    CHECK (status IN ('aguardando', 'oferecida', 'reservada', 'expirada', 'cancelada')),
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  offer_notified_at timestamptz,
+  booking_id uuid REFERENCES public.party_hall_bookings(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (start_time < end_time)
+);
+
+CREATE INDEX idx_party_hall_waitlist_queue
+  ON public.party_hall_waitlist (party_hall_setting_id, booking_date, created_at)
+  WHERE status IN ('aguardando', 'oferecida');
+
+CREATE INDEX idx_party_hall_waitlist_resident ON public.party_hall_waitlist (resident_id, booking_date);
+
+ALTER TABLE public.party_hall_waitlist ENABLE ROW LEVEL SECURITY;
+
+-- Entrada, desistência e confirmação passam pelas funções abaixo
+CREATE POLICY "Residents can view own waitlist entries"
+  ON public.party_hall_waitlist FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.id = party_hall_waitlist.resident_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Managers can manage waitlist"
+  ON public.party_hall_waitlist FOR ALL
+  USING (public.has_condominium_permission(auth.uid(), condominium_id, 'party_hall.manage'));
+
+CREATE POLICY "Super admins can manage all waitlist entries"
+  ON public.party_hall_waitlist FOR ALL
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- 3. Oferta da vaga ao próximo da fila
+-- Chamada quando uma reserva deixa de ocupar o espaço e pelo job
+-- notify-party-hall-waitlist, que também envia o aviso pelo WhatsApp.
+CREATE OR REPLACE FUNCTION public.offer_party_hall_waitlist(p_setting_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry record;
+  v_offered integer := 0;
+BEGIN
+  -- Evita oferecer a mesma vaga duas vezes em chamadas simultâneas
+  PERFORM pg_advisory_xact_lock(hashtext('party_hall_waitlist'));
+
+  -- Prazo de confirmação vencido: a vez passa para o próximo da fila
+  UPDATE party_hall_waitlist w
+  SET status = 'expirada'
+  WHERE w.status = 'oferecida'
+    AND w.offer_expires_at < now()
+    AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id);
+
+  -- Datas que já não respeitam a antecedência mínima não podem mais ser reservadas
+  UPDATE party_hall_waitlist w
+  SET status = 'expirada'
+  FROM party_hall_settings s
+  WHERE s.id = w.party_hall_setting_id
+    AND w.status = 'aguardando'
+    AND w.booking_date < current_date + coalesce(s.advance_days_required, 1)
+    AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id);
+
+  FOR v_entry IN
+    SELECT w.id, w.party_hall_setting_id, w.booking_date, w.start_time, w.end_time,
+      s.booking_mode, s.waitlist_claim_hours
+    FROM party_hall_waitlist w
+    JOIN party_hall_settings s ON s.id = w.party_hall_setting_id
+    WHERE w.status = 'aguardando'
+      AND s.is_active
+      AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id)
+    ORDER BY w.created_at
+  LOOP
+    -- Quem está à frente na fila já recebeu a oferta desta vaga
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM party_hall_waitlist o
+      WHERE o.party_hall_setting_id = v_entry.party_hall_setting_id
+        AND o.booking_date = v_entry.booking_date
+        AND o.status = 'oferecida'
+        AND (v_entry.booking_mode = 'dia_inteiro' OR (o.start_time < v_entry.end_time AND o.end_time > v_entry.start_time))
+    );
+
+    -- A vaga continua ocupada
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM party_hall_bookings b
+      WHERE b.party_hall_setting_id = v_entry.party_hall_setting_id
+        AND b.booking_date = v_entry.booking_date
+        AND b.status IN ('pendente', 'confirmada', 'em_uso')
+        AND (v_entry.booking_mode = 'dia_inteiro' OR (b.start_time < v_entry.end_time AND b.end_time > v_entry.start_time))
+    );
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM party_hall_blackout_dates d
+      WHERE d.party_hall_setting_id = v_entry.party_hall_setting_id AND d.blackout_date = v_entry.booking_date
+    );
+
+    UPDATE party_hall_waitlist
+    SET status = 'oferecida',
+        offered_at = now(),
+        offer_expires_at = now() + make_interval(hours => v_entry.waitlist_claim_hours),
+        offer_notified_at = NULL
+    WHERE id = v_entry.id;
+
+    v_offered := v_offered + 1;
+  END LOOP;
+
+  RETURN v_offered;
+END;
+$$;
+
+-- 4. Reserva cancelada, remarcada ou excluída libera a vaga para a fila
+CREATE OR REPLACE FUNCTION public.release_party_hall_waitlist_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('pendente', 'confirmada', 'em_uso') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IN ('pendente', 'confirmada', 'em_uso')
+    AND NEW.party_hall_setting_id = OLD.party_hall_setting_id
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.start_time = OLD.start_time
+    AND NEW.end_time = OLD.end_time THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.offer_party_hall_waitlist(OLD.party_hall_setting_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER release_party_hall_waitlist_slot
+  AFTER UPDATE OF party_hall_setting_id, booking_date, start_time, end_time, status OR DELETE
+  ON public.party_hall_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_party_hall_waitlist_slot();
+
+-- 5. Entrada na fila (só para datas ou horários ocupados)
+CREATE OR REPLACE FUNCTION public.join_party_hall_waitlist(
+  p_resident_id uuid,
+  p_setting_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_end_time time
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_setting party_hall_settings%ROWTYPE;
+  v_resident residents%ROWTYPE;
+  v_condominium_id uuid;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_resident FROM residents WHERE id = p_resident_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Perfil de morador não encontrado';
+  END IF;
+
+  SELECT b.condominium_id INTO v_condominium_id
+  FROM apartments a
+  JOIN blocks b ON b.id = a.block_id
+  WHERE a.id = v_resident.apartment_id;
+
+  SELECT * INTO v_setting FROM party_hall_settings WHERE id = p_setting_id;
+  IF NOT FOUND OR NOT v_setting.is_active OR v_setting.condominium_id <> v_condominium_id THEN
+    RAISE EXCEPTION 'Espaço indisponível para reservas';
+  END IF;
+
+  IF p_booking_date < current_date + coalesce(v_setting.advance_days_required, 1) THEN
+    RAISE EXCEPTION 'A reserva deve ser feita com pelo menos % dia(s) de antecedência', coalesce(v_setting.advance_days_required, 1);
+  END IF;
+
+  IF p_start_time >= p_end_time THEN
+    RAISE EXCEPTION 'Horário inválido';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_blackout_dates d
+    WHERE d.party_hall_setting_id = p_setting_id AND d.blackout_date = p_booking_date
+  ) THEN
+    RAISE EXCEPTION 'O espaço não está disponível nesta data';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM party_hall_bookings b
+    WHERE b.party_hall_setting_id = p_setting_id
+      AND b.booking_date = p_booking_date
+      AND b.status IN ('pendente', 'confirmada', 'em_uso')
+      AND (v_setting.booking_mode = 'dia_inteiro' OR (b.start_time < p_end_time AND b.end_time > p_start_time))
+  ) THEN
+    RAISE EXCEPTION 'Este horário está livre. Faça a solicitação de reserva diretamente.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_bookings b
+    WHERE b.party_hall_setting_id = p_setting_id
+      AND b.booking_date = p_booking_date
+      AND b.resident_id = p_resident_id
+      AND b.status IN ('pendente', 'confirmada', 'em_uso')
+      AND (v_setting.booking_mode = 'dia_inteiro' OR (b.start_time < p_end_time AND b.end_time > p_start_time))
+  ) THEN
+    RAISE EXCEPTION 'Você já possui uma reserva neste horário';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_waitlist w
+    WHERE w.party_hall_setting_id = p_setting_id
+      AND w.booking_date = p_booking_date
+      AND w.resident_id = p_resident_id
+      AND w.status IN ('aguardando', 'oferecida')
+      AND (v_setting.booking_mode = 'dia_inteiro' OR (w.start_time < p_end_time AND w.end_time > p_start_time))
+  ) THEN
+    RAISE EXCEPTION 'Você já está na lista de espera deste horário';
+  END IF;
+
+  INSERT INTO party_hall_waitlist (
+    party_hall_setting_id, condominium_id, resident_id, booking_date, start_time, end_time
+  )
+  VALUES (p_setting_id, v_condominium_id, p_resident_id, p_booking_date, p_start_time, p_end_time)
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- 6. Desistência (uma vaga oferecida passa para o próximo da fila)
+CREATE OR REPLACE FUNCTION public.leave_party_hall_waitlist(p_entry_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_setting_id uuid;
+  v_was_offered boolean;
+BEGIN
+  SELECT w.party_hall_setting_id, w.status = 'oferecida' INTO v_setting_id, v_was_offered
+  FROM party_hall_waitlist w
+  JOIN residents r ON r.id = w.resident_id
+  WHERE w.id = p_entry_id
+    AND r.user_id = auth.uid()
+    AND w.status IN ('aguardando', 'oferecida')
+  FOR UPDATE OF w;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Esta inscrição na lista de espera não está mais ativa';
+  END IF;
+
+  UPDATE party_hall_waitlist SET status = 'cancelada' WHERE id = p_entry_id;
+
+  IF v_was_offered THEN
+    PERFORM public.offer_party_hall_waitlist(v_setting_id);
+  END IF;
+END;
+$$;
+
+-- 7. Confirmação da vaga oferecida: vira uma solicitação de reserva normal
+CREATE OR REPLACE FUNCTION public.claim_party_hall_waitlist_offer(
+  p_entry_id uuid,
+  p_guest_count integer DEFAULT NULL,
+  p_observations text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry party_hall_waitlist%ROWTYPE;
+  v_booking_id uuid;
+BEGIN
+  SELECT w.* INTO v_entry
+  FROM party_hall_waitlist w
+  JOIN residents r ON r.id = w.resident_id
+  WHERE w.id = p_entry_id AND r.user_id = auth.uid()
+  FOR UPDATE OF w;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inscrição na lista de espera não encontrada';
+  END IF;
+
+  IF v_entry.status <> 'oferecida' THEN
+    RAISE EXCEPTION 'Esta vaga não está mais disponível para você';
+  END IF;
+
+  IF v_entry.offer_expires_at < now() THEN
+    RAISE EXCEPTION 'O prazo para confirmar esta vaga terminou';
+  END IF;
+
+  -- Mesmas regras de uma solicitação feita pelo calendário
+  v_booking_id := public.request_party_hall_booking(
+    v_entry.resident_id, v_entry.party_hall_setting_id, v_entry.booking_date,
+    v_entry.start_time, v_entry.end_time, p_guest_count, p_observations
+  );
+
+  UPDATE party_hall_waitlist
+  SET status = 'reservada', booking_id = v_booking_id
+  WHERE id = p_entry_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- 8. Aviso de vaga liberada
+INSERT INTO public.whatsapp_templates (name, slug, description, content, variables, is_active)
+VALUES (
+  'Vaga Liberada (Lista de Espera)',
+  'party_hall_waitlist_offer',
+  'Enviado ao primeiro da lista de espera quando a reserva de uma data ou horário é cancelada',
+  '🎉 *VAGA LIBERADA*
+
+🏢 *{condominio}*
+
+Olá, *{nome}*!
+
+O *{espaco}* ficou disponível na data em que você estava na lista de espera.
+
+📅 *Data:* {data}
+🕐 *Horário:* {horario_inicio} às {horario_fim}
+
+Confirme a reserva no app até *{prazo}*. Depois disso, a vaga será oferecida ao próximo morador da fila.',
+  ARRAY['condominio', 'nome', 'espaco', 'data', 'horario_inicio', 'horario_fim', 'prazo'],
+  true
+)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,56 @@
+-- =============================================
+-- Gestores delegados fora das políticas da portaria
+-- Subsíndicos e administradoras ficam em user_condominiums, mas só devem acessar
+-- o condomínio pelas permissões delegadas (has_condominium_permission). O papel
+-- "sindico" concedido no convite é removido quando o último vínculo sai.
+-- =============================================
+
+-- 1. Vínculo de condomínio da portaria (porteiros e zeladores) não inclui gestores
+CREATE OR REPLACE FUNCTION public.user_belongs_to_condominium(_user_id uuid, _condominium_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_condominiums
+    WHERE user_id = _user_id
+      AND condominium_id = _condominium_id
+      AND manager_role IS NULL
+  )
+$$;
+
+-- 2. Papel "sindico" concedido pelo convite de gestor
+ALTER TABLE public.user_condominiums
+  ADD COLUMN sindico_role_granted boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.revoke_manager_sindico_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.manager_role IS NULL OR NOT OLD.sindico_role_granted THEN
+    RETURN OLD;
+  END IF;
+
+  -- O papel continua enquanto o usuário gerir algum condomínio por outro caminho
+  IF EXISTS (SELECT 1 FROM user_condominiums WHERE user_id = OLD.user_id AND manager_role IS NOT NULL)
+    OR EXISTS (SELECT 1 FROM condominiums WHERE owner_id = OLD.user_id)
+    OR EXISTS (SELECT 1 FROM organizations WHERE owner_id = OLD.user_id)
+    OR EXISTS (SELECT 1 FROM organization_members WHERE user_id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  DELETE FROM user_roles WHERE user_id = OLD.user_id AND role = 'sindico'::app_role;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER revoke_manager_sindico_role
+  AFTER DELETE ON public.user_condominiums
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_manager_sindico_role();
@@ -0,0 +1,49 @@
+-- =============================================
+-- Vínculo de condomínio à administradora só pelo síndico responsável
+-- Gestores delegados também têm o papel "sindico" e podem criar uma organização
+-- própria; se pudessem vincular o condomínio a ela, ganhariam todas as permissões.
+-- O vínculo passa a exigir o dono do condomínio (ou super admin) e um condomínio
+-- que ainda não pertença a outra carteira.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.set_condominium_organization(
+  p_condominium_id uuid,
+  p_organization_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condo condominiums%ROWTYPE;
+  v_is_super_admin boolean := has_role(auth.uid(), 'super_admin'::app_role);
+BEGIN
+  SELECT * INTO v_condo FROM condominiums WHERE id = p_condominium_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Condomínio não encontrado';
+  END IF;
+
+  IF p_organization_id IS NULL THEN
+    IF v_condo.owner_id <> auth.uid()
+      AND NOT v_is_super_admin
+      AND NOT (v_condo.organization_id IS NOT NULL AND is_organization_admin(auth.uid(), v_condo.organization_id)) THEN
+      RAISE EXCEPTION 'Sem permissão para desvincular este condomínio';
+    END IF;
+  ELSE
+    IF v_condo.owner_id <> auth.uid() AND NOT v_is_super_admin THEN
+      RAISE EXCEPTION 'Apenas o síndico responsável pode vincular o condomínio a uma administradora';
+    END IF;
+
+    IF NOT v_is_super_admin AND NOT is_organization_admin(auth.uid(), p_organization_id) THEN
+      RAISE EXCEPTION 'Apenas administradores da organização podem vincular condomínios';
+    END IF;
+
+    IF v_condo.organization_id IS NOT NULL AND v_condo.organization_id <> p_organization_id THEN
+      RAISE EXCEPTION 'Este condomínio já pertence a outra administradora. Desvincule-o antes.';
+    END IF;
+  END IF;
+
+  UPDATE condominiums SET organization_id = p_organization_id WHERE id = p_condominium_id;
+END;
+$$;
@@ -0,0 +1,119 @@
+-- =============================================
+-- OCORRÊNCIAS - Emissão de documentos formais pelo servidor
+-- O hash SHA-256 e a situação da ocorrência eram calculados no navegador e
+-- gravados direto na tabela, permitindo ao morador registrar um documento
+-- "autêntico" com conteúdo forjado. A emissão passa a ser feita por RPC, que lê
+-- a ocorrência e calcula o hash a partir dos dados gravados.
+-- =============================================
+
+-- 1. Morador não grava mais em occurrence_documents
+DROP POLICY IF EXISTS "Residents can issue documents of own occurrences" ON public.occurrence_documents;
+
+-- 2. Gestores só registram documentos de ocorrências do próprio condomínio
+DROP POLICY IF EXISTS "Sindicos can issue documents of own condominiums" ON public.occurrence_documents;
+DROP POLICY IF EXISTS "Managers can create occurrence documents" ON public.occurrence_documents;
+
+CREATE POLICY "Managers can create occurrence documents"
+  ON public.occurrence_documents FOR INSERT
+  WITH CHECK (
+    issued_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.occurrences o
+      WHERE o.id = occurrence_documents.occurrence_id
+        AND o.condominium_id = occurrence_documents.condominium_id
+        AND public.has_condominium_permission(auth.uid(), o.condominium_id, 'occurrences.register')
+    )
+  );
+
+-- 3. Emissão do documento (síndico, gestor com permissão ou morador da ocorrência)
+CREATE OR REPLACE FUNCTION public.issue_occurrence_document(p_occurrence_id uuid)
+RETURNS TABLE (
+  verification_code text,
+  content_hash text,
+  document_type text,
+  occurrence_status text,
+  issued_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_document_type text;
+  v_issued_at timestamptz := now();
+  v_content jsonb;
+  v_hash text;
+  v_code text;
+BEGIN
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  IF NOT has_condominium_permission(auth.uid(), v_occurrence.condominium_id, 'occurrences.register')
+    AND NOT EXISTS (
+      SELECT 1 FROM residents r
+      WHERE r.id = v_occurrence.resident_id AND r.user_id = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'Sem permissão para emitir documentos desta ocorrência';
+  END IF;
+
+  v_document_type := CASE WHEN v_occurrence.type = 'multa' THEN 'auto_infracao' ELSE 'notificacao_extrajudicial' END;
+
+  -- Conteúdo impresso no documento, montado a partir do que está gravado
+  SELECT jsonb_build_object(
+    'document_type', v_document_type,
+    'issued_at', v_issued_at,
+    'condominium', jsonb_build_object(
+      'name', c.name,
+      'cnpj', c.cnpj,
+      'defense_deadline_days', COALESCE(c.defense_deadline_days, 10)
+    ),
+    'occurrence', jsonb_build_object(
+      'id', v_occurrence.id,
+      'type', v_occurrence.type,
+      'status', v_occurrence.status,
+      'title', v_occurrence.title,
+      'description', v_occurrence.description,
+      'occurred_at', v_occurrence.occurred_at,
+      'location', v_occurrence.location,
+      'civil_code_article', v_occurrence.civil_code_article,
+      'convention_article', v_occurrence.convention_article,
+      'internal_rules_article', v_occurrence.internal_rules_article,
+      'legal_basis', v_occurrence.legal_basis
+    ),
+    'recipient', jsonb_build_object(
+      'name', (SELECT r.full_name FROM residents r WHERE r.id = v_occurrence.resident_id),
+      'block', (SELECT b.name FROM blocks b WHERE b.id = v_occurrence.block_id),
+      'apartment', (SELECT a.number FROM apartments a WHERE a.id = v_occurrence.apartment_id)
+    ),
+    'evidences', COALESCE((
+      SELECT jsonb_agg(e.file_url ORDER BY e.created_at, e.id)
+      FROM occurrence_evidences e WHERE e.occurrence_id = v_occurrence.id
+    ), '[]'::jsonb),
+    'defenses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('submitted_at', d.submitted_at, 'content', d.content) ORDER BY d.submitted_at, d.id)
+      FROM defenses d WHERE d.occurrence_id = v_occurrence.id
+    ), '[]'::jsonb),
+    'decisions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('decision', dc.decision, 'justification', dc.justification, 'decided_at', dc.decided_at) ORDER BY dc.decided_at, dc.id)
+      FROM decisions dc WHERE dc.occurrence_id = v_occurrence.id
+    ), '[]'::jsonb)
+  )
+  INTO v_content
+  FROM condominiums c
+  WHERE c.id = v_occurrence.condominium_id;
+
+  v_hash := encode(sha256(convert_to(v_content::text, 'UTF8')), 'hex');
+
+  INSERT INTO occurrence_documents (
+    occurrence_id, condominium_id, document_type, content_hash, occurrence_status, issued_by, issued_at
+  ) VALUES (
+    v_occurrence.id, v_occurrence.condominium_id, v_document_type, v_hash, v_occurrence.status::text, auth.uid(), v_issued_at
+  )
+  RETURNING occurrence_documents.verification_code INTO v_code;
+
+  RETURN QUERY SELECT v_code, v_hash, v_document_type, v_occurrence.status::text, v_issued_at;
+END;
+$$;
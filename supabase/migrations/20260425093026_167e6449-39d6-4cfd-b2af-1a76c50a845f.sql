@@ -0,0 +1,225 @@
+-- =============================================
+-- ÁREAS COMUNS - Vaga oferecida à lista de espera fica reservada
+-- Enquanto o prazo de confirmação corre, a data ou horário oferecido não pode
+-- ser reservado por outro morador nem pelo síndico, e aparece como ocupado no
+-- calendário de disponibilidade.
+-- =============================================
+
+-- 1. Morador que recebeu a oferta ativa de uma data ou horário
+CREATE OR REPLACE FUNCTION public.party_hall_offer_holder(
+  p_setting_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_end_time time
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT w.resident_id
+  FROM party_hall_waitlist w
+  JOIN party_hall_settings s ON s.id = w.party_hall_setting_id
+  WHERE w.party_hall_setting_id = p_setting_id
+    AND w.booking_date = p_booking_date
+    AND w.status = 'oferecida'
+    AND w.offer_expires_at > now()
+    AND (s.booking_mode = 'dia_inteiro' OR (w.start_time < p_end_time AND w.end_time > p_start_time))
+  ORDER BY w.offered_at
+  LIMIT 1
+$$;
+
+-- 2. Conflito considera a oferta ativa (vale também para request_party_hall_booking)
+CREATE OR REPLACE FUNCTION public.prevent_party_hall_booking_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking_mode text;
+  v_offer_holder uuid;
+BEGIN
+  IF NEW.status NOT IN ('pendente', 'confirmada', 'em_uso') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mudanças só de status (aprovação, início de uso) não alteram a ocupação
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('pendente', 'confirmada', 'em_uso')
+    AND NEW.party_hall_setting_id = OLD.party_hall_setting_id
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.start_time = OLD.start_time
+    AND NEW.end_time = OLD.end_time THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.booking_mode INTO v_booking_mode FROM party_hall_settings s WHERE s.id = NEW.party_hall_setting_id;
+
+  -- Serializa pedidos simultâneos para o mesmo espaço e data
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.party_hall_setting_id::text || NEW.booking_date::text));
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_bookings b
+    WHERE b.party_hall_setting_id = NEW.party_hall_setting_id
+      AND b.booking_date = NEW.booking_date
+      AND b.id <> NEW.id
+      AND b.status IN ('pendente', 'confirmada', 'em_uso')
+      AND (v_booking_mode = 'dia_inteiro' OR (b.start_time < NEW.end_time AND b.end_time > NEW.start_time))
+  ) THEN
+    IF v_booking_mode = 'por_horario' THEN
+      RAISE EXCEPTION 'Este horário já foi reservado. Por favor, escolha outro horário.';
+    END IF;
+    RAISE EXCEPTION 'Esta data já foi reservada. Por favor, escolha outra data.';
+  END IF;
+
+  -- Vaga oferecida à lista de espera só pode ser reservada por quem recebeu a oferta
+  v_offer_holder := public.party_hall_offer_holder(NEW.party_hall_setting_id, NEW.booking_date, NEW.start_time, NEW.end_time);
+  IF v_offer_holder IS NOT NULL AND v_offer_holder <> NEW.resident_id THEN
+    IF v_booking_mode = 'por_horario' THEN
+      RAISE EXCEPTION 'Este horário foi oferecido a um morador da lista de espera, que tem prazo para confirmar.';
+    END IF;
+    RAISE EXCEPTION 'Esta data foi oferecida a um morador da lista de espera, que tem prazo para confirmar.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Fila aceita inscrições para vagas em oferta
+CREATE OR REPLACE FUNCTION public.join_party_hall_waitlist(
+  p_resident_id uuid,
+  p_setting_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_end_time time
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_setting party_hall_settings%ROWTYPE;
+  v_resident residents%ROWTYPE;
+  v_condominium_id uuid;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_resident FROM residents WHERE id = p_resident_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Perfil de morador não encontrado';
+  END IF;
+
+  SELECT b.condominium_id INTO v_condominium_id
+  FROM apartments a
+  JOIN blocks b ON b.id = a.block_id
+  WHERE a.id = v_resident.apartment_id;
+
+  SELECT * INTO v_setting FROM party_hall_settings WHERE id = p_setting_id;
+  IF NOT FOUND OR NOT v_setting.is_active OR v_setting.condominium_id <> v_condominium_id THEN
+    RAISE EXCEPTION 'Espaço indisponível para reservas';
+  END IF;
+
+  IF p_booking_date < current_date + coalesce(v_setting.advance_days_required, 1) THEN
+    RAISE EXCEPTION 'A reserva deve ser feita com pelo menos % dia(s) de antecedência', coalesce(v_setting.advance_days_required, 1);
+  END IF;
+
+  IF p_start_time >= p_end_time THEN
+    RAISE EXCEPTION 'Horário inválido';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_blackout_dates d
+    WHERE d.party_hall_setting_id = p_setting_id AND d.blackout_date = p_booking_date
+  ) THEN
+    RAISE EXCEPTION 'O espaço não está disponível nesta data';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM party_hall_bookings b
+    WHERE b.party_hall_setting_id = p_setting_id
+      AND b.booking_date = p_booking_date
+      AND b.status IN ('pendente', 'confirmada', 'em_uso')
+      AND (v_setting.booking_mode = 'dia_inteiro' OR (b.start_time < p_end_time AND b.end_time > p_start_time))
+  ) AND public.party_hall_offer_holder(p_setting_id, p_booking_date, p_start_time, p_end_time) IS NULL THEN
+    RAISE EXCEPTION 'Este horário está livre. Faça a solicitação de reserva diretamente.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_bookings b
+    WHERE b.party_hall_setting_id = p_setting_id
+      AND b.booking_date = p_booking_date
+      AND b.resident_id = p_resident_id
+      AND b.status IN ('pendente', 'confirmada', 'em_uso')
+      AND (v_setting.booking_mode = 'dia_inteiro' OR (b.start_time < p_end_time AND b.end_time > p_start_time))
+  ) THEN
+    RAISE EXCEPTION 'Você já possui uma reserva neste horário';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM party_hall_waitlist w
+    WHERE w.party_hall_setting_id = p_setting_id
+      AND w.booking_date = p_booking_date
+      AND w.resident_id = p_resident_id
+      AND w.status IN ('aguardando', 'oferecida')
+      AND (v_setting.booking_mode = 'dia_inteiro' OR (w.start_time < p_end_time AND w.end_time > p_start_time))
+  ) THEN
+    RAISE EXCEPTION 'Você já está na lista de espera deste horário';
+  END IF;
+
+  INSERT INTO party_hall_waitlist (
+    party_hall_setting_id, condominium_id, resident_id, booking_date, start_time, end_time
+  )
+  VALUES (p_setting_id, v_condominium_id, p_resident_id, p_booking_date, p_start_time, p_end_time)
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- 4. Disponibilidade mostra a vaga oferecida como ocupada
+CREATE OR REPLACE FUNCTION public.get_party_hall_availability(p_setting_id uuid, p_from date, p_to date)
+RETURNS TABLE (booking_date date, start_time time, end_time time, status text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condominium_id uuid;
+BEGIN
+  SELECT s.condominium_id INTO v_condominium_id FROM party_hall_settings s WHERE s.id = p_setting_id;
+  IF v_condominium_id IS NULL THEN
+    RAISE EXCEPTION 'Espaço não encontrado';
+  END IF;
+
+  IF NOT (
+    public.is_resident_of_condominium(auth.uid(), v_condominium_id)
+    OR public.has_condominium_permission(auth.uid(), v_condominium_id, 'party_hall.manage')
+    OR public.has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.booking_date, b.start_time, b.end_time, b.status
+  FROM party_hall_bookings b
+  WHERE b.party_hall_setting_id = p_setting_id
+    AND b.booking_date BETWEEN p_from AND p_to
+    AND b.status IN ('pendente', 'confirmada', 'em_uso')
+  UNION ALL
+  SELECT d.blackout_date, s.check_in_time, s.check_out_time, 'bloqueada'::text
+  FROM party_hall_blackout_dates d
+  JOIN party_hall_settings s ON s.id = d.party_hall_setting_id
+  WHERE d.party_hall_setting_id = p_setting_id
+    AND d.blackout_date BETWEEN p_from AND p_to
+  UNION ALL
+  SELECT w.booking_date, w.start_time, w.end_time, 'oferecida'::text
+  FROM party_hall_waitlist w
+  WHERE w.party_hall_setting_id = p_setting_id
+    AND w.booking_date BETWEEN p_from AND p_to
+    AND w.status = 'oferecida'
+    AND w.offer_expires_at > now()
+  ORDER BY 1, 2;
+END;
+$$;
@@ -0,0 +1,166 @@
+-- =============================================
+-- ÁREAS COMUNS - Prazo da lista de espera conta a partir do aviso
+-- A vaga era oferecida com o prazo já correndo, mas o aviso só saía na próxima
+-- execução de notify-party-hall-waitlist. Agora a oferta nasce sem prazo e o job
+-- define offer_expires_at ao enviar o WhatsApp. Até lá a vaga fica reservada.
+-- =============================================
+
+-- 1. Oferta sem prazo até o aviso
+CREATE OR REPLACE FUNCTION public.offer_party_hall_waitlist(p_setting_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry record;
+  v_offered integer := 0;
+BEGIN
+  -- Evita oferecer a mesma vaga duas vezes em chamadas simultâneas
+  PERFORM pg_advisory_xact_lock(hashtext('party_hall_waitlist'));
+
+  -- Prazo de confirmação vencido: a vez passa para o próximo da fila
+  UPDATE party_hall_waitlist w
+  SET status = 'expirada'
+  WHERE w.status = 'oferecida'
+    AND w.offer_expires_at < now()
+    AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id);
+
+  -- Aviso que não saiu dentro do prazo de confirmação: o prazo passa a contar
+  -- mesmo assim, para a vaga não ficar presa
+  UPDATE party_hall_waitlist w
+  SET offer_expires_at = now() + make_interval(hours => s.waitlist_claim_hours)
+  FROM party_hall_settings s
+  WHERE s.id = w.party_hall_setting_id
+    AND w.status = 'oferecida'
+    AND w.offer_expires_at IS NULL
+    AND w.offered_at < now() - make_interval(hours => s.waitlist_claim_hours)
+    AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id);
+
+  -- Datas que já não respeitam a antecedência mínima não podem mais ser reservadas
+  UPDATE party_hall_waitlist w
+  SET status = 'expirada'
+  FROM party_hall_settings s
+  WHERE s.id = w.party_hall_setting_id
+    AND w.status = 'aguardando'
+    AND w.booking_date < current_date + coalesce(s.advance_days_required, 1)
+    AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id);
+
+  FOR v_entry IN
+    SELECT w.id, w.party_hall_setting_id, w.booking_date, w.start_time, w.end_time,
+      s.booking_mode
+    FROM party_hall_waitlist w
+    JOIN party_hall_settings s ON s.id = w.party_hall_setting_id
+    WHERE w.status = 'aguardando'
+      AND s.is_active
+      AND (p_setting_id IS NULL OR w.party_hall_setting_id = p_setting_id)
+    ORDER BY w.created_at
+  LOOP
+    -- Quem está à frente na fila já recebeu a oferta desta vaga
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM party_hall_waitlist o
+      WHERE o.party_hall_setting_id = v_entry.party_hall_setting_id
+        AND o.booking_date = v_entry.booking_date
+        AND o.status = 'oferecida'
+        AND (v_entry.booking_mode = 'dia_inteiro' OR (o.start_time < v_entry.end_time AND o.end_time > v_entry.start_time))
+    );
+
+    -- A vaga continua ocupada
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM party_hall_bookings b
+      WHERE b.party_hall_setting_id = v_entry.party_hall_setting_id
+        AND b.booking_date = v_entry.booking_date
+        AND b.status IN ('pendente', 'confirmada', 'em_uso')
+        AND (v_entry.booking_mode = 'dia_inteiro' OR (b.start_time < v_entry.end_time AND b.end_time > v_entry.start_time))
+    );
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM party_hall_blackout_dates d
+      WHERE d.party_hall_setting_id = v_entry.party_hall_setting_id AND d.blackout_date = v_entry.booking_date
+    );
+
+    -- O prazo começa quando notify-party-hall-waitlist envia o aviso
+    UPDATE party_hall_waitlist
+    SET status = 'oferecida',
+        offered_at = now(),
+        offer_expires_at = NULL,
+        offer_notified_at = NULL
+    WHERE id = v_entry.id;
+
+    v_offered := v_offered + 1;
+  END LOOP;
+
+  RETURN v_offered;
+END;
+$$;
+
+-- 2. Oferta ainda não avisada também reserva a vaga
+CREATE OR REPLACE FUNCTION public.party_hall_offer_holder(
+  p_setting_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_end_time time
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT w.resident_id
+  FROM party_hall_waitlist w
+  JOIN party_hall_settings s ON s.id = w.party_hall_setting_id
+  WHERE w.party_hall_setting_id = p_setting_id
+    AND w.booking_date = p_booking_date
+    AND w.status = 'oferecida'
+    AND (w.offer_expires_at IS NULL OR w.offer_expires_at > now())
+    AND (s.booking_mode = 'dia_inteiro' OR (w.start_time < p_end_time AND w.end_time > p_start_time))
+  ORDER BY w.offered_at
+  LIMIT 1
+$$;
+
+-- 3. Disponibilidade considera a oferta ainda não avisada
+CREATE OR REPLACE FUNCTION public.get_party_hall_availability(p_setting_id uuid, p_from date, p_to date)
+RETURNS TABLE (booking_date date, start_time time, end_time time, status text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condominium_id uuid;
+BEGIN
+  SELECT s.condominium_id INTO v_condominium_id FROM party_hall_settings s WHERE s.id = p_setting_id;
+  IF v_condominium_id IS NULL THEN
+    RAISE EXCEPTION 'Espaço não encontrado';
+  END IF;
+
+  IF NOT (
+    public.is_resident_of_condominium(auth.uid(), v_condominium_id)
+    OR public.has_condominium_permission(auth.uid(), v_condominium_id, 'party_hall.manage')
+    OR public.has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.booking_date, b.start_time, b.end_time, b.status
+  FROM party_hall_bookings b
+  WHERE b.party_hall_setting_id = p_setting_id
+    AND b.booking_date BETWEEN p_from AND p_to
+    AND b.status IN ('pendente', 'confirmada', 'em_uso')
+  UNION ALL
+  SELECT d.blackout_date, s.check_in_time, s.check_out_time, 'bloqueada'::text
+  FROM party_hall_blackout_dates d
+  JOIN party_hall_settings s ON s.id = d.party_hall_setting_id
+  WHERE d.party_hall_setting_id = p_setting_id
+    AND d.blackout_date BETWEEN p_from AND p_to
+  UNION ALL
+  SELECT w.booking_date, w.start_time, w.end_time, 'oferecida'::text
+  FROM party_hall_waitlist w
+  WHERE w.party_hall_setting_id = p_setting_id
+    AND w.booking_date BETWEEN p_from AND p_to
+    AND w.status = 'oferecida'
+    AND (w.offer_expires_at IS NULL OR w.offer_expires_at > now())
+  ORDER BY 1, 2;
+END;
+$$;
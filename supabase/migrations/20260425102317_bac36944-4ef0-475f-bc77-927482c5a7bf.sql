@@ -0,0 +1,70 @@
+-- =============================================
+-- OCORRÊNCIAS - Decisão do síndico em uma única transação
+-- A análise de defesa movia a ocorrência no fluxo, gravava a decisão e criava a
+-- multa em chamadas separadas; uma falha no meio deixava a ocorrência multada sem
+-- decisão ou sem multa. A RPC faz as três etapas juntas.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.decide_occurrence(
+  p_occurrence_id uuid,
+  p_decision occurrence_status,
+  p_justification text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_to_state text;
+BEGIN
+  IF p_decision NOT IN ('arquivada', 'advertido', 'multado') THEN
+    RAISE EXCEPTION 'Decisão inválida';
+  END IF;
+
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  -- Etapa do fluxo do condomínio que corresponde à decisão
+  SELECT t.to_state INTO v_to_state
+  FROM occurrence_workflow_transitions t
+  JOIN occurrence_workflow_states s
+    ON s.condominium_id = t.condominium_id AND s.key = t.to_state
+  WHERE t.condominium_id = v_occurrence.condominium_id
+    AND t.from_state = v_occurrence.workflow_state
+    AND s.base_status = p_decision
+    AND 'sindico' = ANY (t.allowed_roles)
+  ORDER BY t.display_order
+  LIMIT 1;
+
+  IF v_to_state IS NULL THEN
+    RAISE EXCEPTION 'O fluxo de ocorrências do condomínio não permite esta decisão na etapa atual';
+  END IF;
+
+  -- Valida papel, permissão occurrences.decide e campos obrigatórios
+  PERFORM transition_occurrence(p_occurrence_id, v_to_state, p_justification);
+
+  INSERT INTO decisions (occurrence_id, decided_by, decision, justification)
+  VALUES (p_occurrence_id, auth.uid(), p_decision, btrim(p_justification));
+
+  IF p_decision = 'multado' THEN
+    IF v_occurrence.resident_id IS NULL THEN
+      RAISE EXCEPTION 'A ocorrência não possui morador vinculado para a multa';
+    END IF;
+
+    INSERT INTO fines (occurrence_id, resident_id, amount, due_date, status)
+    VALUES (
+      p_occurrence_id,
+      v_occurrence.resident_id,
+      100,
+      (now() AT TIME ZONE 'America/Sao_Paulo')::date + 30,
+      'em_aberto'
+    );
+  END IF;
+
+  RETURN v_to_state;
+END;
+$$;
@@ -0,0 +1,118 @@
+-- =============================================
+-- SALÃO DE FESTAS - Data do evento no fuso do condomínio
+-- current_date segue o fuso do banco (UTC): a partir das 21h a portaria via os
+-- eventos do dia seguinte e não conseguia registrar a entrada dos convidados, e o
+-- morador perdia a edição da lista na noite anterior ao evento.
+-- =============================================
+
+-- 1. Lista de convidados editável até o dia do evento
+DROP POLICY IF EXISTS "Residents can add guests to own upcoming bookings" ON public.party_hall_guests;
+DROP POLICY IF EXISTS "Residents can remove guests not yet arrived" ON public.party_hall_guests;
+
+CREATE POLICY "Residents can add guests to own upcoming bookings"
+  ON public.party_hall_guests FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    JOIN public.residents r ON r.id = b.resident_id
+    WHERE b.id = party_hall_guests.booking_id
+      AND r.user_id = auth.uid()
+      AND b.booking_date >= (now() AT TIME ZONE 'America/Sao_Paulo')::date
+  ) AND checked_in_at IS NULL);
+
+CREATE POLICY "Residents can remove guests not yet arrived"
+  ON public.party_hall_guests FOR DELETE
+  USING (checked_in_at IS NULL AND EXISTS (
+    SELECT 1 FROM public.party_hall_bookings b
+    JOIN public.residents r ON r.id = b.resident_id
+    WHERE b.id = party_hall_guests.booking_id
+      AND r.user_id = auth.uid()
+      AND b.booking_date >= (now() AT TIME ZONE 'America/Sao_Paulo')::date
+  ));
+
+-- 2. Eventos do dia para a portaria
+CREATE OR REPLACE FUNCTION public.get_party_hall_events_today(p_condominium_id uuid)
+RETURNS TABLE (
+  booking_id uuid,
+  space_name text,
+  start_time time,
+  end_time time,
+  status text,
+  resident_name text,
+  block_name text,
+  apartment_number text,
+  max_guests integer,
+  guest_total bigint,
+  guest_checked_in bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.user_belongs_to_condominium(auth.uid(), p_condominium_id)
+    OR public.has_condominium_permission(auth.uid(), p_condominium_id, 'party_hall.manage')
+    OR public.has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id, s.name, b.start_time, b.end_time, b.status,
+    r.full_name, bl.name, a.number, s.max_guests,
+    (SELECT count(*) FROM party_hall_guests g WHERE g.booking_id = b.id),
+    (SELECT count(*) FROM party_hall_guests g WHERE g.booking_id = b.id AND g.checked_in_at IS NOT NULL)
+  FROM party_hall_bookings b
+  JOIN party_hall_settings s ON s.id = b.party_hall_setting_id
+  JOIN residents r ON r.id = b.resident_id
+  LEFT JOIN apartments a ON a.id = r.apartment_id
+  LEFT JOIN blocks bl ON bl.id = a.block_id
+  WHERE b.condominium_id = p_condominium_id
+    AND b.booking_date = (now() AT TIME ZONE 'America/Sao_Paulo')::date
+    AND b.status IN ('confirmada', 'em_uso', 'finalizada')
+  ORDER BY b.start_time;
+END;
+$$;
+
+-- 3. Entrada do convidado no dia do evento
+CREATE OR REPLACE FUNCTION public.check_in_party_hall_guest(p_guest_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_guest party_hall_guests%ROWTYPE;
+  v_booking party_hall_bookings%ROWTYPE;
+  v_checked_in_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_guest FROM party_hall_guests WHERE id = p_guest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convidado não encontrado';
+  END IF;
+
+  IF NOT (
+    public.user_belongs_to_condominium(auth.uid(), v_guest.condominium_id)
+    OR public.has_condominium_permission(auth.uid(), v_guest.condominium_id, 'party_hall.manage')
+  ) THEN
+    RAISE EXCEPTION 'Sem acesso a este condomínio';
+  END IF;
+
+  IF v_guest.checked_in_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A entrada deste convidado já foi registrada';
+  END IF;
+
+  SELECT * INTO v_booking FROM party_hall_bookings WHERE id = v_guest.booking_id;
+  IF v_booking.booking_date <> (now() AT TIME ZONE 'America/Sao_Paulo')::date OR v_booking.status NOT IN ('confirmada', 'em_uso') THEN
+    RAISE EXCEPTION 'A entrada só pode ser registrada no dia de uma reserva confirmada';
+  END IF;
+
+  UPDATE party_hall_guests
+  SET checked_in_at = v_checked_in_at, checked_in_by = auth.uid()
+  WHERE id = p_guest_id;
+
+  RETURN v_checked_in_at;
+END;
+$$;
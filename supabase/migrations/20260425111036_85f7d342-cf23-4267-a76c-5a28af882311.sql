@@ -0,0 +1,25 @@
+-- =============================================
+-- CAIXA DE ENTRADA WHATSAPP - Contador de não lidas atômico
+-- O webhook lia unread_count e gravava o valor + 1; mensagens processadas ao
+-- mesmo tempo na mesma conversa perdiam incrementos.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.register_whatsapp_inbound(
+  p_conversation_id uuid,
+  p_received_at timestamptz,
+  p_preview text,
+  p_bsuid text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE whatsapp_conversations
+  SET last_message_at = p_received_at,
+      last_inbound_at = p_received_at,
+      last_message_preview = p_preview,
+      unread_count = unread_count + 1,
+      bsuid = coalesce(p_bsuid, bsuid)
+  WHERE id = p_conversation_id
+  RETURNING unread_count;
+$$;
@@ -0,0 +1,32 @@
+-- =============================================
+-- ENCOMENDAS - Comprovante gravado junto com a retirada
+-- A assinatura e a foto eram gravadas em um segundo update depois da RPC de
+-- retirada; se ele falhasse, a encomenda ficava retirada sem comprovante.
+-- =============================================
+
+DROP FUNCTION IF EXISTS public.confirm_package_pickup(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.confirm_package_pickup(
+  p_package_id UUID,
+  p_picked_up_by UUID,
+  p_picked_up_by_name TEXT,
+  p_signature_path TEXT DEFAULT NULL,
+  p_photo_path TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE packages
+  SET 
+    status = 'retirada',
+    picked_up_at = now(),
+    picked_up_by = p_picked_up_by,
+    picked_up_by_name = p_picked_up_by_name,
+    pickup_signature_path = p_signature_path,
+    pickup_photo_path = p_photo_path
+  WHERE id = p_package_id;
+END;
+$$;
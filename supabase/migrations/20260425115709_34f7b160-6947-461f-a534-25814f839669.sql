@@ -0,0 +1,73 @@
+-- =============================================
+-- RECURSOS - Apresentação exige conselho apto a votar
+-- Sem conselheiros (ou com o próprio recorrente como único membro) o quórum
+-- nunca era atingido e o recurso ficava em votação para sempre, com a multa
+-- suspensa.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.file_occurrence_appeal(p_occurrence_id uuid, p_content text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_resident_id uuid;
+  v_decision decisions%ROWTYPE;
+  v_window integer;
+  v_appeal_id uuid;
+BEGIN
+  IF coalesce(btrim(p_content), '') = '' THEN
+    RAISE EXCEPTION 'Informe as razões do recurso';
+  END IF;
+
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  SELECT r.id INTO v_resident_id
+  FROM residents r
+  WHERE r.id = v_occurrence.resident_id AND r.user_id = auth.uid();
+  IF v_resident_id IS NULL THEN
+    RAISE EXCEPTION 'Somente o morador notificado pode recorrer';
+  END IF;
+
+  SELECT * INTO v_decision
+  FROM decisions
+  WHERE occurrence_id = p_occurrence_id
+  ORDER BY decided_at DESC
+  LIMIT 1;
+  IF NOT FOUND OR v_decision.decision NOT IN ('advertido', 'multado') OR v_decision.appeal_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Não há decisão passível de recurso nesta ocorrência';
+  END IF;
+
+  SELECT appeal_window_days INTO v_window FROM condominiums WHERE id = v_occurrence.condominium_id;
+  IF now() > v_decision.decided_at + make_interval(days => v_window) THEN
+    RAISE EXCEPTION 'O prazo de % dias para recurso terminou', v_window;
+  END IF;
+
+  -- Sem conselheiros aptos a votar, o recurso nunca seria julgado
+  IF NOT EXISTS (
+    SELECT 1 FROM council_members cm
+    WHERE cm.condominium_id = v_occurrence.condominium_id AND cm.resident_id <> v_resident_id
+  ) THEN
+    RAISE EXCEPTION 'O condomínio não possui conselho para julgar recursos. Procure o síndico.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM occurrence_appeals WHERE decision_id = v_decision.id) THEN
+    RAISE EXCEPTION 'Já existe um recurso para esta decisão';
+  END IF;
+
+  INSERT INTO occurrence_appeals (occurrence_id, condominium_id, resident_id, decision_id, content)
+  VALUES (p_occurrence_id, v_occurrence.condominium_id, v_resident_id, v_decision.id, btrim(p_content))
+  RETURNING id INTO v_appeal_id;
+
+  UPDATE fines
+  SET appeal_suspended_at = now()
+  WHERE occurrence_id = p_occurrence_id AND status IN ('em_aberto', 'vencido');
+
+  RETURN v_appeal_id;
+END;
+$$;
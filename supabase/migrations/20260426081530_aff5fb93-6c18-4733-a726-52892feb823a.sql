@@ -0,0 +1,53 @@
+-- =============================================
+-- CONVITES QR - Condomínio do convite e cancelamento pelo morador
+-- O condominium_id era gravado pelo navegador sem conferência com a unidade: um
+-- morador podia gerar convites aceitos na portaria de outro condomínio. A política
+-- de UPDATE também permitia alterar usos, validade e condomínio do convite.
+-- =============================================
+
+-- 1. Convite criado só para o condomínio da própria unidade
+DROP POLICY IF EXISTS "Residents can create invitations for their apartment" ON public.guest_invitations;
+
+CREATE POLICY "Residents can create invitations for their apartment"
+  ON public.guest_invitations FOR INSERT
+  WITH CHECK (
+    uses_count = 0
+    AND status = 'ativo'
+    AND EXISTS (
+      SELECT 1 FROM public.residents r
+      WHERE r.id = resident_id
+        AND r.apartment_id = guest_invitations.apartment_id
+        AND r.user_id = auth.uid()
+    )
+    AND condominium_id = (
+      SELECT b.condominium_id
+      FROM public.apartments a
+      JOIN public.blocks b ON b.id = a.block_id
+      WHERE a.id = guest_invitations.apartment_id
+    )
+  );
+
+-- 2. Morador só cancela convites (demais alterações pela portaria ou gestores)
+DROP POLICY IF EXISTS "Residents can update invitations for their apartment" ON public.guest_invitations;
+
+CREATE OR REPLACE FUNCTION public.revoke_guest_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE guest_invitations gi
+  SET status = 'revogado', revoked_at = now()
+  WHERE gi.id = p_invitation_id
+    AND gi.status = 'ativo'
+    AND EXISTS (
+      SELECT 1 FROM residents r
+      WHERE r.apartment_id = gi.apartment_id AND r.user_id = auth.uid()
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convite não encontrado ou já cancelado';
+  END IF;
+END;
+$$;
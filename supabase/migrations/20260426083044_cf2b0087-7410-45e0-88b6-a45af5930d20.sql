@@ -0,0 +1,45 @@
+-- =============================================
+-- VISITANTES - Autorização prévia presa ao condomínio da unidade
+-- O condominium_id vinha do navegador sem conferência: uma autorização podia
+-- aparecer na portaria de outro condomínio. O UPDATE do morador não tinha
+-- WITH CHECK e permitia mover a autorização para outra unidade.
+-- =============================================
+
+DROP POLICY IF EXISTS "Residents can create authorizations for their apartment" ON public.visitor_authorizations;
+DROP POLICY IF EXISTS "Residents can update authorizations for their apartment" ON public.visitor_authorizations;
+
+CREATE POLICY "Residents can create authorizations for their apartment"
+  ON public.visitor_authorizations FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.residents r
+      WHERE r.id = resident_id
+        AND r.apartment_id = visitor_authorizations.apartment_id
+        AND r.user_id = auth.uid()
+    )
+    AND condominium_id = (
+      SELECT b.condominium_id
+      FROM public.apartments a
+      JOIN public.blocks b ON b.id = a.block_id
+      WHERE a.id = visitor_authorizations.apartment_id
+    )
+  );
+
+CREATE POLICY "Residents can update authorizations for their apartment"
+  ON public.visitor_authorizations FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.residents r
+    WHERE r.apartment_id = visitor_authorizations.apartment_id AND r.user_id = auth.uid()
+  ))
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.residents r
+      WHERE r.apartment_id = visitor_authorizations.apartment_id AND r.user_id = auth.uid()
+    )
+    AND condominium_id = (
+      SELECT b.condominium_id
+      FROM public.apartments a
+      JOIN public.blocks b ON b.id = a.block_id
+      WHERE a.id = visitor_authorizations.apartment_id
+    )
+  );
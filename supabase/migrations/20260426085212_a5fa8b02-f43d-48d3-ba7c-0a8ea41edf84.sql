@@ -0,0 +1,8 @@
+-- =============================================
+-- OCORRÊNCIAS - Documentos formais só pela RPC de emissão
+-- A política de INSERT dos gestores ainda aceitava content_hash e situação
+-- informados pelo navegador. Sem ela, documentos só são criados por
+-- issue_occurrence_document, que calcula o hash no servidor.
+-- =============================================
+
+DROP POLICY IF EXISTS "Managers can create occurrence documents" ON public.occurrence_documents;
@@ -0,0 +1,74 @@
+-- =============================================
+-- OCORRÊNCIAS - Decisão pela tela da ocorrência na mesma transação
+-- A tela da ocorrência escolhe a etapa de destino do fluxo; decide_occurrence
+-- passa a aceitar essa etapa para também gravar decisão e multa junto com a
+-- transição.
+-- =============================================
+
+DROP FUNCTION IF EXISTS public.decide_occurrence(uuid, occurrence_status, text);
+
+CREATE OR REPLACE FUNCTION public.decide_occurrence(
+  p_occurrence_id uuid,
+  p_decision occurrence_status,
+  p_justification text,
+  p_to_state text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_occurrence occurrences%ROWTYPE;
+  v_to_state text;
+BEGIN
+  IF p_decision NOT IN ('arquivada', 'advertido', 'multado') THEN
+    RAISE EXCEPTION 'Decisão inválida';
+  END IF;
+
+  SELECT * INTO v_occurrence FROM occurrences WHERE id = p_occurrence_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ocorrência não encontrada';
+  END IF;
+
+  -- Etapa do fluxo do condomínio que corresponde à decisão (ou a escolhida pelo síndico)
+  SELECT t.to_state INTO v_to_state
+  FROM occurrence_workflow_transitions t
+  JOIN occurrence_workflow_states s
+    ON s.condominium_id = t.condominium_id AND s.key = t.to_state
+  WHERE t.condominium_id = v_occurrence.condominium_id
+    AND t.from_state = v_occurrence.workflow_state
+    AND s.base_status = p_decision
+    AND (p_to_state IS NULL OR t.to_state = p_to_state)
+    AND 'sindico' = ANY (t.allowed_roles)
+  ORDER BY t.display_order
+  LIMIT 1;
+
+  IF v_to_state IS NULL THEN
+    RAISE EXCEPTION 'O fluxo de ocorrências do condomínio não permite esta decisão na etapa atual';
+  END IF;
+
+  -- Valida papel, permissão occurrences.decide e campos obrigatórios
+  PERFORM transition_occurrence(p_occurrence_id, v_to_state, p_justification);
+
+  INSERT INTO decisions (occurrence_id, decided_by, decision, justification)
+  VALUES (p_occurrence_id, auth.uid(), p_decision, btrim(p_justification));
+
+  IF p_decision = 'multado' THEN
+    IF v_occurrence.resident_id IS NULL THEN
+      RAISE EXCEPTION 'A ocorrência não possui morador vinculado para a multa';
+    END IF;
+
+    INSERT INTO fines (occurrence_id, resident_id, amount, due_date, status)
+    VALUES (
+      p_occurrence_id,
+      v_occurrence.resident_id,
+      100,
+      (now() AT TIME ZONE 'America/Sao_Paulo')::date + 30,
+      'em_aberto'
+    );
+  END IF;
+
+  RETURN v_to_state;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- =============================================
+-- ADMINISTRADORAS - Alterações de administradores sem troca de titularidade
+-- As políticas de UPDATE de organizations e organization_members não tinham
+-- WITH CHECK: um administrador podia assumir owner_id da organização ou reescrever
+-- user_id / organization_id de um membro para incluir ou mover usuários.
+-- As colunas de identidade passam a ser fixadas no WITH CHECK (a subconsulta lê
+-- a linha como estava antes do UPDATE); só o super admin pode alterá-las.
+-- =============================================
+
+-- 1. Organizações: owner_id não pode ser alterado por administradores
+DROP POLICY IF EXISTS "Organization admins can update organizations" ON public.organizations;
+
+CREATE POLICY "Organization admins can update organizations"
+  ON public.organizations FOR UPDATE
+  USING (public.is_organization_admin(auth.uid(), id))
+  WITH CHECK (
+    public.is_organization_admin(auth.uid(), id)
+    AND owner_id = (
+      SELECT o.owner_id FROM public.organizations o WHERE o.id = organizations.id
+    )
+  );
+
+-- 2. Membros: user_id e organization_id não podem ser alterados por administradores
+DROP POLICY IF EXISTS "Organization admins can update members" ON public.organization_members;
+
+CREATE POLICY "Organization admins can update members"
+  ON public.organization_members FOR UPDATE
+  USING (public.is_organization_admin(auth.uid(), organization_id))
+  WITH CHECK (
+    public.is_organization_admin(auth.uid(), organization_id)
+    AND EXISTS (
+      SELECT 1 FROM public.organization_members om
+      WHERE om.id = organization_members.id
+        AND om.user_id = organization_members.user_id
+        AND om.organization_id = organization_members.organization_id
+    )
+  );
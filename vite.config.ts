@@ -1,15 +1,71 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { VitePWA } from "vite-plugin-pwa";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lookup tables the porteiro forms need to keep working without connection. Tables
+// with personal data (residents) stay out; the cache is cleared on sign-out.
+const OFFLINE_LOOKUP_TABLES = [
+  "user_condominiums",
+  "condominiums",
+  "blocks",
+  "apartments",
+  "package_types",
+  "package_storage_locations",
+  "porter_occurrence_categories",
+  "shift_checklist_templates",
+];
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    VitePWA({
+      registerType: "autoUpdate",
+      includeAssets: ["favicon.png", "favicon.ico"],
+      manifest: {
+        name: "NotificaCondo Portaria",
+        short_name: "Portaria",
+        description: "Registro de encomendas, ocorrências e passagem de plantão da portaria",
+        lang: "pt-BR",
+        start_url: "/porteiro",
+        scope: "/",
+        display: "standalone",
+        background_color: "#ffffff",
+        theme_color: "#0b64f4",
+        icons: [
+          { src: "/pwa-192x192.png", sizes: "192x192", type: "image/png" },
+          { src: "/pwa-512x512.png", sizes: "512x512", type: "image/png" },
+          { src: "/pwa-maskable-512x512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,webp,woff2}"],
+        maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
+        navigateFallback: "/index.html",
+        navigateFallbackDenylist: [/^\/~oauth/],
+        runtimeCaching: [
+          {
+            urlPattern: new RegExp(`^https://[^/]+\\.supabase\\.co/rest/v1/(${OFFLINE_LOOKUP_TABLES.join("|")})(\\?|$)`),
+            handler: "NetworkFirst",
+            options: {
+              // Also referenced by useAuth.signOut
+              cacheName: "porteiro-lookups",
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 300, maxAgeSeconds: 60 * 60 * 24 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
+    }),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),